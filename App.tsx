@@ -20,6 +20,7 @@ import Sidebar from './components/Sidebar';
 import BottomNavBar from './components/BottomNavBar';
 import HeaderActions from './components/HeaderActions';
 import SearchWidget from './components/SearchWidget';
+import AllocationCleanupPrompt from './components/AllocationCleanupPrompt';
 import { SpinnerIcon } from './components/icons';
 import { FormFieldFeedback } from './components/forms';
 
@@ -54,6 +55,7 @@ const SkillsPage = lazy(() => import('./pages/SkillsPage'));
 const SkillAnalysisPage = lazy(() => import('./pages/SkillAnalysisPage'));
 const CertificationsPage = lazy(() => import('./pages/CertificationsPage'));
 const LeavePage = lazy(() => import('./pages/LeavePage'));
+const TimesheetPage = lazy(() => import('./pages/TimesheetPage'));
 const NotificationsPage = lazy(() => import('./pages/NotificationsPage'));
 const NotificationSettingsPage = lazy(() => import('./pages/NotificationSettingsPage'));
 const ResourceRequestPage = lazy(() => import('./pages/ResourceRequestPage').then(module => ({ default: module.ResourceRequestPage })));
@@ -219,6 +221,7 @@ const AppContent: React.FC<AppContentProps> = ({ onToggleSidebar }) => {
               <Route path="/manuale-utente" element={<DynamicRoute path="/manuale-utente"><UserManualPage /></DynamicRoute>} />
               <Route path="/simple-user-manual" element={<DynamicRoute path="/simple-user-manual"><SimpleUserManualPage /></DynamicRoute>} />
               <Route path="/leaves" element={<DynamicRoute path="/leaves"><LeavePage /></DynamicRoute>} />
+              <Route path="/timesheets" element={<DynamicRoute path="/timesheets"><TimesheetPage /></DynamicRoute>} />
               <Route path="/notifications" element={<DynamicRoute path="/notifications"><NotificationsPage /></DynamicRoute>} />
               <Route path="/revenue" element={<DynamicRoute path="/revenue"><RevenuePage /></DynamicRoute>} />
               <Route path="/performance" element={<DynamicRoute path="/performance"><PerformanceTimelinePage /></DynamicRoute>} />
@@ -298,6 +301,7 @@ const MainLayout: React.FC = () => {
         <AppContent onToggleSidebar={() => setIsSidebarOpen(true)} />
         <BottomNavBar onMenuClick={() => setIsSidebarOpen(true)} />
       </div>
+      <AllocationCleanupPrompt />
     </>
   );
 };
@@ -0,0 +1,91 @@
+/**
+ * @file api/_lib/allocationChanges.ts
+ * @description Storico delle modifiche di cella delle allocazioni (`allocation_changes`, scritto dal
+ * trigger su `allocations`): attribuzione dell'autore alla transazione, storico di una cella e
+ * ricostruzione delle allocazioni di una finestra a un istante passato.
+ * Usata da `api/staffing.ts`, `api/resources.ts` e `api/import.ts`.
+ */
+import type { VercelPoolClient } from '@vercel/postgres';
+import { collapseAllocationChanges, type AllocationChangeRow } from '../../utils/allocationChangeUtils.js';
+import type { Allocation, AllocationAsOfResponse, AllocationChangeEntry } from '../../types';
+
+type Queryable = Pick<VercelPoolClient, 'query'>;
+
+const toIso = (value: Date | string): string => (value instanceof Date ? value.toISOString() : value);
+
+/**
+ * Intesta all'utente le scritture di allocazioni della transazione corrente (da chiamare dopo BEGIN):
+ * le impostazioni sono locali alla transazione e le legge il trigger dello storico.
+ */
+export const setAllocationAuditUser = async (
+    client: Queryable,
+    user: { id?: string | null; username?: string | null } | null
+): Promise<void> => {
+    await client.query(
+        `SELECT set_config('app.audit_user_id', $1, true), set_config('app.audit_username', $2, true)`,
+        [user?.id ?? '', user?.username ?? '']
+    );
+};
+
+/** Storico di una cella dal più recente (al massimo `limit` scritture). */
+export const loadAllocationChanges = async (
+    client: Queryable,
+    assignmentId: string,
+    date: string,
+    limit = 200
+): Promise<AllocationChangeEntry[]> => {
+    const res = await client.query(
+        `SELECT seq, old_percentage, new_percentage, changed_by, changed_at
+         FROM allocation_changes WHERE assignment_id = $1 AND allocation_date = $2
+         ORDER BY seq DESC LIMIT $3`,
+        [assignmentId, date, limit]
+    );
+    const rows: AllocationChangeRow[] = res.rows.map(r => ({
+        seq: Number(r.seq),
+        assignmentId,
+        date,
+        oldPercentage: Number(r.old_percentage),
+        newPercentage: Number(r.new_percentage),
+        changedAt: toIso(r.changed_at),
+        changedBy: r.changed_by,
+    }));
+    return collapseAllocationChanges(rows);
+};
+
+/**
+ * Allocazioni della finestra all'istante `asOf`: il valore attuale delle celle non modificate da allora,
+ * altrimenti il valore precedente alla prima modifica successiva.
+ */
+export const loadAllocationsAsOf = async (
+    client: Queryable,
+    asOf: string,
+    start: string,
+    end: string
+): Promise<AllocationAsOfResponse> => {
+    const [cellsRes, trackedRes] = await Promise.all([
+        client.query(
+            `WITH later AS (
+                SELECT DISTINCT ON (assignment_id, allocation_date) assignment_id, allocation_date, old_percentage
+                FROM allocation_changes
+                WHERE changed_at > $1::timestamptz AND allocation_date BETWEEN $2 AND $3
+                ORDER BY assignment_id, allocation_date, seq
+            )
+            SELECT a.assignment_id, to_char(a.allocation_date, 'YYYY-MM-DD') AS date, a.percentage
+            FROM allocations a
+            WHERE a.allocation_date BETWEEN $2 AND $3
+              AND NOT EXISTS (SELECT 1 FROM later l WHERE l.assignment_id = a.assignment_id AND l.allocation_date = a.allocation_date)
+            UNION ALL
+            SELECT l.assignment_id, to_char(l.allocation_date, 'YYYY-MM-DD') AS date, l.old_percentage AS percentage
+            FROM later l WHERE l.old_percentage > 0`,
+            [asOf, start, end]
+        ),
+        client.query('SELECT MIN(changed_at) AS tracked_since FROM allocation_changes'),
+    ]);
+    const allocations: Allocation = {};
+    cellsRes.rows.forEach(({ assignment_id, date, percentage }) => {
+        if (!allocations[assignment_id]) allocations[assignment_id] = {};
+        allocations[assignment_id][date] = Number(percentage);
+    });
+    const trackedSince = trackedRes.rows[0]?.tracked_since;
+    return { asOf, start, end, allocations, trackedSince: trackedSince ? toIso(trackedSince) : null };
+};
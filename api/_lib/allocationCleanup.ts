@@ -0,0 +1,82 @@
+/**
+ * @file api/_lib/allocationCleanup.ts
+ * @description Pulizia server-side delle allocazioni oltre il limite di una risorsa
+ * (dimissioni, ultimo giorno di lavoro) o di un progetto (data di fine anticipata).
+ * Condivisa dal PUT di `api/resources.ts` (policy AUTO) e da
+ * `POST /api/staffing?action=cleanup` (conferma della policy ASK).
+ */
+import type { VercelPoolClient } from '@vercel/postgres';
+import { v4 as uuidv4 } from 'uuid';
+import { buildAllocationCleanupSummary } from '../../utils/allocationCleanupUtils.js';
+import { refreshContractBacklogs } from './contractBacklog.js';
+import type { AllocationCleanupScope, AllocationCleanupSummary } from '../../types';
+
+/** Riepilogo (non applicato) delle allocazioni successive a `boundaryDate`; null se non ce ne sono. */
+export const collectAllocationCleanup = async (
+    client: VercelPoolClient,
+    scope: AllocationCleanupScope,
+    entityId: string,
+    boundaryDate: string
+): Promise<AllocationCleanupSummary | null> => {
+    const column = scope === 'resource' ? 'resource_id' : 'project_id';
+    const rowsRes = await client.query(
+        `SELECT a.assignment_id, asg.project_id, a.percentage
+         FROM allocations a JOIN assignments asg ON asg.id = a.assignment_id
+         WHERE asg.${column} = $1 AND a.allocation_date > $2 AND a.percentage > 0`,
+        [entityId, boundaryDate]
+    );
+    return buildAllocationCleanupSummary(
+        scope,
+        entityId,
+        boundaryDate,
+        rowsRes.rows.map(r => ({ assignmentId: r.assignment_id, projectId: r.project_id, percentage: Number(r.percentage) })),
+        false
+    );
+};
+
+/**
+ * Rimuove le allocazioni del riepilogo successive al limite (riallineando il backlog dei
+ * contratti collegati) e avvisa, con una notifica in-app per ciascuno, i PM dei progetti
+ * coinvolti (risolti per nome come `project_manager`).
+ */
+export const applyAllocationCleanup = async (
+    client: VercelPoolClient,
+    summary: AllocationCleanupSummary
+): Promise<AllocationCleanupSummary> => {
+    await client.query(
+        'DELETE FROM allocations WHERE assignment_id = ANY($1::uuid[]) AND allocation_date > $2',
+        [summary.assignmentIds, summary.boundaryDate]
+    );
+    await refreshContractBacklogs(client, { projectIds: summary.projects.map(p => p.projectId) });
+
+    const projectsRes = await client.query(
+        `SELECT p.id, p.name, r.id AS manager_id
+         FROM projects p LEFT JOIN resources r ON LOWER(r.name) = LOWER(p.project_manager)
+         WHERE p.id = ANY($1::uuid[])`,
+        [summary.projects.map(p => p.projectId)]
+    );
+    const subjectRes = await client.query(
+        `SELECT name FROM ${summary.scope === 'resource' ? 'resources' : 'projects'} WHERE id = $1`,
+        [summary.entityId]
+    );
+    const subject = subjectRes.rows[0]?.name || summary.entityId;
+    const daysByProject = new Map(summary.projects.map(p => [p.projectId, p.removedPersonDays]));
+
+    const byManager = new Map<string, string[]>();
+    for (const row of projectsRes.rows) {
+        if (!row.manager_id) continue;
+        const lines = byManager.get(row.manager_id) || [];
+        lines.push(`${row.name} (${daysByProject.get(row.id)} g/u)`);
+        byManager.set(row.manager_id, lines);
+    }
+    const reason = summary.scope === 'resource'
+        ? `Uscita di ${subject} dal ${summary.boundaryDate}`
+        : `Chiusura anticipata di ${subject} al ${summary.boundaryDate}`;
+    for (const [managerId, lines] of byManager) {
+        await client.query(
+            'INSERT INTO notifications (id, recipient_resource_id, title, message, link) VALUES ($1, $2, $3, $4, $5)',
+            [uuidv4(), managerId, 'Allocazioni rimosse', `${reason}: rimosse le allocazioni successive su ${lines.join(', ')}.`, '/staffing']
+        );
+    }
+    return { ...summary, applied: true };
+};
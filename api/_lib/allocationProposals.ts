@@ -0,0 +1,128 @@
+/**
+ * @file api/_lib/allocationProposals.ts
+ * @description Proposte di modifica delle allocazioni (modalità di approvazione REQUIRED):
+ * caricamento della linea manageriale, elenco delle proposte in attesa e creazione delle
+ * proposte con notifica ai manager della risorsa.
+ * Condivisa da `api/data.ts` (proposte in attesa nello scope planning) e da `api/staffing.ts`.
+ */
+import type { VercelPoolClient } from '@vercel/postgres';
+import { v4 as uuidv4 } from 'uuid';
+import { canReviewAllocationProposal, getResourceApprovers, type ApprovalUser } from '../../utils/allocationApprovalUtils.js';
+import type { AllocationProposal, AllocationUpdate } from '../../types';
+import { isLoginProtectionEnabled } from './auth.js';
+
+type Queryable = Pick<VercelPoolClient, 'query'>;
+
+/** Utenti attivi con risorsa collegata e manager (`manager_ids` JSONB). */
+export const loadApprovalUsers = async (client: Queryable): Promise<ApprovalUser[]> => {
+    const usersRes = await client.query('SELECT id, role, resource_id, manager_ids FROM app_users WHERE is_active IS NOT FALSE');
+    return usersRes.rows.map(r => ({
+        id: r.id,
+        role: r.role,
+        resourceId: r.resource_id,
+        managerIds: Array.isArray(r.manager_ids) ? r.manager_ids : [],
+    }));
+};
+
+export const PROPOSAL_SELECT = `
+    SELECT p.id, p.batch_id, p.assignment_id, asg.resource_id, asg.project_id,
+           to_char(p.allocation_date, 'YYYY-MM-DD') AS date, p.percentage, p.previous_percentage,
+           p.proposed_by, p.status, p.created_at, p.reviewed_by, p.reviewed_at, p.review_notes
+    FROM allocation_proposals p JOIN assignments asg ON asg.id = p.assignment_id`;
+
+export const toAllocationProposal = (r: any): AllocationProposal => ({
+    id: r.id,
+    batchId: r.batch_id,
+    assignmentId: r.assignment_id,
+    resourceId: r.resource_id,
+    projectId: r.project_id,
+    date: r.date,
+    percentage: Number(r.percentage),
+    previousPercentage: Number(r.previous_percentage),
+    proposedBy: r.proposed_by,
+    status: r.status,
+    createdAt: r.created_at instanceof Date ? r.created_at.toISOString() : r.created_at,
+    reviewedBy: r.reviewed_by,
+    reviewedAt: r.reviewed_at instanceof Date ? r.reviewed_at.toISOString() : r.reviewed_at,
+    reviewNotes: r.review_notes,
+});
+
+/**
+ * Proposte in attesa, con `canReview` calcolato per l'utente corrente. Senza utente ogni
+ * proposta è revisionabile solo se la protezione login è disattiva.
+ */
+export const loadPendingAllocationProposals = async (
+    client: Queryable,
+    reviewer: { id: string; role: string } | null
+): Promise<AllocationProposal[]> => {
+    const [proposalsRes, users, isProtected] = await Promise.all([
+        client.query(`${PROPOSAL_SELECT} WHERE p.status = 'PENDING' ORDER BY p.created_at, p.allocation_date`),
+        loadApprovalUsers(client),
+        reviewer ? Promise.resolve(true) : isLoginProtectionEnabled(client),
+    ]);
+    return proposalsRes.rows.map(r => ({
+        ...toAllocationProposal(r),
+        canReview: reviewer ? canReviewAllocationProposal(reviewer, r.resource_id, users) : !isProtected,
+    }));
+};
+
+/**
+ * Registra le modifiche come proposte (un lotto per batch), sostituendo le proposte ancora in
+ * attesa sulle stesse giornate, e notifica i manager diretti delle risorse coinvolte.
+ * Va eseguita dentro la transazione della scrittura allocazioni.
+ */
+export const createAllocationProposals = async (
+    client: VercelPoolClient,
+    proposed: AllocationUpdate[],
+    editor: { id: string; username: string },
+    users: ApprovalUser[]
+): Promise<AllocationProposal[]> => {
+    if (proposed.length === 0) return [];
+    const batchId = uuidv4();
+    const assignmentIds = proposed.map(u => u.assignmentId);
+    const dates = proposed.map(u => u.date);
+
+    await client.query(
+        `DELETE FROM allocation_proposals p
+         USING unnest($1::uuid[], $2::date[]) AS t(assignment_id, allocation_date)
+         WHERE p.status = 'PENDING' AND p.assignment_id = t.assignment_id AND p.allocation_date = t.allocation_date`,
+        [assignmentIds, dates]
+    );
+    await client.query(
+        `INSERT INTO allocation_proposals (id, batch_id, assignment_id, allocation_date, percentage, previous_percentage, proposed_by_user_id, proposed_by)
+         SELECT t.id, $1, t.assignment_id, t.allocation_date, t.percentage, COALESCE(a.percentage, 0), $6, $7
+         FROM unnest($2::uuid[], $3::uuid[], $4::date[], $5::int[]) AS t(id, assignment_id, allocation_date, percentage)
+         LEFT JOIN allocations a ON a.assignment_id = t.assignment_id AND a.allocation_date = t.allocation_date`,
+        [batchId, proposed.map(() => uuidv4()), assignmentIds, dates, proposed.map(u => u.percentage), editor.id, editor.username]
+    );
+    const createdRes = await client.query(`${PROPOSAL_SELECT} WHERE p.batch_id = $1 ORDER BY p.allocation_date`, [batchId]);
+    const proposals = createdRes.rows.map(toAllocationProposal);
+
+    const namesRes = await client.query(
+        `SELECT asg.id, r.name AS res_name, p.name AS proj_name
+         FROM assignments asg JOIN resources r ON r.id = asg.resource_id JOIN projects p ON p.id = asg.project_id
+         WHERE asg.id = ANY($1::uuid[])`,
+        [Array.from(new Set(assignmentIds))]
+    );
+    const names = new Map(namesRes.rows.map(r => [r.id, r]));
+    const byResource = new Map<string, AllocationProposal[]>();
+    proposals.forEach(p => byResource.set(p.resourceId, [...(byResource.get(p.resourceId) || []), p]));
+    for (const [resourceId, resourceProposals] of byResource) {
+        const first = names.get(resourceProposals[0].assignmentId);
+        const projects = Array.from(new Set(resourceProposals.map(p => names.get(p.assignmentId)?.proj_name).filter(Boolean))).join(', ');
+        for (const approver of getResourceApprovers(resourceId, users)) {
+            if (!approver.resourceId) continue;
+            await client.query(
+                'INSERT INTO notifications (id, recipient_resource_id, title, message, link) VALUES ($1, $2, $3, $4, $5)',
+                [
+                    uuidv4(),
+                    approver.resourceId,
+                    'Proposta di Allocazione',
+                    `${editor.username} propone di modificare ${resourceProposals.length} giornate di ${first?.res_name ?? 'una risorsa'} (${projects}).`,
+                    '/notifications',
+                ]
+            );
+        }
+    }
+    return proposals;
+};
@@ -7,6 +7,10 @@
 import { env } from './env.js';
 import jwt from 'jsonwebtoken';
 import type { VercelRequest } from '@vercel/node';
+import type { VercelPoolClient } from '@vercel/postgres';
+
+/** Chiave `app_config` della protezione login (valore `'true'` quando attiva). */
+export const LOGIN_PROTECTION_CONFIG_KEY = 'login_protection_enabled';
 
 export const OPERATIONAL_ROLES: string[] = [
     'ADMIN',
@@ -55,3 +59,13 @@ export const getUserFromRequest = (req: VercelRequest): { id: string; username:
         return { id: decoded.userId, username: decoded.username, role: decoded.role };
     } catch (e) { return null; }
 };
+
+/**
+ * Legge la protezione login. Politica comune alle azioni legate all'identità (approvazioni,
+ * timesheet): con la protezione attiva una richiesta senza utente è rifiutata con 401; senza
+ * protezione l'app non ha identità e la richiesta anonima ha pieni diritti, come nel frontend.
+ */
+export const isLoginProtectionEnabled = async (client: Pick<VercelPoolClient, 'query'>): Promise<boolean> => {
+    const { rows } = await client.query('SELECT value FROM app_config WHERE key = $1', [LOGIN_PROTECTION_CONFIG_KEY]);
+    return rows[0]?.value === 'true';
+};
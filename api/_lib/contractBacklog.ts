@@ -0,0 +1,151 @@
+/**
+ * @file api/_lib/contractBacklog.ts
+ * @description Backlog e burn-down della capienza dei contratti lato server. `refreshContractBacklogs`
+ * riallinea `contracts.backlog` dopo ogni modifica che cambia il valore dei progetti collegati
+ * (allocazioni, spese, milestone, collegamenti, tariffe del listino), `refreshContractBacklogsAfterCommit`
+ * fa lo stesso fuori transazione per i salvataggi delle allocazioni; `loadContractBurndowns`
+ * serve `GET /api/staffing?action=burndown`. Il calcolo è in `utils/contractBurndownUtils`.
+ */
+import type { VercelPoolClient } from '@vercel/postgres';
+import {
+    buildContractBurndowns, CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY, parseContractExhaustionAlertWeeks,
+} from '../../utils/contractBurndownUtils.js';
+import { toISODateString } from '../../utils/dateUtils.js';
+import type { ContractBurndown } from '../../types';
+
+/** Modifiche da cui dipende il backlog: i contratti coinvolti sono quelli collegati a una di queste entità. */
+export interface ContractBacklogScope {
+    contractIds?: string[];
+    projectIds?: string[];
+    assignmentIds?: string[];
+    rateCardIds?: string[];
+}
+
+const PERIOD_COLUMNS = `to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date`;
+
+/** Burn-down dei contratti indicati (tutti con `contractIds` null) alla data odierna. */
+export const loadContractBurndowns = async (
+    client: VercelPoolClient,
+    contractIds: string[] | null
+): Promise<ContractBurndown[]> => {
+    const contractsRes = await client.query(
+        `SELECT id, capienza, rate_card_id, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+         FROM contracts WHERE $1::uuid[] IS NULL OR id = ANY($1::uuid[])`,
+        [contractIds]
+    );
+    if (contractsRes.rows.length === 0) return [];
+    const ids = contractsRes.rows.map(r => r.id);
+    const rateCardIds = Array.from(new Set(contractsRes.rows.map(r => r.rate_card_id).filter(Boolean)));
+
+    const [linksRes, projectsRes, configRes] = await Promise.all([
+        client.query('SELECT contract_id, project_id FROM contract_projects WHERE contract_id = ANY($1::uuid[])', [ids]),
+        client.query(
+            `SELECT id, billing_type, contract_id FROM projects
+             WHERE contract_id = ANY($1::uuid[]) OR id IN (SELECT project_id FROM contract_projects WHERE contract_id = ANY($1::uuid[]))`,
+            [ids]
+        ),
+        client.query('SELECT value FROM app_config WHERE key = $1', [CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY]),
+    ]);
+    const projectIds = projectsRes.rows.map(r => r.id);
+
+    const [allocationsRes, expensesRes, milestonesRes, entriesRes, historyRes, linesRes, rolesRes, rateCardsRes, fxRes] = await Promise.all([
+        client.query(
+            `SELECT asg.project_id, asg.resource_id, COALESCE(r.role_id, asg.role_id) AS role_id,
+                    to_char(a.allocation_date, 'YYYY-MM-DD') AS date, a.percentage
+             FROM allocations a JOIN assignments asg ON asg.id = a.assignment_id LEFT JOIN resources r ON r.id = asg.resource_id
+             WHERE asg.project_id = ANY($1::uuid[]) AND a.percentage > 0`,
+            [projectIds]
+        ),
+        client.query(
+            `SELECT project_id, amount, to_char(date, 'YYYY-MM-DD') AS date, billable FROM project_expenses
+             WHERE project_id = ANY($1::uuid[]) AND billable = TRUE`,
+            [projectIds]
+        ),
+        client.query(
+            `SELECT project_id, amount, to_char(date, 'YYYY-MM-DD') AS date FROM billing_milestones WHERE project_id = ANY($1::uuid[])`,
+            [projectIds]
+        ),
+        client.query('SELECT rate_card_id, resource_id, daily_rate FROM rate_card_entries WHERE rate_card_id = ANY($1::uuid[])', [rateCardIds]),
+        client.query(
+            `SELECT rate_card_id, resource_id, daily_rate, ${PERIOD_COLUMNS} FROM rate_card_entry_history WHERE rate_card_id = ANY($1::uuid[])`,
+            [rateCardIds]
+        ),
+        client.query(
+            `SELECT rate_card_id, line_type, line_key, daily_rate, ${PERIOD_COLUMNS} FROM rate_card_lines WHERE rate_card_id = ANY($1::uuid[])`,
+            [rateCardIds]
+        ),
+        client.query('SELECT id, seniority_level FROM roles'),
+        client.query('SELECT id, currency FROM rate_cards WHERE id = ANY($1::uuid[])', [rateCardIds]),
+        client.query(`SELECT currency, rate, to_char(valid_from, 'YYYY-MM-DD') AS valid_from, to_char(valid_to, 'YYYY-MM-DD') AS valid_to FROM fx_rates`),
+    ]);
+
+    return buildContractBurndowns(
+        contractsRes.rows.map(r => ({
+            id: r.id, capienza: Number(r.capienza), rateCardId: r.rate_card_id, startDate: r.start_date, endDate: r.end_date,
+        })),
+        {
+            contractProjects: linksRes.rows.map(r => ({ contractId: r.contract_id, projectId: r.project_id })),
+            projects: projectsRes.rows.map(r => ({ id: r.id, billingType: r.billing_type, contractId: r.contract_id })),
+            allocations: allocationsRes.rows.map(r => ({
+                projectId: r.project_id, resourceId: r.resource_id, roleId: r.role_id, date: r.date, percentage: Number(r.percentage),
+            })),
+            expenses: expensesRes.rows.map(r => ({ projectId: r.project_id, amount: Number(r.amount), date: r.date, billable: r.billable })),
+            milestones: milestonesRes.rows.map(r => ({ projectId: r.project_id, amount: Number(r.amount), date: r.date })),
+            rates: {
+                entries: entriesRes.rows.map(r => ({ rateCardId: r.rate_card_id, resourceId: r.resource_id, dailyRate: Number(r.daily_rate) })),
+                history: historyRes.rows.map(r => ({
+                    rateCardId: r.rate_card_id, resourceId: r.resource_id, dailyRate: Number(r.daily_rate), startDate: r.start_date, endDate: r.end_date,
+                })),
+                lines: linesRes.rows.map(r => ({
+                    rateCardId: r.rate_card_id, lineType: r.line_type, lineKey: r.line_key, dailyRate: Number(r.daily_rate), startDate: r.start_date, endDate: r.end_date,
+                })),
+                roles: rolesRes.rows.map(r => ({ id: r.id, seniorityLevel: r.seniority_level })),
+            },
+            rateCards: rateCardsRes.rows.map(r => ({ id: r.id, currency: r.currency })),
+            fxRates: fxRes.rows.map(r => ({ currency: r.currency, rate: Number(r.rate), validFrom: r.valid_from, validTo: r.valid_to })),
+        },
+        toISODateString(new Date()),
+        parseContractExhaustionAlertWeeks(configRes.rows[0]?.value)
+    );
+};
+
+/**
+ * Ricalcola e salva il backlog dei contratti toccati da una modifica. Da chiamare nella stessa
+ * transazione della scrittura; il backlog è un valore derivato e non incrementa `version`,
+ * così non entra in conflitto con le modifiche al contratto in corso.
+ */
+export const refreshContractBacklogs = async (client: VercelPoolClient, scope: ContractBacklogScope): Promise<void> => {
+    const contractsRes = await client.query(
+        `SELECT c.id FROM contracts c
+         WHERE c.id = ANY($1::uuid[])
+            OR c.rate_card_id = ANY($2::uuid[])
+            OR c.id IN (SELECT contract_id FROM contract_projects WHERE project_id = ANY($3::uuid[]))
+            OR c.id IN (SELECT contract_id FROM projects WHERE id = ANY($3::uuid[]))
+            OR c.id IN (SELECT cp.contract_id FROM contract_projects cp JOIN assignments asg ON asg.project_id = cp.project_id WHERE asg.id = ANY($4::uuid[]))
+            OR c.id IN (SELECT p.contract_id FROM projects p JOIN assignments asg ON asg.project_id = p.id WHERE asg.id = ANY($4::uuid[]))`,
+        [scope.contractIds ?? [], scope.rateCardIds ?? [], scope.projectIds ?? [], scope.assignmentIds ?? []]
+    );
+    if (contractsRes.rows.length === 0) return;
+
+    const burndowns = await loadContractBurndowns(client, contractsRes.rows.map(r => r.id));
+    await client.query(
+        `UPDATE contracts c SET backlog = t.backlog
+         FROM unnest($1::uuid[], $2::numeric[]) AS t(id, backlog)
+         WHERE c.id = t.id AND c.backlog IS DISTINCT FROM t.backlog`,
+        [burndowns.map(b => b.contractId), burndowns.map(b => b.backlog)]
+    );
+};
+
+/**
+ * Come `refreshContractBacklogs`, ma da chiamare dopo il COMMIT dei salvataggi frequenti (griglia di
+ * staffing, revisione delle proposte): il ricalcolo legge tutti i progetti dei contratti e aggiorna le
+ * loro righe, e dentro la transazione allungherebbe i lock a ogni modifica di cella. Il backlog è un
+ * valore derivato: un errore viene registrato senza far fallire la scrittura già confermata.
+ */
+export const refreshContractBacklogsAfterCommit = async (client: VercelPoolClient, scope: ContractBacklogScope): Promise<void> => {
+    try {
+        await refreshContractBacklogs(client, scope);
+    } catch (error) {
+        console.warn('[contractBacklog] ricalcolo del backlog non riuscito:', (error as Error).message);
+    }
+};
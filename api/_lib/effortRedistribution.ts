@@ -0,0 +1,161 @@
+/**
+ * @file api/_lib/effortRedistribution.ts
+ * @description Redistribuzione server-side dei piani di effort sulla capacità delle risorse.
+ * Condivisa da `api/staffing.ts` (salvataggio del piano) e dalle scritture delle assenze in
+ * `api/resources.ts`, che ridistribuiscono i piani della risorsa nella stessa transazione.
+ */
+import type { VercelPoolClient } from '@vercel/postgres';
+import { buildEffortRedistribution, toEffortAllocationUpdates } from '../../utils/effortPlanningUtils.js';
+import { checkStaffingRules } from './staffingRules.js';
+import type { Allocation, Assignment, EffortDistributionResult, LocationCalendar, StaffingRule, StaffingRuleViolation } from '../../types';
+
+/** Calendari lavorativi delle sedi (settimana lavorativa e chiusure ricorrenti) per i controlli di capacità. */
+export const loadLocationCalendars = async (client: VercelPoolClient): Promise<LocationCalendar[]> => {
+    const { rows } = await client.query('SELECT location, working_days, daily_hours, recurring_closures FROM location_calendars');
+    return rows.map(r => ({
+        location: r.location,
+        workingDays: r.working_days || [],
+        dailyHours: Number(r.daily_hours),
+        recurringClosures: r.recurring_closures || [],
+    }));
+};
+
+export type EffortAssignment = Pick<Assignment, 'id' | 'resourceId' | 'plannedEffortDays' | 'effortStartDate' | 'effortEndDate'>;
+
+export const EFFORT_ASSIGNMENT_COLUMNS = `id, resource_id, planned_effort_days,
+    to_char(effort_start_date, 'YYYY-MM-DD') AS effort_start_date,
+    to_char(effort_end_date, 'YYYY-MM-DD') AS effort_end_date`;
+
+export const toEffortAssignment = (row: any): EffortAssignment => ({
+    id: row.id,
+    resourceId: row.resource_id,
+    plannedEffortDays: row.planned_effort_days === null ? null : Number(row.planned_effort_days),
+    effortStartDate: row.effort_start_date,
+    effortEndDate: row.effort_end_date,
+});
+
+/**
+ * Ricalcola la distribuzione del piano di effort di un'assegnazione sulla capacità
+ * residua della risorsa (al netto delle altre assegnazioni) e sostituisce le
+ * allocazioni della finestra, riportando le violazioni delle regole di staffing.
+ * Va eseguita dentro una transazione, su un'assegnazione con piano completo (`hasEffortPlan`).
+ */
+export const redistributeEffort = async (
+    client: VercelPoolClient,
+    assignment: EffortAssignment,
+    previousWindow: { startDate: string; endDate: string } | null,
+    staffingRules: StaffingRule[]
+): Promise<EffortDistributionResult> => {
+    const startDate = assignment.effortStartDate!;
+    const endDate = assignment.effortEndDate!;
+
+    const [resourceRes, siblingsRes, allocationsRes, leavesRes, leaveTypesRes, calendarRes, locationCalendars] = await Promise.all([
+        client.query(
+            `SELECT id, max_staffing_percentage, location, to_char(last_day_of_work, 'YYYY-MM-DD') AS last_day_of_work
+             FROM resources WHERE id = $1`,
+            [assignment.resourceId]
+        ),
+        client.query('SELECT id, resource_id FROM assignments WHERE resource_id = $1', [assignment.resourceId]),
+        client.query(
+            `SELECT al.assignment_id, to_char(al.allocation_date, 'YYYY-MM-DD') AS allocation_date, al.percentage
+             FROM allocations al JOIN assignments a ON a.id = al.assignment_id
+             WHERE a.resource_id = $1 AND a.id <> $2 AND al.allocation_date >= $3 AND al.allocation_date <= $4`,
+            [assignment.resourceId, assignment.id, startDate, endDate]
+        ),
+        client.query(
+            `SELECT resource_id, type_id, status, is_half_day,
+                    to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+             FROM leave_requests
+             WHERE resource_id = $1 AND status = 'APPROVED' AND start_date <= $3 AND end_date >= $2`,
+            [assignment.resourceId, startDate, endDate]
+        ),
+        client.query('SELECT id, affects_capacity FROM leave_types'),
+        client.query(
+            `SELECT name, type, location, to_char(date, 'YYYY-MM-DD') AS date
+             FROM company_calendar WHERE date >= $1 AND date <= $2`,
+            [startDate, endDate]
+        ),
+        loadLocationCalendars(client),
+    ]);
+    const resourceRow = resourceRes.rows[0];
+    if (!resourceRow) throw new Error('Risorsa dell\'assegnazione non trovata.');
+
+    const allocations: Allocation = {};
+    for (const row of allocationsRes.rows) {
+        if (!allocations[row.assignment_id]) allocations[row.assignment_id] = {};
+        allocations[row.assignment_id][row.allocation_date] = Number(row.percentage);
+    }
+
+    const result = buildEffortRedistribution({
+        assignment,
+        assignments: siblingsRes.rows.map(r => ({ id: r.id, resourceId: r.resource_id })),
+        allocations,
+        previousWindow,
+        resource: {
+            id: resourceRow.id,
+            maxStaffingPercentage: resourceRow.max_staffing_percentage ?? 100,
+            location: resourceRow.location,
+            lastDayOfWork: resourceRow.last_day_of_work,
+        },
+        leaveRequests: leavesRes.rows.map(r => ({
+            resourceId: r.resource_id,
+            typeId: r.type_id,
+            status: r.status,
+            isHalfDay: r.is_half_day,
+            startDate: r.start_date,
+            endDate: r.end_date,
+        })),
+        leaveTypes: leaveTypesRes.rows.map(r => ({ id: r.id, affectsCapacity: r.affects_capacity })),
+        companyCalendar: calendarRes.rows,
+        locationCalendars,
+    });
+
+    // Regole valutate sulle celle sostituite, prima della scrittura
+    let ruleViolations: StaffingRuleViolation[] = [];
+    if (staffingRules.length > 0) {
+        const currentRes = await client.query(
+            `SELECT to_char(allocation_date, 'YYYY-MM-DD') AS allocation_date, percentage
+             FROM allocations WHERE assignment_id = $1 AND allocation_date >= $2 AND allocation_date <= $3`,
+            [assignment.id, result.clearedStartDate, result.clearedEndDate]
+        );
+        const current = Object.fromEntries(currentRes.rows.map(r => [r.allocation_date, Number(r.percentage)]));
+        ruleViolations = await checkStaffingRules(client, staffingRules, toEffortAllocationUpdates(current, result));
+    }
+
+    await client.query(
+        'DELETE FROM allocations WHERE assignment_id = $1 AND allocation_date >= $2 AND allocation_date <= $3',
+        [assignment.id, result.clearedStartDate, result.clearedEndDate]
+    );
+    const dates = Object.keys(result.allocations);
+    if (dates.length > 0) {
+        await client.query(
+            `INSERT INTO allocations (assignment_id, allocation_date, percentage)
+             SELECT $1, d::date, p FROM unnest($2::text[], $3::int[]) AS t(d, p)`,
+            [assignment.id, dates, dates.map(d => result.allocations[d])]
+        );
+    }
+    return { ...result, ruleViolations };
+};
+
+/**
+ * Ridistribuisce in sequenza i piani di effort della risorsa che intersecano la finestra: ogni
+ * piano vede il carico già ridistribuito dei precedenti. Va eseguita dentro una transazione.
+ */
+export const redistributeResourceEffortPlans = async (
+    client: VercelPoolClient,
+    window: { resourceId: string; startDate: string; endDate: string },
+    staffingRules: StaffingRule[]
+): Promise<EffortDistributionResult[]> => {
+    const plansRes = await client.query(
+        `SELECT ${EFFORT_ASSIGNMENT_COLUMNS} FROM assignments
+         WHERE resource_id = $1 AND planned_effort_days > 0
+           AND effort_start_date <= $3 AND effort_end_date >= $2
+         ORDER BY effort_start_date FOR UPDATE`,
+        [window.resourceId, window.startDate, window.endDate]
+    );
+    const results: EffortDistributionResult[] = [];
+    for (const row of plansRes.rows) {
+        results.push(await redistributeEffort(client, toEffortAssignment(row), null, staffingRules));
+    }
+    return results;
+};
@@ -0,0 +1,77 @@
+/**
+ * @file api/_lib/idempotency.ts
+ * @description Chiavi di idempotenza per le scritture ripetibili (header `Idempotency-Key`):
+ * i tentativi ripetuti da `apiFetch` dopo un errore di rete o un 5xx ricevono la risposta
+ * memorizzata invece di riapplicare il batch. Le chiavi appartengono all'utente che le ha
+ * usate (una chiave di un altro utente non restituisce mai la sua risposta) e scadono dopo 24 ore.
+ * Usata da `api/staffing.ts` (scrittura allocazioni).
+ */
+import { createHash } from 'crypto';
+import type { VercelPoolClient } from '@vercel/postgres';
+import type { VercelRequest } from '@vercel/node';
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from '../../utils/allocationBatchUtils.js';
+
+type Queryable = Pick<VercelPoolClient, 'query'>;
+
+export type IdempotencyLookup =
+    | { status: 'NEW' }
+    | { status: 'REPLAY'; response: unknown }
+    | { status: 'MISMATCH' };
+
+/** Chiave dell'header (undefined se assente); lancia se vuota o troppo lunga. */
+export const readIdempotencyKey = (req: VercelRequest): string | undefined => {
+    const raw = req.headers['idempotency-key'];
+    const key = Array.isArray(raw) ? raw[0] : raw;
+    if (key === undefined) return undefined;
+    if (!key.trim() || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        throw new Error(`Header Idempotency-Key non valido (1–${MAX_IDEMPOTENCY_KEY_LENGTH} caratteri).`);
+    }
+    return key;
+};
+
+/** Impronta del payload: la stessa chiave non può essere riusata per un batch diverso. */
+export const hashRequestBody = (body: unknown): string =>
+    createHash('sha256').update(JSON.stringify(body)).digest('hex');
+
+/** Risposta già memorizzata per la chiave dell'utente, se la richiesta con lo stesso payload è stata completata. */
+export const lookupIdempotencyKey = async (
+    client: Queryable,
+    userId: string,
+    key: string,
+    requestHash: string
+): Promise<IdempotencyLookup> => {
+    const res = await client.query(
+        `SELECT request_hash, response FROM idempotency_keys
+         WHERE user_id = $1 AND idempotency_key = $2 AND response IS NOT NULL AND created_at > NOW() - INTERVAL '24 hours'`,
+        [userId, key]
+    );
+    if (res.rows.length === 0) return { status: 'NEW' };
+    return res.rows[0].request_hash === requestHash ? { status: 'REPLAY', response: res.rows[0].response } : { status: 'MISMATCH' };
+};
+
+/**
+ * Riserva la chiave dell'utente dentro la transazione della scrittura: una richiesta concorrente
+ * con la stessa chiave attende il commit e ottiene false. Rimuove le chiavi scadute.
+ */
+export const claimIdempotencyKey = async (
+    client: VercelPoolClient,
+    userId: string,
+    key: string,
+    requestHash: string
+): Promise<boolean> => {
+    await client.query(`DELETE FROM idempotency_keys WHERE created_at <= NOW() - INTERVAL '24 hours'`);
+    const claimed = await client.query(
+        `INSERT INTO idempotency_keys (user_id, idempotency_key, request_hash) VALUES ($1, $2, $3)
+         ON CONFLICT (user_id, idempotency_key) DO NOTHING`,
+        [userId, key, requestHash]
+    );
+    return (claimed.rowCount ?? 0) > 0;
+};
+
+/** Memorizza la risposta (da eseguire prima del COMMIT, insieme alla scrittura). */
+export const storeIdempotentResponse = async (client: VercelPoolClient, userId: string, key: string, response: unknown): Promise<void> => {
+    await client.query(
+        'UPDATE idempotency_keys SET response = $3 WHERE user_id = $1 AND idempotency_key = $2',
+        [userId, key, JSON.stringify(response)]
+    );
+};
@@ -13,13 +13,14 @@ export const JSONB_FIELDS: Record<string, string[]> = {
     'notification_rules': ['templateBlocks'],
     'app_users': ['managerIds'],
     'knowledge_base_articles': ['tags', 'linkedEntities'],
+    'location_calendars': ['workingDays', 'recurringClosures'],
 };
 
 // Entità soggette al controllo di visibilità per ruolo (Layer 3 RBAC).
 // Lista unica condivisa tra GET, POST, PUT, DELETE.
 export const ENTITY_VISIBILITY_CONTROLLED = [
     'resources', 'projects', 'clients', 'assignments', 'allocations', 'contracts',
-    'rate_cards', 'rate_card_entries', 'billing_milestones', 'leave_requests',
+    'rate_cards', 'rate_card_entries', 'rate_card_entry_history', 'rate_card_lines', 'billing_milestones', 'leave_requests',
     'resource_requests', 'interviews', 'wbs_tasks', 'resource_evaluations',
     'company_calendar',
 ];
@@ -32,6 +33,9 @@ export const TABLE_MAPPING: Record<string, string> = {
     'app-users': 'app_users',
     'rate_cards': 'rate_cards',
     'rate_card_entries': 'rate_card_entries',
+    'rate_card_entry_history': 'rate_card_entry_history',
+    'rate_card_lines': 'rate_card_lines',
+    'fx_rates': 'fx_rates',
     'project_expenses': 'project_expenses',
     'billing_milestones': 'billing_milestones',
     'audit_logs': 'action_logs',
@@ -50,6 +54,9 @@ export const TABLE_MAPPING: Record<string, string> = {
     'evaluation_metrics': 'evaluation_metrics',
     'resource_requests': 'resource_requests',
     'role_entity_visibility': 'role_entity_visibility',
+    'staffing_rules': 'staffing_rules',
+    'work_schedules': 'resource_work_schedules',
+    'location_calendars': 'location_calendars',
 };
 
 export const VALIDATION_SCHEMAS: Record<string, any> = {
@@ -214,6 +221,12 @@ export const VALIDATION_SCHEMAS: Record<string, any> = {
         name: z.string(),
         currency: z.string().optional().nullable()
     }),
+    'fx_rates': z.object({
+        currency: z.string(),
+        rate: z.coerce.number(),
+        validFrom: z.string(),
+        validTo: z.string().optional().nullable(),
+    }),
     'project_expenses': z.object({
         projectId: z.string(),
         category: z.string(),
@@ -242,6 +255,36 @@ export const VALIDATION_SCHEMAS: Record<string, any> = {
         description: z.string().optional().nullable(),
         isActive: z.boolean().optional()
     }),
+    'staffing_rules': z.object({
+        name: z.string(),
+        ruleType: z.enum(['MAX_CONCURRENT_PROJECTS', 'MIN_ALLOCATION_SLICE', 'NO_EXTERNAL_ON_INTERNAL', 'MIN_BILLABLE_SHARE']),
+        severity: z.enum(['BLOCK', 'WARN']),
+        threshold: z.number().optional().nullable(),
+        isActive: z.boolean().optional()
+    }),
+    'resource_work_schedules': z.object({
+        resourceId: z.string(),
+        mondayHours: z.coerce.number(),
+        tuesdayHours: z.coerce.number(),
+        wednesdayHours: z.coerce.number(),
+        thursdayHours: z.coerce.number(),
+        fridayHours: z.coerce.number(),
+        saturdayHours: z.coerce.number(),
+        sundayHours: z.coerce.number(),
+        validFrom: z.string(),
+        validTo: z.string().optional().nullable(),
+        notes: z.string().optional().nullable()
+    }),
+    'location_calendars': z.object({
+        location: z.string(),
+        workingDays: z.array(z.number()),
+        dailyHours: z.coerce.number(),
+        recurringClosures: z.array(z.object({
+            name: z.string(),
+            startMonthDay: z.string(),
+            endMonthDay: z.string(),
+        })).optional()
+    }),
     'notification_rules': z.object({
         name: z.string(),
         eventType: z.string(),
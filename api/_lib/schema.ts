@@ -1,5 +1,6 @@
 
 import type { VercelPool } from '@vercel/postgres';
+import { ALLOCATION_DELTA_RETENTION_DAYS } from '../../utils/allocationWindowUtils.js';
 
 export async function ensureDbTablesExist(db: VercelPool) {
     await db.sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp";`;
@@ -104,6 +105,12 @@ export async function ensureDbTablesExist(db: VercelPool) {
         // Ignorato intenzionalmente: la tabella potrebbe già esistere con vincoli diversi (migrazione)
         console.warn('[schema] rate_card_entries CREATE TABLE ignorato:', (e as Error).message);
     }
+    // Storico delle tariffe (SCD Type 2): rate_card_entries resta la tariffa corrente
+    await db.sql`CREATE TABLE IF NOT EXISTS rate_card_entry_history ( id UUID PRIMARY KEY, rate_card_id UUID REFERENCES rate_cards(id) ON DELETE CASCADE, resource_id UUID REFERENCES resources(id) ON DELETE CASCADE, daily_rate NUMERIC(10, 2) NOT NULL, start_date DATE NOT NULL, end_date DATE );`;
+    // Tariffe per ruolo, seniority o default (line_key = id ruolo, livello o '*'), versionate come lo storico
+    await db.sql`CREATE TABLE IF NOT EXISTS rate_card_lines ( id UUID PRIMARY KEY, rate_card_id UUID REFERENCES rate_cards(id) ON DELETE CASCADE, line_type VARCHAR(20) NOT NULL, line_key VARCHAR(255) NOT NULL, daily_rate NUMERIC(10, 2) NOT NULL, start_date DATE NOT NULL, end_date DATE );`;
+    // Cambi verso la valuta base (1 EUR = rate unità di currency) con periodo di validità
+    await db.sql`CREATE TABLE IF NOT EXISTS fx_rates ( id UUID PRIMARY KEY, currency VARCHAR(10) NOT NULL, rate NUMERIC(18, 6) NOT NULL, valid_from DATE NOT NULL, valid_to DATE, version INT DEFAULT 1 );`;
 
     await db.sql`CREATE TABLE IF NOT EXISTS contracts ( id UUID PRIMARY KEY, name VARCHAR(255) NOT NULL UNIQUE, start_date DATE, end_date DATE, cig VARCHAR(255) NOT NULL UNIQUE, cig_derivato VARCHAR(255), wbs VARCHAR(255), capienza NUMERIC(15, 2) NOT NULL, backlog NUMERIC(15, 2) DEFAULT 0, rate_card_id UUID REFERENCES rate_cards(id) ON DELETE SET NULL, billing_type VARCHAR(50) DEFAULT 'TIME_MATERIAL', version INT DEFAULT 1 );`;
     // Column migrations for contracts table (in case table existed before these columns were added)
@@ -123,7 +130,119 @@ export async function ensureDbTablesExist(db: VercelPool) {
         await db.sql`ALTER TABLE projects ADD COLUMN IF NOT EXISTS contract_id UUID REFERENCES contracts(id) ON DELETE SET NULL;`;
     } catch(e) { /* FK constraint may fail if contracts doesn't exist yet */ }
     await db.sql`CREATE TABLE IF NOT EXISTS assignments ( id UUID PRIMARY KEY, resource_id UUID REFERENCES resources(id) ON DELETE CASCADE, project_id UUID REFERENCES projects(id) ON DELETE CASCADE, UNIQUE(resource_id, project_id) );`;
+    await db.sql`ALTER TABLE assignments ADD COLUMN IF NOT EXISTS booking_status VARCHAR(20) DEFAULT 'CONFIRMED';`;
+    await db.sql`ALTER TABLE assignments ADD COLUMN IF NOT EXISTS planned_effort_days NUMERIC(8, 2);`;
+    await db.sql`ALTER TABLE assignments ADD COLUMN IF NOT EXISTS effort_start_date DATE;`;
+    await db.sql`ALTER TABLE assignments ADD COLUMN IF NOT EXISTS effort_end_date DATE;`;
+    await db.sql`ALTER TABLE assignments ADD COLUMN IF NOT EXISTS allocation_pattern JSONB;`;
+    // Segnaposto di ruolo: assegnazioni con resource_id NULL e il ruolo richiesto (più segnaposto per progetto ammessi)
+    await db.sql`ALTER TABLE assignments ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES roles(id) ON DELETE SET NULL;`;
     await db.sql`CREATE TABLE IF NOT EXISTS allocations ( assignment_id UUID REFERENCES assignments(id) ON DELETE CASCADE, allocation_date DATE, percentage INT, PRIMARY KEY(assignment_id, allocation_date) );`;
+    // Caricamento incrementale (scope=allocations con cursore since): updated_at e tombstone delle celle eliminate,
+    // mantenuti da trigger così da coprire ogni percorso di scrittura (batch, effort, riassegnazioni, import, cascade)
+    await db.sql`ALTER TABLE allocations ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;`;
+    await db.sql`CREATE INDEX IF NOT EXISTS idx_allocations_updated_at ON allocations (updated_at);`;
+    await db.sql`CREATE TABLE IF NOT EXISTS allocation_tombstones ( assignment_id UUID NOT NULL, allocation_date DATE NOT NULL, deleted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, PRIMARY KEY (assignment_id, allocation_date) );`;
+    await db.sql`CREATE INDEX IF NOT EXISTS idx_allocation_tombstones_deleted_at ON allocation_tombstones (deleted_at);`;
+    await db.sql`
+        CREATE OR REPLACE FUNCTION allocations_touch_updated_at() RETURNS trigger AS $$
+        BEGIN
+            NEW.updated_at := NOW();
+            RETURN NEW;
+        END;
+        $$ LANGUAGE plpgsql;
+    `;
+    await db.sql`
+        CREATE OR REPLACE FUNCTION allocations_record_tombstone() RETURNS trigger AS $$
+        BEGIN
+            INSERT INTO allocation_tombstones (assignment_id, allocation_date, deleted_at)
+            VALUES (OLD.assignment_id, OLD.allocation_date, NOW())
+            ON CONFLICT (assignment_id, allocation_date) DO UPDATE SET deleted_at = EXCLUDED.deleted_at;
+            RETURN OLD;
+        END;
+        $$ LANGUAGE plpgsql;
+    `;
+    await db.sql`DROP TRIGGER IF EXISTS trg_allocations_touch ON allocations;`;
+    await db.sql`CREATE TRIGGER trg_allocations_touch BEFORE INSERT OR UPDATE ON allocations FOR EACH ROW EXECUTE FUNCTION allocations_touch_updated_at();`;
+    await db.sql`DROP TRIGGER IF EXISTS trg_allocations_tombstone ON allocations;`;
+    await db.sql`CREATE TRIGGER trg_allocations_tombstone AFTER DELETE ON allocations FOR EACH ROW EXECUTE FUNCTION allocations_record_tombstone();`;
+    // Tombstone oltre la conservazione dei delta rimossi sullo stesso percorso di scrittura, una volta per istruzione
+    await db.query(`
+        CREATE OR REPLACE FUNCTION allocation_tombstones_purge() RETURNS trigger AS $$
+        BEGIN
+            DELETE FROM allocation_tombstones WHERE deleted_at < NOW() - INTERVAL '${ALLOCATION_DELTA_RETENTION_DAYS} days';
+            RETURN NULL;
+        END;
+        $$ LANGUAGE plpgsql;
+    `);
+    await db.sql`DROP TRIGGER IF EXISTS trg_allocation_tombstones_purge ON allocations;`;
+    await db.sql`CREATE TRIGGER trg_allocation_tombstones_purge AFTER DELETE ON allocations FOR EACH STATEMENT EXECUTE FUNCTION allocation_tombstones_purge();`;
+    // Storico delle modifiche di cella (valore precedente/nuovo, autore, istante), registrato da trigger su ogni scrittura.
+    // L'autore arriva dalle impostazioni di transazione app.audit_user_id / app.audit_username (setAllocationAuditUser)
+    await db.sql`CREATE TABLE IF NOT EXISTS allocation_changes ( seq BIGSERIAL PRIMARY KEY, assignment_id UUID NOT NULL, allocation_date DATE NOT NULL, old_percentage INT NOT NULL, new_percentage INT NOT NULL, changed_by_user_id UUID, changed_by VARCHAR(255), changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP );`;
+    await db.sql`CREATE INDEX IF NOT EXISTS idx_allocation_changes_cell ON allocation_changes (assignment_id, allocation_date);`;
+    await db.sql`CREATE INDEX IF NOT EXISTS idx_allocation_changes_changed_at ON allocation_changes (changed_at);`;
+    await db.sql`
+        CREATE OR REPLACE FUNCTION allocations_record_change() RETURNS trigger AS $$
+        DECLARE
+            v_old INT := 0;
+            v_new INT := 0;
+            v_assignment UUID;
+            v_date DATE;
+        BEGIN
+            IF TG_OP = 'DELETE' THEN
+                v_old := COALESCE(OLD.percentage, 0);
+                v_assignment := OLD.assignment_id;
+                v_date := OLD.allocation_date;
+            ELSE
+                v_new := COALESCE(NEW.percentage, 0);
+                v_assignment := NEW.assignment_id;
+                v_date := NEW.allocation_date;
+                IF TG_OP = 'UPDATE' THEN
+                    v_old := COALESCE(OLD.percentage, 0);
+                END IF;
+            END IF;
+            IF v_old <> v_new THEN
+                INSERT INTO allocation_changes (assignment_id, allocation_date, old_percentage, new_percentage, changed_by_user_id, changed_by)
+                VALUES (
+                    v_assignment, v_date, v_old, v_new,
+                    NULLIF(current_setting('app.audit_user_id', true), '')::uuid,
+                    NULLIF(current_setting('app.audit_username', true), '')
+                );
+            END IF;
+            RETURN NULL;
+        END;
+        $$ LANGUAGE plpgsql;
+    `;
+    await db.sql`DROP TRIGGER IF EXISTS trg_allocations_change ON allocations;`;
+    await db.sql`CREATE TRIGGER trg_allocations_change AFTER INSERT OR UPDATE OR DELETE ON allocations FOR EACH ROW EXECUTE FUNCTION allocations_record_change();`;
+    // Proposte di modifica delle allocazioni (modalità di approvazione REQUIRED): scritte in allocations solo se accettate
+    await db.sql`CREATE TABLE IF NOT EXISTS allocation_proposals ( id UUID PRIMARY KEY, batch_id UUID NOT NULL, assignment_id UUID REFERENCES assignments(id) ON DELETE CASCADE, allocation_date DATE NOT NULL, percentage INT NOT NULL, previous_percentage INT NOT NULL DEFAULT 0, proposed_by_user_id UUID REFERENCES app_users(id) ON DELETE SET NULL, proposed_by VARCHAR(255), status VARCHAR(20) NOT NULL DEFAULT 'PENDING', reviewed_by VARCHAR(255), reviewed_at TIMESTAMP WITH TIME ZONE, review_notes TEXT, created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP );`;
+    // Chiavi di idempotenza delle scritture ripetibili (header Idempotency-Key), per utente: risposta memorizzata per 24 ore
+    await db.sql`CREATE TABLE IF NOT EXISTS idempotency_keys ( user_id UUID NOT NULL, idempotency_key VARCHAR(255) NOT NULL, request_hash CHAR(64) NOT NULL, response JSONB, created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, PRIMARY KEY (user_id, idempotency_key) );`;
+    // Regole di staffing configurabili (severità BLOCK | WARN), create disattivate con le soglie della practice
+    await db.sql`CREATE TABLE IF NOT EXISTS staffing_rules ( id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), name VARCHAR(255) NOT NULL, rule_type VARCHAR(50) NOT NULL, severity VARCHAR(10) NOT NULL DEFAULT 'WARN', threshold NUMERIC(6, 2), is_active BOOLEAN DEFAULT FALSE, created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, version INT DEFAULT 1 );`;
+    await db.sql`
+        INSERT INTO staffing_rules (name, rule_type, severity, threshold, is_active)
+        SELECT * FROM (VALUES
+            ('Massimo 3 progetti contemporanei', 'MAX_CONCURRENT_PROJECTS', 'WARN', 3::numeric, FALSE),
+            ('Fetta minima 20%', 'MIN_ALLOCATION_SLICE', 'WARN', 20::numeric, FALSE),
+            ('Esterni non allocabili su progetti interni', 'NO_EXTERNAL_ON_INTERNAL', 'BLOCK', NULL::numeric, FALSE),
+            ('Talent fatturabili almeno al 60%', 'MIN_BILLABLE_SHARE', 'WARN', 60::numeric, FALSE)
+        ) AS v(name, rule_type, severity, threshold, is_active)
+        WHERE NOT EXISTS (SELECT 1 FROM staffing_rules);
+    `;
+    // Orari di lavoro per risorsa (part-time): ore per giorno della settimana e periodo di validità (valid_to NULL = in corso)
+    await db.sql`CREATE TABLE IF NOT EXISTS resource_work_schedules ( id UUID PRIMARY KEY, resource_id UUID REFERENCES resources(id) ON DELETE CASCADE, monday_hours NUMERIC(4, 2) NOT NULL DEFAULT 8, tuesday_hours NUMERIC(4, 2) NOT NULL DEFAULT 8, wednesday_hours NUMERIC(4, 2) NOT NULL DEFAULT 8, thursday_hours NUMERIC(4, 2) NOT NULL DEFAULT 8, friday_hours NUMERIC(4, 2) NOT NULL DEFAULT 8, saturday_hours NUMERIC(4, 2) NOT NULL DEFAULT 0, sunday_hours NUMERIC(4, 2) NOT NULL DEFAULT 0, valid_from DATE NOT NULL, valid_to DATE, notes TEXT, version INT DEFAULT 1 );`;
+    await db.sql`CREATE INDEX IF NOT EXISTS idx_resource_work_schedules_resource ON resource_work_schedules(resource_id, valid_from);`;
+    // Calendari lavorativi per sede: working_days con gli indici di getUTCDay (0 = domenica), chiusure ricorrenti [{ name, startMonthDay, endMonthDay }] in MM-DD
+    await db.sql`CREATE TABLE IF NOT EXISTS location_calendars ( id UUID PRIMARY KEY, location VARCHAR(255) NOT NULL UNIQUE, working_days JSONB NOT NULL DEFAULT '[1,2,3,4,5]'::jsonb, daily_hours NUMERIC(4, 2) NOT NULL DEFAULT 8, recurring_closures JSONB NOT NULL DEFAULT '[]'::jsonb, version INT DEFAULT 1 );`;
+    // Baseline di pianificazione: project_id NULL = portafoglio; budget e milestone congelati in JSONB (NULL se esclusi)
+    await db.sql`CREATE TABLE IF NOT EXISTS planning_baselines ( id UUID PRIMARY KEY, name VARCHAR(255) NOT NULL, description TEXT, project_id UUID REFERENCES projects(id) ON DELETE CASCADE, budgets JSONB, milestones JSONB, created_by VARCHAR(255), created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP );`;
+    await db.sql`CREATE TABLE IF NOT EXISTS planning_baseline_allocations ( baseline_id UUID REFERENCES planning_baselines(id) ON DELETE CASCADE, resource_id UUID NOT NULL, project_id UUID NOT NULL, allocation_date DATE NOT NULL, percentage INT NOT NULL, PRIMARY KEY (baseline_id, resource_id, project_id, allocation_date) );`;
+    // Timesheet: ore consuntivate per risorsa/progetto/giorno (separate dalle allocazioni) e approvazione settimanale
+    await db.sql`CREATE TABLE IF NOT EXISTS timesheet_weeks ( id UUID PRIMARY KEY, resource_id UUID REFERENCES resources(id) ON DELETE CASCADE, week_start DATE NOT NULL, status VARCHAR(20) NOT NULL DEFAULT 'DRAFT', submitted_at TIMESTAMP WITH TIME ZONE, reviewed_by VARCHAR(255), reviewed_at TIMESTAMP WITH TIME ZONE, review_notes TEXT, UNIQUE (resource_id, week_start) );`;
+    await db.sql`CREATE TABLE IF NOT EXISTS timesheet_entries ( id UUID PRIMARY KEY, resource_id UUID REFERENCES resources(id) ON DELETE CASCADE, project_id UUID REFERENCES projects(id) ON DELETE CASCADE, entry_date DATE NOT NULL, hours NUMERIC(5, 2) NOT NULL, notes TEXT, updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, UNIQUE (resource_id, project_id, entry_date) );`;
     await db.sql`CREATE TABLE IF NOT EXISTS contract_projects ( contract_id UUID REFERENCES contracts(id) ON DELETE CASCADE, project_id UUID REFERENCES projects(id) ON DELETE CASCADE, PRIMARY KEY (contract_id, project_id) );`;
     await db.sql`CREATE TABLE IF NOT EXISTS contract_managers ( contract_id UUID REFERENCES contracts(id) ON DELETE CASCADE, resource_id UUID REFERENCES resources(id) ON DELETE CASCADE, PRIMARY KEY (contract_id, resource_id) );`;
     await db.sql`CREATE TABLE IF NOT EXISTS project_skills ( project_id UUID REFERENCES projects(id) ON DELETE CASCADE, skill_id UUID REFERENCES skills(id) ON DELETE CASCADE, PRIMARY KEY (project_id, skill_id) );`;
@@ -132,6 +251,7 @@ export async function ensureDbTablesExist(db: VercelPool) {
 
     // 8. Recruitment & Operations
     await db.sql`CREATE TABLE IF NOT EXISTS resource_requests ( id UUID PRIMARY KEY, request_code VARCHAR(50), project_id UUID REFERENCES projects(id) ON DELETE CASCADE, role_id UUID REFERENCES roles(id) ON DELETE CASCADE, requestor_id UUID REFERENCES resources(id) ON DELETE SET NULL, start_date DATE NOT NULL, end_date DATE NOT NULL, commitment_percentage INT NOT NULL, is_urgent BOOLEAN DEFAULT FALSE, is_long_term BOOLEAN DEFAULT FALSE, is_tech_request BOOLEAN DEFAULT FALSE, is_osr_open BOOLEAN DEFAULT FALSE, osr_number VARCHAR(50), notes TEXT, status VARCHAR(50) NOT NULL, created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, version INT DEFAULT 1 );`;
+    await db.sql`ALTER TABLE assignments ADD COLUMN IF NOT EXISTS resource_request_id UUID REFERENCES resource_requests(id) ON DELETE SET NULL;`;
     // MIGRATION: horizontal -> function
     await db.sql`CREATE TABLE IF NOT EXISTS interviews ( id UUID PRIMARY KEY, resource_request_id UUID REFERENCES resource_requests(id) ON DELETE SET NULL, candidate_name VARCHAR(255) NOT NULL, candidate_surname VARCHAR(255) NOT NULL, birth_date DATE, function VARCHAR(255), role_id UUID REFERENCES roles(id) ON DELETE SET NULL, cv_summary TEXT, interviewers_ids UUID[], interview_date DATE, feedback VARCHAR(50), notes TEXT, hiring_status VARCHAR(50), entry_date DATE, status VARCHAR(50) NOT NULL, created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, version INT DEFAULT 1 );`;
     try {
@@ -0,0 +1,141 @@
+/**
+ * @file api/_lib/staffingRules.ts
+ * @description Regole di staffing lato server: caricamento delle regole attive e del contesto delle
+ * risorse coinvolte (assegnazioni, progetti, talent, esterni) per la valutazione di un batch di
+ * allocazioni, della creazione di un'assegnazione e del report delle violazioni.
+ * Usata da `api/staffing.ts`.
+ */
+import type { VercelPoolClient } from '@vercel/postgres';
+import {
+    EXTERNAL_ROLE_SUFFIX, evaluateStaffingRules, findAssignmentRuleViolations, findStaffingRuleViolations,
+    type StaffingRulesContext,
+} from '../../utils/staffingRulesUtils.js';
+import type { Allocation, AllocationUpdate, StaffingRule, StaffingRuleReport, StaffingRuleViolation } from '../../types';
+
+type Queryable = Pick<VercelPoolClient, 'query'>;
+
+const toStaffingRule = (r: any): StaffingRule => ({
+    id: r.id,
+    name: r.name,
+    ruleType: r.rule_type,
+    severity: r.severity === 'BLOCK' ? 'BLOCK' : 'WARN',
+    threshold: r.threshold === null ? null : Number(r.threshold),
+    isActive: r.is_active !== false,
+    version: r.version,
+});
+
+export const loadActiveStaffingRules = async (client: Queryable): Promise<StaffingRule[]> => {
+    const res = await client.query('SELECT * FROM staffing_rules WHERE is_active = TRUE ORDER BY name');
+    return res.rows.map(toStaffingRule);
+};
+
+/** Primo e ultimo giorno dei mesi che contengono le date indicate (la quota fatturabile è mensile). */
+const toMonthBounds = (dates: string[]): { start: string; end: string } => {
+    const sorted = [...dates].sort();
+    const last = sorted[sorted.length - 1];
+    const lastDay = new Date(Date.UTC(Number(last.slice(0, 4)), Number(last.slice(5, 7)), 0)).getUTCDate();
+    return { start: `${sorted[0].slice(0, 7)}-01`, end: `${last.slice(0, 7)}-${String(lastDay).padStart(2, '0')}` };
+};
+
+/** Contesto delle risorse indicate: tutte le loro assegnazioni, i progetti, i talent e gli esterni. */
+const loadRulesContext = async (
+    client: Queryable,
+    rules: StaffingRule[],
+    resourceIds: string[]
+): Promise<StaffingRulesContext & { projects: { id: string; clientId: string | null; status: string | null; startDate: string | null; endDate: string | null }[] }> => {
+    const [assignmentsRes, resourcesRes, externalsRes] = await Promise.all([
+        client.query('SELECT id, resource_id, project_id FROM assignments WHERE resource_id = ANY($1::uuid[])', [resourceIds]),
+        client.query('SELECT id, is_talent FROM resources WHERE id = ANY($1::uuid[])', [resourceIds]),
+        client.query(
+            'SELECT DISTINCT resource_id FROM app_users WHERE resource_id = ANY($1::uuid[]) AND right(role, length($2)) = $2',
+            [resourceIds, EXTERNAL_ROLE_SUFFIX]
+        ),
+    ]);
+    const assignments = assignmentsRes.rows.map(r => ({ id: r.id as string, resourceId: r.resource_id as string, projectId: r.project_id as string }));
+    const projectIds = Array.from(new Set(assignments.map(a => a.projectId)));
+    const projectsRes = await client.query(
+        `SELECT id, client_id, status, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+         FROM projects WHERE id = ANY($1::uuid[])`,
+        [projectIds]
+    );
+    return {
+        rules,
+        assignments,
+        projects: projectsRes.rows.map(r => ({ id: r.id, clientId: r.client_id, status: r.status, startDate: r.start_date, endDate: r.end_date })),
+        resources: resourcesRes.rows.map(r => ({ id: r.id, isTalent: !!r.is_talent })),
+        externalResourceIds: externalsRes.rows.map(r => r.resource_id),
+    };
+};
+
+const loadAllocations = async (client: Queryable, assignmentIds: string[], start: string, end: string): Promise<Allocation> => {
+    const res = await client.query(
+        `SELECT assignment_id, to_char(allocation_date, 'YYYY-MM-DD') AS allocation_date, percentage
+         FROM allocations WHERE assignment_id = ANY($1::uuid[]) AND allocation_date >= $2 AND allocation_date <= $3`,
+        [assignmentIds, start, end]
+    );
+    const allocations: Allocation = {};
+    for (const row of res.rows) {
+        if (!allocations[row.assignment_id]) allocations[row.assignment_id] = {};
+        allocations[row.assignment_id][row.allocation_date] = Number(row.percentage);
+    }
+    return allocations;
+};
+
+/**
+ * Violazioni delle regole attive causate dal batch (da eseguire nella transazione, prima della scrittura).
+ * `newAssignmentIds`: assegnazioni appena intestate alla risorsa, le cui allocazioni contano come nuove.
+ */
+export const checkStaffingRules = async (
+    client: Queryable,
+    rules: StaffingRule[],
+    updates: AllocationUpdate[],
+    newAssignmentIds: string[] = []
+): Promise<StaffingRuleViolation[]> => {
+    if (rules.length === 0 || updates.length === 0) return [];
+    const resourcesRes = await client.query(
+        'SELECT DISTINCT resource_id FROM assignments WHERE id = ANY($1::uuid[]) AND resource_id IS NOT NULL',
+        [Array.from(new Set(updates.map(u => u.assignmentId)))]
+    );
+    const resourceIds: string[] = resourcesRes.rows.map(r => r.resource_id);
+    if (resourceIds.length === 0) return [];
+    const context = await loadRulesContext(client, rules, resourceIds);
+    const { start, end } = toMonthBounds(updates.map(u => u.date));
+    const allocations = await loadAllocations(client, context.assignments.map(a => a.id!), start, end);
+    return findStaffingRuleViolations({ ...context, updates, allocations, newAssignmentIds });
+};
+
+/** Violazioni causate dalla creazione dell'assegnazione nominativa indicata. */
+export const checkAssignmentRules = async (
+    client: Queryable,
+    rules: StaffingRule[],
+    assignment: { resourceId: string; projectId: string }
+): Promise<StaffingRuleViolation[]> => {
+    if (rules.length === 0) return [];
+    const context = await loadRulesContext(client, rules, [assignment.resourceId]);
+    if (!context.projects.some(p => p.id === assignment.projectId)) {
+        const projectRes = await client.query(
+            `SELECT id, client_id, status, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+             FROM projects WHERE id = $1`,
+            [assignment.projectId]
+        );
+        context.projects.push(...projectRes.rows.map(r => ({ id: r.id, clientId: r.client_id, status: r.status, startDate: r.start_date, endDate: r.end_date })));
+    }
+    return findAssignmentRuleViolations({ ...context, assignment });
+};
+
+/** Report delle violazioni presenti nelle allocazioni dei mesi compresi tra `start` ed `end`. */
+export const loadStaffingRuleReport = async (client: Queryable, start: string, end: string): Promise<StaffingRuleReport> => {
+    const bounds = toMonthBounds([start, end]);
+    const rules = await loadActiveStaffingRules(client);
+    if (rules.length === 0) return { ...bounds, violations: [] };
+    const resourcesRes = await client.query(
+        `SELECT DISTINCT asg.resource_id FROM allocations a JOIN assignments asg ON asg.id = a.assignment_id
+         WHERE asg.resource_id IS NOT NULL AND a.allocation_date >= $1 AND a.allocation_date <= $2`,
+        [bounds.start, bounds.end]
+    );
+    const resourceIds: string[] = resourcesRes.rows.map(r => r.resource_id);
+    if (resourceIds.length === 0) return { ...bounds, violations: [] };
+    const context = await loadRulesContext(client, rules, resourceIds);
+    const allocations = await loadAllocations(client, context.assignments.map(a => a.id!), bounds.start, bounds.end);
+    return { ...bounds, violations: evaluateStaffingRules({ ...context, allocations }) };
+};
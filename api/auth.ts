@@ -10,13 +10,13 @@
 
 import { db } from './_lib/db.js';
 import { env } from './_lib/env.js';
-import { verifyAdmin, ALL_MANAGEABLE_ENTITIES } from './_lib/auth.js';
+import { verifyAdmin, ALL_MANAGEABLE_ENTITIES, LOGIN_PROTECTION_CONFIG_KEY } from './_lib/auth.js';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { notify } from '../utils/webhookNotifier.js';
 
-const CONFIG_KEY = 'login_protection_enabled';
+const CONFIG_KEY = LOGIN_PROTECTION_CONFIG_KEY;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     const { method } = req;
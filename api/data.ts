@@ -2,16 +2,37 @@
 /**
  * @file api/data.ts
  * @description Endpoint API Dispatcher per recuperare i dati.
+ *
+ * Scope:
+ *   GET /api/data?scope=metadata                              → anagrafiche e configurazione
+ *   GET /api/data?scope=planning                              → assegnazioni, contratti, assenze, … (senza allocazioni)
+ *   GET /api/data?scope=allocations&start=…&end=…[&since=…]   → allocazioni della finestra di date; con il cursore
+ *                                                                `since` solo le celle modificate o eliminate dopo di esso
  */
 
 import { db } from './_lib/db.js';
 import { ensureDbTablesExist } from './_lib/schema.js';
 import { getUserFromRequest, ALL_MANAGEABLE_ENTITIES } from './_lib/auth.js';
+import { loadPendingAllocationProposals } from './_lib/allocationProposals.js';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { CalendarEvent, Allocation } from '../types';
+import { CalendarEvent, Allocation, AllocationWindowResponse } from '../types';
+import { isValidIsoDate } from '../utils/allocationBatchUtils.js';
+import { ALLOCATION_DELTA_RETENTION_DAYS } from '../utils/allocationWindowUtils.js';
+import { CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY, parseContractExhaustionAlertWeeks } from '../utils/contractBurndownUtils.js';
 
 let isSchemaInitialized = false;
 
+// Margine di sovrapposizione del cursore: copre le transazioni iniziate prima della lettura
+// e completate dopo (updated_at è l'inizio della transazione). Le celle riportate due volte sono innocue.
+const DELTA_CURSOR_OVERLAP = '2 minutes';
+
+const toIsoDate = (value: Date): string => {
+    const y = value.getFullYear();
+    const m = String(value.getMonth() + 1).padStart(2, '0');
+    const d = String(value.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
 const toCamelCase = (obj: any): any => {
     if (obj === null || typeof obj !== 'object') {
         return obj;
@@ -47,6 +68,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const scope = (req.query.scope as string) || 'all';
     const start = req.query.start as string;
     const end = req.query.end as string;
+    const since = req.query.since as string | undefined;
+
+    if (scope === 'allocations') {
+        if (!isValidIsoDate(start) || !isValidIsoDate(end) || start > end) {
+            return res.status(400).json({ error: 'Parametri "start" e "end" obbligatori (YYYY-MM-DD, start <= end).' });
+        }
+        if (since !== undefined && isNaN(Date.parse(since))) {
+            return res.status(400).json({ error: 'Cursore "since" non valido.' });
+        }
+    }
 
     try {
         if (!isSchemaInitialized) {
@@ -80,7 +111,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 sidebarFooterActionsRes, dashboardLayoutRes, roleHomePagesRes,
                 bottomNavPathsRes, analyticsRes, skillCatsRes, skillMacrosRes,
                 skillMapRes, catMacroMapRes, planningConfigRes,
-                rateCardsRes, rateCardEntriesRes, projectExpensesRes, notificationConfigsRes, notificationRulesRes
+                rateCardsRes, rateCardEntriesRes, projectExpensesRes, notificationConfigsRes, notificationRulesRes,
+                overbookingPolicyRes, allocationCleanupPolicyRes, allocationApprovalModeRes, staffingRulesRes,
+                workSchedulesRes, locationCalendarsRes, fxRatesRes, rateCardEntryHistoryRes, rateCardLinesRes,
+                contractExhaustionAlertWeeksRes
             ] = await Promise.all([
                 db.sql`SELECT * FROM clients;`,
                 db.sql`SELECT * FROM roles;`,
@@ -118,7 +152,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 db.sql`SELECT * FROM rate_card_entries;`,
                 db.sql`SELECT * FROM project_expenses;`,
                 db.sql`SELECT * FROM notification_configs;`,
-                db.sql`SELECT * FROM notification_rules;`
+                db.sql`SELECT * FROM notification_rules;`,
+                db.sql`SELECT value FROM app_config WHERE key = 'allocation_overbooking_policy';`,
+                db.sql`SELECT value FROM app_config WHERE key = 'allocation_cleanup_policy';`,
+                db.sql`SELECT value FROM app_config WHERE key = 'allocation_approval_mode';`,
+                db.sql`SELECT * FROM staffing_rules ORDER BY name;`,
+                db.sql`SELECT id, resource_id, monday_hours, tuesday_hours, wednesday_hours, thursday_hours, friday_hours, saturday_hours, sunday_hours, to_char(valid_from, 'YYYY-MM-DD') AS valid_from, to_char(valid_to, 'YYYY-MM-DD') AS valid_to, notes, version FROM resource_work_schedules ORDER BY resource_id, valid_from;`,
+                db.sql`SELECT * FROM location_calendars ORDER BY location;`,
+                db.sql`SELECT id, currency, rate, to_char(valid_from, 'YYYY-MM-DD') AS valid_from, to_char(valid_to, 'YYYY-MM-DD') AS valid_to, version FROM fx_rates ORDER BY currency, valid_from;`,
+                db.sql`SELECT id, rate_card_id, resource_id, daily_rate, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date FROM rate_card_entry_history ORDER BY rate_card_id, resource_id, start_date;`,
+                db.sql`SELECT id, rate_card_id, line_type, line_key, daily_rate, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date FROM rate_card_lines ORDER BY rate_card_id, line_type, line_key, start_date;`,
+                db.sql`SELECT value FROM app_config WHERE key = ${CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY};`
             ]);
 
             const companyCalendar = calendarRes.rows.map(toCamelCase) as CalendarEvent[];
@@ -192,13 +236,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 clientSectors: clientSectorsRes.rows,
                 locations: locationsRes.rows,
                 companyCalendar: canSee('company_calendar') ? companyCalendar : [],
+                // metadato di sistema: serve a tutti i calcoli di capacità
+                locationCalendars: locationCalendarsRes.rows.map(r => ({ ...toCamelCase(r), dailyHours: Number(r.daily_hours) })),
                 skills: canSee('skills') ? skills : [],
                 skillCategories: hydratedCategories, // metadato di sistema: sempre visibile
                 skillMacroCategories: macros,         // metadato di sistema: sempre visibile
                 resourceSkills: canSee('resources') ? resourceSkillsRes.rows.map(toCamelCase) : [],
+                workSchedules: canSee('resources') ? workSchedulesRes.rows.map(r => ({
+                    ...toCamelCase(r),
+                    mondayHours: Number(r.monday_hours), tuesdayHours: Number(r.tuesday_hours), wednesdayHours: Number(r.wednesday_hours),
+                    thursdayHours: Number(r.thursday_hours), fridayHours: Number(r.friday_hours), saturdayHours: Number(r.saturday_hours),
+                    sundayHours: Number(r.sunday_hours),
+                })) : [],
                 pageVisibility,
                 skillThresholds,
                 planningSettings,
+                overbookingPolicy: overbookingPolicyRes.rows[0]?.value === 'BLOCK' ? 'BLOCK' : 'WARN',
+                allocationCleanupPolicy: allocationCleanupPolicyRes.rows[0]?.value === 'AUTO' ? 'AUTO' : 'ASK',
+                allocationApprovalMode: allocationApprovalModeRes.rows[0]?.value === 'REQUIRED' ? 'REQUIRED' : 'OFF',
+                contractExhaustionAlertWeeks: parseContractExhaustionAlertWeeks(contractExhaustionAlertWeeksRes.rows[0]?.value),
+                staffingRules: staffingRulesRes.rows.map(r => ({ ...toCamelCase(r), threshold: r.threshold === null ? null : Number(r.threshold) })),
                 leaveTypes: leaveTypesRes.rows.map(toCamelCase),
                 managerResourceIds: managersRes.rows.map(r => r.resource_id),
                 sidebarConfig: parseJsonConfig(sidebarConfigRes, null),
@@ -212,6 +269,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 analyticsCache,
                 rateCards: canSee('rate_cards') ? rateCardsRes.rows.map(toCamelCase) : [],
                 rateCardEntries: canSee('rate_cards') ? rateCardEntriesRes.rows.map(toCamelCase) : [],
+                rateCardEntryHistory: canSee('rate_cards')
+                    ? rateCardEntryHistoryRes.rows.map(r => ({ ...toCamelCase(r), dailyRate: Number(r.daily_rate) }))
+                    : [],
+                rateCardLines: canSee('rate_cards')
+                    ? rateCardLinesRes.rows.map(r => ({ ...toCamelCase(r), dailyRate: Number(r.daily_rate) }))
+                    : [],
+                fxRates: fxRatesRes.rows.map(r => ({ ...toCamelCase(r), rate: Number(r.rate) })),
                 projectExpenses: canSee('projects') ? projectExpensesRes.rows.map(toCamelCase) : [],
                 notificationConfigs: notificationConfigsRes.rows.map(toCamelCase),
                 notificationRules: notificationRulesRes.rows.map(toCamelCase),
@@ -220,19 +284,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         // --- PLANNING SCOPE ---
         if (scope === 'planning' || scope === 'all') {
-            let allocationsQueryPromise;
-
-            if (start && end) {
-                allocationsQueryPromise = db.query(`SELECT * FROM allocations WHERE allocation_date >= $1 AND allocation_date <= $2`, [start, end]);
-            } else {
-                allocationsQueryPromise = db.sql`SELECT * FROM allocations;`;
-            }
-
             const leaveRequestsQueryPromise = db.sql`SELECT * FROM leave_requests ORDER BY start_date DESC;`;
 
             const [
                 assignmentsRes,
-                allocationsRes,
                 wbsTasksRes,
                 resourceRequestsRes,
                 interviewsRes,
@@ -241,10 +296,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 contractManagersRes,
                 projectSkillsRes,
                 leaveRequestsRes,
-                billingMilestonesRes
+                billingMilestonesRes,
+                allocationProposals
             ] = await Promise.all([
                 db.sql`SELECT * FROM assignments;`,
-                allocationsQueryPromise,
                 db.sql`SELECT * FROM wbs_tasks;`,
                 db.sql`SELECT * FROM resource_requests;`,
                 db.sql`SELECT * FROM interviews;`,
@@ -253,26 +308,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 db.sql`SELECT * FROM contract_managers;`,
                 db.sql`SELECT * FROM project_skills;`,
                 leaveRequestsQueryPromise,
-                db.sql`SELECT * FROM billing_milestones;`
+                db.sql`SELECT * FROM billing_milestones;`,
+                canSee('allocations') ? loadPendingAllocationProposals(db, currentUser) : Promise.resolve([])
             ]);
 
-            const allocations: Allocation = {};
-            allocationsRes.rows.forEach(row => {
-                const { assignment_id, allocation_date, percentage } = row;
-                const y = allocation_date.getFullYear();
-                const m = String(allocation_date.getMonth() + 1).padStart(2, '0');
-                const d = String(allocation_date.getDate()).padStart(2, '0');
-                const dateStr = `${y}-${m}-${d}`;
-
-                if (!allocations[assignment_id]) {
-                    allocations[assignment_id] = {};
-                }
-                allocations[assignment_id][dateStr] = percentage;
-            });
-
             Object.assign(data, {
                 assignments: canSee('assignments') ? assignmentsRes.rows.map(toCamelCase) : [],
-                allocations: canSee('allocations') ? allocations : {},
+                allocationProposals,
                 wbsTasks: canSee('wbs_tasks') ? wbsTasksRes.rows.map(toCamelCase) : [],
                 resourceRequests: canSee('resource_requests') ? resourceRequestsRes.rows.map(toCamelCase) : [],
                 interviews: canSee('interviews') ? interviewsRes.rows.map(toCamelCase) : [],
@@ -285,6 +327,48 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             });
         }
 
+        // --- ALLOCATIONS SCOPE (finestra di date, delta con cursore) ---
+        if (scope === 'allocations') {
+            const cursorRes = await db.sql`SELECT NOW() AS now;`;
+            const cursor: string = new Date(cursorRes.rows[0].now).toISOString();
+            const response: AllocationWindowResponse = { start, end, allocations: {}, deleted: [], cursor };
+            if (!canSee('allocations')) return res.status(200).json(response);
+
+            const retentionLimit = Date.now() - ALLOCATION_DELTA_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+            const isDelta = since !== undefined && Date.parse(since) > retentionLimit;
+            response.reset = since !== undefined && !isDelta;
+
+            const [allocationsRes, deletedRes] = await Promise.all([
+                isDelta
+                    ? db.query(
+                        `SELECT assignment_id, allocation_date, percentage FROM allocations
+                         WHERE allocation_date BETWEEN $1 AND $2 AND updated_at > $3::timestamptz - INTERVAL '${DELTA_CURSOR_OVERLAP}'`,
+                        [start, end, since]
+                    )
+                    : db.query(
+                        'SELECT assignment_id, allocation_date, percentage FROM allocations WHERE allocation_date BETWEEN $1 AND $2',
+                        [start, end]
+                    ),
+                isDelta
+                    ? db.query(
+                        `SELECT assignment_id, allocation_date FROM allocation_tombstones
+                         WHERE allocation_date BETWEEN $1 AND $2 AND deleted_at > $3::timestamptz - INTERVAL '${DELTA_CURSOR_OVERLAP}'`,
+                        [start, end, since]
+                    )
+                    : Promise.resolve({ rows: [] as any[] }),
+            ]);
+
+            const allocations: Allocation = {};
+            allocationsRes.rows.forEach(({ assignment_id, allocation_date, percentage }) => {
+                if (!allocations[assignment_id]) allocations[assignment_id] = {};
+                allocations[assignment_id][toIsoDate(allocation_date)] = percentage;
+            });
+            response.allocations = allocations;
+            // Una cella eliminata e poi riscritta dopo il cursore compare in entrambi: il client applica prima le eliminazioni
+            response.deleted = deletedRes.rows.map(row => ({ assignmentId: row.assignment_id, date: toIsoDate(row.allocation_date) }));
+            return res.status(200).json(response);
+        }
+
         return res.status(200).json(data);
     } catch (error) {
         console.error('Failed to fetch data:', error);
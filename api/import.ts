@@ -4,6 +4,9 @@ import { env } from './_lib/env.js';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { v4 as uuidv4 } from 'uuid';
 import jwt from 'jsonwebtoken';
+import { getTimesheetWeekStart, normalizeTimesheetImportRow } from '../utils/timesheetUtils.js';
+import { getUserFromRequest } from './_lib/auth.js';
+import { setAllocationAuditUser } from './_lib/allocationChanges.js';
 
 const JWT_SECRET = env.JWT_SECRET;
 
@@ -453,6 +456,45 @@ const importLeaves = async (client: any, body: any, warnings: string[]) => {
     await executeBulkInsert(client, 'leave_requests', ['id', 'resource_id', 'type_id', 'start_date', 'end_date', 'status', 'notes'], leaveRows);
 };
 
+/**
+ * Import delle ore consuntivate (foglio "Timesheet" o CSV con le stesse colonne).
+ * Le righe sovrascrivono le ore esistenti per risorsa/progetto/giorno; le settimane nuove
+ * sono create già inviate (SUBMITTED) per l'approvazione, quelle approvate non sono toccate.
+ */
+const importTimesheets = async (client: any, body: any, warnings: string[]) => {
+    const { timesheets } = body;
+    if (!Array.isArray(timesheets)) return;
+
+    const resourceMap = new Map<string, string>((await client.query('SELECT id, name FROM resources')).rows.map((r: any) => [normalize(r.name), safeString(r.id)]));
+    const projectMap = new Map<string, string>((await client.query('SELECT id, name FROM projects')).rows.map((p: any) => [normalize(p.name), safeString(p.id)]));
+    const approvedWeeks = new Set<string>((await client.query(
+        `SELECT resource_id, to_char(week_start, 'YYYY-MM-DD') AS week_start FROM timesheet_weeks WHERE status = 'APPROVED'`
+    )).rows.map((w: any) => `${w.resource_id}|${w.week_start}`));
+
+    const entryRows = new Map<string, any[]>();
+    const weekRows = new Map<string, any[]>();
+    timesheets.forEach((raw: any, index: number) => {
+        const row = normalizeTimesheetImportRow(raw);
+        if ('error' in row) { warnings.push(`Timesheet riga ${index + 2} saltata: ${row.error}`); return; }
+        const resId = resourceMap.get(normalize(row.resourceName));
+        const projId = projectMap.get(normalize(row.projectName));
+        if (!resId || !projId) { warnings.push(`Timesheet saltato: Risorsa '${row.resourceName}' o Progetto '${row.projectName}' non trovati.`); return; }
+
+        const weekStart = getTimesheetWeekStart(row.date);
+        if (approvedWeeks.has(`${resId}|${weekStart}`)) {
+            warnings.push(`Timesheet saltato: la settimana del ${weekStart} di '${row.resourceName}' è già approvata.`);
+            return;
+        }
+        // In caso di righe duplicate nel file vale l'ultima
+        entryRows.set(`${resId}|${projId}|${row.date}`, [uuidv4(), resId, projId, row.date, row.hours, row.notes]);
+        weekRows.set(`${resId}|${weekStart}`, [uuidv4(), resId, weekStart, 'SUBMITTED', new Date().toISOString()]);
+    });
+
+    await executeBulkInsert(client, 'timesheet_weeks', ['id', 'resource_id', 'week_start', 'status', 'submitted_at'], Array.from(weekRows.values()));
+    await executeBulkInsert(client, 'timesheet_entries', ['id', 'resource_id', 'project_id', 'entry_date', 'hours', 'notes'], Array.from(entryRows.values()),
+        'ON CONFLICT (resource_id, project_id, entry_date) DO UPDATE SET hours = EXCLUDED.hours, notes = EXCLUDED.notes, updated_at = CURRENT_TIMESTAMP');
+};
+
 const importUsersPermissions = async (client: any, body: any, warnings: string[]) => {
     const { users, permissions } = body;
     const resourceMap = new Map<string, string>();
@@ -542,6 +584,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     try {
         await client.query('BEGIN');
+        await setAllocationAuditUser(client, getUserFromRequest(req));
         
         switch (importType) {
             case 'core_entities':
@@ -562,6 +605,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             case 'leaves':
                 await importLeaves(client, req.body as any, warnings);
                 break;
+            case 'timesheets':
+                await importTimesheets(client, req.body as any, warnings);
+                break;
             case 'users_permissions':
                 // Extra check: only ADMIN can import permissions
                 try {
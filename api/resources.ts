@@ -8,6 +8,24 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { env } from './_lib/env.js';
 import { notify } from '../utils/webhookNotifier.js';
+import {
+    ALLOCATION_CLEANUP_POLICY_CONFIG_KEY,
+    getProjectCleanupBoundary,
+    getResourceCleanupBoundary,
+} from '../utils/allocationCleanupUtils.js';
+import { toISODateString } from '../utils/dateUtils.js';
+import { validateWorkSchedule } from '../utils/workScheduleUtils.js';
+import { validateLocationCalendar } from '../utils/locationCalendarUtils.js';
+import { validateFxRate } from '../utils/fxUtils.js';
+import { RATE_CARD_LINE_TYPES, planRateChange, planRateLineChange } from '../utils/rateCardUtils.js';
+import { applyAllocationCleanup, collectAllocationCleanup } from './_lib/allocationCleanup.js';
+import { setAllocationAuditUser } from './_lib/allocationChanges.js';
+import { refreshContractBacklogs, type ContractBacklogScope } from './_lib/contractBacklog.js';
+import { redistributeResourceEffortPlans } from './_lib/effortRedistribution.js';
+import { loadActiveStaffingRules } from './_lib/staffingRules.js';
+import { getChangedLeaveWindows } from '../utils/effortPlanningUtils.js';
+import { hasBlockingViolations } from '../utils/staffingRulesUtils.js';
+import type { EffortDistributionResult } from '../types';
 import {
     JSONB_FIELDS,
     ENTITY_VISIBILITY_CONTROLLED,
@@ -37,6 +55,72 @@ const toCamelAndNormalize = (o: any) => {
     return n;
 };
 
+/**
+ * Contratti il cui backlog dipende dalla riga scritta: spese e milestone del progetto, progetto
+ * (tipo di fatturazione, contratto), contratto (capienza, listino) e collegamento contratto/progetto.
+ */
+const getContractBacklogScope = (tableName: string, row: any): ContractBacklogScope | null => {
+    if (tableName === 'project_expenses' || tableName === 'billing_milestones') return row?.projectId ? { projectIds: [row.projectId] } : null;
+    if (tableName === 'projects') return { projectIds: [row.id], contractIds: row.contractId ? [row.contractId] : [] };
+    if (tableName === 'contracts') return { contractIds: [row.id] };
+    if (tableName === 'contract_projects') return { contractIds: [row.contractId] };
+    return null;
+};
+
+/**
+ * Variazione di un'assenza: i piani di effort della risorsa che intersecano il periodo in cui la
+ * capacità è cambiata vengono ridistribuiti nella transazione della scrittura, con il backlog dei
+ * contratti collegati. Se la redistribuzione viola regole di staffing bloccanti restituisce
+ * `blocked` e il chiamante annulla la scrittura.
+ */
+const redistributeLeaveEffort = async (
+    client: any,
+    previous: any | null,
+    next: any | null,
+    user: { username: string } | null
+): Promise<{ results: EffortDistributionResult[]; blocked: boolean }> => {
+    const windows = getChangedLeaveWindows(previous ? [previous] : [], next ? [next] : []);
+    if (windows.length === 0) return { results: [], blocked: false };
+    const staffingRules = await loadActiveStaffingRules(client);
+    await setAllocationAuditUser(client, user);
+    const results: EffortDistributionResult[] = [];
+    for (const window of windows) {
+        results.push(...await redistributeResourceEffortPlans(client, window, staffingRules));
+    }
+    if (results.length > 0) await refreshContractBacklogs(client, { assignmentIds: results.map(r => r.assignmentId) });
+    return { results, blocked: hasBlockingViolations(results.flatMap(r => r.ruleViolations || [])) };
+};
+
+const LEAVE_EFFORT_BLOCKED_ERROR = 'Assenza non salvata: la redistribuzione dei piani di effort viola regole di staffing bloccanti.';
+
+/** Verifica un orario di lavoro rispetto agli altri orari della risorsa (periodi non sovrapposti). */
+const checkWorkSchedule = async (client: any, schedule: any, id: string | null): Promise<string | null> => {
+    const existingRes = await client.query(
+        `SELECT id, resource_id, to_char(valid_from, 'YYYY-MM-DD') AS valid_from, to_char(valid_to, 'YYYY-MM-DD') AS valid_to
+         FROM resource_work_schedules WHERE resource_id = $1`,
+        [schedule.resourceId]
+    );
+    const existing = existingRes.rows.map((r: any) => ({ id: r.id, resourceId: r.resource_id, validFrom: r.valid_from, validTo: r.valid_to }));
+    return validateWorkSchedule({ ...schedule, id: id || undefined, validTo: schedule.validTo || null }, existing);
+};
+
+/** Verifica un calendario di sede (una sola definizione per sede, settimana e chiusure valide). */
+const checkLocationCalendar = async (client: any, calendar: any, id: string | null): Promise<string | null> => {
+    const existingRes = await client.query('SELECT id, location FROM location_calendars');
+    return validateLocationCalendar({ ...calendar, id: id || undefined }, existingRes.rows);
+};
+
+/** Verifica un cambio rispetto agli altri periodi della stessa valuta. */
+const checkFxRate = async (client: any, rate: any, id: string | null): Promise<string | null> => {
+    const existingRes = await client.query(
+        `SELECT id, currency, to_char(valid_from, 'YYYY-MM-DD') AS valid_from, to_char(valid_to, 'YYYY-MM-DD') AS valid_to
+         FROM fx_rates WHERE currency = $1`,
+        [rate.currency]
+    );
+    const existing = existingRes.rows.map((r: any) => ({ id: r.id, currency: r.currency, validFrom: r.valid_from, validTo: r.valid_to }));
+    return validateFxRate({ ...rate, id: id || undefined, validTo: rate.validTo || null }, existing);
+};
+
 const triggerNotification = async (client: any, method: string, tableName: string, id: string | null, data: any, oldData: any = null) => {
     try {
         if (method === 'POST') {
@@ -547,20 +631,127 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
              if (entity === 'rate_card_entries') {
                  if (!currentUser || !OPERATIONAL_ROLES.includes(currentUser.role)) return res.status(403).json({ error: 'Unauthorized' });
-                 const { entries } = req.body;
-                 if (!Array.isArray(entries)) return res.status(400).json({ error: 'Invalid entries data' });
+                 const { entries, lines = [], effectiveFrom = toISODateString(new Date()) } = req.body;
+                 if (!Array.isArray(entries) || !Array.isArray(lines)) return res.status(400).json({ error: 'Invalid entries data' });
+                 if (lines.some((line: any) => !RATE_CARD_LINE_TYPES.includes(line.lineType) || !line.lineKey)) {
+                     return res.status(400).json({ error: 'Regola di listino non valida (ROLE, SENIORITY o DEFAULT).' });
+                 }
+                 if (typeof effectiveFrom !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+                     return res.status(400).json({ error: 'Data di decorrenza non valida (YYYY-MM-DD).' });
+                 }
 
                  await client.query('BEGIN');
-                 for (const entry of entries) {
-                     await client.query(
-                         `INSERT INTO rate_card_entries (rate_card_id, resource_id, daily_rate) 
-                          VALUES ($1, $2, $3) 
-                          ON CONFLICT (rate_card_id, resource_id) DO UPDATE SET daily_rate = $3`,
-                         [entry.rateCardId, entry.resourceId, entry.dailyRate]
-                     );
+                 try {
+                     for (const entry of entries) {
+                         // Il cambio tariffa vale dalla decorrenza: i giorni precedenti restano sullo storico
+                         const currentRes = await client.query(
+                             'SELECT daily_rate FROM rate_card_entries WHERE rate_card_id = $1 AND resource_id = $2',
+                             [entry.rateCardId, entry.resourceId]
+                         );
+                         const historyRes = await client.query(
+                             `SELECT id, rate_card_id, resource_id, daily_rate, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+                              FROM rate_card_entry_history WHERE rate_card_id = $1 AND resource_id = $2`,
+                             [entry.rateCardId, entry.resourceId]
+                         );
+                         const plan = planRateChange(
+                             entry.rateCardId, entry.resourceId, Number(entry.dailyRate), effectiveFrom,
+                             historyRes.rows.map((r: any) => ({ ...toCamelAndNormalize(r), dailyRate: Number(r.daily_rate) })),
+                             currentRes.rows[0] ? Number(currentRes.rows[0].daily_rate) : undefined
+                         );
+                         for (const id of plan.remove) {
+                             await client.query('DELETE FROM rate_card_entry_history WHERE id = $1', [id]);
+                         }
+                         for (const { id, endDate } of plan.close) {
+                             await client.query('UPDATE rate_card_entry_history SET end_date = $1 WHERE id = $2', [endDate, id]);
+                         }
+                         for (const period of plan.insert) {
+                             await client.query(
+                                 `INSERT INTO rate_card_entry_history (id, rate_card_id, resource_id, daily_rate, start_date, end_date) VALUES ($1, $2, $3, $4, $5, $6)`,
+                                 [uuidv4(), period.rateCardId, period.resourceId, period.dailyRate, period.startDate, period.endDate]
+                             );
+                         }
+                         await client.query(
+                             `INSERT INTO rate_card_entries (rate_card_id, resource_id, daily_rate) 
+                              VALUES ($1, $2, $3) 
+                              ON CONFLICT (rate_card_id, resource_id) DO UPDATE SET daily_rate = $3`,
+                             [entry.rateCardId, entry.resourceId, entry.dailyRate]
+                         );
+                     }
+                     for (const line of lines) {
+                         const lineRes = await client.query(
+                             `SELECT id, daily_rate, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+                              FROM rate_card_lines WHERE rate_card_id = $1 AND line_type = $2 AND line_key = $3`,
+                             [line.rateCardId, line.lineType, line.lineKey]
+                         );
+                         const plan = planRateLineChange(
+                             { rateCardId: line.rateCardId, lineType: line.lineType, lineKey: line.lineKey }, Number(line.dailyRate), effectiveFrom,
+                             lineRes.rows.map((r: any) => ({ ...toCamelAndNormalize(r), dailyRate: Number(r.daily_rate) }))
+                         );
+                         for (const id of plan.remove) {
+                             await client.query('DELETE FROM rate_card_lines WHERE id = $1', [id]);
+                         }
+                         for (const { id, endDate } of plan.close) {
+                             await client.query('UPDATE rate_card_lines SET end_date = $1 WHERE id = $2', [endDate, id]);
+                         }
+                         for (const period of plan.insert) {
+                             await client.query(
+                                 `INSERT INTO rate_card_lines (id, rate_card_id, line_type, line_key, daily_rate, start_date, end_date) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                                 [uuidv4(), period.rateCardId, period.lineType, period.lineKey, period.dailyRate, period.startDate, period.endDate]
+                             );
+                         }
+                     }
+                     await refreshContractBacklogs(client, {
+                         rateCardIds: Array.from(new Set([...entries, ...lines].map((item: any) => item.rateCardId))),
+                     });
+                     await client.query('COMMIT');
+                 } catch (error) {
+                     await client.query('ROLLBACK');
+                     throw error;
                  }
-                 await client.query('COMMIT');
-                 return res.status(200).json({ success: true });
+                 const historyRes = await client.query(
+                     `SELECT id, rate_card_id, resource_id, daily_rate, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+                      FROM rate_card_entry_history ORDER BY rate_card_id, resource_id, start_date`
+                 );
+                 const linesRes = await client.query(
+                     `SELECT id, rate_card_id, line_type, line_key, daily_rate, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+                      FROM rate_card_lines ORDER BY rate_card_id, line_type, line_key, start_date`
+                 );
+                 return res.status(200).json({
+                     success: true,
+                     history: historyRes.rows.map((r: any) => ({ ...toCamelAndNormalize(r), dailyRate: Number(r.daily_rate) })),
+                     lines: linesRes.rows.map((r: any) => ({ ...toCamelAndNormalize(r), dailyRate: Number(r.daily_rate) })),
+                 });
+             }
+
+             // Inserimento massivo di festività generate: i giorni già occupati per la stessa sede vengono saltati
+             if (tableName === 'company_calendar' && action === 'bulk_create') {
+                 if (!currentUser || !OPERATIONAL_ROLES.includes(currentUser.role)) return res.status(403).json({ error: 'Unauthorized' });
+                 const { events } = req.body;
+                 if (!Array.isArray(events) || events.length === 0) return res.status(400).json({ error: 'Lista eventi mancante' });
+                 const parsed = events.map(event => VALIDATION_SCHEMAS['company_calendar'].safeParse(event));
+                 if (parsed.some(result => !result.success)) return res.status(400).json({ error: 'Invalid data' });
+
+                 const created: any[] = [];
+                 await client.query('BEGIN');
+                 try {
+                     for (const result of parsed) {
+                         const { name, date, type, location } = result.data as any;
+                         const insertRes = await client.query(
+                             `INSERT INTO company_calendar (id, name, date, type, location, version)
+                              SELECT $1, $2, $3, $4, $5, 1
+                              WHERE NOT EXISTS (SELECT 1 FROM company_calendar WHERE date = $3 AND location IS NOT DISTINCT FROM $5)
+                              ON CONFLICT (date, location) DO NOTHING
+                              RETURNING id, name, to_char(date, 'YYYY-MM-DD') AS date, type, location, version`,
+                             [uuidv4(), name, date, type, location || null]
+                         );
+                         created.push(...insertRes.rows);
+                     }
+                     await client.query('COMMIT');
+                 } catch (error) {
+                     await client.query('ROLLBACK');
+                     throw error;
+                 }
+                 return res.status(201).json({ created, skipped: events.length - created.length });
              }
 
              // Gestione speciale resource_requests: genera automaticamente il codice HCR
@@ -604,6 +795,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
              const parseResult = schema.safeParse(req.body);
              if (!parseResult.success) return res.status(400).json({ error: "Invalid data" });
              const validatedBody = parseResult.data as any;
+             if (tableName === 'resource_work_schedules') {
+                 const scheduleError = await checkWorkSchedule(client, validatedBody, null);
+                 if (scheduleError) return res.status(400).json({ error: scheduleError });
+             }
+             if (tableName === 'location_calendars') {
+                 const calendarError = await checkLocationCalendar(client, validatedBody, null);
+                 if (calendarError) return res.status(400).json({ error: calendarError });
+             }
+             if (tableName === 'fx_rates') {
+                 const fxError = await checkFxRate(client, validatedBody, null);
+                 if (fxError) return res.status(400).json({ error: fxError });
+             }
              const { categoryIds, macroCategoryIds, metrics, ...dbFields } = validatedBody;
              const columns = Object.keys(dbFields).map(k => k.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`));
              const jsonbFields = JSONB_FIELDS[tableName as string] || [];
@@ -630,6 +833,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                      conflictClause = ` ON CONFLICT (contract_id, resource_id) DO NOTHING`;
                  }
                  await client.query(`INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders.join(', ')})${conflictClause}`, values);
+                 const backlogScope = getContractBacklogScope(tableName as string, validatedBody);
+                 if (backlogScope) await refreshContractBacklogs(client, backlogScope);
                  return res.status(201).json(validatedBody);
              }
 
@@ -643,7 +848,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
              }
 
              const placeholders = values.map((_, i) => `$${i + 2}`);
-             await client.query(`INSERT INTO ${tableName} (id, version, ${columns.join(', ')}) VALUES ($1, 1, ${placeholders.join(', ')})`, [newId, ...values]);
+             const insertQuery = `INSERT INTO ${tableName} (id, version, ${columns.join(', ')}) VALUES ($1, 1, ${placeholders.join(', ')})`;
+             if (tableName === 'leave_requests') {
+                 // Assenza e redistribuzione dei piani di effort nella stessa transazione
+                 let effortRedistribution: EffortDistributionResult[] = [];
+                 await client.query('BEGIN');
+                 try {
+                     await client.query(insertQuery, [newId, ...values]);
+                     const { results, blocked } = await redistributeLeaveEffort(client, null, { status: 'PENDING', ...validatedBody, id: newId }, currentUser);
+                     if (blocked) {
+                         await client.query('ROLLBACK');
+                         return res.status(409).json({ error: LEAVE_EFFORT_BLOCKED_ERROR, ruleViolations: results.flatMap(r => r.ruleViolations || []) });
+                     }
+                     effortRedistribution = results;
+                     await client.query('COMMIT');
+                 } catch (error) {
+                     await client.query('ROLLBACK');
+                     throw error;
+                 }
+                 await triggerNotification(client, 'POST', tableName as string, newId, validatedBody);
+                 return res.status(201).json({ id: newId, version: 1, ...validatedBody, ...(effortRedistribution.length > 0 && { effortRedistribution }) });
+             }
+             await client.query(insertQuery, [newId, ...values]);
+             const backlogScope = getContractBacklogScope(tableName as string, { id: newId, ...validatedBody });
+             if (backlogScope) await refreshContractBacklogs(client, backlogScope);
              await triggerNotification(client, 'POST', tableName as string, newId, validatedBody);
              return res.status(201).json({ id: newId, version: 1, ...validatedBody });
         }
@@ -695,6 +923,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             const parseResult = schema.safeParse(dataToValidate);
             if (!parseResult.success) return res.status(400).json({ error: "Invalid data" });
             const validatedBody = parseResult.data as any;
+            if (tableName === 'resource_work_schedules') {
+                const scheduleError = await checkWorkSchedule(client, validatedBody, id as string);
+                if (scheduleError) return res.status(400).json({ error: scheduleError });
+            }
+            if (tableName === 'location_calendars') {
+                const calendarError = await checkLocationCalendar(client, validatedBody, id as string);
+                if (calendarError) return res.status(400).json({ error: calendarError });
+            }
+            if (tableName === 'fx_rates') {
+                const fxError = await checkFxRate(client, validatedBody, id as string);
+                if (fxError) return res.status(400).json({ error: fxError });
+            }
             const { categoryIds, macroCategoryIds, metrics, ...dbFields } = validatedBody;
             const updates = Object.entries(dbFields).map(([k, v], i) => `${k.replace(/[A-Z]/g, l => `_${l.toLowerCase()}`)} = $${i + 1}`);
             const jsonbFieldsPut = JSONB_FIELDS[tableName as string] || [];
@@ -718,12 +958,64 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 return res.status(200).json({ id, ...validatedBody });
             }
 
-            const result = await client.query(`UPDATE ${tableName} SET ${updates.join(', ')}, version = version + 1 WHERE id = $${values.length + 1} AND version = $${values.length + 2}`, [...values, id, version]);
-            if (result.rowCount === 0) return res.status(409).json({ error: "Conflict" });
+            // Aggiornamento, backlog dei contratti e pulizia AUTO delle allocazioni nella stessa transazione:
+            // se la pulizia fallisce, il nuovo limite (dimissioni, fine progetto) non viene salvato
+            let allocationCleanup = null;
+            let effortRedistribution: EffortDistributionResult[] = [];
+            await client.query('BEGIN');
+            try {
+                const result = await client.query(`UPDATE ${tableName} SET ${updates.join(', ')}, version = version + 1 WHERE id = $${values.length + 1} AND version = $${values.length + 2}`, [...values, id, version]);
+                if (result.rowCount === 0) {
+                    await client.query('ROLLBACK');
+                    return res.status(409).json({ error: "Conflict" });
+                }
+
+                // Un progetto spostato su un altro contratto cambia anche il backlog del contratto precedente
+                const backlogScope = getContractBacklogScope(tableName as string, { id, ...validatedBody });
+                if (backlogScope) {
+                    await refreshContractBacklogs(client, { ...backlogScope, contractIds: [...(backlogScope.contractIds ?? []), ...(oldData?.contractId ? [oldData.contractId] : [])] });
+                }
+
+                // Allocazioni oltre il nuovo limite (dimissioni, ultimo giorno, fine progetto anticipata):
+                // con policy AUTO vengono rimosse subito, con ASK il riepilogo torna al client per la conferma.
+                if (oldData && (tableName === 'resources' || tableName === 'projects')) {
+                    const next = { ...oldData, ...validatedBody };
+                    const boundary = tableName === 'resources'
+                        ? getResourceCleanupBoundary(oldData, next, toISODateString(new Date()))
+                        : getProjectCleanupBoundary(oldData, next);
+                    if (boundary) {
+                        allocationCleanup = await collectAllocationCleanup(client, tableName === 'resources' ? 'resource' : 'project', id as string, boundary);
+                        if (allocationCleanup) {
+                            const policyRes = await client.query('SELECT value FROM app_config WHERE key = $1', [ALLOCATION_CLEANUP_POLICY_CONFIG_KEY]);
+                            if (policyRes.rows[0]?.value === 'AUTO') {
+                                await setAllocationAuditUser(client, currentUser);
+                                allocationCleanup = await applyAllocationCleanup(client, allocationCleanup);
+                            }
+                        }
+                    }
+                }
+
+                if (oldData && tableName === 'leave_requests') {
+                    const { results, blocked } = await redistributeLeaveEffort(client, oldData, { ...oldData, ...validatedBody }, currentUser);
+                    if (blocked) {
+                        await client.query('ROLLBACK');
+                        return res.status(409).json({ error: LEAVE_EFFORT_BLOCKED_ERROR, ruleViolations: results.flatMap(r => r.ruleViolations || []) });
+                    }
+                    effortRedistribution = results;
+                }
+                await client.query('COMMIT');
+            } catch (error) {
+                await client.query('ROLLBACK');
+                throw error;
+            }
 
             await triggerNotification(client, 'PUT', tableName as string, id as string, validatedBody, oldData);
 
-            return res.status(200).json({ id, version: Number(version) + 1, ...validatedBody });
+            return res.status(200).json({
+                id, version: Number(version) + 1, ...validatedBody,
+                ...(allocationCleanup && { allocationCleanup }),
+                ...(effortRedistribution.length > 0 && { effortRedistribution }),
+            });
         }
 
         if (method === 'DELETE') {
@@ -736,6 +1028,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
              // Composite-key delete for join tables (no id column)
              if (tableName === 'contract_projects' && req.query.contractId && req.query.projectId) {
                  await client.query(`DELETE FROM contract_projects WHERE contract_id = $1 AND project_id = $2`, [req.query.contractId, req.query.projectId]);
+                 await refreshContractBacklogs(client, { contractIds: [req.query.contractId as string] });
                  return res.status(204).end();
              }
              if (tableName === 'contract_managers' && req.query.contractId && req.query.resourceId) {
@@ -751,7 +1044,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                  return res.status(204).end();
              }
 
-             await client.query(`DELETE FROM ${tableName} WHERE id = $1`, [id]);
+             if (tableName === 'leave_requests') {
+                 let effortRedistribution: EffortDistributionResult[] = [];
+                 await client.query('BEGIN');
+                 try {
+                     const deletedLeaveRes = await client.query('DELETE FROM leave_requests WHERE id = $1 RETURNING *', [id]);
+                     const deleted = deletedLeaveRes.rows[0] ? toCamelAndNormalize(deletedLeaveRes.rows[0]) : null;
+                     const { results, blocked } = await redistributeLeaveEffort(client, deleted, null, currentUser);
+                     if (blocked) {
+                         await client.query('ROLLBACK');
+                         return res.status(409).json({ error: LEAVE_EFFORT_BLOCKED_ERROR, ruleViolations: results.flatMap(r => r.ruleViolations || []) });
+                     }
+                     effortRedistribution = results;
+                     await client.query('COMMIT');
+                 } catch (error) {
+                     await client.query('ROLLBACK');
+                     throw error;
+                 }
+                 return effortRedistribution.length > 0 ? res.status(200).json({ effortRedistribution }) : res.status(204).end();
+             }
+
+             // I collegamenti di un progetto eliminato spariscono in cascata: i contratti vanno letti prima
+             const linkedContractsRes = tableName === 'projects'
+                 ? await client.query(
+                     'SELECT contract_id FROM contract_projects WHERE project_id = $1 UNION SELECT contract_id FROM projects WHERE id = $1 AND contract_id IS NOT NULL',
+                     [id]
+                 )
+                 : null;
+             const deletedRes = await client.query(`DELETE FROM ${tableName} WHERE id = $1 RETURNING *`, [id]);
+             const backlogScope = linkedContractsRes
+                 ? { contractIds: linkedContractsRes.rows.map((r: any) => r.contract_id) }
+                 : tableName === 'contracts' ? null : getContractBacklogScope(tableName as string, toCamelAndNormalize(deletedRes.rows[0]));
+             if (backlogScope) await refreshContractBacklogs(client, backlogScope);
              return res.status(204).end();
         }
 
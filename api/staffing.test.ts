@@ -0,0 +1,291 @@
+/* @vitest-environment node */
+/**
+ * @file api/staffing.test.ts
+ * @description Test dell'endpoint di staffing su un client Postgres simulato: ogni query viene
+ * risolta dal primo frammento SQL corrispondente, le altre restituiscono nessuna riga.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import jwt from 'jsonwebtoken';
+
+const { connect } = vi.hoisted(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.POSTGRES_URL = 'postgres://test';
+    return { connect: vi.fn() };
+});
+vi.mock('./_lib/db.js', () => ({ db: { connect } }));
+vi.mock('../utils/webhookNotifier.js', () => ({ notify: vi.fn() }));
+
+import handler from './staffing';
+
+type QueryRoute = [fragment: string, rows: any[]];
+
+/** Client simulato: registra le query eseguite e risponde secondo le rotte indicate. */
+const fakeClient = (routes: QueryRoute[]) => {
+    const queries: string[] = [];
+    return {
+        queries,
+        release: vi.fn(),
+        query: vi.fn(async (sql: string) => {
+            queries.push(sql);
+            const route = routes.find(([fragment]) => sql.includes(fragment));
+            const rows = route ? route[1] : [];
+            return { rows, rowCount: rows.length };
+        }),
+    };
+};
+
+const callHandler = async (query: Record<string, string>, method: string, body?: unknown, headers: Record<string, string> = {}) => {
+    const res: any = { statusCode: 200, body: undefined };
+    res.status = vi.fn((code: number) => { res.statusCode = code; return res; });
+    res.json = vi.fn((payload: unknown) => { res.body = payload; return res; });
+    res.setHeader = vi.fn(() => res);
+    res.end = vi.fn(() => res);
+    await handler({ method, query, body, headers } as unknown as VercelRequest, res as VercelResponse);
+    return res as { statusCode: number; body: any };
+};
+
+/** Header di autorizzazione con un token firmato come quello di `api/auth.ts`. */
+const authAs = (userId: string, role: string) => ({
+    authorization: `Bearer ${jwt.sign({ userId, username: userId, role }, 'test-secret')}`,
+});
+
+const RESOURCE_ID = '11111111-1111-4111-8111-111111111111';
+const PLACEHOLDER_ID = '22222222-2222-4222-8222-222222222222';
+const BUSY_ASSIGNMENT_ID = '33333333-3333-4333-8333-333333333333';
+const PROJECT_ID = '44444444-4444-4444-8444-444444444444';
+
+describe('POST /api/staffing?action=placeholder', () => {
+    beforeEach(() => connect.mockReset());
+
+    /** Risorsa già al 100% lunedì 2024-06-03 e segnaposto al 50% sulla stessa giornata. */
+    const conversionRoutes = (policy: 'BLOCK' | 'WARN'): QueryRoute[] => [
+        ['FROM app_config', [{ value: policy }]],
+        ['FROM assignments a JOIN projects p', [{ id: PLACEHOLDER_ID, project_id: PROJECT_ID, booking_status: 'CONFIRMED', proj_name: 'Progetto', role_name: 'Sviluppatore' }]],
+        ['SELECT id, name FROM resources', [{ id: RESOURCE_ID, name: 'Mario Rossi' }]],
+        ['SELECT id, booking_status FROM assignments', []],
+        ['OR assignment_id IN', [{ assignment_id: PLACEHOLDER_ID, allocation_date: '2024-06-03', percentage: 50 }]],
+        ['SELECT id, resource_id FROM assignments', [{ id: BUSY_ASSIGNMENT_ID, resource_id: RESOURCE_ID }, { id: PLACEHOLDER_ID, resource_id: RESOURCE_ID }]],
+        ['max_staffing_percentage', [{ id: RESOURCE_ID, max_staffing_percentage: 100, location: 'Milano', last_day_of_work: null }]],
+        ['allocation_date >= $2', [
+            { assignment_id: BUSY_ASSIGNMENT_ID, allocation_date: '2024-06-03', percentage: 100 },
+            { assignment_id: PLACEHOLDER_ID, allocation_date: '2024-06-03', percentage: 50 },
+        ]],
+    ];
+
+    it('con policy BLOCK rifiuta la conversione su una risorsa già al 100%', async () => {
+        const client = fakeClient(conversionRoutes('BLOCK'));
+        connect.mockResolvedValue(client);
+
+        const res = await callHandler({ action: 'placeholder' }, 'POST', { placeholderId: PLACEHOLDER_ID, resourceId: RESOURCE_ID });
+
+        expect(res.statusCode).toBe(409);
+        expect(res.body.conflicts).toEqual([expect.objectContaining({ resourceId: RESOURCE_ID, date: '2024-06-03', total: 150, previousTotal: 100 })]);
+        expect(client.queries).toContain('ROLLBACK');
+        expect(client.queries).not.toContain('COMMIT');
+    });
+
+    it('rifiuta la conversione che viola una regola di staffing bloccante', async () => {
+        // Il segnaposto al 50% diventa carico nuovo della risorsa: sotto la fetta minima del 60%
+        const client = fakeClient([
+            ['FROM staffing_rules', [{ id: 'rule', name: 'Fetta minima', rule_type: 'MIN_ALLOCATION_SLICE', severity: 'BLOCK', threshold: 60, is_active: true }]],
+            ['SELECT DISTINCT resource_id FROM assignments', [{ resource_id: RESOURCE_ID }]],
+            ['SELECT id, resource_id, project_id FROM assignments', [{ id: PLACEHOLDER_ID, resource_id: RESOURCE_ID, project_id: PROJECT_ID }]],
+            ...conversionRoutes('WARN'),
+        ]);
+        connect.mockResolvedValue(client);
+
+        const res = await callHandler({ action: 'placeholder' }, 'POST', { placeholderId: PLACEHOLDER_ID, resourceId: RESOURCE_ID });
+
+        expect(res.statusCode).toBe(409);
+        expect(res.body.ruleViolations).toEqual([expect.objectContaining({ ruleType: 'MIN_ALLOCATION_SLICE', severity: 'BLOCK', value: 50 })]);
+        expect(client.queries).toContain('ROLLBACK');
+        expect(client.queries).not.toContain('COMMIT');
+    });
+
+    it('con policy WARN converte e restituisce le sovrallocazioni', async () => {
+        const client = fakeClient(conversionRoutes('WARN'));
+        connect.mockResolvedValue(client);
+
+        const res = await callHandler({ action: 'placeholder' }, 'POST', { placeholderId: PLACEHOLDER_ID, resourceId: RESOURCE_ID });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.conflicts).toHaveLength(1);
+        expect(client.queries).toContain('COMMIT');
+    });
+});
+
+describe('/api/staffing: approvazione REQUIRED', () => {
+    beforeEach(() => connect.mockReset());
+
+    const ASSIGNMENT_ID = '55555555-5555-4555-8555-555555555555';
+    const PROPOSAL_ID = '66666666-6666-4666-8666-666666666666';
+    const UPDATES = [{ assignmentId: ASSIGNMENT_ID, date: '2024-06-03', percentage: 50 }];
+    /** Modalità REQUIRED con la protezione login attiva o disattiva. */
+    const approvalRoutes = (loginProtection: boolean): QueryRoute[] => [
+        ['SELECT key, value FROM app_config', [
+            { key: 'allocation_approval_mode', value: 'REQUIRED' },
+            { key: 'login_protection_enabled', value: String(loginProtection) },
+        ]],
+        ['FROM app_config', [{ value: String(loginProtection) }]],
+        ['FROM assignments a JOIN projects p', [{ id: ASSIGNMENT_ID, resource_id: RESOURCE_ID, project_status: 'In corso' }]],
+        ['FROM allocation_proposals p JOIN assignments asg', [{
+            id: PROPOSAL_ID, batch_id: 'batch', assignment_id: ASSIGNMENT_ID, resource_id: RESOURCE_ID, project_id: PROJECT_ID,
+            date: '2024-06-03', percentage: 50, previous_percentage: 0, proposed_by: 'pm', status: 'PENDING',
+        }]],
+    ];
+
+    it('con la protezione login rifiuta la scrittura delle allocazioni senza token', async () => {
+        const client = fakeClient(approvalRoutes(true));
+        connect.mockResolvedValue(client);
+
+        const res = await callHandler({ action: 'allocation' }, 'POST', { updates: UPDATES });
+
+        expect(res.statusCode).toBe(401);
+        expect(client.queries).not.toContain('BEGIN');
+    });
+
+    it('senza protezione login scrive direttamente, senza proposte', async () => {
+        const client = fakeClient(approvalRoutes(false));
+        connect.mockResolvedValue(client);
+
+        const res = await callHandler({ action: 'allocation' }, 'POST', { updates: UPDATES });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.proposals).toEqual([]);
+        expect(client.queries).toContain('COMMIT');
+        expect(client.queries.some(q => q.includes('INSERT INTO allocation_proposals'))).toBe(false);
+    });
+
+    it('riallinea il backlog dei contratti dopo il commit, senza far fallire la scrittura se il ricalcolo non riesce', async () => {
+        const client = fakeClient([['SELECT c.id FROM contracts c', [{ id: 'contract' }]], ...approvalRoutes(false)]);
+        const query = client.query.getMockImplementation()!;
+        client.query.mockImplementation(async (sql: string) => {
+            if (sql.includes('SELECT id, capienza')) throw new Error('timeout');
+            return query(sql);
+        });
+        connect.mockResolvedValue(client);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const res = await callHandler({ action: 'allocation' }, 'POST', { updates: UPDATES });
+
+        expect(res.statusCode).toBe(200);
+        expect(client.queries.findIndex(q => q.includes('FROM contracts c'))).toBeGreaterThan(client.queries.indexOf('COMMIT'));
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it('con la protezione login rifiuta la revisione senza token e non la consente in elenco', async () => {
+        const review = fakeClient(approvalRoutes(true));
+        connect.mockResolvedValue(review);
+        const reviewed = await callHandler({ action: 'proposal' }, 'POST', { ids: [PROPOSAL_ID], status: 'APPROVED' });
+        expect(reviewed.statusCode).toBe(401);
+        expect(review.queries).not.toContain('BEGIN');
+
+        connect.mockResolvedValue(fakeClient(approvalRoutes(true)));
+        const pending = await callHandler({ action: 'proposal' }, 'GET');
+        expect(pending.statusCode).toBe(200);
+        expect(pending.body).toEqual([expect.objectContaining({ id: PROPOSAL_ID, canReview: false })]);
+    });
+
+    it('rifiuta la conversione del segnaposto a chi è fuori dalla linea manageriale della risorsa', async () => {
+        const client = fakeClient([
+            ['FROM app_users', [
+                { id: 'u-res', role: 'SIMPLE', resource_id: RESOURCE_ID, manager_ids: ['u-mgr'] },
+                { id: 'u-mgr', role: 'MANAGER', resource_id: null, manager_ids: [] },
+                { id: 'u-other', role: 'MANAGER', resource_id: null, manager_ids: [] },
+            ]],
+            ...approvalRoutes(true),
+        ]);
+        connect.mockResolvedValue(client);
+
+        const res = await callHandler(
+            { action: 'placeholder' }, 'POST', { placeholderId: PLACEHOLDER_ID, resourceId: RESOURCE_ID }, authAs('u-other', 'MANAGER')
+        );
+
+        expect(res.statusCode).toBe(403);
+        expect(client.queries).not.toContain('BEGIN');
+    });
+});
+
+describe('/api/staffing?action=timesheet: autorizzazioni', () => {
+    beforeEach(() => connect.mockReset());
+
+    const WEEK = { resourceId: RESOURCE_ID, weekStart: '2024-06-03' };
+    /** u-res è collegato alla risorsa e ha come manager u-mgr; u-other è un manager fuori linea. */
+    const timesheetRoutes: QueryRoute[] = [
+        ['FROM app_users', [
+            { id: 'u-res', role: 'SIMPLE', resource_id: RESOURCE_ID, manager_ids: ['u-mgr'] },
+            { id: 'u-mgr', role: 'MANAGER', resource_id: null, manager_ids: [] },
+            { id: 'u-other', role: 'MANAGER', resource_id: null, manager_ids: [] },
+        ]],
+        ['SELECT status FROM timesheet_weeks', [{ status: 'SUBMITTED' }]],
+    ];
+    const call = async (method: string, body: unknown, headers?: Record<string, string>, loginProtection = true) => {
+        const client = fakeClient([['FROM app_config', [{ value: String(loginProtection) }]], ...timesheetRoutes]);
+        connect.mockResolvedValue(client);
+        const res = await callHandler({ action: 'timesheet' }, method, body, headers);
+        return { res, client };
+    };
+
+    it('con la protezione login richiede un utente autenticato', async () => {
+        const { res, client } = await call('PUT', { ...WEEK, entries: [] });
+        expect(res.statusCode).toBe(401);
+        expect(client.queries).not.toContain('BEGIN');
+    });
+
+    it('rifiuta con 400 le ore su progetti inesistenti o con id non valido', async () => {
+        const entries = (projectId: string) => [{ projectId, date: '2024-06-03', hours: 8 }];
+        const unknown = await call('PUT', { ...WEEK, entries: entries(PROJECT_ID) }, authAs('u-res', 'SIMPLE'));
+        expect(unknown.res.statusCode).toBe(400);
+        expect(unknown.res.body.error).toContain(PROJECT_ID);
+        const malformed = await call('PUT', { ...WEEK, entries: entries('non-un-uuid') }, authAs('u-res', 'SIMPLE'));
+        expect(malformed.res.statusCode).toBe(400);
+        expect([unknown, malformed].flatMap(c => c.client.queries)).not.toContain('BEGIN');
+    });
+
+    it('senza protezione login consente la revisione anonima, come la pagina', async () => {
+        const { res, client } = await call('POST', { ...WEEK, status: 'APPROVED' }, undefined, false);
+        expect(res.statusCode).toBe(200);
+        expect(client.queries).toContain('COMMIT');
+    });
+
+    it('rifiuta il salvataggio e l\'invio delle ore di un\'altra risorsa', async () => {
+        const saved = await call('PUT', { ...WEEK, entries: [] }, authAs('u-mgr', 'MANAGER'));
+        expect(saved.res.statusCode).toBe(403);
+        expect(saved.client.queries).not.toContain('BEGIN');
+
+        const submitted = await call('POST', { ...WEEK, status: 'SUBMITTED' }, authAs('u-other', 'MANAGER'));
+        expect(submitted.res.statusCode).toBe(403);
+        expect(submitted.client.queries).not.toContain('BEGIN');
+    });
+
+    it('limita la coda e la lettura delle settimane alla risorsa e ai suoi manager', async () => {
+        const client = fakeClient([
+            ['WHERE w.status = \'SUBMITTED\'', [{ id: 'w1', resource_id: RESOURCE_ID, week_start: '2024-06-03', status: 'SUBMITTED' }]],
+            ...timesheetRoutes,
+        ]);
+        connect.mockResolvedValue(client);
+        const managerQueue = await callHandler({ action: 'timesheet', view: 'approvals' }, 'GET', undefined, authAs('u-mgr', 'MANAGER'));
+        expect(managerQueue.body).toEqual([expect.objectContaining({ resourceId: RESOURCE_ID })]);
+        const outsiderQueue = await callHandler({ action: 'timesheet', view: 'approvals' }, 'GET', undefined, authAs('u-other', 'MANAGER'));
+        expect(outsiderQueue.body).toEqual([]);
+
+        const week = { action: 'timesheet', ...WEEK };
+        expect((await callHandler(week, 'GET', undefined, authAs('u-other', 'MANAGER'))).statusCode).toBe(403);
+        expect((await callHandler(week, 'GET', undefined, authAs('u-mgr', 'MANAGER'))).statusCode).toBe(200);
+        expect((await callHandler(week, 'GET', undefined, authAs('u-res', 'SIMPLE'))).statusCode).toBe(200);
+    });
+
+    it('consente l\'approvazione e il rifiuto solo al manager della risorsa', async () => {
+        const outsider = await call('POST', { ...WEEK, status: 'APPROVED' }, authAs('u-other', 'MANAGER'));
+        expect(outsider.res.statusCode).toBe(403);
+        const self = await call('POST', { ...WEEK, status: 'REJECTED' }, authAs('u-res', 'SIMPLE'));
+        expect(self.res.statusCode).toBe(403);
+        expect([outsider, self].flatMap(c => c.client.queries)).not.toContain('BEGIN');
+
+        const manager = await call('POST', { ...WEEK, status: 'APPROVED' }, authAs('u-mgr', 'MANAGER'));
+        expect(manager.res.statusCode).toBe(200);
+        expect(manager.client.queries).toContain('COMMIT');
+    });
+});
@@ -4,22 +4,420 @@
  * allocazioni giornaliere e assegnazioni risorsa/progetto.
  *
  * Route:
- *   POST   /api/staffing?action=allocation              → aggiornamento massivo allocazioni (upsert/delete)
- *   POST   /api/staffing?action=assignment              → crea o recupera assegnazione esistente
+ *   POST   /api/staffing?action=allocation              → aggiornamento massivo allocazioni (upsert/delete set-based),
+ *                                                          validato per intero (400 con esito per riga), idempotente
+ *                                                          con header `Idempotency-Key`, con guardia di overbooking
+ *                                                          (policy BLOCK → 409, WARN → avvisi) e delle regole di staffing
+ *                                                          attive (severità BLOCK → 409, WARN → `ruleViolations`);
+ *                                                          in modalità di approvazione REQUIRED le modifiche fuori dalla
+ *                                                          linea manageriale dell'utente diventano proposte
+ *   GET    /api/staffing?action=proposal                → proposte di allocazione in attesa (con `canReview` per l'utente)
+ *   POST   /api/staffing?action=proposal                → accetta (scrive le allocazioni) o rifiuta le proposte indicate
+ *   GET    /api/staffing?action=changes&assignmentId=<uuid>&date=<YYYY-MM-DD>
+ *                                                        → storico delle modifiche della cella (più recente prima)
+ *   GET    /api/staffing?action=changes&asOf=<ISO>&start=<YYYY-MM-DD>&end=<YYYY-MM-DD>
+ *                                                        → allocazioni della finestra com'erano all'istante indicato
+ *                                                          (`trackedSince`: inizio della registrazione dello storico)
+ *   GET    /api/staffing?action=rules&start=<YYYY-MM-DD>&end=<YYYY-MM-DD>
+ *                                                        → violazioni delle regole di staffing attive nei mesi della finestra
+ *   POST   /api/staffing?action=assignment              → crea o recupera assegnazione esistente (regole di staffing
+ *                                                          sulla nuova assegnazione nominativa); senza `resourceId`
+ *                                                          crea un segnaposto di ruolo (`roleId`, `resourceRequestId` facoltativo)
+ *   PUT    /api/staffing?action=assignment&id=<uuid>    → aggiorna lo stato di prenotazione (CONFIRMED | TENTATIVE)
+ *                                                          e/o il pattern di allocazione ricorrente (null lo rimuove)
  *   DELETE /api/staffing?action=assignment&id=<uuid>    → elimina assegnazione con cascade sulle allocazioni
+ *   PUT    /api/staffing?action=effort&id=<uuid>        → salva il piano di effort (giorni/uomo + finestra) e
+ *                                                          ridistribuisce le allocazioni; effort 0/null rimuove il piano
+ *                                                          (piano, riassegnazione e segnaposto: in modalità REQUIRED solo
+ *                                                          per chi scrive direttamente sulle risorse coinvolte)
+ *   POST   /api/staffing?action=reassign                → trasferisce le allocazioni dal cutover da una risorsa a un'altra,
+ *                                                          creando le assegnazioni mancanti; `dryRun` restituisce solo
+ *                                                          l'anteprima con le sovrallocazioni della destinazione
+ *   POST   /api/staffing?action=placeholder             → converte un segnaposto di ruolo in assegnazione nominativa,
+ *                                                          trasferendo tutte le allocazioni (policy di sovrallocazione)
+ *   POST   /api/staffing?action=cleanup                 → rimuove le allocazioni di una risorsa o di un progetto successive
+ *                                                          al nuovo limite (conferma della pulizia con policy ASK)
+ *   GET    /api/staffing?action=baseline                → elenco delle baseline di pianificazione
+ *   GET    /api/staffing?action=baseline&id=<uuid>      → scostamento baseline / piano corrente (g/u e costi per risorsa e mese,
+ *                                                          budget e milestone per progetto)
+ *   POST   /api/staffing?action=baseline                → congela le allocazioni correnti di un progetto o del portafoglio
+ *                                                          (e facoltativamente budget e milestone) in una baseline nominata
+ *   DELETE /api/staffing?action=baseline&id=<uuid>      → elimina la baseline
+ *   GET    /api/staffing?action=burndown[&id=<uuid>]    → burn-down della capienza dei contratti (tutti o uno): valore
+ *                                                          maturato e pianificato, backlog, data prevista di esaurimento
+ *                                                          e stato rispetto al preavviso configurato
+ *   GET    /api/staffing?action=timesheet&resourceId=<uuid>&weekStart=<YYYY-MM-DD>
+ *                                                        → settimana di timesheet della risorsa con le ore inserite (alla risorsa e ai suoi manager)
+ *   GET    /api/staffing?action=timesheet&view=approvals → settimane inviate in attesa di approvazione che l'utente può approvare
+ *   GET    /api/staffing?action=timesheet&view=variance&from=<YYYY-MM-DD>&to=<YYYY-MM-DD>
+ *                                                        → scostamento piano / consuntivo approvato (g/u e costi per
+ *                                                          risorsa, progetto e mese)
+ *   PUT    /api/staffing?action=timesheet                → salva le ore della settimana (solo in bozza o dopo un rifiuto;
+ *                                                          solo la risorsa stessa o un ADMIN)
+ *   POST   /api/staffing?action=timesheet                → invio della risorsa (SUBMITTED) o revisione del suo manager
+ *                                                          (APPROVED | REJECTED); senza token solo a protezione login disattiva
  */
 
 import { db } from './_lib/db.js';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { VercelPoolClient } from '@vercel/postgres';
 import { v4 as uuidv4 } from 'uuid';
 import { notify } from '../utils/webhookNotifier.js';
+import { findAllocationConflicts, OVERBOOKING_POLICY_CONFIG_KEY } from '../utils/overbookingUtils.js';
+import { hasEffortPlan } from '../utils/effortPlanningUtils.js';
+import { validateAllocationPattern } from '../utils/allocationPatternUtils.js';
+import {
+    isValidIsoDate, MAX_ALLOCATION_BATCH_SIZE, partitionAllocationWrites, resolveAllocationOutcomes, validateAllocationBatch,
+} from '../utils/allocationBatchUtils.js';
+import { isProjectVisibleInStaffing } from '../utils/allocationUtils.js';
+import { buildReassignmentPlan, resolveReassignmentPlan, validateReassignmentRequest } from '../utils/reassignmentUtils.js';
+import { buildPlaceholderConversion, validatePlaceholderAssignment, validatePlaceholderConversionRequest } from '../utils/placeholderUtils.js';
+import { getUserFromRequest, isLoginProtectionEnabled, LOGIN_PROTECTION_CONFIG_KEY } from './_lib/auth.js';
+import { applyAllocationCleanup, collectAllocationCleanup } from './_lib/allocationCleanup.js';
+import { loadAllocationChanges, loadAllocationsAsOf, setAllocationAuditUser } from './_lib/allocationChanges.js';
+import { loadContractBurndowns, refreshContractBacklogs, refreshContractBacklogsAfterCommit } from './_lib/contractBacklog.js';
+import { checkAssignmentRules, checkStaffingRules, loadActiveStaffingRules, loadStaffingRuleReport } from './_lib/staffingRules.js';
+import {
+    EFFORT_ASSIGNMENT_COLUMNS, loadLocationCalendars, redistributeEffort, toEffortAssignment,
+} from './_lib/effortRedistribution.js';
+import { hasBlockingViolations } from '../utils/staffingRulesUtils.js';
+import {
+    claimIdempotencyKey, hashRequestBody, lookupIdempotencyKey, readIdempotencyKey, storeIdempotentResponse,
+} from './_lib/idempotency.js';
+import {
+    createAllocationProposals, loadApprovalUsers, loadPendingAllocationProposals, PROPOSAL_SELECT, toAllocationProposal,
+} from './_lib/allocationProposals.js';
+import {
+    ALLOCATION_APPROVAL_MODE_CONFIG_KEY, canReviewAllocationProposal, isWithinManagementLine, splitAllocationUpdates, type ApprovalUser,
+} from '../utils/allocationApprovalUtils.js';
+import {
+    buildBaselineProjectVariance, buildBaselineVarianceRows, getBaselineProjectIds, validateBaselineRequest,
+} from '../utils/baselineUtils.js';
+import {
+    buildPlanActualRows, canEditTimesheetWeek, canTransitionTimesheetWeek, getTimesheetWeekStart, isTimesheetWeekEditable,
+    validateTimesheetWeekRequest,
+} from '../utils/timesheetUtils.js';
+import type { ResourceCostContext } from '../utils/costUtils.js';
+import type {
+    Allocation, AllocationApprovalMode, AllocationConflict, AllocationProposalReviewResult, AllocationUpdate, AllocationWriteResult, Assignment, BaselineAllocation, BaselineMilestone, BaselineVariance,
+    BookingStatus, EffortDistributionResult, LocationCalendar, OverbookingPolicy, PlaceholderConversionResult, PlanActualReport, PlanningBaseline, ReassignmentRequest, ReassignmentResult,
+    StaffingRule, StaffingRuleViolation, TimesheetStatus, TimesheetWeek, TimesheetWeekDetail,
+} from '../types';
+
+const BOOKING_STATUSES: BookingStatus[] = ['CONFIRMED', 'TENTATIVE'];
+
+/**
+ * Carica il contesto di capacità delle risorse toccate dal batch (tutte le loro assegnazioni,
+ * allocazioni correnti nelle date coinvolte, assenze approvate, festività) e calcola i conflitti
+ * di overbooking del totale giornaliero risultante.
+ */
+const checkOverbooking = async (
+    client: VercelPoolClient,
+    updates: AllocationUpdate[],
+    newAssignmentIds: string[] = []
+): Promise<{ conflicts: AllocationConflict[]; checkedResourceIds: string[] }> => {
+    const touchedAssignmentIds = Array.from(new Set(updates.map(u => u.assignmentId)));
+    const dates = updates.map(u => u.date).sort();
+    const minDate = dates[0];
+    const maxDate = dates[dates.length - 1];
+
+    const assignmentsRes = await client.query(
+        `SELECT id, resource_id FROM assignments
+         WHERE resource_id IN (SELECT resource_id FROM assignments WHERE id = ANY($1::uuid[]))`,
+        [touchedAssignmentIds]
+    );
+    const assignments = assignmentsRes.rows.map(r => ({ id: r.id as string, resourceId: r.resource_id as string }));
+    const resourceIds: string[] = Array.from(new Set(assignments.map(a => a.resourceId)));
+    if (resourceIds.length === 0) return { conflicts: [], checkedResourceIds: [] };
+
+    const [resourcesRes, allocationsRes, leavesRes, leaveTypesRes, calendarRes, locationCalendars] = await Promise.all([
+        client.query(
+            `SELECT id, max_staffing_percentage, location, to_char(last_day_of_work, 'YYYY-MM-DD') AS last_day_of_work
+             FROM resources WHERE id = ANY($1::uuid[])`,
+            [resourceIds]
+        ),
+        client.query(
+            `SELECT assignment_id, to_char(allocation_date, 'YYYY-MM-DD') AS allocation_date, percentage
+             FROM allocations
+             WHERE assignment_id = ANY($1::uuid[]) AND allocation_date >= $2 AND allocation_date <= $3`,
+            [assignments.map(a => a.id), minDate, maxDate]
+        ),
+        client.query(
+            `SELECT resource_id, type_id, status, is_half_day,
+                    to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+             FROM leave_requests
+             WHERE resource_id = ANY($1::uuid[]) AND status = 'APPROVED' AND start_date <= $3 AND end_date >= $2`,
+            [resourceIds, minDate, maxDate]
+        ),
+        client.query('SELECT id, affects_capacity FROM leave_types'),
+        client.query(
+            `SELECT name, type, location, to_char(date, 'YYYY-MM-DD') AS date
+             FROM company_calendar WHERE date >= $1 AND date <= $2`,
+            [minDate, maxDate]
+        ),
+        loadLocationCalendars(client),
+    ]);
+
+    const allocations: Allocation = {};
+    for (const row of allocationsRes.rows) {
+        if (!allocations[row.assignment_id]) allocations[row.assignment_id] = {};
+        allocations[row.assignment_id][row.allocation_date] = Number(row.percentage);
+    }
+
+    const conflicts = findAllocationConflicts({
+        updates,
+        assignments,
+        allocations,
+        resources: resourcesRes.rows.map(r => ({
+            id: r.id,
+            maxStaffingPercentage: r.max_staffing_percentage ?? 100,
+            location: r.location,
+            lastDayOfWork: r.last_day_of_work,
+        })),
+        leaveRequests: leavesRes.rows.map(r => ({
+            resourceId: r.resource_id,
+            typeId: r.type_id,
+            status: r.status,
+            isHalfDay: r.is_half_day,
+            startDate: r.start_date,
+            endDate: r.end_date,
+        })),
+        leaveTypes: leaveTypesRes.rows.map(r => ({ id: r.id, affectsCapacity: r.affects_capacity })),
+        companyCalendar: calendarRes.rows,
+        locationCalendars,
+        newAssignmentIds,
+    });
+    return { conflicts, checkedResourceIds: resourceIds };
+};
+
+const BASELINE_SELECT = `
+    SELECT b.id, b.name, b.description, b.project_id, b.budgets, b.milestones, b.created_by, b.created_at,
+           COUNT(a.baseline_id)::int AS allocation_count, COALESCE(SUM(a.percentage), 0) AS total_percentage
+    FROM planning_baselines b LEFT JOIN planning_baseline_allocations a ON a.baseline_id = b.id`;
+
+const toPlanningBaseline = (row: any): PlanningBaseline => ({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    projectId: row.project_id,
+    includesBudgets: row.budgets !== null,
+    includesMilestones: row.milestones !== null,
+    createdBy: row.created_by,
+    createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+    allocationCount: Number(row.allocation_count),
+    totalPersonDays: Math.round(Number(row.total_percentage)) / 100,
+});
+
+/** Costi giornalieri di risorse e ruoli (con storico) per costare piano, baseline e consuntivo. */
+const loadCostContext = async (client: VercelPoolClient): Promise<ResourceCostContext> => {
+    const [resourcesRes, rolesRes, historyRes] = await Promise.all([
+        client.query('SELECT id, role_id, daily_cost FROM resources'),
+        client.query('SELECT id, daily_cost FROM roles'),
+        client.query(
+            `SELECT role_id, daily_cost, to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+             FROM role_cost_history`
+        ),
+    ]);
+    return {
+        resources: resourcesRes.rows.map(r => ({ id: r.id, roleId: r.role_id, dailyCost: Number(r.daily_cost) })),
+        roles: rolesRes.rows.map(r => ({ id: r.id, dailyCost: Number(r.daily_cost) })),
+        roleCostHistory: historyRes.rows.map(r => ({
+            roleId: r.role_id, dailyCost: Number(r.daily_cost), startDate: r.start_date, endDate: r.end_date,
+        })),
+    };
+};
+
+const toBaselineAllocation = (r: any): BaselineAllocation => ({
+    resourceId: r.resource_id, projectId: r.project_id, date: r.date, percentage: Number(r.percentage),
+});
+
+/**
+ * Confronta la baseline con le allocazioni correnti nello stesso perimetro (progetto o
+ * portafoglio), costando ogni giornata con il costo valido alla data. Null se non esiste.
+ */
+const loadBaselineVariance = async (client: VercelPoolClient, baselineId: string): Promise<BaselineVariance | null> => {
+    const baselineRes = await client.query(`${BASELINE_SELECT} WHERE b.id = $1 GROUP BY b.id`, [baselineId]);
+    const row = baselineRes.rows[0];
+    if (!row) return null;
+    const baseline = toPlanningBaseline(row);
+    const budgets: Record<string, number> | null = row.budgets;
+    const milestones: BaselineMilestone[] | null = row.milestones;
+
+    const [frozenRes, currentRes, costContext] = await Promise.all([
+        client.query(
+            `SELECT resource_id, project_id, to_char(allocation_date, 'YYYY-MM-DD') AS date, percentage
+             FROM planning_baseline_allocations WHERE baseline_id = $1`,
+            [baselineId]
+        ),
+        client.query(
+            `SELECT asg.resource_id, asg.project_id, to_char(a.allocation_date, 'YYYY-MM-DD') AS date, a.percentage
+             FROM allocations a JOIN assignments asg ON asg.id = a.assignment_id
+             WHERE ($1::uuid IS NULL OR asg.project_id = $1) AND asg.resource_id IS NOT NULL AND a.percentage > 0`,
+            [baseline.projectId]
+        ),
+        loadCostContext(client),
+    ]);
+    const frozen = frozenRes.rows.map(toBaselineAllocation);
+    const current = currentRes.rows.map(toBaselineAllocation);
+
+    const { rows, totals } = buildBaselineVarianceRows(frozen, current, costContext);
+
+    const projectIds = getBaselineProjectIds(baseline, frozen, current, budgets);
+    const [projectsRes, milestonesRes] = await Promise.all([
+        client.query('SELECT id, budget FROM projects WHERE id = ANY($1::uuid[])', [projectIds]),
+        client.query('SELECT project_id, amount FROM billing_milestones WHERE project_id = ANY($1::uuid[])', [projectIds]),
+    ]);
+    const projects = buildBaselineProjectVariance(
+        projectIds,
+        { budgets, milestones },
+        projectsRes.rows.map(r => ({ id: r.id, budget: Number(r.budget) })),
+        milestonesRes.rows.map(r => ({ projectId: r.project_id, amount: Number(r.amount) }))
+    );
+    return { baseline, rows, projects, totals };
+};
+
+const TIMESHEET_STATUSES: TimesheetStatus[] = ['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const TIMESHEET_WEEK_SELECT = `
+    SELECT w.id, w.resource_id, to_char(w.week_start, 'YYYY-MM-DD') AS week_start, w.status, w.submitted_at,
+           w.reviewed_by, w.reviewed_at, w.review_notes,
+           (SELECT COALESCE(SUM(e.hours), 0) FROM timesheet_entries e
+            WHERE e.resource_id = w.resource_id AND e.entry_date BETWEEN w.week_start AND w.week_start + 6) AS total_hours
+    FROM timesheet_weeks w`;
+
+const toTimesheetWeek = (row: any): TimesheetWeek => ({
+    id: row.id,
+    resourceId: row.resource_id,
+    weekStart: row.week_start,
+    status: row.status,
+    submittedAt: row.submitted_at,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    reviewNotes: row.review_notes,
+    totalHours: Number(row.total_hours),
+});
+
+/** Settimana di timesheet con le ore inserite; se non ancora salvata è una bozza vuota. */
+const loadTimesheetWeek = async (client: VercelPoolClient, resourceId: string, weekStart: string): Promise<TimesheetWeekDetail> => {
+    const [weekRes, entriesRes] = await Promise.all([
+        client.query(`${TIMESHEET_WEEK_SELECT} WHERE w.resource_id = $1 AND w.week_start = $2`, [resourceId, weekStart]),
+        client.query(
+            `SELECT id, resource_id, project_id, to_char(entry_date, 'YYYY-MM-DD') AS date, hours, notes
+             FROM timesheet_entries WHERE resource_id = $1 AND entry_date BETWEEN $2::date AND $2::date + 6
+             ORDER BY entry_date`,
+            [resourceId, weekStart]
+        ),
+    ]);
+    const entries = entriesRes.rows.map(r => ({
+        id: r.id, resourceId: r.resource_id, projectId: r.project_id, date: r.date, hours: Number(r.hours), notes: r.notes,
+    }));
+    const week: TimesheetWeek = weekRes.rows[0]
+        ? toTimesheetWeek(weekRes.rows[0])
+        : { resourceId, weekStart, status: 'DRAFT', totalHours: entries.reduce((sum, e) => sum + e.hours, 0) };
+    return { week, entries };
+};
+
+/**
+ * Scostamento piano / consuntivo nel periodo: allocazioni pianificate e ore delle sole
+ * settimane approvate, costate con lo stesso costo giornaliero.
+ */
+const loadPlanActualReport = async (client: VercelPoolClient, from: string, to: string): Promise<PlanActualReport> => {
+    const [plannedRes, actualRes, costContext] = await Promise.all([
+        client.query(
+            `SELECT asg.resource_id, asg.project_id, to_char(a.allocation_date, 'YYYY-MM-DD') AS date, a.percentage
+             FROM allocations a JOIN assignments asg ON asg.id = a.assignment_id
+             WHERE a.allocation_date BETWEEN $1 AND $2 AND asg.resource_id IS NOT NULL AND a.percentage > 0`,
+            [from, to]
+        ),
+        client.query(
+            `SELECT e.resource_id, e.project_id, to_char(e.entry_date, 'YYYY-MM-DD') AS date, e.hours
+             FROM timesheet_entries e
+             JOIN timesheet_weeks w ON w.resource_id = e.resource_id AND w.week_start = date_trunc('week', e.entry_date)::date
+             WHERE w.status = 'APPROVED' AND e.entry_date BETWEEN $1 AND $2`,
+            [from, to]
+        ),
+        loadCostContext(client),
+    ]);
+    const { rows, totals } = buildPlanActualRows(
+        plannedRes.rows.map(toBaselineAllocation),
+        actualRes.rows.map(r => ({ resourceId: r.resource_id, projectId: r.project_id, date: r.date, hours: Number(r.hours) })),
+        costContext
+    );
+    return { from, to, rows, totals };
+};
+
+/**
+ * Scrive le allocazioni con un'istruzione per tipo: delete set-based delle celle a 0 e upsert
+ * set-based delle altre (una riga per cella, l'ultima vince). Restituisce le assegnazioni toccate.
+ */
+const writeAllocationUpdates = async (client: VercelPoolClient, updates: AllocationUpdate[]): Promise<Set<string>> => {
+    const { upserts, deletes } = partitionAllocationWrites(updates);
+    if (deletes.length > 0) {
+        await client.query(
+            `DELETE FROM allocations a
+             USING unnest($1::uuid[], $2::date[]) AS t(assignment_id, allocation_date)
+             WHERE a.assignment_id = t.assignment_id AND a.allocation_date = t.allocation_date`,
+            [deletes.map(u => u.assignmentId), deletes.map(u => u.date)]
+        );
+    }
+    if (upserts.length > 0) {
+        await client.query(
+            `INSERT INTO allocations (assignment_id, allocation_date, percentage)
+             SELECT * FROM unnest($1::uuid[], $2::date[], $3::int[])
+             ON CONFLICT (assignment_id, allocation_date) DO UPDATE SET percentage = EXCLUDED.percentage`,
+            [upserts.map(u => u.assignmentId), upserts.map(u => u.date), upserts.map(u => u.percentage)]
+        );
+    }
+    return new Set(updates.map(u => u.assignmentId));
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Visibilità dell'entità per il ruolo dell'utente (Layer 3 RBAC); senza righe configurate tutto è visibile. */
+const canRoleSeeEntity = async (
+    client: VercelPoolClient,
+    user: { role: string } | null,
+    entity: string
+): Promise<boolean> => {
+    if (!user || user.role === 'ADMIN') return true;
+    const visRes = await client.query('SELECT entity FROM role_entity_visibility WHERE role = $1 AND is_visible = TRUE', [user.role]);
+    return visRes.rows.length === 0 || visRes.rows.some(r => r.entity === entity);
+};
+
+/**
+ * Modalità REQUIRED per le scritture che non producono proposte (piani di effort, riassegnazioni,
+ * conversione dei segnaposto): sono ammesse solo a chi scrive direttamente su tutte le risorse
+ * coinvolte, gli altri passano dalla griglia di Staffing. Restituisce il rifiuto o null.
+ * Restano escluse la pulizia delle allocazioni fuori dai nuovi limiti e la redistribuzione dei
+ * piani dopo una variazione delle assenze (`api/resources.ts`): conseguono a modifiche di progetto,
+ * risorsa o assenza.
+ */
+const checkApprovalForDirectWrite = async (
+    client: VercelPoolClient,
+    user: { id: string; role: string } | null,
+    resourceIds: string[]
+): Promise<{ status: 401 | 403; error: string } | null> => {
+    const configRes = await client.query(
+        'SELECT key, value FROM app_config WHERE key = ANY($1)', [[ALLOCATION_APPROVAL_MODE_CONFIG_KEY, LOGIN_PROTECTION_CONFIG_KEY]]
+    );
+    const config = new Map<string, string>(configRes.rows.map(r => [r.key, r.value]));
+    if (config.get(ALLOCATION_APPROVAL_MODE_CONFIG_KEY) !== 'REQUIRED') return null;
+    if (!user) {
+        return config.get(LOGIN_PROTECTION_CONFIG_KEY) === 'true' ? { status: 401, error: 'Non autorizzato' } : null;
+    }
+    const approvalUsers = await loadApprovalUsers(client);
+    return resourceIds.every(resourceId => isWithinManagementLine(user, resourceId, approvalUsers))
+        ? null
+        : { status: 403, error: 'Approvazione delle allocazioni attiva: solo il manager della risorsa può eseguire l\'operazione; proporre le modifiche dalla griglia di Staffing.' };
+};
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     const { method } = req;
     const { action, id } = req.query;
 
     if (!action) {
-        return res.status(400).json({ error: 'Parametro "action" obbligatorio (allocation | assignment).' });
+        return res.status(400).json({ error: 'Parametro "action" obbligatorio (allocation | proposal | changes | rules | assignment | effort | reassign | placeholder | cleanup | baseline | burndown | timesheet).' });
     }
 
     // ─── Allocazioni ──────────────────────────────────────────────────────────
@@ -29,44 +427,149 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             return res.status(405).end();
         }
 
+        const { updates } = req.body || {};
+        if (!Array.isArray(updates) || updates.length === 0) {
+            return res.status(400).json({ error: 'Campo "updates" obbligatorio e non vuoto.' });
+        }
+        if (updates.length > MAX_ALLOCATION_BATCH_SIZE) {
+            return res.status(400).json({ error: `Batch troppo grande: massimo ${MAX_ALLOCATION_BATCH_SIZE} righe.` });
+        }
+        // Le chiavi di idempotenza sono dell'utente: senza utente autenticato l'header è ignorato
+        const user = getUserFromRequest(req);
+        let idempotencyKey: string | undefined;
+        try {
+            idempotencyKey = user ? readIdempotencyKey(req) : undefined;
+        } catch (error) {
+            return res.status(400).json({ error: (error as Error).message });
+        }
+        const requestHash = idempotencyKey ? hashRequestBody(updates) : '';
+
         const client = await db.connect();
         try {
-            const { updates } = req.body;
-            if (!Array.isArray(updates) || updates.length === 0) {
-                return res.status(400).json({ error: 'Campo "updates" obbligatorio e non vuoto.' });
+            // Retry dello stesso batch: si restituisce la risposta memorizzata senza riapplicarlo
+            const replay = async (): Promise<VercelResponse | null> => {
+                const lookup = await lookupIdempotencyKey(client, user!.id, idempotencyKey!, requestHash);
+                if (lookup.status === 'NEW') return null;
+                if (lookup.status === 'MISMATCH') {
+                    return res.status(422).json({ error: 'Chiave di idempotenza già usata per un batch diverso.' });
+                }
+                res.setHeader('Idempotent-Replayed', 'true');
+                return res.status(200).json({ ...(lookup.response as AllocationWriteResult), replayed: true });
+            };
+            if (idempotencyKey) {
+                const replayed = await replay();
+                if (replayed) return replayed;
+            }
+
+            if (!(await canRoleSeeEntity(client, user, 'allocations'))) {
+                return res.status(403).json({ error: 'Il ruolo corrente non può modificare le allocazioni.' });
+            }
+
+            // Validazione dell'intero payload prima di qualsiasi scrittura: le assegnazioni referenziate
+            // (id non UUID = inesistenti) devono esistere ed essere su progetti visibili in Staffing
+            const referencedIds = Array.from(new Set(updates
+                .map((u: Partial<AllocationUpdate>) => u?.assignmentId)
+                .filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id))));
+            const [assignmentsRes, configRes, staffingRules] = await Promise.all([
+                client.query(
+                    `SELECT a.id, a.resource_id, p.status AS project_status
+                     FROM assignments a JOIN projects p ON p.id = a.project_id
+                     WHERE a.id = ANY($1::uuid[])`,
+                    [referencedIds]
+                ),
+                client.query(
+                    'SELECT key, value FROM app_config WHERE key = ANY($1)',
+                    [[OVERBOOKING_POLICY_CONFIG_KEY, ALLOCATION_APPROVAL_MODE_CONFIG_KEY, LOGIN_PROTECTION_CONFIG_KEY]]
+                ),
+                loadActiveStaffingRules(client),
+            ]);
+            const validation = validateAllocationBatch(updates, assignmentsRes.rows.map(r => ({
+                id: r.id,
+                isEditable: isProjectVisibleInStaffing({ status: r.project_status }),
+            })));
+            if (validation.invalidCount > 0) {
+                return res.status(400).json({
+                    error: `${validation.invalidCount} righe non valide: nessuna allocazione salvata.`,
+                    success: false,
+                    outcomes: resolveAllocationOutcomes(validation.outcomes, updates, { rejected: true }),
+                });
+            }
+
+            const config = new Map<string, string>(configRes.rows.map(r => [r.key, r.value]));
+            const policy: OverbookingPolicy = config.get(OVERBOOKING_POLICY_CONFIG_KEY) === 'BLOCK' ? 'BLOCK' : 'WARN';
+            const approvalMode: AllocationApprovalMode = config.get(ALLOCATION_APPROVAL_MODE_CONFIG_KEY) === 'REQUIRED' ? 'REQUIRED' : 'OFF';
+
+            // Modalità REQUIRED: le modifiche su risorse fuori dalla linea manageriale dell'utente diventano proposte.
+            // Senza protezione login non esiste un'identità da confrontare e le modifiche restano dirette.
+            if (approvalMode === 'REQUIRED' && !user && config.get(LOGIN_PROTECTION_CONFIG_KEY) === 'true') {
+                return res.status(401).json({ error: 'Non autorizzato' });
+            }
+            let direct: AllocationUpdate[] = validation.updates;
+            let proposed: AllocationUpdate[] = [];
+            let approvalUsers: ApprovalUser[] = [];
+            if (approvalMode === 'REQUIRED' && user) {
+                approvalUsers = await loadApprovalUsers(client);
+                ({ direct, proposed } = splitAllocationUpdates(
+                    validation.updates, new Map(assignmentsRes.rows.map(r => [r.id, r.resource_id])), user, approvalUsers
+                ));
             }
 
             await client.query('BEGIN');
-            const modifiedAssignments = new Set<string>();
-            for (const update of updates) {
-                const { assignmentId, date, percentage } = update;
-                modifiedAssignments.add(assignmentId);
-                if (percentage === 0) {
-                    await client.query(
-                        'DELETE FROM allocations WHERE assignment_id = $1 AND allocation_date = $2',
-                        [assignmentId, date]
-                    );
-                } else {
-                    await client.query(
-                        'INSERT INTO allocations (assignment_id, allocation_date, percentage) VALUES ($1, $2, $3) ON CONFLICT (assignment_id, allocation_date) DO UPDATE SET percentage = EXCLUDED.percentage',
-                        [assignmentId, date, percentage]
-                    );
-                }
+            await setAllocationAuditUser(client, user);
+            if (idempotencyKey && !(await claimIdempotencyKey(client, user!.id, idempotencyKey, requestHash))) {
+                // Richiesta concorrente con la stessa chiave già completata
+                await client.query('ROLLBACK');
+                return (await replay()) ?? res.status(409).json({ error: 'Batch con la stessa chiave di idempotenza in elaborazione.' });
             }
+            const { conflicts, checkedResourceIds } = direct.length > 0
+                ? await checkOverbooking(client, direct)
+                : { conflicts: [], checkedResourceIds: [] };
+            const ruleViolations = await checkStaffingRules(client, staffingRules, direct);
+            const isOverbookingBlocked = conflicts.length > 0 && policy === 'BLOCK';
+            if (isOverbookingBlocked || hasBlockingViolations(ruleViolations)) {
+                await client.query('ROLLBACK');
+                return res.status(409).json({
+                    error: isOverbookingBlocked
+                        ? `Allocazione rifiutata: sovrallocazione su ${conflicts.length} giornate.`
+                        : `Allocazione rifiutata: ${ruleViolations.filter(v => v.severity === 'BLOCK').length} violazioni di regole di staffing bloccanti.`,
+                    success: false,
+                    policy,
+                    conflicts,
+                    checkedResourceIds,
+                    ruleViolations,
+                    outcomes: resolveAllocationOutcomes(validation.outcomes, updates, { rejected: true }),
+                });
+            }
+
+            const modifiedAssignments = await writeAllocationUpdates(client, direct);
+            const proposals = await createAllocationProposals(client, proposed, user!, approvalUsers);
+            const result: AllocationWriteResult = {
+                success: true,
+                policy,
+                conflicts,
+                checkedResourceIds,
+                ruleViolations,
+                proposals,
+                outcomes: resolveAllocationOutcomes(validation.outcomes, updates, { proposed }),
+            };
+            if (idempotencyKey) await storeIdempotentResponse(client, user!.id, idempotencyKey, result);
             await client.query('COMMIT');
 
-            for (const assignmentId of modifiedAssignments) {
+            if (modifiedAssignments.size > 0) {
+                await refreshContractBacklogsAfterCommit(client, { assignmentIds: Array.from(modifiedAssignments) });
                 const detailsRes = await client.query(
-                    `SELECT a.resource_id, r.name AS res_name, p.name AS proj_name
+                    `SELECT a.id, a.resource_id, r.name AS res_name, p.name AS proj_name
                      FROM assignments a
                      JOIN resources r ON a.resource_id = r.id
                      JOIN projects p ON a.project_id = p.id
-                     WHERE a.id = $1`,
-                    [assignmentId]
+                     WHERE a.id = ANY($1::uuid[])`,
+                    [Array.from(modifiedAssignments)]
                 );
-                if (detailsRes.rows.length > 0) {
-                    const { resource_id, res_name, proj_name } = detailsRes.rows[0];
-                    const count = updates.filter((u: any) => u.assignmentId === assignmentId).length;
+                const countByAssignment = new Map<string, number>();
+                direct.forEach(u => countByAssignment.set(u.assignmentId, (countByAssignment.get(u.assignmentId) || 0) + 1));
+                const inApp: { resourceId: string; message: string }[] = [];
+                for (const { id: assignmentId, resource_id, res_name, proj_name } of detailsRes.rows) {
+                    const count = countByAssignment.get(assignmentId) || 0;
                     await notify(client, 'ALLOCATION_CHANGED', {
                         title: 'Allocazione Modificata',
                         color: 'Good',
@@ -77,14 +580,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                         ],
                     });
                     if (count > 1) {
-                        await client.query(
-                            'INSERT INTO notifications (id, recipient_resource_id, title, message, link) VALUES ($1, $2, $3, $4, $5)',
-                            [uuidv4(), resource_id, 'Modifica Allocazioni', `Le tue allocazioni sul progetto ${proj_name} sono state aggiornate per ${count} giorni.`, '/workload']
-                        );
+                        inApp.push({ resourceId: resource_id, message: `Le tue allocazioni sul progetto ${proj_name} sono state aggiornate per ${count} giorni.` });
                     }
                 }
+                if (inApp.length > 0) {
+                    await client.query(
+                        `INSERT INTO notifications (id, recipient_resource_id, title, message, link)
+                         SELECT t.id, t.resource_id, 'Modifica Allocazioni', t.message, '/workload'
+                         FROM unnest($1::uuid[], $2::uuid[], $3::text[]) AS t(id, resource_id, message)`,
+                        [inApp.map(() => uuidv4()), inApp.map(n => n.resourceId), inApp.map(n => n.message)]
+                    );
+                }
             }
-            return res.status(200).json({ success: true });
+            return res.status(200).json(result);
         } catch (error) {
             await client.query('ROLLBACK');
             return res.status(500).json({ error: (error as Error).message });
@@ -93,24 +601,208 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
     }
 
+    // ─── Proposte di allocazione (modalità di approvazione) ───────────────────
+    if (action === 'proposal') {
+        const client = await db.connect();
+        try {
+            const user = getUserFromRequest(req);
+            if (method === 'GET') {
+                return res.status(200).json(await loadPendingAllocationProposals(client, user));
+            }
+
+            if (method === 'POST') {
+                const { ids, status, reviewNotes } = req.body || {};
+                if (!Array.isArray(ids) || ids.length === 0 || (status !== 'APPROVED' && status !== 'REJECTED')) {
+                    return res.status(400).json({ error: 'Campi "ids" (non vuoto) e "status" (APPROVED | REJECTED) obbligatori.' });
+                }
+                if (!user && await isLoginProtectionEnabled(client)) {
+                    return res.status(401).json({ error: 'Non autorizzato' });
+                }
+
+                await client.query('BEGIN');
+                await setAllocationAuditUser(client, user);
+                const proposalsRes = await client.query(
+                    `${PROPOSAL_SELECT} WHERE p.id = ANY($1::uuid[]) AND p.status = 'PENDING' ORDER BY p.allocation_date FOR UPDATE OF p`,
+                    [ids]
+                );
+                const proposals = proposalsRes.rows.map(toAllocationProposal);
+                if (proposals.length === 0) {
+                    await client.query('ROLLBACK');
+                    return res.status(409).json({ error: 'Le proposte selezionate non sono più in attesa di approvazione.' });
+                }
+                if (user) {
+                    const approvalUsers = await loadApprovalUsers(client);
+                    if (proposals.some(p => !canReviewAllocationProposal(user, p.resourceId, approvalUsers))) {
+                        await client.query('ROLLBACK');
+                        return res.status(403).json({ error: 'Solo il manager della risorsa può accettare o rifiutare la proposta.' });
+                    }
+                }
+
+                const applied: AllocationUpdate[] = status === 'APPROVED'
+                    ? proposals.map(p => ({ assignmentId: p.assignmentId, date: p.date, percentage: p.percentage }))
+                    : [];
+                let result: Omit<AllocationProposalReviewResult, 'status' | 'reviewedIds' | 'applied'> = { success: true };
+                if (applied.length > 0) {
+                    const policyRes = await client.query('SELECT value FROM app_config WHERE key = $1', [OVERBOOKING_POLICY_CONFIG_KEY]);
+                    const policy: OverbookingPolicy = policyRes.rows[0]?.value === 'BLOCK' ? 'BLOCK' : 'WARN';
+                    const { conflicts, checkedResourceIds } = await checkOverbooking(client, applied);
+                    const ruleViolations = await checkStaffingRules(client, await loadActiveStaffingRules(client), applied);
+                    const isOverbookingBlocked = conflicts.length > 0 && policy === 'BLOCK';
+                    if (isOverbookingBlocked || hasBlockingViolations(ruleViolations)) {
+                        await client.query('ROLLBACK');
+                        return res.status(409).json({
+                            error: isOverbookingBlocked
+                                ? `Proposta non applicabile: sovrallocazione su ${conflicts.length} giornate.`
+                                : 'Proposta non applicabile: viola regole di staffing bloccanti.',
+                            success: false,
+                            policy,
+                            conflicts,
+                            checkedResourceIds,
+                            ruleViolations,
+                        });
+                    }
+                    await writeAllocationUpdates(client, applied);
+                    result = { success: true, policy, conflicts, checkedResourceIds, ruleViolations };
+                }
+
+                const reviewedIds = proposals.map(p => p.id);
+                await client.query(
+                    `UPDATE allocation_proposals SET status = $2, reviewed_by = $3, reviewed_at = NOW(), review_notes = $4
+                     WHERE id = ANY($1::uuid[])`,
+                    [reviewedIds, status, user?.username ?? null, reviewNotes || null]
+                );
+                // Esito al proponente (se collegato a una risorsa), una notifica per lotto
+                const proposersRes = await client.query(
+                    `SELECT DISTINCT p.batch_id, u.resource_id FROM allocation_proposals p JOIN app_users u ON u.id = p.proposed_by_user_id
+                     WHERE p.id = ANY($1::uuid[]) AND u.resource_id IS NOT NULL`,
+                    [reviewedIds]
+                );
+                for (const row of proposersRes.rows) {
+                    const count = proposals.filter(p => p.batchId === row.batch_id).length;
+                    await client.query(
+                        'INSERT INTO notifications (id, recipient_resource_id, title, message, link) VALUES ($1, $2, $3, $4, $5)',
+                        [
+                            uuidv4(),
+                            row.resource_id,
+                            status === 'APPROVED' ? 'Proposta di Allocazione Accettata' : 'Proposta di Allocazione Rifiutata',
+                            status === 'APPROVED'
+                                ? `La tua proposta su ${count} giornate è stata accettata.`
+                                : `La tua proposta su ${count} giornate è stata rifiutata.${reviewNotes ? ` Motivo: ${reviewNotes}` : ''}`,
+                            '/staffing',
+                        ]
+                    );
+                }
+                await client.query('COMMIT');
+                if (applied.length > 0) await refreshContractBacklogsAfterCommit(client, { assignmentIds: applied.map(u => u.assignmentId) });
+
+                const reviewResult: AllocationProposalReviewResult = { ...result, status, reviewedIds, applied };
+                return res.status(200).json(reviewResult);
+            }
+
+            res.setHeader('Allow', ['GET', 'POST']);
+            return res.status(405).end();
+        } catch (error) {
+            if (method === 'POST') await client.query('ROLLBACK');
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    // ─── Storico modifiche delle allocazioni ──────────────────────────────────
+    if (action === 'changes') {
+        if (method !== 'GET') {
+            res.setHeader('Allow', ['GET']);
+            return res.status(405).end();
+        }
+        const client = await db.connect();
+        try {
+            if (!(await canRoleSeeEntity(client, getUserFromRequest(req), 'allocations'))) {
+                return res.status(403).json({ error: 'Il ruolo corrente non può consultare le allocazioni.' });
+            }
+            const { assignmentId, date, asOf, start, end } = req.query;
+            if (assignmentId !== undefined || date !== undefined) {
+                if (typeof assignmentId !== 'string' || !UUID_PATTERN.test(assignmentId) || !isValidIsoDate(date)) {
+                    return res.status(400).json({ error: 'Parametri "assignmentId" (uuid) e "date" (YYYY-MM-DD) obbligatori.' });
+                }
+                return res.status(200).json({ entries: await loadAllocationChanges(client, assignmentId, date) });
+            }
+            if (typeof asOf !== 'string' || isNaN(Date.parse(asOf)) || !isValidIsoDate(start) || !isValidIsoDate(end) || start > end) {
+                return res.status(400).json({ error: 'Parametri "asOf" (istante ISO), "start" e "end" (YYYY-MM-DD) obbligatori, con "start" non successivo a "end".' });
+            }
+            return res.status(200).json(await loadAllocationsAsOf(client, new Date(asOf).toISOString(), start, end));
+        } catch (error) {
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    // ─── Report violazioni regole di staffing ──────────────────────────────────
+    if (action === 'rules') {
+        if (method !== 'GET') {
+            res.setHeader('Allow', ['GET']);
+            return res.status(405).end();
+        }
+        const { start, end } = req.query;
+        if (!isValidIsoDate(start) || !isValidIsoDate(end) || start > end) {
+            return res.status(400).json({ error: 'Parametri "start" e "end" (YYYY-MM-DD) obbligatori, con "start" non successivo a "end".' });
+        }
+        const client = await db.connect();
+        try {
+            if (!(await canRoleSeeEntity(client, getUserFromRequest(req), 'allocations'))) {
+                return res.status(403).json({ error: 'Il ruolo corrente non può consultare le allocazioni.' });
+            }
+            return res.status(200).json(await loadStaffingRuleReport(client, start, end));
+        } catch (error) {
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
     // ─── Assegnazioni ─────────────────────────────────────────────────────────
     if (action === 'assignment') {
         if (method === 'POST') {
             const client = await db.connect();
             try {
                 const { resourceId, projectId } = req.body;
+                const bookingStatus: BookingStatus = req.body.bookingStatus ?? 'CONFIRMED';
+                if (!BOOKING_STATUSES.includes(bookingStatus)) {
+                    return res.status(400).json({ error: `bookingStatus non valido: ${bookingStatus}.` });
+                }
+
+                // Segnaposto di ruolo: nessuna risorsa, nessuna notifica, più segnaposto per progetto ammessi
+                if (!resourceId) {
+                    const placeholderError = validatePlaceholderAssignment(req.body);
+                    if (placeholderError) return res.status(400).json({ error: placeholderError });
+                    const { roleId } = req.body;
+                    const resourceRequestId = req.body.resourceRequestId || null;
+                    const newId = uuidv4();
+                    await client.query(
+                        'INSERT INTO assignments (id, resource_id, project_id, booking_status, role_id, resource_request_id) VALUES ($1, NULL, $2, $3, $4, $5)',
+                        [newId, projectId, bookingStatus, roleId, resourceRequestId]
+                    );
+                    const created: Assignment = { id: newId, resourceId: null, projectId, bookingStatus, roleId, resourceRequestId };
+                    return res.status(201).json(created);
+                }
                 const { rows } = await client.query(
-                    'SELECT id FROM assignments WHERE resource_id = $1 AND project_id = $2',
+                    'SELECT id, booking_status AS "bookingStatus" FROM assignments WHERE resource_id = $1 AND project_id = $2',
                     [resourceId, projectId]
                 );
                 if (rows.length > 0) {
                     return res.status(200).json({ message: 'Exists', assignment: rows[0] });
                 }
 
+                const ruleViolations = await checkAssignmentRules(client, await loadActiveStaffingRules(client), { resourceId, projectId });
+                if (hasBlockingViolations(ruleViolations)) {
+                    return res.status(409).json({ error: 'Assegnazione rifiutata: viola regole di staffing bloccanti.', ruleViolations });
+                }
+
                 const newId = uuidv4();
                 await client.query(
-                    'INSERT INTO assignments (id, resource_id, project_id) VALUES ($1, $2, $3)',
-                    [newId, resourceId, projectId]
+                    'INSERT INTO assignments (id, resource_id, project_id, booking_status) VALUES ($1, $2, $3, $4)',
+                    [newId, resourceId, projectId, bookingStatus]
                 );
 
                 const detailsRes = await client.query(
@@ -129,7 +821,42 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                         [uuidv4(), resourceId, 'Nuova Assegnazione', `Sei stato assegnato al progetto ${proj_name}.`, '/staffing']
                     );
                 }
-                return res.status(201).json({ id: newId, ...req.body });
+                return res.status(201).json({ id: newId, resourceId, projectId, bookingStatus, ...(ruleViolations.length > 0 && { ruleViolations }) });
+            } catch (error) {
+                return res.status(500).json({ error: (error as Error).message });
+            } finally {
+                client.release();
+            }
+        }
+
+        if (method === 'PUT') {
+            const body = req.body || {};
+            const hasBookingStatus = body.bookingStatus !== undefined;
+            const hasPattern = body.allocationPattern !== undefined;
+            if (!id || (!hasBookingStatus && !hasPattern)) {
+                return res.status(400).json({ error: 'Parametri "id" e almeno uno tra "bookingStatus" e "allocationPattern" obbligatori.' });
+            }
+            if (hasBookingStatus && !BOOKING_STATUSES.includes(body.bookingStatus)) {
+                return res.status(400).json({ error: `bookingStatus non valido: ${body.bookingStatus} (CONFIRMED | TENTATIVE).` });
+            }
+            const patternError = hasPattern && body.allocationPattern !== null ? validateAllocationPattern(body.allocationPattern) : null;
+            if (patternError) {
+                return res.status(400).json({ error: patternError });
+            }
+            const client = await db.connect();
+            try {
+                // Aggiorna solo i campi presenti nel body
+                const { rows } = await client.query(
+                    `UPDATE assignments SET
+                        booking_status = CASE WHEN $1 THEN $2 ELSE booking_status END,
+                        allocation_pattern = CASE WHEN $3 THEN $4::jsonb ELSE allocation_pattern END
+                     WHERE id = $5
+                     RETURNING id, resource_id AS "resourceId", project_id AS "projectId", booking_status AS "bookingStatus",
+                               allocation_pattern AS "allocationPattern"`,
+                    [hasBookingStatus, body.bookingStatus ?? null, hasPattern, hasPattern && body.allocationPattern ? JSON.stringify(body.allocationPattern) : null, id]
+                );
+                if (rows.length === 0) return res.status(404).json({ error: 'Assegnazione non trovata.' });
+                return res.status(200).json(rows[0]);
             } catch (error) {
                 return res.status(500).json({ error: (error as Error).message });
             } finally {
@@ -149,8 +876,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                     [id]
                 );
                 await client.query('BEGIN');
+                await setAllocationAuditUser(client, getUserFromRequest(req));
                 await client.query('DELETE FROM allocations WHERE assignment_id = $1', [id]);
-                await client.query('DELETE FROM assignments WHERE id = $1', [id]);
+                const deletedRes = await client.query('DELETE FROM assignments WHERE id = $1 RETURNING project_id', [id]);
+                await refreshContractBacklogs(client, { projectIds: deletedRes.rows.map(r => r.project_id) });
                 await client.query('COMMIT');
 
                 if (detailsRes.rows.length > 0) {
@@ -177,5 +906,753 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(405).end();
     }
 
-    return res.status(400).json({ error: `Azione non riconosciuta: ${action}. Valori accettati: allocation, assignment.` });
+    // ─── Piani di effort ──────────────────────────────────────────────────────
+    if (action === 'effort') {
+        if (method === 'PUT') {
+            const { plannedEffortDays, effortStartDate, effortEndDate } = req.body || {};
+            const effort = plannedEffortDays === null || plannedEffortDays === undefined || plannedEffortDays === '' ? 0 : Number(plannedEffortDays);
+            if (!id) {
+                return res.status(400).json({ error: 'Parametro "id" obbligatorio.' });
+            }
+            if (!Number.isFinite(effort) || effort < 0) {
+                return res.status(400).json({ error: `plannedEffortDays non valido: ${plannedEffortDays}.` });
+            }
+            if (effort > 0 && (!effortStartDate || !effortEndDate || effortStartDate > effortEndDate)) {
+                return res.status(400).json({ error: 'Finestra del piano non valida: "effortStartDate" deve precedere "effortEndDate".' });
+            }
+
+            const client = await db.connect();
+            try {
+                await client.query('BEGIN');
+                await setAllocationAuditUser(client, getUserFromRequest(req));
+                const currentRes = await client.query(`SELECT ${EFFORT_ASSIGNMENT_COLUMNS} FROM assignments WHERE id = $1 FOR UPDATE`, [id]);
+                if (currentRes.rows.length === 0) {
+                    await client.query('ROLLBACK');
+                    return res.status(404).json({ error: 'Assegnazione non trovata.' });
+                }
+                const current = toEffortAssignment(currentRes.rows[0]);
+                const denied = await checkApprovalForDirectWrite(client, getUserFromRequest(req), [current.resourceId]);
+                if (denied) {
+                    await client.query('ROLLBACK');
+                    return res.status(denied.status).json({ error: denied.error });
+                }
+
+                // Rimozione del piano: le allocazioni restano, modificabili a mano.
+                if (effort === 0) {
+                    await client.query(
+                        'UPDATE assignments SET planned_effort_days = NULL, effort_start_date = NULL, effort_end_date = NULL WHERE id = $1',
+                        [id]
+                    );
+                    await client.query('COMMIT');
+                    const cleared: EffortDistributionResult = {
+                        assignmentId: current.id!, plannedEffortDays: null, effortStartDate: null, effortEndDate: null,
+                        clearedStartDate: null, clearedEndDate: null, allocations: {}, distributedDays: 0, shortfallDays: 0,
+                    };
+                    return res.status(200).json(cleared);
+                }
+
+                await client.query(
+                    'UPDATE assignments SET planned_effort_days = $1, effort_start_date = $2, effort_end_date = $3 WHERE id = $4',
+                    [effort, effortStartDate, effortEndDate, id]
+                );
+                const previousWindow = hasEffortPlan(current)
+                    ? { startDate: current.effortStartDate!, endDate: current.effortEndDate! }
+                    : null;
+                const result = await redistributeEffort(
+                    client,
+                    { ...current, plannedEffortDays: effort, effortStartDate, effortEndDate },
+                    previousWindow,
+                    await loadActiveStaffingRules(client)
+                );
+                if (hasBlockingViolations(result.ruleViolations || [])) {
+                    await client.query('ROLLBACK');
+                    return res.status(409).json({
+                        error: 'Piano di effort rifiutato: la distribuzione viola regole di staffing bloccanti.',
+                        ruleViolations: result.ruleViolations,
+                    });
+                }
+                await refreshContractBacklogs(client, { assignmentIds: [current.id!] });
+                await client.query('COMMIT');
+                return res.status(200).json(result);
+            } catch (error) {
+                await client.query('ROLLBACK');
+                return res.status(500).json({ error: (error as Error).message });
+            } finally {
+                client.release();
+            }
+        }
+
+        res.setHeader('Allow', ['PUT']);
+        return res.status(405).end();
+    }
+
+    // ─── Riassegnazione tra risorse ───────────────────────────────────────────
+    if (action === 'reassign') {
+        if (method !== 'POST') {
+            res.setHeader('Allow', ['POST']);
+            return res.status(405).end();
+        }
+        const body = req.body || {};
+        const validationError = validateReassignmentRequest(body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+        const request: ReassignmentRequest = {
+            sourceResourceId: body.sourceResourceId,
+            targetResourceId: body.targetResourceId,
+            cutoverDate: body.cutoverDate,
+            projectIds: body.projectIds,
+        };
+        const { sourceResourceId, targetResourceId, cutoverDate } = request;
+        const resourceIds = [sourceResourceId, targetResourceId];
+
+        const client = await db.connect();
+        try {
+            const policyRes = await client.query('SELECT value FROM app_config WHERE key = $1', [OVERBOOKING_POLICY_CONFIG_KEY]);
+            const policy: OverbookingPolicy = policyRes.rows[0]?.value === 'BLOCK' ? 'BLOCK' : 'WARN';
+            // L'anteprima non scrive: resta disponibile anche a chi non può eseguire la riassegnazione
+            const denied = body.dryRun ? null : await checkApprovalForDirectWrite(client, getUserFromRequest(req), resourceIds);
+            if (denied) return res.status(denied.status).json({ error: denied.error });
+
+            await client.query('BEGIN');
+            await setAllocationAuditUser(client, getUserFromRequest(req));
+            const assignmentsRes = await client.query(
+                `SELECT id, resource_id, project_id, booking_status FROM assignments
+                 WHERE resource_id = ANY($1::uuid[]) FOR UPDATE`,
+                [resourceIds]
+            );
+            const assignments: Assignment[] = assignmentsRes.rows.map(r => ({
+                id: r.id, resourceId: r.resource_id, projectId: r.project_id, bookingStatus: r.booking_status ?? 'CONFIRMED',
+            }));
+            const [resourcesRes, allocationsRes, leavesRes, leaveTypesRes, calendarRes, locationCalendars] = await Promise.all([
+                client.query(
+                    `SELECT id, name, max_staffing_percentage, location, to_char(last_day_of_work, 'YYYY-MM-DD') AS last_day_of_work
+                     FROM resources WHERE id = ANY($1::uuid[])`,
+                    [resourceIds]
+                ),
+                client.query(
+                    `SELECT assignment_id, to_char(allocation_date, 'YYYY-MM-DD') AS allocation_date, percentage
+                     FROM allocations WHERE assignment_id = ANY($1::uuid[]) AND allocation_date >= $2`,
+                    [assignments.map(a => a.id), cutoverDate]
+                ),
+                client.query(
+                    `SELECT resource_id, type_id, status, is_half_day,
+                            to_char(start_date, 'YYYY-MM-DD') AS start_date, to_char(end_date, 'YYYY-MM-DD') AS end_date
+                     FROM leave_requests WHERE resource_id = $1 AND status = 'APPROVED' AND end_date >= $2`,
+                    [targetResourceId, cutoverDate]
+                ),
+                client.query('SELECT id, affects_capacity FROM leave_types'),
+                client.query(
+                    `SELECT name, type, location, to_char(date, 'YYYY-MM-DD') AS date FROM company_calendar WHERE date >= $1`,
+                    [cutoverDate]
+                ),
+                loadLocationCalendars(client),
+            ]);
+            const nameById = new Map<string, string>(resourcesRes.rows.map(r => [r.id, r.name]));
+            if (!nameById.has(sourceResourceId) || !nameById.has(targetResourceId)) {
+                await client.query('ROLLBACK');
+                return res.status(404).json({ error: 'Risorsa di origine o di destinazione non trovata.' });
+            }
+
+            const allocations: Allocation = {};
+            for (const row of allocationsRes.rows) {
+                if (!allocations[row.assignment_id]) allocations[row.assignment_id] = {};
+                allocations[row.assignment_id][row.allocation_date] = Number(row.percentage);
+            }
+            const plan = buildReassignmentPlan({
+                request,
+                assignments,
+                allocations,
+                resources: resourcesRes.rows.map(r => ({
+                    id: r.id,
+                    maxStaffingPercentage: r.max_staffing_percentage ?? 100,
+                    location: r.location,
+                    lastDayOfWork: r.last_day_of_work,
+                })),
+                leaveRequests: leavesRes.rows.map(r => ({
+                    resourceId: r.resource_id,
+                    typeId: r.type_id,
+                    status: r.status,
+                    isHalfDay: r.is_half_day,
+                    startDate: r.start_date,
+                    endDate: r.end_date,
+                })),
+                leaveTypes: leaveTypesRes.rows.map(r => ({ id: r.id, affectsCapacity: r.affects_capacity })),
+                companyCalendar: calendarRes.rows,
+                locationCalendars,
+            });
+
+            if (body.dryRun) {
+                await client.query('ROLLBACK');
+                const preview: ReassignmentResult = { ...plan, success: true, dryRun: true, policy, createdAssignments: [] };
+                return res.status(200).json(preview);
+            }
+            if (plan.moves.length === 0) {
+                await client.query('ROLLBACK');
+                return res.status(400).json({ error: `Nessuna allocazione da trasferire dal ${cutoverDate}.` });
+            }
+            if (plan.conflicts.length > 0 && policy === 'BLOCK') {
+                await client.query('ROLLBACK');
+                const rejected: ReassignmentResult = { ...plan, success: false, dryRun: false, policy, createdAssignments: [] };
+                return res.status(409).json({
+                    ...rejected,
+                    error: `Riassegnazione rifiutata: sovrallocazione della risorsa di destinazione su ${plan.conflicts.length} giornate.`,
+                });
+            }
+
+            // Assegnazioni mancanti della destinazione, con lo stato di prenotazione dell'origine;
+            // le regole di staffing sono valutate su ogni nuova assegnazione e sulle allocazioni spostate
+            const staffingRules = await loadActiveStaffingRules(client);
+            const ruleViolations: StaffingRuleViolation[] = [];
+            const createdAssignments: Assignment[] = [];
+            const createdIds: Record<string, string> = {};
+            for (const move of plan.moves.filter(m => m.createsAssignment)) {
+                ruleViolations.push(...await checkAssignmentRules(client, staffingRules, { resourceId: targetResourceId, projectId: move.projectId }));
+                const newId = uuidv4();
+                await client.query(
+                    'INSERT INTO assignments (id, resource_id, project_id, booking_status) VALUES ($1, $2, $3, $4)',
+                    [newId, targetResourceId, move.projectId, move.bookingStatus]
+                );
+                createdIds[move.targetAssignmentId] = newId;
+                createdAssignments.push({ id: newId, resourceId: targetResourceId, projectId: move.projectId, bookingStatus: move.bookingStatus });
+            }
+            const resolved = resolveReassignmentPlan(plan, createdIds);
+            ruleViolations.push(...await checkStaffingRules(client, staffingRules, [...resolved.sourceUpdates, ...resolved.targetUpdates]));
+            if (hasBlockingViolations(ruleViolations)) {
+                await client.query('ROLLBACK');
+                const rejected: ReassignmentResult = { ...plan, success: false, dryRun: false, policy, createdAssignments: [], ruleViolations };
+                return res.status(409).json({
+                    ...rejected,
+                    error: `Riassegnazione rifiutata: ${ruleViolations.filter(v => v.severity === 'BLOCK').length} violazioni di regole di staffing bloccanti.`,
+                });
+            }
+
+            await client.query(
+                'DELETE FROM allocations WHERE assignment_id = ANY($1::uuid[]) AND allocation_date >= $2',
+                [resolved.moves.map(m => m.sourceAssignmentId), cutoverDate]
+            );
+            await client.query(
+                `INSERT INTO allocations (assignment_id, allocation_date, percentage)
+                 SELECT a::uuid, d::date, p FROM unnest($1::text[], $2::text[], $3::int[]) AS t(a, d, p)
+                 ON CONFLICT (assignment_id, allocation_date) DO UPDATE SET percentage = EXCLUDED.percentage`,
+                [
+                    resolved.targetUpdates.map(u => u.assignmentId),
+                    resolved.targetUpdates.map(u => u.date),
+                    resolved.targetUpdates.map(u => u.percentage),
+                ]
+            );
+            await refreshContractBacklogs(client, { projectIds: resolved.moves.map(m => m.projectId) });
+
+            const user = getUserFromRequest(req);
+            const ip = (req.headers['x-forwarded-for'] as string) || req.socket?.remoteAddress || 'unknown';
+            await client.query(
+                `INSERT INTO action_logs (user_id, username, action, entity, entity_id, details, ip_address)
+                 VALUES ($1, $2, 'RESOURCE_REASSIGNMENT', 'assignments', $3, $4, $5)`,
+                [
+                    user?.id ?? null,
+                    user?.username ?? null,
+                    sourceResourceId,
+                    JSON.stringify({
+                        sourceResourceId,
+                        targetResourceId,
+                        cutoverDate,
+                        projectIds: request.projectIds ?? null,
+                        policy,
+                        conflicts: resolved.conflicts.length,
+                        moves: resolved.moves.map(m => ({
+                            projectId: m.projectId,
+                            sourceAssignmentId: m.sourceAssignmentId,
+                            targetAssignmentId: m.targetAssignmentId,
+                            createsAssignment: m.createsAssignment,
+                            days: m.days,
+                            effortDays: m.effortDays,
+                        })),
+                    }),
+                    ip,
+                ]
+            );
+            await client.query('COMMIT');
+
+            // Notifiche: un solo evento per tipo per l'intera riassegnazione
+            const projectsRes = await client.query(
+                'SELECT id, name FROM projects WHERE id = ANY($1::uuid[])',
+                [resolved.moves.map(m => m.projectId)]
+            );
+            const projectName = new Map<string, string>(projectsRes.rows.map(r => [r.id, r.name]));
+            const sourceName = nameById.get(sourceResourceId)!;
+            const targetName = nameById.get(targetResourceId)!;
+            const names = (moves: typeof resolved.moves) => moves.map(m => projectName.get(m.projectId) || m.projectId).join(', ');
+            if (createdAssignments.length > 0) {
+                await notify(client, 'ASSIGNMENT_CREATED', {
+                    title: 'Nuova Assegnazione',
+                    color: 'Accent',
+                    facts: [
+                        { name: 'Risorsa', value: targetName },
+                        { name: 'Progetto', value: names(resolved.moves.filter(m => m.createsAssignment)) },
+                    ],
+                });
+            }
+            await notify(client, 'ALLOCATION_CHANGED', {
+                title: 'Allocazione Modificata',
+                color: 'Good',
+                facts: [
+                    { name: 'Risorsa', value: `${sourceName} → ${targetName}` },
+                    { name: 'Progetto', value: names(resolved.moves) },
+                    { name: 'Giorni', value: resolved.targetUpdates.length.toString() },
+                ],
+            });
+            await client.query(
+                'INSERT INTO notifications (id, recipient_resource_id, title, message, link) VALUES ($1, $2, $3, $4, $5)',
+                [uuidv4(), targetResourceId, 'Riassegnazione', `Dal ${cutoverDate} subentri a ${sourceName} sui progetti ${names(resolved.moves)}.`, '/staffing']
+            );
+
+            const result: ReassignmentResult = { ...resolved, success: true, dryRun: false, policy, createdAssignments, ruleViolations };
+            return res.status(200).json(result);
+        } catch (error) {
+            await client.query('ROLLBACK');
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    // ─── Conversione segnaposto di ruolo → assegnazione nominativa ────────────
+    if (action === 'placeholder') {
+        if (method !== 'POST') {
+            res.setHeader('Allow', ['POST']);
+            return res.status(405).end();
+        }
+        const validationError = validatePlaceholderConversionRequest(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+        const { placeholderId, resourceId } = req.body as { placeholderId: string; resourceId: string };
+
+        const client = await db.connect();
+        try {
+            const policyRes = await client.query('SELECT value FROM app_config WHERE key = $1', [OVERBOOKING_POLICY_CONFIG_KEY]);
+            const policy: OverbookingPolicy = policyRes.rows[0]?.value === 'BLOCK' ? 'BLOCK' : 'WARN';
+            const denied = await checkApprovalForDirectWrite(client, getUserFromRequest(req), [resourceId]);
+            if (denied) return res.status(denied.status).json({ error: denied.error });
+
+            await client.query('BEGIN');
+            await setAllocationAuditUser(client, getUserFromRequest(req));
+            const placeholderRes = await client.query(
+                `SELECT a.id, a.project_id, a.booking_status, a.resource_request_id, p.name AS proj_name, ro.name AS role_name
+                 FROM assignments a JOIN projects p ON p.id = a.project_id LEFT JOIN roles ro ON ro.id = a.role_id
+                 WHERE a.id = $1 AND a.resource_id IS NULL FOR UPDATE OF a`,
+                [placeholderId]
+            );
+            const resourceRes = await client.query('SELECT id, name FROM resources WHERE id = $1', [resourceId]);
+            if (placeholderRes.rows.length === 0 || resourceRes.rows.length === 0) {
+                await client.query('ROLLBACK');
+                return res.status(404).json({ error: 'Segnaposto o risorsa non trovati.' });
+            }
+            const placeholder = placeholderRes.rows[0];
+            const [existingRes, allocationsRes] = await Promise.all([
+                client.query(
+                    'SELECT id, booking_status FROM assignments WHERE resource_id = $1 AND project_id = $2 FOR UPDATE',
+                    [resourceId, placeholder.project_id]
+                ),
+                client.query(
+                    `SELECT assignment_id, to_char(allocation_date, 'YYYY-MM-DD') AS allocation_date, percentage
+                     FROM allocations
+                     WHERE assignment_id = $1
+                        OR assignment_id IN (SELECT id FROM assignments WHERE resource_id = $2 AND project_id = $3)`,
+                    [placeholderId, resourceId, placeholder.project_id]
+                ),
+            ]);
+            const allocations: Allocation = {};
+            for (const row of allocationsRes.rows) {
+                if (!allocations[row.assignment_id]) allocations[row.assignment_id] = {};
+                allocations[row.assignment_id][row.allocation_date] = Number(row.percentage);
+            }
+            const existing = existingRes.rows[0];
+            const plan = buildPlaceholderConversion(
+                { id: placeholderId, projectId: placeholder.project_id },
+                resourceId,
+                existing ? [{ id: existing.id, resourceId, projectId: placeholder.project_id }] : [],
+                allocations
+            );
+
+            // Senza assegnazione esistente la risorsa entra nel progetto (regole sulla nuova assegnazione)
+            // e il segnaposto le viene intestato prima dei controlli, così le sue allocazioni entrano nel
+            // carico della risorsa; nel totale precedente contano zero, perché fino alla conversione
+            // non erano carico della risorsa
+            const staffingRules = await loadActiveStaffingRules(client);
+            const newAssignmentIds = plan.mergesIntoExisting ? [] : [placeholderId];
+            const ruleViolations = plan.mergesIntoExisting
+                ? []
+                : await checkAssignmentRules(client, staffingRules, { resourceId, projectId: placeholder.project_id });
+            if (!plan.mergesIntoExisting) {
+                await client.query('UPDATE assignments SET resource_id = $1, role_id = NULL WHERE id = $2', [resourceId, placeholderId]);
+            }
+            const { conflicts } = plan.updates.length > 0
+                ? await checkOverbooking(client, plan.updates, newAssignmentIds)
+                : { conflicts: [] as AllocationConflict[] };
+            ruleViolations.push(...await checkStaffingRules(client, staffingRules, plan.updates, newAssignmentIds));
+            const assignment: Assignment = plan.mergesIntoExisting
+                ? { id: existing.id, resourceId, projectId: placeholder.project_id, bookingStatus: existing.booking_status ?? 'CONFIRMED' }
+                : { id: placeholderId, resourceId, projectId: placeholder.project_id, bookingStatus: placeholder.booking_status ?? 'CONFIRMED', roleId: null, resourceRequestId: placeholder.resource_request_id };
+            const result: PlaceholderConversionResult = {
+                success: true,
+                policy,
+                assignment,
+                removedAssignmentId: plan.mergesIntoExisting ? placeholderId : null,
+                updates: plan.updates,
+                conflicts,
+                ruleViolations,
+            };
+            const isOverbookingBlocked = conflicts.length > 0 && policy === 'BLOCK';
+            if (isOverbookingBlocked || hasBlockingViolations(ruleViolations)) {
+                await client.query('ROLLBACK');
+                return res.status(409).json({
+                    ...result,
+                    success: false,
+                    error: isOverbookingBlocked
+                        ? `Conversione rifiutata: sovrallocazione di ${resourceRes.rows[0].name} su ${conflicts.length} giornate.`
+                        : `Conversione rifiutata: ${ruleViolations.filter(v => v.severity === 'BLOCK').length} violazioni di regole di staffing bloccanti.`,
+                });
+            }
+            if (plan.mergesIntoExisting) {
+                await writeAllocationUpdates(client, plan.updates);
+                await client.query('DELETE FROM assignments WHERE id = $1', [placeholderId]);
+            }
+            // La tariffa di vendita passa da quella del ruolo a quella della risorsa
+            await refreshContractBacklogs(client, { projectIds: [placeholder.project_id] });
+            await client.query('COMMIT');
+
+            const resName = resourceRes.rows[0].name;
+            await notify(client, 'ASSIGNMENT_CREATED', {
+                title: 'Nuova Assegnazione',
+                color: 'Accent',
+                facts: [
+                    { name: 'Risorsa', value: resName },
+                    { name: 'Progetto', value: placeholder.proj_name },
+                    { name: 'Segnaposto', value: placeholder.role_name || 'Ruolo' },
+                ],
+            });
+            await client.query(
+                'INSERT INTO notifications (id, recipient_resource_id, title, message, link) VALUES ($1, $2, $3, $4, $5)',
+                [uuidv4(), resourceId, 'Nuova Assegnazione', `Sei stato assegnato al progetto ${placeholder.proj_name} (${placeholder.role_name || 'segnaposto'}).`, '/staffing']
+            );
+            return res.status(200).json(result);
+        } catch (error) {
+            await client.query('ROLLBACK');
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    // ─── Pulizia allocazioni oltre il limite ─────────────────────────────────
+    if (action === 'cleanup') {
+        if (method !== 'POST') {
+            res.setHeader('Allow', ['POST']);
+            return res.status(405).end();
+        }
+        const { scope, entityId, boundaryDate } = req.body || {};
+        if ((scope !== 'resource' && scope !== 'project') || !entityId || typeof boundaryDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(boundaryDate)) {
+            return res.status(400).json({ error: 'Campi "scope" (resource | project), "entityId" e "boundaryDate" (YYYY-MM-DD) obbligatori.' });
+        }
+
+        const client = await db.connect();
+        try {
+            await client.query('BEGIN');
+            await setAllocationAuditUser(client, getUserFromRequest(req));
+            const summary = await collectAllocationCleanup(client, scope, entityId, boundaryDate);
+            const result = summary ? await applyAllocationCleanup(client, summary) : null;
+            await client.query('COMMIT');
+            return res.status(200).json(result);
+        } catch (error) {
+            await client.query('ROLLBACK');
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    // ─── Baseline di pianificazione ──────────────────────────────────────────
+    if (action === 'baseline') {
+        const client = await db.connect();
+        try {
+            if (method === 'GET') {
+                if (!id) {
+                    const listRes = await client.query(`${BASELINE_SELECT} GROUP BY b.id ORDER BY b.created_at DESC`);
+                    return res.status(200).json(listRes.rows.map(toPlanningBaseline));
+                }
+                const variance = await loadBaselineVariance(client, id as string);
+                if (!variance) return res.status(404).json({ error: 'Baseline non trovata.' });
+                return res.status(200).json(variance);
+            }
+
+            if (method === 'POST') {
+                const body = req.body || {};
+                const validationError = validateBaselineRequest(body);
+                if (validationError) {
+                    return res.status(400).json({ error: validationError });
+                }
+                const projectId: string | null = body.projectId || null;
+                const baselineId = uuidv4();
+
+                await client.query('BEGIN');
+                let budgets: Record<string, number> | null = null;
+                if (body.includeBudgets) {
+                    const budgetsRes = await client.query(
+                        'SELECT id, budget FROM projects WHERE ($1::uuid IS NULL OR id = $1)', [projectId]
+                    );
+                    budgets = Object.fromEntries(budgetsRes.rows.map(r => [r.id, Number(r.budget) || 0]));
+                }
+                let milestones: BaselineMilestone[] | null = null;
+                if (body.includeMilestones) {
+                    const milestonesRes = await client.query(
+                        `SELECT project_id, name, to_char(date, 'YYYY-MM-DD') AS date, amount, status
+                         FROM billing_milestones WHERE ($1::uuid IS NULL OR project_id = $1)`,
+                        [projectId]
+                    );
+                    milestones = milestonesRes.rows.map(r => ({
+                        projectId: r.project_id, name: r.name, date: r.date, amount: Number(r.amount), status: r.status,
+                    }));
+                }
+                await client.query(
+                    `INSERT INTO planning_baselines (id, name, description, project_id, budgets, milestones, created_by)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                    [
+                        baselineId, body.name.trim(), body.description || null, projectId,
+                        budgets && JSON.stringify(budgets), milestones && JSON.stringify(milestones),
+                        getUserFromRequest(req)?.username ?? null,
+                    ]
+                );
+                await client.query(
+                    `INSERT INTO planning_baseline_allocations (baseline_id, resource_id, project_id, allocation_date, percentage)
+                     SELECT $1, asg.resource_id, asg.project_id, a.allocation_date, a.percentage
+                     FROM allocations a JOIN assignments asg ON asg.id = a.assignment_id
+                     WHERE ($2::uuid IS NULL OR asg.project_id = $2) AND asg.resource_id IS NOT NULL AND a.percentage > 0`,
+                    [baselineId, projectId]
+                );
+                const createdRes = await client.query(`${BASELINE_SELECT} WHERE b.id = $1 GROUP BY b.id`, [baselineId]);
+                await client.query('COMMIT');
+                return res.status(201).json(toPlanningBaseline(createdRes.rows[0]));
+            }
+
+            if (method === 'DELETE') {
+                if (!id) return res.status(400).json({ error: 'Parametro "id" obbligatorio.' });
+                const result = await client.query('DELETE FROM planning_baselines WHERE id = $1', [id]);
+                if (result.rowCount === 0) return res.status(404).json({ error: 'Baseline non trovata.' });
+                return res.status(204).end();
+            }
+
+            res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+            return res.status(405).end();
+        } catch (error) {
+            if (method === 'POST') await client.query('ROLLBACK');
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    // ─── Burn-down capienza contratti ────────────────────────────────────────
+    if (action === 'burndown') {
+        if (method !== 'GET') {
+            res.setHeader('Allow', ['GET']);
+            return res.status(405).end();
+        }
+        const client = await db.connect();
+        try {
+            if (!(await canRoleSeeEntity(client, getUserFromRequest(req), 'contracts'))) {
+                return res.status(403).json({ error: 'Il ruolo corrente non può consultare i contratti.' });
+            }
+            if (id !== undefined && (typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+                return res.status(400).json({ error: 'Parametro "id" non valido.' });
+            }
+            const burndowns = await loadContractBurndowns(client, id ? [id as string] : null);
+            if (id && burndowns.length === 0) return res.status(404).json({ error: 'Contratto non trovato.' });
+            return res.status(200).json(id ? burndowns[0] : burndowns);
+        } catch (error) {
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    // ─── Timesheet (consuntivo ore) ──────────────────────────────────────────
+    if (action === 'timesheet') {
+        const client = await db.connect();
+        try {
+            if (method === 'GET') {
+                const { view, resourceId, weekStart, from, to } = req.query;
+                if (view === 'approvals') {
+                    const user = getUserFromRequest(req);
+                    if (!user && await isLoginProtectionEnabled(client)) return res.status(401).json({ error: 'Non autorizzato' });
+                    const listRes = await client.query(`${TIMESHEET_WEEK_SELECT} WHERE w.status = 'SUBMITTED' ORDER BY w.week_start, w.submitted_at`);
+                    const weeks = listRes.rows.map(toTimesheetWeek);
+                    if (!user) return res.status(200).json(weeks);
+                    // Solo le settimane che l'utente può approvare
+                    const approvalUsers = await loadApprovalUsers(client);
+                    return res.status(200).json(weeks.filter(w => canReviewAllocationProposal(user, w.resourceId, approvalUsers)));
+                }
+                if (view === 'variance') {
+                    if (typeof from !== 'string' || typeof to !== 'string' || !ISO_DATE.test(from) || !ISO_DATE.test(to) || from > to) {
+                        return res.status(400).json({ error: 'Parametri "from" e "to" (YYYY-MM-DD) obbligatori, con "from" non successivo a "to".' });
+                    }
+                    return res.status(200).json(await loadPlanActualReport(client, from, to));
+                }
+                if (typeof resourceId !== 'string' || !resourceId || typeof weekStart !== 'string' || !ISO_DATE.test(weekStart)) {
+                    return res.status(400).json({ error: 'Parametri "resourceId" e "weekStart" (YYYY-MM-DD) obbligatori.' });
+                }
+                // La settimana è leggibile da chi può inserirne le ore o approvarla
+                const user = getUserFromRequest(req);
+                if (!user && await isLoginProtectionEnabled(client)) return res.status(401).json({ error: 'Non autorizzato' });
+                if (user) {
+                    const approvalUsers = await loadApprovalUsers(client);
+                    if (!canEditTimesheetWeek(user, resourceId, approvalUsers) && !canReviewAllocationProposal(user, resourceId, approvalUsers)) {
+                        return res.status(403).json({ error: 'Solo la risorsa o il suo manager possono consultare il timesheet.' });
+                    }
+                }
+                return res.status(200).json(await loadTimesheetWeek(client, resourceId, getTimesheetWeekStart(weekStart)));
+            }
+
+            if (method === 'PUT') {
+                const body = req.body || {};
+                const validationError = validateTimesheetWeekRequest(body);
+                if (validationError) {
+                    return res.status(400).json({ error: validationError });
+                }
+                const { resourceId, weekStart } = body;
+                const entries = (body.entries as { projectId: string; date: string; hours: number; notes?: string | null }[])
+                    .filter(e => Number(e.hours) > 0);
+                // Stessa politica delle approvazioni: senza protezione login non esiste un'identità e le
+                // richieste anonime hanno pieni diritti, con la protezione attiva serve l'utente
+                const user = getUserFromRequest(req);
+                if (!user && await isLoginProtectionEnabled(client)) return res.status(401).json({ error: 'Non autorizzato' });
+                if (user && !canEditTimesheetWeek(user, resourceId, await loadApprovalUsers(client))) {
+                    return res.status(403).json({ error: 'Solo la risorsa può inserire le proprie ore.' });
+                }
+                // I progetti referenziati devono esistere (id non UUID = inesistenti)
+                const projectIds = Array.from(new Set((body.entries as { projectId: string }[]).map(e => e.projectId)));
+                const projectsRes = await client.query(
+                    'SELECT id FROM projects WHERE id = ANY($1::uuid[])', [projectIds.filter(id => UUID_PATTERN.test(id))]
+                );
+                const existingProjectIds = new Set(projectsRes.rows.map(r => r.id));
+                const unknownProjectId = projectIds.find(id => !existingProjectIds.has(id));
+                if (unknownProjectId) {
+                    return res.status(400).json({ error: `Progetto non trovato: ${unknownProjectId}.` });
+                }
+
+                await client.query('BEGIN');
+                const statusRes = await client.query(
+                    'SELECT status FROM timesheet_weeks WHERE resource_id = $1 AND week_start = $2 FOR UPDATE', [resourceId, weekStart]
+                );
+                const status: TimesheetStatus = statusRes.rows[0]?.status ?? 'DRAFT';
+                if (!isTimesheetWeekEditable(status)) {
+                    await client.query('ROLLBACK');
+                    return res.status(409).json({ error: `La settimana del ${weekStart} è ${status === 'APPROVED' ? 'già approvata' : 'in attesa di approvazione'} e non è modificabile.` });
+                }
+                await client.query(
+                    `INSERT INTO timesheet_weeks (id, resource_id, week_start, status) VALUES ($1, $2, $3, 'DRAFT')
+                     ON CONFLICT (resource_id, week_start) DO NOTHING`,
+                    [uuidv4(), resourceId, weekStart]
+                );
+                await client.query(
+                    'DELETE FROM timesheet_entries WHERE resource_id = $1 AND entry_date BETWEEN $2::date AND $2::date + 6',
+                    [resourceId, weekStart]
+                );
+                await client.query(
+                    `INSERT INTO timesheet_entries (id, resource_id, project_id, entry_date, hours, notes)
+                     SELECT i::uuid, $1::uuid, p::uuid, d::date, h, n FROM unnest($2::text[], $3::text[], $4::text[], $5::numeric[], $6::text[]) AS t(i, p, d, h, n)`,
+                    [
+                        resourceId,
+                        entries.map(() => uuidv4()),
+                        entries.map(e => e.projectId),
+                        entries.map(e => e.date),
+                        entries.map(e => Number(e.hours)),
+                        entries.map(e => e.notes || null),
+                    ]
+                );
+                await client.query('COMMIT');
+                return res.status(200).json(await loadTimesheetWeek(client, resourceId, weekStart));
+            }
+
+            if (method === 'POST') {
+                const { resourceId, weekStart, status, reviewNotes } = req.body || {};
+                if (typeof resourceId !== 'string' || !resourceId || typeof weekStart !== 'string' || !ISO_DATE.test(weekStart)
+                    || getTimesheetWeekStart(weekStart) !== weekStart || !TIMESHEET_STATUSES.includes(status)) {
+                    return res.status(400).json({ error: 'Campi "resourceId", "weekStart" (lunedì YYYY-MM-DD) e "status" (SUBMITTED | APPROVED | REJECTED) obbligatori.' });
+                }
+                const user = getUserFromRequest(req);
+                if (!user && await isLoginProtectionEnabled(client)) return res.status(401).json({ error: 'Non autorizzato' });
+                const isReview = status === 'APPROVED' || status === 'REJECTED';
+                if (user) {
+                    const approvalUsers = await loadApprovalUsers(client);
+                    if (isReview && !canReviewAllocationProposal(user, resourceId, approvalUsers)) {
+                        return res.status(403).json({ error: 'Solo il manager della risorsa può approvare o rifiutare il timesheet.' });
+                    }
+                    if (!isReview && !canEditTimesheetWeek(user, resourceId, approvalUsers)) {
+                        return res.status(403).json({ error: 'Solo la risorsa può inviare le proprie ore.' });
+                    }
+                }
+
+                await client.query('BEGIN');
+                const currentRes = await client.query(
+                    'SELECT status FROM timesheet_weeks WHERE resource_id = $1 AND week_start = $2 FOR UPDATE', [resourceId, weekStart]
+                );
+                const current: TimesheetStatus = currentRes.rows[0]?.status ?? 'DRAFT';
+                if (!canTransitionTimesheetWeek(current, status)) {
+                    await client.query('ROLLBACK');
+                    return res.status(409).json({ error: `Transizione non consentita: ${current} → ${status}.` });
+                }
+                await client.query(
+                    `INSERT INTO timesheet_weeks (id, resource_id, week_start, status, submitted_at, reviewed_by, reviewed_at, review_notes)
+                     VALUES ($1, $2, $3, $4, CASE WHEN $5 THEN NULL ELSE NOW() END, $6, CASE WHEN $5 THEN NOW() ELSE NULL END, $7)
+                     ON CONFLICT (resource_id, week_start) DO UPDATE SET
+                        status = EXCLUDED.status,
+                        submitted_at = CASE WHEN $5 THEN timesheet_weeks.submitted_at ELSE EXCLUDED.submitted_at END,
+                        reviewed_by = EXCLUDED.reviewed_by,
+                        reviewed_at = EXCLUDED.reviewed_at,
+                        review_notes = EXCLUDED.review_notes`,
+                    [uuidv4(), resourceId, weekStart, status, isReview, isReview ? user?.username ?? null : null, isReview ? reviewNotes || null : null]
+                );
+                if (isReview) {
+                    const ip = (req.headers['x-forwarded-for'] as string) || req.socket?.remoteAddress || 'unknown';
+                    await client.query(
+                        `INSERT INTO action_logs (user_id, username, action, entity, entity_id, details, ip_address)
+                         VALUES ($1, $2, $3, 'timesheet_weeks', $4, $5, $6)`,
+                        [
+                            user?.id ?? null,
+                            user?.username ?? null,
+                            status === 'APPROVED' ? 'TIMESHEET_APPROVED' : 'TIMESHEET_REJECTED',
+                            resourceId,
+                            JSON.stringify({ resourceId, weekStart, reviewNotes: reviewNotes || null }),
+                            ip,
+                        ]
+                    );
+                    await client.query(
+                        'INSERT INTO notifications (id, recipient_resource_id, title, message, link) VALUES ($1, $2, $3, $4, $5)',
+                        [
+                            uuidv4(),
+                            resourceId,
+                            status === 'APPROVED' ? 'Timesheet Approvato' : 'Timesheet Rifiutato',
+                            status === 'APPROVED'
+                                ? `Il timesheet della settimana del ${weekStart} è stato approvato.`
+                                : `Il timesheet della settimana del ${weekStart} è stato rifiutato${reviewNotes ? `: ${reviewNotes}` : '.'}`,
+                            '/timesheets',
+                        ]
+                    );
+                }
+                await client.query('COMMIT');
+                return res.status(200).json(await loadTimesheetWeek(client, resourceId, weekStart));
+            }
+
+            res.setHeader('Allow', ['GET', 'PUT', 'POST']);
+            return res.status(405).end();
+        } catch (error) {
+            if (method !== 'GET') await client.query('ROLLBACK');
+            return res.status(500).json({ error: (error as Error).message });
+        } finally {
+            client.release();
+        }
+    }
+
+    return res.status(400).json({ error: `Azione non riconosciuta: ${action}. Valori accettati: allocation, proposal, changes, rules, assignment, effort, reassign, placeholder, cleanup, baseline, burndown, timesheet.` });
 }
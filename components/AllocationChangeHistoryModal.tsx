@@ -0,0 +1,80 @@
+/**
+ * @file AllocationChangeHistoryModal.tsx
+ * @description Storico delle modifiche di una cella della griglia di staffing (valore precedente
+ * e nuovo, autore, data e ora), letto da `GET /api/staffing?action=changes`.
+ */
+
+import React, { useEffect, useState } from 'react';
+import Modal from './Modal';
+import { AllocationChangeEntry } from '../types';
+import { apiFetch } from '../services/apiClient';
+import { getErrorMessage } from '../utils/getErrorMessage';
+import { formatDateSynthetic, parseISODate } from '../utils/dateUtils';
+
+interface AllocationChangeHistoryModalProps {
+    /** Cella selezionata (null a modale chiusa). */
+    cell: { assignmentId: string; date: string; label: string } | null;
+    onClose: () => void;
+}
+
+const formatChangedAt = (value: string) =>
+    new Date(value).toLocaleString('it-IT', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatPercentage = (value: number) => (value === 0 ? '—' : `${value}%`);
+
+const AllocationChangeHistoryModal: React.FC<AllocationChangeHistoryModalProps> = ({ cell, onClose }) => {
+    const [entries, setEntries] = useState<AllocationChangeEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!cell) return;
+        let cancelled = false;
+        setEntries(null);
+        setError(null);
+        apiFetch<{ entries: AllocationChangeEntry[] }>(
+            `/api/staffing?action=changes&assignmentId=${cell.assignmentId}&date=${cell.date}`
+        )
+            .then(res => { if (!cancelled) setEntries(res.entries); })
+            .catch(e => { if (!cancelled) setError(getErrorMessage(e) || 'Impossibile caricare lo storico della cella.'); });
+        return () => { cancelled = true; };
+    }, [cell]);
+
+    return (
+        <Modal
+            isOpen={!!cell}
+            onClose={onClose}
+            title={cell ? `Storico modifiche · ${cell.label} · ${formatDateSynthetic(parseISODate(cell.date))}` : 'Storico modifiche'}
+        >
+            {error ? (
+                <p className="text-sm text-error">{error}</p>
+            ) : !entries ? (
+                <p className="text-sm text-on-surface-variant">Caricamento…</p>
+            ) : entries.length === 0 ? (
+                <p className="text-sm text-on-surface-variant">Nessuna modifica registrata per questa cella.</p>
+            ) : (
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-on-surface-variant">
+                            <th className="py-2 pr-4 font-medium">Data e ora</th>
+                            <th className="py-2 pr-4 font-medium">Utente</th>
+                            <th className="py-2 font-medium text-right">Modifica</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-outline-variant">
+                        {entries.map(entry => (
+                            <tr key={`${entry.changedAt}-${entry.newPercentage}`}>
+                                <td className="py-2 pr-4 whitespace-nowrap">{formatChangedAt(entry.changedAt)}</td>
+                                <td className="py-2 pr-4">{entry.changedBy || <span className="italic text-on-surface-variant">Sistema</span>}</td>
+                                <td className="py-2 text-right whitespace-nowrap">
+                                    {formatPercentage(entry.oldPercentage)} → <strong>{formatPercentage(entry.newPercentage)}</strong>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </Modal>
+    );
+};
+
+export default AllocationChangeHistoryModal;
@@ -0,0 +1,55 @@
+/**
+ * @file AllocationCleanupPrompt.tsx
+ * @description Richiesta di conferma globale (policy ASK) per la rimozione delle allocazioni
+ * successive all'ultimo giorno di una risorsa o alla data di fine anticipata di un progetto.
+ * Montata nel layout principale: la variazione può arrivare da qualunque pagina di modifica.
+ */
+
+import React from 'react';
+import ConfirmationModal from './ConfirmationModal';
+import { useAllocationCleanup, useAppState, useEntitiesContext } from '../context/AppContext';
+import { formatDateSynthetic } from '../utils/dateUtils';
+
+const AllocationCleanupPrompt: React.FC = () => {
+    const { pendingCleanup, confirmAllocationCleanup, dismissAllocationCleanup } = useAllocationCleanup();
+    const { resources, projects } = useEntitiesContext();
+    const { isActionLoading } = useAppState();
+
+    if (!pendingCleanup) return null;
+
+    const projectName = (id: string) => projects.find(p => p.id === id)?.name || id;
+    const subject = pendingCleanup.scope === 'resource'
+        ? resources.find(r => r.id === pendingCleanup.entityId)?.name
+        : projectName(pendingCleanup.entityId);
+    const reason = pendingCleanup.scope === 'resource'
+        ? `${subject} non è più disponibile dopo il ${formatDateSynthetic(pendingCleanup.boundaryDate)}`
+        : `Il progetto ${subject} termina il ${formatDateSynthetic(pendingCleanup.boundaryDate)}`;
+
+    return (
+        <ConfirmationModal
+            isOpen
+            onClose={dismissAllocationCleanup}
+            onConfirm={confirmAllocationCleanup}
+            title="Allocazioni oltre il limite"
+            confirmButtonText={`Rimuovi ${pendingCleanup.removedPersonDays} g/u`}
+            cancelButtonText="Mantieni"
+            isConfirming={isActionLoading('confirmAllocationCleanup')}
+            message={
+                <div className="space-y-3">
+                    <p>
+                        {reason}, ma restano <strong>{pendingCleanup.removedPersonDays} g/u</strong> allocati
+                        su {pendingCleanup.removedAllocations} giornate successive.
+                    </p>
+                    <ul className="text-sm space-y-0.5">
+                        {pendingCleanup.projects.map(p => (
+                            <li key={p.projectId}>{projectName(p.projectId)}: {p.removedPersonDays} g/u</li>
+                        ))}
+                    </ul>
+                    <p className="text-xs text-on-surface-variant">I PM dei progetti coinvolti riceveranno una notifica.</p>
+                </div>
+            }
+        />
+    );
+};
+
+export default AllocationCleanupPrompt;
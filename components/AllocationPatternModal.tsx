@@ -0,0 +1,220 @@
+/**
+ * @file AllocationPatternModal.tsx
+ * @description Modale per definire e applicare un pattern di allocazione ricorrente
+ * (maschera settimanale, settimane alterne, primi N giorni lavorativi del mese) a
+ * un intervallo di date. Il pattern salvato sull'assegnazione può essere esteso a
+ * un nuovo intervallo o riapplicato sull'intero periodo già coperto.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from './Modal';
+import { AllocationPattern, AllocationPatternKind } from '../types';
+import {
+    ALLOCATION_PATTERN_LABELS,
+    WEEKDAY_LABELS,
+    describeAllocationPattern,
+    expandAllocationPattern,
+    mergePatternRange,
+    validateAllocationPattern,
+} from '../utils/allocationPatternUtils';
+import { addDays, formatDateSynthetic, parseISODate, toISODateString, type HolidaySet } from '../utils/dateUtils';
+
+interface AllocationPatternModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    title: string;
+    /** Pattern già salvato sull'assegnazione, se presente. */
+    savedPattern?: AllocationPattern | null;
+    /** Festività e sede della risorsa: i giorni festivi non vengono scritti. */
+    holidaySet: HolidaySet;
+    location: string | null;
+    /** Riceve il pattern da salvare (intervallo complessivo già aggiornato) e l'intervallo da scrivere. */
+    onApply: (pattern: AllocationPattern, startDate: string, endDate: string) => void;
+    onRemove: () => void;
+}
+
+interface PatternFormState {
+    kind: AllocationPatternKind;
+    weekdayPercentages: number[];
+    weekInterval: number;
+    monthlyFirstDays: number;
+    percentage: number;
+    startDate: string;
+    endDate: string;
+}
+
+const buildInitialState = (saved: AllocationPattern | null | undefined): PatternFormState => ({
+    kind: saved?.kind ?? 'WEEKLY',
+    weekdayPercentages: saved?.weekdayPercentages?.length === 5 ? [...saved.weekdayPercentages] : [100, 100, 100, 100, 100],
+    weekInterval: saved?.weekInterval ?? 2,
+    monthlyFirstDays: saved?.monthlyFirstDays ?? 3,
+    percentage: saved?.percentage ?? 100,
+    // Con un pattern salvato si propone l'estensione dal giorno successivo alla sua fine
+    startDate: saved ? toISODateString(addDays(parseISODate(saved.endDate), 1)) : '',
+    endDate: '',
+});
+
+const AllocationPatternModal: React.FC<AllocationPatternModalProps> = ({
+    isOpen, onClose, title, savedPattern, holidaySet, location, onApply, onRemove,
+}) => {
+    const [form, setForm] = useState<PatternFormState>(() => buildInitialState(savedPattern));
+
+    useEffect(() => {
+        if (isOpen) setForm(buildInitialState(savedPattern));
+    }, [isOpen, savedPattern]);
+
+    const update = <K extends keyof PatternFormState>(key: K, value: PatternFormState[K]) =>
+        setForm(prev => ({ ...prev, [key]: value }));
+
+    const pattern = useMemo<AllocationPattern>(() => {
+        const base: AllocationPattern = {
+            kind: form.kind,
+            weekdayPercentages: form.weekdayPercentages,
+            ...(form.kind === 'ALTERNATE_WEEKS' && { weekInterval: form.weekInterval }),
+            ...(form.kind === 'MONTHLY_FIRST_DAYS' && { monthlyFirstDays: form.monthlyFirstDays, percentage: form.percentage }),
+            anchorDate: savedPattern?.anchorDate || form.startDate,
+            startDate: savedPattern?.startDate || form.startDate,
+            endDate: savedPattern?.endDate || form.endDate,
+        };
+        return mergePatternRange(base, form.startDate, form.endDate);
+    }, [form, savedPattern]);
+
+    const error = form.startDate && form.endDate ? validateAllocationPattern(pattern) : null;
+    const preview = useMemo(() => {
+        if (!form.startDate || !form.endDate || error) return null;
+        const updates = expandAllocationPattern('preview', pattern, form.startDate, form.endDate, { holidaySet, location });
+        return { days: updates.length, allocated: updates.filter(u => u.percentage > 0).length };
+    }, [pattern, form.startDate, form.endDate, error, holidaySet, location]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!preview) return;
+        onApply(pattern, form.startDate, form.endDate);
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={title}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                {savedPattern && (
+                    <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-surface-container p-3 text-sm">
+                        <div>
+                            <p className="font-medium text-on-surface">{describeAllocationPattern(savedPattern)}</p>
+                            <p className="text-xs text-on-surface-variant">
+                                Applicata dal {formatDateSynthetic(savedPattern.startDate)} al {formatDateSynthetic(savedPattern.endDate)}
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                type="button"
+                                onClick={() => setForm(prev => ({ ...prev, startDate: savedPattern.startDate, endDate: savedPattern.endDate }))}
+                                className="px-3 py-1 text-xs border border-outline rounded-full text-primary hover:bg-surface-container-low"
+                            >
+                                Riapplica su tutto il periodo
+                            </button>
+                            <button
+                                type="button"
+                                onClick={onRemove}
+                                className="px-3 py-1 text-xs border border-outline rounded-full text-error hover:bg-surface-container-low"
+                            >
+                                Rimuovi ricorrenza
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                <div>
+                    <label className="block text-sm font-medium text-on-surface-variant mb-1">Tipo di ricorrenza</label>
+                    <select
+                        value={form.kind}
+                        onChange={e => update('kind', e.target.value as AllocationPatternKind)}
+                        className="form-select w-full"
+                    >
+                        {(Object.keys(ALLOCATION_PATTERN_LABELS) as AllocationPatternKind[]).map(kind => (
+                            <option key={kind} value={kind}>{ALLOCATION_PATTERN_LABELS[kind]}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {form.kind === 'MONTHLY_FIRST_DAYS' ? (
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-on-surface-variant mb-1">Primi giorni lavorativi</label>
+                            <input
+                                type="number" min={1} max={23} value={form.monthlyFirstDays}
+                                onChange={e => update('monthlyFirstDays', Number(e.target.value))}
+                                className="form-input w-full"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-on-surface-variant mb-1">Percentuale</label>
+                            <input
+                                type="number" min={0} max={100} step={5} value={form.percentage}
+                                onChange={e => update('percentage', Number(e.target.value))}
+                                className="form-input w-full"
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Percentuale per giorno</label>
+                        <div className="grid grid-cols-5 gap-2">
+                            {WEEKDAY_LABELS.map((label, i) => (
+                                <div key={label} className="text-center">
+                                    <span className="block text-xs text-on-surface-variant mb-1">{label}</span>
+                                    <input
+                                        type="number" min={0} max={100} step={5}
+                                        aria-label={`Percentuale ${label}`}
+                                        value={form.weekdayPercentages[i]}
+                                        onChange={e => update('weekdayPercentages', form.weekdayPercentages.map((p, j) => (j === i ? Number(e.target.value) : p)))}
+                                        className="form-input w-full text-center"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        {form.kind === 'ALTERNATE_WEEKS' && (
+                            <div className="mt-3">
+                                <label className="block text-sm font-medium text-on-surface-variant mb-1">Una settimana ogni</label>
+                                <input
+                                    type="number" min={2} max={8} value={form.weekInterval}
+                                    onChange={e => update('weekInterval', Number(e.target.value))}
+                                    className="form-input w-24"
+                                />
+                                <p className="mt-1 text-xs text-on-surface-variant opacity-70">
+                                    Le settimane attive partono da quella del {formatDateSynthetic(pattern.anchorDate || null)}.
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Dal *</label>
+                        <input type="date" required value={form.startDate} onChange={e => update('startDate', e.target.value)} className="form-input w-full" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Al *</label>
+                        <input type="date" required value={form.endDate} onChange={e => update('endDate', e.target.value)} className="form-input w-full" />
+                    </div>
+                </div>
+
+                {error && <p className="text-xs text-error">{error}</p>}
+                {preview && (
+                    <p className="text-xs text-on-surface-variant">
+                        {describeAllocationPattern(pattern)}: {preview.allocated} giornate allocate su {preview.days} lavorative.
+                        I giorni esclusi dal pattern vengono svuotati.
+                    </p>
+                )}
+
+                <div className="flex justify-end gap-2 pt-4 border-t border-outline-variant">
+                    <button type="button" onClick={onClose} className="px-4 py-2 border border-outline rounded-full text-primary hover:bg-surface-container-low transition-colors">Annulla</button>
+                    <button type="submit" disabled={!preview} className="px-4 py-2 bg-primary text-on-primary rounded-full font-bold hover:opacity-90 shadow-sm transition-all disabled:opacity-50">
+                        Applica
+                    </button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+export default AllocationPatternModal;
@@ -0,0 +1,288 @@
+/**
+ * @file BaselineVariancePanel.tsx
+ * @description Vista degli scostamenti tra una baseline di pianificazione e il piano corrente:
+ * selezione/creazione/eliminazione delle baseline, totali di giorni/uomo e costo, dettaglio per
+ * risorsa e mese e, se congelati, scostamenti di budget e milestone per progetto.
+ */
+
+import React, { useMemo, useState } from 'react';
+import Modal from './Modal';
+import SearchableSelect from './SearchableSelect';
+import EmptyState from './EmptyState';
+import { SpinnerIcon } from './icons';
+import { Option } from './forms/types';
+import { BaselineVariance, PlanningBaseline } from '../types';
+import { BaselineCreateRequest } from '../utils/baselineUtils';
+import { formatCurrency } from '../utils/formatters';
+import { formatDateSynthetic } from '../utils/dateUtils';
+
+interface BaselineVariancePanelProps {
+    baselines: PlanningBaseline[];
+    selectedBaselineId: string;
+    onSelectBaseline: (id: string) => void;
+    variance: BaselineVariance | null;
+    isLoadingVariance?: boolean;
+    projectOptions: Option[];
+    getProjectName: (projectId: string) => string;
+    getResourceName: (resourceId: string) => string;
+    onCreate: (request: BaselineCreateRequest) => Promise<boolean>;
+    onDelete: (id: string) => void;
+    isCreating?: boolean;
+}
+
+const EMPTY_REQUEST: BaselineCreateRequest = { name: '', description: '', projectId: '', includeBudgets: true, includeMilestones: true };
+
+const formatDays = (value: number) => value.toLocaleString('it-IT', { maximumFractionDigits: 2 });
+const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleString('it-IT', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+/** Scostamento con segno: in rosso gli aumenti di effort/costo, in verde le riduzioni. */
+const Delta: React.FC<{ value: number; format: (value: number) => string }> = ({ value, format }) => {
+    if (value === 0) return <span className="text-on-surface-variant">–</span>;
+    return <span className={value > 0 ? 'text-error font-semibold' : 'text-tertiary font-semibold'}>{value > 0 ? '+' : ''}{format(value)}</span>;
+};
+
+const BaselineVariancePanel: React.FC<BaselineVariancePanelProps> = ({
+    baselines, selectedBaselineId, onSelectBaseline, variance, isLoadingVariance = false, projectOptions,
+    getProjectName, getResourceName, onCreate, onDelete, isCreating = false,
+}) => {
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+    const [request, setRequest] = useState<BaselineCreateRequest>(EMPTY_REQUEST);
+    const [onlyChanges, setOnlyChanges] = useState(true);
+
+    const baselineOptions = useMemo(() => baselines.map(b => ({
+        value: b.id!,
+        label: `${b.name} — ${b.projectId ? getProjectName(b.projectId) : 'Portafoglio'} (${formatDateSynthetic(b.createdAt?.slice(0, 10))})`,
+    })), [baselines, getProjectName]);
+
+    const rows = useMemo(
+        () => (variance?.rows || []).filter(r => !onlyChanges || r.deltaDays !== 0 || r.deltaCost !== 0),
+        [variance, onlyChanges]
+    );
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const created = await onCreate({ ...request, name: request.name.trim(), projectId: request.projectId || null });
+        if (created) {
+            setIsCreateOpen(false);
+            setRequest(EMPTY_REQUEST);
+        }
+    };
+
+    const totals = variance?.totals;
+    const showProjects = !!variance && (variance.baseline.includesBudgets || variance.baseline.includesMilestones);
+
+    return (
+        <div className="flex-grow bg-surface rounded-2xl shadow border border-outline-variant overflow-auto p-4 space-y-4">
+            <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                <div className="flex-grow">
+                    <SearchableSelect
+                        name="baselineId"
+                        options={baselineOptions}
+                        value={selectedBaselineId}
+                        onChange={(_, value) => onSelectBaseline(value)}
+                        placeholder="Seleziona una baseline"
+                    />
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setIsCreateOpen(true)}
+                        className="px-4 py-2 bg-primary text-on-primary rounded-full font-bold hover:opacity-90 flex items-center gap-1"
+                    >
+                        <span className="material-symbols-outlined text-base">add_a_photo</span> Nuova Baseline
+                    </button>
+                    {selectedBaselineId && (
+                        <button
+                            type="button"
+                            onClick={() => onDelete(selectedBaselineId)}
+                            className="p-2 rounded-full text-error hover:bg-error-container"
+                            title="Elimina baseline"
+                        >
+                            <span className="material-symbols-outlined">delete</span>
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {!selectedBaselineId ? (
+                <EmptyState
+                    icon="photo_camera"
+                    title={baselines.length === 0 ? 'Nessuna baseline salvata' : 'Nessuna baseline selezionata'}
+                    description="Una baseline congela le allocazioni di un progetto o del portafoglio (ed eventualmente budget e milestone) per confrontarle in seguito con il piano corrente."
+                    actionLabel={baselines.length === 0 ? 'Crea la prima baseline' : undefined}
+                    onAction={baselines.length === 0 ? () => setIsCreateOpen(true) : undefined}
+                />
+            ) : isLoadingVariance || !variance ? (
+                <div className="flex justify-center py-12"><SpinnerIcon className="w-8 h-8 text-primary" /></div>
+            ) : (
+                <>
+                    {variance.baseline.description && <p className="text-sm text-on-surface-variant">{variance.baseline.description}</p>}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="p-4 rounded-xl bg-surface-container-low">
+                            <p className="text-xs text-on-surface-variant">G/U baseline → correnti</p>
+                            <p className="text-lg font-bold text-on-surface">{formatDays(totals!.baselineDays)} → {formatDays(totals!.currentDays)}</p>
+                        </div>
+                        <div className="p-4 rounded-xl bg-surface-container-low">
+                            <p className="text-xs text-on-surface-variant">Scostamento G/U</p>
+                            <p className="text-lg"><Delta value={Math.round((totals!.currentDays - totals!.baselineDays) * 100) / 100} format={formatDays} /></p>
+                        </div>
+                        <div className="p-4 rounded-xl bg-surface-container-low">
+                            <p className="text-xs text-on-surface-variant">Costo baseline → corrente</p>
+                            <p className="text-sm font-bold text-on-surface">{formatCurrency(totals!.baselineCost)} → {formatCurrency(totals!.currentCost)}</p>
+                        </div>
+                        <div className="p-4 rounded-xl bg-surface-container-low">
+                            <p className="text-xs text-on-surface-variant">Scostamento Costo</p>
+                            <p className="text-lg"><Delta value={Math.round((totals!.currentCost - totals!.baselineCost) * 100) / 100} format={formatCurrency} /></p>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-between items-center">
+                        <h2 className="text-lg font-bold text-on-surface">Per risorsa e mese</h2>
+                        <label className="flex items-center gap-2 text-sm text-on-surface-variant">
+                            <input type="checkbox" checked={onlyChanges} onChange={e => setOnlyChanges(e.target.checked)} className="form-checkbox" />
+                            Solo scostamenti
+                        </label>
+                    </div>
+                    {rows.length === 0 ? (
+                        <EmptyState size="compact" icon="check_circle" title="Nessuno scostamento rispetto alla baseline" />
+                    ) : (
+                        <div className="overflow-x-auto rounded-lg border border-outline-variant">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-surface-container-high text-on-surface">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-semibold">Risorsa</th>
+                                        <th className="px-3 py-2 text-left font-semibold">Mese</th>
+                                        <th className="px-3 py-2 text-right font-semibold">G/U baseline</th>
+                                        <th className="px-3 py-2 text-right font-semibold">G/U correnti</th>
+                                        <th className="px-3 py-2 text-right font-semibold">Δ G/U</th>
+                                        <th className="px-3 py-2 text-right font-semibold">Costo baseline</th>
+                                        <th className="px-3 py-2 text-right font-semibold">Costo corrente</th>
+                                        <th className="px-3 py-2 text-right font-semibold">Δ Costo</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map(row => (
+                                        <tr key={`${row.resourceId}-${row.month}`} className="border-t border-outline-variant">
+                                            <td className="px-3 py-2">{getResourceName(row.resourceId)}</td>
+                                            <td className="px-3 py-2 capitalize">{formatMonth(row.month)}</td>
+                                            <td className="px-3 py-2 text-right">{formatDays(row.baselineDays)}</td>
+                                            <td className="px-3 py-2 text-right">{formatDays(row.currentDays)}</td>
+                                            <td className="px-3 py-2 text-right"><Delta value={row.deltaDays} format={formatDays} /></td>
+                                            <td className="px-3 py-2 text-right">{formatCurrency(row.baselineCost)}</td>
+                                            <td className="px-3 py-2 text-right">{formatCurrency(row.currentCost)}</td>
+                                            <td className="px-3 py-2 text-right"><Delta value={row.deltaCost} format={formatCurrency} /></td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {showProjects && (
+                        <>
+                            <h2 className="text-lg font-bold text-on-surface">Budget e milestone per progetto</h2>
+                            <div className="overflow-x-auto rounded-lg border border-outline-variant">
+                                <table className="min-w-full text-sm">
+                                    <thead className="bg-surface-container-high text-on-surface">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold">Progetto</th>
+                                            {variance.baseline.includesBudgets && (
+                                                <>
+                                                    <th className="px-3 py-2 text-right font-semibold">Budget baseline</th>
+                                                    <th className="px-3 py-2 text-right font-semibold">Budget corrente</th>
+                                                    <th className="px-3 py-2 text-right font-semibold">Δ Budget</th>
+                                                </>
+                                            )}
+                                            {variance.baseline.includesMilestones && (
+                                                <>
+                                                    <th className="px-3 py-2 text-right font-semibold">Milestone baseline</th>
+                                                    <th className="px-3 py-2 text-right font-semibold">Milestone correnti</th>
+                                                    <th className="px-3 py-2 text-right font-semibold">Δ Milestone</th>
+                                                </>
+                                            )}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {variance.projects.map(p => (
+                                            <tr key={p.projectId} className="border-t border-outline-variant">
+                                                <td className="px-3 py-2">{getProjectName(p.projectId)}</td>
+                                                {variance.baseline.includesBudgets && (
+                                                    <>
+                                                        <td className="px-3 py-2 text-right">{formatCurrency(p.baselineBudget)}</td>
+                                                        <td className="px-3 py-2 text-right">{formatCurrency(p.currentBudget)}</td>
+                                                        <td className="px-3 py-2 text-right"><Delta value={p.currentBudget - (p.baselineBudget ?? 0)} format={formatCurrency} /></td>
+                                                    </>
+                                                )}
+                                                {variance.baseline.includesMilestones && (
+                                                    <>
+                                                        <td className="px-3 py-2 text-right">{formatCurrency(p.baselineMilestoneAmount)} ({p.baselineMilestoneCount})</td>
+                                                        <td className="px-3 py-2 text-right">{formatCurrency(p.currentMilestoneAmount)} ({p.currentMilestoneCount})</td>
+                                                        <td className="px-3 py-2 text-right"><Delta value={p.currentMilestoneAmount - (p.baselineMilestoneAmount ?? 0)} format={formatCurrency} /></td>
+                                                    </>
+                                                )}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+
+            <Modal isOpen={isCreateOpen} onClose={() => setIsCreateOpen(false)} title="Nuova Baseline">
+                <form onSubmit={handleCreate} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Nome *</label>
+                        <input
+                            type="text" required maxLength={255} value={request.name}
+                            onChange={e => setRequest(prev => ({ ...prev, name: e.target.value }))}
+                            className="form-input w-full" placeholder="Es. Piano di kickoff"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Descrizione</label>
+                        <textarea
+                            rows={2} value={request.description || ''}
+                            onChange={e => setRequest(prev => ({ ...prev, description: e.target.value }))}
+                            className="form-textarea w-full"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Progetto</label>
+                        <SearchableSelect
+                            name="projectId"
+                            options={projectOptions}
+                            value={request.projectId || ''}
+                            onChange={(_, value) => setRequest(prev => ({ ...prev, projectId: value }))}
+                            placeholder="Intero portafoglio"
+                        />
+                    </div>
+                    <div className="flex flex-col gap-2 text-sm text-on-surface">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" className="form-checkbox" checked={!!request.includeBudgets} onChange={e => setRequest(prev => ({ ...prev, includeBudgets: e.target.checked }))} />
+                            Includi i budget di progetto
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" className="form-checkbox" checked={!!request.includeMilestones} onChange={e => setRequest(prev => ({ ...prev, includeMilestones: e.target.checked }))} />
+                            Includi le milestone di fatturazione
+                        </label>
+                    </div>
+                    <div className="flex justify-end gap-2 pt-4 border-t border-outline-variant">
+                        <button type="button" onClick={() => setIsCreateOpen(false)} className="px-4 py-2 border border-outline rounded-full text-primary hover:bg-surface-container-low transition-colors">Annulla</button>
+                        <button
+                            type="submit"
+                            disabled={!request.name.trim() || isCreating}
+                            className="px-4 py-2 bg-primary text-on-primary rounded-full font-bold hover:opacity-90 shadow-sm transition-all disabled:opacity-50"
+                        >
+                            {isCreating ? 'Salvataggio...' : 'Congela Piano'}
+                        </button>
+                    </div>
+                </form>
+            </Modal>
+        </div>
+    );
+};
+
+export default BaselineVariancePanel;
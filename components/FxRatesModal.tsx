@@ -0,0 +1,218 @@
+/**
+ * @file FxRatesModal.tsx
+ * @description Tassi di cambio rispetto alla valuta base (1 EUR = tasso nella valuta): elenco per
+ * valuta con i periodi di validità, inserimento/modifica ed eliminazione. I cambi sono usati per
+ * convertire ricavi e costi nella valuta di reporting alla data di ciascun importo.
+ */
+
+import React, { useMemo, useState } from 'react';
+import Modal from './Modal';
+import { SpinnerIcon } from './icons';
+import { FxRate } from '../types';
+import { useProjectsContext } from '../context/ProjectsContext';
+import { formatDateSynthetic, parseISODate, toISODateString } from '../utils/dateUtils';
+import { BASE_CURRENCY, CURRENCY_OPTIONS, validateFxRate } from '../utils/fxUtils';
+
+interface FxRatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+interface FxRateDraft extends Omit<FxRate, 'rate'> {
+    /** Tasso come digitato, convertito in numero al salvataggio. */
+    rate: string;
+}
+
+const FOREIGN_CURRENCIES = CURRENCY_OPTIONS.filter(option => option.value !== BASE_CURRENCY);
+
+const emptyDraft = (): FxRateDraft => ({
+    currency: FOREIGN_CURRENCIES[0].value,
+    rate: '',
+    validFrom: toISODateString(new Date()),
+    validTo: null,
+});
+
+const formatPeriod = (rate: FxRate) =>
+    `${formatDateSynthetic(parseISODate(rate.validFrom))} → ${rate.validTo ? formatDateSynthetic(parseISODate(rate.validTo)) : 'in corso'}`;
+
+const FxRatesModal: React.FC<FxRatesModalProps> = ({ isOpen, onClose }) => {
+    const { fxRates, addFxRate, updateFxRate, deleteFxRate } = useProjectsContext();
+    const [draft, setDraft] = useState<FxRateDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const sortedRates = useMemo(
+        () => [...fxRates].sort((a, b) => a.currency.localeCompare(b.currency) || b.validFrom.localeCompare(a.validFrom)),
+        [fxRates]
+    );
+
+    const handleClose = () => {
+        setDraft(null);
+        setError(null);
+        onClose();
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const rate: FxRate = { ...draft, rate: Number(draft.rate), validTo: draft.validTo || null };
+        const validationError = validateFxRate(rate, fxRates);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setIsSaving(true);
+        try {
+            if (rate.id) await updateFxRate(rate);
+            else await addFxRate(rate);
+            setDraft(null);
+            setError(null);
+        } catch {
+            // Toast già mostrato dal contesto
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteFxRate(id);
+            if (draft?.id === id) setDraft(null);
+        } catch {
+            // Toast già mostrato dal contesto
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title="Tassi di Cambio">
+            <div className="space-y-6">
+                <p className="text-sm text-on-surface-variant">
+                    Il tasso indica quante unità della valuta valgono 1 {BASE_CURRENCY} (convenzione BCE). Senza un cambio
+                    valido alla data, gli importi in quella valuta sono esclusi dai report.
+                </p>
+                {sortedRates.length === 0 ? (
+                    <p className="text-sm text-on-surface-variant">Nessun cambio registrato.</p>
+                ) : (
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-on-surface-variant">
+                                <th className="py-2 pr-4 font-medium">Valuta</th>
+                                <th className="py-2 px-2 font-medium text-right">1 {BASE_CURRENCY} =</th>
+                                <th className="py-2 px-4 font-medium">Validità</th>
+                                <th className="py-2" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {sortedRates.map(rate => (
+                                <tr key={rate.id} className="border-t border-outline-variant">
+                                    <td className="py-2 pr-4 font-semibold">{rate.currency}</td>
+                                    <td className="py-2 px-2 text-right font-mono">{Number(rate.rate).toFixed(4)}</td>
+                                    <td className="py-2 px-4 whitespace-nowrap">{formatPeriod(rate)}</td>
+                                    <td className="py-2 text-right whitespace-nowrap">
+                                        <button
+                                            type="button"
+                                            onClick={() => { setDraft({ ...rate, rate: String(rate.rate) }); setError(null); }}
+                                            className="p-1 rounded-full text-on-surface-variant hover:text-primary"
+                                            title="Modifica"
+                                        >
+                                            <span className="material-symbols-outlined text-base">edit</span>
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDelete(rate.id!)}
+                                            className="p-1 rounded-full text-on-surface-variant hover:text-error"
+                                            title="Elimina"
+                                        >
+                                            <span className="material-symbols-outlined text-base">delete</span>
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {draft ? (
+                    <form onSubmit={handleSave} className="bg-surface-container-low p-4 rounded-xl border border-outline-variant space-y-4">
+                        <h4 className="text-sm font-bold text-primary uppercase tracking-wider">
+                            {draft.id ? 'Modifica cambio' : 'Nuovo cambio'}
+                        </h4>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface-variant mb-1">Valuta *</label>
+                                <select
+                                    value={draft.currency}
+                                    onChange={e => setDraft(prev => prev && { ...prev, currency: e.target.value })}
+                                    className="form-select"
+                                >
+                                    {FOREIGN_CURRENCIES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface-variant mb-1">Tasso (1 {BASE_CURRENCY} =) *</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.000001"
+                                    value={draft.rate}
+                                    onChange={e => setDraft(prev => prev && { ...prev, rate: e.target.value })}
+                                    required
+                                    className="form-input"
+                                    placeholder="Es. 0.85"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface-variant mb-1">Valido dal *</label>
+                                <input
+                                    type="date"
+                                    value={draft.validFrom}
+                                    onChange={e => setDraft(prev => prev && { ...prev, validFrom: e.target.value })}
+                                    required
+                                    className="form-input"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface-variant mb-1">Valido fino al</label>
+                                <input
+                                    type="date"
+                                    value={draft.validTo || ''}
+                                    onChange={e => setDraft(prev => prev && { ...prev, validTo: e.target.value || null })}
+                                    className="form-input"
+                                />
+                            </div>
+                        </div>
+                        {error && <p className="text-sm text-error">{error}</p>}
+                        <div className="flex justify-end gap-2">
+                            <button
+                                type="button"
+                                onClick={() => { setDraft(null); setError(null); }}
+                                className="px-4 py-2 border border-outline rounded-full hover:bg-surface-container-low text-primary font-semibold"
+                            >
+                                Annulla
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="flex items-center justify-center px-4 py-2 bg-primary text-on-primary rounded-full font-semibold hover:opacity-90 disabled:opacity-50"
+                            >
+                                {isSaving ? <SpinnerIcon className="w-5 h-5" /> : 'Salva'}
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={() => { setDraft(emptyDraft()); setError(null); }}
+                            className="flex items-center gap-2 px-4 py-2 bg-primary text-on-primary rounded-full font-semibold hover:opacity-90"
+                        >
+                            <span className="material-symbols-outlined text-base">add</span> Nuovo cambio
+                        </button>
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
+
+export default FxRatesModal;
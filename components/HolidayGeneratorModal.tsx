@@ -0,0 +1,171 @@
+/**
+ * @file HolidayGeneratorModal.tsx
+ * @description Generatore delle festività italiane per un intervallo di anni: festività nazionali
+ * (Pasquetta inclusa) e santi patroni delle sedi selezionate. L'anteprima confronta le festività
+ * generate con il calendario esistente; vengono inserite solo quelle nuove.
+ */
+
+import React, { useMemo, useState } from 'react';
+import Modal from './Modal';
+import MultiSelectDropdown from './MultiSelectDropdown';
+import { SpinnerIcon } from './icons';
+import { useLookupContext } from '../context/LookupContext';
+import { useAppState } from '../context/AppContext';
+import { formatDateFull } from '../utils/dateUtils';
+import {
+    MAX_GENERATED_YEARS, diffGeneratedHolidays, generateItalianHolidays, type HolidayDiffStatus,
+} from '../utils/italianHolidayUtils';
+
+interface HolidayGeneratorModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<HolidayDiffStatus, { label: string; className: string }> = {
+    NEW: { label: 'Da inserire', className: 'bg-primary-container text-on-primary-container' },
+    EXISTING: { label: 'Già presente', className: 'bg-surface-variant text-on-surface-variant' },
+    CONFLICT: { label: 'In conflitto', className: 'bg-error-container text-on-error-container' },
+};
+
+const HolidayGeneratorModal: React.FC<HolidayGeneratorModalProps> = ({ isOpen, onClose }) => {
+    const { companyCalendar, locations, addCalendarEvents } = useLookupContext();
+    const { isActionLoading } = useAppState();
+    const currentYear = new Date().getFullYear();
+    const [fromYear, setFromYear] = useState(currentYear);
+    const [toYear, setToYear] = useState(currentYear + 1);
+    const [selectedLocations, setSelectedLocations] = useState<string[]>(() => locations.map(l => l.value));
+    const [showExisting, setShowExisting] = useState(false);
+
+    const locationOptions = useMemo(() => locations.map(l => ({ value: l.value, label: l.value })), [locations]);
+
+    const rangeError = !Number.isInteger(fromYear) || !Number.isInteger(toYear) || toYear < fromYear
+        ? 'L\'anno finale non può precedere quello iniziale.'
+        : toYear - fromYear >= MAX_GENERATED_YEARS
+            ? `Si possono generare al massimo ${MAX_GENERATED_YEARS} anni alla volta.`
+            : null;
+
+    const { diff, unmatchedLocations } = useMemo(() => {
+        if (rangeError) return { diff: [], unmatchedLocations: [] };
+        const generated = generateItalianHolidays(fromYear, toYear, selectedLocations);
+        return { diff: diffGeneratedHolidays(generated.events, companyCalendar), unmatchedLocations: generated.unmatchedLocations };
+    }, [rangeError, fromYear, toYear, selectedLocations, companyCalendar]);
+
+    const counts = useMemo(() => {
+        const result: Record<HolidayDiffStatus, number> = { NEW: 0, EXISTING: 0, CONFLICT: 0 };
+        diff.forEach(entry => { result[entry.status]++; });
+        return result;
+    }, [diff]);
+
+    const visibleEntries = showExisting ? diff : diff.filter(entry => entry.status !== 'EXISTING');
+    const isSaving = isActionLoading('addCalendarEvents');
+
+    const handleConfirm = async () => {
+        const events = diff.filter(entry => entry.status === 'NEW').map(entry => entry.event);
+        if (events.length === 0) return;
+        try {
+            await addCalendarEvents(events);
+            onClose();
+        } catch {
+            // Toast già mostrato dal contesto
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Genera Festività Italiane">
+            <div className="space-y-6">
+                <div className="bg-surface-container-low p-4 rounded-xl border border-outline-variant space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                        <div>
+                            <label className="block text-sm font-medium text-on-surface-variant mb-1">Dal anno *</label>
+                            <input type="number" value={fromYear} onChange={e => setFromYear(Number(e.target.value))} className="form-input" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-on-surface-variant mb-1">Al anno *</label>
+                            <input type="number" value={toYear} onChange={e => setToYear(Number(e.target.value))} className="form-input" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-on-surface-variant mb-1">Patroni delle sedi</label>
+                            <MultiSelectDropdown
+                                name="locations"
+                                selectedValues={selectedLocations}
+                                onChange={(_, values) => setSelectedLocations(values)}
+                                options={locationOptions}
+                                placeholder="Nessuna sede"
+                            />
+                        </div>
+                    </div>
+                    {rangeError && <p className="text-sm text-error">{rangeError}</p>}
+                    {unmatchedLocations.length > 0 && (
+                        <p className="text-xs text-on-surface-variant">
+                            Patrono non noto per: {unmatchedLocations.join(', ')}. Aggiungilo come Festività Locale.
+                        </p>
+                    )}
+                </div>
+
+                <div className="space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm text-on-surface">
+                            <strong>{counts.NEW}</strong> da inserire · {counts.EXISTING} già presenti · {counts.CONFLICT} in conflitto
+                        </p>
+                        <label className="flex items-center gap-2 text-sm text-on-surface-variant">
+                            <input type="checkbox" checked={showExisting} onChange={e => setShowExisting(e.target.checked)} className="form-checkbox" />
+                            Mostra già presenti
+                        </label>
+                    </div>
+                    <div className="max-h-80 overflow-y-auto border border-outline-variant rounded-xl">
+                        <table className="min-w-full text-sm">
+                            <thead className="sticky top-0 bg-surface-container">
+                                <tr className="text-left text-on-surface-variant">
+                                    <th className="px-3 py-2 font-medium">Data</th>
+                                    <th className="px-3 py-2 font-medium">Festività</th>
+                                    <th className="px-3 py-2 font-medium">Sede</th>
+                                    <th className="px-3 py-2 font-medium">Esito</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleEntries.map(({ event, status, existing }) => (
+                                    <tr key={`${event.date}|${event.location || ''}`} className="border-t border-outline-variant">
+                                        <td className="px-3 py-2 font-mono whitespace-nowrap">{formatDateFull(event.date)}</td>
+                                        <td className="px-3 py-2">{event.name}</td>
+                                        <td className="px-3 py-2 text-on-surface-variant">{event.location || 'Tutte'}</td>
+                                        <td className="px-3 py-2">
+                                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_LABELS[status].className}`}>
+                                                {STATUS_LABELS[status].label}
+                                            </span>
+                                            {existing && status === 'CONFLICT' && (
+                                                <span className="block text-xs text-on-surface-variant">Presente: {existing.name}</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {visibleEntries.length === 0 && (
+                                    <tr>
+                                        <td colSpan={4} className="px-3 py-6 text-center text-on-surface-variant">
+                                            Tutte le festività del periodo sono già a calendario.
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-4 border-t border-outline-variant">
+                    <button type="button" onClick={onClose} className="px-6 py-2 border border-outline rounded-full hover:bg-surface-container-low text-primary font-semibold">
+                        Annulla
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleConfirm}
+                        disabled={isSaving || counts.NEW === 0}
+                        className="flex justify-center items-center px-6 py-2 bg-primary text-on-primary rounded-full disabled:opacity-50 font-semibold hover:opacity-90"
+                    >
+                        {isSaving ? <SpinnerIcon className="w-5 h-5" /> : `Inserisci ${counts.NEW} festività`}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default HolidayGeneratorModal;
@@ -0,0 +1,201 @@
+/**
+ * @file LocationCalendarModal.tsx
+ * @description Calendario lavorativo di una sede: giorni lavorativi della settimana, ore della
+ * giornata standard e chiusure ricorrenti (es. chiusura estiva). Senza calendario la sede lavora
+ * 8 ore dal lunedì al venerdì.
+ */
+
+import React, { useEffect, useState } from 'react';
+import Modal from './Modal';
+import { SpinnerIcon } from './icons';
+import { LocationCalendar, RecurringClosure } from '../types';
+import { useLookupContext } from '../context/LookupContext';
+import { LOCATION_WEEKDAYS, defaultLocationCalendar, validateLocationCalendar } from '../utils/locationCalendarUtils';
+
+interface LocationCalendarModalProps {
+    /** Sede selezionata (null a modale chiusa). */
+    location: string | null;
+    onClose: () => void;
+}
+
+type LocationCalendarDraft = Omit<LocationCalendar, 'version'>;
+
+const emptyClosure = (): RecurringClosure => ({ name: '', startMonthDay: '08-01', endMonthDay: '08-31' });
+
+const LocationCalendarModal: React.FC<LocationCalendarModalProps> = ({ location, onClose }) => {
+    const { locationCalendars, addLocationCalendar, updateLocationCalendar, deleteLocationCalendar } = useLookupContext();
+    const [draft, setDraft] = useState<LocationCalendarDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const existing = location ? locationCalendars.find(c => c.location === location) : undefined;
+
+    useEffect(() => {
+        if (!location) {
+            setDraft(null);
+            return;
+        }
+        const calendar = locationCalendars.find(c => c.location === location);
+        setDraft(calendar ? { ...calendar, recurringClosures: [...calendar.recurringClosures] } : defaultLocationCalendar(location));
+        setError(null);
+    }, [location, locationCalendars]);
+
+    const toggleDay = (day: number) => {
+        setDraft(prev => prev && {
+            ...prev,
+            workingDays: prev.workingDays.includes(day)
+                ? prev.workingDays.filter(d => d !== day)
+                : [...prev.workingDays, day].sort((a, b) => a - b),
+        });
+    };
+
+    const updateClosure = (index: number, changes: Partial<RecurringClosure>) => {
+        setDraft(prev => prev && {
+            ...prev,
+            recurringClosures: prev.recurringClosures.map((c, i) => i === index ? { ...c, ...changes } : c),
+        });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const validationError = validateLocationCalendar(draft, locationCalendars);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setIsSaving(true);
+        try {
+            if (existing) await updateLocationCalendar({ ...existing, ...draft });
+            else await addLocationCalendar(draft);
+            onClose();
+        } catch {
+            // Toast già mostrato dal contesto
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (!existing?.id) return;
+        await deleteLocationCalendar(existing.id);
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={!!location} onClose={onClose} title={location ? `Calendario di sede · ${location}` : 'Calendario di sede'}>
+            {draft && (
+                <form onSubmit={handleSave} className="space-y-6">
+                    <div className="bg-surface-container-low p-4 rounded-xl border border-outline-variant space-y-4">
+                        <h4 className="text-sm font-bold text-primary uppercase tracking-wider flex items-center gap-2">
+                            <span className="material-symbols-outlined text-lg">date_range</span> Settimana lavorativa
+                        </h4>
+                        <div className="flex flex-wrap gap-2">
+                            {LOCATION_WEEKDAYS.map(({ day, shortLabel }) => (
+                                <button
+                                    key={day}
+                                    type="button"
+                                    onClick={() => toggleDay(day)}
+                                    aria-pressed={draft.workingDays.includes(day)}
+                                    className={`px-3 py-1.5 rounded-full text-sm font-semibold border ${draft.workingDays.includes(day)
+                                        ? 'bg-primary text-on-primary border-primary'
+                                        : 'border-outline text-on-surface-variant'}`}
+                                >
+                                    {shortLabel}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="max-w-xs">
+                            <label className="block text-sm font-medium text-on-surface-variant mb-1">Ore della giornata standard *</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={24}
+                                step={0.5}
+                                value={draft.dailyHours}
+                                onChange={e => setDraft(prev => prev && { ...prev, dailyHours: Number(e.target.value) })}
+                                required
+                                className="form-input"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="bg-surface-container-low p-4 rounded-xl border border-outline-variant space-y-3">
+                        <h4 className="text-sm font-bold text-primary uppercase tracking-wider flex items-center gap-2">
+                            <span className="material-symbols-outlined text-lg">event_busy</span> Chiusure ricorrenti
+                        </h4>
+                        <p className="text-xs text-on-surface-variant">Ogni anno, dal giorno al giorno indicati (MM-GG), es. 08-10 → 08-21.</p>
+                        {draft.recurringClosures.map((closure, index) => (
+                            <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+                                <input
+                                    type="text"
+                                    value={closure.name}
+                                    onChange={e => updateClosure(index, { name: e.target.value })}
+                                    placeholder="Es. Chiusura estiva"
+                                    className="form-input"
+                                    aria-label="Nome chiusura"
+                                />
+                                <input
+                                    type="text"
+                                    value={closure.startMonthDay}
+                                    onChange={e => updateClosure(index, { startMonthDay: e.target.value })}
+                                    placeholder="MM-GG"
+                                    className="form-input font-mono"
+                                    aria-label="Dal (MM-GG)"
+                                />
+                                <input
+                                    type="text"
+                                    value={closure.endMonthDay}
+                                    onChange={e => updateClosure(index, { endMonthDay: e.target.value })}
+                                    placeholder="MM-GG"
+                                    className="form-input font-mono"
+                                    aria-label="Al (MM-GG)"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setDraft(prev => prev && { ...prev, recurringClosures: prev.recurringClosures.filter((_, i) => i !== index) })}
+                                    className="p-2 rounded-full text-on-surface-variant hover:text-error"
+                                    title="Rimuovi chiusura"
+                                >
+                                    <span className="material-symbols-outlined text-base">delete</span>
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            type="button"
+                            onClick={() => setDraft(prev => prev && { ...prev, recurringClosures: [...prev.recurringClosures, emptyClosure()] })}
+                            className="flex items-center gap-1 text-sm font-semibold text-primary"
+                        >
+                            <span className="material-symbols-outlined text-base">add</span> Aggiungi chiusura
+                        </button>
+                    </div>
+
+                    {error && <p className="text-sm text-error">{error}</p>}
+                    <div className="flex justify-between items-center pt-4 border-t border-outline-variant">
+                        <div>
+                            {existing && (
+                                <button type="button" onClick={handleReset} className="text-sm font-semibold text-error hover:underline">
+                                    Ripristina settimana standard
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex gap-3">
+                            <button type="button" onClick={onClose} className="px-6 py-2 border border-outline rounded-full hover:bg-surface-container-low text-primary font-semibold">
+                                Annulla
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="flex justify-center items-center px-6 py-2 bg-primary text-on-primary rounded-full disabled:opacity-50 font-semibold hover:opacity-90"
+                            >
+                                {isSaving ? <SpinnerIcon className="w-5 h-5" /> : 'Salva Calendario'}
+                            </button>
+                        </div>
+                    </div>
+                </form>
+            )}
+        </Modal>
+    );
+};
+
+export default LocationCalendarModal;
@@ -0,0 +1,235 @@
+/**
+ * @file ReassignmentWizardModal.tsx
+ * @description Wizard in due passi per trasferire le allocazioni future da una risorsa a
+ * un'altra (dimissioni, cambio di ruolo, sostituzione): scelta di origine, destinazione,
+ * data di cutover ed eventuale sottoinsieme di progetti, poi anteprima dei trasferimenti
+ * e delle sovrallocazioni della destinazione prima della conferma.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from './Modal';
+import SearchableSelect from './SearchableSelect';
+import MultiSelectDropdown from './MultiSelectDropdown';
+import { Option } from './forms/types';
+import { ReassignmentRequest, ReassignmentResult } from '../types';
+import { validateReassignmentRequest } from '../utils/reassignmentUtils';
+import { describeAllocationConflict } from '../utils/overbookingUtils';
+import { formatDateSynthetic, toISODateString } from '../utils/dateUtils';
+
+interface ReassignmentWizardModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Risorsa di origine proposta all'apertura (es. dalla riga della griglia). */
+    initialSourceResourceId?: string;
+    /** Tutte le risorse, comprese le dimesse: sono il caso tipico di origine. */
+    sourceResourceOptions: Option[];
+    /** Risorse attive che possono subentrare. */
+    targetResourceOptions: Option[];
+    /** Progetti assegnati alla risorsa di origine, selezionabili come sottoinsieme. */
+    getSourceProjectOptions: (resourceId: string) => Option[];
+    getProjectName: (projectId: string) => string;
+    onPreview: (request: ReassignmentRequest) => Promise<ReassignmentResult | null>;
+    /** Restituisce l'esito: con `success: false` (rifiuto per overbooking) il wizard resta aperto sul report. */
+    onConfirm: (request: ReassignmentRequest) => Promise<ReassignmentResult | null>;
+    isConfirming?: boolean;
+}
+
+const buildInitialRequest = (sourceResourceId = ''): ReassignmentRequest => ({
+    sourceResourceId,
+    targetResourceId: '',
+    cutoverDate: toISODateString(new Date()),
+    projectIds: [],
+});
+
+const ReassignmentWizardModal: React.FC<ReassignmentWizardModalProps> = ({
+    isOpen, onClose, initialSourceResourceId, sourceResourceOptions, targetResourceOptions, getSourceProjectOptions, getProjectName,
+    onPreview, onConfirm, isConfirming = false,
+}) => {
+    const [request, setRequest] = useState<ReassignmentRequest>(() => buildInitialRequest(initialSourceResourceId));
+    const [preview, setPreview] = useState<ReassignmentResult | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setRequest(buildInitialRequest(initialSourceResourceId));
+        setPreview(null);
+    }, [isOpen, initialSourceResourceId]);
+
+    const update = <K extends keyof ReassignmentRequest>(key: K, value: ReassignmentRequest[K]) => {
+        setRequest(prev => ({
+            ...prev,
+            [key]: value,
+            // I progetti selezionati appartengono alla risorsa di origine
+            ...(key === 'sourceResourceId' && { projectIds: [] }),
+        }));
+    };
+
+    const projectOptions = useMemo(
+        () => (request.sourceResourceId ? getSourceProjectOptions(request.sourceResourceId) : []),
+        [request.sourceResourceId, getSourceProjectOptions]
+    );
+    const targetOptions = useMemo(
+        () => targetResourceOptions.filter(o => o.value !== request.sourceResourceId),
+        [targetResourceOptions, request.sourceResourceId]
+    );
+    const resourceName = (id: string) => sourceResourceOptions.find(o => o.value === id)?.label || id;
+    const error = request.sourceResourceId && request.targetResourceId ? validateReassignmentRequest(request) : null;
+
+    const handlePreview = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (error || !request.sourceResourceId || !request.targetResourceId) return;
+        setIsPreviewing(true);
+        try {
+            setPreview(await onPreview(request));
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const handleConfirm = async () => {
+        const result = await onConfirm(request);
+        if (result?.success) onClose();
+        else if (result) setPreview(result);
+    };
+
+    const blocked = !!preview && preview.policy === 'BLOCK' && preview.conflicts.length > 0;
+    const totalDays = preview?.moves.reduce((sum, m) => sum + m.days, 0) ?? 0;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Riassegna Allocazioni">
+            {!preview ? (
+                <form onSubmit={handlePreview} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Risorsa di origine *</label>
+                        <SearchableSelect
+                            name="sourceResourceId"
+                            options={sourceResourceOptions}
+                            value={request.sourceResourceId}
+                            onChange={(_, value) => update('sourceResourceId', value)}
+                            placeholder="Seleziona la risorsa da sostituire"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Risorsa di destinazione *</label>
+                        <SearchableSelect
+                            name="targetResourceId"
+                            options={targetOptions}
+                            value={request.targetResourceId}
+                            onChange={(_, value) => update('targetResourceId', value)}
+                            placeholder="Seleziona la risorsa che subentra"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Data di cutover *</label>
+                        <input
+                            type="date" required value={request.cutoverDate}
+                            onChange={e => update('cutoverDate', e.target.value)}
+                            className="form-input w-full"
+                        />
+                        <p className="mt-1 text-xs text-on-surface-variant opacity-70">
+                            Vengono trasferite le allocazioni da questa data (inclusa) in poi.
+                        </p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-on-surface-variant mb-1">Progetti</label>
+                        <MultiSelectDropdown
+                            name="projectIds"
+                            options={projectOptions}
+                            selectedValues={request.projectIds || []}
+                            onChange={(_, selected) => update('projectIds', selected)}
+                            placeholder="Tutti i progetti della risorsa"
+                        />
+                    </div>
+
+                    {error && <p className="text-xs text-error">{error}</p>}
+
+                    <div className="flex justify-end gap-2 pt-4 border-t border-outline-variant">
+                        <button type="button" onClick={onClose} className="px-4 py-2 border border-outline rounded-full text-primary hover:bg-surface-container-low transition-colors">Annulla</button>
+                        <button
+                            type="submit"
+                            disabled={!!error || !request.sourceResourceId || !request.targetResourceId || isPreviewing}
+                            className="px-4 py-2 bg-primary text-on-primary rounded-full font-bold hover:opacity-90 shadow-sm transition-all disabled:opacity-50"
+                        >
+                            {isPreviewing ? 'Calcolo...' : 'Anteprima'}
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <div className="space-y-4">
+                    <p className="text-sm text-on-surface">
+                        Dal <strong>{formatDateSynthetic(request.cutoverDate)}</strong> le allocazioni di{' '}
+                        <strong>{resourceName(request.sourceResourceId)}</strong> passano a{' '}
+                        <strong>{resourceName(request.targetResourceId)}</strong>.
+                    </p>
+
+                    {preview.moves.length === 0 ? (
+                        <p className="text-sm text-on-surface-variant">Nessuna allocazione da trasferire dopo la data di cutover.</p>
+                    ) : (
+                        <div className="overflow-x-auto rounded-lg border border-outline-variant">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-surface-container-high text-on-surface">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-semibold">Progetto</th>
+                                        <th className="px-3 py-2 text-right font-semibold">Giornate</th>
+                                        <th className="px-3 py-2 text-right font-semibold">g/u</th>
+                                        <th className="px-3 py-2 text-left font-semibold">Periodo</th>
+                                        <th className="px-3 py-2 text-left font-semibold">Assegnazione</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.moves.map(move => (
+                                        <tr key={move.projectId} className="border-t border-outline-variant">
+                                            <td className="px-3 py-2">{getProjectName(move.projectId)}</td>
+                                            <td className="px-3 py-2 text-right">{move.days}</td>
+                                            <td className="px-3 py-2 text-right">{move.effortDays}</td>
+                                            <td className="px-3 py-2 whitespace-nowrap">
+                                                {formatDateSynthetic(move.firstDate)} – {formatDateSynthetic(move.lastDate)}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                {move.createsAssignment ? 'Nuova' : 'Esistente'}
+                                                {move.bookingStatus === 'TENTATIVE' && <span className="ml-1 text-xs text-on-surface-variant">(provvisoria)</span>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {preview.conflicts.length > 0 ? (
+                        <div className={`rounded-lg p-3 text-sm ${blocked ? 'bg-error-container text-on-error-container' : 'bg-yellow-container text-on-yellow-container'}`}>
+                            <p className="font-semibold mb-1">
+                                {blocked
+                                    ? `Trasferimento bloccato: sovrallocazione su ${preview.conflicts.length} giornate.`
+                                    : `Sovrallocazione della destinazione su ${preview.conflicts.length} giornate (consentita con avviso).`}
+                            </p>
+                            <ul className="max-h-40 overflow-y-auto space-y-0.5 text-xs">
+                                {preview.conflicts.map(conflict => (
+                                    <li key={conflict.date}>{formatDateSynthetic(conflict.date)}: {describeAllocationConflict(conflict)}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    ) : preview.moves.length > 0 && (
+                        <p className="text-xs text-on-surface-variant">Nessuna sovrallocazione per la risorsa di destinazione.</p>
+                    )}
+
+                    <div className="flex justify-end gap-2 pt-4 border-t border-outline-variant">
+                        <button type="button" onClick={() => setPreview(null)} className="px-4 py-2 border border-outline rounded-full text-primary hover:bg-surface-container-low transition-colors">Indietro</button>
+                        <button
+                            type="button"
+                            onClick={handleConfirm}
+                            disabled={preview.moves.length === 0 || blocked || isConfirming}
+                            className="px-4 py-2 bg-primary text-on-primary rounded-full font-bold hover:opacity-90 shadow-sm transition-all disabled:opacity-50"
+                        >
+                            {isConfirming ? 'Trasferimento...' : `Trasferisci ${totalDays} giornate`}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+export default ReassignmentWizardModal;
@@ -0,0 +1,100 @@
+/**
+ * @file TimesheetWeekGrid.tsx
+ * @description Griglia settimanale del timesheet: una riga per progetto, una colonna per giorno,
+ * con le ore pianificate come suggerimento e i totali per riga e per giorno.
+ */
+
+import React, { useMemo } from 'react';
+import { formatDateSynthetic } from '../utils/dateUtils';
+
+export interface TimesheetGridRow {
+    projectId: string;
+    projectName: string;
+    /** Ore pianificate per data, derivate dalle allocazioni (percentuale × giornata standard). */
+    plannedHours: Record<string, number>;
+}
+
+interface TimesheetWeekGridProps {
+    days: string[];
+    rows: TimesheetGridRow[];
+    /** Ore inserite, indicizzate per `projectId|data`. */
+    hours: Record<string, number>;
+    onChange: (projectId: string, date: string, hours: number) => void;
+    readOnly?: boolean;
+}
+
+const formatHours = (value: number) => value.toLocaleString('it-IT', { maximumFractionDigits: 2 });
+const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab', 'Dom'];
+
+const TimesheetWeekGrid: React.FC<TimesheetWeekGridProps> = ({ days, rows, hours, onChange, readOnly = false }) => {
+    const dayTotals = useMemo(
+        () => days.map(day => rows.reduce((sum, row) => sum + (hours[`${row.projectId}|${day}`] || 0), 0)),
+        [days, rows, hours]
+    );
+    const weekTotal = dayTotals.reduce((sum, value) => sum + value, 0);
+
+    return (
+        <div className="overflow-x-auto rounded-lg border border-outline-variant">
+            <table className="min-w-full text-sm">
+                <thead className="bg-surface-container-high text-on-surface">
+                    <tr>
+                        <th className="px-3 py-2 text-left font-semibold">Progetto</th>
+                        {days.map((day, i) => (
+                            <th key={day} className={`px-2 py-2 text-center font-semibold ${i >= 5 ? 'text-on-surface-variant' : ''}`}>
+                                <div>{WEEKDAY_LABELS[i]}</div>
+                                <div className="text-xs font-normal">{formatDateSynthetic(day)}</div>
+                            </th>
+                        ))}
+                        <th className="px-3 py-2 text-right font-semibold">Totale</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => {
+                        const rowTotal = days.reduce((sum, day) => sum + (hours[`${row.projectId}|${day}`] || 0), 0);
+                        return (
+                            <tr key={row.projectId} className="border-t border-outline-variant">
+                                <td className="px-3 py-2 font-medium text-on-surface">{row.projectName}</td>
+                                {days.map(day => {
+                                    const value = hours[`${row.projectId}|${day}`];
+                                    const planned = row.plannedHours[day];
+                                    return (
+                                        <td key={day} className="px-1 py-1 text-center">
+                                            {readOnly ? (
+                                                <span className={value ? 'text-on-surface' : 'text-on-surface-variant'}>{value ? formatHours(value) : '–'}</span>
+                                            ) : (
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={24}
+                                                    step={0.5}
+                                                    value={value || ''}
+                                                    placeholder={planned ? formatHours(planned) : ''}
+                                                    title={planned ? `Pianificate: ${formatHours(planned)} h` : undefined}
+                                                    onChange={e => onChange(row.projectId, day, e.target.value === '' ? 0 : Number(e.target.value))}
+                                                    className="form-input w-16 text-center py-1"
+                                                    aria-label={`Ore ${row.projectName} ${day}`}
+                                                />
+                                            )}
+                                        </td>
+                                    );
+                                })}
+                                <td className="px-3 py-2 text-right font-semibold">{formatHours(rowTotal)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+                <tfoot className="bg-surface-container-low font-semibold">
+                    <tr className="border-t border-outline-variant">
+                        <td className="px-3 py-2">Totale giorno</td>
+                        {dayTotals.map((total, i) => (
+                            <td key={days[i]} className={`px-2 py-2 text-center ${total > 24 ? 'text-error' : ''}`}>{formatHours(total)}</td>
+                        ))}
+                        <td className="px-3 py-2 text-right">{formatHours(weekTotal)}</td>
+                    </tr>
+                </tfoot>
+            </table>
+        </div>
+    );
+};
+
+export default TimesheetWeekGrid;
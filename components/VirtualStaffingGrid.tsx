@@ -5,6 +5,7 @@ import { Resource, Assignment, LeaveRequest, LeaveType } from '../types';
 import { useAllocationsContext } from '../context/AppContext';
 import { useLookupContext } from '../context/LookupContext';
 import { isHoliday, formatDate } from '../utils/dateUtils';
+import { isTentativeAssignment, splitDailyLoadByBooking, BOOKING_STATUS_LABELS } from '../utils/allocationUtils';
 import { Link } from 'react-router-dom';
 
 // --- CELL COMPONENTS (Internal) ---
@@ -17,6 +18,7 @@ const AllocationCell: React.FC<{
   isNonWorkingDay: boolean;
 }> = React.memo(({ assignment, date, isNonWorkingDay }) => {
   const { allocations, updateAllocation } = useAllocationsContext();
+  const isTentative = isTentativeAssignment(assignment);
   const contextPercentage = allocations[assignment.id!]?.[date] || 0;
   
   // Local state for immediate UI feedback (Debounced)
@@ -51,11 +53,14 @@ const AllocationCell: React.FC<{
   };
 
   return (
-    <div className="w-full h-full flex items-center justify-center">
+    <div
+        className={`w-full h-full flex items-center justify-center ${isTentative ? 'border border-dashed border-outline bg-surface-container-lowest' : ''}`}
+        title={isTentative ? 'Allocazione provvisoria' : undefined}
+    >
         <select
             value={localValue}
             onChange={handleChange}
-            className="w-full h-full bg-transparent border-0 text-center appearance-none text-sm focus:ring-0 focus:outline-none text-on-surface cursor-pointer"
+            className={`w-full h-full bg-transparent border-0 text-center appearance-none text-sm focus:ring-0 focus:outline-none cursor-pointer ${isTentative ? 'italic text-on-surface-variant' : 'text-on-surface'}`}
             onClick={(e) => e.stopPropagation()}
         >
         {PERCENTAGE_OPTIONS.map((p) => (
@@ -70,7 +75,7 @@ const AllocationCell: React.FC<{
 
 const DailyTotalCell: React.FC<{ resource: Resource; date: string; isNonWorkingDay: boolean; resourceAssignments: Assignment[] }> = React.memo(({ resource, date, isNonWorkingDay, resourceAssignments }) => {
   const { allocations } = useAllocationsContext();
-  const total = useMemo(() => resourceAssignments.reduce((sum, a) => sum + (allocations[a.id!]?.[date] || 0), 0), [resourceAssignments, allocations, date]);
+  const { total, tentative } = useMemo(() => splitDailyLoadByBooking(resourceAssignments, allocations, date), [resourceAssignments, allocations, date]);
   const maxPercentage = resource.maxStaffingPercentage ?? 100;
   
   let cellColor: string;
@@ -81,8 +86,14 @@ const DailyTotalCell: React.FC<{ resource: Resource; date: string; isNonWorkingD
   else cellColor = 'bg-transparent';
   
   return (
-    <div className={`w-full h-full flex items-center justify-center text-sm font-semibold ${cellColor}`}>
+    <div
+        className={`w-full h-full flex flex-col items-center justify-center text-sm font-semibold leading-tight ${cellColor}`}
+        title={!isNonWorkingDay && tentative > 0 ? `Di cui ${tentative}% provvisorio` : undefined}
+    >
         {isNonWorkingDay ? '-' : total > 0 ? `${total}%` : '-'}
+        {!isNonWorkingDay && tentative > 0 && (
+            <span className="text-[10px] font-normal italic opacity-80">{tentative}% provv.</span>
+        )}
     </div>
   );
 });
@@ -109,6 +120,8 @@ interface VirtualStaffingGridProps {
     onAddAssignment: (resourceId: string) => void;
     onBulkEdit: (assignment: Assignment) => void;
     onDeleteAssignment: (assignment: Assignment) => void;
+    /** Alterna lo stato di prenotazione (confermata / provvisoria) dell'assegnazione. */
+    onToggleBookingStatus?: (assignment: Assignment) => void;
 }
 
 type VirtualRow = 
@@ -125,7 +138,8 @@ const VirtualStaffingGrid: React.FC<VirtualStaffingGridProps> = ({
     rolesById,
     onAddAssignment,
     onBulkEdit,
-    onDeleteAssignment
+    onDeleteAssignment,
+    onToggleBookingStatus
 }) => {
     const parentRef = useRef<HTMLDivElement>(null);
     const { companyCalendar } = useLookupContext();
@@ -265,8 +279,11 @@ const VirtualStaffingGrid: React.FC<VirtualStaffingGridProps> = ({
                                 ) : (
                                     <div className="flex items-center justify-between w-full overflow-hidden">
                                         <div className="flex flex-col min-w-0">
-                                            <span className="text-sm text-on-surface truncate" title={projectsById.get(row.assignment.projectId)?.name}>
+                                            <span className={`text-sm text-on-surface truncate ${isTentativeAssignment(row.assignment) ? 'italic' : ''}`} title={projectsById.get(row.assignment.projectId)?.name}>
                                                 {projectsById.get(row.assignment.projectId)?.name || 'N/D'}
+                                                {isTentativeAssignment(row.assignment) && (
+                                                    <span className="ml-1 px-1 rounded border border-dashed border-outline text-[9px] font-bold uppercase not-italic text-on-surface-variant">{BOOKING_STATUS_LABELS.TENTATIVE}</span>
+                                                )}
                                             </span>
                                             <span className="text-[10px] text-on-surface-variant truncate">
                                                 {clientsById.get(projectsById.get(row.assignment.projectId)?.clientId || '')?.name}
@@ -276,6 +293,15 @@ const VirtualStaffingGrid: React.FC<VirtualStaffingGridProps> = ({
                                             <button onClick={() => onBulkEdit(row.assignment)} className="text-primary hover:bg-surface-container p-1 rounded" title="Modifica Massiva">
                                                 <span className="material-symbols-outlined text-sm">calendar_month</span>
                                             </button>
+                                            {onToggleBookingStatus && (
+                                                <button
+                                                    onClick={() => onToggleBookingStatus(row.assignment)}
+                                                    className="text-on-surface-variant hover:bg-surface-container p-1 rounded"
+                                                    title={isTentativeAssignment(row.assignment) ? 'Conferma assegnazione' : 'Segna come provvisoria'}
+                                                >
+                                                    <span className="material-symbols-outlined text-sm">{isTentativeAssignment(row.assignment) ? 'event_available' : 'pending'}</span>
+                                                </button>
+                                            )}
                                             <button onClick={() => onDeleteAssignment(row.assignment)} className="text-error hover:bg-surface-container p-1 rounded" title="Rimuovi">
                                                 <span className="material-symbols-outlined text-sm">delete</span>
                                             </button>
@@ -0,0 +1,245 @@
+/**
+ * @file WorkScheduleModal.tsx
+ * @description Orari di lavoro di una risorsa (part-time, riduzioni su alcuni giorni): elenco dei
+ * periodi con ore settimanali e FTE, inserimento/modifica con le ore per giorno e la validità,
+ * eliminazione. Senza orari la risorsa segue la settimana lavorativa della sede (di default 8 ore
+ * dal lunedì al venerdì); l'FTE è calcolato sulla settimana standard della sede.
+ */
+
+import React, { useMemo, useState } from 'react';
+import Modal from './Modal';
+import { SpinnerIcon } from './icons';
+import { Resource, WorkSchedule } from '../types';
+import { useResourcesContext } from '../context/ResourcesContext';
+import { useLookupContext } from '../context/LookupContext';
+import { formatDateSynthetic, parseISODate, toISODateString } from '../utils/dateUtils';
+import {
+    WORK_SCHEDULE_WEEKDAYS, getScheduleFte, getStandardHours, getWeeklyHours, validateWorkSchedule, type WorkScheduleHoursKey,
+} from '../utils/workScheduleUtils';
+import { formatWorkingWeek } from '../utils/locationCalendarUtils';
+
+interface WorkScheduleModalProps {
+    /** Risorsa selezionata (null a modale chiusa). */
+    resource: Resource | null;
+    onClose: () => void;
+}
+
+type WorkScheduleDraft = Omit<WorkSchedule, 'resourceId'>;
+
+const emptyDraft = (standardHours: Record<WorkScheduleHoursKey, number>): WorkScheduleDraft => ({
+    ...standardHours,
+    validFrom: toISODateString(new Date()),
+    validTo: null,
+    notes: '',
+});
+
+const formatPeriod = (schedule: WorkSchedule) =>
+    `${formatDateSynthetic(parseISODate(schedule.validFrom))} → ${schedule.validTo ? formatDateSynthetic(parseISODate(schedule.validTo)) : 'in corso'}`;
+
+const WorkScheduleModal: React.FC<WorkScheduleModalProps> = ({ resource, onClose }) => {
+    const { workSchedules, addWorkSchedule, updateWorkSchedule, deleteWorkSchedule } = useResourcesContext();
+    const { locationCalendars } = useLookupContext();
+    const [draft, setDraft] = useState<WorkScheduleDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const resourceSchedules = useMemo(
+        () => workSchedules
+            .filter(s => s.resourceId === resource?.id)
+            .sort((a, b) => b.validFrom.localeCompare(a.validFrom)),
+        [workSchedules, resource?.id]
+    );
+
+    const locationCalendar = useMemo(
+        () => locationCalendars.find(c => c.location === resource?.location),
+        [locationCalendars, resource?.location]
+    );
+
+    const handleClose = () => {
+        setDraft(null);
+        setError(null);
+        onClose();
+    };
+
+    const handleHoursChange = (key: WorkScheduleHoursKey, value: string) => {
+        setDraft(prev => prev && { ...prev, [key]: value === '' ? 0 : Number(value) });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!resource || !draft) return;
+        const schedule: WorkSchedule = { ...draft, resourceId: resource.id!, validTo: draft.validTo || null, notes: draft.notes || null };
+        const validationError = validateWorkSchedule(schedule, resourceSchedules);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setIsSaving(true);
+        try {
+            if (schedule.id) await updateWorkSchedule(schedule);
+            else await addWorkSchedule(schedule);
+            setDraft(null);
+            setError(null);
+        } catch {
+            // Toast già mostrato dal contesto
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteWorkSchedule(id);
+            if (draft?.id === id) setDraft(null);
+        } catch {
+            // Toast già mostrato dal contesto
+        }
+    };
+
+    const draftWeeklyHours = draft ? getWeeklyHours(draft) : 0;
+
+    return (
+        <Modal isOpen={!!resource} onClose={handleClose} title={resource ? `Orario di lavoro · ${resource.name}` : 'Orario di lavoro'}>
+            <div className="space-y-6">
+                {resourceSchedules.length === 0 ? (
+                    <p className="text-sm text-on-surface-variant">
+                        Nessun orario registrato: la risorsa segue la settimana della sede
+                        ({locationCalendar ? formatWorkingWeek(locationCalendar) : 'Lun Mar Mer Gio Ven · 8h'}, 1 FTE).
+                    </p>
+                ) : (
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-on-surface-variant">
+                                <th className="py-2 pr-4 font-medium">Validità</th>
+                                {WORK_SCHEDULE_WEEKDAYS.map(day => (
+                                    <th key={day.key} className="py-2 px-1 font-medium text-center">{day.shortLabel}</th>
+                                ))}
+                                <th className="py-2 px-2 font-medium text-right">Ore/sett.</th>
+                                <th className="py-2 px-2 font-medium text-right">FTE</th>
+                                <th className="py-2" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {resourceSchedules.map(schedule => (
+                                <tr key={schedule.id} className="border-t border-outline-variant">
+                                    <td className="py-2 pr-4 whitespace-nowrap" title={schedule.notes || undefined}>{formatPeriod(schedule)}</td>
+                                    {WORK_SCHEDULE_WEEKDAYS.map(day => (
+                                        <td key={day.key} className="py-2 px-1 text-center">{schedule[day.key] || '-'}</td>
+                                    ))}
+                                    <td className="py-2 px-2 text-right font-semibold">{getWeeklyHours(schedule)}</td>
+                                    <td className="py-2 px-2 text-right">{getScheduleFte(schedule, locationCalendar).toFixed(2)}</td>
+                                    <td className="py-2 text-right whitespace-nowrap">
+                                        <button
+                                            type="button"
+                                            onClick={() => { setDraft({ ...schedule }); setError(null); }}
+                                            className="p-1 rounded-full text-on-surface-variant hover:text-primary"
+                                            title="Modifica"
+                                        >
+                                            <span className="material-symbols-outlined text-base">edit</span>
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDelete(schedule.id!)}
+                                            className="p-1 rounded-full text-on-surface-variant hover:text-error"
+                                            title="Elimina"
+                                        >
+                                            <span className="material-symbols-outlined text-base">delete</span>
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {draft ? (
+                    <form onSubmit={handleSave} className="bg-surface-container-low p-4 rounded-xl border border-outline-variant space-y-4">
+                        <h4 className="text-sm font-bold text-primary uppercase tracking-wider">
+                            {draft.id ? 'Modifica orario' : 'Nuovo orario'}
+                        </h4>
+                        <div className="grid grid-cols-7 gap-2">
+                            {WORK_SCHEDULE_WEEKDAYS.map(day => (
+                                <div key={day.key}>
+                                    <label className="block text-xs font-medium text-on-surface-variant mb-1 text-center">{day.shortLabel}</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={24}
+                                        step={0.5}
+                                        value={draft[day.key]}
+                                        onChange={e => handleHoursChange(day.key, e.target.value)}
+                                        className="form-input text-center"
+                                        aria-label={`Ore ${day.label}`}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-on-surface-variant">
+                            {draftWeeklyHours} ore settimanali · {getScheduleFte(draft, locationCalendar).toFixed(2)} FTE
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface-variant mb-1">Valido dal *</label>
+                                <input
+                                    type="date"
+                                    value={draft.validFrom}
+                                    onChange={e => setDraft(prev => prev && { ...prev, validFrom: e.target.value })}
+                                    required
+                                    className="form-input"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-on-surface-variant mb-1">Valido fino al</label>
+                                <input
+                                    type="date"
+                                    value={draft.validTo || ''}
+                                    onChange={e => setDraft(prev => prev && { ...prev, validTo: e.target.value || null })}
+                                    className="form-input"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-on-surface-variant mb-1">Note</label>
+                            <input
+                                type="text"
+                                value={draft.notes || ''}
+                                onChange={e => setDraft(prev => prev && { ...prev, notes: e.target.value })}
+                                placeholder="Es. part-time verticale, riduzione per maternità"
+                                className="form-input"
+                            />
+                        </div>
+                        {error && <p className="text-sm text-error">{error}</p>}
+                        <div className="flex justify-end gap-2">
+                            <button
+                                type="button"
+                                onClick={() => { setDraft(null); setError(null); }}
+                                className="px-4 py-2 border border-outline rounded-full hover:bg-surface-container-low text-primary font-semibold"
+                            >
+                                Annulla
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSaving}
+                                className="flex items-center justify-center px-4 py-2 bg-primary text-on-primary rounded-full font-semibold hover:opacity-90 disabled:opacity-50"
+                            >
+                                {isSaving ? <SpinnerIcon className="w-5 h-5" /> : 'Salva'}
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={() => { setDraft(emptyDraft(getStandardHours(locationCalendar))); setError(null); }}
+                            className="flex items-center gap-2 px-4 py-2 bg-primary text-on-primary rounded-full font-semibold hover:opacity-90"
+                        >
+                            <span className="material-symbols-outlined text-base">add</span> Nuovo orario
+                        </button>
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
+
+export default WorkScheduleModal;
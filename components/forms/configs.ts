@@ -1,56 +1,158 @@
-import { z } from 'zod';
-import { FormFieldDefinition, Option } from './types';
-
-export type BulkAssignmentFormValues = { startDate: string; endDate: string; percentage: number; };
-export type AssignmentFormValues = { resourceId: string; projectIds: string[] };
-
-export const bulkAssignmentSchema = z.object({
-    startDate: z.string().min(1, 'Seleziona una data di inizio'),
-    endDate: z.string().min(1, 'Seleziona una data di fine'),
-    percentage: z.number().min(0, 'La percentuale non può essere negativa').max(100, 'La percentuale non può superare il 100'),
-}).refine(data => {
-    if (!data.startDate || !data.endDate) return true;
-    return data.endDate >= data.startDate;
-}, {
-    message: 'La data di fine non può essere antecedente alla data di inizio',
-    path: ['endDate'],
-});
-
-export const assignmentSchema = z.object({
-    resourceId: z.string().min(1, 'Seleziona una risorsa'),
-    projectIds: z.array(z.string()).min(1, 'Seleziona almeno un progetto'),
-});
-
-export const bulkFormFields: FormFieldDefinition[] = [
-    { name: 'startDate', label: 'Data Inizio', type: 'date', required: true },
-    { name: 'endDate', label: 'Data Fine', type: 'date', required: true },
-    { 
-        name: 'percentage',
-        label: (values) => `Percentuale (${(values.percentage as number | undefined) ?? 0}%)`,
-        type: 'range',
-        min: 0,
-        max: 100,
-        step: 5,
-        helperText: (values) => `Allocazione: ${(values.percentage as number | undefined) ?? 0}%`,
-    },
-];
-
-export const buildAssignmentFormFields = (resourceOptions: Option[], projectOptions: Option[]): FormFieldDefinition[] => [
-    {
-        name: 'resourceId',
-        label: 'Risorsa',
-        type: 'select',
-        required: true,
-        placeholder: 'Seleziona una risorsa',
-        options: resourceOptions,
-    },
-    {
-        name: 'projectIds',
-        label: 'Progetto/i',
-        type: 'multiselect',
-        required: true,
-        placeholder: 'Seleziona uno o più progetti',
-        options: projectOptions,
-        helperText: 'Puoi selezionare più progetti',
-    },
-];
\ No newline at end of file
+import { z } from 'zod';
+import { FormFieldDefinition, Option } from './types';
+import type { BookingStatus } from '../../types';
+
+export type BulkAssignmentFormValues = { startDate: string; endDate: string; percentage: number; };
+export type AssignmentFormValues = { resourceId: string; projectIds: string[]; bookingStatus: BookingStatus };
+export type PlaceholderFormValues = { projectId: string; roleId: string; resourceRequestId: string; bookingStatus: BookingStatus };
+export type PlaceholderConversionFormValues = { resourceId: string };
+export type EffortPlanFormValues = { plannedEffortDays: number; effortStartDate: string; effortEndDate: string };
+
+export const bulkAssignmentSchema = z.object({
+    startDate: z.string().min(1, 'Seleziona una data di inizio'),
+    endDate: z.string().min(1, 'Seleziona una data di fine'),
+    percentage: z.number().min(0, 'La percentuale non può essere negativa').max(100, 'La percentuale non può superare il 100'),
+}).refine(data => {
+    if (!data.startDate || !data.endDate) return true;
+    return data.endDate >= data.startDate;
+}, {
+    message: 'La data di fine non può essere antecedente alla data di inizio',
+    path: ['endDate'],
+});
+
+export const assignmentSchema = z.object({
+    resourceId: z.string().min(1, 'Seleziona una risorsa'),
+    projectIds: z.array(z.string()).min(1, 'Seleziona almeno un progetto'),
+    bookingStatus: z.enum(['CONFIRMED', 'TENTATIVE']),
+});
+
+export const placeholderSchema = z.object({
+    projectId: z.string().min(1, 'Seleziona un progetto'),
+    roleId: z.string().min(1, 'Seleziona un ruolo'),
+    resourceRequestId: z.string(),
+    bookingStatus: z.enum(['CONFIRMED', 'TENTATIVE']),
+});
+
+export const placeholderConversionSchema = z.object({
+    resourceId: z.string().min(1, 'Seleziona una risorsa'),
+});
+
+export const effortPlanSchema = z.object({
+    plannedEffortDays: z.number().min(0, 'L\'effort non può essere negativo'),
+    effortStartDate: z.string(),
+    effortEndDate: z.string(),
+}).refine(data => data.plannedEffortDays === 0 || (!!data.effortStartDate && !!data.effortEndDate), {
+    message: 'Seleziona la finestra del piano',
+    path: ['effortEndDate'],
+}).refine(data => !data.effortStartDate || !data.effortEndDate || data.effortEndDate >= data.effortStartDate, {
+    message: 'La data di fine non può essere antecedente alla data di inizio',
+    path: ['effortEndDate'],
+});
+
+export const bulkFormFields: FormFieldDefinition[] = [
+    { name: 'startDate', label: 'Data Inizio', type: 'date', required: true },
+    { name: 'endDate', label: 'Data Fine', type: 'date', required: true },
+    { 
+        name: 'percentage',
+        label: (values) => `Percentuale (${(values.percentage as number | undefined) ?? 0}%)`,
+        type: 'range',
+        min: 0,
+        max: 100,
+        step: 5,
+        helperText: (values) => `Allocazione: ${(values.percentage as number | undefined) ?? 0}%`,
+    },
+];
+
+export const effortPlanFormFields: FormFieldDefinition[] = [
+    {
+        name: 'plannedEffortDays',
+        label: 'Effort Pianificato (g/u)',
+        type: 'number',
+        required: true,
+        min: 0,
+        step: 0.5,
+        helperText: 'Distribuito sui giorni lavorativi della risorsa; 0 rimuove il piano mantenendo le allocazioni',
+    },
+    { name: 'effortStartDate', label: 'Dal', type: 'date' },
+    { name: 'effortEndDate', label: 'Al', type: 'date' },
+];
+
+export const buildAssignmentFormFields = (resourceOptions: Option[], projectOptions: Option[]): FormFieldDefinition[] => [
+    {
+        name: 'resourceId',
+        label: 'Risorsa',
+        type: 'select',
+        required: true,
+        placeholder: 'Seleziona una risorsa',
+        options: resourceOptions,
+    },
+    {
+        name: 'projectIds',
+        label: 'Progetto/i',
+        type: 'multiselect',
+        required: true,
+        placeholder: 'Seleziona uno o più progetti',
+        options: projectOptions,
+        helperText: 'Puoi selezionare più progetti',
+    },
+    {
+        name: 'bookingStatus',
+        label: 'Stato Prenotazione',
+        type: 'select',
+        required: true,
+        options: [
+            { value: 'CONFIRMED', label: 'Confermata' },
+            { value: 'TENTATIVE', label: 'Provvisoria (trattativa non firmata)' },
+        ],
+        helperText: 'Le assegnazioni provvisorie sono evidenziate in griglia e conteggiate a parte nei report',
+    },
+];
+
+export const buildPlaceholderFormFields = (projectOptions: Option[], roleOptions: Option[], requestOptions: Option[]): FormFieldDefinition[] => [
+    {
+        name: 'projectId',
+        label: 'Progetto',
+        type: 'select',
+        required: true,
+        placeholder: 'Seleziona un progetto',
+        options: projectOptions,
+    },
+    {
+        name: 'roleId',
+        label: 'Ruolo Richiesto',
+        type: 'select',
+        required: true,
+        placeholder: 'Seleziona un ruolo',
+        options: roleOptions,
+        helperText: 'Il segnaposto è costato con il costo giornaliero del ruolo',
+    },
+    {
+        name: 'resourceRequestId',
+        label: 'Richiesta di Risorsa',
+        type: 'select',
+        placeholder: 'Nessuna richiesta collegata',
+        options: requestOptions,
+    },
+    {
+        name: 'bookingStatus',
+        label: 'Stato Prenotazione',
+        type: 'select',
+        required: true,
+        options: [
+            { value: 'CONFIRMED', label: 'Confermata' },
+            { value: 'TENTATIVE', label: 'Provvisoria (trattativa non firmata)' },
+        ],
+    },
+];
+
+export const buildPlaceholderConversionFormFields = (resourceOptions: Option[]): FormFieldDefinition[] => [
+    {
+        name: 'resourceId',
+        label: 'Risorsa',
+        type: 'select',
+        required: true,
+        placeholder: 'Seleziona una risorsa',
+        options: resourceOptions,
+        helperText: 'Le allocazioni del segnaposto passano alla risorsa; se è già assegnata al progetto vengono sommate',
+    },
+];
@@ -1,10 +1,18 @@
-export { FormFieldFeedback } from './FormFieldFeedback';
-export { FormDialog } from './FormDialog';
-export type { FormFieldDefinition, Option, FieldType } from './types';
-export {
-    assignmentSchema,
-    bulkAssignmentSchema,
-    bulkFormFields,
-    buildAssignmentFormFields,
-} from './configs';
-export type { AssignmentFormValues, BulkAssignmentFormValues } from './configs';
\ No newline at end of file
+export { FormFieldFeedback } from './FormFieldFeedback';
+export { FormDialog } from './FormDialog';
+export type { FormFieldDefinition, Option, FieldType } from './types';
+export {
+    assignmentSchema,
+    bulkAssignmentSchema,
+    bulkFormFields,
+    buildAssignmentFormFields,
+    placeholderSchema,
+    placeholderConversionSchema,
+    buildPlaceholderFormFields,
+    buildPlaceholderConversionFormFields,
+    effortPlanSchema,
+    effortPlanFormFields,
+} from './configs';
+export type {
+    AssignmentFormValues, BulkAssignmentFormValues, EffortPlanFormValues, PlaceholderFormValues, PlaceholderConversionFormValues,
+} from './configs';
\ No newline at end of file
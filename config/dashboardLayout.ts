@@ -30,7 +30,9 @@ export type DashboardCardId =
   | 'contractExpirations'
   | 'revenueMix'
   | 'billingPipeline'
-  | 'topMarginProjects';
+  | 'topMarginProjects'
+  | 'portfolioEvm'
+  | 'contractExhaustion';
 
 // Interface defining the metadata for each dashboard card.
 export interface DashboardCardConfig {
@@ -63,11 +65,13 @@ export const DASHBOARD_CARDS_CONFIG: DashboardCardConfig[] = [
   { id: 'revenueByIndustry', label: 'Revenue per Industry', description: 'Fatturato stimato raggruppato per settore di mercato del cliente.', icon: 'pie_chart', group: 'main' },
   { id: 'benchByFunction', label: 'Bench per Function', description: 'Percentuale di capacità non utilizzata suddivisa per Function.', icon: 'person_off', group: 'main' },
   { id: 'benchByIndustry', label: 'Bench per Industry', description: 'Percentuale di capacità non utilizzata suddivisa per Industry.', icon: 'domain_disabled', group: 'main' },
-  { id: 'wbsSaturation', label: 'Saturazione WBS (Top Rischi)', description: 'Contratti vicini all\'esaurimento del budget (>80% consumato).', icon: 'battery_alert', group: 'main' },
+  { id: 'wbsSaturation', label: 'Saturazione WBS (Top Rischi)', description: 'Contratti con oltre l\'80% della capienza impegnata dai progetti collegati.', icon: 'battery_alert', group: 'main' },
+  { id: 'contractExhaustion', label: 'Esaurimento Contratti', description: 'Contratti la cui capienza si esaurirà entro il preavviso configurato, dal burn-down delle allocazioni.', icon: 'trending_down', group: 'main' },
   { id: 'contractExpirations', label: 'Scadenzario Contratti', description: 'Contratti in scadenza nei prossimi 90 giorni.', icon: 'event_upcoming', group: 'main' },
   { id: 'revenueMix', label: 'Revenue Mix (T&M vs Fixed)', description: 'Confronto mensile tra fatturato Time & Material e Fixed Price.', icon: 'stacked_bar_chart', group: 'main' },
   { id: 'billingPipeline', label: 'Pipeline Fatturazione (Cashflow)', description: 'Previsione fatturato basata sulle milestone pianificate.', icon: 'payments', group: 'main' },
   { id: 'topMarginProjects', label: 'Top Progetti per Margine', description: 'Classifica progetti per redditività assoluta e percentuale.', icon: 'leaderboard', group: 'full-width' },
+  { id: 'portfolioEvm', label: 'Earned Value Portafoglio', description: 'CPI, SPI ed EAC per progetto e di portafoglio (Earned Value Management).', icon: 'query_stats', group: 'full-width' },
   { id: 'saturationTrend', label: 'Trend Saturazione Risorsa', description: 'Grafico dell\'andamento del carico per una singola risorsa.', icon: '📈', group: 'full-width' },
   { id: 'costForecast', label: 'Forecast Costo Mensile', description: 'Previsione dei costi totali per i prossimi mesi.', icon: '🔮', group: 'full-width' },
 ];
@@ -82,8 +86,10 @@ export const DEFAULT_DASHBOARD_CARD_ORDER: DashboardCardId[] = [
   'revenueMix',
   'billingPipeline',
   'topMarginProjects',
+  'portfolioEvm',
   'unallocatedFte',
   'wbsSaturation',
+  'contractExhaustion',
   'contractExpirations',
   'revenueByIndustry',
   'benchByFunction',
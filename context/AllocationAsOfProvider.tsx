@@ -0,0 +1,108 @@
+/**
+ * @file AllocationAsOfProvider.tsx
+ * @description Vista storica della griglia di staffing ("com'era al…"). Con un istante selezionato
+ * sostituisce, per i componenti figli, le allocazioni di `AllocationsContext` con quelle ricostruite
+ * dallo storico di cella (`GET /api/staffing?action=changes&asOf=…`), caricate a finestre come le
+ * allocazioni correnti. In vista storica conflitti e proposte sono nascosti e le scritture rifiutate.
+ */
+
+import React, { createContext, ReactNode, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import { Allocation, AllocationAsOfResponse, AllocationsContextType, AllocationWindow } from '../types';
+import { AllocationsContext, useAllocationsContext } from './AppContext';
+import { useToast } from './ToastContext';
+import { apiFetch } from '../services/apiClient';
+import { getErrorMessage } from '../utils/getErrorMessage';
+import { applyAllocationWindow, getMissingAllocationWindows, mergeAllocationWindows, toMonthWindow } from '../utils/allocationWindowUtils';
+
+interface AllocationAsOfContextValue {
+    /** Istante visualizzato (ISO) o null per le allocazioni correnti. */
+    asOf: string | null;
+    /** Inizio della registrazione dello storico: prima di allora la vista coincide con il presente. */
+    trackedSince: string | null;
+    setAsOf: (asOf: string | null) => void;
+}
+
+/** Finestre caricate per l'istante corrente; sostituito a ogni cambio di istante. */
+interface AsOfWindowsState {
+    asOf: string | null;
+    loaded: AllocationWindow[];
+    pending: AllocationWindow[];
+}
+
+const AllocationAsOfContext = createContext<AllocationAsOfContextValue | undefined>(undefined);
+
+const READ_ONLY_MESSAGE = 'Vista storica: le allocazioni sono in sola lettura. Torna al presente per modificarle.';
+
+export const AllocationAsOfProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const live = useAllocationsContext();
+    const { addToast } = useToast();
+    const [asOf, setAsOfState] = useState<string | null>(null);
+    const [trackedSince, setTrackedSince] = useState<string | null>(null);
+    const [snapshot, setSnapshot] = useState<Allocation>({});
+    const windowsRef = useRef<AsOfWindowsState>({ asOf: null, loaded: [], pending: [] });
+
+    const setAsOf = useCallback((next: string | null) => {
+        windowsRef.current = { asOf: next, loaded: [], pending: [] };
+        setSnapshot({});
+        setAsOfState(next);
+    }, []);
+
+    // Cambia identità con l'istante: useAllocationWindow ricarica così la finestra visibile
+    const ensureAsOfWindow = useCallback(async (start: string, end: string): Promise<void> => {
+        const state = windowsRef.current;
+        if (!asOf || state.asOf !== asOf) return;
+        const missing = getMissingAllocationWindows([...state.loaded, ...state.pending], toMonthWindow(start, end));
+        if (missing.length === 0) return;
+        state.pending = [...state.pending, ...missing];
+        try {
+            const responses = await Promise.all(missing.map(w => apiFetch<AllocationAsOfResponse>(
+                `/api/staffing?action=changes&asOf=${encodeURIComponent(asOf)}&start=${w.start}&end=${w.end}`
+            )));
+            if (windowsRef.current !== state) return;
+            state.loaded = mergeAllocationWindows([...state.loaded, ...missing]);
+            setTrackedSince(responses[0]?.trackedSince ?? null);
+            setSnapshot(prev => responses.reduce((acc, r) => applyAllocationWindow(acc, r, r.allocations), prev));
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il caricamento della vista storica.', 'error');
+        } finally {
+            state.pending = state.pending.filter(w => !missing.includes(w));
+        }
+    }, [asOf, addToast]);
+
+    const rejectWrite = useCallback(() => {
+        addToast(READ_ONLY_MESSAGE, 'warning');
+    }, [addToast]);
+
+    const allocationsValue = useMemo<AllocationsContextType>(() => {
+        if (!asOf) return live;
+        return {
+            allocations: snapshot,
+            updateAllocation: async () => rejectWrite(),
+            bulkUpdateAllocations: async () => rejectWrite(),
+            applyAllocationUpdates: async () => { rejectWrite(); return false; },
+            allocationConflicts: [],
+            dismissAllocationConflicts: () => {},
+            staffingRuleViolations: [],
+            dismissStaffingRuleViolations: () => {},
+            allocationProposals: [],
+            reviewAllocationProposals: async () => { rejectWrite(); return false; },
+            ensureAllocationWindow: ensureAsOfWindow,
+        };
+    }, [asOf, live, snapshot, rejectWrite, ensureAsOfWindow]);
+
+    const asOfValue = useMemo<AllocationAsOfContextValue>(() => ({ asOf, trackedSince, setAsOf }), [asOf, trackedSince, setAsOf]);
+
+    return (
+        <AllocationAsOfContext.Provider value={asOfValue}>
+            <AllocationsContext.Provider value={allocationsValue}>
+                {children}
+            </AllocationsContext.Provider>
+        </AllocationAsOfContext.Provider>
+    );
+};
+
+export const useAllocationAsOf = (): AllocationAsOfContextValue => {
+    const ctx = useContext(AllocationAsOfContext);
+    if (!ctx) throw new Error('useAllocationAsOf must be used within AllocationAsOfProvider');
+    return ctx;
+};
@@ -2,7 +2,8 @@
  * @file AppContext.tsx
  * @description Coordinator del contesto applicativo.
  * Orchestrates sub-contexts (Resources, Projects, Skills, HR, Lookup, UIConfig),
- * gestisce fetchData bulk, operazioni con cascade tra domini, e fornisce
+ * gestisce fetchData bulk (allocazioni caricate a finestre di date, poi solo delta), operazioni con cascade tra domini, la pianificazione a effort,
+ * la riassegnazione tra risorse, la pulizia delle allocazioni oltre dimissioni / fine progetto e fornisce
  * useEntitiesContext() per compatibilità backward con il codice esistente.
  *
  * Gerarchia provider:
@@ -12,13 +13,29 @@
 
 import React, {
     createContext, useState, useEffect, ReactNode, useContext,
-    useCallback, useMemo
+    useCallback, useMemo, useRef
 } from 'react';
 import { getErrorMessage } from '../utils/getErrorMessage';
-import { EntitiesContextType, AllocationsContextType, ComputedSkill } from '../types';
+import {
+    EntitiesContextType, AllocationsContextType, AllocationConflict, AllocationUpdate, AllocationWriteResult, ComputedSkill,
+    EffortDistributionResult, EffortPlan, ReassignmentRequest, ReassignmentResult, PlaceholderConversionResult,
+    AllocationCleanupScope, AllocationCleanupSummary, AllocationProposal, AllocationProposalReviewResult, AllocationWindow,
+    AllocationWindowResponse, Project, Resource, StaffingRuleViolation,
+} from '../types';
 import { useToast } from './ToastContext';
+import { v4 as uuidv4 } from 'uuid';
 import { apiFetch } from '../services/apiClient';
-import { parseISODate, toISODateString } from '../utils/dateUtils';
+import { formatDateSynthetic, parseISODate, toISODateString } from '../utils/dateUtils';
+import { applyEffortDistribution } from '../utils/effortPlanningUtils';
+import { applyReassignmentPlan } from '../utils/reassignmentUtils';
+import { applyPlaceholderConversion } from '../utils/placeholderUtils';
+import { IDEMPOTENCY_KEY_HEADER } from '../utils/allocationBatchUtils';
+import {
+    applyAllocationDelta, applyAllocationWindow, getMissingAllocationWindows, mergeAllocationWindows, toMonthWindow,
+} from '../utils/allocationWindowUtils';
+import {
+    buildAllocationCleanupSummary, collectCleanupRows, getProjectCleanupBoundary, getResourceCleanupBoundary, pruneAllocationsAfter,
+} from '../utils/allocationCleanupUtils';
 
 import { ResourcesProvider, useResourcesContext } from './ResourcesContext';
 import { ProjectsProvider, useProjectsContext } from './ProjectsContext';
@@ -53,6 +70,37 @@ const CascadeOpsContext = createContext<CascadeOpsContextType>({
     deleteProject: async () => { throw new Error('CascadeOpsContext: Provider non trovato'); },
     deleteResource: async () => { throw new Error('CascadeOpsContext: Provider non trovato'); },
 });
+interface EffortPlanningContextType {
+    /** Salva il piano di effort dell'assegnazione e applica la redistribuzione calcolata dal server. */
+    planAssignmentEffort: (assignmentId: string, plan: EffortPlan) => Promise<EffortDistributionResult | null>;
+}
+const EffortPlanningContext = createContext<EffortPlanningContextType>({
+    planAssignmentEffort: async () => { throw new Error('EffortPlanningContext: Provider non trovato'); },
+});
+interface ReassignmentContextType {
+    /** Anteprima (dry run) del trasferimento, con le sovrallocazioni della risorsa di destinazione. */
+    previewReassignment: (request: ReassignmentRequest) => Promise<ReassignmentResult | null>;
+    /** Esegue il trasferimento; in caso di rifiuto per overbooking (409) restituisce il report con `success: false`. */
+    executeReassignment: (request: ReassignmentRequest) => Promise<ReassignmentResult | null>;
+    /** Intesta un segnaposto di ruolo alla risorsa trasferendone le allocazioni; su 409 restituisce il report con `success: false`. */
+    convertPlaceholder: (placeholderId: string, resourceId: string) => Promise<PlaceholderConversionResult | null>;
+}
+const ReassignmentContext = createContext<ReassignmentContextType>({
+    previewReassignment: async () => { throw new Error('ReassignmentContext: Provider non trovato'); },
+    executeReassignment: async () => { throw new Error('ReassignmentContext: Provider non trovato'); },
+    convertPlaceholder: async () => { throw new Error('ReassignmentContext: Provider non trovato'); },
+});
+interface AllocationCleanupContextType {
+    /** Allocazioni oltre il nuovo limite di una risorsa o di un progetto, in attesa di conferma (policy ASK). */
+    pendingCleanup: AllocationCleanupSummary | null;
+    confirmAllocationCleanup: () => Promise<void>;
+    dismissAllocationCleanup: () => void;
+}
+const AllocationCleanupContext = createContext<AllocationCleanupContextType>({
+    pendingCleanup: null,
+    confirmAllocationCleanup: async () => { throw new Error('AllocationCleanupContext: Provider non trovato'); },
+    dismissAllocationCleanup: () => { throw new Error('AllocationCleanupContext: Provider non trovato'); },
+});
 
 // --- Coordinator interno: aggrega tutti i sub-context e fornisce operazioni cross-domain ---
 interface AppCoordinatorProps {
@@ -72,7 +120,7 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
     const appState = useAppState();
     const { setLoading, setFetchError, setActionLoading } = appState;
     // Destructura solo setAllocations: stabile (garantito da useState)
-    const { setAllocations } = useAllocationsInternal();
+    const { allocations, setAllocations, setAllocationProposals, syncAllocations } = useAllocationsInternal();
 
     const resourcesCtx = useResourcesContext();
     const projectsCtx = useProjectsContext();
@@ -108,6 +156,7 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
                 roles: metaData.roles || [],
                 roleCostHistory: metaData.roleCostHistory || [],
                 managerResourceIds: metaData.managerResourceIds || [],
+                workSchedules: metaData.workSchedules || [],
             }, setActionLoading);
 
             initProjects({
@@ -115,6 +164,9 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
                 projects: metaData.projects || [],
                 rateCards: metaData.rateCards || [],
                 rateCardEntries: metaData.rateCardEntries || [],
+                rateCardEntryHistory: metaData.rateCardEntryHistory || [],
+                rateCardLines: metaData.rateCardLines || [],
+                fxRates: metaData.fxRates || [],
                 projectExpenses: metaData.projectExpenses || [],
             }, setActionLoading);
 
@@ -162,7 +214,13 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
                 clientSectors: metaData.clientSectors || [],
                 locations: metaData.locations || [],
                 companyCalendar: metaData.companyCalendar || [],
+                locationCalendars: metaData.locationCalendars || [],
                 planningSettings: { monthsBefore, monthsAfter },
+                overbookingPolicy: metaData.overbookingPolicy || 'WARN',
+                allocationCleanupPolicy: metaData.allocationCleanupPolicy || 'ASK',
+                allocationApprovalMode: metaData.allocationApprovalMode || 'OFF',
+                contractExhaustionAlertWeeks: metaData.contractExhaustionAlertWeeks,
+                staffingRules: metaData.staffingRules || [],
             }, setActionLoading);
 
             const today = new Date();
@@ -173,7 +231,7 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
             const startStr = start.toISOString().split('T')[0];
             const endStr = end.toISOString().split('T')[0];
 
-            const planningData = await apiFetch<any>(`/api/data?scope=planning&start=${startStr}&end=${endStr}`);
+            const planningData = await apiFetch<any>('/api/data?scope=planning');
 
             initProjects({
                 assignments: planningData.assignments || [],
@@ -194,7 +252,8 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
                 interviews: planningData.interviews || [],
             }, setActionLoading);
 
-            setAllocations(planningData.allocations || {});
+            await syncAllocations({ start: startStr, end: endStr });
+            setAllocationProposals(planningData.allocationProposals || []);
 
         } catch (error) {
             console.error('Failed to fetch data', error);
@@ -204,7 +263,7 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
         }
     }, [
         planningMonthsBefore, planningMonthsAfter,
-        setLoading, setFetchError, setAllocations,
+        setLoading, setFetchError, setAllocationProposals, syncAllocations,
         initResources, initProjects, initSkills, initHR, initLookup, initUIConfig,
     ]);
 
@@ -250,6 +309,201 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
         }
     }, [setActionLoading, removeProject, removeProjectSkillsByProject]);
 
+    // --- Pianificazione a effort: piano sull'assegnazione (Projects) + allocazioni ridistribuite ---
+    const patchAssignment = projectsCtx._patchAssignment;
+
+    const applyEffortResults = useCallback((results: EffortDistributionResult[]) => {
+        if (results.length === 0) return;
+        setAllocations(prev => results.reduce((acc, result) => applyEffortDistribution(acc, result), prev));
+    }, [setAllocations]);
+
+    const planAssignmentEffort = useCallback(async (assignmentId: string, plan: EffortPlan): Promise<EffortDistributionResult | null> => {
+        setActionLoading(`planAssignmentEffort-${assignmentId}`, true);
+        try {
+            const result = await apiFetch<EffortDistributionResult>(`/api/staffing?action=effort&id=${assignmentId}`, {
+                method: 'PUT', body: JSON.stringify(plan)
+            });
+            patchAssignment(assignmentId, {
+                plannedEffortDays: result.plannedEffortDays,
+                effortStartDate: result.effortStartDate,
+                effortEndDate: result.effortEndDate,
+            });
+            applyEffortResults([result]);
+            if (!result.plannedEffortDays) {
+                addToast('Piano di effort rimosso: le allocazioni restano modificabili manualmente.', 'success');
+            } else if (result.shortfallDays > 0) {
+                addToast(`Distribuiti ${result.distributedDays} g/u su ${result.plannedEffortDays}: capacità insufficiente per ${result.shortfallDays} g/u nella finestra.`, 'warning');
+            } else {
+                addToast(`Distribuiti ${result.distributedDays} g/u sui giorni lavorativi della risorsa.`, 'success');
+            }
+            return result;
+        } catch (e: unknown) {
+            addToast(getErrorMessage(e) || 'Errore durante la pianificazione dell\'effort.', 'error');
+            return null;
+        } finally {
+            setActionLoading(`planAssignmentEffort-${assignmentId}`, false);
+        }
+    }, [setActionLoading, patchAssignment, applyEffortResults, addToast]);
+
+    // Le assenze approvate cambiano la capacità della risorsa: il server ridistribuisce i piani di
+    // effort che intersecano il periodo nella transazione della scrittura; qui si allinea lo stato locale.
+    const leaveEffortRedistribution = hrCtx._effortRedistribution;
+
+    useEffect(() => {
+        if (leaveEffortRedistribution.length === 0) return;
+        applyEffortResults(leaveEffortRedistribution);
+        addToast(`Effort ridistribuito su ${leaveEffortRedistribution.length} assegnazioni per la variazione delle assenze.`, 'success');
+    }, [leaveEffortRedistribution, applyEffortResults, addToast]);
+
+    // --- Riassegnazione tra risorse: assegnazioni create (Projects) + allocazioni trasferite ---
+    const addAssignments = projectsCtx._addAssignments;
+
+    const previewReassignment = useCallback(async (request: ReassignmentRequest): Promise<ReassignmentResult | null> => {
+        try {
+            return await apiFetch<ReassignmentResult>('/api/staffing?action=reassign', {
+                method: 'POST', body: JSON.stringify({ ...request, dryRun: true })
+            });
+        } catch (e: unknown) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'anteprima della riassegnazione.', 'error');
+            return null;
+        }
+    }, [addToast]);
+
+    const executeReassignment = useCallback(async (request: ReassignmentRequest): Promise<ReassignmentResult | null> => {
+        setActionLoading('executeReassignment', true);
+        try {
+            const result = await apiFetch<ReassignmentResult>('/api/staffing?action=reassign', {
+                method: 'POST', body: JSON.stringify(request)
+            });
+            addAssignments(result.createdAssignments);
+            setAllocations(prev => applyReassignmentPlan(prev, result));
+            const days = result.moves.reduce((sum, m) => sum + m.days, 0);
+            if (result.conflicts.length > 0) {
+                addToast(`Trasferite ${days} giornate su ${result.moves.length} progetti, con sovrallocazione su ${result.conflicts.length} giornate.`, 'warning');
+            } else {
+                addToast(`Trasferite ${days} giornate su ${result.moves.length} progetti.`, 'success');
+            }
+            return result;
+        } catch (e: unknown) {
+            const body = (e as { body?: ReassignmentResult }).body;
+            addToast(getErrorMessage(e) || 'Errore durante la riassegnazione.', 'error');
+            return (e as { status?: number }).status === 409 && body?.conflicts ? body : null;
+        } finally {
+            setActionLoading('executeReassignment', false);
+        }
+    }, [setActionLoading, addAssignments, setAllocations, addToast]);
+
+    // Conversione del segnaposto: il server intesta il segnaposto alla risorsa o, se questa è già
+    // assegnata al progetto, ne somma le allocazioni all'assegnazione esistente ed elimina il segnaposto.
+    const removeAssignment = projectsCtx._removeAssignment;
+
+    const convertPlaceholder = useCallback(async (placeholderId: string, resourceId: string): Promise<PlaceholderConversionResult | null> => {
+        setActionLoading('convertPlaceholder', true);
+        try {
+            const result = await apiFetch<PlaceholderConversionResult>('/api/staffing?action=placeholder', {
+                method: 'POST', body: JSON.stringify({ placeholderId, resourceId })
+            });
+            if (result.removedAssignmentId) {
+                removeAssignment(result.removedAssignmentId);
+            } else {
+                patchAssignment(result.assignment.id!, { resourceId: result.assignment.resourceId, roleId: null });
+            }
+            setAllocations(prev => applyPlaceholderConversion(prev, result));
+            if (result.conflicts.length > 0) {
+                addToast(`Segnaposto assegnato, con sovrallocazione su ${result.conflicts.length} giornate.`, 'warning');
+            } else {
+                addToast(`Segnaposto assegnato: trasferite ${result.updates.length} giornate.`, 'success');
+            }
+            return result;
+        } catch (e: unknown) {
+            const body = (e as { body?: PlaceholderConversionResult }).body;
+            addToast(getErrorMessage(e) || 'Errore durante la conversione del segnaposto.', 'error');
+            return (e as { status?: number }).status === 409 && body?.conflicts ? body : null;
+        } finally {
+            setActionLoading('convertPlaceholder', false);
+        }
+    }, [setActionLoading, removeAssignment, patchAssignment, setAllocations, addToast]);
+
+    // --- Pulizia allocazioni: dimissioni / ultimo giorno anticipato, fine progetto anticipata ---
+    // Il PUT rileva la stessa variazione lato server: con policy AUTO ha già rimosso le allocazioni
+    // (qui si allinea solo lo stato locale), con ASK la rimozione attende la conferma dell'utente.
+    const allocationCleanupPolicy = lookupCtx.allocationCleanupPolicy;
+    const isLoading = appState.loading;
+    const assignmentsRef = useRef(projectsCtx.assignments);
+    assignmentsRef.current = projectsCtx.assignments;
+    const { resources } = resourcesCtx;
+    const { projects } = projectsCtx;
+    const allocationsRef = useRef(allocations);
+    allocationsRef.current = allocations;
+    const prevCleanupEntitiesRef = useRef<{ resources: Resource[]; projects: Project[] } | null>(null);
+    const [pendingCleanup, setPendingCleanup] = useState<AllocationCleanupSummary | null>(null);
+
+    useEffect(() => {
+        if (isLoading) {
+            prevCleanupEntitiesRef.current = null;
+            return;
+        }
+        const previous = prevCleanupEntitiesRef.current;
+        prevCleanupEntitiesRef.current = { resources, projects };
+        if (!previous || (previous.resources === resources && previous.projects === projects)) return;
+
+        const today = toISODateString(new Date());
+        const boundaries: { scope: AllocationCleanupScope; entityId: string; boundaryDate: string }[] = [];
+        const prevResources = new Map(previous.resources.map(r => [r.id, r]));
+        const prevProjects = new Map(previous.projects.map(p => [p.id, p]));
+        resources.forEach(r => {
+            const prev = prevResources.get(r.id);
+            const boundaryDate = prev && prev !== r && r.id ? getResourceCleanupBoundary(prev, r, today) : null;
+            if (boundaryDate) boundaries.push({ scope: 'resource', entityId: r.id!, boundaryDate });
+        });
+        projects.forEach(p => {
+            const prev = prevProjects.get(p.id);
+            const boundaryDate = prev && prev !== p && p.id ? getProjectCleanupBoundary(prev, p) : null;
+            if (boundaryDate) boundaries.push({ scope: 'project', entityId: p.id!, boundaryDate });
+        });
+
+        const applied = allocationCleanupPolicy === 'AUTO';
+        const summaries = boundaries
+            .map(b => buildAllocationCleanupSummary(
+                b.scope, b.entityId, b.boundaryDate,
+                collectCleanupRows(b.scope, b.entityId, b.boundaryDate, assignmentsRef.current, allocationsRef.current),
+                applied
+            ))
+            .filter((s): s is AllocationCleanupSummary => s !== null);
+        if (summaries.length === 0) return;
+
+        if (applied) {
+            setAllocations(prev => summaries.reduce((acc, s) => pruneAllocationsAfter(acc, s.assignmentIds, s.boundaryDate), prev));
+            summaries.forEach(s => addToast(
+                `Rimosse ${s.removedPersonDays} g/u di allocazioni successive al ${formatDateSynthetic(s.boundaryDate)}.`, 'success'
+            ));
+        } else {
+            setPendingCleanup(summaries[0]);
+        }
+    }, [resources, projects, isLoading, allocationCleanupPolicy, setAllocations, addToast]);
+
+    const confirmAllocationCleanup = useCallback(async (): Promise<void> => {
+        if (!pendingCleanup) return;
+        const { scope, entityId, boundaryDate, assignmentIds } = pendingCleanup;
+        setActionLoading('confirmAllocationCleanup', true);
+        try {
+            const result = await apiFetch<AllocationCleanupSummary | null>('/api/staffing?action=cleanup', {
+                method: 'POST', body: JSON.stringify({ scope, entityId, boundaryDate })
+            });
+            setAllocations(prev => pruneAllocationsAfter(prev, result?.assignmentIds ?? assignmentIds, boundaryDate));
+            addToast(
+                `Rimosse ${result?.removedPersonDays ?? 0} g/u di allocazioni successive al ${formatDateSynthetic(boundaryDate)}.`, 'success'
+            );
+            setPendingCleanup(null);
+        } catch (e: unknown) {
+            addToast(getErrorMessage(e) || 'Errore durante la rimozione delle allocazioni.', 'error');
+        } finally {
+            setActionLoading('confirmAllocationCleanup', false);
+        }
+    }, [pendingCleanup, setActionLoading, setAllocations, addToast]);
+
+    const dismissAllocationCleanup = useCallback(() => setPendingCleanup(null), []);
+
     // --- getResourceComputedSkills: cross-domain (skills + assignments) ---
     const getResourceComputedSkills = useCallback((resourceId: string): ComputedSkill[] => {
         const { resourceSkills, projectSkills, skills, skillThresholds } = skillsCtx;
@@ -332,9 +586,11 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
         addContract: projectsCtx.addContract,
         updateContract: projectsCtx.updateContract,
         deleteContract: projectsCtx.deleteContract,
-        recalculateContractBacklog: projectsCtx.recalculateContractBacklog,
         addMultipleAssignments: projectsCtx.addMultipleAssignments,
+        updateAssignmentBookingStatus: projectsCtx.updateAssignmentBookingStatus,
+        updateAssignmentPattern: projectsCtx.updateAssignmentPattern,
         deleteAssignment: projectsCtx.deleteAssignment,
+        addPlaceholderAssignment: projectsCtx.addPlaceholderAssignment,
         addBillingMilestone: projectsCtx.addBillingMilestone,
         updateBillingMilestone: projectsCtx.updateBillingMilestone,
         deleteBillingMilestone: projectsCtx.deleteBillingMilestone,
@@ -449,13 +705,35 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
         deleteResource,
     }), [deleteProject, deleteResource]);
 
+    const effortPlanningValue = useMemo<EffortPlanningContextType>(() => ({
+        planAssignmentEffort,
+    }), [planAssignmentEffort]);
+
+    const reassignmentValue = useMemo<ReassignmentContextType>(() => ({
+        previewReassignment,
+        executeReassignment,
+        convertPlaceholder,
+    }), [previewReassignment, executeReassignment, convertPlaceholder]);
+
+    const allocationCleanupValue = useMemo<AllocationCleanupContextType>(() => ({
+        pendingCleanup,
+        confirmAllocationCleanup,
+        dismissAllocationCleanup,
+    }), [pendingCleanup, confirmAllocationCleanup, dismissAllocationCleanup]);
+
     return (
         <FetchDataContext.Provider value={fetchData}>
             <UpdatePlanningContext.Provider value={updatePlanningSettings}>
                 <CascadeOpsContext.Provider value={cascadeOpsValue}>
-                    <EntitiesContext.Provider value={entitiesValue}>
-                        {children}
-                    </EntitiesContext.Provider>
+                    <EffortPlanningContext.Provider value={effortPlanningValue}>
+                        <ReassignmentContext.Provider value={reassignmentValue}>
+                            <AllocationCleanupContext.Provider value={allocationCleanupValue}>
+                                <EntitiesContext.Provider value={entitiesValue}>
+                                    {children}
+                                </EntitiesContext.Provider>
+                            </AllocationCleanupContext.Provider>
+                        </ReassignmentContext.Provider>
+                    </EffortPlanningContext.Provider>
                 </CascadeOpsContext.Provider>
             </UpdatePlanningContext.Provider>
         </FetchDataContext.Provider>
@@ -465,23 +743,170 @@ const AppCoordinator: React.FC<AppCoordinatorProps> = ({
 // --- Provider interno per gestire allocations con setAllocations ---
 interface AllocationsState {
     allocations: AllocationsContextType['allocations'];
-    setAllocations: (a: AllocationsContextType['allocations']) => void;
+    setAllocations: React.Dispatch<React.SetStateAction<AllocationsContextType['allocations']>>;
     updateAllocation: AllocationsContextType['updateAllocation'];
     bulkUpdateAllocations: AllocationsContextType['bulkUpdateAllocations'];
+    setAllocationProposals: React.Dispatch<React.SetStateAction<AllocationProposal[]>>;
+    /** Allinea le allocazioni caricate (delta dal cursore) e garantisce la finestra di pianificazione. */
+    syncAllocations: (planningWindow: AllocationWindow) => Promise<void>;
+}
+
+/**
+ * Stato del caricamento a finestre: intervalli caricati, in corso e cursore dei delta.
+ * Legato al token di sessione: un cambio di utente (login, impersonificazione) riparte da zero.
+ */
+interface AllocationWindowsState {
+    sessionKey: string | null;
+    loaded: AllocationWindow[];
+    pending: AllocationWindow[];
+    cursor: string | null;
 }
 
+const createAllocationWindowsState = (sessionKey: string | null): AllocationWindowsState =>
+    ({ sessionKey, loaded: [], pending: [], cursor: null });
+
+const getSessionKey = () => (typeof localStorage !== 'undefined' ? localStorage.getItem('authToken') : null);
+
+const fetchAllocationWindow = (window: AllocationWindow, since?: string) =>
+    apiFetch<AllocationWindowResponse>(
+        `/api/data?scope=allocations&start=${window.start}&end=${window.end}${since ? `&since=${encodeURIComponent(since)}` : ''}`
+    );
+
+const oldestCursor = (current: string | null, next: string) => (current && current < next ? current : next);
+
+const proposalKey = (p: { assignmentId: string; date: string }) => `${p.assignmentId}|${p.date}`;
+
+/** Aggiornamenti effettivamente scritti dal batch: esclusi quelli trasformati in proposte. */
+const getWrittenUpdates = <T extends AllocationUpdate>(updates: T[], result: AllocationWriteResult): T[] => {
+    if (!result.proposals?.length) return updates;
+    const proposed = new Set(result.proposals.map(proposalKey));
+    return updates.filter(u => !proposed.has(proposalKey(u)));
+};
+
+const ruleViolationKey = (v: StaffingRuleViolation) => `${v.ruleId}|${v.resourceId}|${v.period ?? v.assignmentIds.join(',')}`;
+
 const AllocationsStateContext = createContext<AllocationsState | undefined>(undefined);
 
 const AllocationsInternalProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const { addToast } = useToast();
     const [allocations, setAllocations] = useState<AllocationsContextType['allocations']>({});
+    const [allocationConflicts, setAllocationConflicts] = useState<AllocationConflict[]>([]);
+    const [staffingRuleViolations, setStaffingRuleViolations] = useState<StaffingRuleViolation[]>([]);
+    const [allocationProposals, setAllocationProposals] = useState<AllocationProposal[]>([]);
+    const windowsRef = useRef<AllocationWindowsState>(createAllocationWindowsState(null));
 
-    const updateAllocation = useCallback(async (assignmentId: string, date: string, percentage: number): Promise<void> => {
+    // Carica le parti non ancora caricate dell'intervallo (arrotondato ai mesi). Le finestre
+    // in corso sono riservate subito, così le richieste ripetute durante la navigazione non si duplicano.
+    const ensureAllocationWindow = useCallback(async (start: string, end: string): Promise<void> => {
+        const state = windowsRef.current;
+        const missing = getMissingAllocationWindows([...state.loaded, ...state.pending], toMonthWindow(start, end));
+        if (missing.length === 0) return;
+        state.pending = [...state.pending, ...missing];
         try {
-            await apiFetch('/api/staffing?action=allocation', {
+            const responses = await Promise.all(missing.map(w => fetchAllocationWindow(w)));
+            if (windowsRef.current !== state) return;
+            state.loaded = mergeAllocationWindows([...state.loaded, ...missing]);
+            responses.forEach(r => { state.cursor = oldestCursor(state.cursor, r.cursor); });
+            setAllocations(prev => responses.reduce((acc, r) => applyAllocationWindow(acc, r, r.allocations), prev));
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il caricamento delle allocazioni.', 'error');
+        } finally {
+            state.pending = state.pending.filter(w => !missing.includes(w));
+        }
+    }, [addToast]);
+
+    const syncAllocations = useCallback(async (planningWindow: AllocationWindow): Promise<void> => {
+        const sessionKey = getSessionKey();
+        const state = windowsRef.current;
+        if (state.sessionKey !== sessionKey || !state.cursor) {
+            windowsRef.current = createAllocationWindowsState(sessionKey);
+            setAllocations({});
+        } else {
+            // Dopo il primo caricamento si scaricano solo le celle modificate o eliminate dopo il cursore
+            const since = state.cursor;
+            const windows = state.loaded;
+            const responses = await Promise.all(windows.map(w => fetchAllocationWindow(w, since)));
+            if (windowsRef.current === state) {
+                state.cursor = responses.reduce<string | null>((acc, r) => oldestCursor(acc, r.cursor), null) ?? since;
+                setAllocations(prev => responses.reduce(
+                    (acc, r) => (r.reset ? applyAllocationWindow(acc, r, r.allocations) : applyAllocationDelta(acc, r)),
+                    prev
+                ));
+            }
+        }
+        await ensureAllocationWindow(planningWindow.start, planningWindow.end);
+    }, [ensureAllocationWindow]);
+
+    // Registra l'esito della guardia di overbooking: i conflitti precedenti sulle
+    // risorse/date verificate dal batch sono superati da quelli appena restituiti.
+    const recordConflicts = useCallback((updates: AllocationUpdate[], result: AllocationWriteResult | null | undefined) => {
+        if (!result?.checkedResourceIds) return;
+        const checked = new Set(result.checkedResourceIds);
+        const dates = new Set(updates.map(u => u.date));
+        setAllocationConflicts(prev => [
+            ...prev.filter(c => !(checked.has(c.resourceId) && dates.has(c.date))),
+            ...(result.conflicts || []),
+        ]);
+    }, []);
+
+    // Le violazioni appena restituite sostituiscono quelle già segnalate per la stessa regola, risorsa e periodo.
+    const recordRuleViolations = useCallback((violations: StaffingRuleViolation[] | undefined) => {
+        if (!violations?.length) return;
+        const keys = new Set(violations.map(ruleViolationKey));
+        setStaffingRuleViolations(prev => [...prev.filter(v => !keys.has(ruleViolationKey(v))), ...violations]);
+    }, []);
+
+    // POST del batch all'endpoint allocazioni. Restituisce null se il batch è stato
+    // rifiutato per intero (righe non valide, 400, overbooking con policy BLOCK o regole di staffing bloccanti, 409):
+    // in quel caso lo stato locale non va aggiornato. Gli altri errori vengono rilanciati.
+    // La chiave di idempotenza è generata una volta per batch: i retry di apiFetch la riusano.
+    const postAllocationUpdates = useCallback(async (updates: AllocationUpdate[]): Promise<AllocationWriteResult | null> => {
+        try {
+            const result = await apiFetch<AllocationWriteResult>('/api/staffing?action=allocation', {
                 method: 'POST',
-                body: JSON.stringify({ updates: [{ assignmentId, date, percentage }] })
+                headers: { [IDEMPOTENCY_KEY_HEADER]: uuidv4() },
+                body: JSON.stringify({ updates })
             });
+            recordConflicts(updates, result);
+            recordRuleViolations(result?.ruleViolations);
+            if (result?.conflicts?.length) {
+                addToast(`Allocazione salvata con sovrallocazione su ${result.conflicts.length} giornate.`, 'warning');
+            }
+            if (result?.ruleViolations?.length) {
+                addToast(`Allocazione salvata con ${result.ruleViolations.length} violazioni delle regole di staffing.`, 'warning');
+            }
+            // Modalità di approvazione: le giornate proposte sostituiscono le proposte in attesa sulle stesse celle
+            const proposals = result?.proposals;
+            if (proposals?.length) {
+                const replaced = new Set(proposals.map(proposalKey));
+                setAllocationProposals(prev => [...prev.filter(p => !replaced.has(proposalKey(p))), ...proposals]);
+                addToast(`${proposals.length} giornate inviate in approvazione al manager della risorsa.`, 'info');
+            }
+            return result ?? { success: true };
+        } catch (e) {
+            const body = (e as { body?: AllocationWriteResult }).body;
+            if ((e as { status?: number }).status === 409 && (body?.conflicts || body?.ruleViolations)) {
+                recordConflicts(updates, body);
+                recordRuleViolations(body.ruleViolations);
+                addToast(getErrorMessage(e), 'error');
+                return null;
+            }
+            if ((e as { status?: number }).status === 400 && body?.outcomes) {
+                const firstInvalid = body.outcomes.find(o => o.status === 'INVALID');
+                addToast(`${getErrorMessage(e)}${firstInvalid?.error ? ` ${firstInvalid.error}` : ''}`, 'error');
+                return null;
+            }
+            throw e;
+        }
+    }, [addToast, recordConflicts, recordRuleViolations]);
+
+    const dismissAllocationConflicts = useCallback(() => setAllocationConflicts([]), []);
+    const dismissStaffingRuleViolations = useCallback(() => setStaffingRuleViolations([]), []);
+
+    const updateAllocation = useCallback(async (assignmentId: string, date: string, percentage: number): Promise<void> => {
+        try {
+            const result = await postAllocationUpdates([{ assignmentId, date, percentage }]);
+            if (!result || getWrittenUpdates([{ assignmentId, date, percentage }], result).length === 0) return;
             setAllocations(prev => {
                 const next = { ...prev };
                 const assignAlloc = { ...(next[assignmentId] || {}) };
@@ -491,7 +916,7 @@ const AllocationsInternalProvider: React.FC<{ children: ReactNode }> = ({ childr
                 return next;
             });
         } catch (e) { addToast('Errore durante l\'aggiornamento dell\'allocazione.', 'error'); }
-    }, [addToast]);
+    }, [addToast, postAllocationUpdates]);
 
     const bulkUpdateAllocations = useCallback(async (
         assignmentId: string, startDate: string, endDate: string, percentage: number
@@ -509,34 +934,35 @@ const AllocationsInternalProvider: React.FC<{ children: ReactNode }> = ({ childr
         }
         if (updates.length === 0) return;
         try {
-            await apiFetch('/api/staffing?action=allocation', {
-                method: 'POST', body: JSON.stringify({ updates })
-            });
+            const result = await postAllocationUpdates(updates);
+            if (!result) return;
+            const written = getWrittenUpdates(updates, result);
             setAllocations(prev => {
                 const next = { ...prev };
                 const assignAlloc = { ...(next[assignmentId] || {}) };
-                updates.forEach(u => { if (u.percentage === 0) delete assignAlloc[u.date]; else assignAlloc[u.date] = u.percentage; });
+                written.forEach(u => { if (u.percentage === 0) delete assignAlloc[u.date]; else assignAlloc[u.date] = u.percentage; });
                 next[assignmentId] = assignAlloc;
                 return next;
             });
-            addToast(`Aggiornate ${updates.length} giornate.`, 'success');
+            if (written.length > 0) addToast(`Aggiornate ${written.length} giornate.`, 'success');
         } catch (e) { addToast('Errore durante l\'aggiornamento massivo.', 'error'); }
-    }, [addToast]);
+    }, [addToast, postAllocationUpdates]);
 
     // Applica un insieme arbitrario di aggiornamenti puntuali (assignmentId+date+%).
     // Riutilizza l'endpoint batch già esistente. È la primitiva su cui si basa
-    // l'undo dell'assegnazione massiva (ripristino dei valori precedenti).
+    // la cronologia undo/redo della griglia: restituisce true solo se il batch è
+    // stato salvato, così che chi rigioca una modifica sappia se è andata a buon fine.
     const applyAllocationUpdates = useCallback(async (
         updates: { assignmentId: string; date: string; percentage: number }[]
-    ): Promise<void> => {
-        if (!updates.length) return;
+    ): Promise<boolean> => {
+        if (!updates.length) return false;
         try {
-            await apiFetch('/api/staffing?action=allocation', {
-                method: 'POST', body: JSON.stringify({ updates })
-            });
+            const result = await postAllocationUpdates(updates);
+            if (!result) return false;
+            const written = getWrittenUpdates(updates, result);
             setAllocations(prev => {
                 const next = { ...prev };
-                for (const u of updates) {
+                for (const u of written) {
                     const assignAlloc = { ...(next[u.assignmentId] || {}) };
                     if (u.percentage === 0) delete assignAlloc[u.date];
                     else assignAlloc[u.date] = u.percentage;
@@ -544,16 +970,62 @@ const AllocationsInternalProvider: React.FC<{ children: ReactNode }> = ({ childr
                 }
                 return next;
             });
-        } catch (e) { addToast('Errore durante l\'aggiornamento delle allocazioni.', 'error'); }
-    }, [addToast]);
+            return true;
+        } catch (e) {
+            addToast('Errore durante l\'aggiornamento delle allocazioni.', 'error');
+            return false;
+        }
+    }, [addToast, postAllocationUpdates]);
+
+    // Decisione del manager sulle proposte: quelle accettate vengono scritte in `allocations`
+    // (con la stessa guardia di overbooking e regole di staffing delle modifiche dirette).
+    const reviewAllocationProposals = useCallback(async (
+        ids: string[], status: 'APPROVED' | 'REJECTED', reviewNotes?: string
+    ): Promise<boolean> => {
+        if (!ids.length) return false;
+        try {
+            const result = await apiFetch<AllocationProposalReviewResult>('/api/staffing?action=proposal', {
+                method: 'POST', body: JSON.stringify({ ids, status, reviewNotes })
+            });
+            const reviewed = new Set(result.reviewedIds);
+            setAllocationProposals(prev => prev.filter(p => !reviewed.has(p.id)));
+            if (result.applied.length > 0) {
+                recordConflicts(result.applied, result);
+                recordRuleViolations(result.ruleViolations);
+                setAllocations(prev => {
+                    const next = { ...prev };
+                    for (const u of result.applied) {
+                        const assignAlloc = { ...(next[u.assignmentId] || {}) };
+                        if (u.percentage === 0) delete assignAlloc[u.date];
+                        else assignAlloc[u.date] = u.percentage;
+                        next[u.assignmentId] = assignAlloc;
+                    }
+                    return next;
+                });
+            }
+            addToast(status === 'APPROVED' ? `Proposta accettata: aggiornate ${result.applied.length} giornate.` : 'Proposta rifiutata.', 'success');
+            return true;
+        } catch (e) {
+            const body = (e as { body?: AllocationWriteResult }).body;
+            if ((e as { status?: number }).status === 409 && body?.conflicts) {
+                setAllocationConflicts(prev => [...prev, ...(body.conflicts || [])]);
+            }
+            if ((e as { status?: number }).status === 409) recordRuleViolations(body?.ruleViolations);
+            addToast(getErrorMessage(e) || 'Errore durante la revisione della proposta.', 'error');
+            return false;
+        }
+    }, [addToast, recordConflicts, recordRuleViolations]);
 
     const allocState = useMemo<AllocationsState>(() => ({
-        allocations, setAllocations, updateAllocation, bulkUpdateAllocations
-    }), [allocations, updateAllocation, bulkUpdateAllocations]);
+        allocations, setAllocations, updateAllocation, bulkUpdateAllocations, setAllocationProposals, syncAllocations
+    }), [allocations, updateAllocation, bulkUpdateAllocations, syncAllocations]);
 
     const allocValue = useMemo<AllocationsContextType>(() => ({
-        allocations, updateAllocation, bulkUpdateAllocations, applyAllocationUpdates
-    }), [allocations, updateAllocation, bulkUpdateAllocations, applyAllocationUpdates]);
+        allocations, updateAllocation, bulkUpdateAllocations, applyAllocationUpdates,
+        allocationConflicts, dismissAllocationConflicts, staffingRuleViolations, dismissStaffingRuleViolations,
+        allocationProposals, reviewAllocationProposals, ensureAllocationWindow
+    }), [allocations, updateAllocation, bulkUpdateAllocations, applyAllocationUpdates, allocationConflicts, dismissAllocationConflicts,
+        staffingRuleViolations, dismissStaffingRuleViolations, allocationProposals, reviewAllocationProposals, ensureAllocationWindow]);
 
     return (
         <AllocationsStateContext.Provider value={allocState}>
@@ -669,3 +1141,15 @@ export const useUpdatePlanningSettings = (): ((settings: { monthsBefore: number;
 export const useCascadeOps = (): CascadeOpsContextType => {
     return useContext(CascadeOpsContext);
 };
+
+export const useEffortPlanning = (): EffortPlanningContextType => {
+    return useContext(EffortPlanningContext);
+};
+
+export const useReassignment = (): ReassignmentContextType => {
+    return useContext(ReassignmentContext);
+};
+
+export const useAllocationCleanup = (): AllocationCleanupContextType => {
+    return useContext(AllocationCleanupContext);
+};
@@ -6,10 +6,11 @@
 
 import React, { createContext, useState, useContext, useCallback, useMemo, ReactNode } from 'react';
 import {
-    LeaveRequest, LeaveType, ResourceRequest, Interview
+    LeaveRequest, LeaveType, ResourceRequest, Interview, EffortDistributionResult, LeaveWriteEffects
 } from '../types';
 import { useToast } from './ToastContext';
 import { apiFetch } from '../services/apiClient';
+import { getErrorMessage } from '../utils/getErrorMessage';
 
 // --- Tipi del contesto ---
 
@@ -50,6 +51,8 @@ export interface HRContextValue {
     // Funzioni interne per il coordinator (cascade)
     initialize: (data: HRInitData, setActionLoadingFn?: (action: string, loading: boolean) => void) => void;
     _removeLeaveRequestsByResource: (resourceId: string) => void;
+    /** Piani di effort ridistribuiti dal server con l'ultima scrittura di un'assenza (applicati dal coordinator). */
+    _effortRedistribution: EffortDistributionResult[];
     _setActionLoading?: (action: string, loading: boolean) => void;
 }
 
@@ -62,6 +65,7 @@ export const HRProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
     const [resourceRequests, setResourceRequests] = useState<ResourceRequest[]>([]);
     const [interviews, setInterviews] = useState<Interview[]>([]);
+    const [effortRedistribution, setEffortRedistribution] = useState<EffortDistributionResult[]>([]);
 
     const [actionLoading, setActionLoading] = useState<(action: string, loading: boolean) => void>(() => () => {});
 
@@ -108,32 +112,35 @@ export const HRProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const addLeaveRequest = useCallback(async (req: Omit<LeaveRequest, 'id'>): Promise<void> => {
         actionLoading('addLeaveRequest', true);
         try {
-            const created = await apiFetch<LeaveRequest>('/api/resources?entity=leaves', {
+            const { effortRedistribution: redistributed, ...created } = await apiFetch<LeaveRequest & LeaveWriteEffects>('/api/resources?entity=leaves', {
                 method: 'POST', body: JSON.stringify(req)
             });
             setLeaveRequests(prev => [...prev, created]);
-        } catch (e) { addToast('Errore durante l\'aggiunta della richiesta di assenza.', 'error'); }
+            if (redistributed) setEffortRedistribution(redistributed);
+        } catch (e) { addToast(getErrorMessage(e) || 'Errore durante l\'aggiunta della richiesta di assenza.', 'error'); }
         finally { actionLoading('addLeaveRequest', false); }
     }, [addToast, actionLoading]);
 
     const updateLeaveRequest = useCallback(async (req: LeaveRequest): Promise<void> => {
         actionLoading(`updateLeaveRequest-${req.id}`, true);
         try {
-            const updated = await apiFetch<LeaveRequest>(
+            const { effortRedistribution: redistributed, ...updated } = await apiFetch<LeaveRequest & LeaveWriteEffects>(
                 `/api/resources?entity=leaves&id=${req.id}`,
                 { method: 'PUT', body: JSON.stringify(req) }
             );
             setLeaveRequests(prev => prev.map(r => r.id === req.id ? updated : r));
-        } catch (e) { addToast('Errore durante l\'aggiornamento della richiesta di assenza.', 'error'); }
+            if (redistributed) setEffortRedistribution(redistributed);
+        } catch (e) { addToast(getErrorMessage(e) || 'Errore durante l\'aggiornamento della richiesta di assenza.', 'error'); }
         finally { actionLoading(`updateLeaveRequest-${req.id}`, false); }
     }, [addToast, actionLoading]);
 
     const deleteLeaveRequest = useCallback(async (id: string): Promise<void> => {
         actionLoading(`deleteLeaveRequest-${id}`, true);
         try {
-            await apiFetch(`/api/resources?entity=leaves&id=${id}`, { method: 'DELETE' });
+            const effects = await apiFetch<LeaveWriteEffects | null>(`/api/resources?entity=leaves&id=${id}`, { method: 'DELETE' });
             setLeaveRequests(prev => prev.filter(r => r.id !== id));
-        } catch (e) { addToast('Errore durante l\'eliminazione della richiesta di assenza.', 'error'); }
+            if (effects?.effortRedistribution) setEffortRedistribution(effects.effortRedistribution);
+        } catch (e) { addToast(getErrorMessage(e) || 'Errore durante l\'eliminazione della richiesta di assenza.', 'error'); }
         finally { actionLoading(`deleteLeaveRequest-${id}`, false); }
     }, [addToast, actionLoading]);
 
@@ -220,6 +227,7 @@ export const HRProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
         addInterview, updateInterview, deleteInterview,
         getBestFitResources,
         initialize, _removeLeaveRequestsByResource,
+        _effortRedistribution: effortRedistribution,
         _setActionLoading: actionLoading
     }), [
         leaveRequests, leaveTypes, resourceRequests, interviews,
@@ -229,6 +237,7 @@ export const HRProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
         addInterview, updateInterview, deleteInterview,
         getBestFitResources,
         initialize, _removeLeaveRequestsByResource,
+        effortRedistribution,
         actionLoading
     ]);
 
@@ -1,13 +1,19 @@
 /**
  * @file LookupContext.tsx
  * @description Contesto per i dati di configurazione/lookup: opzioni di configurazione, calendario aziendale e impostazioni di pianificazione.
- * Gestisce: functions, industries, seniorityLevels, projectStatuses, clientSectors, locations, companyCalendar, planningSettings.
+ * Gestisce: functions, industries, seniorityLevels, projectStatuses, clientSectors, locations, companyCalendar, locationCalendars,
+ * planningSettings, overbookingPolicy, allocationCleanupPolicy, allocationApprovalMode, contractExhaustionAlertWeeks, staffingRules.
  */
 
 import React, { createContext, useState, useContext, useCallback, useMemo, ReactNode } from 'react';
-import { ConfigOption, CalendarEvent } from '../types';
+import { ConfigOption, CalendarEvent, LocationCalendar, OverbookingPolicy, AllocationCleanupPolicy, AllocationApprovalMode, StaffingRule } from '../types';
+import { OVERBOOKING_POLICY_CONFIG_KEY } from '../utils/overbookingUtils';
+import { ALLOCATION_CLEANUP_POLICY_CONFIG_KEY } from '../utils/allocationCleanupUtils';
+import { ALLOCATION_APPROVAL_MODE_CONFIG_KEY } from '../utils/allocationApprovalUtils';
+import { CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY, DEFAULT_CONTRACT_EXHAUSTION_ALERT_WEEKS } from '../utils/contractBurndownUtils';
 import { useToast } from './ToastContext';
 import { apiFetch } from '../services/apiClient';
+import { getErrorMessage } from '../utils/getErrorMessage';
 
 // --- Tipi del contesto ---
 
@@ -19,7 +25,13 @@ export interface LookupInitData {
     clientSectors?: ConfigOption[];
     locations?: ConfigOption[];
     companyCalendar?: CalendarEvent[];
+    locationCalendars?: LocationCalendar[];
     planningSettings?: { monthsBefore: number; monthsAfter: number };
+    overbookingPolicy?: OverbookingPolicy;
+    allocationCleanupPolicy?: AllocationCleanupPolicy;
+    allocationApprovalMode?: AllocationApprovalMode;
+    contractExhaustionAlertWeeks?: number;
+    staffingRules?: StaffingRule[];
 }
 
 export interface LookupContextValue {
@@ -31,15 +43,40 @@ export interface LookupContextValue {
     clientSectors: ConfigOption[];
     locations: ConfigOption[];
     companyCalendar: CalendarEvent[];
+    /** Calendari lavorativi per sede (settimana lavorativa, ore standard, chiusure ricorrenti). */
+    locationCalendars: LocationCalendar[];
     planningSettings: { monthsBefore: number; monthsAfter: number };
+    overbookingPolicy: OverbookingPolicy;
+    /** Salva la policy di overbooking applicata dall'endpoint allocazioni. */
+    updateOverbookingPolicy: (policy: OverbookingPolicy) => Promise<void>;
+    allocationCleanupPolicy: AllocationCleanupPolicy;
+    /** Salva la policy di pulizia delle allocazioni oltre dimissioni / fine progetto. */
+    updateAllocationCleanupPolicy: (policy: AllocationCleanupPolicy) => Promise<void>;
+    allocationApprovalMode: AllocationApprovalMode;
+    /** Salva la modalità di approvazione delle modifiche alle allocazioni. */
+    updateAllocationApprovalMode: (mode: AllocationApprovalMode) => Promise<void>;
+    /** Settimane di preavviso prima dell'esaurimento previsto della capienza di un contratto. */
+    contractExhaustionAlertWeeks: number;
+    updateContractExhaustionAlertWeeks: (weeks: number) => Promise<void>;
+    /** Regole di staffing valutate dall'endpoint allocazioni e assegnazioni (solo le attive). */
+    staffingRules: StaffingRule[];
+    addStaffingRule: (rule: Omit<StaffingRule, 'id' | 'version'>) => Promise<void>;
+    updateStaffingRule: (rule: StaffingRule) => Promise<void>;
+    deleteStaffingRule: (id: string) => Promise<void>;
     // CRUD opzioni di configurazione (polimorfiche per tipo)
     addConfigOption: (type: string, value: string) => Promise<void>;
     updateConfigOption: (type: string, option: ConfigOption) => Promise<void>;
     deleteConfigOption: (type: string, id: string) => Promise<void>;
     // CRUD Calendario Aziendale
     addCalendarEvent: (event: Omit<CalendarEvent, 'id'>) => Promise<void>;
+    /** Inserimento massivo (festività generate); restituisce il numero di eventi inseriti. */
+    addCalendarEvents: (events: Omit<CalendarEvent, 'id' | 'version'>[]) => Promise<number>;
     updateCalendarEvent: (event: CalendarEvent) => Promise<void>;
     deleteCalendarEvent: (id: string) => Promise<void>;
+    // CRUD Calendari di Sede
+    addLocationCalendar: (calendar: Omit<LocationCalendar, 'id' | 'version'>) => Promise<void>;
+    updateLocationCalendar: (calendar: LocationCalendar) => Promise<void>;
+    deleteLocationCalendar: (id: string) => Promise<void>;
     // Funzioni interne per il coordinator
     initialize: (data: LookupInitData, setActionLoadingFn?: (action: string, loading: boolean) => void) => void;
     _setPlanningSettings: (settings: { monthsBefore: number; monthsAfter: number }) => void;
@@ -68,9 +105,15 @@ export const LookupProvider: React.FC<{
     const [clientSectors, setClientSectors] = useState<ConfigOption[]>([]);
     const [locations, setLocations] = useState<ConfigOption[]>([]);
     const [companyCalendar, setCompanyCalendar] = useState<CalendarEvent[]>([]);
+    const [locationCalendars, setLocationCalendars] = useState<LocationCalendar[]>([]);
     const [planningSettings, setPlanningSettings] = useState<{ monthsBefore: number; monthsAfter: number }>(
         initialPlanningSettings || { monthsBefore: 6, monthsAfter: 18 }
     );
+    const [overbookingPolicy, setOverbookingPolicy] = useState<OverbookingPolicy>('WARN');
+    const [allocationCleanupPolicy, setAllocationCleanupPolicy] = useState<AllocationCleanupPolicy>('ASK');
+    const [allocationApprovalMode, setAllocationApprovalMode] = useState<AllocationApprovalMode>('OFF');
+    const [contractExhaustionAlertWeeks, setContractExhaustionAlertWeeks] = useState<number>(DEFAULT_CONTRACT_EXHAUSTION_ALERT_WEEKS);
+    const [staffingRules, setStaffingRules] = useState<StaffingRule[]>([]);
 
     const setterMap = useMemo(() => ({
         functions: setFunctions,
@@ -91,7 +134,13 @@ export const LookupProvider: React.FC<{
         if (data.clientSectors !== undefined) setClientSectors(data.clientSectors);
         if (data.locations !== undefined) setLocations(data.locations);
         if (data.companyCalendar !== undefined) setCompanyCalendar(data.companyCalendar);
+        if (data.locationCalendars !== undefined) setLocationCalendars(data.locationCalendars);
         if (data.planningSettings !== undefined) setPlanningSettings(data.planningSettings);
+        if (data.overbookingPolicy !== undefined) setOverbookingPolicy(data.overbookingPolicy);
+        if (data.allocationCleanupPolicy !== undefined) setAllocationCleanupPolicy(data.allocationCleanupPolicy);
+        if (data.allocationApprovalMode !== undefined) setAllocationApprovalMode(data.allocationApprovalMode);
+        if (data.contractExhaustionAlertWeeks !== undefined) setContractExhaustionAlertWeeks(data.contractExhaustionAlertWeeks);
+        if (data.staffingRules !== undefined) setStaffingRules(data.staffingRules);
         if (setActionLoadingFn) setActionLoading(() => setActionLoadingFn);
     }, []);
 
@@ -99,6 +148,110 @@ export const LookupProvider: React.FC<{
         setPlanningSettings(settings);
     }, []);
 
+    const updateOverbookingPolicy = useCallback(async (policy: OverbookingPolicy): Promise<void> => {
+        actionLoading('updateOverbookingPolicy', true);
+        try {
+            await apiFetch('/api/resources?entity=app-config-batch', {
+                method: 'POST', body: JSON.stringify({ updates: [{ key: OVERBOOKING_POLICY_CONFIG_KEY, value: policy }] })
+            });
+            setOverbookingPolicy(policy);
+            addToast('Policy di overbooking aggiornata.', 'success');
+        } catch (e) {
+            addToast('Errore durante l\'aggiornamento della policy di overbooking.', 'error');
+        } finally {
+            actionLoading('updateOverbookingPolicy', false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateAllocationCleanupPolicy = useCallback(async (policy: AllocationCleanupPolicy): Promise<void> => {
+        actionLoading('updateAllocationCleanupPolicy', true);
+        try {
+            await apiFetch('/api/resources?entity=app-config-batch', {
+                method: 'POST', body: JSON.stringify({ updates: [{ key: ALLOCATION_CLEANUP_POLICY_CONFIG_KEY, value: policy }] })
+            });
+            setAllocationCleanupPolicy(policy);
+            addToast('Policy di pulizia delle allocazioni aggiornata.', 'success');
+        } catch (e) {
+            addToast('Errore durante l\'aggiornamento della policy di pulizia delle allocazioni.', 'error');
+        } finally {
+            actionLoading('updateAllocationCleanupPolicy', false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateAllocationApprovalMode = useCallback(async (mode: AllocationApprovalMode): Promise<void> => {
+        actionLoading('updateAllocationApprovalMode', true);
+        try {
+            await apiFetch('/api/resources?entity=app-config-batch', {
+                method: 'POST', body: JSON.stringify({ updates: [{ key: ALLOCATION_APPROVAL_MODE_CONFIG_KEY, value: mode }] })
+            });
+            setAllocationApprovalMode(mode);
+            addToast('Modalità di approvazione delle allocazioni aggiornata.', 'success');
+        } catch (e) {
+            addToast('Errore durante l\'aggiornamento della modalità di approvazione.', 'error');
+        } finally {
+            actionLoading('updateAllocationApprovalMode', false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateContractExhaustionAlertWeeks = useCallback(async (weeks: number): Promise<void> => {
+        actionLoading('updateContractExhaustionAlertWeeks', true);
+        try {
+            await apiFetch('/api/resources?entity=app-config-batch', {
+                method: 'POST', body: JSON.stringify({ updates: [{ key: CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY, value: String(weeks) }] })
+            });
+            setContractExhaustionAlertWeeks(weeks);
+            addToast('Preavviso di esaurimento dei contratti aggiornato.', 'success');
+        } catch (e) {
+            addToast('Errore durante l\'aggiornamento del preavviso di esaurimento dei contratti.', 'error');
+        } finally {
+            actionLoading('updateContractExhaustionAlertWeeks', false);
+        }
+    }, [addToast, actionLoading]);
+
+    // --- CRUD Regole di Staffing ---
+    const addStaffingRule = useCallback(async (rule: Omit<StaffingRule, 'id' | 'version'>): Promise<void> => {
+        actionLoading('addStaffingRule', true);
+        try {
+            const created = await apiFetch<StaffingRule>('/api/resources?entity=staffing_rules', {
+                method: 'POST', body: JSON.stringify(rule)
+            });
+            setStaffingRules(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+            addToast('Regola di staffing aggiunta.', 'success');
+        } catch (e) {
+            addToast('Errore durante l\'aggiunta della regola di staffing.', 'error');
+        } finally {
+            actionLoading('addStaffingRule', false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateStaffingRule = useCallback(async (rule: StaffingRule): Promise<void> => {
+        actionLoading(`updateStaffingRule-${rule.id}`, true);
+        try {
+            const updated = await apiFetch<StaffingRule>(
+                `/api/resources?entity=staffing_rules&id=${rule.id}`,
+                { method: 'PUT', body: JSON.stringify(rule) }
+            );
+            setStaffingRules(prev => prev.map(r => r.id === rule.id ? updated : r));
+        } catch (e) {
+            addToast('Errore durante l\'aggiornamento della regola di staffing.', 'error');
+        } finally {
+            actionLoading(`updateStaffingRule-${rule.id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
+    const deleteStaffingRule = useCallback(async (id: string): Promise<void> => {
+        actionLoading(`deleteStaffingRule-${id}`, true);
+        try {
+            await apiFetch(`/api/resources?entity=staffing_rules&id=${id}`, { method: 'DELETE' });
+            setStaffingRules(prev => prev.filter(r => r.id !== id));
+            addToast('Regola di staffing eliminata.', 'success');
+        } catch (e) {
+            addToast('Errore durante l\'eliminazione della regola di staffing.', 'error');
+        } finally {
+            actionLoading(`deleteStaffingRule-${id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
     // --- CRUD Opzioni di Configurazione ---
     const addConfigOption = useCallback(async (type: string, value: string): Promise<void> => {
         actionLoading(`addConfig-${type}`, true);
@@ -158,6 +311,24 @@ export const LookupProvider: React.FC<{
         finally { actionLoading('addCalendarEvent', false); }
     }, [addToast, actionLoading]);
 
+    const addCalendarEvents = useCallback(async (events: Omit<CalendarEvent, 'id' | 'version'>[]): Promise<number> => {
+        actionLoading('addCalendarEvents', true);
+        try {
+            const { created } = await apiFetch<{ created: CalendarEvent[]; skipped: number }>(
+                '/api/resources?entity=company_calendar&action=bulk_create',
+                { method: 'POST', body: JSON.stringify({ events }) }
+            );
+            setCompanyCalendar(prev => [...prev, ...created]);
+            addToast(`${created.length} festività aggiunte al calendario.`, 'success');
+            return created.length;
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'inserimento delle festività.', 'error');
+            throw e;
+        } finally {
+            actionLoading('addCalendarEvents', false);
+        }
+    }, [addToast, actionLoading]);
+
     const updateCalendarEvent = useCallback(async (event: CalendarEvent): Promise<void> => {
         actionLoading(`updateCalendarEvent-${event.id}`, true);
         try {
@@ -179,18 +350,75 @@ export const LookupProvider: React.FC<{
         finally { actionLoading(`deleteCalendarEvent-${id}`, false); }
     }, [addToast, actionLoading]);
 
+    // --- CRUD Calendari di Sede ---
+    const addLocationCalendar = useCallback(async (calendar: Omit<LocationCalendar, 'id' | 'version'>): Promise<void> => {
+        actionLoading('addLocationCalendar', true);
+        try {
+            const created = await apiFetch<LocationCalendar>('/api/resources?entity=location_calendars', {
+                method: 'POST', body: JSON.stringify(calendar)
+            });
+            setLocationCalendars(prev => [...prev, created].sort((a, b) => a.location.localeCompare(b.location)));
+            addToast('Calendario di sede salvato.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il salvataggio del calendario di sede.', 'error');
+            throw e;
+        } finally {
+            actionLoading('addLocationCalendar', false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateLocationCalendar = useCallback(async (calendar: LocationCalendar): Promise<void> => {
+        actionLoading(`updateLocationCalendar-${calendar.id}`, true);
+        try {
+            const updated = await apiFetch<LocationCalendar>(
+                `/api/resources?entity=location_calendars&id=${calendar.id}`,
+                { method: 'PUT', body: JSON.stringify(calendar) }
+            );
+            setLocationCalendars(prev => prev.map(c => c.id === calendar.id ? updated : c));
+            addToast('Calendario di sede salvato.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il salvataggio del calendario di sede.', 'error');
+            throw e;
+        } finally {
+            actionLoading(`updateLocationCalendar-${calendar.id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
+    const deleteLocationCalendar = useCallback(async (id: string): Promise<void> => {
+        actionLoading(`deleteLocationCalendar-${id}`, true);
+        try {
+            await apiFetch(`/api/resources?entity=location_calendars&id=${id}`, { method: 'DELETE' });
+            setLocationCalendars(prev => prev.filter(c => c.id !== id));
+            addToast('Calendario di sede eliminato: la sede torna alla settimana standard.', 'success');
+        } catch (e) {
+            addToast('Errore durante l\'eliminazione del calendario di sede.', 'error');
+        } finally {
+            actionLoading(`deleteLocationCalendar-${id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
     const value = useMemo<LookupContextValue>(() => ({
         functions, industries, seniorityLevels, projectStatuses, clientSectors, locations,
-        companyCalendar, planningSettings,
+        companyCalendar, locationCalendars, planningSettings, overbookingPolicy, updateOverbookingPolicy,
+        allocationCleanupPolicy, updateAllocationCleanupPolicy,
+        allocationApprovalMode, updateAllocationApprovalMode,
+        contractExhaustionAlertWeeks, updateContractExhaustionAlertWeeks,
+        staffingRules, addStaffingRule, updateStaffingRule, deleteStaffingRule,
         addConfigOption, updateConfigOption, deleteConfigOption,
-        addCalendarEvent, updateCalendarEvent, deleteCalendarEvent,
+        addCalendarEvent, addCalendarEvents, updateCalendarEvent, deleteCalendarEvent,
+        addLocationCalendar, updateLocationCalendar, deleteLocationCalendar,
         initialize, _setPlanningSettings,
         _setActionLoading: actionLoading
     }), [
         functions, industries, seniorityLevels, projectStatuses, clientSectors, locations,
-        companyCalendar, planningSettings,
+        companyCalendar, locationCalendars, planningSettings, overbookingPolicy, updateOverbookingPolicy,
+        allocationCleanupPolicy, updateAllocationCleanupPolicy,
+        allocationApprovalMode, updateAllocationApprovalMode,
+        contractExhaustionAlertWeeks, updateContractExhaustionAlertWeeks,
+        staffingRules, addStaffingRule, updateStaffingRule, deleteStaffingRule,
         addConfigOption, updateConfigOption, deleteConfigOption,
-        addCalendarEvent, updateCalendarEvent, deleteCalendarEvent,
+        addCalendarEvent, addCalendarEvents, updateCalendarEvent, deleteCalendarEvent,
+        addLocationCalendar, updateLocationCalendar, deleteLocationCalendar,
         initialize, _setPlanningSettings,
         actionLoading
     ]);
@@ -7,11 +7,13 @@ import React, { createContext, useState, useContext, useCallback, useMemo, React
 import { getErrorMessage } from '../utils/getErrorMessage';
 import {
     Project, Client, Contract, ContractProject, ContractManager,
-    Assignment, BillingMilestone, ProjectExpense, WbsTask,
-    RateCard, RateCardEntry
+    Assignment, AllocationPattern, BookingStatus, BillingMilestone, ProjectExpense, WbsTask,
+    RateCard, RateCardEntry, RateCardEntryHistory, RateCardLine, FxRate, AllocationCleanupSummary, StaffingRuleViolation
 } from '../types';
 import { useToast } from './ToastContext';
+import { useResourcesContext } from './ResourcesContext';
 import { apiFetch } from '../services/apiClient';
+import { SellRateSource, resolveSellRate } from '../utils/rateCardUtils';
 
 // --- Tipi del contesto ---
 
@@ -27,6 +29,9 @@ export interface ProjectsInitData {
     wbsTasks?: WbsTask[];
     rateCards?: RateCard[];
     rateCardEntries?: RateCardEntry[];
+    rateCardEntryHistory?: RateCardEntryHistory[];
+    rateCardLines?: RateCardLine[];
+    fxRates?: FxRate[];
 }
 
 export interface ProjectsContextValue {
@@ -42,6 +47,12 @@ export interface ProjectsContextValue {
     wbsTasks: WbsTask[];
     rateCards: RateCard[];
     rateCardEntries: RateCardEntry[];
+    /** Periodi di validità delle tariffe: le modifiche valgono dalla decorrenza, senza riscrivere lo storico. */
+    rateCardEntryHistory: RateCardEntryHistory[];
+    /** Tariffe per ruolo, seniority o default per le risorse senza tariffa specifica. */
+    rateCardLines: RateCardLine[];
+    /** Cambi verso la valuta base per listini, milestone e spese in valuta estera. */
+    fxRates: FxRate[];
     // CRUD Progetti (deleteProject nel coordinator per cascade con SkillsContext)
     addProject: (project: Omit<Project, 'id'>) => Promise<Project | null>;
     updateProject: (project: Project) => Promise<void>;
@@ -53,10 +64,14 @@ export interface ProjectsContextValue {
     addContract: (contract: Omit<Contract, 'id'>, projectIds: string[], managerIds: string[]) => Promise<void>;
     updateContract: (contract: Contract, projectIds: string[], managerIds: string[]) => Promise<void>;
     deleteContract: (id: string) => Promise<void>;
-    recalculateContractBacklog: (id: string) => Promise<void>;
     // Assegnazioni
-    addMultipleAssignments: (newAssignments: { resourceId: string; projectId: string }[]) => Promise<Assignment[]>;
-    deleteAssignment: (id: string) => Promise<void>;
+    addMultipleAssignments: (newAssignments: { resourceId: string; projectId: string; bookingStatus?: BookingStatus }[]) => Promise<Assignment[]>;
+    updateAssignmentBookingStatus: (id: string, bookingStatus: BookingStatus) => Promise<void>;
+    /** Salva (o rimuove, con null) il pattern ricorrente dell'assegnazione; le allocazioni non vengono toccate. */
+    updateAssignmentPattern: (id: string, allocationPattern: AllocationPattern | null) => Promise<boolean>;
+    deleteAssignment: (id: string) => Promise<boolean>;
+    /** Crea un segnaposto di ruolo (assegnazione senza risorsa), eventualmente legato a una richiesta. */
+    addPlaceholderAssignment: (placeholder: { projectId: string; roleId: string; resourceRequestId?: string | null; bookingStatus?: BookingStatus }) => Promise<Assignment | null>;
     // Billing Milestone CRUD
     addBillingMilestone: (milestone: Omit<BillingMilestone, 'id'>) => Promise<void>;
     updateBillingMilestone: (milestone: BillingMilestone) => Promise<void>;
@@ -69,14 +84,24 @@ export interface ProjectsContextValue {
     addRateCard: (rateCard: Omit<RateCard, 'id'>) => Promise<void>;
     updateRateCard: (rateCard: RateCard) => Promise<void>;
     deleteRateCard: (id: string) => Promise<void>;
-    upsertRateCardEntries: (entries: RateCardEntry[]) => Promise<void>;
+    upsertRateCardEntries: (entries: RateCardEntry[], effectiveFrom?: string, lines?: Omit<RateCardLine, 'id' | 'startDate' | 'endDate'>[]) => Promise<void>;
+    // Cambi CRUD
+    addFxRate: (rate: Omit<FxRate, 'id' | 'version'>) => Promise<void>;
+    updateFxRate: (rate: FxRate) => Promise<void>;
+    deleteFxRate: (id: string) => Promise<void>;
     // Utility
-    getSellRate: (rateCardId: string | null | undefined, resourceId: string) => number;
+    /** Tariffa valida alla data (default oggi): risorsa, poi ruolo, seniority e default del listino. */
+    getSellRate: (rateCardId: string | null | undefined, resourceId: string, date?: Date | string) => number;
+    /** Come `getSellRate`, indicando la regola del listino che ha prodotto la tariffa. */
+    getEffectiveSellRate: (rateCardId: string | null | undefined, resourceId: string, date?: Date | string) => { rate: number; source: SellRateSource };
     // Funzioni interne per il coordinator (cascade)
     initialize: (data: ProjectsInitData, setActionLoadingFn?: (action: string, loading: boolean) => void) => void;
     _removeProject: (id: string) => void;
     _removeAssignmentsByResource: (resourceId: string) => void;
     _removeAssignmentsByProject: (projectId: string) => void;
+    _patchAssignment: (id: string, patch: Partial<Assignment>) => void;
+    _removeAssignment: (id: string) => void;
+    _addAssignments: (created: Assignment[]) => void;
     _setActionLoading?: (action: string, loading: boolean) => void;
 }
 
@@ -84,6 +109,7 @@ const ProjectsContext = createContext<ProjectsContextValue | undefined>(undefine
 
 export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const { addToast } = useToast();
+    const { resources, roles } = useResourcesContext();
 
     const [projects, setProjects] = useState<Project[]>([]);
     const [clients, setClients] = useState<Client[]>([]);
@@ -96,6 +122,9 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
     const [wbsTasks, setWbsTasks] = useState<WbsTask[]>([]);
     const [rateCards, setRateCards] = useState<RateCard[]>([]);
     const [rateCardEntries, setRateCardEntries] = useState<RateCardEntry[]>([]);
+    const [rateCardEntryHistory, setRateCardEntryHistory] = useState<RateCardEntryHistory[]>([]);
+    const [rateCardLines, setRateCardLines] = useState<RateCardLine[]>([]);
+    const [fxRates, setFxRates] = useState<FxRate[]>([]);
 
     const [actionLoading, setActionLoading] = useState<(action: string, loading: boolean) => void>(() => () => {});
 
@@ -111,6 +140,9 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
         if (data.wbsTasks !== undefined) setWbsTasks(data.wbsTasks);
         if (data.rateCards !== undefined) setRateCards(data.rateCards);
         if (data.rateCardEntries !== undefined) setRateCardEntries(data.rateCardEntries);
+        if (data.rateCardEntryHistory !== undefined) setRateCardEntryHistory(data.rateCardEntryHistory);
+        if (data.rateCardLines !== undefined) setRateCardLines(data.rateCardLines);
+        if (data.fxRates !== undefined) setFxRates(data.fxRates);
         if (setActionLoadingFn) setActionLoading(() => setActionLoadingFn);
     }, []);
 
@@ -127,6 +159,19 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
         setAssignments(prev => prev.filter(a => a.projectId !== projectId));
     }, []);
 
+    const _patchAssignment = useCallback((id: string, patch: Partial<Assignment>) => {
+        setAssignments(prev => prev.map(a => a.id === id ? { ...a, ...patch } : a));
+    }, []);
+
+    const _removeAssignment = useCallback((id: string) => {
+        setAssignments(prev => prev.filter(a => a.id !== id));
+    }, []);
+
+    const _addAssignments = useCallback((created: Assignment[]) => {
+        if (created.length === 0) return;
+        setAssignments(prev => [...prev, ...created.filter(c => !prev.some(a => a.id === c.id))]);
+    }, []);
+
     // --- CRUD Progetti ---
     const addProject = useCallback(async (project: Omit<Project, 'id'>): Promise<Project | null> => {
         actionLoading('addProject', true);
@@ -148,10 +193,10 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
     const updateProject = useCallback(async (project: Project): Promise<void> => {
         actionLoading(`updateProject-${project.id}`, true);
         try {
-            const updated = await apiFetch<Project>(`/api/resources?entity=projects&id=${project.id}`, {
-                method: 'PUT',
-                body: JSON.stringify(project)
-            });
+            // Il riepilogo di pulizia allocazioni è gestito dal coordinator (diff dei progetti)
+            const { allocationCleanup: _allocationCleanup, ...updated } = await apiFetch<Project & { allocationCleanup?: AllocationCleanupSummary }>(
+                `/api/resources?entity=projects&id=${project.id}`, { method: 'PUT', body: JSON.stringify(project) }
+            );
             setProjects(prev => prev.map(p => p.id === project.id ? updated : p));
             addToast('Progetto aggiornato', 'success');
         } catch (e: unknown) {
@@ -325,43 +370,39 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
         }
     }, [addToast, actionLoading]);
 
-    const recalculateContractBacklog = useCallback(async (id: string): Promise<void> => {
-        const contract = contracts.find(c => c.id === id);
-        if (!contract) return;
-        const linkedProjects = contractProjects.filter(cp => cp.contractId === id).map(cp => cp.projectId);
-        const linkedManagers = contractManagers.filter(cm => cm.contractId === id).map(cm => cm.resourceId);
-        const usedBudget = projects.filter(p => linkedProjects.includes(p.id!)).reduce((sum, p) => sum + Number(p.budget || 0), 0);
-        const newBacklog = Number(contract.capienza) - usedBudget;
-        actionLoading(`recalculateBacklog-${id}`, true);
-        try {
-            await updateContract({ ...contract, backlog: newBacklog }, linkedProjects, linkedManagers);
-        } catch {
-            // toast già mostrato da updateContract; il click non gestisce la promise
-        } finally {
-            actionLoading(`recalculateBacklog-${id}`, false);
-        }
-    }, [contracts, contractProjects, contractManagers, projects, updateContract, actionLoading]);
-
     // --- Assegnazioni ---
     // Restituisce le assegnazioni toccate: sia quelle create sia quelle già esistenti
     // (risposta 'Exists'), così il chiamante può ad es. forzarne la visibilità in griglia.
     const addMultipleAssignments = useCallback(async (
-        newAssignments: { resourceId: string; projectId: string }[]
+        newAssignments: { resourceId: string; projectId: string; bookingStatus?: BookingStatus }[]
     ): Promise<Assignment[]> => {
         try {
+            // Le assegnazioni rifiutate dalle regole di staffing bloccanti (409) non interrompono le altre
+            const blocked: string[] = [];
             const responses = await Promise.all(
                 newAssignments.map(a =>
-                    apiFetch<Assignment | { message: string; assignment?: { id: string } }>('/api/staffing?action=assignment', {
+                    apiFetch<(Assignment & { ruleViolations?: StaffingRuleViolation[] }) | { message: string; assignment?: { id: string } }>('/api/staffing?action=assignment', {
                         method: 'POST',
                         body: JSON.stringify(a)
-                    }).then(res => ({ request: a, res }))
+                    })
+                        .then(res => ({ request: a, res }))
+                        .catch(e => {
+                            if ((e as { status?: number }).status !== 409) throw e;
+                            blocked.push(getErrorMessage(e));
+                            return null;
+                        })
                 )
             );
-            const created = responses
+            const accepted = responses.filter((r): r is NonNullable<typeof r> => r !== null);
+            const createdResponses = accepted
                 .map(r => r.res)
-                .filter((res): res is Assignment => !('message' in res));
+                .filter((res): res is Assignment & { ruleViolations?: StaffingRuleViolation[] } => !('message' in res));
+            const warnings = createdResponses.reduce((sum, res) => sum + (res.ruleViolations?.length ?? 0), 0);
+            const created: Assignment[] = createdResponses.map(({ ruleViolations: _ruleViolations, ...assignment }) => assignment);
             setAssignments(prev => [...prev, ...created]);
-            const existing = responses
+            if (blocked.length > 0) addToast(blocked[0], 'error');
+            if (warnings > 0) addToast(`Assegnazione creata con ${warnings} violazioni delle regole di staffing.`, 'warning');
+            const existing = accepted
                 .filter((r): r is { request: { resourceId: string; projectId: string }; res: { message: string; assignment: { id: string } } } =>
                     'message' in r.res && !!r.res.assignment?.id)
                 .map(r => ({ id: r.res.assignment.id, resourceId: r.request.resourceId, projectId: r.request.projectId }));
@@ -372,18 +413,73 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
         }
     }, [addToast]);
 
-    const deleteAssignment = useCallback(async (id: string): Promise<void> => {
+    const updateAssignmentBookingStatus = useCallback(async (id: string, bookingStatus: BookingStatus): Promise<void> => {
+        actionLoading(`updateAssignmentBookingStatus-${id}`, true);
+        try {
+            const updated = await apiFetch<Assignment>(`/api/staffing?action=assignment&id=${id}`, {
+                method: 'PUT',
+                body: JSON.stringify({ bookingStatus })
+            });
+            setAssignments(prev => prev.map(a => a.id === id ? { ...a, bookingStatus: updated?.bookingStatus ?? bookingStatus } : a));
+            addToast(bookingStatus === 'TENTATIVE' ? 'Assegnazione segnata come provvisoria.' : 'Assegnazione confermata.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'aggiornamento dello stato di prenotazione.', 'error');
+        } finally {
+            actionLoading(`updateAssignmentBookingStatus-${id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateAssignmentPattern = useCallback(async (id: string, allocationPattern: AllocationPattern | null): Promise<boolean> => {
+        actionLoading(`updateAssignmentPattern-${id}`, true);
+        try {
+            await apiFetch<Assignment>(`/api/staffing?action=assignment&id=${id}`, {
+                method: 'PUT',
+                body: JSON.stringify({ allocationPattern })
+            });
+            setAssignments(prev => prev.map(a => a.id === id ? { ...a, allocationPattern } : a));
+            return true;
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il salvataggio della ricorrenza.', 'error');
+            return false;
+        } finally {
+            actionLoading(`updateAssignmentPattern-${id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
+    const deleteAssignment = useCallback(async (id: string): Promise<boolean> => {
         actionLoading(`deleteAssignment-${id}`, true);
         try {
             await apiFetch(`/api/staffing?action=assignment&id=${id}`, { method: 'DELETE' });
             setAssignments(prev => prev.filter(a => a.id !== id));
+            return true;
         } catch (e) {
             addToast('Errore durante l\'eliminazione dell\'assegnazione.', 'error');
+            return false;
         } finally {
             actionLoading(`deleteAssignment-${id}`, false);
         }
     }, [addToast, actionLoading]);
 
+    const addPlaceholderAssignment = useCallback(async (
+        placeholder: { projectId: string; roleId: string; resourceRequestId?: string | null; bookingStatus?: BookingStatus }
+    ): Promise<Assignment | null> => {
+        actionLoading('addPlaceholderAssignment', true);
+        try {
+            const created = await apiFetch<Assignment>('/api/staffing?action=assignment', {
+                method: 'POST',
+                body: JSON.stringify({ ...placeholder, resourceId: null })
+            });
+            setAssignments(prev => [...prev, created]);
+            addToast('Segnaposto di ruolo creato.', 'success');
+            return created;
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante la creazione del segnaposto.', 'error');
+            return null;
+        } finally {
+            actionLoading('addPlaceholderAssignment', false);
+        }
+    }, [addToast, actionLoading]);
+
     // --- CRUD Billing Milestones ---
     const addBillingMilestone = useCallback(async (milestone: Omit<BillingMilestone, 'id'>): Promise<void> => {
         actionLoading('addBillingMilestone', true);
@@ -510,55 +606,114 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
         }
     }, [addToast, actionLoading]);
 
-    const upsertRateCardEntries = useCallback(async (entries: RateCardEntry[]): Promise<void> => {
-        if (entries.length === 0) return;
+    const upsertRateCardEntries = useCallback(async (
+        entries: RateCardEntry[],
+        effectiveFrom?: string,
+        lines: Omit<RateCardLine, 'id' | 'startDate' | 'endDate'>[] = []
+    ): Promise<void> => {
+        if (entries.length === 0 && lines.length === 0) return;
         actionLoading('upsertRateCardEntries', true);
         try {
-            await apiFetch('/api/resources?entity=rate_card_entries', {
-                method: 'POST', body: JSON.stringify({ entries })
+            const { history, lines: savedLines } = await apiFetch<{ success: boolean; history: RateCardEntryHistory[]; lines: RateCardLine[] }>('/api/resources?entity=rate_card_entries', {
+                method: 'POST', body: JSON.stringify({ entries, lines, effectiveFrom })
             });
             const entriesRes = await apiFetch<RateCardEntry[]>('/api/resources?entity=rate_card_entries');
             setRateCardEntries(entriesRes || []);
+            setRateCardEntryHistory(history || []);
+            setRateCardLines(savedLines || []);
         } catch (e) {
-            addToast('Errore durante l\'aggiornamento delle tariffe.', 'error');
+            addToast(getErrorMessage(e) || 'Errore durante l\'aggiornamento delle tariffe.', 'error');
             throw e;
         } finally {
             actionLoading('upsertRateCardEntries', false);
         }
     }, [addToast, actionLoading]);
 
+    // --- CRUD Cambi ---
+    const addFxRate = useCallback(async (rate: Omit<FxRate, 'id' | 'version'>): Promise<void> => {
+        actionLoading('addFxRate', true);
+        try {
+            const created = await apiFetch<FxRate>('/api/resources?entity=fx_rates', {
+                method: 'POST', body: JSON.stringify(rate)
+            });
+            setFxRates(prev => [...prev, { ...created, rate: Number(created.rate) }]);
+            addToast('Cambio salvato.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il salvataggio del cambio.', 'error');
+            throw e;
+        } finally {
+            actionLoading('addFxRate', false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateFxRate = useCallback(async (rate: FxRate): Promise<void> => {
+        actionLoading(`updateFxRate-${rate.id}`, true);
+        try {
+            const updated = await apiFetch<FxRate>(
+                `/api/resources?entity=fx_rates&id=${rate.id}`,
+                { method: 'PUT', body: JSON.stringify(rate) }
+            );
+            setFxRates(prev => prev.map(r => r.id === rate.id ? { ...r, ...updated, rate: Number(updated.rate) } : r));
+            addToast('Cambio aggiornato.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'aggiornamento del cambio.', 'error');
+            throw e;
+        } finally {
+            actionLoading(`updateFxRate-${rate.id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
+    const deleteFxRate = useCallback(async (id: string): Promise<void> => {
+        actionLoading(`deleteFxRate-${id}`, true);
+        try {
+            await apiFetch(`/api/resources?entity=fx_rates&id=${id}`, { method: 'DELETE' });
+            setFxRates(prev => prev.filter(r => r.id !== id));
+        } catch (e) {
+            addToast('Errore durante l\'eliminazione del cambio.', 'error');
+            throw e;
+        } finally {
+            actionLoading(`deleteFxRate-${id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
     // --- Utility ---
-    const getSellRate = useCallback((rateCardId: string | null | undefined, resourceId: string): number => {
-        if (!rateCardId) return 0;
-        const entry = rateCardEntries.find(e => e.rateCardId === rateCardId && e.resourceId === resourceId);
-        return entry ? Number(entry.dailyRate) : 0;
-    }, [rateCardEntries]);
+    const getEffectiveSellRate = useCallback((rateCardId: string | null | undefined, resourceId: string, date: Date | string = new Date()) =>
+        resolveSellRate(rateCardId, resources.find(r => r.id === resourceId) ?? { id: resourceId, roleId: '' }, date, {
+            entries: rateCardEntries, history: rateCardEntryHistory, lines: rateCardLines, roles,
+        }),
+    [resources, roles, rateCardEntries, rateCardEntryHistory, rateCardLines]);
+
+    const getSellRate = useCallback((rateCardId: string | null | undefined, resourceId: string, date: Date | string = new Date()): number =>
+        getEffectiveSellRate(rateCardId, resourceId, date).rate,
+    [getEffectiveSellRate]);
 
     const value = useMemo<ProjectsContextValue>(() => ({
         projects, clients, contracts, contractProjects, contractManagers,
-        assignments, billingMilestones, projectExpenses, wbsTasks, rateCards, rateCardEntries,
+        assignments, billingMilestones, projectExpenses, wbsTasks, rateCards, rateCardEntries, rateCardEntryHistory, rateCardLines, fxRates,
         addProject, updateProject,
         addClient, updateClient, deleteClient,
-        addContract, updateContract, deleteContract, recalculateContractBacklog,
-        addMultipleAssignments, deleteAssignment,
+        addContract, updateContract, deleteContract,
+        addMultipleAssignments, updateAssignmentBookingStatus, updateAssignmentPattern, deleteAssignment, addPlaceholderAssignment,
         addBillingMilestone, updateBillingMilestone, deleteBillingMilestone,
         addProjectExpense, updateProjectExpense, deleteProjectExpense,
         addRateCard, updateRateCard, deleteRateCard, upsertRateCardEntries,
-        getSellRate,
-        initialize, _removeProject, _removeAssignmentsByResource, _removeAssignmentsByProject,
+        addFxRate, updateFxRate, deleteFxRate,
+        getSellRate, getEffectiveSellRate,
+        initialize, _removeProject, _removeAssignmentsByResource, _removeAssignmentsByProject, _patchAssignment, _removeAssignment, _addAssignments,
         _setActionLoading: actionLoading
     }), [
         projects, clients, contracts, contractProjects, contractManagers,
-        assignments, billingMilestones, projectExpenses, wbsTasks, rateCards, rateCardEntries,
+        assignments, billingMilestones, projectExpenses, wbsTasks, rateCards, rateCardEntries, rateCardEntryHistory, rateCardLines, fxRates,
         addProject, updateProject,
         addClient, updateClient, deleteClient,
-        addContract, updateContract, deleteContract, recalculateContractBacklog,
-        addMultipleAssignments, deleteAssignment,
+        addContract, updateContract, deleteContract,
+        addMultipleAssignments, updateAssignmentBookingStatus, updateAssignmentPattern, deleteAssignment, addPlaceholderAssignment,
         addBillingMilestone, updateBillingMilestone, deleteBillingMilestone,
         addProjectExpense, updateProjectExpense, deleteProjectExpense,
         addRateCard, updateRateCard, deleteRateCard, upsertRateCardEntries,
-        getSellRate,
-        initialize, _removeProject, _removeAssignmentsByResource, _removeAssignmentsByProject,
+        addFxRate, updateFxRate, deleteFxRate,
+        getSellRate, getEffectiveSellRate,
+        initialize, _removeProject, _removeAssignmentsByResource, _removeAssignmentsByProject, _patchAssignment, _removeAssignment, _addAssignments,
         actionLoading
     ]);
 
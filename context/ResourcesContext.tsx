@@ -1,13 +1,13 @@
 /**
  * @file ResourcesContext.tsx
  * @description Contesto per la gestione delle risorse umane, dei ruoli e delle valutazioni.
- * Gestisce: resources, roles, roleCostHistory, managerResourceIds, evaluations.
+ * Gestisce: resources, roles, roleCostHistory, managerResourceIds, evaluations, workSchedules.
  */
 
 import React, { createContext, useState, useContext, useCallback, useMemo, ReactNode } from 'react';
 import { getErrorMessage } from '../utils/getErrorMessage';
 import {
-    Resource, Role, RoleCostHistory, ResourceEvaluation
+    Resource, Role, RoleCostHistory, ResourceEvaluation, AllocationCleanupSummary, WorkSchedule
 } from '../types';
 import { useToast } from './ToastContext';
 import { apiFetch } from '../services/apiClient';
@@ -19,6 +19,7 @@ export interface ResourcesInitData {
     roles?: Role[];
     roleCostHistory?: RoleCostHistory[];
     managerResourceIds?: string[];
+    workSchedules?: WorkSchedule[];
 }
 
 export interface ResourcesContextValue {
@@ -28,6 +29,7 @@ export interface ResourcesContextValue {
     roleCostHistory: RoleCostHistory[];
     managerResourceIds: string[];
     evaluations: ResourceEvaluation[];
+    workSchedules: WorkSchedule[];
     // CRUD Risorse (deleteResource è nel coordinator per cascade)
     addResource: (resource: Omit<Resource, 'id'>) => Promise<Resource>;
     updateResource: (resource: Resource) => Promise<void>;
@@ -42,6 +44,10 @@ export interface ResourcesContextValue {
     addEvaluation: (evaluation: Omit<ResourceEvaluation, 'id'>) => Promise<void>;
     updateEvaluation: (evaluation: ResourceEvaluation) => Promise<void>;
     deleteEvaluation: (id: string) => Promise<void>;
+    // Orari di lavoro (part-time)
+    addWorkSchedule: (schedule: Omit<WorkSchedule, 'id'>) => Promise<void>;
+    updateWorkSchedule: (schedule: WorkSchedule) => Promise<void>;
+    deleteWorkSchedule: (id: string) => Promise<void>;
     // Funzioni interne per il coordinator (cascade)
     initialize: (data: ResourcesInitData, setActionLoadingFn?: (action: string, loading: boolean) => void) => void;
     _removeResource: (id: string) => void;
@@ -58,6 +64,7 @@ export const ResourcesProvider: React.FC<{ children: ReactNode }> = ({ children
     const [roleCostHistory, setRoleCostHistory] = useState<RoleCostHistory[]>([]);
     const [managerResourceIds, setManagerResourceIds] = useState<string[]>([]);
     const [evaluations, setEvaluations] = useState<ResourceEvaluation[]>([]);
+    const [workSchedules, setWorkSchedules] = useState<WorkSchedule[]>([]);
 
     const [actionLoading, setActionLoading] = useState<(action: string, loading: boolean) => void>(() => () => {});
 
@@ -66,11 +73,13 @@ export const ResourcesProvider: React.FC<{ children: ReactNode }> = ({ children
         if (data.roles !== undefined) setRoles(data.roles);
         if (data.roleCostHistory !== undefined) setRoleCostHistory(data.roleCostHistory);
         if (data.managerResourceIds !== undefined) setManagerResourceIds(data.managerResourceIds);
+        if (data.workSchedules !== undefined) setWorkSchedules(data.workSchedules);
         if (setActionLoadingFn) setActionLoading(() => setActionLoadingFn);
     }, []);
 
     const _removeResource = useCallback((id: string) => {
         setResources(prev => prev.filter(r => r.id !== id));
+        setWorkSchedules(prev => prev.filter(s => s.resourceId !== id));
     }, []);
 
     // --- CRUD Risorse ---
@@ -95,10 +104,10 @@ export const ResourcesProvider: React.FC<{ children: ReactNode }> = ({ children
     const updateResource = useCallback(async (resource: Resource): Promise<void> => {
         actionLoading(`updateResource-${resource.id}`, true);
         try {
-            const updated = await apiFetch<Resource>(`/api/resources?entity=resources&id=${resource.id}`, {
-                method: 'PUT',
-                body: JSON.stringify(resource)
-            });
+            // Il riepilogo di pulizia allocazioni è gestito dal coordinator (diff delle risorse)
+            const { allocationCleanup: _allocationCleanup, ...updated } = await apiFetch<Resource & { allocationCleanup?: AllocationCleanupSummary }>(
+                `/api/resources?entity=resources&id=${resource.id}`, { method: 'PUT', body: JSON.stringify(resource) }
+            );
             setResources(prev => prev.map(r => r.id === resource.id ? updated : r));
             addToast('Risorsa aggiornata', 'success');
         } catch (e: unknown) {
@@ -237,12 +246,61 @@ export const ResourcesProvider: React.FC<{ children: ReactNode }> = ({ children
         }
     }, [addToast, actionLoading]);
 
+    // --- Orari di lavoro ---
+    const addWorkSchedule = useCallback(async (schedule: Omit<WorkSchedule, 'id'>): Promise<void> => {
+        actionLoading('addWorkSchedule', true);
+        try {
+            const created = await apiFetch<WorkSchedule>('/api/resources?entity=work_schedules', {
+                method: 'POST',
+                body: JSON.stringify(schedule)
+            });
+            setWorkSchedules(prev => [...prev, created]);
+            addToast('Orario di lavoro aggiunto', 'success');
+        } catch (e: unknown) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'aggiunta dell\'orario di lavoro.', 'error');
+            throw e;
+        } finally {
+            actionLoading('addWorkSchedule', false);
+        }
+    }, [addToast, actionLoading]);
+
+    const updateWorkSchedule = useCallback(async (schedule: WorkSchedule): Promise<void> => {
+        actionLoading(`updateWorkSchedule-${schedule.id}`, true);
+        try {
+            const updated = await apiFetch<WorkSchedule>(
+                `/api/resources?entity=work_schedules&id=${schedule.id}`,
+                { method: 'PUT', body: JSON.stringify(schedule) }
+            );
+            setWorkSchedules(prev => prev.map(s => s.id === schedule.id ? updated : s));
+            addToast('Orario di lavoro aggiornato', 'success');
+        } catch (e: unknown) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'aggiornamento dell\'orario di lavoro.', 'error');
+            throw e;
+        } finally {
+            actionLoading(`updateWorkSchedule-${schedule.id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
+    const deleteWorkSchedule = useCallback(async (id: string): Promise<void> => {
+        actionLoading(`deleteWorkSchedule-${id}`, true);
+        try {
+            await apiFetch(`/api/resources?entity=work_schedules&id=${id}`, { method: 'DELETE' });
+            setWorkSchedules(prev => prev.filter(s => s.id !== id));
+        } catch (e: unknown) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'eliminazione dell\'orario di lavoro.', 'error');
+            throw e;
+        } finally {
+            actionLoading(`deleteWorkSchedule-${id}`, false);
+        }
+    }, [addToast, actionLoading]);
+
     const value = useMemo<ResourcesContextValue>(() => ({
         resources,
         roles,
         roleCostHistory,
         managerResourceIds,
         evaluations,
+        workSchedules,
         addResource,
         updateResource,
         addRole,
@@ -253,13 +311,17 @@ export const ResourcesProvider: React.FC<{ children: ReactNode }> = ({ children
         addEvaluation,
         updateEvaluation,
         deleteEvaluation,
+        addWorkSchedule,
+        updateWorkSchedule,
+        deleteWorkSchedule,
         initialize,
         _removeResource,
         _setActionLoading: actionLoading
     }), [
-        resources, roles, roleCostHistory, managerResourceIds, evaluations,
+        resources, roles, roleCostHistory, managerResourceIds, evaluations, workSchedules,
         addResource, updateResource, addRole, updateRole, deleteRole,
         getRoleCost, fetchEvaluations, addEvaluation, updateEvaluation, deleteEvaluation,
+        addWorkSchedule, updateWorkSchedule, deleteWorkSchedule,
         initialize, _removeResource, actionLoading
     ]);
 
@@ -30,8 +30,8 @@ const DEFAULT_QUICK_ACTIONS: QuickAction[] = [
 const DEFAULT_DASHBOARD_LAYOUT: DashboardCategory[] = [
     { id: 'generale', label: 'Generale', cards: ['kpiHeader', 'attentionCards', 'leavesOverview', 'unallocatedFte'] },
     { id: 'staffing', label: 'Staffing', cards: ['averageAllocation', 'underutilizedResources', 'saturationTrend'] },
-    { id: 'progetti', label: 'Progetti', cards: ['ftePerProject', 'budgetAnalysis', 'temporalBudgetAnalysis', 'averageDailyRate'] },
-    { id: 'contratti', label: 'Economico', cards: ['monthlyClientCost', 'effortByFunction', 'effortByIndustry', 'locationAnalysis', 'costForecast'] }
+    { id: 'progetti', label: 'Progetti', cards: ['ftePerProject', 'budgetAnalysis', 'temporalBudgetAnalysis', 'averageDailyRate', 'portfolioEvm'] },
+    { id: 'contratti', label: 'Economico', cards: ['monthlyClientCost', 'effortByFunction', 'effortByIndustry', 'locationAnalysis', 'costForecast', 'contractExhaustion'] }
 ];
 const DEFAULT_ROLE_HOME_PAGES: Record<string, string> = {
     'SIMPLE': '/staffing',
@@ -0,0 +1,16 @@
+/**
+ * @file useAllocationWindow.ts
+ * @description Richiede il caricamento delle allocazioni dell'intervallo visualizzato, arrotondato
+ * ai mesi: le pagine con navigazione temporale lo chiamano con le colonne correnti e le finestre
+ * mancanti vengono scaricate una sola volta (`GET /api/data?scope=allocations`).
+ */
+
+import { useEffect } from 'react';
+import { useAllocationsContext } from '../context/AppContext';
+
+export const useAllocationWindow = (start: string | null | undefined, end: string | null | undefined): void => {
+    const { ensureAllocationWindow } = useAllocationsContext();
+    useEffect(() => {
+        if (start && end && start <= end) void ensureAllocationWindow(start, end);
+    }, [ensureAllocationWindow, start, end]);
+};
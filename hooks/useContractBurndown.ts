@@ -0,0 +1,38 @@
+/**
+ * @file hooks/useContractBurndown.ts
+ * @description Hook per il burn-down della capienza dei contratti. Il calcolo richiede tutte le
+ * allocazioni dei progetti collegati (non solo la finestra caricata dal client), quindi è svolto
+ * dal server (`GET /api/staffing?action=burndown`) e ricaricato quando cambiano i dati da cui dipende.
+ */
+
+import { useEffect, useState } from 'react';
+import { ContractBurndown } from '../types';
+import { useAllocationsContext } from '../context/AppContext';
+import { useProjectsContext } from '../context/ProjectsContext';
+import { useLookupContext } from '../context/LookupContext';
+import { apiFetch } from '../services/apiClient';
+
+/**
+ * Restituisce il burn-down di tutti i contratti visibili, per ID contratto.
+ * Se l'endpoint non è accessibile (permessi o errore) la mappa resta vuota.
+ */
+export const useContractBurndowns = (): Map<string, ContractBurndown> => {
+    const { contracts, contractProjects, projects, billingMilestones, projectExpenses, rateCardEntries } = useProjectsContext();
+    const { contractExhaustionAlertWeeks } = useLookupContext();
+    const { allocations } = useAllocationsContext();
+
+    const [burndowns, setBurndowns] = useState<Map<string, ContractBurndown>>(new Map());
+    useEffect(() => {
+        if (contracts.length === 0) {
+            setBurndowns(new Map());
+            return;
+        }
+        let cancelled = false;
+        apiFetch<ContractBurndown[]>('/api/staffing?action=burndown')
+            .then(list => { if (!cancelled) setBurndowns(new Map(list.map(b => [b.contractId, b]))); })
+            .catch(() => { if (!cancelled) setBurndowns(new Map()); });
+        return () => { cancelled = true; };
+    }, [contracts, contractProjects, projects, billingMilestones, projectExpenses, rateCardEntries, allocations, contractExhaustionAlertWeeks]);
+
+    return burndowns;
+};
@@ -0,0 +1,226 @@
+/**
+ * @file useGridRangeSelection.ts
+ * @description Selezione rettangolare di celle nella griglia di Staffing (vista Giorno)
+ * con le interazioni da foglio di calcolo: trascinamento o Shift+click per selezionare,
+ * Ctrl+C / Ctrl+V in TSV (compatibile con Excel), Canc per svuotare, Ctrl+D per
+ * riempire verso il basso, maniglia di riempimento trascinabile e riempimento con un valore.
+ * Ogni operazione produce un solo batch di aggiornamenti passato a `onApply`.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState, RefObject } from 'react';
+import { AllocationUpdate } from '../types';
+import {
+    GridBounds,
+    GridCell,
+    GridCellResolver,
+    GridRange,
+    buildGridUpdates,
+    extendFillBounds,
+    formatClipboardGrid,
+    getBoundsSize,
+    getPasteBounds,
+    getRangeBounds,
+    parseClipboardGrid,
+    readGridValues,
+} from '../utils/gridSelectionUtils';
+
+interface UseGridRangeSelectionOptions {
+    rowCount: number;
+    colCount: number;
+    /** Selezione attiva solo dove le celle sono modificabili (es. vista Giorno). */
+    enabled: boolean;
+    resolveCell: GridCellResolver;
+    onApply: (updates: AllocationUpdate[]) => unknown;
+    /** Contenitore della griglia: le scorciatoie valgono solo al suo interno. */
+    containerRef: RefObject<HTMLElement | null>;
+}
+
+type DragMode = 'select' | 'fill' | null;
+
+const isEditableOutside = (target: EventTarget | null, container: HTMLElement | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (container?.contains(target)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export const useGridRangeSelection = ({ rowCount, colCount, enabled, resolveCell, onApply, containerRef }: UseGridRangeSelectionOptions) => {
+    const [range, setRange] = useState<GridRange | null>(null);
+    const [fillBounds, setFillBounds] = useState<GridBounds | null>(null);
+    const dragModeRef = useRef<DragMode>(null);
+
+    // Ref ai valori correnti, per mantenere stabili gli handler passati alle celle memoizzate
+    const resolveCellRef = useRef(resolveCell);
+    resolveCellRef.current = resolveCell;
+    const onApplyRef = useRef(onApply);
+    onApplyRef.current = onApply;
+    const rangeRef = useRef(range);
+    rangeRef.current = range;
+    const fillBoundsRef = useRef(fillBounds);
+    fillBoundsRef.current = fillBounds;
+
+    const selectionBounds = useMemo(() => (range ? getRangeBounds(range) : null), [range]);
+    const selectedCount = selectionBounds
+        ? getBoundsSize(selectionBounds).rows * getBoundsSize(selectionBounds).cols
+        : 0;
+
+    const clearSelection = useCallback(() => {
+        setRange(null);
+        setFillBounds(null);
+        dragModeRef.current = null;
+    }, []);
+
+    // La griglia è cambiata (pagina, filtri, vista): le coordinate non sono più valide.
+    useEffect(() => { clearSelection(); }, [rowCount, colCount, enabled, clearSelection]);
+
+    const apply = useCallback((updates: AllocationUpdate[]) => {
+        if (updates.length > 0) onApplyRef.current(updates);
+    }, []);
+
+    const handleCellMouseDown = useCallback((row: number, col: number, e: React.MouseEvent) => {
+        if (!enabled || e.button !== 0) return;
+        const current = rangeRef.current;
+        if (e.shiftKey && current) {
+            e.preventDefault();
+            setRange({ anchor: current.anchor, focus: { row, col } });
+            return;
+        }
+        setRange({ anchor: { row, col }, focus: { row, col } });
+        dragModeRef.current = 'select';
+    }, [enabled]);
+
+    const handleCellMouseEnter = useCallback((row: number, col: number) => {
+        const cell: GridCell = { row, col };
+        if (dragModeRef.current === 'select') {
+            setRange(prev => (prev ? { anchor: prev.anchor, focus: cell } : prev));
+        } else if (dragModeRef.current === 'fill' && rangeRef.current) {
+            setFillBounds(extendFillBounds(getRangeBounds(rangeRef.current), cell));
+        }
+    }, []);
+
+    const handleFillHandleMouseDown = useCallback((e: React.MouseEvent) => {
+        if (!rangeRef.current) return;
+        e.preventDefault();
+        e.stopPropagation();
+        dragModeRef.current = 'fill';
+        setFillBounds(getRangeBounds(rangeRef.current));
+    }, []);
+
+    // Fine del trascinamento (anche fuori dalla griglia): per la maniglia applica il riempimento.
+    useEffect(() => {
+        const handleMouseUp = () => {
+            const mode = dragModeRef.current;
+            dragModeRef.current = null;
+            const current = rangeRef.current;
+            const target = fillBoundsRef.current;
+            if (mode !== 'fill' || !current || !target) return;
+            const source = getRangeBounds(current);
+            const values = readGridValues(source, resolveCellRef.current);
+            apply(buildGridUpdates(target, values, resolveCellRef.current, { row: source.top, col: source.left }));
+            setRange({ anchor: { row: target.top, col: target.left }, focus: { row: target.bottom, col: target.right } });
+            setFillBounds(null);
+        };
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => window.removeEventListener('mouseup', handleMouseUp);
+    }, [apply]);
+
+    /** Riempie l'intera selezione con un valore (0 = svuota). */
+    const fillSelection = useCallback((value: number) => {
+        const current = rangeRef.current;
+        if (!current) return;
+        apply(buildGridUpdates(getRangeBounds(current), [[value]], resolveCellRef.current));
+    }, [apply]);
+
+    const getSelectionText = useCallback((): string | null => {
+        const current = rangeRef.current;
+        if (!current) return null;
+        return formatClipboardGrid(readGridValues(getRangeBounds(current), resolveCellRef.current));
+    }, []);
+
+    /** Copia la selezione negli appunti (pulsante della barra di selezione). */
+    const copySelection = useCallback(async (): Promise<boolean> => {
+        const text = getSelectionText();
+        if (text === null || !navigator.clipboard) return false;
+        try {
+            await navigator.clipboard.writeText(text);
+            return true;
+        } catch {
+            return false;
+        }
+    }, [getSelectionText]);
+
+    // Scorciatoie da tastiera e appunti: gestite solo con una selezione attiva e fuori
+    // dai campi di testo esterni alla griglia. Su una singola cella copia, incolla e
+    // cancellazione restano quelli nativi del campo, salvo incolla di più celle.
+    useEffect(() => {
+        if (!enabled) return;
+        const isMultiCell = () => {
+            const current = rangeRef.current;
+            if (!current) return false;
+            const { rows, cols } = getBoundsSize(getRangeBounds(current));
+            return rows > 1 || cols > 1;
+        };
+
+        const handleCopy = (e: ClipboardEvent) => {
+            if (!isMultiCell() || isEditableOutside(e.target, containerRef.current)) return;
+            const text = getSelectionText();
+            if (text === null || !e.clipboardData) return;
+            e.preventDefault();
+            e.clipboardData.setData('text/plain', text);
+        };
+
+        const handlePaste = (e: ClipboardEvent) => {
+            const current = rangeRef.current;
+            if (!current || !e.clipboardData || isEditableOutside(e.target, containerRef.current)) return;
+            const values = parseClipboardGrid(e.clipboardData.getData('text/plain'));
+            const isSingleValue = values.length === 1 && values[0].length === 1;
+            if (isSingleValue && !isMultiCell()) return;
+            e.preventDefault();
+            const target = getPasteBounds(getRangeBounds(current), values, { rows: rowCount, cols: colCount });
+            apply(buildGridUpdates(target, values, resolveCellRef.current));
+            setRange({ anchor: { row: target.top, col: target.left }, focus: { row: target.bottom, col: target.right } });
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const current = rangeRef.current;
+            if (!current || isEditableOutside(e.target, containerRef.current)) return;
+            if (e.key === 'Escape') {
+                clearSelection();
+                return;
+            }
+            if (!isMultiCell()) return;
+            const bounds = getRangeBounds(current);
+            if (e.key === 'Delete' || e.key === 'Backspace') {
+                e.preventDefault();
+                apply(buildGridUpdates(bounds, [[0]], resolveCellRef.current));
+            } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+                // Riempi in basso: la prima riga della selezione viene ripetuta sulle successive
+                e.preventDefault();
+                const firstRow = readGridValues({ ...bounds, bottom: bounds.top }, resolveCellRef.current);
+                apply(buildGridUpdates({ ...bounds, top: bounds.top + 1 }, firstRow, resolveCellRef.current, { row: bounds.top, col: bounds.left }));
+            }
+        };
+
+        document.addEventListener('copy', handleCopy);
+        document.addEventListener('paste', handlePaste);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('copy', handleCopy);
+            document.removeEventListener('paste', handlePaste);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [enabled, rowCount, colCount, apply, clearSelection, getSelectionText, containerRef]);
+
+    return {
+        selectionBounds,
+        fillBounds,
+        selectedCount,
+        handleCellMouseDown,
+        handleCellMouseEnter,
+        handleFillHandleMouseDown,
+        fillSelection,
+        copySelection,
+        clearSelection,
+    };
+};
+
+export default useGridRangeSelection;
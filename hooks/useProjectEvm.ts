@@ -0,0 +1,82 @@
+/**
+ * @file hooks/useProjectEvm.ts
+ * @description Hook per gli indicatori Earned Value dei progetti. Costa le allocazioni giorno per
+ * giorno (orario di lavoro e festività della sede, costo storico del ruolo) e usa i consuntivi dei
+ * timesheet approvati come Actual Cost dove disponibili. Il calcolo è in `utils/evmUtils`.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { PlanActualReport } from '../types';
+import { useAllocationsContext } from '../context/AppContext';
+import { useProjectsContext } from '../context/ProjectsContext';
+import { useResourcesContext } from '../context/ResourcesContext';
+import { useLookupContext } from '../context/LookupContext';
+import { apiFetch } from '../services/apiClient';
+import { buildHolidaySet, parseISODate, toISODateString } from '../utils/dateUtils';
+import { getAllocatedPersonDays, groupWorkSchedulesByResource } from '../utils/workScheduleUtils';
+import { resolveAssignmentProfile } from '../utils/placeholderUtils';
+import { EvmCostPoint, ProjectEvm, computeProjectEvm } from '../utils/evmUtils';
+
+/**
+ * Restituisce gli indicatori EVM di tutti i progetti con budget o allocazioni, per ID progetto.
+ * Se il consuntivo non è accessibile (permessi o errore), l'Actual Cost usa solo le allocazioni.
+ */
+export const useProjectsEvm = (statusDate: string = toISODateString(new Date())): Map<string, ProjectEvm> => {
+    const { projects, assignments } = useProjectsContext();
+    const { resources, workSchedules, getRoleCost } = useResourcesContext();
+    const { companyCalendar, locationCalendars } = useLookupContext();
+    const { allocations } = useAllocationsContext();
+
+    const actualsFrom = useMemo(() => {
+        const starts = projects.map(p => p.startDate).filter((d): d is string => !!d && d <= statusDate).sort();
+        return starts[0] || `${statusDate.slice(0, 4)}-01-01`;
+    }, [projects, statusDate]);
+
+    const [actuals, setActuals] = useState<PlanActualReport | null>(null);
+    useEffect(() => {
+        let cancelled = false;
+        apiFetch<PlanActualReport>(`/api/staffing?action=timesheet&view=variance&from=${actualsFrom}&to=${statusDate}`)
+            .then(report => { if (!cancelled) setActuals(report); })
+            .catch(() => { if (!cancelled) setActuals(null); });
+        return () => { cancelled = true; };
+    }, [actualsFrom, statusDate]);
+
+    return useMemo(() => {
+        const holidaySet = buildHolidaySet(companyCalendar, locationCalendars);
+        const schedulesByResource = groupWorkSchedulesByResource(workSchedules);
+
+        const plannedByProject = new Map<string, EvmCostPoint[]>();
+        assignments.forEach(assignment => {
+            const resource = resolveAssignmentProfile(assignment, resources);
+            const assignmentAllocations = allocations[assignment.id!];
+            if (!resource || !assignmentAllocations) return;
+            const resourceId = 'id' in resource ? resource.id : undefined;
+            const points = plannedByProject.get(assignment.projectId) || [];
+            for (const dateStr in assignmentAllocations) {
+                const date = parseISODate(dateStr);
+                const personDays = getAllocatedPersonDays(
+                    assignmentAllocations[dateStr], date, holidaySet, resource.location, resourceId ? schedulesByResource.get(resourceId) : undefined
+                );
+                if (personDays > 0) points.push({ date: dateStr, cost: personDays * getRoleCost(resource.roleId, date, resourceId) });
+            }
+            plannedByProject.set(assignment.projectId, points);
+        });
+
+        const actualsByProject = new Map<string, Map<string, number>>();
+        actuals?.rows.forEach(row => {
+            if (!(row.actualHours > 0)) return;
+            const months = actualsByProject.get(row.projectId) || new Map<string, number>();
+            months.set(row.month, (months.get(row.month) || 0) + row.actualCost);
+            actualsByProject.set(row.projectId, months);
+        });
+
+        const result = new Map<string, ProjectEvm>();
+        projects.forEach(project => {
+            const plannedCosts = plannedByProject.get(project.id!) || [];
+            const actualCostsByMonth = actualsByProject.get(project.id!);
+            if (plannedCosts.length === 0 && !actualCostsByMonth && !(Number(project.budget) > 0)) return;
+            result.set(project.id!, computeProjectEvm({ project, plannedCosts, actualCostsByMonth, statusDate }));
+        });
+        return result;
+    }, [projects, assignments, allocations, resources, workSchedules, companyCalendar, locationCalendars, getRoleCost, actuals, statusDate]);
+};
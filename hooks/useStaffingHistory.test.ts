@@ -0,0 +1,125 @@
+/**
+ * @file useStaffingHistory.test.ts
+ * @description Test delle regole pure della cronologia undo/redo della griglia di
+ * Staffing: accodamento, accorpamento delle modifiche di cella, limite dello stack
+ * e riallineamento degli id delle assegnazioni ricreate.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    pushHistoryEntry,
+    moveToFuture,
+    moveToPast,
+    remapAssignmentId,
+    getUpdatesDateRange,
+    EMPTY_STAFFING_HISTORY,
+    STAFFING_HISTORY_LIMIT,
+    CELL_EDIT_MERGE_WINDOW_MS,
+    type StaffingHistoryEntry,
+} from './useStaffingHistory';
+
+const cellEdit = (id: string, date: string, before: number, after: number, timestamp: number, assignmentId = 'a1'): StaffingHistoryEntry => ({
+    id,
+    kind: 'CELL_EDIT',
+    assignmentId,
+    resourceId: 'r1',
+    projectId: 'p1',
+    before: [{ assignmentId, date, percentage: before }],
+    after: [{ assignmentId, date, percentage: after }],
+    startDate: date,
+    endDate: date,
+    timestamp,
+});
+
+describe('pushHistoryEntry', () => {
+    it('accoda la voce e svuota lo stack di redo', () => {
+        const withFuture = { past: [], future: [cellEdit('old', '2024-06-03', 0, 50, 0)] };
+        const next = pushHistoryEntry(withFuture, cellEdit('e1', '2024-06-04', 0, 80, 10_000));
+        expect(next.past.map(e => e.id)).toEqual(['e1']);
+        expect(next.future).toEqual([]);
+    });
+
+    it('ignora le modifiche senza effetto', () => {
+        expect(pushHistoryEntry(EMPTY_STAFFING_HISTORY, cellEdit('e1', '2024-06-03', 50, 50, 0))).toBe(EMPTY_STAFFING_HISTORY);
+    });
+
+    it('accorpa le modifiche ravvicinate della stessa cella mantenendo il valore iniziale', () => {
+        let state = pushHistoryEntry(EMPTY_STAFFING_HISTORY, cellEdit('e1', '2024-06-03', 0, 40, 1_000));
+        state = pushHistoryEntry(state, cellEdit('e2', '2024-06-03', 40, 60, 1_000 + CELL_EDIT_MERGE_WINDOW_MS - 1));
+        expect(state.past).toHaveLength(1);
+        expect(state.past[0].before[0].percentage).toBe(0);
+        expect(state.past[0].after[0].percentage).toBe(60);
+
+        // Oltre la finestra diventa una voce separata
+        state = pushHistoryEntry(state, cellEdit('e3', '2024-06-03', 60, 80, 10_000));
+        expect(state.past).toHaveLength(2);
+    });
+
+    it('rimuove la voce accorpata che torna al valore iniziale', () => {
+        let state = pushHistoryEntry(EMPTY_STAFFING_HISTORY, cellEdit('e1', '2024-06-03', 20, 40, 1_000));
+        state = pushHistoryEntry(state, cellEdit('e2', '2024-06-03', 40, 20, 1_500));
+        expect(state.past).toEqual([]);
+    });
+
+    it('conserva al massimo STAFFING_HISTORY_LIMIT voci', () => {
+        let state = EMPTY_STAFFING_HISTORY;
+        for (let i = 0; i < STAFFING_HISTORY_LIMIT + 5; i++) {
+            state = pushHistoryEntry(state, cellEdit(`e${i}`, '2024-06-03', i, i + 1, i * 10_000));
+        }
+        expect(state.past).toHaveLength(STAFFING_HISTORY_LIMIT);
+        expect(state.past[0].id).toBe('e5');
+    });
+});
+
+describe('moveToFuture / moveToPast', () => {
+    it('sposta le voci tra i due stack nell\'ordine corretto', () => {
+        const state = { past: [cellEdit('e1', '2024-06-03', 0, 10, 0), cellEdit('e2', '2024-06-04', 0, 20, 10_000)], future: [] };
+        const undone = moveToFuture(moveToFuture(state));
+        expect(undone.past).toEqual([]);
+        expect(undone.future.map(e => e.id)).toEqual(['e1', 'e2']);
+
+        const redone = moveToPast(undone);
+        expect(redone.past.map(e => e.id)).toEqual(['e1']);
+        expect(redone.future.map(e => e.id)).toEqual(['e2']);
+        expect(moveToPast(EMPTY_STAFFING_HISTORY)).toBe(EMPTY_STAFFING_HISTORY);
+    });
+});
+
+describe('remapAssignmentId', () => {
+    it('riallinea id e celle delle voci dell\'assegnazione ricreata in entrambi gli stack', () => {
+        const state = {
+            past: [cellEdit('e1', '2024-06-03', 0, 10, 0), cellEdit('e2', '2024-06-03', 0, 10, 0, 'other')],
+            future: [cellEdit('e3', '2024-06-04', 10, 0, 0)],
+        };
+        const next = remapAssignmentId(state, 'a1', 'a1-new');
+        expect(next.past[0].assignmentId).toBe('a1-new');
+        expect(next.past[0].before[0].assignmentId).toBe('a1-new');
+        expect(next.past[1].assignmentId).toBe('other');
+        expect(next.future[0].after[0].assignmentId).toBe('a1-new');
+    });
+
+    it('riallinea anche le celle delle modifiche di intervallo su più assegnazioni', () => {
+        const range: StaffingHistoryEntry = {
+            ...cellEdit('e1', '2024-06-03', 0, 10, 0, 'other'),
+            kind: 'RANGE_EDIT',
+            after: [
+                { assignmentId: 'other', date: '2024-06-03', percentage: 10 },
+                { assignmentId: 'a1', date: '2024-06-03', percentage: 10 },
+            ],
+        };
+        const next = remapAssignmentId({ past: [range], future: [] }, 'a1', 'a1-new');
+        expect(next.past[0].assignmentId).toBe('other');
+        expect(next.past[0].after.map(u => u.assignmentId)).toEqual(['other', 'a1-new']);
+    });
+});
+
+describe('getUpdatesDateRange', () => {
+    it('restituisce la prima e l\'ultima data coinvolte', () => {
+        expect(getUpdatesDateRange([
+            { assignmentId: 'a1', date: '2024-06-05', percentage: 10 },
+            { assignmentId: 'a1', date: '2024-06-03', percentage: 10 },
+            { assignmentId: 'a1', date: '2024-06-07', percentage: 10 },
+        ])).toEqual({ startDate: '2024-06-03', endDate: '2024-06-07' });
+        expect(getUpdatesDateRange([])).toEqual({ startDate: '', endDate: '' });
+    });
+});
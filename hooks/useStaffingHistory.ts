@@ -0,0 +1,270 @@
+/**
+ * @file useStaffingHistory.ts
+ * @description Cronologia undo/redo di sessione della griglia di Staffing.
+ * Registra modifiche di cella, modifiche di intervalli di celle (riempimento,
+ * incolla), assegnazioni massive, applicazioni di ricorrenze ed eliminazioni di assegnazione
+ * conservando i valori "prima" e "dopo" delle celle toccate; annulla e ripristina
+ * rigiocandoli tramite `applyAllocationUpdates`. Lo stack vive in sessionStorage:
+ * sopravvive alla navigazione tra pagine ma non alla chiusura della scheda.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAllocationsContext } from '../context/AppContext';
+import { useProjectsContext } from '../context/ProjectsContext';
+import { useToast } from '../context/ToastContext';
+import { Assignment, AllocationUpdate, BookingStatus } from '../types';
+
+export type StaffingHistoryKind = 'CELL_EDIT' | 'RANGE_EDIT' | 'BULK_ASSIGNMENT' | 'PATTERN_APPLY' | 'ASSIGNMENT_DELETE';
+
+export interface StaffingHistoryEntry {
+    id: string;
+    kind: StaffingHistoryKind;
+    /**
+     * Id corrente dell'assegnazione (riallineato se l'assegnazione viene ricreata da un undo).
+     * Per le modifiche di intervallo è la prima assegnazione coinvolta: le altre sono nelle celle.
+     */
+    assignmentId: string;
+    resourceId: string;
+    projectId: string;
+    bookingStatus?: BookingStatus;
+    /** Valori delle celle prima della modifica (ripristinati dall'undo). */
+    before: AllocationUpdate[];
+    /** Valori delle celle dopo la modifica (riapplicati dal redo). Vuoto per le eliminazioni. */
+    after: AllocationUpdate[];
+    startDate: string;
+    endDate: string;
+    timestamp: number;
+}
+
+export interface StaffingHistoryState {
+    past: StaffingHistoryEntry[];
+    future: StaffingHistoryEntry[];
+}
+
+/** Numero massimo di operazioni annullabili conservate. */
+export const STAFFING_HISTORY_LIMIT = 50;
+
+/** Finestra entro cui modifiche successive della stessa cella confluiscono in un'unica voce. */
+export const CELL_EDIT_MERGE_WINDOW_MS = 1500;
+
+export const STAFFING_HISTORY_LABELS: Record<StaffingHistoryKind, string> = {
+    CELL_EDIT: 'Modifica cella',
+    RANGE_EDIT: 'Modifica intervallo',
+    BULK_ASSIGNMENT: 'Assegnazione massiva',
+    PATTERN_APPLY: 'Applicazione ricorrenza',
+    ASSIGNMENT_DELETE: 'Eliminazione assegnazione',
+};
+
+const STORAGE_KEY = 'staffing_history';
+
+export const EMPTY_STAFFING_HISTORY: StaffingHistoryState = { past: [], future: [] };
+
+/** Intervallo di date (min/max) coperto da un insieme di aggiornamenti. */
+export const getUpdatesDateRange = (updates: AllocationUpdate[]): { startDate: string; endDate: string } => {
+    if (updates.length === 0) return { startDate: '', endDate: '' };
+    let startDate = updates[0].date;
+    let endDate = updates[0].date;
+    for (const u of updates) {
+        if (u.date < startDate) startDate = u.date;
+        if (u.date > endDate) endDate = u.date;
+    }
+    return { startDate, endDate };
+};
+
+const isSameSingleCell = (a: StaffingHistoryEntry, b: StaffingHistoryEntry): boolean =>
+    a.kind === 'CELL_EDIT' && b.kind === 'CELL_EDIT'
+    && a.assignmentId === b.assignmentId
+    && a.after.length === 1 && b.after.length === 1
+    && a.after[0].date === b.after[0].date;
+
+/**
+ * Aggiunge una voce alla cronologia, svuotando lo stack di redo.
+ * - le modifiche senza effetto (prima = dopo) vengono ignorate;
+ * - modifiche ravvicinate della stessa cella (es. slider, digitazione) confluiscono
+ *   nella voce precedente, che mantiene il proprio valore "prima";
+ * - oltre `STAFFING_HISTORY_LIMIT` le voci più vecchie vengono scartate.
+ */
+export const pushHistoryEntry = (state: StaffingHistoryState, entry: StaffingHistoryEntry): StaffingHistoryState => {
+    const changed = entry.kind === 'ASSIGNMENT_DELETE'
+        || entry.after.some((u, i) => u.percentage !== entry.before[i]?.percentage);
+    if (!changed) return state;
+
+    const last = state.past[state.past.length - 1];
+    if (last && isSameSingleCell(last, entry) && entry.timestamp - last.timestamp <= CELL_EDIT_MERGE_WINDOW_MS) {
+        const merged: StaffingHistoryEntry = { ...last, after: entry.after, timestamp: entry.timestamp };
+        const isNoop = merged.after[0].percentage === merged.before[0].percentage;
+        return { past: isNoop ? state.past.slice(0, -1) : [...state.past.slice(0, -1), merged], future: [] };
+    }
+
+    return { past: [...state.past, entry].slice(-STAFFING_HISTORY_LIMIT), future: [] };
+};
+
+/** Sposta l'ultima voce eseguita nello stack di redo. */
+export const moveToFuture = (state: StaffingHistoryState): StaffingHistoryState => {
+    const last = state.past[state.past.length - 1];
+    if (!last) return state;
+    return { past: state.past.slice(0, -1), future: [last, ...state.future] };
+};
+
+/** Riporta la prima voce annullata nello stack delle operazioni eseguite. */
+export const moveToPast = (state: StaffingHistoryState): StaffingHistoryState => {
+    const [next, ...rest] = state.future;
+    if (!next) return state;
+    return { past: [...state.past, next], future: rest };
+};
+
+/**
+ * Riallinea tutte le voci che fanno riferimento a un'assegnazione ricreata
+ * (undo di un'eliminazione): il server assegna un nuovo id.
+ */
+export const remapAssignmentId = (state: StaffingHistoryState, oldId: string, newId: string): StaffingHistoryState => {
+    const remapUpdates = (updates: AllocationUpdate[]) =>
+        updates.map(u => (u.assignmentId === oldId ? { ...u, assignmentId: newId } : u));
+    const remap = (entry: StaffingHistoryEntry): StaffingHistoryEntry => ({
+        ...entry,
+        assignmentId: entry.assignmentId === oldId ? newId : entry.assignmentId,
+        before: remapUpdates(entry.before),
+        after: remapUpdates(entry.after),
+    });
+    return { past: state.past.map(remap), future: state.future.map(remap) };
+};
+
+const loadStoredHistory = (): StaffingHistoryState => {
+    try {
+        const raw = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(STORAGE_KEY) : null;
+        if (!raw) return EMPTY_STAFFING_HISTORY;
+        const parsed = JSON.parse(raw) as Partial<StaffingHistoryState>;
+        return { past: parsed.past ?? [], future: parsed.future ?? [] };
+    } catch {
+        return EMPTY_STAFFING_HISTORY;
+    }
+};
+
+const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useStaffingHistory = () => {
+    const { allocations, applyAllocationUpdates } = useAllocationsContext();
+    const { assignments, addMultipleAssignments, deleteAssignment } = useProjectsContext();
+    const { addToast } = useToast();
+
+    const [history, setHistory] = useState<StaffingHistoryState>(loadStoredHistory);
+    const [isReplaying, setIsReplaying] = useState(false);
+
+    // Ref per leggere i valori correnti nei callback senza ricrearli a ogni modifica
+    // (le celle della griglia sono memoizzate).
+    const allocationsRef = useRef(allocations);
+    allocationsRef.current = allocations;
+    const assignmentsRef = useRef(assignments);
+    assignmentsRef.current = assignments;
+    const historyRef = useRef(history);
+    historyRef.current = history;
+    const replayingRef = useRef(false);
+
+    useEffect(() => {
+        try {
+            sessionStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+        } catch {
+            // Storage pieno o non disponibile: la cronologia resta solo in memoria.
+        }
+    }, [history]);
+
+    const record = useCallback((
+        kind: StaffingHistoryKind, assignment: Assignment, before: AllocationUpdate[], after: AllocationUpdate[]
+    ) => {
+        const range = getUpdatesDateRange(after.length ? after : before);
+        setHistory(prev => pushHistoryEntry(prev, {
+            id: createEntryId(),
+            kind,
+            assignmentId: assignment.id!,
+            resourceId: assignment.resourceId,
+            projectId: assignment.projectId,
+            bookingStatus: assignment.bookingStatus,
+            before,
+            after,
+            ...range,
+            timestamp: Date.now(),
+        }));
+    }, []);
+
+    /** Scrive un insieme di celle e, se il server le accetta, registra l'operazione. */
+    const commitAllocations = useCallback(async (
+        kind: Exclude<StaffingHistoryKind, 'ASSIGNMENT_DELETE'>, updates: AllocationUpdate[]
+    ): Promise<boolean> => {
+        if (updates.length === 0) return false;
+        const assignment = assignmentsRef.current.find(a => a.id === updates[0].assignmentId);
+        const before = updates.map(u => ({ ...u, percentage: allocationsRef.current[u.assignmentId]?.[u.date] ?? 0 }));
+        const applied = await applyAllocationUpdates(updates);
+        if (applied && assignment) record(kind, assignment, before, updates);
+        return applied;
+    }, [applyAllocationUpdates, record]);
+
+    const commitAllocation = useCallback(async (assignmentId: string, date: string, percentage: number): Promise<void> => {
+        await commitAllocations('CELL_EDIT', [{ assignmentId, date, percentage }]);
+    }, [commitAllocations]);
+
+    /** Elimina un'assegnazione conservandone le allocazioni per poterla ripristinare. */
+    const deleteAssignmentWithHistory = useCallback(async (assignment: Assignment): Promise<boolean> => {
+        const before = Object.entries(allocationsRef.current[assignment.id!] || {})
+            .map(([date, percentage]) => ({ assignmentId: assignment.id!, date, percentage }));
+        const deleted = await deleteAssignment(assignment.id!);
+        if (deleted) record('ASSIGNMENT_DELETE', assignment, before, []);
+        return deleted;
+    }, [deleteAssignment, record]);
+
+    const replay = useCallback(async (direction: 'undo' | 'redo') => {
+        const current = historyRef.current;
+        const entry = direction === 'undo' ? current.past[current.past.length - 1] : current.future[0];
+        if (!entry || replayingRef.current) return;
+
+        replayingRef.current = true;
+        setIsReplaying(true);
+        try {
+            let ok: boolean;
+            if (entry.kind === 'ASSIGNMENT_DELETE' && direction === 'undo') {
+                const touched = await addMultipleAssignments([{
+                    resourceId: entry.resourceId, projectId: entry.projectId, bookingStatus: entry.bookingStatus,
+                }]);
+                const recreated = touched.find(a => a.resourceId === entry.resourceId && a.projectId === entry.projectId);
+                ok = !!recreated?.id;
+                if (recreated?.id) {
+                    const newId = recreated.id;
+                    const before = entry.before.map(u => ({ ...u, assignmentId: newId }));
+                    if (before.length) ok = await applyAllocationUpdates(before);
+                    setHistory(prev => remapAssignmentId(prev, entry.assignmentId, newId));
+                }
+            } else if (entry.kind === 'ASSIGNMENT_DELETE') {
+                ok = await deleteAssignment(entry.assignmentId);
+            } else {
+                ok = await applyAllocationUpdates(direction === 'undo' ? entry.before : entry.after);
+            }
+
+            if (ok) {
+                setHistory(prev => (direction === 'undo' ? moveToFuture(prev) : moveToPast(prev)));
+                addToast(`${direction === 'undo' ? 'Annullata' : 'Ripristinata'}: ${STAFFING_HISTORY_LABELS[entry.kind].toLowerCase()}.`, 'success');
+            }
+        } finally {
+            replayingRef.current = false;
+            setIsReplaying(false);
+        }
+    }, [addMultipleAssignments, applyAllocationUpdates, deleteAssignment, addToast]);
+
+    const undo = useCallback(() => replay('undo'), [replay]);
+    const redo = useCallback(() => replay('redo'), [replay]);
+    const clearHistory = useCallback(() => setHistory(EMPTY_STAFFING_HISTORY), []);
+
+    return {
+        past: history.past,
+        future: history.future,
+        canUndo: history.past.length > 0 && !isReplaying,
+        canRedo: history.future.length > 0 && !isReplaying,
+        isReplaying,
+        commitAllocation,
+        commitAllocations,
+        deleteAssignmentWithHistory,
+        undo,
+        redo,
+        clearHistory,
+    };
+};
+
+export default useStaffingHistory;
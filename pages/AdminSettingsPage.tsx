@@ -9,7 +9,8 @@ import { useLookupContext } from '../context/LookupContext';
 import { useUIConfigContext } from '../context/UIConfigContext';
 import { useRoutesManifest } from '../context/RoutesContext';
 import { DASHBOARD_CARDS_CONFIG } from '../config/dashboardLayout';
-import { DashboardCategory, SidebarSectionColors, SidebarItem, QuickAction, Resource } from '../types';
+import { DashboardCategory, SidebarSectionColors, SidebarItem, QuickAction, Resource, OverbookingPolicy, AllocationCleanupPolicy, AllocationApprovalMode, StaffingRule, StaffingRuleSeverity, StaffingRuleType } from '../types';
+import { STAFFING_RULE_SEVERITY_LABELS, STAFFING_RULE_TYPE_INFO } from '../utils/staffingRulesUtils';
 import { v4 as uuidv4 } from 'uuid';
 import SearchableSelect from '../components/SearchableSelect';
 import { DataTable, ColumnDef } from '../components/DataTable';
@@ -80,6 +81,270 @@ const DataLoadSection: React.FC = () => {
     );
 };
 
+const OVERBOOKING_POLICY_OPTIONS: { value: OverbookingPolicy; label: string; icon: string; description: string }[] = [
+    { value: 'WARN', label: 'Avvisa', icon: 'warning', description: 'Le allocazioni vengono salvate; le giornate oltre capacità sono evidenziate nella griglia di Staffing.' },
+    { value: 'BLOCK', label: 'Blocca', icon: 'block', description: 'L\'intero aggiornamento viene rifiutato se porta una risorsa oltre la capacità giornaliera.' },
+];
+
+const OverbookingPolicySection: React.FC = () => {
+    const { overbookingPolicy, updateOverbookingPolicy } = useLookupContext();
+    const { isActionLoading } = useAppState();
+    const isSaving = isActionLoading('updateOverbookingPolicy');
+
+    return (
+        <div className="bg-surface rounded-2xl shadow-sm p-8 border border-outline-variant">
+            <div className="mb-6">
+                <h2 className="text-xl font-bold text-on-surface">Controllo Sovrallocazione</h2>
+                <p className="text-sm text-on-surface-variant">Comportamento del salvataggio allocazioni quando il totale giornaliero supera la capacità della risorsa (max %, assenze approvate, festività della sede).</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {OVERBOOKING_POLICY_OPTIONS.map(opt => (
+                    <button
+                        key={opt.value}
+                        type="button"
+                        onClick={() => opt.value !== overbookingPolicy && updateOverbookingPolicy(opt.value)}
+                        disabled={isSaving}
+                        aria-pressed={overbookingPolicy === opt.value}
+                        className={`text-left p-6 rounded-2xl border transition-colors ${overbookingPolicy === opt.value ? 'bg-primary-container text-on-primary-container border-primary' : 'bg-surface-container-low border-outline-variant hover:bg-surface-container'}`}
+                    >
+                        <span className="flex items-center gap-2 font-bold">
+                            {isSaving && overbookingPolicy !== opt.value ? <SpinnerIcon className="w-4 h-4" /> : <span className="material-symbols-outlined text-base">{opt.icon}</span>}
+                            {opt.label}
+                        </span>
+                        <p className="mt-2 text-xs leading-relaxed opacity-80">{opt.description}</p>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const ALLOCATION_CLEANUP_POLICY_OPTIONS: { value: AllocationCleanupPolicy; label: string; icon: string; description: string }[] = [
+    { value: 'ASK', label: 'Chiedi conferma', icon: 'help', description: 'Al salvataggio viene mostrato il riepilogo delle allocazioni oltre il limite; la rimozione avviene solo dopo la conferma.' },
+    { value: 'AUTO', label: 'Rimuovi automaticamente', icon: 'auto_delete', description: 'Le allocazioni oltre il limite vengono rimosse contestualmente al salvataggio e i PM dei progetti coinvolti vengono avvisati.' },
+];
+
+const AllocationCleanupPolicySection: React.FC = () => {
+    const { allocationCleanupPolicy, updateAllocationCleanupPolicy } = useLookupContext();
+    const { isActionLoading } = useAppState();
+    const isSaving = isActionLoading('updateAllocationCleanupPolicy');
+
+    return (
+        <div className="bg-surface rounded-2xl shadow-sm p-8 border border-outline-variant">
+            <div className="mb-6">
+                <h2 className="text-xl font-bold text-on-surface">Pulizia Allocazioni</h2>
+                <p className="text-sm text-on-surface-variant">Gestione delle allocazioni successive all'ultimo giorno di una risorsa (dimissioni) o alla data di fine anticipata di un progetto.</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {ALLOCATION_CLEANUP_POLICY_OPTIONS.map(opt => (
+                    <button
+                        key={opt.value}
+                        type="button"
+                        onClick={() => opt.value !== allocationCleanupPolicy && updateAllocationCleanupPolicy(opt.value)}
+                        disabled={isSaving}
+                        aria-pressed={allocationCleanupPolicy === opt.value}
+                        className={`text-left p-6 rounded-2xl border transition-colors ${allocationCleanupPolicy === opt.value ? 'bg-primary-container text-on-primary-container border-primary' : 'bg-surface-container-low border-outline-variant hover:bg-surface-container'}`}
+                    >
+                        <span className="flex items-center gap-2 font-bold">
+                            {isSaving && allocationCleanupPolicy !== opt.value ? <SpinnerIcon className="w-4 h-4" /> : <span className="material-symbols-outlined text-base">{opt.icon}</span>}
+                            {opt.label}
+                        </span>
+                        <p className="mt-2 text-xs leading-relaxed opacity-80">{opt.description}</p>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const ALLOCATION_APPROVAL_MODE_OPTIONS: { value: AllocationApprovalMode; label: string; icon: string; description: string }[] = [
+    { value: 'OFF', label: 'Scrittura diretta', icon: 'edit_calendar', description: 'Le modifiche alle allocazioni vengono salvate subito, indipendentemente dalla linea manageriale di chi le effettua.' },
+    { value: 'REQUIRED', label: 'Approvazione del manager', icon: 'approval', description: 'Le modifiche su risorse fuori dalla propria linea manageriale diventano proposte: il manager della risorsa le accetta o rifiuta dalle Notifiche. Richiede la protezione login attiva.' },
+];
+
+const AllocationApprovalModeSection: React.FC = () => {
+    const { allocationApprovalMode, updateAllocationApprovalMode } = useLookupContext();
+    const { isActionLoading } = useAppState();
+    const isSaving = isActionLoading('updateAllocationApprovalMode');
+
+    return (
+        <div className="bg-surface rounded-2xl shadow-sm p-8 border border-outline-variant">
+            <div className="mb-6">
+                <h2 className="text-xl font-bold text-on-surface">Approvazione Allocazioni</h2>
+                <p className="text-sm text-on-surface-variant">Workflow tra project manager e manager delle risorse, basato sui manager assegnati agli utenti.</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {ALLOCATION_APPROVAL_MODE_OPTIONS.map(opt => (
+                    <button
+                        key={opt.value}
+                        type="button"
+                        onClick={() => opt.value !== allocationApprovalMode && updateAllocationApprovalMode(opt.value)}
+                        disabled={isSaving}
+                        aria-pressed={allocationApprovalMode === opt.value}
+                        className={`text-left p-6 rounded-2xl border transition-colors ${allocationApprovalMode === opt.value ? 'bg-primary-container text-on-primary-container border-primary' : 'bg-surface-container-low border-outline-variant hover:bg-surface-container'}`}
+                    >
+                        <span className="flex items-center gap-2 font-bold">
+                            {isSaving && allocationApprovalMode !== opt.value ? <SpinnerIcon className="w-4 h-4" /> : <span className="material-symbols-outlined text-base">{opt.icon}</span>}
+                            {opt.label}
+                        </span>
+                        <p className="mt-2 text-xs leading-relaxed opacity-80">{opt.description}</p>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const ContractExhaustionAlertSection: React.FC = () => {
+    const { contractExhaustionAlertWeeks, updateContractExhaustionAlertWeeks } = useLookupContext();
+    const { isActionLoading } = useAppState();
+    const [weeks, setWeeks] = useState(contractExhaustionAlertWeeks);
+    const isSaving = isActionLoading('updateContractExhaustionAlertWeeks');
+    const isValid = Number.isInteger(weeks) && weeks >= 1 && weeks <= 52;
+
+    useEffect(() => { setWeeks(contractExhaustionAlertWeeks); }, [contractExhaustionAlertWeeks]);
+
+    return (
+        <div className="bg-surface rounded-2xl shadow-sm p-8 border border-outline-variant">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+                <div>
+                    <h2 className="text-xl font-bold text-on-surface">Esaurimento Contratti</h2>
+                    <p className="text-sm text-on-surface-variant">Preavviso con cui un contratto viene segnalato in esaurimento, in base alla data prevista dal burn-down della capienza.</p>
+                </div>
+                {weeks !== contractExhaustionAlertWeeks && (
+                    <button
+                        onClick={() => updateContractExhaustionAlertWeeks(weeks)}
+                        disabled={isSaving || !isValid}
+                        className="w-full sm:w-auto px-6 py-2 bg-primary text-on-primary rounded-full text-sm font-bold flex items-center justify-center gap-2 shadow-lg transition-transform active:scale-95 disabled:opacity-50"
+                    >
+                        {isSaving ? <SpinnerIcon className="w-4 h-4" /> : <><span className="material-symbols-outlined text-sm">save</span> Salva</>}
+                    </button>
+                )}
+            </div>
+            <div className="bg-surface-container-low p-6 rounded-2xl border border-outline-variant md:w-1/2">
+                <label className="block text-xs font-bold text-primary uppercase tracking-wide mb-3">Preavviso (Settimane)</label>
+                <input
+                    type="number" min="1" max="52"
+                    value={weeks}
+                    onChange={(e) => setWeeks(parseInt(e.target.value, 10) || 0)}
+                    className="form-input text-lg font-bold"
+                />
+                <p className="mt-3 text-[10px] text-on-surface-variant leading-relaxed">Da 1 a 52 settimane. Si applica al badge della pagina Contratti e alla card Esaurimento Contratti della dashboard.</p>
+            </div>
+        </div>
+    );
+};
+
+const StaffingRuleRow: React.FC<{ rule: StaffingRule }> = ({ rule }) => {
+    const { updateStaffingRule, deleteStaffingRule } = useLookupContext();
+    const { isActionLoading } = useAppState();
+    const info = STAFFING_RULE_TYPE_INFO[rule.ruleType];
+    const [threshold, setThreshold] = useState(rule.threshold === null ? '' : String(rule.threshold));
+    const isSaving = isActionLoading(`updateStaffingRule-${rule.id}`) || isActionLoading(`deleteStaffingRule-${rule.id}`);
+
+    useEffect(() => setThreshold(rule.threshold === null ? '' : String(rule.threshold)), [rule.threshold]);
+
+    const saveThreshold = () => {
+        const value = Number(threshold);
+        if (threshold === '' || isNaN(value) || value < 0 || value === rule.threshold) {
+            setThreshold(rule.threshold === null ? '' : String(rule.threshold));
+            return;
+        }
+        updateStaffingRule({ ...rule, threshold: value });
+    };
+
+    return (
+        <div className={`flex flex-col md:flex-row md:items-center gap-4 p-4 rounded-2xl border ${rule.isActive ? 'bg-surface-container-low border-primary' : 'bg-surface-container-lowest border-outline-variant'}`}>
+            <label className="flex items-center gap-3 flex-grow cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={rule.isActive}
+                    disabled={isSaving}
+                    onChange={e => updateStaffingRule({ ...rule, isActive: e.target.checked })}
+                    className="form-checkbox h-5 w-5 text-primary rounded"
+                />
+                <span>
+                    <span className="block font-bold text-on-surface">{rule.name}</span>
+                    <span className="block text-xs text-on-surface-variant">{info.description}</span>
+                </span>
+            </label>
+            {info.thresholdLabel && (
+                <label className="flex items-center gap-2 text-sm text-on-surface-variant">
+                    {info.thresholdLabel}
+                    <input
+                        type="number"
+                        min={0}
+                        value={threshold}
+                        disabled={isSaving}
+                        onChange={e => setThreshold(e.target.value)}
+                        onBlur={saveThreshold}
+                        className="form-input py-1 px-2 text-sm w-20"
+                    />
+                </label>
+            )}
+            <select
+                value={rule.severity}
+                disabled={isSaving}
+                onChange={e => updateStaffingRule({ ...rule, severity: e.target.value as StaffingRuleSeverity })}
+                className="form-select py-1 text-sm w-32"
+                aria-label="Severità"
+            >
+                {(Object.keys(STAFFING_RULE_SEVERITY_LABELS) as StaffingRuleSeverity[]).map(severity => (
+                    <option key={severity} value={severity}>{STAFFING_RULE_SEVERITY_LABELS[severity]}</option>
+                ))}
+            </select>
+            <button
+                type="button"
+                onClick={() => deleteStaffingRule(rule.id!)}
+                disabled={isSaving}
+                className="p-2 rounded-full text-error hover:bg-error-container"
+                title="Elimina regola"
+            >
+                {isSaving ? <SpinnerIcon className="w-4 h-4" /> : <span className="material-symbols-outlined text-base">delete</span>}
+            </button>
+        </div>
+    );
+};
+
+const StaffingRulesSection: React.FC = () => {
+    const { staffingRules, addStaffingRule } = useLookupContext();
+    const { isActionLoading } = useAppState();
+    const [newRuleType, setNewRuleType] = useState<StaffingRuleType>('MAX_CONCURRENT_PROJECTS');
+
+    const handleAdd = () => {
+        const info = STAFFING_RULE_TYPE_INFO[newRuleType];
+        addStaffingRule({ name: info.label, ruleType: newRuleType, severity: 'WARN', threshold: info.defaultThreshold, isActive: false });
+    };
+
+    return (
+        <div className="bg-surface rounded-2xl shadow-sm p-8 border border-outline-variant">
+            <div className="mb-6">
+                <h2 className="text-xl font-bold text-on-surface">Regole di Staffing</h2>
+                <p className="text-sm text-on-surface-variant">Vincoli verificati al salvataggio di allocazioni e assegnazioni: con severità "Blocca" la modifica viene rifiutata, con "Avvisa" viene salvata e segnalata. Le violazioni sono consultabili nel report Violazioni Regole.</p>
+            </div>
+            <div className="space-y-3">
+                {staffingRules.map(rule => <StaffingRuleRow key={rule.id} rule={rule} />)}
+                {staffingRules.length === 0 && <p className="text-sm text-on-surface-variant">Nessuna regola configurata.</p>}
+            </div>
+            <div className="mt-6 flex flex-col sm:flex-row gap-3">
+                <select value={newRuleType} onChange={e => setNewRuleType(e.target.value as StaffingRuleType)} className="form-select flex-grow" aria-label="Tipo di regola">
+                    {(Object.keys(STAFFING_RULE_TYPE_INFO) as StaffingRuleType[]).map(type => (
+                        <option key={type} value={type}>{STAFFING_RULE_TYPE_INFO[type].label}</option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    disabled={isActionLoading('addStaffingRule')}
+                    className="px-6 py-2 bg-primary text-on-primary rounded-full font-bold flex items-center justify-center gap-2"
+                >
+                    {isActionLoading('addStaffingRule') ? <SpinnerIcon className="w-4 h-4" /> : 'Aggiungi Regola'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
 const TalentConfigSection: React.FC = () => {
     const { resources, updateResource } = useResourcesContext();
     const { isActionLoading } = useAppState();
@@ -352,6 +617,11 @@ const AdminSettingsPage: React.FC = () => {
         <div className="space-y-12 pb-20">
             <h1 className="text-3xl font-bold text-on-surface">Pannello di Amministrazione</h1>
             <DataLoadSection />
+            <OverbookingPolicySection />
+            <AllocationCleanupPolicySection />
+            <AllocationApprovalModeSection />
+            <ContractExhaustionAlertSection />
+            <StaffingRulesSection />
             <TalentConfigSection />
             <SearchConfigSection />
         </div>
@@ -1,7 +1,9 @@
 
 /**
  * @file CalendarPage.tsx
- * @description Pagina per la gestione del calendario aziendale (festività, chiusure) utilizzando DataTable.
+ * @description Pagina per la gestione del calendario aziendale (festività, chiusure) utilizzando DataTable
+ * e dei calendari lavorativi di sede (settimana lavorativa, ore standard, chiusure ricorrenti).
+ * Le festività nazionali e i patroni delle sedi si possono generare per più anni con anteprima.
  */
 
 import React, { useState, useMemo } from 'react';
@@ -14,7 +16,10 @@ import SearchableSelect from '../components/SearchableSelect';
 import MultiSelectDropdown from '../components/MultiSelectDropdown';
 import { SpinnerIcon } from '../components/icons';
 import { DataTable, ColumnDef } from '../components/DataTable';
+import LocationCalendarModal from '../components/LocationCalendarModal';
+import HolidayGeneratorModal from '../components/HolidayGeneratorModal';
 import { formatDateFull } from '../utils/dateUtils';
+import { formatRecurringClosure, formatWorkingWeek } from '../utils/locationCalendarUtils';
 
 /**
  * Traduce il tipo di evento in una stringa leggibile.
@@ -38,12 +43,14 @@ const getEventTypeBadgeClass = (type: CalendarEventType): string => {
 };
 
 const CalendarPage: React.FC = () => {
-    const { companyCalendar, addCalendarEvent, updateCalendarEvent, deleteCalendarEvent, locations } = useLookupContext();
+    const { companyCalendar, addCalendarEvent, updateCalendarEvent, deleteCalendarEvent, locations, locationCalendars } = useLookupContext();
     const { loading, isActionLoading } = useAppState();
     const { addToast } = useToast();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingEvent, setEditingEvent] = useState<CalendarEvent | Omit<CalendarEvent, 'id'> | null>(null);
     const [filters, setFilters] = useState({ name: '', type: [] as string[] });
+    const [calendarLocation, setCalendarLocation] = useState<string | null>(null);
+    const [isGeneratorOpen, setIsGeneratorOpen] = useState(false);
 
     const emptyEvent: Omit<CalendarEvent, 'id'> = {
         name: '',
@@ -183,6 +190,34 @@ const CalendarPage: React.FC = () => {
 
     return (
         <div>
+            <section className="mb-6 bg-surface-container-low p-4 rounded-xl border border-outline-variant">
+                <h3 className="text-sm font-bold text-primary mb-1 uppercase tracking-wider flex items-center gap-2">
+                    <span className="material-symbols-outlined text-lg">domain</span> Calendari di Sede
+                </h3>
+                <p className="text-xs text-on-surface-variant mb-3">
+                    Settimana lavorativa, ore standard e chiusure ricorrenti usate dai calcoli di capacità. Le sedi senza calendario lavorano 8 ore dal lunedì al venerdì.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                    {locations.map(({ id, value }) => {
+                        const calendar = locationCalendars.find(c => c.location === value);
+                        return (
+                            <div key={id} className="flex items-start justify-between gap-2 p-3 rounded-lg bg-surface border border-outline-variant">
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-on-surface">{value}</p>
+                                    <p className="text-sm text-on-surface-variant">{calendar ? formatWorkingWeek(calendar) : 'Settimana standard'}</p>
+                                    {calendar?.recurringClosures.map((closure, i) => (
+                                        <p key={i} className="text-xs text-on-surface-variant truncate">{closure.name}: {formatRecurringClosure(closure)}</p>
+                                    ))}
+                                </div>
+                                <button onClick={() => setCalendarLocation(value)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-primary" title="Configura calendario">
+                                    <span className="material-symbols-outlined">edit_calendar</span>
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            </section>
+
             <DataTable<CalendarEvent>
                 title="Gestione Calendario"
                 addNewButtonLabel="Aggiungi Evento"
@@ -190,6 +225,15 @@ const CalendarPage: React.FC = () => {
                 columns={columns}
                 filtersNode={filtersNode}
                 onAddNew={openModalForNew}
+                headerActions={
+                    <button
+                        type="button"
+                        onClick={() => setIsGeneratorOpen(true)}
+                        className="inline-flex items-center gap-2 rounded-full border border-outline-variant bg-surface px-3 py-2 text-sm font-medium text-on-surface shadow-sm hover:bg-surface-container"
+                    >
+                        <span className="material-symbols-outlined text-base">auto_awesome</span> Genera Festività
+                    </button>
+                }
                 renderRow={renderRow}
                 renderMobileCard={renderMobileCard}
                 initialSortKey="date"
@@ -257,6 +301,9 @@ const CalendarPage: React.FC = () => {
                     </form>
                 </Modal>
             )}
+
+            <LocationCalendarModal location={calendarLocation} onClose={() => setCalendarLocation(null)} />
+            {isGeneratorOpen && <HolidayGeneratorModal isOpen onClose={() => setIsGeneratorOpen(false)} />}
         </div>
     );
 };
@@ -4,7 +4,7 @@ import { useAppState } from '../context/AppContext';
 import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
 import { useAuth } from '../context/AuthContext';
-import { Contract, BillingType } from '../types';
+import { Contract, BillingType, ContractBurndown } from '../types';
 import { z, SafeParseError } from '../libs/zod';
 import { DataTable, ColumnDef } from '../components/DataTable';
 import Modal from '../components/Modal';
@@ -18,6 +18,9 @@ import ExportButton from '../components/ExportButton';
 import { useSearchParams } from 'react-router-dom';
 import PdfExportButton from '../components/PdfExportButton';
 import { PdfExportConfig, CHART_PALETTE } from '../utils/pdfExportUtils';
+import { CONTRACT_EXHAUSTION_STATUS_LABELS } from '../utils/contractBurndownUtils';
+import { useContractBurndowns } from '../hooks/useContractBurndown';
+import { ContractBurndownModal, CONTRACT_EXHAUSTION_STATUS_CLASSES } from './contracts/ContractBurndownModal';
 
 // --- Types ---
 type EnrichedContract = Contract & {
@@ -26,6 +29,9 @@ type EnrichedContract = Contract & {
     projectNames: string[];
     managerNames: string[];
     rateCardName?: string;
+    rateCardCurrency?: string;
+    burndown?: ContractBurndown;
+    exhaustionDate: string | null;
 };
 
 // --- Helper Functions ---
@@ -72,8 +78,9 @@ export const ContractsPage: React.FC = () => {
     const { hasEntityVisibility } = useAuth();
     const {
         contracts, projects, contractProjects, contractManagers, rateCards,
-        addContract, updateContract, deleteContract, recalculateContractBacklog,
+        addContract, updateContract, deleteContract,
     } = useProjectsContext();
+    const burndowns = useContractBurndowns();
     const { resources } = useResourcesContext();
     const { isActionLoading, loading } = useAppState();
 
@@ -83,6 +90,7 @@ export const ContractsPage: React.FC = () => {
     const [associatedProjectIds, setAssociatedProjectIds] = useState<string[]>([]);
     const [associatedManagerIds, setAssociatedManagerIds] = useState<string[]>([]);
     const [contractToDelete, setContractToDelete] = useState<EnrichedContract | null>(null);
+    const [burndownContract, setBurndownContract] = useState<EnrichedContract | null>(null);
     const [filters, setFilters] = useState({ name: '', cig: '', wbs: '' });
     const [searchParams, setSearchParams] = useSearchParams();
 
@@ -120,11 +128,11 @@ export const ContractsPage: React.FC = () => {
         const totalContracts = contracts.length;
         // Ensure numeric values are parsed correctly to avoid string concatenation
         const totalCapienza = contracts.reduce((sum, c) => sum + Number(c.capienza || 0), 0);
-        const totalBacklog = contracts.reduce((sum, c) => sum + Number(c.backlog || 0), 0);
+        const totalBacklog = contracts.reduce((sum, c) => sum + Number(burndowns.get(c.id!)?.backlog ?? c.backlog ?? 0), 0);
         const backlogPercentage = totalCapienza > 0 ? (totalBacklog / totalCapienza) * 100 : 0;
     
         return { totalContracts, totalCapienza, totalBacklog, backlogPercentage };
-    }, [contracts]);
+    }, [contracts, burndowns]);
 
     const dataForTable = useMemo<EnrichedContract[]>(() => {
         return contracts
@@ -141,17 +149,23 @@ export const ContractsPage: React.FC = () => {
                 const managerNames = mIds.map(mid => resources.find(r => r.id === mid)?.name || 'N/A');
                 
                 const rc = rateCards.find(r => r.id === contract.rateCardId);
+                // Backlog aggiornato dal server: il valore salvato nel contratto può precedere l'ultima modifica
+                const burndown = burndowns.get(contract.id!);
 
                 return {
                     ...contract,
+                    backlog: burndown?.backlog ?? contract.backlog,
                     projectCount: pIds.length,
                     managerCount: mIds.length,
                     projectNames,
                     managerNames,
-                    rateCardName: rc?.name
+                    rateCardName: rc?.name,
+                    rateCardCurrency: rc?.currency,
+                    burndown,
+                    exhaustionDate: burndown?.exhaustionDate ?? null,
                 };
             });
-    }, [contracts, projects, resources, contractProjects, contractManagers, rateCards, filters]);
+    }, [contracts, projects, resources, contractProjects, contractManagers, rateCards, filters, burndowns]);
 
     const exportData = useMemo(() => {
         return dataForTable.map(c => ({
@@ -162,6 +176,7 @@ export const ContractsPage: React.FC = () => {
             'Tipo Fatturazione': c.billingType === 'FIXED_PRICE' ? 'Fixed Price' : 'Time & Material',
             'Capienza': formatCurrency(c.capienza),
             'Backlog': formatCurrency(c.backlog),
+            'Esaurimento Previsto': c.exhaustionDate ? formatDateFull(c.exhaustionDate) : '',
             'Listino': c.rateCardName || 'Standard',
             'Progetti Collegati': c.projectNames.join(', '),
             'Manager Responsabili': c.managerNames.join(', '),
@@ -278,6 +293,14 @@ export const ContractsPage: React.FC = () => {
         { header: 'Listino', sortKey: 'rateCardName', cell: c => <span className="text-xs">{c.rateCardName || '-'}</span> },
         { header: 'Capienza', sortKey: 'capienza', cell: c => formatCurrency(c.capienza) },
         { header: 'Backlog', sortKey: 'backlog', cell: c => <span className={c.backlog < 0 ? 'text-error font-semibold' : ''}>{formatCurrency(c.backlog)}</span> },
+        { header: 'Esaurimento', sortKey: 'exhaustionDate', cell: c => c.burndown ? (
+            <div className="flex flex-col items-start gap-0.5">
+                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${CONTRACT_EXHAUSTION_STATUS_CLASSES[c.burndown.status]}`}>
+                    {CONTRACT_EXHAUSTION_STATUS_LABELS[c.burndown.status]}
+                </span>
+                <span className="text-xs text-on-surface-variant">{c.exhaustionDate ? formatDateFull(c.exhaustionDate) : 'Non prevista'}</span>
+            </div>
+        ) : '-' },
         { header: 'Progetti Collegati', sortKey: 'projectCount', cell: c => c.projectCount },
         { header: 'Data Inizio', sortKey: 'startDate', cell: c => <span className="text-sm text-on-surface-variant">{formatDateFull(c.startDate)}</span> },
         { header: 'Data Fine', sortKey: 'endDate', cell: c => <span className="text-sm text-on-surface-variant">{formatDateFull(c.endDate)}</span> },
@@ -288,8 +311,8 @@ export const ContractsPage: React.FC = () => {
             {columns.map((col, i) => <td key={i} className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 bg-inherit">{col.cell(contract)}</td>)}
             <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium bg-inherit">
                 <div className="flex items-center justify-end space-x-3">
-                    <button onClick={() => recalculateContractBacklog(contract.id!)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-primary transition-colors" title="Ricalcola Backlog" disabled={isActionLoading(`recalculateBacklog-${contract.id}`)}>
-                        {isActionLoading(`recalculateBacklog-${contract.id}`) ? <SpinnerIcon className="w-5 h-5"/> : <span className="material-symbols-outlined">refresh</span>}
+                    <button onClick={() => setBurndownContract(contract)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-primary transition-colors" title="Burn-down Capienza">
+                        <span className="material-symbols-outlined">trending_down</span>
                     </button>
                     <button onClick={() => openModalForEdit(contract)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-primary transition-colors" title="Modifica"><span className="material-symbols-outlined">edit</span></button>
                     <button onClick={() => setContractToDelete(contract)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-error transition-colors" title="Elimina">
@@ -308,8 +331,8 @@ export const ContractsPage: React.FC = () => {
                     <p className="text-sm text-on-surface-variant font-mono">{contract.cig} {contract.wbs ? `/ ${contract.wbs}` : ''}</p>
                 </div>
                 <div className="flex items-center space-x-1">
-                    <button onClick={() => recalculateContractBacklog(contract.id!)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high" disabled={isActionLoading(`recalculateBacklog-${contract.id}`)}>
-                        {isActionLoading(`recalculateBacklog-${contract.id}`) ? <SpinnerIcon className="w-5 h-5"/> : <span className="material-symbols-outlined">refresh</span>}
+                    <button onClick={() => setBurndownContract(contract)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high" title="Burn-down Capienza">
+                        <span className="material-symbols-outlined">trending_down</span>
                     </button>
                     <button onClick={() => openModalForEdit(contract)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high"><span className="material-symbols-outlined">edit</span></button>
                     <button onClick={() => setContractToDelete(contract)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high">
@@ -317,10 +340,15 @@ export const ContractsPage: React.FC = () => {
                     </button>
                 </div>
             </div>
-            <div className="mt-2">
+            <div className="mt-2 flex flex-wrap gap-2">
                 <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${contract.billingType === 'FIXED_PRICE' ? 'bg-secondary-container text-on-secondary-container' : 'bg-surface-variant text-on-surface-variant'}`}>
                     {contract.billingType === 'FIXED_PRICE' ? 'Fixed Price' : 'Time & Material'}
                 </span>
+                {contract.burndown && contract.burndown.status !== 'OK' && (
+                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${CONTRACT_EXHAUSTION_STATUS_CLASSES[contract.burndown.status]}`}>
+                        {CONTRACT_EXHAUSTION_STATUS_LABELS[contract.burndown.status]} {formatDateFull(contract.exhaustionDate)}
+                    </span>
+                )}
             </div>
             <div className="mt-4 pt-4 border-t border-outline-variant grid grid-cols-2 gap-4 text-sm">
                 <div><p className="text-on-surface-variant">Capienza</p><p className="font-medium text-on-surface">{formatCurrency(contract.capienza)}</p></div>
@@ -440,7 +468,7 @@ export const ContractsPage: React.FC = () => {
                 isLoading={loading}
                 tableLayout={{ dense: true, striped: true, headerSticky: true, headerBackground: true, headerBorder: true }}
                 tableClassNames={{ base: 'w-full text-sm' }}
-                numActions={3} // RICALCOLA, MODIFICA, ELIMINA
+                numActions={3} // BURN-DOWN, MODIFICA, ELIMINA
             />
 
             {editingContract && (
@@ -557,6 +585,16 @@ export const ContractsPage: React.FC = () => {
                 </Modal>
             )}
 
+            {burndownContract && (
+                <ContractBurndownModal
+                    contract={burndownContract}
+                    burndown={burndowns.get(burndownContract.id!)}
+                    currency={burndownContract.rateCardCurrency}
+                    isOpen={!!burndownContract}
+                    onClose={() => setBurndownContract(null)}
+                />
+            )}
+
             {contractToDelete && (
                 <ConfirmationModal
                     isOpen={!!contractToDelete}
@@ -4,15 +4,22 @@
  * @description Pagina della dashboard che visualizza varie metriche e analisi aggregate sui dati di staffing.
  */
 
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useCallback } from 'react';
 import { useAllocationsContext, useAppState } from '../context/AppContext';
 import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
 import { useLookupContext } from '../context/LookupContext';
 import { useUIConfigContext } from '../context/UIConfigContext';
-import { getWorkingDaysBetween, isHoliday } from '../utils/dateUtils';
-import { isProjectVisibleInStaffing } from '../utils/allocationUtils';
+import { buildHolidaySet, getLocationCalendar, getWorkingDaysBetween, toISODateString } from '../utils/dateUtils';
+import { getAllocatedPersonDays, getResourceFte, getScheduledWorkingDays, groupWorkSchedulesByResource } from '../utils/workScheduleUtils';
+import { isProjectVisibleInStaffing, isTentativeAssignment, matchesBookingFilter, BookingStatusFilter } from '../utils/allocationUtils';
+import { resolveAssignmentProfile } from '../utils/placeholderUtils';
+import { BASE_CURRENCY, createFxConverter, getProjectCurrency, getReportingCurrencies } from '../utils/fxUtils';
+import { summarizePortfolioEvm } from '../utils/evmUtils';
+import { useProjectsEvm } from '../hooks/useProjectEvm';
+import { useContractBurndowns } from '../hooks/useContractBurndown';
 import { useNavigate } from 'react-router-dom';
+import type { Resource } from '../types';
 import {
   DASHBOARD_CARDS_CONFIG,
 } from '../config/dashboardLayout';
@@ -43,6 +50,8 @@ import {
   RevenueMixCard,
   BillingPipelineCard,
   TopMarginProjectsCard,
+  PortfolioEvmCard,
+  ContractExhaustionCard,
 } from './dashboard/DashboardCards';
 
 const dateCache = new Map<string, Date>();
@@ -60,9 +69,9 @@ const parseISODate = (s: string): Date => {
  * Mostra una serie di "card" con analisi dei dati, ora renderizzate dinamicamente in base a una configurazione.
  */
 const DashboardPage: React.FC = () => {
-    const { resources, roles, getRoleCost } = useResourcesContext();
-    const { projects, clients, assignments, getSellRate, contracts, rateCards, billingMilestones, projectExpenses } = useProjectsContext();
-    const { functions, industries, locations, companyCalendar } = useLookupContext();
+    const { resources, roles, getRoleCost, workSchedules } = useResourcesContext();
+    const { projects, clients, assignments, getSellRate, contracts, rateCards, billingMilestones, projectExpenses, fxRates } = useProjectsContext();
+    const { functions, industries, locations, companyCalendar, locationCalendars, contractExhaustionAlertWeeks } = useLookupContext();
     const { dashboardLayout } = useUIConfigContext();
     const { loading } = useAppState();
     const { allocations } = useAllocationsContext();
@@ -80,7 +89,8 @@ const DashboardPage: React.FC = () => {
 
     // Stati dei filtri per ogni card
     const [avgAllocFilter, setAvgAllocFilter] = useState({ resourceId: [] as string[] });
-    const [fteFilter, setFteFilter] = useState({ clientId: [] as string[] });
+    const [fteFilter, setFteFilter] = useState({ clientId: [] as string[], bookingStatus: 'ALL' as BookingStatusFilter });
+    const [unallocatedFteBookingFilter, setUnallocatedFteBookingFilter] = useState<BookingStatusFilter>('ALL');
     const [budgetFilter, setBudgetFilter] = useState({ clientId: [] as string[] });
 
     // Corrected UTC date initialization for filters
@@ -98,8 +108,27 @@ const DashboardPage: React.FC = () => {
     const [underutilizedFilter, setUnderutilizedFilter] = useState(new Date().toISOString().slice(0, 7));
     const [trendResource, setTrendResource] = useState<string>('');
 
+    // Valuta di reporting delle card di ricavo: ricavi nella valuta del listino, costi in valuta base
+    const [reportingCurrency, setReportingCurrency] = useState(BASE_CURRENCY);
+    const reportingCurrencies = useMemo(() => getReportingCurrencies(fxRates), [fxRates]);
+
     const activeResources = useMemo(() => resources.filter(r => !r.resigned), [resources]);
 
+    // Capacità e giorni/uomo secondo l'orario di lavoro della risorsa (part-time): senza orario
+    // registrato valgono le 8 ore dal lunedì al venerdì al netto delle festività della sede.
+    const holidaySet = useMemo(() => buildHolidaySet(companyCalendar, locationCalendars), [companyCalendar, locationCalendars]);
+    const schedulesByResource = useMemo(() => groupWorkSchedulesByResource(workSchedules), [workSchedules]);
+    const personDaysOn = useCallback(
+        (resource: { id?: string; location: string | null }, date: Date, percentage: number): number =>
+            getAllocatedPersonDays(percentage, date, holidaySet, resource.location, resource.id ? schedulesByResource.get(resource.id) : undefined),
+        [holidaySet, schedulesByResource]
+    );
+    const capacityDays = useCallback(
+        (resource: Resource, firstDay: Date, lastDay: Date): number =>
+            getScheduledWorkingDays(firstDay, lastDay, holidaySet, resource.location, schedulesByResource.get(resource.id!)),
+        [holidaySet, schedulesByResource]
+    );
+
     // Allineamento con Staffing/Workload: le assegnazioni su progetti "Completato"
     // non contano nelle viste di carico/bench delle risorse. Restano invece incluse
     // nelle analisi economiche e di effort storico (costi, budget, revenue), dove
@@ -153,30 +182,35 @@ const DashboardPage: React.FC = () => {
         const lastDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
         let totalCost = 0;
         let totalPersonDays = 0;
+        let tentativePersonDays = 0;
         const costByClient: { [clientId: string]: { id: string; name: string; cost: number } } = {};
         clients.forEach(c => { if(c.id) costByClient[c.id] = { id: c.id, name: c.name, cost: 0 }; });
 
         for (const assignment of assignments) {
-            const resource = resources.find(r => r.id === assignment.resourceId);
+            const resource = resolveAssignmentProfile(assignment, resources);
             if (!resource || resource.resigned) continue;
             
             const project = projects.find(p => p.id === assignment.projectId);
             const realization = (project?.realizationPercentage ?? 100) / 100;
+            const isTentative = isTentativeAssignment(assignment);
 
             const assignmentAllocations = allocations[assignment.id!];
             if (assignmentAllocations) {
                 for (const dateStr in assignmentAllocations) {
                     const allocDate = parseISODate(dateStr);
                     if (allocDate >= firstDay && allocDate <= lastDay) {
-                        if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                            const personDayFraction = (assignmentAllocations[dateStr] / 100);
-                            
+                        const personDayFraction = personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
+                        if (personDayFraction > 0) {
                             // Use historical cost
                             const dailyRate = getRoleCost(resource.roleId, allocDate);
                             
                             const dailyCost = personDayFraction * dailyRate * realization;
                             totalCost += dailyCost;
-                            totalPersonDays += personDayFraction;
+                            // I segnaposto di ruolo hanno un costo ma non occupano FTE disponibili
+                            if (assignment.resourceId) {
+                                totalPersonDays += personDayFraction;
+                                if (isTentative) tentativePersonDays += personDayFraction;
+                            }
                             if (project?.clientId && costByClient[project.clientId]) {
                                 costByClient[project.clientId].cost += dailyCost;
                             }
@@ -186,19 +220,22 @@ const DashboardPage: React.FC = () => {
             }
         }
         
-        const totalAvailableFTE = activeResources.reduce((sum, r) => sum + (r.maxStaffingPercentage / 100), 0);
+        const todayIso = toISODateString(now);
+        const totalAvailableFTE = activeResources.reduce((sum, r) => sum + getResourceFte(r, schedulesByResource.get(r.id!), todayIso, getLocationCalendar(holidaySet, r.location)), 0);
         const workingDaysInMonth = getWorkingDaysBetween(firstDay, lastDay, companyCalendar, null);
         const totalAllocatedFTE = workingDaysInMonth > 0 ? totalPersonDays / workingDaysInMonth : 0;
         const unallocatedFTE = totalAvailableFTE - totalAllocatedFTE;
+        const tentativeAllocatedFTE = workingDaysInMonth > 0 ? tentativePersonDays / workingDaysInMonth : 0;
 
         return { 
             totalCost, 
             totalPersonDays, 
             clientCostArray: Object.values(costByClient).filter(c => c.cost > 0),
             unallocatedFTE,
-            totalAvailableFTE
+            totalAvailableFTE,
+            tentativeAllocatedFTE
         };
-    }, [assignments, resources, roles, projects, allocations, companyCalendar, clients, activeResources, getRoleCost]);
+    }, [assignments, resources, roles, projects, allocations, companyCalendar, clients, activeResources, getRoleCost, personDaysOn, schedulesByResource]);
 
     const averageAllocationData = useMemo(() => {
         const filteredResources = avgAllocFilter.resourceId.length > 0
@@ -210,7 +247,7 @@ const DashboardPage: React.FC = () => {
                 const now = new Date();
                 const firstDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + monthOffset, 1));
                 const lastDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + monthOffset + 1, 0));
-                const workingDays = getWorkingDaysBetween(firstDay, lastDay, companyCalendar, resource.location);
+                const workingDays = capacityDays(resource, firstDay, lastDay);
                 if (workingDays === 0) return 0;
                 
                 const resourceAssignments = visibleAssignments.filter(a => a.resourceId === resource.id);
@@ -220,8 +257,8 @@ const DashboardPage: React.FC = () => {
                     if(assignmentAllocations){
                         for(const dateStr in assignmentAllocations){
                             const allocDate = parseISODate(dateStr);
-                            if(allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6){
-                                totalPersonDays += (assignmentAllocations[dateStr] / 100);
+                            if(allocDate >= firstDay && allocDate <= lastDay){
+                                totalPersonDays += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                             }
                         }
                     }
@@ -236,7 +273,7 @@ const DashboardPage: React.FC = () => {
                 nextMonth: calculateAvgForMonth(1),
             };
         });
-    }, [activeResources, visibleAssignments, allocations, companyCalendar, avgAllocFilter]);
+    }, [activeResources, visibleAssignments, allocations, avgAllocFilter, capacityDays, personDaysOn]);
 
     const fteData = useMemo(() => {
         const filteredProjects = fteFilter.clientId.length > 0
@@ -244,33 +281,37 @@ const DashboardPage: React.FC = () => {
             : projects;
 
         return filteredProjects.map(project => {
-            if (!project.startDate || !project.endDate) return { ...project, totalPersonDays: 0, fte: 0 };
+            if (!project.startDate || !project.endDate) return { ...project, totalPersonDays: 0, tentativePersonDays: 0, fte: 0 };
             
             const firstDay = parseISODate(project.startDate);
             const lastDay = parseISODate(project.endDate);
             const totalWorkingDays = getWorkingDaysBetween(firstDay, lastDay, companyCalendar, null);
-            if (totalWorkingDays === 0) return { ...project, totalPersonDays: 0, fte: 0 };
+            if (totalWorkingDays === 0) return { ...project, totalPersonDays: 0, tentativePersonDays: 0, fte: 0 };
 
-            const projectAssignments = assignments.filter(a => a.projectId === project.id);
+            const projectAssignments = assignments.filter(a => a.projectId === project.id && matchesBookingFilter(a, fteFilter.bookingStatus));
             let totalPersonDays = 0;
+            let tentativePersonDays = 0;
             projectAssignments.forEach(assignment => {
                 const resource = resources.find(r => r.id === assignment.resourceId);
                 if(!resource) return;
+                const isTentative = isTentativeAssignment(assignment);
 
                 const assignmentAllocations = allocations[assignment.id!];
                 if (assignmentAllocations) {
                     for (const dateStr in assignmentAllocations) {
                         const allocDate = parseISODate(dateStr);
-                        if (allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                            totalPersonDays += (assignmentAllocations[dateStr] / 100);
+                        if (allocDate >= firstDay && allocDate <= lastDay) {
+                            const personDays = personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
+                            totalPersonDays += personDays;
+                            if (isTentative) tentativePersonDays += personDays;
                         }
                     }
                 }
             });
 
-            return { ...project, totalPersonDays, fte: totalPersonDays / totalWorkingDays };
+            return { ...project, totalPersonDays, tentativePersonDays, fte: totalPersonDays / totalWorkingDays };
         }).filter(p => p.totalPersonDays > 0);
-    }, [projects, assignments, allocations, companyCalendar, resources, fteFilter]);
+    }, [projects, assignments, allocations, companyCalendar, resources, fteFilter, personDaysOn]);
 
     const budgetAnalysisData = useMemo(() => {
         const filteredProjects = budgetFilter.clientId.length > 0
@@ -281,16 +322,17 @@ const DashboardPage: React.FC = () => {
             const projectAssignments = assignments.filter(a => a.projectId === project.id);
             let estimatedCost = 0;
             projectAssignments.forEach(assignment => {
-                const resource = resources.find(r => r.id === assignment.resourceId);
+                const resource = resolveAssignmentProfile(assignment, resources);
                 if (!resource) return;
                 
                 const assignmentAllocations = allocations[assignment.id!];
                 if (assignmentAllocations) {
                     for (const dateStr in assignmentAllocations) {
                         const allocDate = parseISODate(dateStr);
-                         if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
+                        const personDays = personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
+                        if (personDays > 0) {
                             const dailyRate = getRoleCost(resource.roleId, allocDate);
-                            estimatedCost += ((assignmentAllocations[dateStr] / 100) * dailyRate);
+                            estimatedCost += (personDays * dailyRate);
                         }
                     }
                 }
@@ -299,7 +341,7 @@ const DashboardPage: React.FC = () => {
             estimatedCost = estimatedCost * (project.realizationPercentage / 100);
             return { ...project, budget, estimatedCost, variance: budget - estimatedCost };
         });
-    }, [projects, assignments, allocations, resources, roles, companyCalendar, budgetFilter, getRoleCost]);
+    }, [projects, assignments, allocations, resources, roles, budgetFilter, getRoleCost, personDaysOn]);
 
     const temporalBudgetAnalysisData = useMemo(() => {
         const filteredProjects = temporalBudgetFilter.clientId.length > 0
@@ -335,7 +377,7 @@ const DashboardPage: React.FC = () => {
             const projectAssignments = assignments.filter(a => a.projectId === project.id);
             let estimatedCost = 0;
             projectAssignments.forEach(assignment => {
-                const resource = resources.find(r => r.id === assignment.resourceId);
+                const resource = resolveAssignmentProfile(assignment, resources);
                 if (!resource) return;
                 
                 const assignmentAllocations = allocations[assignment.id!];
@@ -343,9 +385,10 @@ const DashboardPage: React.FC = () => {
                     for (const dateStr in assignmentAllocations) {
                         const allocDate = parseISODate(dateStr);
                         if (allocDate >= filterStartDate && allocDate <= filterEndDate) {
-                             if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
+                            const personDays = personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
+                            if (personDays > 0) {
                                 const dailyRate = getRoleCost(resource.roleId, allocDate);
-                                estimatedCost += ((assignmentAllocations[dateStr] / 100) * dailyRate);
+                                estimatedCost += (personDays * dailyRate);
                             }
                         }
                     }
@@ -357,7 +400,7 @@ const DashboardPage: React.FC = () => {
     
             return { ...project, periodBudget, estimatedCost, variance };
         });
-    }, [projects, assignments, allocations, resources, roles, companyCalendar, temporalBudgetFilter, getRoleCost]);
+    }, [projects, assignments, allocations, resources, roles, companyCalendar, temporalBudgetFilter, getRoleCost, personDaysOn]);
 
     const averageDailyRateData = useMemo(() => {
         const filteredProjects = avgDailyRateFilter.clientId.length > 0
@@ -376,7 +419,7 @@ const DashboardPage: React.FC = () => {
             let totalPersonDays = 0;
     
             projectAssignments.forEach(assignment => {
-                const resource = resources.find(r => r.id === assignment.resourceId);
+                const resource = resolveAssignmentProfile(assignment, resources);
                 if (!resource) return;
                 
                 const assignmentAllocations = allocations[assignment.id!];
@@ -384,8 +427,8 @@ const DashboardPage: React.FC = () => {
                     const currentDate = new Date(filterStartDate);
                     while (currentDate.getTime() <= filterEndDate.getTime()) {
                         const dateStr = currentDate.toISOString().slice(0, 10);
-                        if (assignmentAllocations[dateStr] && !isHoliday(currentDate, resource.location, companyCalendar) && currentDate.getUTCDay() !== 0 && currentDate.getUTCDay() !== 6) {
-                            const personDayFraction = (assignmentAllocations[dateStr] / 100);
+                        const personDayFraction = assignmentAllocations[dateStr] ? personDaysOn(resource, currentDate, assignmentAllocations[dateStr]) : 0;
+                        if (personDayFraction > 0) {
                             const dailyRate = getRoleCost(resource.roleId, currentDate);
                             
                             totalPersonDays += personDayFraction;
@@ -405,7 +448,7 @@ const DashboardPage: React.FC = () => {
                 avgDailyRate: totalPersonDays > 0 ? totalCost / totalPersonDays : 0,
             };
         }).filter(p => p.totalPersonDays > 0);
-    }, [projects, assignments, allocations, resources, roles, clients, companyCalendar, avgDailyRateFilter, getRoleCost]);
+    }, [projects, assignments, allocations, resources, roles, clients, avgDailyRateFilter, getRoleCost, personDaysOn]);
     
     const underutilizedResourcesData = useMemo(() => {
         const [year, monthNum] = underutilizedFilter.split('-').map(Number);
@@ -413,7 +456,7 @@ const DashboardPage: React.FC = () => {
         const lastDay = new Date(Date.UTC(year, monthNum, 0));
 
         return activeResources.map(resource => {
-            const workingDays = getWorkingDaysBetween(firstDay, lastDay, companyCalendar, resource.location);
+            const workingDays = capacityDays(resource, firstDay, lastDay);
             if (workingDays === 0) return { id: resource.id, resource, avgAllocation: 0 };
             
             const resourceAssignments = visibleAssignments.filter(a => a.resourceId === resource.id);
@@ -423,15 +466,15 @@ const DashboardPage: React.FC = () => {
                 if (assignmentAllocations) {
                     for (const dateStr in assignmentAllocations) {
                         const allocDate = parseISODate(dateStr);
-                        if(allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6){
-                           totalPersonDays += (assignmentAllocations[dateStr] / 100);
+                        if(allocDate >= firstDay && allocDate <= lastDay){
+                           totalPersonDays += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                         }
                     }
                 }
             });
             return { id: resource.id, resource, avgAllocation: (totalPersonDays / workingDays) * 100 };
         }).filter(d => d.avgAllocation < 100);
-    }, [activeResources, visibleAssignments, allocations, companyCalendar, underutilizedFilter]);
+    }, [activeResources, visibleAssignments, allocations, underutilizedFilter, capacityDays, personDaysOn]);
 
     const effortByFunctionData = useMemo(() => {
         const data: {[key: string]: number} = {};
@@ -445,14 +488,12 @@ const DashboardPage: React.FC = () => {
             if(assignmentAllocations) {
                 for(const dateStr in assignmentAllocations) {
                     const allocDate = parseISODate(dateStr);
-                     if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                        data[resource.function] += (assignmentAllocations[dateStr] / 100);
-                    }
+                    data[resource.function] += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                 }
             }
         });
         return Object.entries(data).map(([name, totalPersonDays]) => ({ id: name, name, totalPersonDays }));
-    }, [functions, resources, assignments, allocations, companyCalendar]);
+    }, [functions, resources, assignments, allocations, personDaysOn]);
 
     const effortByIndustryData = useMemo(() => {
         const data: {[key: string]: number} = {};
@@ -466,14 +507,12 @@ const DashboardPage: React.FC = () => {
             if(assignmentAllocations) {
                 for(const dateStr in assignmentAllocations) {
                     const allocDate = parseISODate(dateStr);
-                     if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                        data[resource.industry] += (assignmentAllocations[dateStr] / 100);
-                    }
+                    data[resource.industry] += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                 }
             }
         });
         return Object.entries(data).map(([name, totalPersonDays]) => ({ id: name, name, totalPersonDays }));
-    }, [industries, resources, assignments, allocations, companyCalendar]);
+    }, [industries, resources, assignments, allocations, personDaysOn]);
 
     const analysisByLocationData = useMemo(() => {
         const now = new Date();
@@ -488,7 +527,7 @@ const DashboardPage: React.FC = () => {
             let availableDays = 0;
 
             resourcesInLocation.forEach(resource => {
-                const workingDays = getWorkingDaysBetween(firstDay, lastDay, companyCalendar, resource.location);
+                const workingDays = capacityDays(resource, firstDay, lastDay);
                 const staffingFactor = (resource.maxStaffingPercentage || 100) / 100;
                 availableDays += workingDays * staffingFactor;
 
@@ -498,8 +537,8 @@ const DashboardPage: React.FC = () => {
                     if (assignmentAllocations) {
                         for (const dateStr in assignmentAllocations) {
                             const allocDate = parseISODate(dateStr);
-                             if (allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                                allocatedDays += (assignmentAllocations[dateStr] / 100);
+                            if (allocDate >= firstDay && allocDate <= lastDay) {
+                                allocatedDays += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                             }
                         }
                     }
@@ -514,7 +553,7 @@ const DashboardPage: React.FC = () => {
                 avgUtilization: availableDays > 0 ? (allocatedDays / availableDays) * 100 : 0,
             };
         });
-    }, [locations, activeResources, visibleAssignments, allocations, companyCalendar]);
+    }, [locations, activeResources, visibleAssignments, allocations, capacityDays, personDaysOn]);
     
     const saturationTrendData = useMemo(() => {
         if (!trendResource) return [];
@@ -528,7 +567,7 @@ const DashboardPage: React.FC = () => {
             const firstDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
             const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
 
-            const workingDays = getWorkingDaysBetween(firstDay, lastDay, companyCalendar, resource.location);
+            const workingDays = capacityDays(resource, firstDay, lastDay);
             let totalPersonDays = 0;
             
             if (workingDays > 0) {
@@ -538,8 +577,8 @@ const DashboardPage: React.FC = () => {
                     if (assignmentAllocations) {
                         for (const dateStr in assignmentAllocations) {
                             const allocDate = parseISODate(dateStr);
-                             if (allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                                totalPersonDays += (assignmentAllocations[dateStr] / 100);
+                            if (allocDate >= firstDay && allocDate <= lastDay) {
+                                totalPersonDays += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                             }
                         }
                     }
@@ -548,7 +587,7 @@ const DashboardPage: React.FC = () => {
             data.push({ month: date, value: workingDays > 0 ? (totalPersonDays / workingDays) * 100 : 0 });
         }
         return data;
-    }, [trendResource, resources, visibleAssignments, allocations, companyCalendar]);
+    }, [trendResource, resources, visibleAssignments, allocations, capacityDays, personDaysOn]);
     
      const monthlyCostForecastData = useMemo(() => {
         const calculateCostForMonth = (monthOffset: number): number => {
@@ -558,7 +597,7 @@ const DashboardPage: React.FC = () => {
             let totalCost = 0;
             
             for (const assignment of assignments) {
-                const resource = activeResources.find(r => r.id === assignment.resourceId);
+                const resource = resolveAssignmentProfile(assignment, activeResources);
                 if (!resource) continue;
                 
                 const project = projects.find(p => p.id === assignment.projectId);
@@ -568,9 +607,11 @@ const DashboardPage: React.FC = () => {
                 if (assignmentAllocations) {
                     for (const dateStr in assignmentAllocations) {
                         const allocDate = parseISODate(dateStr);
-                        if (allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
+                        if (allocDate < firstDay || allocDate > lastDay) continue;
+                        const personDays = personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
+                        if (personDays > 0) {
                             const dailyRate = getRoleCost(resource.roleId, allocDate);
-                            totalCost += ((assignmentAllocations[dateStr] / 100) * dailyRate * realization);
+                            totalCost += (personDays * dailyRate * realization);
                         }
                     }
                 }
@@ -593,7 +634,7 @@ const DashboardPage: React.FC = () => {
         }
         return forecastData;
 
-    }, [activeResources, assignments, allocations, roles, projects, companyCalendar, getRoleCost]);
+    }, [activeResources, assignments, allocations, roles, projects, getRoleCost, personDaysOn]);
 
     // --- New Data Logic ---
     const allocationMatrixData = useMemo(() => {
@@ -619,9 +660,7 @@ const DashboardPage: React.FC = () => {
                 for (const dateStr in assignmentAllocations) {
                     const allocDate = parseISODate(dateStr);
                     if (allocDate >= firstDay && allocDate <= lastDay) {
-                        if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                            totalPersonDays += (assignmentAllocations[dateStr] / 100);
-                        }
+                        totalPersonDays += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                     }
                 }
                 // Accumulate FTE
@@ -640,10 +679,11 @@ const DashboardPage: React.FC = () => {
             functions: functions.map(f => f.value), 
             industries: industries.map(i => i.value) 
         };
-    }, [assignments, resources, allocations, functions, industries, companyCalendar]);
+    }, [assignments, resources, allocations, functions, industries, companyCalendar, personDaysOn]);
 
-    const revenueByIndustryData = useMemo(() => {
+    const { revenueByIndustryData, industryMissingCurrencies } = useMemo(() => {
         const revenueMap: Record<string, number> = {};
+        const fx = createFxConverter(fxRates, reportingCurrency);
         const now = new Date();
         const firstDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
         const lastDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
@@ -658,16 +698,17 @@ const DashboardPage: React.FC = () => {
 
             const contract = contracts.find(c => c.id === project?.contractId);
             const rateCardId = contract?.rateCardId;
+            const projectCurrency = getProjectCurrency(project, contracts, rateCards);
 
             const assignmentAllocations = allocations[assignment.id!];
             if (assignmentAllocations) {
                  for (const dateStr in assignmentAllocations) {
                     const allocDate = parseISODate(dateStr);
                     if (allocDate >= firstDay && allocDate <= lastDay) {
-                        if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                             const fraction = assignmentAllocations[dateStr] / 100;
-                             const sellRate = getSellRate(rateCardId, resource.id!);
-                             const revenue = fraction * sellRate;
+                        const fraction = personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
+                        if (fraction > 0) {
+                             const sellRate = getSellRate(rateCardId, resource.id!, dateStr);
+                             const revenue = fx.convert(fraction * sellRate, projectCurrency, dateStr);
                              
                              revenueMap[client.sector] = (revenueMap[client.sector] || 0) + revenue;
                         }
@@ -676,8 +717,11 @@ const DashboardPage: React.FC = () => {
             }
         });
 
-        return Object.entries(revenueMap).map(([name, value]) => ({ name, value }));
-    }, [assignments, projects, clients, resources, contracts, allocations, companyCalendar, getSellRate]);
+        return {
+            revenueByIndustryData: Object.entries(revenueMap).map(([name, value]) => ({ name, value })),
+            industryMissingCurrencies: fx.missingCurrencies,
+        };
+    }, [assignments, projects, clients, resources, contracts, rateCards, allocations, getSellRate, personDaysOn, fxRates, reportingCurrency]);
     
     const benchData = useMemo(() => {
         const now = new Date();
@@ -691,8 +735,7 @@ const DashboardPage: React.FC = () => {
         industries.forEach(i => indStats[i.value] = { capacity: 0, allocated: 0 });
 
         activeResources.forEach(resource => {
-             const workingDays = getWorkingDaysBetween(firstDay, lastDay, companyCalendar, resource.location);
-             const capacity = workingDays * (resource.maxStaffingPercentage / 100);
+             const capacity = capacityDays(resource, firstDay, lastDay) * (resource.maxStaffingPercentage / 100);
 
              if (resource.function) {
                  if (!funcStats[resource.function]) funcStats[resource.function] = { capacity: 0, allocated: 0 };
@@ -711,9 +754,7 @@ const DashboardPage: React.FC = () => {
                         for (const dateStr in assignmentAllocations) {
                             const allocDate = parseISODate(dateStr);
                             if (allocDate >= firstDay && allocDate <= lastDay) {
-                                if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                                     allocated += (assignmentAllocations[dateStr] / 100);
-                                }
+                                allocated += personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
                             }
                         }
                   }
@@ -739,21 +780,52 @@ const DashboardPage: React.FC = () => {
 
         return { byFunction, byIndustry };
 
-    }, [activeResources, visibleAssignments, allocations, companyCalendar, functions, industries]);
-
+    }, [activeResources, visibleAssignments, allocations, functions, industries, capacityDays, personDaysOn]);
+
+
+    // --- Earned Value di portafoglio: progetti con budget, peggiori per CPI in cima ---
+    const projectsEvm = useProjectsEvm();
+    const { portfolioEvm, portfolioEvmData } = useMemo(() => {
+        const evms = Array.from(projectsEvm.values()).filter(e => e.bac > 0);
+        const rows = evms.map(e => ({
+            id: e.projectId,
+            name: projects.find(p => p.id === e.projectId)?.name || e.projectId,
+            bac: e.bac, ev: e.ev, ac: e.ac, cpi: e.cpi, spi: e.spi, eac: e.eac,
+        }));
+        return { portfolioEvm: summarizePortfolioEvm(evms), portfolioEvmData: rows };
+    }, [projectsEvm, projects]);
+
+    // --- Burn-down dei contratti: backlog aggiornato e contratti in esaurimento ---
+    const contractBurndowns = useContractBurndowns();
+    const contractExhaustionData = useMemo(() => {
+        const today = parseISODate(toISODateString(new Date())).getTime();
+        return contracts.flatMap(c => {
+            const burndown = contractBurndowns.get(c.id!);
+            if (!burndown?.exhaustionDate || burndown.status === 'OK') return [];
+            const daysLeft = (parseISODate(burndown.exhaustionDate).getTime() - today) / 86400000;
+            return [{
+                id: c.id!,
+                name: c.name,
+                status: burndown.status,
+                exhaustionDate: burndown.exhaustionDate,
+                weeksLeft: Math.max(0, Math.ceil(daysLeft / 7)),
+                backlog: burndown.backlog,
+            }];
+        });
+    }, [contracts, contractBurndowns]);
 
     // --- New WBS Calculations ---
     const wbsSaturationData = useMemo(() => {
         return contracts
             .map(c => {
-                const consumed = Number(c.capienza) - (Number(c.backlog) || 0);
+                const consumed = Number(c.capienza) - (Number(contractBurndowns.get(c.id!)?.backlog ?? c.backlog) || 0);
                 const saturation = c.capienza > 0 ? (consumed / c.capienza) * 100 : 0;
                 return { ...c, consumed, saturation };
             })
             .filter(c => c.saturation > 80)
             .sort((a, b) => b.saturation - a.saturation)
             .slice(0, 5);
-    }, [contracts]);
+    }, [contracts, contractBurndowns]);
 
     const noWbsLeakageAmount = useMemo(() => {
         let leakage = 0;
@@ -767,7 +839,7 @@ const DashboardPage: React.FC = () => {
             
             // Check leak condition: No Contract OR No WBS on Contract
             if (!project?.contractId || (contract && !contract.wbs)) {
-                const resource = resources.find(r => r.id === assignment.resourceId);
+                const resource = resolveAssignmentProfile(assignment, resources);
                 if (!resource) return;
 
                 const assignmentAllocations = allocations[assignment.id!];
@@ -775,8 +847,8 @@ const DashboardPage: React.FC = () => {
                      for (const dateStr in assignmentAllocations) {
                         const allocDate = parseISODate(dateStr);
                         if (allocDate >= firstDay && allocDate <= lastDay) {
-                             if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                                 const fraction = assignmentAllocations[dateStr] / 100;
+                            const fraction = personDaysOn(resource, allocDate, assignmentAllocations[dateStr]);
+                            if (fraction > 0) {
                                  // Using COST as metric for "money spent" without cover
                                  const dailyRate = getRoleCost(resource.roleId, allocDate);
                                  leakage += fraction * dailyRate;
@@ -787,7 +859,7 @@ const DashboardPage: React.FC = () => {
             }
         });
         return leakage;
-    }, [assignments, projects, contracts, resources, allocations, companyCalendar, getRoleCost]);
+    }, [assignments, projects, contracts, resources, allocations, getRoleCost, personDaysOn]);
 
     const contractExpirationsData = useMemo(() => {
         const today = new Date();
@@ -806,7 +878,8 @@ const DashboardPage: React.FC = () => {
     }, [contracts]);
 
     // --- REVENUE MIX & PIPELINE & TOP MARGIN DATA ---
-    const { revenueMixData, billingPipelineData, topMarginProjectsData } = useMemo(() => {
+    const { revenueMixData, billingPipelineData, topMarginProjectsData, revenueMissingCurrencies } = useMemo(() => {
+        const fx = createFxConverter(fxRates, reportingCurrency);
         const today = new Date();
         const currentYear = today.getUTCFullYear();
         const currentMonthIdx = today.getUTCMonth(); // 0-11
@@ -841,11 +914,12 @@ const DashboardPage: React.FC = () => {
         // 1. Process Assignments (T&M Revenue & Labor Cost)
         assignments.forEach(assign => {
             const project = projects.find(p => p.id === assign.projectId);
-            const resource = resources.find(r => r.id === assign.resourceId);
+            const resource = resolveAssignmentProfile(assign, resources);
             if (!project || !resource) return;
 
             const contract = contracts.find(c => c.id === project.contractId);
             const rateCardId = contract?.rateCardId;
+            const projectCurrency = getProjectCurrency(project, contracts, rateCards);
             const assignAlloc = allocations[assign.id!];
 
             if (assignAlloc) {
@@ -854,16 +928,15 @@ const DashboardPage: React.FC = () => {
                     // Filter within current year for Mix
                     if (d < startOfYear || d > endOfYear) continue;
                     
-                    const pct = assignAlloc[dateStr] / 100;
+                    const pct = personDaysOn(resource, d, assignAlloc[dateStr]);
                     if (pct <= 0) continue;
-                    if (isHoliday(d, resource.location, companyCalendar) || d.getUTCDay() === 0 || d.getUTCDay() === 6) continue;
 
                     const monthKey = dateStr.substring(0, 7);
                     
                     // REVENUE MIX: T&M
                     if (project.billingType === 'TIME_MATERIAL' || !project.billingType) {
-                        const sellRate = getSellRate(rateCardId, resource.id!);
-                        const revenue = pct * sellRate;
+                        const sellRate = getSellRate(rateCardId, resource.id!, dateStr);
+                        const revenue = fx.convert(pct * sellRate, projectCurrency, dateStr);
                         const mixEntry = mixData.find(m => m.month === monthKey);
                         if (mixEntry) mixEntry.tm += revenue;
                         
@@ -879,7 +952,7 @@ const DashboardPage: React.FC = () => {
                          if (!projectMargins[project.id!]) projectMargins[project.id!] = { revenue: 0, cost: 0, name: project.name };
                          const dailyCost = getRoleCost(resource.roleId, d);
                          // Cost is recognized regardless of billing type
-                         projectMargins[project.id!].cost += (pct * dailyCost);
+                         projectMargins[project.id!].cost += fx.convert(pct * dailyCost, BASE_CURRENCY, dateStr);
                     }
                 }
             }
@@ -888,20 +961,21 @@ const DashboardPage: React.FC = () => {
         // 2. Process Milestones (Fixed Revenue & Pipeline)
         billingMilestones.forEach(bm => {
             const dateStr = bm.date; // YYYY-MM-DD
-            const amount = Number(bm.amount);
             const monthKey = dateStr.substring(0, 7);
             const project = projects.find(p => p.id === bm.projectId);
+            // Convertito solo quando l'importo entra in una card, per non segnalare cambi irrilevanti
+            const amount = () => fx.convert(Number(bm.amount), getProjectCurrency(project, contracts, rateCards), dateStr);
             
             // REVENUE MIX: Fixed Price (Historical & Future within year)
             if (dateStr >= startOfYear.toISOString() && dateStr <= endOfYear.toISOString()) {
                 if (project?.billingType === 'FIXED_PRICE') {
                     const mixEntry = mixData.find(m => m.month === monthKey);
-                    if (mixEntry) mixEntry.fixed += amount;
+                    if (mixEntry) mixEntry.fixed += amount();
                     
                      // TOP MARGIN (Current Month Only) - Recognized Revenue
                      if (dateStr >= cmStart.toISOString() && dateStr <= cmEnd.toISOString()) {
                         if (!projectMargins[project.id!]) projectMargins[project.id!] = { revenue: 0, cost: 0, name: project.name };
-                        projectMargins[project.id!].revenue += amount;
+                        projectMargins[project.id!].revenue += amount();
                      }
                 }
             }
@@ -909,7 +983,7 @@ const DashboardPage: React.FC = () => {
             // BILLING PIPELINE: Planned Milestones >= Today
             if (bm.status === 'PLANNED' && dateStr >= today.toISOString().split('T')[0]) {
                  const pipeEntry = pipelineData.find(p => p.month === monthKey);
-                 if (pipeEntry) pipeEntry.amount += amount;
+                 if (pipeEntry) pipeEntry.amount += amount();
             }
         });
         
@@ -920,7 +994,7 @@ const DashboardPage: React.FC = () => {
                  const project = projects.find(p => p.id === exp.projectId);
                  if (project) {
                     if (!projectMargins[project.id!]) projectMargins[project.id!] = { revenue: 0, cost: 0, name: project.name };
-                    projectMargins[project.id!].cost += Number(exp.amount);
+                    projectMargins[project.id!].cost += fx.convert(Number(exp.amount), BASE_CURRENCY, dateStr);
                  }
              }
         });
@@ -939,9 +1013,15 @@ const DashboardPage: React.FC = () => {
         return {
             revenueMixData: mixData,
             billingPipelineData: pipelineData,
-            topMarginProjectsData: topMarginList
+            topMarginProjectsData: topMarginList,
+            revenueMissingCurrencies: fx.missingCurrencies
         };
-    }, [assignments, allocations, billingMilestones, projects, resources, contracts, rateCards, getRoleCost, getSellRate, companyCalendar, projectExpenses]);
+    }, [assignments, allocations, billingMilestones, projects, resources, contracts, rateCards, getRoleCost, getSellRate, personDaysOn, projectExpenses, fxRates, reportingCurrency]);
+
+    const missingCurrencies = useMemo(
+        () => Array.from(new Set([...industryMissingCurrencies, ...revenueMissingCurrencies])).sort(),
+        [industryMissingCurrencies, revenueMissingCurrencies]
+    );
 
 
     // Totals
@@ -954,8 +1034,9 @@ const DashboardPage: React.FC = () => {
 
     const fteTotals = useMemo(() => {
         const totalDays = fteData.reduce((sum, d) => sum + d.totalPersonDays, 0);
+        const tentativeDays = fteData.reduce((sum, d) => sum + d.tentativePersonDays, 0);
         const totalFte = fteData.reduce((sum, d) => sum + d.fte, 0);
-        return { totalDays, totalFte };
+        return { totalDays, tentativeDays, totalFte };
     }, [fteData]);
 
     const budgetTotals = useMemo(() => {
@@ -1002,7 +1083,7 @@ const DashboardPage: React.FC = () => {
             case 'kpiHeader': return <KpiHeaderCards key={cardId} overallKPIs={overallKPIs} currentMonthKPIs={currentMonthKPIs} />;
             case 'attentionCards': return <AttentionCards key={cardId} overallKPIs={overallKPIs} navigate={navigate} />;
             case 'leavesOverview': return <LeavesOverviewCard key={cardId} navigate={navigate} />;
-            case 'unallocatedFte': return <UnallocatedFteCard key={cardId} kpis={currentMonthKPIs} />;
+            case 'unallocatedFte': return <UnallocatedFteCard key={cardId} kpis={currentMonthKPIs} bookingFilter={unallocatedFteBookingFilter} setBookingFilter={setUnallocatedFteBookingFilter} />;
             case 'averageAllocation': return <AverageAllocationCard key={cardId} data={averageAllocationData} filter={avgAllocFilter} setFilter={setAvgAllocFilter} resourceOptions={activeResources.map(r => ({ value: r.id!, label: r.name }))} totals={avgAllocationTotals} isLoading={loading} />;
             case 'ftePerProject': return <FtePerProjectCard key={cardId} data={fteData} filter={fteFilter} setFilter={setFteFilter} clientOptions={clients.map(c => ({ value: c.id!, label: c.name }))} totals={fteTotals} isLoading={loading} />;
             case 'budgetAnalysis': return <BudgetAnalysisCard key={cardId} data={budgetAnalysisData} filter={budgetFilter} setFilter={setBudgetFilter} clientOptions={clients.map(c => ({ value: c.id!, label: c.name }))} totals={budgetTotals} isLoading={loading} />;
@@ -1016,15 +1097,17 @@ const DashboardPage: React.FC = () => {
             case 'saturationTrend': return <SaturationTrendCard key={cardId} trendResource={trendResource} setTrendResource={setTrendResource} resourceOptions={activeResources.map(r => ({ value: r.id!, label: r.name }))} data={saturationTrendData} />;
             case 'costForecast': return <CostForecastCard key={cardId} data={monthlyCostForecastData} />;
             case 'allocationMatrix': return <AllocationMatrixCard key={cardId} data={allocationMatrixData} isLoading={loading} />;
-            case 'revenueByIndustry': return <RevenueByIndustryCard key={cardId} data={revenueByIndustryData} isLoading={loading} />;
+            case 'revenueByIndustry': return <RevenueByIndustryCard key={cardId} data={revenueByIndustryData} isLoading={loading} currency={reportingCurrency} />;
             case 'benchByFunction': return <BenchByFunctionCard key={cardId} data={benchData.byFunction} isLoading={loading} />;
             case 'benchByIndustry': return <BenchByIndustryCard key={cardId} data={benchData.byIndustry} isLoading={loading} />;
             case 'wbsSaturation': return <WbsSaturationCard key={cardId} data={wbsSaturationData} isLoading={loading} />;
             case 'noWbsLeakage': return <NoWbsLeakageCard key={cardId} leakageAmount={noWbsLeakageAmount} navigate={navigate} />;
+            case 'contractExhaustion': return <ContractExhaustionCard key={cardId} data={contractExhaustionData} alertWeeks={contractExhaustionAlertWeeks} isLoading={loading} />;
             case 'contractExpirations': return <ContractExpirationsCard key={cardId} data={contractExpirationsData} isLoading={loading} />;
-            case 'revenueMix': return <RevenueMixCard key={cardId} data={revenueMixData} isLoading={loading} />;
-            case 'billingPipeline': return <BillingPipelineCard key={cardId} data={billingPipelineData} isLoading={loading} />;
-            case 'topMarginProjects': return <TopMarginProjectsCard key={cardId} data={topMarginProjectsData} isLoading={loading} />;
+            case 'revenueMix': return <RevenueMixCard key={cardId} data={revenueMixData} isLoading={loading} currency={reportingCurrency} />;
+            case 'billingPipeline': return <BillingPipelineCard key={cardId} data={billingPipelineData} isLoading={loading} currency={reportingCurrency} />;
+            case 'topMarginProjects': return <TopMarginProjectsCard key={cardId} data={topMarginProjectsData} isLoading={loading} currency={reportingCurrency} />;
+            case 'portfolioEvm': return <PortfolioEvmCard key={cardId} portfolio={portfolioEvm} data={portfolioEvmData} isLoading={loading} />;
             default: return null;
         }
     };
@@ -1034,7 +1117,23 @@ const DashboardPage: React.FC = () => {
 
     return (
         <div className="space-y-6">
-            <h1 className="text-2xl sm:text-3xl font-bold text-on-surface">Dashboard</h1>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h1 className="text-2xl sm:text-3xl font-bold text-on-surface">Dashboard</h1>
+                {reportingCurrencies.length > 1 && (
+                    <label className="flex items-center gap-2 text-sm text-on-surface-variant">
+                        Valuta ricavi
+                        <select value={reportingCurrency} onChange={e => setReportingCurrency(e.target.value)} className="form-select text-sm py-1 w-auto">
+                            {reportingCurrencies.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </label>
+                )}
+            </div>
+            {missingCurrencies.length > 0 && (
+                <div className="flex items-center gap-2 p-3 rounded-xl bg-error-container text-on-error-container text-sm">
+                    <span className="material-symbols-outlined">currency_exchange</span>
+                    Cambio mancante per {missingCurrencies.join(', ')}: gli importi relativi sono esclusi dalle card di ricavo.
+                </div>
+            )}
             
             {/* Tabs */}
             <div className="flex border-b border-outline-variant overflow-x-auto">
@@ -9,9 +9,12 @@ import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
 import { useLookupContext } from '../context/LookupContext';
 import { useHRContext } from '../context/HRContext';
-import { LeaveRequest, Project, Assignment } from '../types';
-import { getWorkingDaysBetween, getLeaveDurationInWorkingDays, parseISODate, isHoliday, buildHolidaySet, isHolidayInSet, getWorkingDaysBetweenWithSet } from '../utils/dateUtils';
-import { isProjectVisibleInStaffing } from '../utils/allocationUtils';
+import { LeaveRequest, Project, Assignment, Resource } from '../types';
+import { getWorkingDaysBetween, parseISODate, isHoliday, buildHolidaySet, isHolidayInSet, toISODateString } from '../utils/dateUtils';
+import { getAllocatedPersonDays, getScheduledLeaveDays, getScheduledWorkingDays, groupWorkSchedulesByResource } from '../utils/workScheduleUtils';
+import { useAllocationWindow } from '../hooks/useAllocationWindow';
+import { isProjectVisibleInStaffing, isTentativeAssignment, matchesBookingFilter, BookingStatusFilter, BOOKING_STATUS_FILTER_OPTIONS } from '../utils/allocationUtils';
+import { isPlaceholderAssignment } from '../utils/placeholderUtils';
 import MultiSelectDropdown from '../components/MultiSelectDropdown';
 
 /**
@@ -21,17 +24,28 @@ import MultiSelectDropdown from '../components/MultiSelectDropdown';
  */
 const ForecastingPage: React.FC = () => {
     // Corrected destructuring using functions instead of horizontals
-    const { resources } = useResourcesContext();
+    const { resources, workSchedules } = useResourcesContext();
     const { assignments, clients, projects } = useProjectsContext();
-    const { functions, companyCalendar } = useLookupContext();
+    const { functions, companyCalendar, locationCalendars } = useLookupContext();
     const { leaveRequests, leaveTypes } = useHRContext();
     const { allocations } = useAllocationsContext();
     const [forecastHorizon] = useState(12); // Orizzonte temporale in mesi
     // Updated filters state horizontal -> function
     const [filters, setFilters] = useState({ function: [] as string[], clientId: [] as string[], projectId: [] as string[] });
+    const [bookingFilter, setBookingFilter] = useState<BookingStatusFilter>('ALL'); // Confermate / provvisorie
     const [enableProjections, setEnableProjections] = useState(true); // Toggle per attivare l'algoritmo predittivo
     const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
 
+    // L'orizzonte del forecast può superare la finestra di pianificazione caricata all'avvio
+    const horizonWindow = useMemo(() => {
+        const today = new Date();
+        return {
+            start: toISODateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1))),
+            end: toISODateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + forecastHorizon, 0))),
+        };
+    }, [forecastHorizon]);
+    useAllocationWindow(horizonWindow.start, horizonWindow.end);
+
     useEffect(() => {
         const handleResize = () => setIsMobile(window.innerWidth < 768);
         window.addEventListener('resize', handleResize);
@@ -60,19 +74,24 @@ const ForecastingPage: React.FC = () => {
 
     const resetFilters = () => {
         setFilters({ function: [], clientId: [], projectId: [] });
+        setBookingFilter('ALL');
     };
 
     // OPTIMIZATION: Set di festività precompilato per lookup O(1) nei loop caldi.
     // Usa l'utility condivisa in dateUtils, così la semantica (festività
     // nazionali/locali, normalizzazione date UTC) è IDENTICA a getWorkingDaysBetween
     // usato in Dashboard/Report — evita divergenze tra i KPI delle diverse pagine.
-    const holidaySet = useMemo(() => buildHolidaySet(companyCalendar), [companyCalendar]);
+    const holidaySet = useMemo(() => buildHolidaySet(companyCalendar, locationCalendars), [companyCalendar, locationCalendars]);
 
     const checkIsHolidayOptimized = (date: Date, location: string | null) =>
         isHolidayInSet(date, location, holidaySet);
 
-    const getWorkingDaysOptimized = (startDate: Date, endDate: Date, location: string | null): number =>
-        getWorkingDaysBetweenWithSet(startDate, endDate, holidaySet, location);
+    // Capacità secondo l'orario di lavoro della risorsa (part-time); senza orario coincide con
+    // getWorkingDaysBetweenWithSet. I segnaposto non hanno orario né capacità.
+    const schedulesByResource = useMemo(() => groupWorkSchedulesByResource(workSchedules), [workSchedules]);
+
+    const getWorkingDaysOptimized = (startDate: Date, endDate: Date, resource: Resource): number =>
+        getScheduledWorkingDays(startDate, endDate, holidaySet, resource.location, schedulesByResource.get(resource.id!));
 
     // 1. Pre-calcolo della media storica per ogni assegnazione
     const historicalAverages = useMemo(() => {
@@ -129,7 +148,9 @@ const ForecastingPage: React.FC = () => {
 
         // Allineamento con Staffing/Workload: i progetti "Completato" non partecipano
         // al forecast, né con le allocazioni residue né con le proiezioni predittive.
-        let assignmentsToConsider = assignments.filter(a => isProjectVisibleInStaffing(projectMap.get(a.projectId)));
+        let assignmentsToConsider = assignments.filter(a =>
+            isProjectVisibleInStaffing(projectMap.get(a.projectId)) && matchesBookingFilter(a, bookingFilter)
+        );
 
         if (filters.projectId.length > 0) {
             assignmentsToConsider = assignmentsToConsider.filter(a => filters.projectId.includes(a.projectId || ''));
@@ -151,6 +172,10 @@ const ForecastingPage: React.FC = () => {
              assignmentsByResource.get(a.resourceId)?.push(a);
         });
 
+        // Segnaposto di ruolo: domanda non ancora coperta da una risorsa, quindi senza function
+        // (esclusi se si filtra per function) e senza capacità associata.
+        const placeholderAssignments = filters.function.length === 0 ? assignmentsToConsider.filter(isPlaceholderAssignment) : [];
+
         // Group Leaves by Resource for faster access
         const leavesByResource = new Map<string, LeaveRequest[]>();
         leaveRequests.forEach(l => {
@@ -185,15 +210,16 @@ const ForecastingPage: React.FC = () => {
                 if (effectiveStartDate > effectiveEndDate) return;
                 
                 // Standard capacity based on contract
-                const workingDays = getWorkingDaysOptimized(effectiveStartDate, effectiveEndDate, resource.location);
+                const workingDays = getWorkingDaysOptimized(effectiveStartDate, effectiveEndDate, resource);
                 
                 // Subtract LEAVES impact
                 const resourceLeaves = leavesByResource.get(resource.id!) || [];
+                const resourceSchedules = schedulesByResource.get(resource.id!);
                 let leaveDaysLost = 0;
                 resourceLeaves.forEach(leave => {
                     const type = leaveTypes.find(t => t.id === leave.typeId);
                     // Use utility to calculate overlap in working days
-                    leaveDaysLost += getLeaveDurationInWorkingDays(firstDayOfMonth, lastDayOfMonth, leave, type, companyCalendar, resource.location);
+                    leaveDaysLost += getScheduledLeaveDays(firstDayOfMonth, lastDayOfMonth, leave, type, holidaySet, resource.location, resourceSchedules);
                 });
 
                 const staffingFactor = (resource.maxStaffingPercentage || 100) / 100;
@@ -204,9 +230,14 @@ const ForecastingPage: React.FC = () => {
             // 2. Calcolo Allocazioni (Reali + Proiettate)
             let allocatedPersonDays = 0;
             let projectedPersonDays = 0;
+            // Quota provvisoria (allocazioni + proiezioni su assegnazioni TENTATIVE), già inclusa in allocatedPersonDays
+            let tentativePersonDays = 0;
+            // Quota dei segnaposto di ruolo, già inclusa in allocatedPersonDays
+            let placeholderPersonDays = 0;
 
             filteredResources.forEach(resource => {
                 const resourceAssignments = assignmentsByResource.get(resource.id!) || [];
+                const resourceSchedules = schedulesByResource.get(resource.id!);
                 
                 resourceAssignments.forEach(assignment => {
                     const project = projectMap.get(assignment.projectId);
@@ -229,6 +260,7 @@ const ForecastingPage: React.FC = () => {
                     
                     if (activeStart > effectiveEnd) return;
 
+                    const isTentative = isTentativeAssignment(assignment);
                     const assignmentAllocations = allocations[assignment.id!];
                     let hasHardBookingInMonth = false;
 
@@ -237,15 +269,13 @@ const ForecastingPage: React.FC = () => {
                         for (const dateStr in assignmentAllocations) {
                             if (dateStr.startsWith(targetMonthIso)) {
                                 const allocDate = parseISODate(dateStr);
-                                
-                                // Check if it is a working day (allocations on weekends shouldn't count towards working days usage usually, but we check holiday map)
-                                if (!checkIsHolidayOptimized(allocDate, resource.location)) {
-                                     // Also check strict UTC day for weekends (0=Sun, 6=Sat)
-                                    const day = allocDate.getUTCDay();
-                                    if (day !== 0 && day !== 6) {
-                                        allocatedPersonDays += (assignmentAllocations[dateStr] / 100);
-                                        hasHardBookingInMonth = true;
-                                    }
+
+                                // Giorni/uomo secondo l'orario della risorsa: zero su festività e giorni non lavorati
+                                const personDays = getAllocatedPersonDays(assignmentAllocations[dateStr], allocDate, holidaySet, resource.location, resourceSchedules);
+                                if (personDays > 0) {
+                                    allocatedPersonDays += personDays;
+                                    if (isTentative) tentativePersonDays += personDays;
+                                    hasHardBookingInMonth = true;
                                 }
                             }
                         }
@@ -258,15 +288,32 @@ const ForecastingPage: React.FC = () => {
                         const avgPercent = historicalAverages[assignment.id!] || 0;
                         
                         if (avgPercent > 0) {
-                            const potentialWorkingDays = getWorkingDaysOptimized(activeStart, effectiveEnd, resource.location);
+                            const potentialWorkingDays = getWorkingDaysOptimized(activeStart, effectiveEnd, resource);
                             const projectedLoad = potentialWorkingDays * (avgPercent / 100);
                             allocatedPersonDays += projectedLoad;
                             projectedPersonDays += projectedLoad;
+                            if (isTentative) tentativePersonDays += projectedLoad;
                         }
                     }
                 });
             });
 
+            placeholderAssignments.forEach(assignment => {
+                const assignmentAllocations = allocations[assignment.id!];
+                if (!assignmentAllocations) return;
+                const isTentative = isTentativeAssignment(assignment);
+                for (const dateStr in assignmentAllocations) {
+                    if (!dateStr.startsWith(targetMonthIso)) continue;
+                    const allocDate = parseISODate(dateStr);
+                    const day = allocDate.getUTCDay();
+                    if (day === 0 || day === 6 || checkIsHolidayOptimized(allocDate, null)) continue;
+                    const load = assignmentAllocations[dateStr] / 100;
+                    allocatedPersonDays += load;
+                    placeholderPersonDays += load;
+                    if (isTentative) tentativePersonDays += load;
+                }
+            });
+
             const utilization = availablePersonDays > 0 ? (allocatedPersonDays / availablePersonDays) * 100 : 0;
             const isProjected = projectedPersonDays > 0;
             
@@ -275,6 +322,8 @@ const ForecastingPage: React.FC = () => {
                 availablePersonDays,
                 allocatedPersonDays,
                 projectedPersonDays,
+                tentativePersonDays,
+                placeholderPersonDays,
                 utilization,
                 surplusDeficit: availablePersonDays - allocatedPersonDays,
                 isProjected
@@ -283,7 +332,7 @@ const ForecastingPage: React.FC = () => {
 
         return results;
 
-    }, [resources, assignments, allocations, forecastHorizon, filters, projects, holidaySet, historicalAverages, enableProjections, leaveRequests, leaveTypes, companyCalendar]);
+    }, [resources, assignments, allocations, forecastHorizon, filters, projects, holidaySet, schedulesByResource, historicalAverages, enableProjections, bookingFilter, leaveRequests, leaveTypes]);
 
     const maxUtilization = Math.max(...forecastData.map(d => d.utilization), 100);
 
@@ -329,6 +378,12 @@ const ForecastingPage: React.FC = () => {
                     <div className="bg-surface-container-low p-2 rounded border border-outline-variant text-center">
                         <span className="block text-xs text-on-surface-variant">Allocati</span>
                         <span className="font-semibold text-on-surface">{data.allocatedPersonDays.toFixed(1)} G/U</span>
+                        {data.tentativePersonDays > 0 && (
+                            <span className="block text-[10px] italic text-on-surface-variant">di cui {data.tentativePersonDays.toFixed(1)} provvisori</span>
+                        )}
+                        {data.placeholderPersonDays > 0 && (
+                            <span className="block text-[10px] text-on-surface-variant">di cui {data.placeholderPersonDays.toFixed(1)} da coprire</span>
+                        )}
                     </div>
                 </div>
 
@@ -358,7 +413,7 @@ const ForecastingPage: React.FC = () => {
             </div>
 
             <div className="mb-6 p-4 bg-surface rounded-2xl shadow">
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
                     <div>
                         <label className="block text-sm font-medium text-on-surface-variant">Function</label>
                         <MultiSelectDropdown name="function" selectedValues={filters.function} onChange={handleFilterChange} options={functionOptions} placeholder="Tutte le Function"/>
@@ -371,6 +426,17 @@ const ForecastingPage: React.FC = () => {
                         <label className="block text-sm font-medium text-on-surface-variant">Progetto</label>
                         <MultiSelectDropdown name="projectId" selectedValues={filters.projectId} onChange={handleFilterChange} options={projectOptions} placeholder="Tutti i Progetti"/>
                     </div>
+                    <div>
+                        <label htmlFor="forecast-booking-filter" className="block text-sm font-medium text-on-surface-variant">Prenotazioni</label>
+                        <select
+                            id="forecast-booking-filter"
+                            value={bookingFilter}
+                            onChange={(e) => setBookingFilter(e.target.value as BookingStatusFilter)}
+                            className="form-select w-full"
+                        >
+                            {BOOKING_STATUS_FILTER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </div>
                     <button onClick={resetFilters} className="px-6 py-2 bg-secondary-container text-on-secondary-container font-semibold rounded-full hover:opacity-90 w-full md:w-auto">Reset Filtri</button>
                 </div>
             </div>
@@ -430,6 +496,12 @@ const ForecastingPage: React.FC = () => {
                                     <th className="px-6 py-3 text-right text-xs font-medium text-on-surface-variant uppercase tracking-wider">
                                         G/U Allocati
                                     </th>
+                                    <th className="px-6 py-3 text-right text-xs font-medium text-on-surface-variant uppercase tracking-wider">
+                                        di cui Provvisori
+                                    </th>
+                                    <th className="px-6 py-3 text-right text-xs font-medium text-on-surface-variant uppercase tracking-wider" title="Allocazioni dei segnaposto di ruolo, non ancora coperte da una risorsa">
+                                        di cui da Coprire
+                                    </th>
                                     <th className="px-6 py-3 text-right text-xs font-medium text-on-surface-variant uppercase tracking-wider">
                                         Utilizzo
                                     </th>
@@ -450,6 +522,12 @@ const ForecastingPage: React.FC = () => {
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-on-surface-variant">
                                             {data.allocatedPersonDays.toFixed(1)}
                                         </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right italic text-on-surface-variant">
+                                            {data.tentativePersonDays > 0 ? data.tentativePersonDays.toFixed(1) : '-'}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-on-surface-variant">
+                                            {data.placeholderPersonDays > 0 ? data.placeholderPersonDays.toFixed(1) : '-'}
+                                        </td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold">
                                             <span className={data.utilization > 100 ? 'text-error' : data.utilization > 95 ? 'text-tertiary' : 'text-yellow-600 dark:text-yellow-400'}>
                                                 {data.utilization.toFixed(1)}%
@@ -1,18 +1,26 @@
 
 /**
  * @file GanttPage.tsx
- * @description Pagina con vista Gantt interattiva per i progetti, con legenda e righe di riepilogo.
+ * @description Pagina con vista Gantt interattiva per i progetti, con legenda e righe di riepilogo,
+ * e vista degli scostamenti rispetto alle baseline di pianificazione.
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
-import { Resource } from '../types';
+import { useToast } from '../context/ToastContext';
+import { apiFetch } from '../services/apiClient';
+import { BaselineVariance, PlanningBaseline, Resource } from '../types';
 import MultiSelectDropdown from '../components/MultiSelectDropdown';
 import ExportButton from '../components/ExportButton';
+import BaselineVariancePanel from '../components/BaselineVariancePanel';
+import ConfirmationModal from '../components/ConfirmationModal';
+import { BaselineCreateRequest } from '../utils/baselineUtils';
+import { getErrorMessage } from '../utils/getErrorMessage';
 import { formatDateFull } from '../utils/dateUtils';
 
 type ZoomLevel = 'month' | 'quarter' | 'year';
+type ViewMode = 'gantt' | 'baseline';
 type SortDirection = 'ascending' | 'descending';
 
 // Colonne temporali più strette ma leggibili
@@ -32,6 +40,79 @@ const GanttPage: React.FC = () => {
     const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set());
     const [filters, setFilters] = useState({ name: '', clientId: [] as string[] });
     const [sortDirection, setSortDirection] = useState<SortDirection>('ascending');
+    const { addToast } = useToast();
+
+    // --- Baseline di pianificazione (caricate solo aprendo la vista) ---
+    const [viewMode, setViewMode] = useState<ViewMode>('gantt');
+    const [baselines, setBaselines] = useState<PlanningBaseline[] | null>(null);
+    const [selectedBaselineId, setSelectedBaselineId] = useState('');
+    const [variance, setVariance] = useState<BaselineVariance | null>(null);
+    const [isLoadingVariance, setIsLoadingVariance] = useState(false);
+    const [isCreatingBaseline, setIsCreatingBaseline] = useState(false);
+    const [baselineToDelete, setBaselineToDelete] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (viewMode !== 'baseline' || baselines !== null) return;
+        apiFetch<PlanningBaseline[]>('/api/staffing?action=baseline')
+            .then(list => setBaselines(list || []))
+            .catch(e => {
+                setBaselines([]);
+                addToast(getErrorMessage(e) || 'Errore durante il caricamento delle baseline.', 'error');
+            });
+    }, [viewMode, baselines, addToast]);
+
+    useEffect(() => {
+        setVariance(null);
+        if (!selectedBaselineId) return;
+        let cancelled = false;
+        setIsLoadingVariance(true);
+        apiFetch<BaselineVariance>(`/api/staffing?action=baseline&id=${selectedBaselineId}`)
+            .then(result => { if (!cancelled) setVariance(result); })
+            .catch(e => addToast(getErrorMessage(e) || 'Errore durante il calcolo degli scostamenti.', 'error'))
+            .finally(() => { if (!cancelled) setIsLoadingVariance(false); });
+        return () => { cancelled = true; };
+    }, [selectedBaselineId, addToast]);
+
+    const handleCreateBaseline = useCallback(async (request: BaselineCreateRequest): Promise<boolean> => {
+        setIsCreatingBaseline(true);
+        try {
+            const created = await apiFetch<PlanningBaseline>('/api/staffing?action=baseline', {
+                method: 'POST', body: JSON.stringify(request)
+            });
+            setBaselines(prev => [created, ...(prev || [])]);
+            setSelectedBaselineId(created.id!);
+            addToast(`Baseline "${created.name}" salvata (${created.totalPersonDays} g/u).`, 'success');
+            return true;
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il salvataggio della baseline.', 'error');
+            return false;
+        } finally {
+            setIsCreatingBaseline(false);
+        }
+    }, [addToast]);
+
+    const handleDeleteBaseline = async () => {
+        if (!baselineToDelete) return;
+        try {
+            await apiFetch(`/api/staffing?action=baseline&id=${baselineToDelete}`, { method: 'DELETE' });
+            setBaselines(prev => (prev || []).filter(b => b.id !== baselineToDelete));
+            if (selectedBaselineId === baselineToDelete) setSelectedBaselineId('');
+            addToast('Baseline eliminata.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'eliminazione della baseline.', 'error');
+        } finally {
+            setBaselineToDelete(null);
+        }
+    };
+
+    const projectNameMap = useMemo(() => new Map(projects.map(p => [p.id!, p.name])), [projects]);
+    const resourceNameMap = useMemo(() => new Map(resources.map(r => [r.id, r.name])), [resources]);
+    const getProjectName = useCallback((id: string) => projectNameMap.get(id) || 'Progetto eliminato', [projectNameMap]);
+    const getResourceName = useCallback((id: string) => resourceNameMap.get(id) || 'Risorsa eliminata', [resourceNameMap]);
+    const projectOptions = useMemo(
+        () => projects.map(p => ({ value: p.id!, label: p.name })).sort((a, b) => a.label.localeCompare(b.label)),
+        [projects]
+    );
 
     const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setFilters(prev => ({ ...prev, [e.target.name]: e.target.value }));
@@ -234,6 +315,21 @@ const GanttPage: React.FC = () => {
                 <h1 className="text-2xl sm:text-3xl font-bold text-on-surface">Gantt di Progetto</h1>
 
                 <div className="flex flex-wrap items-center gap-2 w-full md:w-auto justify-start md:justify-end">
+                    <div className="flex items-center bg-surface-container p-1 rounded-full">
+                        {(['gantt', 'baseline'] as ViewMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setViewMode(mode)}
+                                className={`px-3 py-1 text-sm font-medium rounded-full transition-all ${
+                                    viewMode === mode ? 'bg-surface text-primary shadow' : 'text-on-surface-variant hover:text-on-surface'
+                                }`}
+                            >
+                                {mode === 'gantt' ? 'Gantt' : 'Scostamenti Baseline'}
+                            </button>
+                        ))}
+                    </div>
+                    {viewMode === 'gantt' && (
+                    <>
                     <div className="flex items-center bg-surface-container p-1 rounded-full">
                         {(['month', 'quarter', 'year'] as ZoomLevel[]).map((level) => (
                             <button
@@ -248,9 +344,27 @@ const GanttPage: React.FC = () => {
                         ))}
                     </div>
                      <ExportButton data={exportData} title="Gantt Progetti" />
+                    </>
+                    )}
                 </div>
             </div>
 
+            {viewMode === 'baseline' ? (
+                <BaselineVariancePanel
+                    baselines={baselines || []}
+                    selectedBaselineId={selectedBaselineId}
+                    onSelectBaseline={setSelectedBaselineId}
+                    variance={variance}
+                    isLoadingVariance={isLoadingVariance}
+                    projectOptions={projectOptions}
+                    getProjectName={getProjectName}
+                    getResourceName={getResourceName}
+                    onCreate={handleCreateBaseline}
+                    onDelete={setBaselineToDelete}
+                    isCreating={isCreatingBaseline}
+                />
+            ) : (
+            <>
             {/* Filters */}
             <div className="bg-surface rounded-2xl shadow p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
                 <div className="md:col-span-1">
@@ -383,6 +497,17 @@ const GanttPage: React.FC = () => {
                     </div>
                 </div>
             </div>
+            </>
+            )}
+
+            <ConfirmationModal
+                isOpen={!!baselineToDelete}
+                onClose={() => setBaselineToDelete(null)}
+                onConfirm={handleDeleteBaseline}
+                title="Elimina Baseline"
+                message="La baseline e le allocazioni congelate verranno eliminate definitivamente. Il piano corrente non viene modificato."
+                confirmButtonText="Elimina"
+            />
         </div>
     );
 };
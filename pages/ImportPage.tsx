@@ -5,8 +5,9 @@ import { exportTemplate } from '../utils/exportUtils';
 import { SpinnerIcon } from '../components/icons';
 import { useAuth } from '../context/AuthContext';
 import { apiFetch } from '../services/apiClient';
+import { parseTimesheetCsv } from '../utils/timesheetUtils';
 
-type ImportType = 'core_entities' | 'staffing' | 'resource_requests' | 'interviews' | 'skills' | 'leaves' | 'users_permissions' | 'tutor_mapping';
+type ImportType = 'core_entities' | 'staffing' | 'resource_requests' | 'interviews' | 'skills' | 'leaves' | 'users_permissions' | 'tutor_mapping' | 'timesheets';
 
 const importOptions: { value: ImportType; label: string; sheetName: string; adminOnly?: boolean }[] = [
     { value: 'core_entities', label: 'Entità Principali (Risorse, Progetti, etc.)', sheetName: 'Multiple' },
@@ -17,6 +18,7 @@ const importOptions: { value: ImportType; label: string; sheetName: string; admi
     { value: 'leaves', label: 'Assenze (Leaves)', sheetName: 'Assenze' },
     { value: 'users_permissions', label: 'Utenti e Permessi (Admin)', sheetName: 'Utenti', adminOnly: true },
     { value: 'tutor_mapping', label: 'Mappatura Tutor', sheetName: 'Mappatura_Tutor' },
+    { value: 'timesheets', label: 'Timesheet (Ore Consuntivate)', sheetName: 'Timesheet' },
 ];
 
 const ImportPage: React.FC = () => {
@@ -51,6 +53,28 @@ const ImportPage: React.FC = () => {
         setIsImporting(true);
         setImportResult(null);
 
+        const submitImport = async (body: any) => {
+            const result = await apiFetch<any>(`/api/import?type=${importType}`, {
+                method: 'POST',
+                body: JSON.stringify(body),
+            });
+
+            setImportResult({ success: true, message: result.message, details: result.warnings });
+            fetchData(); // Refresh all app data
+        };
+
+        // I timesheet esportati da sistemi esterni arrivano spesso in CSV: letto come testo, senza XLSX
+        if (importType === 'timesheets' && file.name.toLowerCase().endsWith('.csv')) {
+            try {
+                await submitImport({ timesheets: parseTimesheetCsv(await file.text()) });
+            } catch (error) {
+                setImportResult({ success: false, message: `Importazione fallita: ${(error as Error).message}` });
+            } finally {
+                setIsImporting(false);
+            }
+            return;
+        }
+
         try {
             const XLSX = await import('@/utils/excelAdapter');
             const reader = new FileReader();
@@ -106,15 +130,12 @@ const ImportPage: React.FC = () => {
                                 mapping: XLSX.utils.sheet_to_json(workbook.Sheets['Mappatura_Tutor'] || {})
                             };
                             break;
+                        case 'timesheets':
+                            body = { timesheets: XLSX.utils.sheet_to_json(workbook.Sheets['Timesheet'] || {}) };
+                            break;
                     }
 
-                    const result = await apiFetch<any>(`/api/import?type=${importType}`, {
-                        method: 'POST',
-                        body: JSON.stringify(body),
-                    });
-
-                    setImportResult({ success: true, message: result.message, details: result.warnings });
-                    fetchData(); // Refresh all app data
+                    await submitImport(body);
                 } catch (error) {
                     setImportResult({ success: false, message: `Importazione fallita: ${(error as Error).message}` });
                 } finally {
@@ -164,6 +185,9 @@ const ImportPage: React.FC = () => {
                  <div>
                     <h2 className="text-xl font-semibold mb-3 flex items-center"><span className="bg-primary text-on-primary rounded-full h-8 w-8 text-sm flex items-center justify-center mr-3">2</span> Scarica e compila il template</h2>
                     <p className="text-on-surface-variant mb-4 text-sm">Scarica il file Excel, compilalo con i tuoi dati e salvalo. Non modificare i nomi dei fogli o delle colonne.</p>
+                    {importType === 'timesheets' && (
+                        <p className="text-on-surface-variant mb-4 text-sm">Per i timesheet è accettato anche un file CSV (separatore <code>;</code> o <code>,</code>) con le stesse colonne. Le righe di settimane già approvate vengono ignorate.</p>
+                    )}
                      <button
                         onClick={handleDownloadTemplate}
                         className="inline-flex items-center justify-center px-4 py-2 bg-secondary text-on-secondary font-semibold rounded-full shadow-sm hover:opacity-90 transition-colors duration-200"
@@ -183,7 +207,7 @@ const ImportPage: React.FC = () => {
                                 ref={fileInputRef}
                                 type="file" 
                                 className="hidden" 
-                                accept=".xlsx, .xls" 
+                                accept={importType === 'timesheets' ? '.xlsx, .xls, .csv' : '.xlsx, .xls'} 
                                 onChange={handleFileChange} 
                             />
                             {/* Pulsante custom per triggerare l'input */}
@@ -3,6 +3,12 @@ import React, { useMemo, useState } from 'react';
 import { useUIConfigContext } from '../context/UIConfigContext';
 import { useVisibleNotifications } from '../hooks/useVisibleNotifications';
 import { useNavigate } from 'react-router-dom';
+import { useAllocationsContext } from '../context/AppContext';
+import { useResourcesContext } from '../context/ResourcesContext';
+import { useProjectsContext } from '../context/ProjectsContext';
+import Modal from '../components/Modal';
+import { formatDateSynthetic } from '../utils/dateUtils';
+import { AllocationProposal } from '../types';
 
 const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -19,6 +25,130 @@ const formatDate = (dateString: string) => {
     }
 };
 
+/** Lotto di proposte di allocazione inviato in un'unica modifica, per risorsa e progetto. */
+interface ProposalBatch {
+    key: string;
+    proposals: AllocationProposal[];
+}
+
+/**
+ * Proposte di allocazione in attesa che l'utente corrente può accettare o rifiutare
+ * (modalità di approvazione REQUIRED). Accettandole, le giornate vengono scritte in `allocations`.
+ */
+const AllocationProposalsSection: React.FC = () => {
+    const { allocationProposals, reviewAllocationProposals } = useAllocationsContext();
+    const { resources } = useResourcesContext();
+    const { projects, assignments } = useProjectsContext();
+    const [batchToReject, setBatchToReject] = useState<ProposalBatch | null>(null);
+    const [rejectNotes, setRejectNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const batches = useMemo(() => {
+        const byKey = new Map<string, AllocationProposal[]>();
+        allocationProposals
+            .filter(p => p.status === 'PENDING' && p.canReview)
+            .forEach(p => {
+                const key = `${p.batchId}|${p.assignmentId}`;
+                byKey.set(key, [...(byKey.get(key) || []), p]);
+            });
+        return Array.from(byKey, ([key, proposals]) => ({
+            key,
+            proposals: [...proposals].sort((a, b) => a.date.localeCompare(b.date)),
+        }));
+    }, [allocationProposals]);
+
+    if (batches.length === 0) return null;
+
+    const describe = (batch: ProposalBatch) => {
+        const first = batch.proposals[0];
+        const assignment = assignments.find(a => a.id === first.assignmentId);
+        const resourceName = resources.find(r => r.id === (first.resourceId || assignment?.resourceId))?.name || 'Risorsa';
+        const projectName = projects.find(p => p.id === (first.projectId || assignment?.projectId))?.name || 'Progetto';
+        return { first, resourceName, projectName };
+    };
+
+    const handleReview = async (batch: ProposalBatch, status: 'APPROVED' | 'REJECTED', notes?: string) => {
+        setIsSaving(true);
+        const ok = await reviewAllocationProposals(batch.proposals.map(p => p.id), status, notes);
+        setIsSaving(false);
+        if (ok) {
+            setBatchToReject(null);
+            setRejectNotes('');
+        }
+    };
+
+    return (
+        <div className="bg-surface p-4 rounded-2xl shadow-sm border border-outline-variant space-y-3">
+            <h2 className="text-lg font-bold text-on-surface flex items-center gap-2">
+                <span className="material-symbols-outlined">approval</span>
+                Proposte di allocazione da approvare
+            </h2>
+            {batches.map(batch => {
+                const { first, resourceName, projectName } = describe(batch);
+                const last = batch.proposals[batch.proposals.length - 1];
+                const percentages = Array.from(new Set(batch.proposals.map(p => `${p.previousPercentage}% → ${p.percentage}%`)));
+                return (
+                    <div key={batch.key} className="p-4 rounded-xl bg-surface-container-low border border-outline-variant flex flex-col md:flex-row md:items-center justify-between gap-3">
+                        <div>
+                            <p className="font-bold text-on-surface">{resourceName} — {projectName}</p>
+                            <p className="text-sm text-on-surface-variant">
+                                {first.proposedBy} propone {batch.proposals.length} {batch.proposals.length === 1 ? 'giornata' : 'giornate'} dal {formatDateSynthetic(first.date)} al {formatDateSynthetic(last.date)}
+                            </p>
+                            <p className="text-xs text-on-surface-variant mt-1">{percentages.join(', ')}</p>
+                        </div>
+                        <div className="flex gap-2 flex-shrink-0">
+                            <button
+                                type="button"
+                                onClick={() => setBatchToReject(batch)}
+                                disabled={isSaving}
+                                className="px-4 py-2 border border-outline rounded-full text-error font-semibold hover:bg-surface-container disabled:opacity-50"
+                            >
+                                Rifiuta
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => handleReview(batch, 'APPROVED')}
+                                disabled={isSaving}
+                                className="px-4 py-2 bg-primary text-on-primary rounded-full font-bold hover:opacity-90 disabled:opacity-50"
+                            >
+                                Accetta
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+
+            {batchToReject && (
+                <Modal isOpen={!!batchToReject} onClose={() => setBatchToReject(null)} title="Rifiuta proposta di allocazione">
+                    <form
+                        onSubmit={e => {
+                            e.preventDefault();
+                            handleReview(batchToReject, 'REJECTED', rejectNotes.trim());
+                        }}
+                        className="space-y-4"
+                    >
+                        <p className="text-sm text-on-surface-variant">
+                            {describe(batchToReject).resourceName} — {describe(batchToReject).projectName}: le allocazioni attuali resteranno invariate
+                            e {batchToReject.proposals[0].proposedBy} riceverà una notifica.
+                        </p>
+                        <textarea
+                            value={rejectNotes}
+                            onChange={e => setRejectNotes(e.target.value)}
+                            rows={3}
+                            className="form-textarea w-full"
+                            placeholder="Motivo del rifiuto (facoltativo)"
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button type="button" onClick={() => setBatchToReject(null)} className="px-4 py-2 border border-outline rounded-full text-primary font-semibold hover:bg-surface-container">Annulla</button>
+                            <button type="submit" disabled={isSaving} className="px-4 py-2 bg-error text-on-error rounded-full font-bold hover:opacity-90 disabled:opacity-50">Rifiuta</button>
+                        </div>
+                    </form>
+                </Modal>
+            )}
+        </div>
+    );
+};
+
 const NotificationsPage: React.FC = () => {
     const { markNotificationAsRead } = useUIConfigContext();
     const notifications = useVisibleNotifications();
@@ -79,6 +209,8 @@ const NotificationsPage: React.FC = () => {
                 </div>
             </div>
 
+            <AllocationProposalsSection />
+
             {unreadCount > 0 && (
                 <div className="flex justify-end">
                      <button 
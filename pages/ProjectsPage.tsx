@@ -22,6 +22,7 @@ import PdfExportButton from '../components/PdfExportButton';
 import { PdfExportConfig, CHART_PALETTE } from '../utils/pdfExportUtils';
 import { BillingPlanModal } from './projects/BillingPlanModal';
 import { ProjectExpensesModal } from './projects/ProjectExpensesModal';
+import { ProjectEvmModal } from './projects/ProjectEvmModal';
 
 type EnrichedProject = Project & { 
     clientName: string; 
@@ -85,6 +86,7 @@ export const ProjectsPage: React.FC = () => {
     // State for Modals
     const [expenseModalProject, setExpenseModalProject] = useState<Project | null>(null);
     const [billingModalProject, setBillingModalProject] = useState<Project | null>(null);
+    const [evmModalProject, setEvmModalProject] = useState<Project | null>(null);
 
     // Debounce Effect
     useEffect(() => {
@@ -368,6 +370,9 @@ export const ProjectsPage: React.FC = () => {
                         <button onClick={() => setExpenseModalProject(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container hover:text-secondary" title="Gestisci Spese Extra">
                             <span className="material-symbols-outlined">receipt_long</span>
                         </button>
+                        <button onClick={() => setEvmModalProject(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container hover:text-primary" title="Earned Value (CPI/SPI)">
+                            <span className="material-symbols-outlined">query_stats</span>
+                        </button>
                         <button onClick={() => navigate(`/workload?projectId=${project.id}`)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container hover:text-primary" title="Vedi Carichi"><span className="material-symbols-outlined">bar_chart</span></button>
                         <button onClick={() => openModalForEdit(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container hover:text-primary" title="Modifica Dettagli"><span className="material-symbols-outlined">edit_note</span></button>
                         <button onClick={() => handleStartInlineEdit(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container hover:text-primary" title="Modifica Rapida"><span className="material-symbols-outlined">edit</span></button>
@@ -415,6 +420,7 @@ export const ProjectsPage: React.FC = () => {
                     <div className="flex items-center space-x-1">
                         <button onClick={() => setBillingModalProject(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high" title="Fatturazione"><span className="material-symbols-outlined">payments</span></button>
                         <button onClick={() => setExpenseModalProject(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high" title="Spese"><span className="material-symbols-outlined">receipt_long</span></button>
+                        <button onClick={() => setEvmModalProject(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high" title="Earned Value"><span className="material-symbols-outlined">query_stats</span></button>
                         <button onClick={() => navigate(`/workload?projectId=${project.id}`)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high"><span className="material-symbols-outlined">bar_chart</span></button>
                         <button onClick={() => openModalForEdit(project)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high"><span className="material-symbols-outlined">edit_note</span></button>
                         <button onClick={() => deleteProject(project.id!)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high">
@@ -653,6 +659,14 @@ export const ProjectsPage: React.FC = () => {
                     onClose={() => setBillingModalProject(null)}
                 />
             )}
+
+            {evmModalProject && (
+                <ProjectEvmModal
+                    project={evmModalProject}
+                    isOpen={!!evmModalProject}
+                    onClose={() => setEvmModalProject(null)}
+                />
+            )}
         </div>
     );
 };
@@ -1,25 +1,42 @@
 
 /**
  * @file RateCardsPage.tsx
- * @description Pagina Master-Detail per la gestione dei listini di vendita (Rate Cards) e delle tariffe per risorsa (Specific Resource Rate).
+ * @description Pagina Master-Detail per la gestione dei listini di vendita (Rate Cards): regole per ruolo, seniority e
+ * default, tariffe specifiche per risorsa (Specific Resource Rate) e tariffa effettiva con la regola che la produce.
  */
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { useAppState } from '../context/AppContext';
 import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
+import { useLookupContext } from '../context/LookupContext';
 import { useAuth } from '../context/AuthContext';
-import { RateCard, RateCardEntry, Resource } from '../types';
+import { RateCard, RateCardEntry, RateCardLine, RateCardLineType, Resource } from '../types';
 import Modal from '../components/Modal';
 import { SpinnerIcon } from '../components/icons';
 import ConfirmationModal from '../components/ConfirmationModal';
 import { formatCurrency } from '../utils/formatters';
+import { BASE_CURRENCY, CURRENCY_OPTIONS, convertAmount } from '../utils/fxUtils';
+import { formatDateFull, toISODateString } from '../utils/dateUtils';
+import { DEFAULT_LINE_KEY, RATE_HISTORY_START, SELL_RATE_SOURCE_LABELS, SellRateSource, getLineRateForDate, getRateTimeline, resolveSellRate } from '../utils/rateCardUtils';
+import FxRatesModal from '../components/FxRatesModal';
 import { useToast } from '../context/ToastContext';
 
+const lineId = (lineType: RateCardLineType, lineKey: string) => `${lineType}|${lineKey}`;
+
+const SOURCE_BADGE_CLASSES: Record<SellRateSource, string> = {
+    RESOURCE: 'bg-primary-container text-on-primary-container',
+    ROLE: 'bg-secondary-container text-on-secondary-container',
+    SENIORITY: 'bg-tertiary-container text-on-tertiary-container',
+    DEFAULT: 'bg-surface-container-high text-on-surface-variant',
+    NONE: 'bg-error-container text-on-error-container',
+};
+
 export default function RateCardsPage() {
     const { hasEntityVisibility } = useAuth();
-    const { rateCards, rateCardEntries, addRateCard, updateRateCard, deleteRateCard, upsertRateCardEntries } = useProjectsContext();
+    const { rateCards, rateCardEntries, rateCardEntryHistory, rateCardLines, addRateCard, updateRateCard, deleteRateCard, upsertRateCardEntries, fxRates } = useProjectsContext();
     const { roles, resources } = useResourcesContext();
+    const { seniorityLevels } = useLookupContext();
     const { isActionLoading, loading } = useAppState();
     const { addToast } = useToast();
 
@@ -30,11 +47,17 @@ export default function RateCardsPage() {
     const [isMasterModalOpen, setIsMasterModalOpen] = useState(false);
     const [editingCard, setEditingCard] = useState<RateCard | Omit<RateCard, 'id'> | null>(null);
     const [cardToDelete, setCardToDelete] = useState<RateCard | null>(null);
+    const [isFxModalOpen, setIsFxModalOpen] = useState(false);
 
     // Editing State for Detail (Entries)
-    // Map: resourceId -> rate (string)
+    // Map: resourceId -> rate (string); vuoto = nessuna tariffa specifica, vale la regola del listino
     const [localEntries, setLocalEntries] = useState<Record<string, string>>({});
+    // Map: `${lineType}|${lineKey}` -> rate (string) per le regole per ruolo, seniority e default
+    const [localLines, setLocalLines] = useState<Record<string, string>>({});
     const [hasUnsavedChanges, setHasChanges] = useState(false);
+    // Le modifiche valgono dalla decorrenza: i giorni precedenti mantengono le tariffe storiche
+    const [effectiveFrom, setEffectiveFrom] = useState(() => toISODateString(new Date()));
+    const [timelineResource, setTimelineResource] = useState<Resource | null>(null);
     // Filter by Role for UI clarity
     const [roleFilter, setRoleFilter] = useState<string>('all');
 
@@ -45,24 +68,51 @@ export default function RateCardsPage() {
         }
     }, [rateCards, selectedCardId]);
 
+    // Livelli di seniority con una regola possibile: quelli configurati e quelli usati dai ruoli
+    const seniorityKeys = useMemo(
+        () => Array.from(new Set([...seniorityLevels.map(s => s.value), ...roles.map(r => r.seniorityLevel)].filter(Boolean))),
+        [seniorityLevels, roles]
+    );
+
+    const ruleKeys = useMemo<[RateCardLineType, string][]>(() => [
+        ['DEFAULT', DEFAULT_LINE_KEY],
+        ...seniorityKeys.map(level => ['SENIORITY', level] as [RateCardLineType, string]),
+        ...roles.filter(r => r.id).map(r => ['ROLE', r.id!] as [RateCardLineType, string]),
+    ], [seniorityKeys, roles]);
+
+    // Tariffe salvate in vigore oggi, confrontate con le bozze per inviare solo le modifiche
+    const savedEntries = useMemo(() => {
+        const map: Record<string, number> = {};
+        rateCardEntries.filter(e => e.rateCardId === selectedCardId).forEach(e => { map[e.resourceId] = Number(e.dailyRate); });
+        return map;
+    }, [rateCardEntries, selectedCardId]);
+
+    const savedLines = useMemo(() => {
+        const map: Record<string, number> = {};
+        if (!selectedCardId) return map;
+        const todayStr = toISODateString(new Date());
+        ruleKeys.forEach(([lineType, lineKey]) => {
+            map[lineId(lineType, lineKey)] = getLineRateForDate(selectedCardId, lineType, lineKey, todayStr, rateCardLines);
+        });
+        return map;
+    }, [ruleKeys, rateCardLines, selectedCardId]);
+
     // Sync Local Entries when Selection Changes or Data Refreshes
     useEffect(() => {
+        const toDraft = (rate: number | undefined) => rate ? rate.toFixed(2) : '';
         if (selectedCardId) {
-            const relevantEntries = rateCardEntries.filter(e => e.rateCardId === selectedCardId);
             const map: Record<string, string> = {};
-            
             resources.filter(r => !r.resigned).forEach(res => {
-                const entry = relevantEntries.find(e => e.resourceId === res.id);
-                // If entry exists, use it. If not, default to 0.00
-                map[res.id!] = entry ? Number(entry.dailyRate).toFixed(2) : '0.00';
+                map[res.id!] = toDraft(savedEntries[res.id!]);
             });
             setLocalEntries(map);
-            setHasChanges(false);
+            setLocalLines(Object.fromEntries(Object.entries(savedLines).map(([key, rate]) => [key, toDraft(rate)])));
         } else {
             setLocalEntries({});
-            setHasChanges(false);
+            setLocalLines({});
         }
-    }, [selectedCardId, rateCardEntries, resources]);
+        setHasChanges(false);
+    }, [selectedCardId, savedEntries, savedLines, resources]);
 
 
     // --- HANDLERS FOR MASTER (RATE CARDS) ---
@@ -119,22 +169,42 @@ export default function RateCardsPage() {
         setHasChanges(true);
     };
 
+    const handleLineChange = (lineType: RateCardLineType, lineKey: string, value: string) => {
+        setLocalLines(prev => ({
+            ...prev,
+            [lineId(lineType, lineKey)]: value
+        }));
+        setHasChanges(true);
+    };
+
     const handleSaveEntries = async () => {
         if (!selectedCardId) return;
 
+        // Solo le tariffe modificate: una tariffa svuotata vale 0 e lascia spazio alla regola successiva
         const entriesPayload: RateCardEntry[] = Object.entries(localEntries)
-            // Filter only changed values or existing values > 0 to save DB space if desired, 
-            // but for full sync we send all non-zero.
-            // Here we send everything that was edited or loaded.
             .map(([resourceId, dailyRateStr]) => ({
                 rateCardId: selectedCardId,
                 resourceId,
-                dailyRate: parseFloat(dailyRateStr as string) || 0
+                dailyRate: parseFloat(dailyRateStr) || 0
             }))
-            .filter(e => e.dailyRate >= 0); // basic sanity check
+            .filter(e => e.dailyRate >= 0 && e.dailyRate !== (savedEntries[e.resourceId] ?? 0));
+
+        const linesPayload: Omit<RateCardLine, 'id' | 'startDate' | 'endDate'>[] = ruleKeys
+            .map(([lineType, lineKey]) => ({
+                rateCardId: selectedCardId,
+                lineType,
+                lineKey,
+                dailyRate: parseFloat(localLines[lineId(lineType, lineKey)] || '') || 0
+            }))
+            .filter(l => l.dailyRate >= 0 && l.dailyRate !== (savedLines[lineId(l.lineType, l.lineKey)] ?? 0));
+
+        if (entriesPayload.length === 0 && linesPayload.length === 0) {
+            setHasChanges(false);
+            return;
+        }
 
         try {
-            await upsertRateCardEntries(entriesPayload);
+            await upsertRateCardEntries(entriesPayload, effectiveFrom, linesPayload);
             setHasChanges(false);
             addToast('Tariffe aggiornate con successo', 'success');
         } catch (err) {
@@ -145,6 +215,14 @@ export default function RateCardsPage() {
     const handleApplyStandardCosts = () => {
         if (!confirm('Vuoi inizializzare le tariffe di vendita per tutte le risorse visibili basandoti sul costo del loro ruolo + 20%?')) return;
         
+        // I costi sono in valuta base: le tariffe vanno nella valuta del listino al cambio odierno
+        const cardCurrency = rateCards.find(c => c.id === selectedCardId)?.currency || BASE_CURRENCY;
+        const toCardCurrency = (amount: number) => convertAmount(amount, BASE_CURRENCY, cardCurrency, toISODateString(new Date()), fxRates);
+        if (toCardCurrency(1) === null) {
+            addToast(`Nessun cambio ${cardCurrency} valido a oggi: aggiungilo dai Tassi di Cambio.`, 'warning');
+            return;
+        }
+
         // Deep copy not needed for simple object, but creates new reference
         const newEntries = { ...localEntries };
         let updatedCount = 0;
@@ -171,7 +249,7 @@ export default function RateCardsPage() {
             else if (!isNaN(roleDaily) && roleDaily > 0) baseCost = roleDaily;
              
             if (baseCost > 0) {
-                 newEntries[res.id] = (baseCost * 1.2).toFixed(2);
+                 newEntries[res.id] = (toCardCurrency(baseCost * 1.2) ?? 0).toFixed(2);
                  updatedCount++;
             }
         });
@@ -186,6 +264,34 @@ export default function RateCardsPage() {
     };
 
     const activeCard = rateCards.find(c => c.id === selectedCardId);
+    const todayIso = toISODateString(new Date());
+
+    // Risorse del listino con almeno un cambio tariffa registrato
+    const rateChangeCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        rateCardEntryHistory
+            .filter(h => h.rateCardId === selectedCardId)
+            .forEach(h => counts.set(h.resourceId, (counts.get(h.resourceId) || 0) + 1));
+        return counts;
+    }, [rateCardEntryHistory, selectedCardId]);
+
+    // Tariffa effettiva sulle bozze, così l'effetto di regole e tariffe specifiche è visibile prima del salvataggio
+    const draftRateContext = useMemo(() => ({
+        entries: Object.entries(localEntries).map(([resourceId, rate]) => ({ rateCardId: selectedCardId!, resourceId, dailyRate: parseFloat(rate) || 0 })),
+        history: [],
+        lines: Object.entries(localLines).map(([key, rate]) => {
+            const separator = key.indexOf('|');
+            const lineType = key.slice(0, separator) as RateCardLineType;
+            const lineKey = key.slice(separator + 1);
+            return { rateCardId: selectedCardId!, lineType, lineKey, dailyRate: parseFloat(rate) || 0, startDate: RATE_HISTORY_START, endDate: null };
+        }),
+        roles,
+    }), [localEntries, localLines, roles, selectedCardId]);
+
+    const timeline = useMemo(
+        () => (selectedCardId && timelineResource ? getRateTimeline(selectedCardId, timelineResource.id!, rateCardEntryHistory) : []),
+        [selectedCardId, timelineResource, rateCardEntryHistory]
+    );
 
     // Group resources by Role for display
     const resourcesByRole = useMemo(() => {
@@ -228,9 +334,14 @@ export default function RateCardsPage() {
             <div className="w-full md:w-1/3 lg:w-1/4 flex flex-col gap-4 min-w-[250px]">
                 <div className="flex justify-between items-center px-2">
                     <h2 className="text-xl font-bold text-on-surface">Listini</h2>
-                    <button aria-label="Aggiungi listino" onClick={openNewCardModal} className="p-2 bg-primary text-on-primary rounded-full shadow hover:opacity-90">
-                        <span className="material-symbols-outlined">add</span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button aria-label="Tassi di cambio" title="Tassi di cambio" onClick={() => setIsFxModalOpen(true)} className="p-2 text-primary border border-primary rounded-full hover:bg-primary/5">
+                            <span className="material-symbols-outlined">currency_exchange</span>
+                        </button>
+                        <button aria-label="Aggiungi listino" onClick={openNewCardModal} className="p-2 bg-primary text-on-primary rounded-full shadow hover:opacity-90">
+                            <span className="material-symbols-outlined">add</span>
+                        </button>
+                    </div>
                 </div>
                 
                 <div className="flex-1 bg-surface rounded-2xl shadow border border-outline-variant overflow-y-auto">
@@ -277,7 +388,7 @@ export default function RateCardsPage() {
                         <div className="bg-surface p-4 rounded-2xl shadow border border-outline-variant flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
                             <div>
                                 <h2 className="text-xl font-bold text-on-surface">{activeCard.name}</h2>
-                                <p className="text-xs text-on-surface-variant">Tariffe per Risorsa (Valuta: {activeCard.currency})</p>
+                                <p className="text-xs text-on-surface-variant">Regole e tariffe per Risorsa (Valuta: {activeCard.currency})</p>
                             </div>
                             
                             <div className="flex flex-wrap gap-2 items-center">
@@ -296,10 +407,22 @@ export default function RateCardsPage() {
                                 >
                                     Inizializza
                                 </button>
+                                {hasUnsavedChanges && (
+                                    <label className="flex items-center gap-2 text-sm text-on-surface-variant">
+                                        Decorrenza
+                                        <input
+                                            type="date"
+                                            value={effectiveFrom}
+                                            onChange={(e) => setEffectiveFrom(e.target.value)}
+                                            className="form-input text-sm py-1 w-auto"
+                                            required
+                                        />
+                                    </label>
+                                )}
                                 {hasUnsavedChanges && (
                                     <button 
                                         onClick={handleSaveEntries}
-                                        disabled={isActionLoading('upsertRateCardEntries')}
+                                        disabled={isActionLoading('upsertRateCardEntries') || !effectiveFrom}
                                         className="px-6 py-2 text-sm font-bold bg-primary text-on-primary rounded-full shadow hover:opacity-90 flex items-center gap-2"
                                     >
                                         {isActionLoading('upsertRateCardEntries') ? <SpinnerIcon className="w-4 h-4"/> : 'Salva Modifiche'}
@@ -308,14 +431,50 @@ export default function RateCardsPage() {
                             </div>
                         </div>
 
+                        {/* Regole generiche: valgono per le risorse senza tariffa specifica */}
+                        <div className="bg-surface p-4 rounded-2xl shadow border border-outline-variant">
+                            <div className="flex items-baseline justify-between gap-4 mb-3">
+                                <h3 className="text-sm font-bold text-primary uppercase tracking-wider">Regole di listino</h3>
+                                <p className="text-xs text-on-surface-variant">Precedenza: risorsa → ruolo → seniority → default</p>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-h-48 overflow-y-auto">
+                                {([
+                                    ['DEFAULT', 'Default'],
+                                    ['SENIORITY', 'Per Seniority'],
+                                    ['ROLE', 'Per Ruolo'],
+                                ] as [RateCardLineType, string][]).map(([lineType, title]) => (
+                                    <div key={lineType} className="space-y-2">
+                                        <p className="text-xs font-semibold uppercase text-on-surface-variant">{title}</p>
+                                        {ruleKeys.filter(([type]) => type === lineType).map(([, lineKey]) => (
+                                            <label key={lineKey} className="flex items-center justify-between gap-2 text-sm text-on-surface">
+                                                <span className="truncate">
+                                                    {lineType === 'ROLE' ? roles.find(r => r.id === lineKey)?.name : lineType === 'SENIORITY' ? lineKey : 'Tutte le risorse'}
+                                                </span>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.01"
+                                                    value={localLines[lineId(lineType, lineKey)] ?? ''}
+                                                    onChange={(e) => handleLineChange(lineType, lineKey, e.target.value)}
+                                                    className="w-28 text-right font-mono bg-surface-container-low border-b border-transparent focus:border-primary focus:outline-none px-2 py-1 rounded hover:bg-surface-container"
+                                                    placeholder="—"
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
                         <div className="flex-1 bg-surface rounded-2xl shadow border border-outline-variant overflow-hidden flex flex-col">
                             <div className="overflow-y-auto">
                                 <table className="w-full text-left border-collapse">
                                     <thead className="bg-surface-container-low sticky top-0 z-10 shadow-sm">
                                         <tr>
                                             <th className="p-4 font-semibold text-xs uppercase text-on-surface-variant">Risorsa</th>
-                                            <th className="p-4 font-semibold text-xs uppercase text-on-surface-variant text-right">Costo Interno (Rif.)</th>
-                                            <th className="p-4 font-semibold text-xs uppercase text-on-surface-variant text-right w-40">Sell Rate (€)</th>
+                                            <th className="p-4 font-semibold text-xs uppercase text-on-surface-variant text-right">Costo Interno (Rif., {BASE_CURRENCY})</th>
+                                            <th className="p-4 font-semibold text-xs uppercase text-on-surface-variant text-right w-40">Tariffa Specifica ({activeCard.currency})</th>
+                                            <th className="p-4 font-semibold text-xs uppercase text-on-surface-variant text-right">Tariffa Effettiva</th>
                                             <th className="p-4 font-semibold text-xs uppercase text-on-surface-variant text-right">Margine %</th>
                                         </tr>
                                     </thead>
@@ -329,15 +488,15 @@ export default function RateCardsPage() {
                                                 <React.Fragment key={roleId}>
                                                     {/* Group Header */}
                                                     <tr className="bg-surface-container/50">
-                                                        <td colSpan={4} className="px-4 py-2 text-xs font-bold text-primary uppercase tracking-wider">
+                                                        <td colSpan={5} className="px-4 py-2 text-xs font-bold text-primary uppercase tracking-wider">
                                                             {roleName}
                                                         </td>
                                                     </tr>
                                                     
                                                     {/* Resource Rows */}
                                                     {roleResources.map(res => {
-                                                        const sellRateStr = localEntries[res.id!] || '0.00';
-                                                        const sellRate = parseFloat(sellRateStr) || 0;
+                                                        const sellRateStr = localEntries[res.id!] ?? '';
+                                                        const { rate: sellRate, source } = resolveSellRate(selectedCardId, res, todayIso, draftRateContext);
                                                         
                                                         // Base cost logic for reference display
                                                         const roleObj = roles.find(r => r.id === roleId);
@@ -350,13 +509,28 @@ export default function RateCardsPage() {
                                                         else if (!isNaN(roleStandard) && roleStandard > 0) cost = roleStandard;
                                                         else if (!isNaN(roleDaily) && roleDaily > 0) cost = roleDaily;
                                                         
-                                                        const margin = sellRate > 0 && cost > 0 ? ((sellRate - cost) / sellRate) * 100 : 0;
+                                                        // Il costo interno è in valuta base: la tariffa è convertita al cambio odierno
+                                                        const sellRateInBase = convertAmount(sellRate, activeCard.currency || BASE_CURRENCY, BASE_CURRENCY, todayIso, fxRates);
+                                                        const margin = sellRateInBase !== null && sellRateInBase > 0 && cost > 0 ? ((sellRateInBase - cost) / sellRateInBase) * 100 : 0;
                                                         const isSpecificCost = !isNaN(resDailyCost) && resDailyCost > 0;
 
                                                         return (
                                                             <tr key={res.id} className="hover:bg-surface-container-low">
                                                                 <td className="p-4 text-sm font-medium text-on-surface pl-8">
-                                                                    {res.name}
+                                                                    <div className="flex items-center gap-2">
+                                                                        {res.name}
+                                                                        {rateChangeCounts.has(res.id!) && (
+                                                                            <button
+                                                                                type="button"
+                                                                                onClick={() => setTimelineResource(res)}
+                                                                                className="p-1 rounded-full text-on-surface-variant hover:text-primary"
+                                                                                title="Storico tariffe"
+                                                                                aria-label={`Storico tariffe di ${res.name}`}
+                                                                            >
+                                                                                <span className="material-symbols-outlined text-base">history</span>
+                                                                            </button>
+                                                                        )}
+                                                                    </div>
                                                                 </td>
                                                                 <td className="p-4 text-sm text-right text-on-surface-variant font-mono">
                                                                     {formatCurrency(cost)}
@@ -370,14 +544,25 @@ export default function RateCardsPage() {
                                                                         value={sellRateStr} 
                                                                         onChange={(e) => handleRateChange(res.id!, e.target.value)}
                                                                         className="w-full text-right font-mono bg-surface-container-low border-b border-transparent focus:border-primary focus:outline-none px-2 py-1 rounded hover:bg-surface-container"
-                                                                        placeholder="0.00"
+                                                                        placeholder={source !== 'RESOURCE' && sellRate > 0 ? sellRate.toFixed(2) : '—'}
+                                                                        title="Vuoto: vale la regola del listino"
                                                                     />
                                                                 </td>
-                                                                <td className="p-4 text-sm text-right font-mono">
-                                                                    <span className={`px-2 py-0.5 rounded text-xs font-bold ${margin < 0 ? 'bg-error-container text-on-error-container' : margin < 20 ? 'bg-yellow-container text-on-yellow-container' : 'bg-tertiary-container text-on-tertiary-container'}`}>
-                                                                        {margin.toFixed(1)}%
+                                                                <td className="p-4 text-sm text-right whitespace-nowrap">
+                                                                    <span className="font-mono font-semibold">{sellRate > 0 ? formatCurrency(sellRate, activeCard.currency) : '—'}</span>
+                                                                    <span className={`ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${SOURCE_BADGE_CLASSES[source]}`}>
+                                                                        {SELL_RATE_SOURCE_LABELS[source]}
                                                                     </span>
                                                                 </td>
+                                                                <td className="p-4 text-sm text-right font-mono">
+                                                                    {sellRateInBase === null ? (
+                                                                        <span className="text-xs text-on-surface-variant" title={`Nessun cambio ${activeCard.currency} valido a oggi`}>n.d.</span>
+                                                                    ) : (
+                                                                        <span className={`px-2 py-0.5 rounded text-xs font-bold ${margin < 0 ? 'bg-error-container text-on-error-container' : margin < 20 ? 'bg-yellow-container text-on-yellow-container' : 'bg-tertiary-container text-on-tertiary-container'}`}>
+                                                                            {margin.toFixed(1)}%
+                                                                        </span>
+                                                                    )}
+                                                                </td>
                                                             </tr>
                                                         );
                                                     })}
@@ -419,9 +604,7 @@ export default function RateCardsPage() {
                                 onChange={e => setEditingCard({...editingCard, currency: e.target.value})} 
                                 className="form-select"
                             >
-                                <option value="EUR">EUR (€)</option>
-                                <option value="USD">USD ($)</option>
-                                <option value="GBP">GBP (£)</option>
+                                {CURRENCY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
                             </select>
                         </div>
                         <div className="flex justify-end pt-4">
@@ -432,6 +615,41 @@ export default function RateCardsPage() {
                 </Modal>
             )}
 
+            {/* RATE TIMELINE MODAL */}
+            {timelineResource && activeCard && (
+                <Modal isOpen={!!timelineResource} onClose={() => setTimelineResource(null)} title={`Storico tariffe · ${timelineResource.name}`}>
+                    <ol className="relative border-l border-outline-variant ml-2 space-y-4">
+                        {timeline.map((period, index) => {
+                            const previous = timeline[index + 1];
+                            const delta = previous && Number(previous.dailyRate) > 0
+                                ? ((Number(period.dailyRate) - Number(previous.dailyRate)) / Number(previous.dailyRate)) * 100
+                                : null;
+                            return (
+                                <li key={period.id} className="ml-4">
+                                    <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${!period.endDate ? 'bg-primary' : 'bg-outline'}`} />
+                                    <p className="text-xs text-on-surface-variant">
+                                        {period.startDate === RATE_HISTORY_START ? 'Tariffa iniziale' : `Dal ${formatDateFull(period.startDate)}`}
+                                        {period.endDate ? ` al ${formatDateFull(period.endDate)}` : ' · in vigore'}
+                                        {period.startDate > todayIso && ' · pianificata'}
+                                    </p>
+                                    <p className="font-mono font-bold text-on-surface">
+                                        {formatCurrency(period.dailyRate, activeCard.currency)}
+                                        {delta !== null && (
+                                            <span className={`ml-2 text-xs ${delta >= 0 ? 'text-tertiary' : 'text-error'}`}>
+                                                {delta >= 0 ? '+' : ''}{delta.toFixed(1)}%
+                                            </span>
+                                        )}
+                                    </p>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </Modal>
+            )}
+
+            {/* FX RATES MODAL */}
+            {isFxModalOpen && <FxRatesModal isOpen={isFxModalOpen} onClose={() => setIsFxModalOpen(false)} />}
+
             {/* DELETE MODAL */}
             {cardToDelete && (
                 <ConfirmationModal 
@@ -1,6 +1,7 @@
 /**
  * @file ReportsPage.tsx
- * @description Pagina per la visualizzazione di report analitici su costi e utilizzo utilizzando il componente DataTable.
+ * @description Pagina per la visualizzazione di report analitici su costi, utilizzo, scostamento piano /
+ * consuntivo (timesheet approvati) e violazioni delle regole di staffing utilizzando il componente DataTable.
  */
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
@@ -8,17 +9,25 @@ import { useAllocationsContext, useAppState } from '../context/AppContext';
 import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
 import { useLookupContext } from '../context/LookupContext';
+import { useToast } from '../context/ToastContext';
+import { apiFetch } from '../services/apiClient';
+import { PlanActualReport, PlanActualRow, StaffingRuleReport, StaffingRuleViolation } from '../types';
 import MultiSelectDropdown from '../components/MultiSelectDropdown';
-import { getWorkingDaysBetween, isHoliday } from '../utils/dateUtils';
+import { DEFAULT_WORKING_DAYS, getWorkingDaysBetween, isHoliday } from '../utils/dateUtils';
 import { isProjectVisibleInStaffing } from '../utils/allocationUtils';
+import { resolveAssignmentProfile } from '../utils/placeholderUtils';
 import { formatCurrency } from '../utils/formatters';
 import { DataTable, ColumnDef } from '../components/DataTable';
 import ExportButton from '../components/ExportButton';
 import PdfExportButton from '../components/PdfExportButton';
 import { PdfExportConfig, CHART_PALETTE } from '../utils/pdfExportUtils';
+import { getErrorMessage } from '../utils/getErrorMessage';
+import {
+    describeStaffingRuleViolation, formatStaffingRulePeriod, STAFFING_RULE_SEVERITY_LABELS, STAFFING_RULE_TYPE_INFO,
+} from '../utils/staffingRulesUtils';
 
 // --- Tipi e Interfacce Locali ---
-type ReportTab = 'projectCosts' | 'resourceUtilization';
+type ReportTab = 'projectCosts' | 'resourceUtilization' | 'planVsActual' | 'ruleViolations';
 
 // --- Funzioni di Utilità ---
 const downloadCSV = (csvContent: string, fileName: string) => {
@@ -61,7 +70,7 @@ const ProjectCostsReport: React.FC = () => {
                 const rateCardId = contract?.rateCardId;
 
                 projectAssignments.forEach(assignment => {
-                    const resource = resources.find(r => r.id === assignment.resourceId);
+                    const resource = resolveAssignmentProfile(assignment, resources);
                     if (!resource || !assignment.id) return;
                     
                     const assignmentAllocations = allocations[assignment.id];
@@ -75,8 +84,8 @@ const ProjectCostsReport: React.FC = () => {
                                 // Cost Calculation (Historical)
                                 const dailyCostRate = getRoleCost(resource.roleId, allocDate);
                                 
-                                // Revenue Calculation (Sell Rate) — le tariffe di vendita sono per risorsa
-                                const dailySellRate = getSellRate(rateCardId, resource.id!);
+                                // Revenue Calculation (Sell Rate) — le tariffe di vendita sono per risorsa, valide alla data
+                                const dailySellRate = getSellRate(rateCardId, resource.id!, dateStr);
                                 
                                 personDays += dayFraction;
                                 allocatedCost += dayFraction * dailyCostRate;
@@ -294,7 +303,7 @@ const ResourceUtilizationReport: React.FC = () => {
     // Corrected destructuring using functions instead of horizontals
     const { resources, roles, getRoleCost } = useResourcesContext();
     const { assignments, projects } = useProjectsContext();
-    const { functions, companyCalendar } = useLookupContext();
+    const { functions, companyCalendar, locationCalendars } = useLookupContext();
     const { loading } = useAppState();
     const { allocations } = useAllocationsContext();
     const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
@@ -327,7 +336,9 @@ const ResourceUtilizationReport: React.FC = () => {
 
                 if (effectiveStartDate > effectiveEndDate) return null;
 
-                const workingDays = getWorkingDaysBetween(effectiveStartDate, effectiveEndDate, companyCalendar, resource.location);
+                // Settimana lavorativa e chiusure ricorrenti del calendario della sede
+                const workingDays = getWorkingDaysBetween(effectiveStartDate, effectiveEndDate, companyCalendar, resource.location, locationCalendars);
+                const workingWeekdays = locationCalendars.find(c => c.location === resource.location)?.workingDays || DEFAULT_WORKING_DAYS;
                 const staffingFactor = (resource.maxStaffingPercentage || 100) / 100;
                 const availableDays = workingDays * staffingFactor;
                 
@@ -341,7 +352,7 @@ const ResourceUtilizationReport: React.FC = () => {
                     if (assignmentAllocations) {
                         for (const dateStr in assignmentAllocations) {
                             const allocDate = new Date(dateStr);
-                            if (allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
+                            if (allocDate >= firstDay && allocDate <= lastDay && !isHoliday(allocDate, resource.location, companyCalendar, locationCalendars) && workingWeekdays.includes(allocDate.getUTCDay())) {
                                 const dayFraction = (assignmentAllocations[dateStr] || 0) / 100;
                                 allocatedDays += dayFraction;
                                 
@@ -373,7 +384,7 @@ const ResourceUtilizationReport: React.FC = () => {
                 utilization: number;
                 allocatedCost: number;
             }[];
-    }, [resources, roles, visibleAssignments, companyCalendar, month, filters, allocations, getRoleCost]);
+    }, [resources, roles, visibleAssignments, companyCalendar, locationCalendars, month, filters, allocations, getRoleCost]);
     
     const exportData = useMemo(() => {
         return reportData.map(d => ({
@@ -547,6 +558,301 @@ const ResourceUtilizationReport: React.FC = () => {
     );
 };
 
+const lastDayOfMonth = (month: string) => {
+    const [year, monthNum] = month.split('-').map(Number);
+    return `${month}-${String(new Date(Date.UTC(year, monthNum, 0)).getUTCDate()).padStart(2, '0')}`;
+};
+
+type PlanActualTableRow = PlanActualRow & { id: string; resourceName: string; projectName: string };
+
+/** Scostamento con segno: in rosso il consuntivo oltre il piano. */
+const DeltaValue: React.FC<{ value: number; format: (value: number) => string }> = ({ value, format }) => (
+    <span className={`text-sm font-semibold ${value > 0 ? 'text-error' : value < 0 ? 'text-tertiary' : 'text-on-surface-variant'}`}>
+        {value > 0 ? '+' : ''}{format(value)}
+    </span>
+);
+
+const PlanVsActualReport: React.FC = () => {
+    const { resources } = useResourcesContext();
+    const { projects } = useProjectsContext();
+    const { addToast } = useToast();
+    const currentMonth = new Date().toISOString().slice(0, 7);
+    const [fromMonth, setFromMonth] = useState(`${currentMonth.slice(0, 4)}-01`);
+    const [toMonth, setToMonth] = useState(currentMonth);
+    const [filters, setFilters] = useState({ resourceId: [] as string[], projectId: [] as string[] });
+    const [report, setReport] = useState<PlanActualReport | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!fromMonth || !toMonth || fromMonth > toMonth) return;
+        setIsLoading(true);
+        apiFetch<PlanActualReport>(`/api/staffing?action=timesheet&view=variance&from=${fromMonth}-01&to=${lastDayOfMonth(toMonth)}`)
+            .then(setReport)
+            .catch(e => addToast(getErrorMessage(e) || 'Errore durante il calcolo del consuntivo.', 'error'))
+            .finally(() => setIsLoading(false));
+    }, [fromMonth, toMonth, addToast]);
+
+    const resourceNameMap = useMemo(() => new Map(resources.map(r => [r.id!, r.name])), [resources]);
+    const projectNameMap = useMemo(() => new Map(projects.map(p => [p.id!, p.name])), [projects]);
+
+    const reportData = useMemo<PlanActualTableRow[]>(() => (report?.rows || [])
+        .filter(r => (filters.resourceId.length === 0 || filters.resourceId.includes(r.resourceId)) && (filters.projectId.length === 0 || filters.projectId.includes(r.projectId)))
+        .map(r => ({
+            ...r,
+            id: `${r.resourceId}-${r.projectId}-${r.month}`,
+            resourceName: resourceNameMap.get(r.resourceId) || 'Risorsa eliminata',
+            projectName: projectNameMap.get(r.projectId) || 'Progetto eliminato',
+        })), [report, filters, resourceNameMap, projectNameMap]);
+
+    const totals = useMemo(() => reportData.reduce(
+        (acc, r) => ({
+            plannedDays: acc.plannedDays + r.plannedDays,
+            actualDays: acc.actualDays + r.actualDays,
+            plannedCost: acc.plannedCost + r.plannedCost,
+            actualCost: acc.actualCost + r.actualCost,
+        }),
+        { plannedDays: 0, actualDays: 0, plannedCost: 0, actualCost: 0 }
+    ), [reportData]);
+
+    const exportData = useMemo(() => reportData.map(r => ({
+        'Risorsa': r.resourceName,
+        'Progetto': r.projectName,
+        'Mese': r.month,
+        'G/U Pianificati': r.plannedDays,
+        'G/U Consuntivati': r.actualDays,
+        'Ore Consuntivate': r.actualHours,
+        'Scostamento G/U': r.deltaDays,
+        'Costo Pianificato': r.plannedCost,
+        'Costo Consuntivo': r.actualCost,
+        'Scostamento Costo': r.deltaCost,
+    })), [reportData]);
+
+    const resourceOptions = useMemo(() => resources.map(r => ({ value: r.id!, label: r.name })), [resources]);
+    const projectOptions = useMemo(() => projects.map(p => ({ value: p.id!, label: p.name })), [projects]);
+
+    const formatDays = (value: number) => value.toFixed(2);
+    const columns: ColumnDef<PlanActualTableRow>[] = [
+        { header: "Risorsa", sortKey: "resourceName", cell: d => <span className="font-medium text-on-surface sticky left-0 bg-inherit pl-6">{d.resourceName}</span> },
+        { header: "Progetto", sortKey: "projectName", cell: d => <span className="text-sm text-on-surface-variant">{d.projectName}</span> },
+        { header: "Mese", sortKey: "month", cell: d => <span className="text-sm text-on-surface-variant">{d.month}</span> },
+        { header: "G/U Pianificati", sortKey: "plannedDays", cell: d => <span className="text-sm text-on-surface-variant">{formatDays(d.plannedDays)}</span> },
+        { header: "G/U Consuntivati", sortKey: "actualDays", cell: d => <span className="text-sm text-on-surface-variant">{formatDays(d.actualDays)}</span> },
+        { header: "Δ G/U", sortKey: "deltaDays", cell: d => <DeltaValue value={d.deltaDays} format={formatDays} /> },
+        { header: "Costo Pianificato", sortKey: "plannedCost", cell: d => <span className="text-sm text-on-surface-variant">{formatCurrency(d.plannedCost)}</span> },
+        { header: "Costo Consuntivo", sortKey: "actualCost", cell: d => <span className="text-sm text-on-surface-variant">{formatCurrency(d.actualCost)}</span> },
+        { header: "Δ Costo", sortKey: "deltaCost", cell: d => <DeltaValue value={d.deltaCost} format={formatCurrency} /> },
+    ];
+
+    const renderRow = (d: PlanActualTableRow) => (
+        <tr key={d.id} className="h-12 hover:bg-surface-container-low group">
+            {columns.map((col, i) => <td key={i} className="px-6 py-3 whitespace-nowrap text-sm bg-inherit">{col.cell(d)}</td>)}
+            <td className="bg-inherit"></td>
+        </tr>
+    );
+
+    const renderMobileCard = (d: PlanActualTableRow) => (
+        <div key={d.id} className="bg-surface rounded-2xl shadow p-4 mb-4 flex flex-col gap-3">
+            <div>
+                <h3 className="font-bold text-lg text-on-surface">{d.resourceName}</h3>
+                <p className="text-sm text-on-surface-variant">{d.projectName} · {d.month}</p>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-sm text-center">
+                <div className="bg-surface-container-low p-1 rounded">
+                    <span className="block text-xs text-on-surface-variant">Piano</span>
+                    <span className="font-semibold">{formatDays(d.plannedDays)}</span>
+                </div>
+                <div className="bg-surface-container-low p-1 rounded">
+                    <span className="block text-xs text-on-surface-variant">Consuntivo</span>
+                    <span className="font-semibold">{formatDays(d.actualDays)}</span>
+                </div>
+                <div className="bg-surface-container-low p-1 rounded">
+                    <span className="block text-xs text-on-surface-variant">Δ Costo</span>
+                    <DeltaValue value={d.deltaCost} format={formatCurrency} />
+                </div>
+            </div>
+        </div>
+    );
+
+    const filtersNode = (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                <input type="month" value={fromMonth} onChange={(e) => setFromMonth(e.target.value)} className="form-input" title="Dal mese"/>
+                <input type="month" value={toMonth} min={fromMonth} onChange={(e) => setToMonth(e.target.value)} className="form-input" title="Al mese"/>
+                <MultiSelectDropdown name="resourceId" selectedValues={filters.resourceId} onChange={(_, v) => setFilters(f => ({...f, resourceId: v}))} options={resourceOptions} placeholder="Tutte le Risorse"/>
+                <MultiSelectDropdown name="projectId" selectedValues={filters.projectId} onChange={(_, v) => setFilters(f => ({...f, projectId: v}))} options={projectOptions} placeholder="Tutti i Progetti"/>
+                <ExportButton data={exportData} title="Piano vs Consuntivo" />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="p-3 rounded-xl bg-surface-container-low">
+                    <p className="text-xs text-on-surface-variant">G/U pianificati → consuntivati</p>
+                    <p className="text-lg font-bold text-on-surface">{formatDays(totals.plannedDays)} → {formatDays(totals.actualDays)}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-surface-container-low">
+                    <p className="text-xs text-on-surface-variant">Scostamento G/U</p>
+                    <p className="text-lg"><DeltaValue value={totals.actualDays - totals.plannedDays} format={formatDays} /></p>
+                </div>
+                <div className="p-3 rounded-xl bg-surface-container-low">
+                    <p className="text-xs text-on-surface-variant">Costo pianificato → consuntivo</p>
+                    <p className="text-sm font-bold text-on-surface">{formatCurrency(totals.plannedCost)} → {formatCurrency(totals.actualCost)}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-surface-container-low">
+                    <p className="text-xs text-on-surface-variant">Scostamento Costo</p>
+                    <p className="text-lg"><DeltaValue value={totals.actualCost - totals.plannedCost} format={formatCurrency} /></p>
+                </div>
+            </div>
+            <p className="text-xs text-on-surface-variant">Il consuntivo include solo le settimane di timesheet approvate (8 ore = 1 G/U).</p>
+        </div>
+    );
+
+    return (
+        <DataTable
+            title=""
+            addNewButtonLabel=""
+            onAddNew={() => {}}
+            data={reportData}
+            columns={columns}
+            filtersNode={filtersNode}
+            renderRow={renderRow}
+            renderMobileCard={renderMobileCard}
+            initialSortKey="month"
+            isLoading={isLoading}
+            tableLayout={{ dense: true, striped: true, headerSticky: true }}
+        />
+    );
+};
+
+type RuleViolationTableRow = StaffingRuleViolation & { id: string; resourceName: string; projectNames: string; description: string };
+
+const RuleSeverityBadge: React.FC<{ severity: StaffingRuleViolation['severity'] }> = ({ severity }) => (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${severity === 'BLOCK' ? 'bg-error-container text-on-error-container' : 'bg-yellow-container text-on-yellow-container'}`}>
+        {STAFFING_RULE_SEVERITY_LABELS[severity]}
+    </span>
+);
+
+const StaffingRuleViolationsReport: React.FC = () => {
+    const { resources } = useResourcesContext();
+    const { projects, assignments } = useProjectsContext();
+    const { staffingRules } = useLookupContext();
+    const { addToast } = useToast();
+    const currentMonth = new Date().toISOString().slice(0, 7);
+    const [fromMonth, setFromMonth] = useState(currentMonth);
+    const [toMonth, setToMonth] = useState(currentMonth);
+    const [filters, setFilters] = useState({ resourceId: [] as string[], ruleId: [] as string[] });
+    const [report, setReport] = useState<StaffingRuleReport | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!fromMonth || !toMonth || fromMonth > toMonth) return;
+        setIsLoading(true);
+        apiFetch<StaffingRuleReport>(`/api/staffing?action=rules&start=${fromMonth}-01&end=${lastDayOfMonth(toMonth)}`)
+            .then(setReport)
+            .catch(e => addToast(getErrorMessage(e) || 'Errore durante il calcolo delle violazioni.', 'error'))
+            .finally(() => setIsLoading(false));
+    }, [fromMonth, toMonth, addToast]);
+
+    const resourceNameMap = useMemo(() => new Map(resources.map(r => [r.id!, r.name])), [resources]);
+    const assignmentProjectNameMap = useMemo(() => {
+        const projectNames = new Map(projects.map(p => [p.id!, p.name]));
+        return new Map(assignments.map(a => [a.id!, projectNames.get(a.projectId) || 'Progetto eliminato']));
+    }, [projects, assignments]);
+
+    const reportData = useMemo<RuleViolationTableRow[]>(() => (report?.violations || [])
+        .filter(v => (filters.resourceId.length === 0 || filters.resourceId.includes(v.resourceId)) && (filters.ruleId.length === 0 || filters.ruleId.includes(v.ruleId)))
+        .map(v => ({
+            ...v,
+            id: `${v.ruleId}-${v.resourceId}-${v.period ?? v.assignmentIds.join(',')}`,
+            resourceName: resourceNameMap.get(v.resourceId) || 'Risorsa eliminata',
+            projectNames: v.assignmentIds.map(id => assignmentProjectNameMap.get(id) || 'Progetto eliminato').join(', '),
+            description: describeStaffingRuleViolation(v),
+        })), [report, filters, resourceNameMap, assignmentProjectNameMap]);
+
+    const blockingCount = reportData.filter(v => v.severity === 'BLOCK').length;
+
+    const exportData = useMemo(() => reportData.map(v => ({
+        'Risorsa': v.resourceName,
+        'Regola': v.ruleName,
+        'Severità': STAFFING_RULE_SEVERITY_LABELS[v.severity],
+        'Periodo': formatStaffingRulePeriod(v.period),
+        'Violazione': v.description,
+        'Progetti': v.projectNames,
+    })), [reportData]);
+
+    const resourceOptions = useMemo(() => resources.map(r => ({ value: r.id!, label: r.name })), [resources]);
+    const ruleOptions = useMemo(() => staffingRules.map(r => ({ value: r.id!, label: r.name })), [staffingRules]);
+
+    const columns: ColumnDef<RuleViolationTableRow>[] = [
+        { header: "Risorsa", sortKey: "resourceName", cell: d => <span className="font-medium text-on-surface sticky left-0 bg-inherit pl-6">{d.resourceName}</span> },
+        { header: "Regola", sortKey: "ruleName", cell: d => <span className="text-sm text-on-surface-variant">{d.ruleName}</span> },
+        { header: "Severità", sortKey: "severity", cell: d => <RuleSeverityBadge severity={d.severity} /> },
+        { header: "Periodo", sortKey: "period", cell: d => <span className="text-sm text-on-surface-variant">{formatStaffingRulePeriod(d.period)}</span> },
+        { header: "Violazione", sortKey: "description", cell: d => <span className="text-sm text-on-surface">{d.description}</span> },
+        { header: "Progetti", sortKey: "projectNames", cell: d => <span className="text-sm text-on-surface-variant">{d.projectNames}</span> },
+    ];
+
+    const renderRow = (d: RuleViolationTableRow) => (
+        <tr key={d.id} className="h-12 hover:bg-surface-container-low group">
+            {columns.map((col, i) => <td key={i} className="px-6 py-3 whitespace-nowrap text-sm bg-inherit">{col.cell(d)}</td>)}
+            <td className="bg-inherit"></td>
+        </tr>
+    );
+
+    const renderMobileCard = (d: RuleViolationTableRow) => (
+        <div key={d.id} className="bg-surface rounded-2xl shadow p-4 mb-4 flex flex-col gap-2">
+            <div className="flex justify-between items-start gap-2">
+                <div>
+                    <h3 className="font-bold text-lg text-on-surface">{d.resourceName}</h3>
+                    <p className="text-sm text-on-surface-variant">{d.ruleName} · {formatStaffingRulePeriod(d.period)}</p>
+                </div>
+                <RuleSeverityBadge severity={d.severity} />
+            </div>
+            <p className="text-sm text-on-surface">{d.description}</p>
+            <p className="text-xs text-on-surface-variant">{d.projectNames}</p>
+        </div>
+    );
+
+    const filtersNode = (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                <input type="month" value={fromMonth} onChange={(e) => setFromMonth(e.target.value)} className="form-input" title="Dal mese"/>
+                <input type="month" value={toMonth} min={fromMonth} onChange={(e) => setToMonth(e.target.value)} className="form-input" title="Al mese"/>
+                <MultiSelectDropdown name="resourceId" selectedValues={filters.resourceId} onChange={(_, v) => setFilters(f => ({...f, resourceId: v}))} options={resourceOptions} placeholder="Tutte le Risorse"/>
+                <MultiSelectDropdown name="ruleId" selectedValues={filters.ruleId} onChange={(_, v) => setFilters(f => ({...f, ruleId: v}))} options={ruleOptions} placeholder="Tutte le Regole"/>
+                <ExportButton data={exportData} title="Violazioni Regole di Staffing" />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="p-3 rounded-xl bg-surface-container-low">
+                    <p className="text-xs text-on-surface-variant">Violazioni</p>
+                    <p className="text-lg font-bold text-on-surface">{reportData.length}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-surface-container-low">
+                    <p className="text-xs text-on-surface-variant">Di regole bloccanti</p>
+                    <p className={`text-lg font-bold ${blockingCount > 0 ? 'text-error' : 'text-on-surface'}`}>{blockingCount}</p>
+                </div>
+            </div>
+            <p className="text-xs text-on-surface-variant">
+                Sono valutate solo le regole attive ({staffingRules.filter(r => r.isActive).length} su {staffingRules.length}), sui mesi interi del periodo:
+                {' '}{staffingRules.filter(r => r.isActive).map(r => STAFFING_RULE_TYPE_INFO[r.ruleType].label).join(', ') || 'nessuna regola attiva'}.
+            </p>
+        </div>
+    );
+
+    return (
+        <DataTable
+            title=""
+            addNewButtonLabel=""
+            onAddNew={() => {}}
+            data={reportData}
+            columns={columns}
+            filtersNode={filtersNode}
+            renderRow={renderRow}
+            renderMobileCard={renderMobileCard}
+            initialSortKey="resourceName"
+            isLoading={isLoading}
+            tableLayout={{ dense: true, striped: true, headerSticky: true }}
+        />
+    );
+};
+
 const ReportsPage: React.FC = () => {
     const [activeTab, setActiveTab] = useState<ReportTab>('projectCosts');
 
@@ -568,12 +874,26 @@ const ReportsPage: React.FC = () => {
                     >
                         Utilizzo Risorse
                     </button>
+                    <button 
+                        onClick={() => setActiveTab('planVsActual')} 
+                        className={`px-4 py-2 text-sm font-medium rounded-full transition-all duration-200 ${activeTab === 'planVsActual' ? 'bg-surface text-primary shadow' : 'text-on-surface-variant hover:text-on-surface'}`}
+                    >
+                        Piano vs Consuntivo
+                    </button>
+                    <button 
+                        onClick={() => setActiveTab('ruleViolations')} 
+                        className={`px-4 py-2 text-sm font-medium rounded-full transition-all duration-200 ${activeTab === 'ruleViolations' ? 'bg-surface text-primary shadow' : 'text-on-surface-variant hover:text-on-surface'}`}
+                    >
+                        Violazioni Regole
+                    </button>
                 </div>
             </div>
 
             <div className="animate-fade-in">
                 {activeTab === 'projectCosts' && <ProjectCostsReport />}
                 {activeTab === 'resourceUtilization' && <ResourceUtilizationReport />}
+                {activeTab === 'planVsActual' && <PlanVsActualReport />}
+                {activeTab === 'ruleViolations' && <StaffingRuleViolationsReport />}
             </div>
         </div>
     );
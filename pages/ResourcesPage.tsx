@@ -7,10 +7,12 @@ import { useSkillsContext } from '../context/SkillsContext';
 import { useAuth } from '../context/AuthContext';
 import { Resource, SKILL_LEVELS, SkillLevelValue } from '../types';
 import Modal from '../components/Modal';
+import WorkScheduleModal from '../components/WorkScheduleModal';
 import SearchableSelect from '../components/SearchableSelect';
 import MultiSelectDropdown from '../components/MultiSelectDropdown';
 import { SpinnerIcon } from '../components/icons';
-import { getWorkingDaysBetween, isHoliday, formatDateFull } from '../utils/dateUtils';
+import { buildHolidaySet, formatDateFull } from '../utils/dateUtils';
+import { getAllocatedPersonDays, getScheduledWorkingDays, groupWorkSchedulesByResource } from '../utils/workScheduleUtils';
 import { isProjectVisibleInStaffing } from '../utils/allocationUtils';
 import { DataTable, ColumnDef } from '../components/DataTable';
 import { useSearchParams, useNavigate, useLocation } from 'react-router-dom';
@@ -36,10 +38,10 @@ type EnrichedResource = Resource & {
 const ResourcesPage: React.FC = () => {
     const { hasEntityVisibility } = useAuth();
     const {
-        resources, roles, addResource, updateResource,
+        resources, roles, addResource, updateResource, workSchedules,
     } = useResourcesContext();
     const { deleteResource } = useCascadeOps();
-    const { functions, industries, locations, companyCalendar } = useLookupContext();
+    const { functions, industries, locations, companyCalendar, locationCalendars } = useLookupContext();
     const { assignments, projects } = useProjectsContext();
     const { skills, resourceSkills, addResourceSkill, deleteResourceSkill } = useSkillsContext();
     const { isActionLoading, loading } = useAppState();
@@ -47,6 +49,7 @@ const ResourcesPage: React.FC = () => {
     const { addToast } = useToast();
     
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [scheduleResource, setScheduleResource] = useState<Resource | null>(null);
     const [editingResource, setEditingResource] = useState<Resource | Omit<Resource, 'id'> | null>(null);
     const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -160,6 +163,10 @@ const ResourcesPage: React.FC = () => {
         return { totalActive, resignedCount, benchCount, avgCost };
     }, [resources, visibleAssignments, roles]);
     
+    // Allocazione del mese rispetto all'orario di lavoro della risorsa (part-time)
+    const holidaySet = useMemo(() => buildHolidaySet(companyCalendar, locationCalendars), [companyCalendar, locationCalendars]);
+    const schedulesByResource = useMemo(() => groupWorkSchedulesByResource(workSchedules), [workSchedules]);
+
     const calculateResourceAllocation = useCallback((resource: Resource): number => {
         const now = new Date();
         const firstDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
@@ -167,7 +174,8 @@ const ResourcesPage: React.FC = () => {
         const effectiveLastDay = resource.lastDayOfWork && new Date(resource.lastDayOfWork) < lastDay ? new Date(resource.lastDayOfWork) : lastDay;
         
         if(firstDay.getTime() > effectiveLastDay.getTime()) return 0;
-        const workingDaysInMonth = getWorkingDaysBetween(firstDay, effectiveLastDay, companyCalendar, resource.location);
+        const resourceSchedules = schedulesByResource.get(resource.id!);
+        const workingDaysInMonth = getScheduledWorkingDays(firstDay, effectiveLastDay, holidaySet, resource.location, resourceSchedules);
         if (workingDaysInMonth === 0) return 0;
         const resourceAssignments = visibleAssignments.filter(a => a.resourceId === resource.id);
         if (resourceAssignments.length === 0) return 0;
@@ -179,15 +187,13 @@ const ResourcesPage: React.FC = () => {
                 for (const dateStr in assignmentAllocations) {
                     const allocDate = new Date(dateStr);
                     if (allocDate.getTime() >= firstDay.getTime() && allocDate.getTime() <= effectiveLastDay.getTime()) {
-                         if (!isHoliday(allocDate, resource.location, companyCalendar) && allocDate.getUTCDay() !== 0 && allocDate.getUTCDay() !== 6) {
-                            totalPersonDays += (assignmentAllocations[dateStr] / 100);
-                        }
+                        totalPersonDays += getAllocatedPersonDays(assignmentAllocations[dateStr], allocDate, holidaySet, resource.location, resourceSchedules);
                     }
                 }
             }
         });
         return Math.round((totalPersonDays / workingDaysInMonth) * 100);
-    }, [visibleAssignments, allocations, companyCalendar]);
+    }, [visibleAssignments, allocations, holidaySet, schedulesByResource]);
     
     const dataForTable = useMemo<EnrichedResource[]>(() => {
         const assignedResourceIds = new Set(visibleAssignments.map(a => a.resourceId));
@@ -544,6 +550,7 @@ const ResourcesPage: React.FC = () => {
                     <div className="flex items-center justify-end space-x-2">
                         <button onClick={() => openModalForEdit(resource)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-primary" title="Modifica Dettagli"><span className="material-symbols-outlined">edit_note</span></button>
                         <button onClick={() => handleStartInlineEdit(resource)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container text-on-surface-variant hover:text-primary" title="Modifica Rapida"><span className="material-symbols-outlined">edit</span></button>
+                        <button onClick={() => setScheduleResource(resource)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-primary" title="Orario di lavoro"><span className="material-symbols-outlined">schedule</span></button>
                         <button onClick={() => deleteResource(resource.id!)} className="p-2 rounded-full hover:bg-surface-container text-on-surface-variant hover:text-error" title="Elimina">
                              {isActionLoading(`deleteResource-${resource.id}`) ? <SpinnerIcon className="w-5 h-5"/> : <span className="material-symbols-outlined">delete</span>}
                         </button>
@@ -565,6 +572,7 @@ const ResourcesPage: React.FC = () => {
                     </div>
                     <div className="flex items-center space-x-1 flex-shrink-0 ml-4">
                         <button onClick={() => openModalForEdit(resource)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high"><span className="material-symbols-outlined">edit_note</span></button>
+                        <button onClick={() => setScheduleResource(resource)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high" title="Orario di lavoro"><span className="material-symbols-outlined">schedule</span></button>
                         <button onClick={() => deleteResource(resource.id!)} className="p-2 rounded-full text-on-surface-variant hover:bg-surface-container-high">
                              {isActionLoading(`deleteResource-${resource.id}`) ? <SpinnerIcon className="w-5 h-5"/> : <span className="material-symbols-outlined">delete</span>}
                         </button>
@@ -822,6 +830,7 @@ const ResourcesPage: React.FC = () => {
                     </form>
                 </Modal>
             )}
+            <WorkScheduleModal resource={scheduleResource} onClose={() => setScheduleResource(null)} />
         </div>
     );
 };
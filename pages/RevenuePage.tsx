@@ -2,8 +2,11 @@
 /**
  * @file RevenuePage.tsx
  * @description Pagina di analisi finanziaria avanzata (Revenue Recognition).
- * Visualizza l'andamento mensile di Ricavi vs Costi e il margine lordo, con filtri per Cliente, Progetto e WBS.
+ * Visualizza l'andamento mensile di Ricavi vs Costi (pianificati e consuntivati da timesheet) e il margine lordo,
+ * con filtri per Cliente, Progetto e WBS.
  * Supporta viste aggregate e dettagliate per WBS, Cliente e Progetto.
+ * Ricavi (valuta del listino del contratto) e costi (valuta base) sono convertiti nella valuta di
+ * reporting ai cambi validi alla data; gli importi senza cambio sono esclusi e segnalati.
  */
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
@@ -11,8 +14,14 @@ import { useAllocationsContext, useAppState } from '../context/AppContext';
 import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
 import { useLookupContext } from '../context/LookupContext';
+import { useToast } from '../context/ToastContext';
+import { apiFetch } from '../services/apiClient';
+import { getErrorMessage } from '../utils/getErrorMessage';
+import { PlanActualReport } from '../types';
 import { isHoliday } from '../utils/dateUtils';
+import { resolveAssignmentProfile } from '../utils/placeholderUtils';
 import { formatCurrency } from '../utils/formatters';
+import { BASE_CURRENCY, createFxConverter, getProjectCurrency, getReportingCurrencies } from '../utils/fxUtils';
 import { SpinnerIcon } from '../components/icons';
 import { useTheme } from '../context/ThemeContext';
 import { select } from 'd3-selection';
@@ -28,6 +37,7 @@ type MonthlyFinancialData = {
     month: string; // YYYY-MM
     revenue: number;
     cost: number;
+    actualCost: number; // Costo consuntivo da timesheet approvati
     margin: number;
     marginPercent: number;
 };
@@ -37,6 +47,9 @@ type BreakdownData = {
     name: string; // Entity Name (WBS Code, Client Name, or Project Name)
     month: string;
     revenue: number;
+    /** Ricavi nella valuta dei contratti del gruppo (null se le valute sono diverse). */
+    originalRevenue: number;
+    originalCurrency: string | null;
     cost: number;
     margin: number;
     marginPercent: number;
@@ -45,19 +58,34 @@ type BreakdownData = {
 type ViewTab = 'overview' | 'wbs' | 'client' | 'project';
 
 export const RevenuePage: React.FC = () => {
-    const { projects, assignments, contracts, rateCards, billingMilestones, getSellRate, clients } = useProjectsContext();
+    const { projects, assignments, contracts, rateCards, billingMilestones, getSellRate, clients, fxRates } = useProjectsContext();
     const { resources, getRoleCost } = useResourcesContext();
     const { companyCalendar } = useLookupContext();
     const { loading } = useAppState();
     const { allocations } = useAllocationsContext();
     const { theme } = useTheme();
+    const { addToast } = useToast();
 
     const [year, setYear] = useState(new Date().getFullYear());
     const [filters, setFilters] = useState({ clientId: [] as string[], projectId: [] as string[], wbs: [] as string[] });
     const [activeTab, setActiveTab] = useState<ViewTab>('overview');
+    const [reportingCurrency, setReportingCurrency] = useState(BASE_CURRENCY);
+    const reportingCurrencies = useMemo(() => getReportingCurrencies(fxRates), [fxRates]);
+    const money = (value: number) => formatCurrency(value, reportingCurrency);
     
     const svgRef = useRef<SVGSVGElement>(null);
 
+    // Consuntivo (timesheet approvati) dell'anno selezionato, calcolato lato server
+    const [actuals, setActuals] = useState<PlanActualReport | null>(null);
+    useEffect(() => {
+        apiFetch<PlanActualReport>(`/api/staffing?action=timesheet&view=variance&from=${year}-01-01&to=${year}-12-31`)
+            .then(setActuals)
+            .catch(e => {
+                setActuals(null);
+                addToast(getErrorMessage(e) || 'Errore durante il caricamento dei costi consuntivi.', 'error');
+            });
+    }, [year, addToast]);
+
     // --- Options Generation ---
     const clientOptions = useMemo(() => clients.map(c => ({ value: c.id!, label: c.name })).sort((a,b) => a.label.localeCompare(b.label)), [clients]);
     
@@ -99,14 +127,15 @@ export const RevenuePage: React.FC = () => {
     };
 
     // --- Overview Data Logic (Aggregated by Month) ---
-    const financialData = useMemo<MonthlyFinancialData[]>(() => {
+    const { financialData, overviewMissingCurrencies } = useMemo(() => {
         // Only calculate if in overview mode to save perf, OR if we want to keep the chart always updated
         const data: Record<string, MonthlyFinancialData> = {};
+        const fx = createFxConverter(fxRates, reportingCurrency);
         
         // Initialize months for the selected year
         for (let m = 0; m < 12; m++) {
             const monthStr = `${year}-${String(m + 1).padStart(2, '0')}`;
-            data[monthStr] = { month: monthStr, revenue: 0, cost: 0, margin: 0, marginPercent: 0 };
+            data[monthStr] = { month: monthStr, revenue: 0, cost: 0, actualCost: 0, margin: 0, marginPercent: 0 };
         }
 
         // 1. Process Assignments (Cost & T&M Revenue)
@@ -114,11 +143,12 @@ export const RevenuePage: React.FC = () => {
             if (!doesProjectMatchFilters(assignment.projectId)) return;
 
             const project = projects.find(p => p.id === assignment.projectId);
-            const resource = resources.find(r => r.id === assignment.resourceId);
+            const resource = resolveAssignmentProfile(assignment, resources);
             if (!project || !resource) return;
 
             const contract = contracts.find(c => c.id === project.contractId);
             const rateCardId = contract?.rateCardId;
+            const projectCurrency = getProjectCurrency(project, contracts, rateCards);
             const assignmentAllocations = allocations[assignment.id!];
 
             if (assignmentAllocations) {
@@ -136,13 +166,13 @@ export const RevenuePage: React.FC = () => {
                     // Cost Calculation
                     const dailyCost = getRoleCost(resource.roleId, date);
                     const cost = pct * dailyCost * (project.realizationPercentage / 100);
-                    data[monthKey].cost += cost;
+                    data[monthKey].cost += fx.convert(cost, BASE_CURRENCY, dateStr);
 
-                    // Revenue Calculation (Only for T&M)
+                    // Revenue Calculation (Only for T&M), nella valuta del listino
                     if (project.billingType === 'TIME_MATERIAL') {
-                        const sellRate = getSellRate(rateCardId, resource.id!);
+                        const sellRate = getSellRate(rateCardId, resource.id!, dateStr);
                         const revenue = pct * sellRate;
-                        data[monthKey].revenue += revenue;
+                        data[monthKey].revenue += fx.convert(revenue, projectCurrency, dateStr);
                     }
                 }
             }
@@ -158,25 +188,33 @@ export const RevenuePage: React.FC = () => {
              if (project?.billingType === 'FIXED_PRICE') {
                  const monthKey = bm.date.substring(0, 7);
                  if (data[monthKey]) {
-                     data[monthKey].revenue += Number(bm.amount);
+                     data[monthKey].revenue += fx.convert(Number(bm.amount), getProjectCurrency(project, contracts, rateCards), bm.date);
                  }
              }
         });
 
-        // 3. Finalize Margin
-        return Object.values(data).map(d => ({
+        // 3. Actual Cost (Timesheet approvati)
+        actuals?.rows.forEach(row => {
+            if (!doesProjectMatchFilters(row.projectId)) return;
+            if (data[row.month]) data[row.month].actualCost += fx.convert(row.actualCost, BASE_CURRENCY, `${row.month}-01`);
+        });
+
+        // 4. Finalize Margin
+        const rows: MonthlyFinancialData[] = Object.values(data).map(d => ({
             ...d,
             margin: d.revenue - d.cost,
             marginPercent: d.revenue > 0 ? ((d.revenue - d.cost) / d.revenue) * 100 : 0
         })).sort((a,b) => a.month.localeCompare(b.month));
+        return { financialData: rows, overviewMissingCurrencies: fx.missingCurrencies };
 
-    }, [year, assignments, projects, resources, contracts, allocations, billingMilestones, companyCalendar, getRoleCost, getSellRate, filters]);
+    }, [year, assignments, projects, resources, contracts, rateCards, allocations, billingMilestones, companyCalendar, getRoleCost, getSellRate, filters, actuals, fxRates, reportingCurrency]);
 
     // --- Detailed Breakdown Logic (WBS/Client/Project per Month) ---
-    const breakdownData = useMemo<BreakdownData[]>(() => {
-        if (activeTab === 'overview') return [];
+    const { breakdownData, breakdownMissingCurrencies } = useMemo(() => {
+        if (activeTab === 'overview') return { breakdownData: [] as BreakdownData[], breakdownMissingCurrencies: new Set<string>() };
 
-        const map = new Map<string, { name: string; month: string; revenue: number; cost: number }>();
+        const fx = createFxConverter(fxRates, reportingCurrency);
+        const map = new Map<string, { name: string; month: string; revenue: number; cost: number; originalRevenue: number; originalCurrency: string | null }>();
         const getGroupKey = (project: any, contract: any, client: any): string | null => {
             if (activeTab === 'wbs') return contract?.wbs || 'No WBS';
             if (activeTab === 'client') return client?.name || 'No Client';
@@ -184,14 +222,20 @@ export const RevenuePage: React.FC = () => {
             return null;
         };
 
-        const addToMap = (key: string, name: string, month: string, rev: number, cost: number) => {
+        // Ricavi e costi convertiti alla data; i ricavi restano anche nella valuta del contratto
+        const addToMap = (key: string, name: string, date: string, rev: number, currency: string, cost: number) => {
+             const month = date.substring(0, 7);
              const compositeKey = `${key}|${month}`;
              if (!map.has(compositeKey)) {
-                 map.set(compositeKey, { name, month, revenue: 0, cost: 0 });
+                 map.set(compositeKey, { name, month, revenue: 0, cost: 0, originalRevenue: 0, originalCurrency: currency });
              }
              const entry = map.get(compositeKey)!;
-             entry.revenue += rev;
-             entry.cost += cost;
+             entry.revenue += fx.convert(rev, currency, date);
+             entry.cost += fx.convert(cost, BASE_CURRENCY, date);
+             if (rev !== 0 && entry.originalCurrency !== currency) {
+                 entry.originalCurrency = entry.originalRevenue === 0 ? currency : null;
+             }
+             entry.originalRevenue += rev;
         };
 
         // 1. Assignments
@@ -199,12 +243,13 @@ export const RevenuePage: React.FC = () => {
             if (!doesProjectMatchFilters(assignment.projectId)) return;
 
             const project = projects.find(p => p.id === assignment.projectId);
-            const resource = resources.find(r => r.id === assignment.resourceId);
+            const resource = resolveAssignmentProfile(assignment, resources);
             if (!project || !resource) return;
 
             const contract = contracts.find(c => c.id === project.contractId);
             const client = clients.find(c => c.id === project.clientId);
             const rateCardId = contract?.rateCardId;
+            const projectCurrency = getProjectCurrency(project, contracts, rateCards);
             const assignmentAllocations = allocations[assignment.id!];
             
             const groupName = getGroupKey(project, contract, client);
@@ -216,7 +261,6 @@ export const RevenuePage: React.FC = () => {
                     
                     const date = new Date(dateStr);
                     if (isHoliday(date, resource.location, companyCalendar) || date.getDay() === 0 || date.getDay() === 6) continue;
-                    const monthKey = dateStr.substring(0, 7);
                     const pct = assignmentAllocations[dateStr] / 100;
                     
                     const dailyCost = getRoleCost(resource.roleId, date);
@@ -224,11 +268,11 @@ export const RevenuePage: React.FC = () => {
 
                     let revenue = 0;
                     if (project.billingType === 'TIME_MATERIAL') {
-                        const sellRate = getSellRate(rateCardId, resource.id!);
+                        const sellRate = getSellRate(rateCardId, resource.id!, dateStr);
                         revenue = pct * sellRate;
                     }
                     
-                    addToMap(groupName, groupName, monthKey, revenue, cost);
+                    addToMap(groupName, groupName, dateStr, revenue, projectCurrency, cost);
                 }
             }
         });
@@ -244,19 +288,20 @@ export const RevenuePage: React.FC = () => {
              
              if (project?.billingType === 'FIXED_PRICE') {
                  const groupName = getGroupKey(project, contract, client);
-                 const monthKey = bm.date.substring(0, 7);
                  if (groupName) {
-                    addToMap(groupName, groupName, monthKey, Number(bm.amount), 0);
+                    addToMap(groupName, groupName, bm.date, Number(bm.amount), getProjectCurrency(project, contracts, rateCards), 0);
                  }
              }
         });
 
         // 3. Finalize
-        return Array.from(map.entries()).map(([id, val]) => ({
+        const rows: BreakdownData[] = Array.from(map.entries()).map(([id, val]) => ({
             id,
             name: val.name,
             month: val.month,
             revenue: val.revenue,
+            originalRevenue: val.originalRevenue,
+            originalCurrency: val.originalCurrency,
             cost: val.cost,
             margin: val.revenue - val.cost,
             marginPercent: val.revenue > 0 ? ((val.revenue - val.cost) / val.revenue) * 100 : 0
@@ -265,8 +310,14 @@ export const RevenuePage: React.FC = () => {
             if (monthCmp !== 0) return monthCmp;
             return a.name.localeCompare(b.name);
         });
+        return { breakdownData: rows, breakdownMissingCurrencies: fx.missingCurrencies };
 
-    }, [year, activeTab, assignments, projects, resources, contracts, allocations, billingMilestones, companyCalendar, getRoleCost, getSellRate, filters, clients]);
+    }, [year, activeTab, assignments, projects, resources, contracts, rateCards, allocations, billingMilestones, companyCalendar, getRoleCost, getSellRate, filters, clients, fxRates, reportingCurrency]);
+
+    const missingCurrencies = useMemo(
+        () => Array.from(new Set([...overviewMissingCurrencies, ...breakdownMissingCurrencies])).sort(),
+        [overviewMissingCurrencies, breakdownMissingCurrencies]
+    );
 
 
     // --- D3 Chart Rendering (Only for Overview) ---
@@ -314,7 +365,7 @@ export const RevenuePage: React.FC = () => {
             .attr("height", d => height - y(d.revenue))
             .attr("fill", theme.light.primary) // Use theme color
             .attr("opacity", 0.8)
-            .append("title").text(d => `Revenue: ${formatCurrency(d.revenue)}`);
+            .append("title").text(d => `Revenue: ${formatCurrency(d.revenue, reportingCurrency)}`);
 
         // Cost Bar
         g.selectAll(".bar-cost")
@@ -327,7 +378,7 @@ export const RevenuePage: React.FC = () => {
             .attr("height", d => height - y(d.cost))
             .attr("fill", theme.light.error)
             .attr("opacity", 0.6)
-            .append("title").text(d => `Cost: ${formatCurrency(d.cost)}`);
+            .append("title").text(d => `Cost: ${formatCurrency(d.cost, reportingCurrency)}`);
 
         // Margin Line
         const lineGenerator = line<MonthlyFinancialData>()
@@ -368,15 +419,21 @@ export const RevenuePage: React.FC = () => {
             .attr("stroke", "#999")
             .attr("stroke-dasharray", "4");
 
-    }, [financialData, theme, activeTab]);
+    }, [financialData, theme, activeTab, reportingCurrency]);
 
     // --- Detail Table Columns ---
     const detailColumns: ColumnDef<BreakdownData>[] = [
         { header: activeTab === 'wbs' ? 'WBS' : activeTab === 'client' ? 'Cliente' : 'Progetto', sortKey: 'name', cell: d => <span className="font-bold">{d.name}</span> },
         { header: 'Mese', sortKey: 'month', cell: d => d.month },
-        { header: 'Revenue', sortKey: 'revenue', cell: d => <span className="text-primary font-mono">{formatCurrency(d.revenue)}</span> },
-        { header: 'Costi', sortKey: 'cost', cell: d => <span className="text-error font-mono">{formatCurrency(d.cost)}</span> },
-        { header: 'Margine', sortKey: 'margin', cell: d => <span className={`font-mono font-bold ${d.margin >= 0 ? 'text-tertiary' : 'text-error'}`}>{formatCurrency(d.margin)}</span> },
+        { header: `Revenue (${reportingCurrency})`, sortKey: 'revenue', cell: d => <span className="text-primary font-mono">{money(d.revenue)}</span> },
+        {
+            header: 'Revenue (valuta contratto)', sortKey: 'originalRevenue',
+            cell: d => <span className="font-mono text-on-surface-variant">
+                {d.originalCurrency === null ? 'Valute miste' : d.originalCurrency !== reportingCurrency && d.originalRevenue !== 0 ? formatCurrency(d.originalRevenue, d.originalCurrency) : '-'}
+            </span>
+        },
+        { header: 'Costi', sortKey: 'cost', cell: d => <span className="text-error font-mono">{money(d.cost)}</span> },
+        { header: 'Margine', sortKey: 'margin', cell: d => <span className={`font-mono font-bold ${d.margin >= 0 ? 'text-tertiary' : 'text-error'}`}>{money(d.margin)}</span> },
         { header: 'Margine %', sortKey: 'marginPercent', cell: d => <span className={`px-2 py-1 rounded text-xs font-bold ${d.marginPercent >= 30 ? 'bg-tertiary-container text-on-tertiary-container' : d.marginPercent > 0 ? 'bg-yellow-container text-on-yellow-container' : 'bg-error-container text-on-error-container'}`}>{d.marginPercent.toFixed(1)}%</span> },
     ];
 
@@ -390,24 +447,41 @@ export const RevenuePage: React.FC = () => {
         return breakdownData.map(d => ({
             'Entità': d.name,
             'Mese': d.month,
-            'Revenue': formatCurrency(d.revenue),
-            'Costi': formatCurrency(d.cost),
-            'Margine': formatCurrency(d.margin),
+            'Revenue': formatCurrency(d.revenue, reportingCurrency),
+            'Revenue (valuta contratto)': d.originalCurrency ? formatCurrency(d.originalRevenue, d.originalCurrency) : 'Valute miste',
+            'Costi': formatCurrency(d.cost, reportingCurrency),
+            'Margine': formatCurrency(d.margin, reportingCurrency),
             'Margine %': d.marginPercent.toFixed(1) + '%'
         }));
-    }, [breakdownData]);
+    }, [breakdownData, reportingCurrency]);
 
     return (
         <div className="space-y-6">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
                 <h1 className="text-2xl sm:text-3xl font-bold text-on-surface">Revenue Recognition</h1>
                 <div className="flex items-center gap-2">
+                    <select
+                        value={reportingCurrency}
+                        onChange={e => setReportingCurrency(e.target.value)}
+                        className="form-select text-sm py-1 w-auto"
+                        aria-label="Valuta di reporting"
+                        title="Valuta di reporting"
+                    >
+                        {reportingCurrencies.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
                     <button onClick={() => setYear(year - 1)} className="p-2 rounded hover:bg-surface-container"><span className="material-symbols-outlined">chevron_left</span></button>
                     <span className="font-bold text-xl">{year}</span>
                     <button onClick={() => setYear(year + 1)} className="p-2 rounded hover:bg-surface-container"><span className="material-symbols-outlined">chevron_right</span></button>
                 </div>
             </div>
 
+            {missingCurrencies.length > 0 && (
+                <div className="flex items-center gap-2 p-3 rounded-xl bg-error-container text-on-error-container text-sm">
+                    <span className="material-symbols-outlined">currency_exchange</span>
+                    Cambio mancante per {missingCurrencies.join(', ')} in alcune date: gli importi relativi sono esclusi dai totali. Aggiungi i cambi da Rate Cards.
+                </div>
+            )}
+
             {/* Filters Bar */}
             <div className="bg-surface rounded-2xl shadow p-4">
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
@@ -482,6 +556,7 @@ export const RevenuePage: React.FC = () => {
                                     <th className="px-6 py-3 text-left text-xs font-bold text-on-surface-variant uppercase tracking-wider">Mese</th>
                                     <th className="px-6 py-3 text-right text-xs font-bold text-on-surface-variant uppercase tracking-wider">Revenue</th>
                                     <th className="px-6 py-3 text-right text-xs font-bold text-on-surface-variant uppercase tracking-wider">Costi (COGS)</th>
+                                    <th className="px-6 py-3 text-right text-xs font-bold text-on-surface-variant uppercase tracking-wider" title="Costo delle ore consuntivate nei timesheet approvati">Costi Consuntivi</th>
                                     <th className="px-6 py-3 text-right text-xs font-bold text-on-surface-variant uppercase tracking-wider">Margine</th>
                                     <th className="px-6 py-3 text-right text-xs font-bold text-on-surface-variant uppercase tracking-wider">Margine %</th>
                                 </tr>
@@ -490,10 +565,11 @@ export const RevenuePage: React.FC = () => {
                                 {financialData.map(row => (
                                     <tr key={row.month} className="hover:bg-surface-container-low transition-colors">
                                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-on-surface">{row.month}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-primary font-mono">{formatCurrency(row.revenue)}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-error font-mono">{formatCurrency(row.cost)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-primary font-mono">{money(row.revenue)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-error font-mono">{money(row.cost)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-on-surface-variant font-mono">{money(row.actualCost)}</td>
                                         <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-mono font-bold ${row.margin >= 0 ? 'text-tertiary' : 'text-error'}`}>
-                                            {formatCurrency(row.margin)}
+                                            {money(row.margin)}
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
                                             <span className={`px-2 py-1 rounded text-xs font-bold ${row.marginPercent >= 30 ? 'bg-tertiary-container text-on-terti-container' : row.marginPercent > 0 ? 'bg-yellow-container text-on-yellow-container' : 'bg-error-container text-on-error-container'}`}>
@@ -504,9 +580,10 @@ export const RevenuePage: React.FC = () => {
                                 ))}
                                 <tr className="bg-surface-container font-bold">
                                     <td className="px-6 py-4 text-sm">TOTALE ANNO</td>
-                                    <td className="px-6 py-4 text-right font-mono">{formatCurrency(financialData.reduce((s, d) => s + d.revenue, 0))}</td>
-                                    <td className="px-6 py-4 text-right font-mono">{formatCurrency(financialData.reduce((s, d) => s + d.cost, 0))}</td>
-                                    <td className="px-6 py-4 text-right font-mono">{formatCurrency(financialData.reduce((s, d) => s + d.margin, 0))}</td>
+                                    <td className="px-6 py-4 text-right font-mono">{money(financialData.reduce((s, d) => s + d.revenue, 0))}</td>
+                                    <td className="px-6 py-4 text-right font-mono">{money(financialData.reduce((s, d) => s + d.cost, 0))}</td>
+                                    <td className="px-6 py-4 text-right font-mono">{money(financialData.reduce((s, d) => s + d.actualCost, 0))}</td>
+                                    <td className="px-6 py-4 text-right font-mono">{money(financialData.reduce((s, d) => s + d.margin, 0))}</td>
                                     <td className="px-6 py-4 text-right">-</td>
                                 </tr>
                             </tbody>
@@ -22,6 +22,7 @@ import SearchableSelect from '../components/SearchableSelect';
 import { formatDate, getWorkingDaysBetween } from '../utils/dateUtils';
 import ExportButton from '../components/ExportButton';
 import { formatCurrency } from '../utils/formatters';
+import { resolveSellRate } from '../utils/rateCardUtils';
 import { initialState, simulationReducer } from './simulation/simulationReducer';
 import { SimulationExpensesModal } from './simulation/SimulationExpensesModal';
 import { SimulationBillingModal } from './simulation/SimulationBillingModal';
@@ -34,14 +35,19 @@ const SimulationPage: React.FC = () => {
     } = useResourcesContext();
     const {
         projects: realProjects, assignments: realAssignments, contracts: realContracts,
-        rateCards, rateCardEntries, clients,
+        rateCards, rateCardEntries, rateCardEntryHistory, rateCardLines, clients,
         projectExpenses: realExpenses, billingMilestones: realMilestones,
     } = useProjectsContext();
-    const { functions, locations, companyCalendar } = useLookupContext();
+    const { functions, locations, companyCalendar, locationCalendars } = useLookupContext();
     const { allocations: realAllocations } = useAllocationsContext();
     const { addToast } = useToast();
 
     const [state, dispatch] = useReducer(simulationReducer, initialState);
+    // Le risorse simulate (anche fittizie) ereditano le tariffe per ruolo, seniority e default del listino
+    const rateContext = useMemo(
+        () => ({ entries: rateCardEntries || [], history: rateCardEntryHistory || [], lines: rateCardLines || [], roles }),
+        [rateCardEntries, rateCardEntryHistory, rateCardLines, roles]
+    );
     const [scenarios, setScenarios] = useState<any[]>([]); // Metadata list
     
     // UI Local State
@@ -287,9 +293,9 @@ const SimulationPage: React.FC = () => {
                 for (const assignment of resourceAssignments) {
                     const project = simProjects.find(p => p.id === assignment.projectId);
                     if (project && project.simulatedRateCardId) {
-                        const entry = (rateCardEntries || []).find(e => e.rateCardId === project.simulatedRateCardId && e.resourceId === r.id);
-                        if (entry) {
-                            sellRate = Number(entry.dailyRate);
+                        const { rate } = resolveSellRate(project.simulatedRateCardId, r, new Date(), rateContext);
+                        if (rate > 0) {
+                            sellRate = rate;
                             break; 
                         }
                     }
@@ -535,8 +541,8 @@ const SimulationPage: React.FC = () => {
         const month = monthDate.getMonth();
         const start = new Date(year, month, 1);
         const end = new Date(year, month + 1, 0);
-        return getWorkingDaysBetween(start, end, companyCalendar, location);
-    }, [companyCalendar]);
+        return getWorkingDaysBetween(start, end, companyCalendar, location, locationCalendars);
+    }, [companyCalendar, locationCalendars]);
 
     const handleMonthValueChange = (assignmentId: string, monthDate: Date, newValue: string, location: string) => {
         let days = parseFloat(newValue);
@@ -580,8 +586,7 @@ const SimulationPage: React.FC = () => {
             
             let sellRate = financials.sellRate;
             if (sellRate === 0 && project.simulatedRateCardId) {
-                const entry = rateCardEntries.find(e => e.rateCardId === project.simulatedRateCardId && e.resourceId === resource.id);
-                if (entry) sellRate = Number(entry.dailyRate);
+                sellRate = resolveSellRate(project.simulatedRateCardId, resource, new Date(), rateContext).rate;
             }
 
             // Chargeability Factor Lookup
@@ -633,7 +638,7 @@ const SimulationPage: React.FC = () => {
                 margin: val.revenue - val.cost,
                 marginPct: val.revenue > 0 ? ((val.revenue - val.cost) / val.revenue) * 100 : 0
             }));
-    }, [state, rateCardEntries, roles]);
+    }, [state, rateContext, roles]);
 
     // --- RENDER ---
     return (
@@ -2,15 +2,17 @@
 /**
  * @file StaffingPage.tsx
  * @description Pagina principale per la visualizzazione e la gestione dello staffing delle risorse sui progetti.
+ * Include lo storico delle modifiche di cella (clic destro) e la vista storica "com'era al…" in sola lettura.
  */
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { useAllocationsContext, useAppState } from '../context/AppContext';
+import React, { useState, useMemo, useCallback, useEffect, useContext, useRef, createContext } from 'react';
+import { useAllocationsContext, useAppState, useEffortPlanning, useReassignment } from '../context/AppContext';
+import { AllocationAsOfProvider, useAllocationAsOf } from '../context/AllocationAsOfProvider';
 import { useResourcesContext } from '../context/ResourcesContext';
 import { useProjectsContext } from '../context/ProjectsContext';
 import { useLookupContext } from '../context/LookupContext';
 import { useHRContext } from '../context/HRContext';
-import { Resource, Assignment, LeaveRequest, LeaveType, Project, Client, Role, AllocationUpdate } from '../types';
+import { Resource, Assignment, LeaveRequest, LeaveType, Project, Client, Role, AllocationUpdate, AllocationPattern } from '../types';
 import {
   getCalendarDays,
   formatDate,
@@ -18,16 +20,48 @@ import {
   isHoliday,
   getWorkingDaysBetween,
   formatDateFull,
-  formatDateSynthetic
+  formatDateSynthetic,
+  buildHolidaySet
 } from '../utils/dateUtils';
-import { buildAllocationSnapshot, isProjectVisibleInStaffing, shouldShowAssignmentInStaffing } from '../utils/allocationUtils';
+import {
+  buildAllocationSnapshot,
+  isProjectVisibleInStaffing,
+  shouldShowAssignmentInStaffing,
+  isTentativeAssignment,
+  splitDailyLoadByBooking,
+  BOOKING_STATUS_LABELS,
+} from '../utils/allocationUtils';
+import { describeAllocationConflict } from '../utils/overbookingUtils';
+import { describeStaffingRuleViolation, formatStaffingRulePeriod } from '../utils/staffingRulesUtils';
 import { useToast } from '../context/ToastContext';
+import { useStaffingHistory, STAFFING_HISTORY_LABELS, type StaffingHistoryEntry } from '../hooks/useStaffingHistory';
+import { useGridRangeSelection } from '../hooks/useGridRangeSelection';
+import { useAllocationWindow } from '../hooks/useAllocationWindow';
+import { isCellInBounds, type ResolvedGridCell } from '../utils/gridSelectionUtils';
+import { getDistributedEffortDays, hasEffortPlan } from '../utils/effortPlanningUtils';
+import { describeAllocationPattern, expandAllocationPattern } from '../utils/allocationPatternUtils';
+import { isPlaceholderAssignment, resolveAssignmentProfile } from '../utils/placeholderUtils';
+import {
+  buildStaffingGridExport,
+  buildStaffingGridPdfConfig,
+  getAssignmentAverageTone,
+  getAverageAllocation,
+  getAverageLoadTone,
+  getDailyLoadTone,
+  type StaffingGridExport,
+  type StaffingLoadTone,
+} from '../utils/staffingGridExportUtils';
+import { exportStaffingGrid } from '../utils/exportUtils';
 import Modal from '../components/Modal';
 import MultiSelectDropdown from '../components/MultiSelectDropdown';
 import ConfirmationModal from '../components/ConfirmationModal';
+import AllocationPatternModal from '../components/AllocationPatternModal';
+import ReassignmentWizardModal from '../components/ReassignmentWizardModal';
+import AllocationChangeHistoryModal from '../components/AllocationChangeHistoryModal';
 import { Link } from 'react-router-dom';
 import Pagination from '../components/Pagination';
 import ExportButton from '../components/ExportButton';
+import PdfExportButton from '../components/PdfExportButton';
 import {
   FormDialog,
   FormFieldDefinition,
@@ -36,8 +70,17 @@ import {
   bulkAssignmentSchema,
   bulkFormFields,
   buildAssignmentFormFields,
+  effortPlanSchema,
+  effortPlanFormFields,
+  placeholderSchema,
+  placeholderConversionSchema,
+  buildPlaceholderFormFields,
+  buildPlaceholderConversionFormFields,
   AssignmentFormValues,
   BulkAssignmentFormValues,
+  EffortPlanFormValues,
+  PlaceholderFormValues,
+  PlaceholderConversionFormValues,
 } from '../components/forms';
 
 type ViewMode = 'day' | 'week' | 'month';
@@ -48,6 +91,12 @@ const getLeaveKey = (resourceId: string, dateStr: string) => `${resourceId}_${da
 // Constant empty array for stable reference
 const EMPTY_ASSIGNMENTS: Assignment[] = [];
 
+// Istante ISO ↔ valore di <input type="datetime-local"> (ora locale, al minuto)
+const toDateTimeLocalValue = (iso: string) => {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 // Helper per icona
 const getLeaveIcon = (typeName: string) => {
     const lower = typeName.toLowerCase();
@@ -59,22 +108,78 @@ const getLeaveIcon = (typeName: string) => {
     return 'block'; 
 };
 
+/** Classi dei colori di carico (le stesse tinte dell'export XLSX/PDF); le celle vuote scelgono lo sfondo. */
+const LOAD_TONE_CLASSES: Record<StaffingLoadTone, string> = {
+    OVER: 'bg-error-container text-on-error-container',
+    FULL: 'bg-tertiary-container text-on-tertiary-container',
+    UNDER: 'bg-yellow-container text-on-yellow-container',
+    EMPTY: '',
+    NON_WORKING: 'bg-surface-container text-on-surface-variant',
+    LEAVE: '',
+};
+
+/**
+ * Scrittura di una singola cella fornita dalla pagina: passa dalla cronologia
+ * undo/redo. Fuori dal provider si ricade sull'aggiornamento diretto del context.
+ */
+const AllocationCommitContext = createContext<((assignmentId: string, date: string, percentage: number) => Promise<void>) | null>(null);
+
+const useCommitAllocation = () => {
+  const commit = useContext(AllocationCommitContext);
+  const { updateAllocation } = useAllocationsContext();
+  return commit ?? updateAllocation;
+};
+
+/** Apertura dello storico modifiche di una cella (clic destro), fornita dalla pagina. */
+const AllocationChangesContext = createContext<((assignmentId: string, date: string) => void) | null>(null);
+
 /**
  * Celle di allocazione giornaliera modificabile (per singola assegnazione).
  */
+/** Tratteggio delle celle con una proposta di allocazione in attesa di approvazione. */
+const PENDING_PROPOSAL_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-linear-gradient(45deg, rgba(128, 128, 128, 0.18) 0, rgba(128, 128, 128, 0.18) 4px, transparent 4px, transparent 8px)',
+};
+
 interface AllocationCellProps {
   assignment: Assignment;
   date: string; // YYYY-MM-DD
   isNonWorkingDay: boolean;
   activeLeave?: LeaveRequest;
   leaveType?: LeaveType;
+  /** Coordinate della cella per la selezione rettangolare. */
+  row: number;
+  col: number;
+  isSelected: boolean;
+  /** Cella coperta dal trascinamento della maniglia di riempimento. */
+  isFillTarget: boolean;
+  /** Mostra la maniglia di riempimento (angolo in basso a destra della selezione). */
+  hasFillHandle: boolean;
+  onCellMouseDown: (row: number, col: number, e: React.MouseEvent) => void;
+  onCellMouseEnter: (row: number, col: number) => void;
+  onFillHandleMouseDown: (e: React.MouseEvent) => void;
 }
 
 const AllocationCell: React.FC<AllocationCellProps> = React.memo(
-  ({ assignment, date, isNonWorkingDay, activeLeave, leaveType }) => {
-    const { allocations, updateAllocation } = useAllocationsContext();
+  ({ assignment, date, isNonWorkingDay, activeLeave, leaveType, row, col, isSelected, isFillTarget, hasFillHandle, onCellMouseDown, onCellMouseEnter, onFillHandleMouseDown }) => {
+    const { allocations, allocationConflicts, allocationProposals } = useAllocationsContext();
+    const commitAllocation = useCommitAllocation();
+    const openChanges = useContext(AllocationChangesContext);
+    const { asOf } = useAllocationAsOf();
+    const isTentative = isTentativeAssignment(assignment);
+    // Conflitto di overbooking segnalato dal server che coinvolge questa cella
+    const conflict = useMemo(
+      () => allocationConflicts.find(c => c.date === date && c.assignmentIds.includes(assignment.id!)),
+      [allocationConflicts, date, assignment.id]
+    );
+    // Proposta in attesa di approvazione: la cella mostra il valore proposto (tratteggiato)
+    const pendingProposal = useMemo(
+      () => allocationProposals.find(p => p.status === 'PENDING' && p.assignmentId === assignment.id && p.date === date),
+      [allocationProposals, assignment.id, date]
+    );
     // Context value (authoritative)
-    const contextPercentage = allocations[assignment.id!]?.[date] || 0;
+    const savedPercentage = allocations[assignment.id!]?.[date] || 0;
+    const contextPercentage = pendingProposal ? pendingProposal.percentage : savedPercentage;
     
     // Local state for immediate UI feedback (Debounced)
     const [localValue, setLocalValue] = useState<number | string>(contextPercentage === 0 ? '' : contextPercentage);
@@ -92,31 +197,51 @@ const AllocationCell: React.FC<AllocationCellProps> = React.memo(
         if (numericValue === contextPercentage) return;
 
         const timer = setTimeout(() => {
-            updateAllocation(assignment.id!, date, numericValue);
+            commitAllocation(assignment.id!, date, numericValue);
         }, 400);
 
         return () => clearTimeout(timer);
-    }, [localValue, assignment.id, date, updateAllocation, contextPercentage]);
+    }, [localValue, assignment.id, date, commitAllocation, contextPercentage]);
+
+    const selectionProps = {
+      onMouseDown: (e: React.MouseEvent) => onCellMouseDown(row, col, e),
+      onMouseEnter: () => onCellMouseEnter(row, col),
+      'aria-selected': isSelected,
+    };
+    const selectionClass = isSelected
+      ? 'outline outline-2 -outline-offset-2 outline-primary bg-primary-container/40'
+      : isFillTarget ? 'outline outline-1 outline-dashed -outline-offset-2 outline-primary' : '';
+    const fillHandle = hasFillHandle && (
+      <div
+        onMouseDown={onFillHandleMouseDown}
+        className="absolute bottom-0 right-0 w-2 h-2 bg-primary cursor-crosshair z-10"
+        title="Trascina per riempire"
+        aria-hidden="true"
+      />
+    );
 
     // Logic: If full day leave, block interaction. If half day, show icon but allow edit.
     if (activeLeave && leaveType && !activeLeave.isHalfDay) {
          return (
             <td 
-                className="border-t border-outline-variant p-0 text-center relative cursor-not-allowed opacity-70"
+                {...selectionProps}
+                className={`border-t border-outline-variant p-0 text-center relative cursor-not-allowed opacity-70 ${selectionClass}`}
                 style={{ backgroundColor: `${leaveType.color}20` }} 
                 title={`${leaveType.name}: ${activeLeave.notes || ''}`}
             >
                 <span className="material-symbols-outlined text-base align-middle" style={{ color: leaveType.color }}>
                     {getLeaveIcon(leaveType.name)}
                 </span>
+                {fillHandle}
             </td>
         );
     }
 
     if (isNonWorkingDay) {
       return (
-        <td className="border-t border-outline-variant p-0 text-center bg-surface-container">
+        <td {...selectionProps} className={`border-t border-outline-variant p-0 text-center relative bg-surface-container ${selectionClass}`}>
           <span className="text-sm text-on-surface-variant">-</span>
+          {fillHandle}
         </td>
       );
     }
@@ -142,8 +267,35 @@ const AllocationCell: React.FC<AllocationCellProps> = React.memo(
         e.target.select();
     };
 
+    const handleContextMenu = openChanges
+      ? (e: React.MouseEvent) => { e.preventDefault(); openChanges(assignment.id!, date); }
+      : undefined;
+
+    // Vista storica: valore in sola lettura, lo storico resta consultabile
+    if (asOf) {
+      return (
+        <td
+          onContextMenu={handleContextMenu}
+          className={`border-t border-outline-variant p-0 text-center h-10 text-sm ${isTentative ? 'bg-surface-container-lowest italic text-on-surface-variant' : 'text-on-surface'}`}
+          title="Clic destro per lo storico modifiche"
+        >
+          {savedPercentage === 0 ? <span className="text-on-surface-variant">-</span> : savedPercentage}
+        </td>
+      );
+    }
+
     return (
-      <td className="border-t border-outline-variant p-0 text-center relative h-10">
+      <td
+        {...selectionProps}
+        onContextMenu={handleContextMenu}
+        className={`border-t border-outline-variant p-0 text-center relative h-10 ${isTentative ? 'bg-surface-container-lowest' : ''} ${conflict ? 'ring-2 ring-inset ring-error bg-error-container/40' : ''} ${selectionClass}`}
+        style={pendingProposal ? PENDING_PROPOSAL_STYLE : undefined}
+        title={conflict
+          ? describeAllocationConflict(conflict)
+          : pendingProposal
+            ? `Proposta di ${pendingProposal.proposedBy} in attesa di approvazione: ${pendingProposal.percentage}% (attuale ${savedPercentage}%)`
+            : (isTentative ? 'Allocazione provvisoria' : undefined)}
+      >
         {activeLeave && activeLeave.isHalfDay && leaveType && (
             <div 
                 className="absolute top-0 right-0 w-3 h-3 rounded-bl bg-opacity-50 pointer-events-none z-10"
@@ -160,8 +312,9 @@ const AllocationCell: React.FC<AllocationCellProps> = React.memo(
           placeholder={localValue === '' ? '-' : ''}
           onChange={handleChange}
           onFocus={handleFocus}
-          className="w-full h-full bg-transparent border-0 text-center text-sm focus:ring-2 focus:ring-inset focus:ring-primary text-on-surface p-0 m-0 appearance-none"
+          className={`w-full h-full bg-transparent border-0 text-center text-sm focus:ring-2 focus:ring-inset focus:ring-primary p-0 m-0 appearance-none ${isTentative ? 'italic text-on-surface-variant' : 'text-on-surface'}`}
         />
+        {fillHandle}
       </td>
     );
   }
@@ -178,64 +331,21 @@ const ReadonlyAggregatedAllocationCell: React.FC<{
   const { companyCalendar } = useLookupContext();
   const { resources } = useResourcesContext();
   const { allocations } = useAllocationsContext();
-  const resource = resources.find((r) => r.id === assignment.resourceId);
-
-  const averageAllocation = useMemo(() => {
-    if (!resource) return 0;
-
-    const effectiveEndDate =
-      resource.lastDayOfWork && new Date(resource.lastDayOfWork) < endDate
-        ? new Date(resource.lastDayOfWork)
-        : endDate;
-    // Use getTime to compare Date objects accurately
-    if (startDate.getTime() > effectiveEndDate.getTime()) return 0;
-
-    const workingDays = getWorkingDaysBetween(
-      startDate,
-      effectiveEndDate,
-      companyCalendar,
-      resource.location
-    );
-    if (workingDays === 0) return 0;
-
-    let totalPersonDays = 0;
-    const assignmentAllocations = allocations[assignment.id!];
-
-    if (assignmentAllocations) {
-      const currentDate = new Date(startDate.getTime()); // Copy
-      while (currentDate.getTime() <= effectiveEndDate.getTime()) {
-        const dateStr = formatDate(currentDate, 'iso');
-        if (assignmentAllocations[dateStr]) {
-          const day = currentDate.getUTCDay();
-          if (
-            !isHoliday(currentDate, resource.location, companyCalendar) &&
-            day !== 0 &&
-            day !== 6
-          ) {
-            totalPersonDays += assignmentAllocations[dateStr] / 100;
-          }
-        }
-        // Iterate safely using UTC
-        currentDate.setUTCDate(currentDate.getUTCDate() + 1);
-      }
-    }
+  // Per i segnaposto di ruolo: calendario aziendale senza sede né ultimo giorno
+  const resource = useMemo(() => resolveAssignmentProfile(assignment, resources), [assignment, resources]);
 
-    return (totalPersonDays / workingDays) * 100;
-  }, [assignment.id, startDate, endDate, allocations, companyCalendar, resource]);
+  const averageAllocation = useMemo(
+    () => (resource ? getAverageAllocation(allocations[assignment.id!], resource, startDate, endDate, companyCalendar) : 0),
+    [assignment.id, startDate, endDate, allocations, companyCalendar, resource]
+  );
+  const cellColor = LOAD_TONE_CLASSES[getAssignmentAverageTone(averageAllocation)] || 'bg-transparent';
 
-  const cellColor = useMemo(() => {
-    if (averageAllocation > 100)
-      return 'bg-error-container text-on-error-container';
-    if (averageAllocation >= 95 && averageAllocation <= 100)
-      return 'bg-tertiary-container text-on-tertiary-container';
-    if (averageAllocation > 0 && averageAllocation < 95)
-      return 'bg-yellow-container text-on-yellow-container';
-    return 'bg-transparent';
-  }, [averageAllocation]);
+  const isTentative = isTentativeAssignment(assignment);
 
   return (
     <td
-      className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor}`}
+      className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor} ${isTentative ? 'italic opacity-70' : ''}`}
+      title={isTentative ? 'Allocazione provvisoria' : undefined}
     >
       {averageAllocation > 0 ? `${averageAllocation.toFixed(0)}%` : '-'}
     </td>
@@ -258,13 +368,17 @@ interface DailyTotalCellProps {
 
 const DailyTotalCell: React.FC<DailyTotalCellProps> = React.memo(
   ({ resource, date, isNonWorkingDay, resourceAssignments, activeLeave, leaveType, onDiagnose }) => {
-    const { allocations } = useAllocationsContext();
+    const { allocations, allocationConflicts } = useAllocationsContext();
+    const conflict = useMemo(
+      () => allocationConflicts.find(c => c.resourceId === resource.id && c.date === date),
+      [allocationConflicts, resource.id, date]
+    );
 
-    const total = useMemo(() => {
-      return resourceAssignments.reduce((sum, a) => {
-        return sum + (allocations[a.id!]?.[date] || 0);
-      }, 0);
-    }, [resourceAssignments, allocations, date]);
+    // Il totale include la quota provvisoria, evidenziata a parte nella cella
+    const { total, tentative } = useMemo(
+      () => splitDailyLoadByBooking(resourceAssignments, allocations, date),
+      [resourceAssignments, allocations, date]
+    );
 
     // If full day leave, show leave icon only
     if (activeLeave && leaveType && !activeLeave.isHalfDay) {
@@ -294,20 +408,11 @@ const DailyTotalCell: React.FC<DailyTotalCellProps> = React.memo(
         capacityUsed += 50; // Add 50% load for half day leave
     }
 
-    let cellColor: string;
-
-    if (effectiveNonWorking) {
-      cellColor = 'bg-surface-container text-on-surface-variant';
-    } else if (capacityUsed > maxPercentage) {
-      cellColor = 'bg-error-container text-on-error-container';
-    } else if (capacityUsed === maxPercentage) {
-      cellColor = 'bg-tertiary-container text-on-tertiary-container';
-    } else if (total > 0) {
-      cellColor = 'bg-yellow-container text-on-yellow-container';
-    } else if (activeLeave && activeLeave.isHalfDay) {
-        cellColor = 'bg-surface-container-high'; // Half day leave but no work allocation
-    } else {
-      cellColor = 'bg-surface-container-low';
+    const tone = getDailyLoadTone(capacityUsed, total, maxPercentage, effectiveNonWorking);
+    let cellColor = LOAD_TONE_CLASSES[tone];
+    if (tone === 'EMPTY') {
+      // Half day leave but no work allocation
+      cellColor = activeLeave && activeLeave.isHalfDay ? 'bg-surface-container-high' : 'bg-surface-container-low';
     }
 
     if (effectiveNonWorking) {
@@ -324,16 +429,25 @@ const DailyTotalCell: React.FC<DailyTotalCellProps> = React.memo(
     const canDiagnose = Boolean(onDiagnose) && total > 0;
     const content = (
       <>
+        {conflict && (
+            <span className="material-symbols-outlined text-xs mr-1 align-middle text-error" aria-hidden="true">warning</span>
+        )}
         {activeLeave && activeLeave.isHalfDay && (
             <span className="material-symbols-outlined text-xs mr-1 align-middle opacity-50">schedule</span>
         )}
         {total > 0 ? `${total}%` : (activeLeave && activeLeave.isHalfDay ? '1/2' : '-')}
+        {tentative > 0 && (
+            <span className="ml-1 text-[10px] font-normal italic opacity-80">({tentative}% provv.)</span>
+        )}
       </>
     );
 
+    const tentativeNote = tentative > 0 ? `Di cui ${tentative}% provvisorio` : undefined;
+
     return (
       <td
-        className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor}`}
+        className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor} ${conflict ? 'ring-2 ring-inset ring-error' : ''}`}
+        title={conflict ? [describeAllocationConflict(conflict), tentativeNote].filter(Boolean).join(' — ') : tentativeNote}
       >
         {canDiagnose ? (
           <button
@@ -365,7 +479,8 @@ const LoadDiagnosisModal: React.FC<{
   clientsById: Map<string, Client>;
   onClose: () => void;
 }> = ({ resource, date, assignments, projectsById, clientsById, onClose }) => {
-  const { allocations, updateAllocation } = useAllocationsContext();
+  const { allocations } = useAllocationsContext();
+  const commitAllocation = useCommitAllocation();
   const max = resource.maxStaffingPercentage ?? 100;
   const rows = useMemo(() => assignments
     .map(a => ({ a, pct: allocations[a.id!]?.[date] ?? 0, project: projectsById.get(a.projectId) }))
@@ -402,7 +517,7 @@ const LoadDiagnosisModal: React.FC<{
                 <select
                   id={`diag-${a.id}`}
                   value={pct}
-                  onChange={(e) => updateAllocation(a.id!, date, Number(e.target.value))}
+                  onChange={(e) => commitAllocation(a.id!, date, Number(e.target.value))}
                   aria-label={`Allocazione di ${resource.name} su ${project?.name || 'progetto'} il ${formatDateFull(date)}`}
                   className={`form-select w-24 text-sm ${pct > 0 ? 'font-bold' : ''}`}
                 >
@@ -439,12 +554,12 @@ const ReadonlyAggregatedTotalCell: React.FC<{
   const { companyCalendar } = useLookupContext();
   const { allocations } = useAllocationsContext();
 
-  const averageAllocation = useMemo(() => {
+  const { averageAllocation, tentativeAllocation } = useMemo(() => {
     const effectiveEndDate =
       resource.lastDayOfWork && new Date(resource.lastDayOfWork) < endDate
         ? new Date(resource.lastDayOfWork)
         : endDate;
-    if (startDate.getTime() > effectiveEndDate.getTime()) return 0;
+    if (startDate.getTime() > effectiveEndDate.getTime()) return { averageAllocation: 0, tentativeAllocation: 0 };
 
     const workingDays = getWorkingDaysBetween(
       startDate,
@@ -452,7 +567,7 @@ const ReadonlyAggregatedTotalCell: React.FC<{
       companyCalendar,
       resource.location
     );
-    if (workingDays === 0) return 0;
+    if (workingDays === 0) return { averageAllocation: 0, tentativeAllocation: 0 };
 
     // Esclude le assegnazioni su progetti "Completato": non devono contribuire al carico visualizzato in Staffing.
     const projectsById = new Map(projects.map((p) => [p.id, p]));
@@ -460,8 +575,10 @@ const ReadonlyAggregatedTotalCell: React.FC<{
       (a) => a.resourceId === resource.id && isProjectVisibleInStaffing(projectsById.get(a.projectId))
     );
     let totalPersonDays = 0;
+    let tentativePersonDays = 0;
 
     resourceAssignments.forEach((assignment) => {
+      const isTentative = isTentativeAssignment(assignment);
       const assignmentAllocations = allocations[assignment.id!];
       if (assignmentAllocations) {
         const currentDate = new Date(startDate.getTime()); // Copy for safety
@@ -475,6 +592,7 @@ const ReadonlyAggregatedTotalCell: React.FC<{
               day !== 6
             ) {
               totalPersonDays += assignmentAllocations[dateStr] / 100;
+              if (isTentative) tentativePersonDays += assignmentAllocations[dateStr] / 100;
             }
           }
           currentDate.setUTCDate(currentDate.getUTCDate() + 1);
@@ -482,26 +600,25 @@ const ReadonlyAggregatedTotalCell: React.FC<{
       }
     });
 
-    return (totalPersonDays / workingDays) * 100;
+    return {
+      averageAllocation: (totalPersonDays / workingDays) * 100,
+      tentativeAllocation: (tentativePersonDays / workingDays) * 100,
+    };
   }, [resource, startDate, endDate, assignments, projects, allocations, companyCalendar]);
 
-  const cellColor = useMemo(() => {
-    const maxPercentage = resource.maxStaffingPercentage ?? 100;
-    const roundedAverage = Math.round(averageAllocation);
-    if (roundedAverage > maxPercentage)
-      return 'bg-error-container text-on-error-container';
-    if (roundedAverage === maxPercentage)
-      return 'bg-tertiary-container text-on-tertiary-container';
-    if (roundedAverage > 0 && roundedAverage < maxPercentage)
-      return 'bg-yellow-container text-on-yellow-container';
-    return 'bg-surface-container-low';
-  }, [averageAllocation, resource.maxStaffingPercentage]);
+  const cellColor = LOAD_TONE_CLASSES[getAverageLoadTone(averageAllocation, resource.maxStaffingPercentage ?? 100)] || 'bg-surface-container-low';
+
+  const roundedTentative = Math.round(tentativeAllocation);
 
   return (
     <td
       className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor}`}
+      title={roundedTentative > 0 ? `Di cui ${roundedTentative}% provvisorio` : undefined}
     >
       {averageAllocation > 0 ? `${averageAllocation.toFixed(0)}%` : '-'}
+      {roundedTentative > 0 && (
+        <span className="ml-1 text-[10px] font-normal italic opacity-80">({roundedTentative}% provv.)</span>
+      )}
     </td>
   );
 });
@@ -518,6 +635,95 @@ interface TimeColumn {
   dateIso?: string; // valorizzato in viewMode 'day' e sempre su mobile
 }
 
+/**
+ * Pannello della cronologia undo/redo: elenca le operazioni della sessione
+ * (più recenti in alto) con risorsa, progetto e periodo coinvolti. Le operazioni
+ * annullate restano visibili, attenuate, finché non vengono sovrascritte.
+ */
+const HISTORY_KIND_ICONS: Record<StaffingHistoryEntry['kind'], string> = {
+  CELL_EDIT: 'edit',
+  RANGE_EDIT: 'select_all',
+  BULK_ASSIGNMENT: 'date_range',
+  PATTERN_APPLY: 'event_repeat',
+  ASSIGNMENT_DELETE: 'person_remove',
+};
+
+const StaffingHistoryPanel: React.FC<{
+  past: StaffingHistoryEntry[];
+  future: StaffingHistoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  onClose: () => void;
+  getResourceName: (id: string) => string;
+  getProjectName: (id: string) => string;
+}> = ({ past, future, canUndo, canRedo, onUndo, onRedo, onClear, onClose, getResourceName, getProjectName }) => {
+  const renderEntry = (entry: StaffingHistoryEntry, isUndone: boolean) => {
+    const cells = entry.kind === 'ASSIGNMENT_DELETE' ? entry.before.length : entry.after.length;
+    const period = !entry.startDate
+      ? 'Nessuna allocazione'
+      : entry.startDate === entry.endDate
+        ? formatDateFull(entry.startDate)
+        : `${formatDateFull(entry.startDate)} → ${formatDateFull(entry.endDate)}`;
+    const detail = entry.kind === 'CELL_EDIT'
+      ? `${entry.before[0]?.percentage ?? 0}% → ${entry.after[0]?.percentage ?? 0}%`
+      : `${cells} giornate`;
+    const otherAssignments = new Set(entry.after.map(u => u.assignmentId)).size - 1;
+    return (
+      <li key={entry.id} className={`flex gap-3 px-3 py-2 rounded-xl border ${isUndone ? 'border-dashed border-outline-variant opacity-60' : 'border-outline-variant'}`}>
+        <span className="material-symbols-outlined text-on-surface-variant mt-0.5" aria-hidden="true">{HISTORY_KIND_ICONS[entry.kind]}</span>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-semibold text-on-surface">
+            {STAFFING_HISTORY_LABELS[entry.kind]}
+            {isUndone && <span className="ml-2 text-xs font-normal text-on-surface-variant">(annullata)</span>}
+          </p>
+          <p className="text-xs text-on-surface truncate">
+            {getResourceName(entry.resourceId)} · {getProjectName(entry.projectId)}
+            {otherAssignments > 0 && ` e altre ${otherAssignments} assegnazioni`}
+          </p>
+          <p className="text-xs text-on-surface-variant">{period} · {detail}</p>
+        </div>
+        <span className="text-xs text-on-surface-variant whitespace-nowrap">
+          {new Date(entry.timestamp).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </li>
+    );
+  };
+
+  return (
+    <aside aria-label="Cronologia modifiche" className="fixed top-0 right-0 bottom-0 z-40 w-full max-w-sm bg-surface shadow-xl flex flex-col animate-fade-in">
+      <div className="flex items-center justify-between p-4 border-b border-outline-variant">
+        <h3 className="text-lg font-bold text-on-surface">Cronologia modifiche</h3>
+        <button type="button" aria-label="Chiudi cronologia" onClick={onClose} className="p-2 rounded-full hover:bg-surface-container">
+          <span className="material-symbols-outlined" aria-hidden="true">close</span>
+        </button>
+      </div>
+      <div className="flex items-center gap-2 p-4 border-b border-outline-variant">
+        <button type="button" onClick={onUndo} disabled={!canUndo} className="flex items-center px-4 py-1.5 rounded-full bg-secondary-container text-on-secondary-container text-sm font-semibold disabled:opacity-50">
+          <span className="material-symbols-outlined mr-1 text-base" aria-hidden="true">undo</span>Annulla
+        </button>
+        <button type="button" onClick={onRedo} disabled={!canRedo} className="flex items-center px-4 py-1.5 rounded-full bg-secondary-container text-on-secondary-container text-sm font-semibold disabled:opacity-50">
+          <span className="material-symbols-outlined mr-1 text-base" aria-hidden="true">redo</span>Ripristina
+        </button>
+        <button type="button" onClick={onClear} disabled={past.length + future.length === 0} className="ml-auto text-sm text-on-surface-variant underline hover:no-underline disabled:opacity-50">Svuota</button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        {past.length + future.length === 0 ? (
+          <p className="text-sm text-on-surface-variant text-center py-6">Nessuna modifica in questa sessione.</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...future].reverse().map(entry => renderEntry(entry, true))}
+            {[...past].reverse().map(entry => renderEntry(entry, false))}
+          </ul>
+        )}
+      </div>
+      <p className="p-3 text-xs text-on-surface-variant border-t border-outline-variant">Scorciatoie: Ctrl+Z per annullare, Ctrl+Shift+Z o Ctrl+Y per ripristinare.</p>
+    </aside>
+  );
+};
+
 // --- MOBILE COMPONENTS ---
 
 const MobileAssignmentEditor: React.FC<{
@@ -526,7 +732,8 @@ const MobileAssignmentEditor: React.FC<{
   dates: { dateIso: string; label: string; isNonWorkingDay: boolean }[];
   onClose: () => void;
 }> = ({ assignment, projectName, dates, onClose }) => {
-  const { allocations, updateAllocation } = useAllocationsContext();
+  const { allocations } = useAllocationsContext();
+  const commitAllocation = useCommitAllocation();
 
   return (
       <div className="fixed inset-0 z-50 bg-background flex flex-col animate-slide-up">
@@ -543,7 +750,7 @@ const MobileAssignmentEditor: React.FC<{
                   // Debounce logic specifically for mobile slider to avoid lag
                   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
                        const val = parseInt(e.target.value, 10);
-                       updateAllocation(assignment.id!, d.dateIso, val);
+                       commitAllocation(assignment.id!, d.dateIso, val);
                   };
 
                   return (
@@ -631,8 +838,11 @@ const MobileResourceCard: React.FC<{
                               className="flex justify-between items-center p-3 bg-surface-container-low rounded-lg border border-transparent active:bg-surface-container-high active:border-outline-variant transition-colors cursor-pointer"
                           >
                               <div className="flex flex-col truncate pr-2">
-                                  <span className="font-medium text-sm text-on-surface truncate">{a.projectName}</span>
-                                  <span className="text-xs text-on-surface-variant truncate">{a.clientName}</span>
+                                  <span className={`font-medium text-sm text-on-surface truncate ${isTentativeAssignment(a.assignment) ? 'italic' : ''}`}>{a.projectName}</span>
+                                  <span className="text-xs text-on-surface-variant truncate">
+                                      {a.clientName}
+                                      {isTentativeAssignment(a.assignment) && ` · ${BOOKING_STATUS_LABELS.TENTATIVE}`}
+                                  </span>
                               </div>
                               <div className="flex items-center gap-2 flex-shrink-0">
                                   <span className="text-sm font-semibold text-primary">{a.avgLoad.toFixed(0)}%</span>
@@ -660,7 +870,7 @@ const MobileResourceCard: React.FC<{
 
 // --- Pagina Principale ---
 
-export const StaffingPage: React.FC = () => {
+const StaffingPageContent: React.FC = () => {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<ViewMode>('week');
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
@@ -672,12 +882,27 @@ export const StaffingPage: React.FC = () => {
   }, []);
 
   const { resources, roles } = useResourcesContext();
-  const { projects, assignments, clients, addMultipleAssignments, deleteAssignment } = useProjectsContext();
-  const { companyCalendar } = useLookupContext();
-  const { leaveRequests, leaveTypes } = useHRContext();
+  const {
+      projects, assignments, clients, addMultipleAssignments, updateAssignmentBookingStatus, updateAssignmentPattern,
+      deleteAssignment, addPlaceholderAssignment,
+  } = useProjectsContext();
+  const { companyCalendar, locationCalendars, overbookingPolicy } = useLookupContext();
+  const { leaveRequests, leaveTypes, resourceRequests } = useHRContext();
   const { isActionLoading } = useAppState();
-  const { allocations, bulkUpdateAllocations, updateAllocation, applyAllocationUpdates } = useAllocationsContext();
+  const {
+      allocations, allocationConflicts, dismissAllocationConflicts, staffingRuleViolations, dismissStaffingRuleViolations,
+  } = useAllocationsContext();
+  const { planAssignmentEffort } = useEffortPlanning();
+  const { previewReassignment, executeReassignment, convertPlaceholder } = useReassignment();
   const { addToast } = useToast();
+  // Cronologia undo/redo di sessione (modifiche di cella, assegnazioni massive, eliminazioni)
+  const staffingHistory = useStaffingHistory();
+  const { undo, redo } = staffingHistory;
+  const [isHistoryPanelOpen, setHistoryPanelOpen] = useState(false);
+  // Vista storica "com'era al…" e storico modifiche della singola cella
+  const { asOf, trackedSince, setAsOf } = useAllocationAsOf();
+  const [changesCell, setChangesCell] = useState<{ assignmentId: string; date: string } | null>(null);
+  const openChangesCell = useCallback((assignmentId: string, date: string) => setChangesCell({ assignmentId, date }), []);
 
   // Modali Desktop
   const [isBulkModalOpen, setBulkModalOpen] = useState(false);
@@ -685,11 +910,20 @@ export const StaffingPage: React.FC = () => {
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
   const [assignmentToDelete, setAssignmentToDelete] = useState<Assignment | null>(null);
   const [bulkFormData, setBulkFormData] = useState<BulkAssignmentFormValues>({ startDate: '', endDate: '', percentage: 50 });
-  // R-A3: stato per l'annullamento dell'ultima assegnazione massiva (snapshot dei valori precedenti).
-  const [lastBulkUndo, setLastBulkUndo] = useState<{ updates: AllocationUpdate[]; count: number; label: string } | null>(null);
+  // Piano di effort: giorni/uomo su una finestra, distribuiti automaticamente dal server.
+  const [effortAssignment, setEffortAssignment] = useState<Assignment | null>(null);
+  const [effortFormData, setEffortFormData] = useState<Partial<EffortPlanFormValues>>({});
+  // Allocazione ricorrente: il pattern viene espanso sull'intervallo e salvato sull'assegnazione.
+  const [patternAssignment, setPatternAssignment] = useState<Assignment | null>(null);
+  // Riassegnazione: allocazioni dal cutover trasferite a un'altra risorsa (undefined = wizard chiuso).
+  const [reassignSourceId, setReassignSourceId] = useState<string | undefined>(undefined);
   // R-A2: cella selezionata per la diagnosi del carico ("perché è in rosso").
   const [diagnoseCell, setDiagnoseCell] = useState<{ resource: Resource; date: string; assignments: Assignment[] } | null>(null);
-  const [newAssignmentData, setNewAssignmentData] = useState<AssignmentFormValues>({ resourceId: '', projectIds: [] });
+  const [newAssignmentData, setNewAssignmentData] = useState<AssignmentFormValues>({ resourceId: '', projectIds: [], bookingStatus: 'CONFIRMED' });
+  // Segnaposto di ruolo: creazione e conversione in assegnazione nominativa (null = modale chiusa).
+  const [isPlaceholderModalOpen, setPlaceholderModalOpen] = useState(false);
+  const [newPlaceholderData, setNewPlaceholderData] = useState<PlaceholderFormValues>({ projectId: '', roleId: '', resourceRequestId: '', bookingStatus: 'CONFIRMED' });
+  const [placeholderToConvert, setPlaceholderToConvert] = useState<Assignment | null>(null);
 
   // Visibilità assegnazioni con allocazione 0% (mai popolate): di default nascoste, attivabile dall'utente.
   const [showZeroAllocationAssignments, setShowZeroAllocationAssignments] = useState(false);
@@ -789,6 +1023,12 @@ export const StaffingPage: React.FC = () => {
     return cols;
   }, [currentDate, viewMode, companyCalendar, isMobile]);
 
+  // Le colonne fuori dalle finestre già caricate scaricano le allocazioni durante la navigazione
+  useAllocationWindow(
+    timeColumns.length > 0 ? formatDate(timeColumns[0].startDate, 'iso') : null,
+    timeColumns.length > 0 ? formatDate(timeColumns[timeColumns.length - 1].endDate, 'iso') : null
+  );
+
   const handlePrev = useCallback(() => setCurrentDate(prev => {
     const newDate = new Date(prev);
     if (viewMode === 'week') newDate.setUTCDate(newDate.getUTCDate() - 7);
@@ -808,33 +1048,85 @@ export const StaffingPage: React.FC = () => {
   const handleToday = useCallback(() => setCurrentDate(new Date()), []);
 
   const openBulkModal = useCallback((assignment: Assignment) => { setSelectedAssignment(assignment); setBulkFormData({ startDate: '', endDate: '', percentage: 50 }); setBulkModalOpen(true); }, []);
-  const openNewAssignmentModal = useCallback((resourceId: string = '') => { setNewAssignmentData({ resourceId, projectIds: [] }); setAssignmentModalOpen(true); }, []);
+  const openEffortModal = useCallback((assignment: Assignment) => {
+      const project = projects.find(p => p.id === assignment.projectId);
+      setEffortFormData(hasEffortPlan(assignment)
+          ? { plannedEffortDays: Number(assignment.plannedEffortDays), effortStartDate: assignment.effortStartDate!, effortEndDate: assignment.effortEndDate! }
+          : { effortStartDate: project?.startDate || '', effortEndDate: project?.endDate || '' });
+      setEffortAssignment(assignment);
+  }, [projects]);
+  const openNewAssignmentModal = useCallback((resourceId: string = '') => { setNewAssignmentData({ resourceId, projectIds: [], bookingStatus: 'CONFIRMED' }); setAssignmentModalOpen(true); }, []);
 
-  const handleBulkSubmit = (values: BulkAssignmentFormValues) => {
+  const handleBulkSubmit = async (values: BulkAssignmentFormValues) => {
       if (!selectedAssignment) return;
-      const assignmentId = selectedAssignment.id!;
-      // R-A3: cattura i valori precedenti dei giorni lavorativi nel range, così da
-      // poter annullare l'operazione (ripristino preciso, anche delle celle svuotate).
-      const previous = buildAllocationSnapshot(assignmentId, values.startDate, values.endDate, allocations);
-      bulkUpdateAllocations(assignmentId, values.startDate, values.endDate, values.percentage);
-      if (previous.length > 0) {
-          const proj = getProjectById(selectedAssignment.projectId);
-          setLastBulkUndo({ updates: previous, count: previous.length, label: proj?.name || 'assegnazione' });
-      }
+      // Giorni lavorativi del range con la nuova percentuale: i valori precedenti
+      // vengono catturati dalla cronologia per l'undo (anche delle celle vuote).
+      const updates = buildAllocationSnapshot(selectedAssignment.id!, values.startDate, values.endDate, allocations)
+          .map(u => ({ ...u, percentage: values.percentage }));
       setBulkFormData(values);
       setBulkModalOpen(false);
+      if (await staffingHistory.commitAllocations('BULK_ASSIGNMENT', updates)) {
+          addToast(`Aggiornate ${updates.length} giornate.`, 'success');
+      }
+  };
+
+  const handleEffortSubmit = (values: EffortPlanFormValues) => {
+      if (!effortAssignment) return;
+      const isRemoval = values.plannedEffortDays === 0;
+      planAssignmentEffort(effortAssignment.id!, {
+          plannedEffortDays: isRemoval ? null : values.plannedEffortDays,
+          effortStartDate: isRemoval ? null : values.effortStartDate,
+          effortEndDate: isRemoval ? null : values.effortEndDate,
+      });
+      setEffortAssignment(null);
+  };
+
+  const holidaySet = useMemo(() => buildHolidaySet(companyCalendar, locationCalendars), [companyCalendar, locationCalendars]);
+  const patternResource = patternAssignment ? resources.find(r => r.id === patternAssignment.resourceId) : undefined;
+
+  const handlePatternApply = async (pattern: AllocationPattern, startDate: string, endDate: string) => {
+      if (!patternAssignment) return;
+      const assignmentId = patternAssignment.id!;
+      const updates = expandAllocationPattern(assignmentId, pattern, startDate, endDate, {
+          holidaySet, location: patternResource?.location ?? null,
+      });
+      setPatternAssignment(null);
+      if (await staffingHistory.commitAllocations('PATTERN_APPLY', updates)) {
+          await updateAssignmentPattern(assignmentId, pattern);
+          addToast(`Ricorrenza applicata: ${updates.filter(u => u.percentage > 0).length} giornate allocate su ${updates.length}.`, 'success');
+      }
+  };
+
+  const handlePatternRemove = async () => {
+      if (!patternAssignment) return;
+      const assignmentId = patternAssignment.id!;
+      setPatternAssignment(null);
+      if (await updateAssignmentPattern(assignmentId, null)) {
+          addToast('Ricorrenza rimossa: le allocazioni già scritte restano invariate.', 'success');
+      }
   };
 
-  // R-A3: ripristina i valori precedenti all'ultima assegnazione massiva.
-  const handleUndoBulk = useCallback(async () => {
-      if (!lastBulkUndo) return;
-      await applyAllocationUpdates(lastBulkUndo.updates);
-      addToast('Assegnazione massiva annullata.', 'success');
-      setLastBulkUndo(null);
-  }, [lastBulkUndo, applyAllocationUpdates, addToast]);
+  // Scorciatoie: Ctrl/Cmd+Z annulla, Ctrl/Cmd+Shift+Z o Ctrl+Y ripristina.
+  // Nei campi di testo resta l'undo nativo del browser; le celle numeriche della griglia no.
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+          const key = e.key.toLowerCase();
+          if (key !== 'z' && key !== 'y') return;
+          const target = e.target as HTMLElement | null;
+          const isTextField = !!target && (target.isContentEditable || target.tagName === 'TEXTAREA'
+              || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'number'));
+          if (isTextField) return;
+          e.preventDefault();
+          if (key === 'y' || e.shiftKey) redo();
+          else undo();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
   const handleNewAssignmentSubmit = async (values: AssignmentFormValues) => {
       if (values.resourceId && values.projectIds.length > 0) {
-          const assignmentsToCreate = values.projectIds.map(projectId => ({ resourceId: values.resourceId, projectId }));
+          const assignmentsToCreate = values.projectIds.map(projectId => ({ resourceId: values.resourceId, projectId, bookingStatus: values.bookingStatus }));
           setNewAssignmentData(values);
           setAssignmentModalOpen(false);
           const touched = await addMultipleAssignments(assignmentsToCreate);
@@ -850,6 +1142,30 @@ export const StaffingPage: React.FC = () => {
       }
   };
   
+  const forceAssignmentVisible = useCallback((id: string) => {
+      setForcedVisibleAssignmentIds(prev => new Set(prev).add(id));
+  }, []);
+
+  const handleNewPlaceholderSubmit = async (values: PlaceholderFormValues) => {
+      setNewPlaceholderData(values);
+      setPlaceholderModalOpen(false);
+      const created = await addPlaceholderAssignment({
+          projectId: values.projectId,
+          roleId: values.roleId,
+          resourceRequestId: values.resourceRequestId || null,
+          bookingStatus: values.bookingStatus,
+      });
+      if (created?.id) forceAssignmentVisible(created.id);
+  };
+
+  const handlePlaceholderConversionSubmit = async (values: PlaceholderConversionFormValues) => {
+      if (!placeholderToConvert) return;
+      const placeholderId = placeholderToConvert.id!;
+      setPlaceholderToConvert(null);
+      const result = await convertPlaceholder(placeholderId, values.resourceId);
+      if (result?.success && result.assignment.id) forceAssignmentVisible(result.assignment.id);
+  };
+
   const handleFilterChange = useCallback((name: string, values: string[]) => {
       setFilters(prev => ({ ...prev, [name]: values }));
       setCurrentPage(1);
@@ -863,6 +1179,16 @@ export const StaffingPage: React.FC = () => {
   const getResourceById = useCallback((id: string) => resources.find((r) => r.id === id), [resources]);
   const getProjectById = useCallback((id: string) => projectsById.get(id), [projectsById]);
 
+  const changesCellInfo = useMemo(() => {
+      if (!changesCell) return null;
+      const assignment = assignments.find(a => a.id === changesCell.assignmentId);
+      const owner = assignment?.resourceId
+          ? getResourceById(assignment.resourceId)?.name
+          : rolesById.get(assignment?.roleId || '')?.name;
+      const project = assignment ? getProjectById(assignment.projectId)?.name : undefined;
+      return { ...changesCell, label: [owner, project].filter(Boolean).join(' · ') || 'Assegnazione' };
+  }, [changesCell, assignments, getResourceById, getProjectById, rolesById]);
+
   // --- Data Processing ---
   
   // 1. Filter Assignments based on Project/Client filters FIRST (Using DEBOUNCED filters)
@@ -943,6 +1269,18 @@ export const StaffingPage: React.FC = () => {
       return map;
   }, [filteredAssignments, paginatedResources, allocations, showZeroAllocationAssignments, debouncedFilters, projectsById, forcedVisibleAssignmentIds]);
 
+  // 5b. Segnaposto di ruolo ("Posizioni da coprire"): in testa alla prima pagina, nascosti
+  // quando si filtra per risorsa. Stesse regole di visibilità delle assegnazioni a 0%.
+  const placeholderAssignments = useMemo(() => {
+      if (isMobile || currentPage !== 1 || debouncedFilters.resourceId.length > 0) return EMPTY_ASSIGNMENTS;
+      return filteredAssignments
+          .filter(a => isPlaceholderAssignment(a) && (
+              (a.id && forcedVisibleAssignmentIds.has(a.id)) ||
+              relevantResourceIds !== null ||
+              shouldShowAssignmentInStaffing(allocations[a.id!], showZeroAllocationAssignments)))
+          .sort((a, b) => (projectsById.get(a.projectId)?.name || '').localeCompare(projectsById.get(b.projectId)?.name || ''));
+  }, [isMobile, currentPage, debouncedFilters.resourceId, filteredAssignments, forcedVisibleAssignmentIds, relevantResourceIds, allocations, showZeroAllocationAssignments, projectsById]);
+
   // 6. Pre-calculate Leaves Lookup (Only for visible resources & date range)
   const leavesLookup = useMemo(() => {
       const map = new Map<string, { request: LeaveRequest; type: LeaveType }>();
@@ -983,6 +1321,56 @@ export const StaffingPage: React.FC = () => {
       return map;
   }, [leaveRequests, leaveTypes, viewMode, timeColumns]);
 
+  // 7. Selezione rettangolare (vista Giorno): righe = assegnazioni visibili nell'ordine
+  // della griglia, colonne = giorni. Weekend, festività della sede e assenze di giornata
+  // intera non sono modificabili e vengono saltati da riempimento e incolla.
+  const gridContainerRef = useRef<HTMLDivElement>(null);
+  const gridRows = useMemo(
+      () => [
+          ...placeholderAssignments.map(assignment => ({ resource: null as Resource | null, assignment })),
+          ...paginatedResources.flatMap(resource => (assignmentsByResource.get(resource.id!) || EMPTY_ASSIGNMENTS).map(assignment => ({ resource, assignment }))),
+      ],
+      [placeholderAssignments, paginatedResources, assignmentsByResource]
+  );
+  const gridRowIndex = useMemo(() => new Map(gridRows.map((r, i) => [r.assignment.id!, i])), [gridRows]);
+
+  const resolveGridCell = useCallback((row: number, col: number): ResolvedGridCell | null => {
+      const entry = gridRows[row];
+      const column = timeColumns[col];
+      if (!entry || !column?.dateIso) return null;
+      const leave = entry.resource ? leavesLookup.get(getLeaveKey(entry.resource.id!, column.dateIso)) : undefined;
+      const isWritable = !column.isNonWorkingDay
+          && !isHoliday(column.startDate, entry.resource?.location ?? null, companyCalendar)
+          && !(leave && !leave.request.isHalfDay);
+      return {
+          assignmentId: entry.assignment.id!,
+          date: column.dateIso,
+          current: allocations[entry.assignment.id!]?.[column.dateIso] || 0,
+          isWritable,
+      };
+  }, [gridRows, timeColumns, leavesLookup, companyCalendar, allocations]);
+
+  const handleApplyRange = useCallback(async (updates: AllocationUpdate[]) => {
+      if (await staffingHistory.commitAllocations('RANGE_EDIT', updates)) {
+          addToast(`Aggiornate ${updates.length} celle.`, 'success');
+      }
+  }, [staffingHistory.commitAllocations, addToast]);
+
+  const gridSelection = useGridRangeSelection({
+      rowCount: gridRows.length,
+      colCount: timeColumns.length,
+      enabled: viewMode === 'day' && !isMobile && !asOf,
+      resolveCell: resolveGridCell,
+      onApply: handleApplyRange,
+      containerRef: gridContainerRef,
+  });
+  const [rangeFillValue, setRangeFillValue] = useState(50);
+
+  const handleCopySelection = async () => {
+      if (await gridSelection.copySelection()) addToast('Celle copiate negli appunti.', 'success');
+      else addToast('Impossibile accedere agli appunti: usa Ctrl+C.', 'warning');
+  };
+
 
   // --- Mobile Data Prep ---
   const mobileDisplayData = useMemo(() => {
@@ -1057,6 +1445,80 @@ export const StaffingPage: React.FC = () => {
   }, [paginatedResources, rolesById, resources, assignmentsByResource, projectsById]);
 
 
+  // Export della griglia "come a video": stesse righe della pagina corrente, stesse colonne e colori
+  const buildGridExport = useCallback((): StaffingGridExport => {
+      const toRow = (assignment: Assignment) => {
+          const project = projectsById.get(assignment.projectId);
+          const role = isPlaceholderAssignment(assignment) && assignment.roleId ? rolesById.get(assignment.roleId) : undefined;
+          return {
+              assignment,
+              label: role ? `[${role.name}] ${project?.name || 'N/D'}` : project?.name || 'N/D',
+              client: (project?.clientId && clientsById.get(project.clientId)?.name) || '-',
+              projectManager: project?.projectManager || '-',
+          };
+      };
+      const describeFilter = (label: string, values: string[], getName: (id: string) => string | undefined) =>
+          (values.length > 0 ? `${label}: ${values.map(v => getName(v) || v).join(', ')}` : null);
+      const activeFilters = [
+          describeFilter('Risorse', debouncedFilters.resourceId, id => resources.find(r => r.id === id)?.name),
+          describeFilter('Progetti', debouncedFilters.projectId, id => projectsById.get(id)?.name),
+          describeFilter('Clienti', debouncedFilters.clientId, id => clientsById.get(id)?.name),
+          describeFilter('Project Manager', debouncedFilters.projectManager, name => name),
+      ].filter(Boolean);
+      const viewLabel = viewMode === 'day' ? 'Giorno' : viewMode === 'week' ? 'Settimana' : 'Mese';
+      const totalPages = Math.max(1, Math.ceil(displayResources.length / itemsPerPage));
+      const period = `${formatDateSynthetic(timeColumns[0].startDate)} - ${formatDateSynthetic(timeColumns[timeColumns.length - 1].endDate)}`;
+
+      return buildStaffingGridExport({
+          title: asOf ? `Staffing (com'era al ${new Date(asOf).toLocaleString('it-IT')})` : 'Staffing',
+          viewMode,
+          subtitle: [
+              `Vista: ${viewLabel}`,
+              `Periodo: ${period}`,
+              activeFilters.length > 0 ? `Filtri: ${activeFilters.join('; ')}` : 'Nessun filtro',
+              totalPages > 1 ? `Pagina ${currentPage} di ${totalPages}` : null,
+          ].filter(Boolean).join(' · '),
+          columns: timeColumns,
+          sections: [
+              ...(placeholderAssignments.length > 0 ? [{ resource: null, rows: placeholderAssignments.map(toRow), loadAssignments: [] }] : []),
+              ...paginatedResources.map(resource => ({
+                  resource: {
+                      id: resource.id!,
+                      name: resource.name,
+                      roleName: rolesById.get(resource.roleId)?.name || 'N/D',
+                      maxStaffingPercentage: resource.maxStaffingPercentage,
+                      location: resource.location,
+                      lastDayOfWork: resource.lastDayOfWork,
+                  },
+                  rows: (assignmentsByResource.get(resource.id!) || EMPTY_ASSIGNMENTS).map(toRow),
+                  // Come ReadonlyAggregatedTotalCell: tutte le assegnazioni della risorsa sui progetti visibili
+                  loadAssignments: assignments.filter(a => a.resourceId === resource.id && isProjectVisibleInStaffing(projectsById.get(a.projectId))),
+              })),
+          ],
+          allocations,
+          companyCalendar,
+          getLeave: (resourceId, dateIso) => {
+              const leave = leavesLookup.get(getLeaveKey(resourceId, dateIso));
+              return leave ? { typeName: leave.type.name, isHalfDay: !!leave.request.isHalfDay, affectsCapacity: !!leave.type.affectsCapacity } : undefined;
+          },
+      });
+  }, [
+      asOf, viewMode, timeColumns, debouncedFilters, resources, projectsById, clientsById, rolesById, currentPage, itemsPerPage,
+      displayResources, placeholderAssignments, paginatedResources, assignmentsByResource, assignments, allocations, companyCalendar, leavesLookup,
+  ]);
+
+  const handleExportGrid = useCallback(async () => {
+      try {
+          await exportStaffingGrid(buildGridExport());
+          addToast('Griglia esportata in Excel.', 'success');
+      } catch (error) {
+          console.error('Errore durante l\'export della griglia:', error);
+          addToast('Errore durante l\'export della griglia.', 'error');
+      }
+  }, [buildGridExport, addToast]);
+
+  const buildGridPdfConfig = useCallback(() => buildStaffingGridPdfConfig(buildGridExport()), [buildGridExport]);
+
   // --- JSX ---
 
   const resourceOptions: Option[] = useMemo(
@@ -1074,6 +1536,14 @@ export const StaffingPage: React.FC = () => {
       [projects]
   );
   const clientOptions: Option[] = useMemo(() => clients.map((c) => ({ value: c.id!, label: c.name })), [clients]);
+  // Nel wizard di riassegnazione l'origine può essere anche una risorsa già dimessa.
+  const allResourceOptions: Option[] = useMemo(() => resources.map((r) => ({ value: r.id!, label: r.name })), [resources]);
+  const getReassignmentProjectOptions = useCallback(
+      (resourceId: string): Option[] => assignments
+          .filter((a) => a.resourceId === resourceId)
+          .map((a) => ({ value: a.projectId, label: projectsById.get(a.projectId)?.name || a.projectId })),
+      [assignments, projectsById]
+  );
   const projectManagerOptions: Option[] = useMemo(() => {
       const managers = [...new Set(projects.map((p) => p.projectManager).filter(Boolean) as string[])];
       return managers.sort().map((pm) => ({ value: pm, label: pm }));
@@ -1095,6 +1565,19 @@ export const StaffingPage: React.FC = () => {
       [activeProjectOptions]
   );
 
+  const placeholderFormFields = useMemo<FormFieldDefinition[]>(() => buildPlaceholderFormFields(
+      activeProjectOptions,
+      roles.map((r) => ({ value: r.id!, label: r.name })),
+      resourceRequests
+          .filter((r) => r.status !== 'CHIUSA')
+          .map((r) => ({ value: r.id!, label: `${r.requestCode || 'Senza codice'} - ${projectsById.get(r.projectId)?.name || ''}` })),
+  ), [activeProjectOptions, roles, resourceRequests, projectsById]);
+
+  const placeholderConversionFormFields = useMemo<FormFieldDefinition[]>(
+      () => buildPlaceholderConversionFormFields(resourceOptions).map((field) => ({ ...field, loadOptions: asyncResourceLoader })),
+      [resourceOptions, asyncResourceLoader]
+  );
+
   const assignmentFormFields = useMemo<FormFieldDefinition[]>(() => {
       const fields = buildAssignmentFormFields(resourceOptions, activeProjectOptions);
       return fields.map((field) => {
@@ -1109,6 +1592,8 @@ export const StaffingPage: React.FC = () => {
   }, [resourceOptions, activeProjectOptions, asyncResourceLoader, asyncProjectLoader]);
 
   return (
+    <AllocationCommitContext.Provider value={staffingHistory.commitAllocation}>
+    <AllocationChangesContext.Provider value={openChangesCell}>
     <div className="flex flex-col h-full">
       {/* Controlli + Filtri */}
       <div className="flex-shrink-0 space-y-4">
@@ -1128,7 +1613,11 @@ export const StaffingPage: React.FC = () => {
               ))}
           </div>
           <div className="flex flex-wrap items-center gap-2 w-full md:w-auto">
+              {!asOf && (
+              <>
               <button onClick={() => openNewAssignmentModal()} className="flex items-center justify-center w-full md:w-auto px-6 py-2 bg-primary text-on-primary font-semibold rounded-full shadow-sm"><span className="material-symbols-outlined mr-2 text-xl">add</span>Assegna Risorsa</button>
+              <button onClick={() => setPlaceholderModalOpen(true)} className="flex items-center justify-center w-full md:w-auto px-6 py-2 bg-surface border border-outline text-on-surface font-semibold rounded-full shadow-sm hover:bg-surface-container-low"><span className="material-symbols-outlined mr-2 text-xl">person_search</span>Nuovo Segnaposto</button>
+              <button onClick={() => setReassignSourceId('')} className="flex items-center justify-center w-full md:w-auto px-6 py-2 bg-surface border border-outline text-on-surface font-semibold rounded-full shadow-sm hover:bg-surface-container-low"><span className="material-symbols-outlined mr-2 text-xl">swap_horiz</span>Riassegna</button>
               <button
                   type="button"
                   onClick={() => setShowZeroAllocationAssignments(prev => !prev)}
@@ -1139,7 +1628,51 @@ export const StaffingPage: React.FC = () => {
                   <span className="material-symbols-outlined mr-2 text-xl">{showZeroAllocationAssignments ? 'visibility' : 'visibility_off'}</span>
                   {showZeroAllocationAssignments ? 'Nascondi progetti a 0%' : 'Mostra progetti a 0%'}
               </button>
+              <div className="flex items-center gap-1 w-full md:w-auto justify-center">
+                  <button type="button" onClick={undo} disabled={!staffingHistory.canUndo} aria-label="Annulla" title="Annulla (Ctrl+Z)" className="p-2 rounded-full bg-surface border border-outline text-on-surface hover:bg-surface-container-low disabled:opacity-50">
+                      <span className="material-symbols-outlined text-xl" aria-hidden="true">undo</span>
+                  </button>
+                  <button type="button" onClick={redo} disabled={!staffingHistory.canRedo} aria-label="Ripristina" title="Ripristina (Ctrl+Shift+Z)" className="p-2 rounded-full bg-surface border border-outline text-on-surface hover:bg-surface-container-low disabled:opacity-50">
+                      <span className="material-symbols-outlined text-xl" aria-hidden="true">redo</span>
+                  </button>
+                  <button
+                      type="button"
+                      onClick={() => setHistoryPanelOpen(prev => !prev)}
+                      aria-pressed={isHistoryPanelOpen}
+                      className={`flex items-center px-4 py-2 rounded-full border text-sm font-semibold ${isHistoryPanelOpen ? 'bg-secondary-container text-on-secondary-container border-transparent' : 'bg-surface border-outline text-on-surface hover:bg-surface-container-low'}`}
+                  >
+                      <span className="material-symbols-outlined mr-1 text-xl" aria-hidden="true">history</span>
+                      Cronologia ({staffingHistory.past.length})
+                  </button>
+              </div>
+              </>
+              )}
+              <label className="flex items-center gap-2 text-sm text-on-surface-variant w-full md:w-auto justify-center" title="Mostra la griglia com'era a un istante passato (sola lettura)">
+                  <span className="material-symbols-outlined text-xl" aria-hidden="true">manage_history</span>
+                  Com'era al
+                  <input
+                      type="datetime-local"
+                      value={asOf ? toDateTimeLocalValue(asOf) : ''}
+                      max={toDateTimeLocalValue(new Date().toISOString())}
+                      onChange={(e) => setAsOf(e.target.value ? new Date(e.target.value).toISOString() : null)}
+                      className="form-input text-sm py-1"
+                  />
+              </label>
               <ExportButton data={exportData} title="Staffing" />
+              {!isMobile && (
+                  <>
+                      <button
+                          type="button"
+                          onClick={handleExportGrid}
+                          title="Esporta la griglia visualizzata in Excel, con filtri, vista e colori"
+                          className="inline-flex items-center gap-2 rounded-full border border-outline-variant bg-surface px-3 py-2 text-sm font-medium text-on-surface shadow-sm transition hover:bg-surface-container"
+                      >
+                          <span className="material-symbols-outlined text-base">grid_on</span>
+                          Griglia Excel
+                      </button>
+                      <PdfExportButton buildConfig={buildGridPdfConfig} label="Griglia PDF" />
+                  </>
+              )}
           </div>
         </div>
         
@@ -1159,6 +1692,89 @@ export const StaffingPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Conflitti di overbooking segnalati dal server (evidenziati anche nelle celle) */}
+      {allocationConflicts.length > 0 && (
+          <div role="alert" className="mt-4 flex items-center gap-3 p-3 rounded-2xl bg-error-container text-on-error-container">
+              <span className="material-symbols-outlined" aria-hidden="true">{overbookingPolicy === 'BLOCK' ? 'block' : 'warning'}</span>
+              <span className="text-sm flex-grow">
+                  {overbookingPolicy === 'BLOCK'
+                      ? <>Modifiche rifiutate per sovrallocazione su <strong>{allocationConflicts.length}</strong> giornate: le celle coinvolte sono evidenziate.</>
+                      : <>Allocazioni salvate con sovrallocazione su <strong>{allocationConflicts.length}</strong> giornate: le celle coinvolte sono evidenziate.</>}
+              </span>
+              <button type="button" onClick={dismissAllocationConflicts} className="font-bold text-sm underline hover:no-underline">Ignora</button>
+          </div>
+      )}
+
+      {/* Violazioni delle regole di staffing segnalate dal server (bloccanti o con avviso) */}
+      {staffingRuleViolations.length > 0 && (
+          <div role="alert" className="mt-4 flex items-start gap-3 p-3 rounded-2xl bg-error-container text-on-error-container">
+              <span className="material-symbols-outlined" aria-hidden="true">rule</span>
+              <div className="text-sm flex-grow">
+                  <p>Regole di staffing violate: <strong>{staffingRuleViolations.length}</strong>.</p>
+                  <ul className="mt-1 list-disc list-inside">
+                      {staffingRuleViolations.slice(0, 5).map(v => (
+                          <li key={`${v.ruleId}-${v.resourceId}-${v.period ?? v.assignmentIds.join(',')}`}>
+                              <strong>{resources.find(r => r.id === v.resourceId)?.name ?? 'Risorsa'}</strong>
+                              {' · '}{formatStaffingRulePeriod(v.period)}{' · '}{describeStaffingRuleViolation(v)}
+                              {v.severity === 'BLOCK' && ' (modifica rifiutata)'}
+                          </li>
+                      ))}
+                  </ul>
+                  {staffingRuleViolations.length > 5 && (
+                      <p className="mt-1">…e altre {staffingRuleViolations.length - 5}: vedi il report Violazioni Regole.</p>
+                  )}
+              </div>
+              <button type="button" onClick={dismissStaffingRuleViolations} className="font-bold text-sm underline hover:no-underline">Ignora</button>
+          </div>
+      )}
+
+      {/* Vista storica: griglia in sola lettura all'istante selezionato */}
+      {asOf && (
+          <div role="status" className="mt-4 flex flex-wrap items-center gap-3 p-3 rounded-2xl bg-tertiary-container text-on-tertiary-container">
+              <span className="material-symbols-outlined" aria-hidden="true">manage_history</span>
+              <span className="text-sm flex-grow">
+                  Vista storica al <strong>{new Date(asOf).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}</strong>: le allocazioni sono in sola lettura.
+                  {trackedSince && asOf < trackedSince && (
+                      <> Lo storico è registrato dal {new Date(trackedSince).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}: le modifiche precedenti non sono ricostruibili.</>
+                  )}
+              </span>
+              <button type="button" onClick={() => setAsOf(null)} className="font-bold text-sm underline hover:no-underline">Torna al presente</button>
+          </div>
+      )}
+
+      {/* Barra della selezione multipla: riempimento, svuotamento, copia */}
+      {gridSelection.selectedCount > 1 && (
+          <div className="mt-4 flex flex-wrap items-center gap-3 p-3 rounded-2xl bg-secondary-container text-on-secondary-container">
+              <span className="material-symbols-outlined" aria-hidden="true">select_all</span>
+              <span className="text-sm font-semibold">{gridSelection.selectedCount} celle selezionate</span>
+              <label className="flex items-center gap-2 text-sm">
+                  Valore
+                  <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="5"
+                      value={rangeFillValue}
+                      onChange={(e) => setRangeFillValue(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                      className="form-input w-20 text-sm"
+                  />
+              </label>
+              <button type="button" onClick={() => gridSelection.fillSelection(rangeFillValue)} className="px-4 py-1.5 rounded-full bg-primary text-on-primary text-sm font-semibold">Riempi</button>
+              <button type="button" onClick={() => gridSelection.fillSelection(0)} className="px-4 py-1.5 rounded-full bg-surface text-on-surface text-sm font-semibold">Svuota</button>
+              <button
+                  type="button"
+                  onClick={handleCopySelection}
+                  className="px-4 py-1.5 rounded-full bg-surface text-on-surface text-sm font-semibold"
+              >
+                  Copia
+              </button>
+              <span className="text-xs opacity-80 hidden lg:inline">Ctrl+C / Ctrl+V (anche da Excel), Canc per svuotare, Ctrl+D per riempire in basso, trascina il quadratino per estendere.</span>
+              <button type="button" onClick={gridSelection.clearSelection} aria-label="Annulla selezione" className="ml-auto p-1 rounded-full hover:bg-surface/40">
+                  <span className="material-symbols-outlined text-base" aria-hidden="true">close</span>
+              </button>
+          </div>
+      )}
+
       {/* MAIN CONTENT: RESPONSIVE SWITCH */}
       <div className="flex-grow mt-4">
           {isMobile ? (
@@ -1174,7 +1790,7 @@ export const StaffingPage: React.FC = () => {
               </div>
           ) : (
             <div className="bg-surface rounded-2xl shadow overflow-x-auto">
-              <div className="max-h-[660px] overflow-y-auto">
+              <div ref={gridContainerRef} className="max-h-[660px] overflow-y-auto">
                 <table className="min-w-full divide-y divide-outline-variant">
                     <thead className="bg-surface-container-low sticky top-0 z-10">
                         <tr>
@@ -1193,6 +1809,76 @@ export const StaffingPage: React.FC = () => {
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-outline-variant">
+                        {placeholderAssignments.length > 0 && (
+                            <tr className="bg-surface-container font-bold">
+                                <td className="sticky left-0 bg-surface-container px-3 py-3 text-left text-sm z-9" colSpan={4}>
+                                    <div className="flex flex-col">
+                                        <span>Posizioni da coprire</span>
+                                        <span className="text-xs font-normal text-on-surface-variant">Segnaposto di ruolo, costati con il costo giornaliero del ruolo</span>
+                                    </div>
+                                </td>
+                                {timeColumns.map((_, index) => <td key={index} className="border-t border-outline-variant bg-surface-container" />)}
+                            </tr>
+                        )}
+                        {placeholderAssignments.map(assignment => {
+                            const project = projectsById.get(assignment.projectId);
+                            const client = project && project.clientId ? clientsById.get(project.clientId) : undefined;
+                            const role = assignment.roleId ? rolesById.get(assignment.roleId) : undefined;
+                            const request = assignment.resourceRequestId ? resourceRequests.find(r => r.id === assignment.resourceRequestId) : undefined;
+                            const isTentative = isTentativeAssignment(assignment);
+                            const isDeleting = isActionLoading(`deleteAssignment-${assignment.id}`);
+                            return (
+                                <tr key={assignment.id} className="group hover:bg-surface-container-low">
+                                    <td className="sticky left-0 bg-surface group-hover:bg-surface-container-low px-3 py-4 text-sm font-medium pl-8 z-9 truncate">
+                                        <span className="px-1.5 py-0.5 mr-2 rounded bg-tertiary-container text-on-tertiary-container text-[10px] font-bold uppercase align-middle">{role?.name || 'Ruolo N/D'}</span>
+                                        <Link to={`/projects?projectId=${project?.id}`} className={`text-primary hover:underline ${isTentative ? 'italic' : ''}`}>{project?.name || 'N/D'}</Link>
+                                        {request && (
+                                            <Link to="/resource-requests" title="Richiesta di risorsa collegata" className="ml-2 text-xs text-on-surface-variant hover:underline">{request.requestCode || 'Richiesta'}</Link>
+                                        )}
+                                    </td>
+                                    <td className="hidden md:table-cell px-3 py-4 text-sm text-on-surface-variant truncate">{client?.name || '-'}</td>
+                                    <td className="hidden md:table-cell px-3 py-4 text-sm text-on-surface-variant truncate">{project?.projectManager || '-'}</td>
+                                    <td className={`px-2 py-3 text-center ${isDeleting ? 'opacity-50' : ''}`}>
+                                        <div className="flex items-center justify-center space-x-2">
+                                            <button onClick={() => openBulkModal(assignment)} className="p-1 rounded-full hover:bg-surface-container text-primary"><span className="material-symbols-outlined">calendar_add_on</span></button>
+                                            <button
+                                                onClick={() => setPlaceholderToConvert(assignment)}
+                                                disabled={isActionLoading('convertPlaceholder')}
+                                                title="Assegna a una risorsa"
+                                                aria-label="Assegna a una risorsa"
+                                                className="p-1 rounded-full hover:bg-surface-container text-primary disabled:opacity-50"
+                                            >
+                                                <span className="material-symbols-outlined">person_add</span>
+                                            </button>
+                                            <button onClick={() => setAssignmentToDelete(assignment)} className="p-1 rounded-full hover:bg-surface-container text-error"><span className="material-symbols-outlined">delete</span></button>
+                                        </div>
+                                    </td>
+                                    {timeColumns.map((col, index) => {
+                                        if (viewMode === 'day') {
+                                            const row = gridRowIndex.get(assignment.id!) ?? -1;
+                                            const { selectionBounds, fillBounds } = gridSelection;
+                                            return (
+                                                <AllocationCell
+                                                    key={index}
+                                                    assignment={assignment}
+                                                    date={col.dateIso!}
+                                                    isNonWorkingDay={!!col.isNonWorkingDay || isHoliday(col.startDate, null, companyCalendar)}
+                                                    row={row}
+                                                    col={index}
+                                                    isSelected={isCellInBounds(selectionBounds, row, index)}
+                                                    isFillTarget={isCellInBounds(fillBounds, row, index)}
+                                                    hasFillHandle={!!selectionBounds && !fillBounds && selectionBounds.bottom === row && selectionBounds.right === index}
+                                                    onCellMouseDown={gridSelection.handleCellMouseDown}
+                                                    onCellMouseEnter={gridSelection.handleCellMouseEnter}
+                                                    onFillHandleMouseDown={gridSelection.handleFillHandleMouseDown}
+                                                />
+                                            );
+                                        }
+                                        return <ReadonlyAggregatedAllocationCell key={index} assignment={assignment} startDate={col.startDate} endDate={col.endDate} />;
+                                    })}
+                                </tr>
+                            );
+                        })}
                         {paginatedResources.map(resource => {
                             const role = rolesById.get(resource.roleId);
                             // Use EMPTY_ASSIGNMENTS if undefined to maintain stable reference for empty cases
@@ -1208,7 +1894,10 @@ export const StaffingPage: React.FC = () => {
                                                     <Link to={`/workload?resourceId=${resource.id}`} className="text-primary hover:underline truncate">{resource.name}</Link>
                                                     <span className="text-xs font-normal text-on-surface-variant">{role?.name} (Max: {resource.maxStaffingPercentage}%)</span>
                                                 </div>
-                                                <button onClick={() => openNewAssignmentModal(resource.id!)} className="p-1 rounded-full hover:bg-surface-container-high text-primary"><span className="material-symbols-outlined">add_circle</span></button>
+                                                <div className="flex items-center">
+                                                    <button onClick={() => setReassignSourceId(resource.id!)} title="Riassegna le allocazioni future" className="p-1 rounded-full hover:bg-surface-container-high text-primary"><span className="material-symbols-outlined">swap_horiz</span></button>
+                                                    <button onClick={() => openNewAssignmentModal(resource.id!)} className="p-1 rounded-full hover:bg-surface-container-high text-primary"><span className="material-symbols-outlined">add_circle</span></button>
+                                                </div>
                                             </div>
                                         </td>
                                         {timeColumns.map((col, index) => {
@@ -1238,16 +1927,61 @@ export const StaffingPage: React.FC = () => {
                                         const project = projectsById.get(assignment.projectId);
                                         const client = project && project.clientId ? clientsById.get(project.clientId) : undefined;
                                         const isDeleting = isActionLoading(`deleteAssignment-${assignment.id}`);
+                                        const isTentative = isTentativeAssignment(assignment);
+                                        const isUpdatingBooking = isActionLoading(`updateAssignmentBookingStatus-${assignment.id}`);
+                                        const isPlanningEffort = isActionLoading(`planAssignmentEffort-${assignment.id}`);
+                                        const effortPlanned = hasEffortPlan(assignment) ? Number(assignment.plannedEffortDays) : null;
+                                        const effortDistributed = effortPlanned !== null
+                                            ? getDistributedEffortDays(allocations[assignment.id!], assignment.effortStartDate!, assignment.effortEndDate!)
+                                            : 0;
                                         return (
                                             <tr key={assignment.id} className="group hover:bg-surface-container-low">
                                                  <td className="sticky left-0 bg-surface group-hover:bg-surface-container-low px-3 py-4 text-sm font-medium pl-8 z-9 truncate">
-                                                    <Link to={`/projects?projectId=${project?.id}`} className="text-primary hover:underline">{project?.name || 'N/D'}</Link>
+                                                    <Link to={`/projects?projectId=${project?.id}`} className={`text-primary hover:underline ${isTentative ? 'italic' : ''}`}>{project?.name || 'N/D'}</Link>
+                                                    {isTentative && (
+                                                        <span className="ml-2 px-1.5 py-0.5 rounded border border-dashed border-outline text-[10px] font-bold uppercase text-on-surface-variant align-middle">{BOOKING_STATUS_LABELS.TENTATIVE}</span>
+                                                    )}
+                                                    {effortPlanned !== null && (
+                                                        <span
+                                                            title={`Piano di effort dal ${formatDateSynthetic(assignment.effortStartDate)} al ${formatDateSynthetic(assignment.effortEndDate)}: ${effortDistributed} g/u allocati su ${effortPlanned} pianificati`}
+                                                            className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold align-middle ${effortDistributed < effortPlanned ? 'bg-yellow-container text-on-yellow-container' : 'bg-surface-container text-on-surface-variant'}`}
+                                                        >
+                                                            {effortDistributed}/{effortPlanned} g/u
+                                                        </span>
+                                                    )}
                                                  </td>
                                                  <td className="hidden md:table-cell px-3 py-4 text-sm text-on-surface-variant truncate">{client?.name || '-'}</td>
                                                  <td className="hidden md:table-cell px-3 py-4 text-sm text-on-surface-variant truncate">{project?.projectManager || '-'}</td>
                                                  <td className={`px-2 py-3 text-center ${isDeleting ? 'opacity-50' : ''}`}>
                                                     <div className="flex items-center justify-center space-x-2">
                                                         <button onClick={() => openBulkModal(assignment)} className="p-1 rounded-full hover:bg-surface-container text-primary"><span className="material-symbols-outlined">calendar_add_on</span></button>
+                                                        <button
+                                                            onClick={() => setPatternAssignment(assignment)}
+                                                            disabled={isActionLoading(`updateAssignmentPattern-${assignment.id}`)}
+                                                            title={assignment.allocationPattern ? `Ricorrenza: ${describeAllocationPattern(assignment.allocationPattern)}` : 'Allocazione ricorrente'}
+                                                            aria-label="Allocazione ricorrente"
+                                                            className={`p-1 rounded-full hover:bg-surface-container disabled:opacity-50 ${assignment.allocationPattern ? 'text-primary' : 'text-on-surface-variant'}`}
+                                                        >
+                                                            <span className="material-symbols-outlined">event_repeat</span>
+                                                        </button>
+                                                        <button
+                                                            onClick={() => openEffortModal(assignment)}
+                                                            disabled={isPlanningEffort}
+                                                            title="Pianifica effort"
+                                                            aria-label="Pianifica effort"
+                                                            className={`p-1 rounded-full hover:bg-surface-container disabled:opacity-50 ${effortPlanned !== null ? 'text-primary' : 'text-on-surface-variant'}`}
+                                                        >
+                                                            <span className="material-symbols-outlined">{isPlanningEffort ? 'progress_activity' : 'hourglass_top'}</span>
+                                                        </button>
+                                                        <button
+                                                            onClick={() => updateAssignmentBookingStatus(assignment.id!, isTentative ? 'CONFIRMED' : 'TENTATIVE')}
+                                                            disabled={isUpdatingBooking}
+                                                            title={isTentative ? 'Conferma assegnazione' : 'Segna come provvisoria'}
+                                                            aria-label={isTentative ? 'Conferma assegnazione' : 'Segna come provvisoria'}
+                                                            className="p-1 rounded-full hover:bg-surface-container text-on-surface-variant disabled:opacity-50"
+                                                        >
+                                                            <span className="material-symbols-outlined">{isTentative ? 'event_available' : 'pending'}</span>
+                                                        </button>
                                                         <button onClick={() => setAssignmentToDelete(assignment)} className="p-1 rounded-full hover:bg-surface-container text-error"><span className="material-symbols-outlined">delete</span></button>
                                                     </div>
                                                  </td>
@@ -1257,6 +1991,9 @@ export const StaffingPage: React.FC = () => {
                                                         // Pass leave info to block editing if needed
                                                         const leaveInfo = leavesLookup.get(getLeaveKey(resource.id!, col.dateIso));
                                                         
+                                                        const row = gridRowIndex.get(assignment.id!) ?? -1;
+                                                        const { selectionBounds, fillBounds } = gridSelection;
+
                                                         return (
                                                             <AllocationCell 
                                                                 key={index} 
@@ -1265,6 +2002,14 @@ export const StaffingPage: React.FC = () => {
                                                                 isNonWorkingDay={!!col.isNonWorkingDay || isDayHoliday} 
                                                                 activeLeave={leaveInfo?.request}
                                                                 leaveType={leaveInfo?.type}
+                                                                row={row}
+                                                                col={index}
+                                                                isSelected={isCellInBounds(selectionBounds, row, index)}
+                                                                isFillTarget={isCellInBounds(fillBounds, row, index)}
+                                                                hasFillHandle={!!selectionBounds && !fillBounds && selectionBounds.bottom === row && selectionBounds.right === index}
+                                                                onCellMouseDown={gridSelection.handleCellMouseDown}
+                                                                onCellMouseEnter={gridSelection.handleCellMouseEnter}
+                                                                onFillHandleMouseDown={gridSelection.handleFillHandleMouseDown}
                                                             />
                                                         );
                                                     }
@@ -1291,7 +2036,10 @@ export const StaffingPage: React.FC = () => {
       </div>
 
       {/* Modali Comuni */}
-      {assignmentToDelete && <ConfirmationModal isOpen={!!assignmentToDelete} onClose={() => setAssignmentToDelete(null)} onConfirm={() => { if (assignmentToDelete) { deleteAssignment(assignmentToDelete.id!); setAssignmentToDelete(null); } }} title="Conferma Rimozione" message={<>Sei sicuro di voler rimuovere l'assegnazione di <strong>{getResourceById(assignmentToDelete.resourceId)?.name}</strong> dal progetto <strong>{getProjectById(assignmentToDelete.projectId)?.name}</strong>?</>} isConfirming={isActionLoading(`deleteAssignment-${assignmentToDelete.id}`)} />}
+      {/* I segnaposto non entrano nella cronologia: il ripristino ricrea le assegnazioni per risorsa */}
+      {assignmentToDelete && (isPlaceholderAssignment(assignmentToDelete)
+          ? <ConfirmationModal isOpen onClose={() => setAssignmentToDelete(null)} onConfirm={() => { deleteAssignment(assignmentToDelete.id!); setAssignmentToDelete(null); }} title="Conferma Rimozione" message={<>Sei sicuro di voler rimuovere il segnaposto <strong>{rolesById.get(assignmentToDelete.roleId || '')?.name}</strong> dal progetto <strong>{getProjectById(assignmentToDelete.projectId)?.name}</strong>? Le sue allocazioni verranno eliminate.</>} isConfirming={isActionLoading(`deleteAssignment-${assignmentToDelete.id}`)} />
+          : <ConfirmationModal isOpen={!!assignmentToDelete} onClose={() => setAssignmentToDelete(null)} onConfirm={() => { if (assignmentToDelete) { staffingHistory.deleteAssignmentWithHistory(assignmentToDelete); setAssignmentToDelete(null); } }} title="Conferma Rimozione" message={<>Sei sicuro di voler rimuovere l'assegnazione di <strong>{getResourceById(assignmentToDelete.resourceId)?.name}</strong> dal progetto <strong>{getProjectById(assignmentToDelete.projectId)?.name}</strong>?</>} isConfirming={isActionLoading(`deleteAssignment-${assignmentToDelete.id}`)} />)}
       
       <FormDialog
           isOpen={isBulkModalOpen}
@@ -1304,6 +2052,41 @@ export const StaffingPage: React.FC = () => {
           submitLabel="Salva"
       />
       
+      <AllocationPatternModal
+          isOpen={!!patternAssignment}
+          onClose={() => setPatternAssignment(null)}
+          title={`Allocazione Ricorrente${patternAssignment ? ` — ${getProjectById(patternAssignment.projectId)?.name || ''}` : ''}`}
+          savedPattern={patternAssignment?.allocationPattern}
+          holidaySet={holidaySet}
+          location={patternResource?.location ?? null}
+          onApply={handlePatternApply}
+          onRemove={handlePatternRemove}
+      />
+
+      <ReassignmentWizardModal
+          isOpen={reassignSourceId !== undefined}
+          onClose={() => setReassignSourceId(undefined)}
+          initialSourceResourceId={reassignSourceId}
+          sourceResourceOptions={allResourceOptions}
+          targetResourceOptions={resourceOptions}
+          getSourceProjectOptions={getReassignmentProjectOptions}
+          getProjectName={(id) => getProjectById(id)?.name || id}
+          onPreview={previewReassignment}
+          onConfirm={executeReassignment}
+          isConfirming={isActionLoading('executeReassignment')}
+      />
+
+      <FormDialog
+          isOpen={!!effortAssignment}
+          onClose={() => setEffortAssignment(null)}
+          title={`Pianifica Effort${effortAssignment ? ` — ${getProjectById(effortAssignment.projectId)?.name || ''}` : ''}`}
+          defaultValues={effortFormData}
+          onSubmit={handleEffortSubmit}
+          fields={effortPlanFormFields}
+          schema={effortPlanSchema}
+          submitLabel="Distribuisci"
+      />
+
       <FormDialog
           isOpen={isAssignmentModalOpen}
           onClose={() => setAssignmentModalOpen(false)}
@@ -1315,6 +2098,28 @@ export const StaffingPage: React.FC = () => {
           submitLabel="Aggiungi"
       />
 
+      <FormDialog
+          isOpen={isPlaceholderModalOpen}
+          onClose={() => setPlaceholderModalOpen(false)}
+          title="Nuovo Segnaposto di Ruolo"
+          defaultValues={newPlaceholderData}
+          onSubmit={handleNewPlaceholderSubmit}
+          fields={placeholderFormFields}
+          schema={placeholderSchema}
+          submitLabel="Crea"
+      />
+
+      <FormDialog
+          isOpen={!!placeholderToConvert}
+          onClose={() => setPlaceholderToConvert(null)}
+          title={`Assegna Segnaposto${placeholderToConvert ? ` — ${rolesById.get(placeholderToConvert.roleId || '')?.name || ''}, ${getProjectById(placeholderToConvert.projectId)?.name || ''}` : ''}`}
+          defaultValues={{ resourceId: '' }}
+          onSubmit={handlePlaceholderConversionSubmit}
+          fields={placeholderConversionFormFields}
+          schema={placeholderConversionSchema}
+          submitLabel="Assegna"
+      />
+
       {/* R-A2: diagnosi del carico ("perché è in rosso") */}
       {diagnoseCell && (
           <LoadDiagnosisModal
@@ -1327,17 +2132,33 @@ export const StaffingPage: React.FC = () => {
           />
       )}
 
-      {/* R-A3: annullamento dell'ultima assegnazione massiva */}
-      {lastBulkUndo && (
-          <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-inverse-surface text-inverse-on-surface px-4 py-3 rounded-2xl shadow-lg animate-fade-in">
-              <span className="material-symbols-outlined" aria-hidden="true">history</span>
-              <span className="text-sm">Assegnazione massiva su <strong>{lastBulkUndo.label}</strong> applicata a {lastBulkUndo.count} giornate.</span>
-              <button type="button" onClick={handleUndoBulk} className="font-bold text-sm underline hover:no-underline">Annulla</button>
-              <button type="button" onClick={() => setLastBulkUndo(null)} aria-label="Chiudi avviso" className="ml-1 opacity-70 hover:opacity-100"><span className="material-symbols-outlined text-base" aria-hidden="true">close</span></button>
-          </div>
+      {isHistoryPanelOpen && (
+          <StaffingHistoryPanel
+              past={staffingHistory.past}
+              future={staffingHistory.future}
+              canUndo={staffingHistory.canUndo}
+              canRedo={staffingHistory.canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onClear={staffingHistory.clearHistory}
+              onClose={() => setHistoryPanelOpen(false)}
+              getResourceName={(id) => getResourceById(id)?.name || 'Risorsa eliminata'}
+              getProjectName={(id) => getProjectById(id)?.name || 'Progetto eliminato'}
+          />
       )}
+
+      <AllocationChangeHistoryModal cell={changesCellInfo} onClose={() => setChangesCell(null)} />
     </div>
+    </AllocationChangesContext.Provider>
+    </AllocationCommitContext.Provider>
   );
 };
 
+/** La vista storica sostituisce le allocazioni del context per tutta la pagina. */
+export const StaffingPage: React.FC = () => (
+  <AllocationAsOfProvider>
+    <StaffingPageContent />
+  </AllocationAsOfProvider>
+);
+
 export default StaffingPage;
\ No newline at end of file
@@ -0,0 +1,392 @@
+/**
+ * @file TimesheetPage.tsx
+ * @description Pagina del timesheet: inserimento settimanale delle ore consuntivate per progetto,
+ * invio per approvazione e coda di approvazione per i manager.
+ */
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useResourcesContext } from '../context/ResourcesContext';
+import { useProjectsContext } from '../context/ProjectsContext';
+import { useAllocationsContext } from '../context/AppContext';
+import { useToast } from '../context/ToastContext';
+import { apiFetch } from '../services/apiClient';
+import { TimesheetStatus, TimesheetWeek, TimesheetWeekDetail } from '../types';
+import TimesheetWeekGrid, { TimesheetGridRow } from '../components/TimesheetWeekGrid';
+import SearchableSelect from '../components/SearchableSelect';
+import Modal from '../components/Modal';
+import EmptyState from '../components/EmptyState';
+import { SpinnerIcon } from '../components/icons';
+import { getErrorMessage } from '../utils/getErrorMessage';
+import { addDays, formatDateFull, parseISODate, toISODateString } from '../utils/dateUtils';
+import {
+    TIMESHEET_HOURS_PER_DAY,
+    getTimesheetWeekDays,
+    getTimesheetWeekStart,
+    isTimesheetWeekEditable,
+} from '../utils/timesheetUtils';
+
+type TimesheetTab = 'mine' | 'approvals';
+
+const STATUS_BADGES: Record<TimesheetStatus, { label: string; className: string }> = {
+    DRAFT: { label: 'Bozza', className: 'bg-surface-container-high text-on-surface-variant' },
+    SUBMITTED: { label: 'In approvazione', className: 'bg-secondary-container text-on-secondary-container' },
+    APPROVED: { label: 'Approvato', className: 'bg-tertiary-container text-on-tertiary-container' },
+    REJECTED: { label: 'Rifiutato', className: 'bg-error-container text-on-error-container' },
+};
+
+const StatusBadge: React.FC<{ status: TimesheetStatus }> = ({ status }) => (
+    <span className={`px-3 py-1 rounded-full text-xs font-bold ${STATUS_BADGES[status].className}`}>{STATUS_BADGES[status].label}</span>
+);
+
+const shiftWeek = (weekStart: string, weeks: number) => toISODateString(addDays(parseISODate(weekStart), weeks * 7));
+
+const TimesheetPage: React.FC = () => {
+    const { user, isAdmin, isLoginProtectionEnabled } = useAuth();
+    const { resources } = useResourcesContext();
+    const { projects, assignments } = useProjectsContext();
+    const { allocations } = useAllocationsContext();
+    const { addToast } = useToast();
+
+    // Senza protezione login non esiste un'identità: la pagina si comporta come per un manager.
+    const canReview = isAdmin || !isLoginProtectionEnabled || (!!user && user.role !== 'SIMPLE');
+    const canChooseResource = canReview || !user?.resourceId;
+
+    const [tab, setTab] = useState<TimesheetTab>('mine');
+    const [resourceId, setResourceId] = useState(user?.resourceId || '');
+    const [weekStart, setWeekStart] = useState(() => getTimesheetWeekStart(toISODateString(new Date())));
+    const [detail, setDetail] = useState<TimesheetWeekDetail | null>(null);
+    const [hours, setHours] = useState<Record<string, number>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [pendingWeeks, setPendingWeeks] = useState<TimesheetWeek[] | null>(null);
+    const [weekToReject, setWeekToReject] = useState<TimesheetWeek | null>(null);
+    const [rejectNotes, setRejectNotes] = useState('');
+
+    const days = useMemo(() => getTimesheetWeekDays(weekStart), [weekStart]);
+    const resourceOptions = useMemo(
+        () => resources.filter(r => !r.resigned).map(r => ({ value: r.id!, label: r.name })).sort((a, b) => a.label.localeCompare(b.label)),
+        [resources]
+    );
+    const resourceNameMap = useMemo(() => new Map(resources.map(r => [r.id!, r.name])), [resources]);
+    const projectNameMap = useMemo(() => new Map(projects.map(p => [p.id!, p.name])), [projects]);
+
+    const applyDetail = useCallback((data: TimesheetWeekDetail) => {
+        setDetail(data);
+        setHours(Object.fromEntries(data.entries.map(e => [`${e.projectId}|${e.date}`, e.hours])));
+    }, []);
+
+    useEffect(() => {
+        if (!resourceId) {
+            setDetail(null);
+            return;
+        }
+        setIsLoading(true);
+        apiFetch<TimesheetWeekDetail>(`/api/staffing?action=timesheet&resourceId=${resourceId}&weekStart=${weekStart}`)
+            .then(applyDetail)
+            .catch(e => addToast(getErrorMessage(e) || 'Errore durante il caricamento del timesheet.', 'error'))
+            .finally(() => setIsLoading(false));
+    }, [resourceId, weekStart, applyDetail, addToast]);
+
+    const loadPendingWeeks = useCallback(() => {
+        apiFetch<TimesheetWeek[]>('/api/staffing?action=timesheet&view=approvals')
+            .then(list => setPendingWeeks(list || []))
+            .catch(e => {
+                setPendingWeeks([]);
+                addToast(getErrorMessage(e) || 'Errore durante il caricamento delle approvazioni.', 'error');
+            });
+    }, [addToast]);
+
+    useEffect(() => {
+        if (tab === 'approvals' && pendingWeeks === null) loadPendingWeeks();
+    }, [tab, pendingWeeks, loadPendingWeeks]);
+
+    // Righe: progetti assegnati alla risorsa più quelli già presenti nel consuntivo della settimana.
+    const rows = useMemo<TimesheetGridRow[]>(() => {
+        const byProject = new Map<string, TimesheetGridRow>();
+        for (const assignment of assignments.filter(a => a.resourceId === resourceId)) {
+            const row = byProject.get(assignment.projectId) || {
+                projectId: assignment.projectId,
+                projectName: projectNameMap.get(assignment.projectId) || 'Progetto eliminato',
+                plannedHours: {},
+            };
+            const assignmentAllocations = allocations[assignment.id!] || {};
+            for (const day of days) {
+                const percentage = assignmentAllocations[day] || 0;
+                if (percentage > 0) row.plannedHours[day] = (row.plannedHours[day] || 0) + (percentage / 100) * TIMESHEET_HOURS_PER_DAY;
+            }
+            byProject.set(assignment.projectId, row);
+        }
+        for (const entry of detail?.entries || []) {
+            if (!byProject.has(entry.projectId)) {
+                byProject.set(entry.projectId, {
+                    projectId: entry.projectId,
+                    projectName: projectNameMap.get(entry.projectId) || 'Progetto eliminato',
+                    plannedHours: {},
+                });
+            }
+        }
+        return Array.from(byProject.values()).sort((a, b) => a.projectName.localeCompare(b.projectName));
+    }, [assignments, allocations, resourceId, days, detail, projectNameMap]);
+
+    const handleHoursChange = useCallback((projectId: string, date: string, value: number) => {
+        setHours(prev => ({ ...prev, [`${projectId}|${date}`]: value }));
+    }, []);
+
+    const saveWeek = async (): Promise<boolean> => {
+        const entries = Object.entries(hours)
+            .filter(([, value]) => value > 0)
+            .map(([key, value]) => {
+                const [projectId, date] = key.split('|');
+                return { projectId, date, hours: value };
+            });
+        const saved = await apiFetch<TimesheetWeekDetail>('/api/staffing?action=timesheet', {
+            method: 'PUT',
+            body: JSON.stringify({ resourceId, weekStart, entries }),
+        });
+        applyDetail(saved);
+        return true;
+    };
+
+    const handleSaveDraft = async () => {
+        setIsSaving(true);
+        try {
+            await saveWeek();
+            addToast('Bozza del timesheet salvata.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante il salvataggio del timesheet.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        setIsSaving(true);
+        try {
+            await saveWeek();
+            const week = await apiFetch<TimesheetWeek>('/api/staffing?action=timesheet', {
+                method: 'POST',
+                body: JSON.stringify({ resourceId, weekStart, status: 'SUBMITTED' }),
+            });
+            setDetail(prev => (prev ? { ...prev, week } : prev));
+            setPendingWeeks(null);
+            addToast('Timesheet inviato per approvazione.', 'success');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante l\'invio del timesheet.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReview = async (week: TimesheetWeek, status: 'APPROVED' | 'REJECTED', reviewNotes?: string) => {
+        setIsSaving(true);
+        try {
+            await apiFetch('/api/staffing?action=timesheet', {
+                method: 'POST',
+                body: JSON.stringify({ resourceId: week.resourceId, weekStart: week.weekStart, status, reviewNotes }),
+            });
+            setPendingWeeks(prev => (prev || []).filter(w => !(w.resourceId === week.resourceId && w.weekStart === week.weekStart)));
+            addToast(status === 'APPROVED' ? 'Timesheet approvato.' : 'Timesheet rifiutato.', 'success');
+            setWeekToReject(null);
+            setRejectNotes('');
+        } catch (e) {
+            addToast(getErrorMessage(e) || 'Errore durante la revisione del timesheet.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const openWeek = (week: TimesheetWeek) => {
+        setResourceId(week.resourceId);
+        setWeekStart(week.weekStart);
+        setTab('mine');
+    };
+
+    const status = detail?.week.status ?? 'DRAFT';
+    const editable = isTimesheetWeekEditable(status);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+                <h1 className="text-3xl font-bold text-on-surface">Timesheet</h1>
+                {canReview && (
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setTab('mine')}
+                            className={`px-4 py-2 rounded-full text-sm font-medium ${tab === 'mine' ? 'bg-primary text-on-primary' : 'bg-surface-container text-on-surface-variant hover:bg-surface-container-high'}`}
+                        >
+                            Ore consuntivate
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setTab('approvals')}
+                            className={`px-4 py-2 rounded-full text-sm font-medium ${tab === 'approvals' ? 'bg-primary text-on-primary' : 'bg-surface-container text-on-surface-variant hover:bg-surface-container-high'}`}
+                        >
+                            Approvazioni{pendingWeeks && pendingWeeks.length > 0 ? ` (${pendingWeeks.length})` : ''}
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {tab === 'mine' ? (
+                <div className="bg-surface rounded-2xl shadow border border-outline-variant p-4 space-y-4">
+                    <div className="flex flex-col md:flex-row gap-3 md:items-center justify-between">
+                        <div className="w-full md:w-72">
+                            {canChooseResource ? (
+                                <SearchableSelect
+                                    name="resourceId"
+                                    options={resourceOptions}
+                                    value={resourceId}
+                                    onChange={(_, value) => setResourceId(value)}
+                                    placeholder="Seleziona una risorsa"
+                                />
+                            ) : (
+                                <p className="font-semibold text-on-surface">{resourceNameMap.get(resourceId) || 'Risorsa non trovata'}</p>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button type="button" onClick={() => setWeekStart(w => shiftWeek(w, -1))} className="p-2 rounded-full hover:bg-surface-container" title="Settimana precedente">
+                                <span className="material-symbols-outlined">chevron_left</span>
+                            </button>
+                            <span className="text-sm font-semibold text-on-surface min-w-[220px] text-center">
+                                {formatDateFull(days[0])} – {formatDateFull(days[6])}
+                            </span>
+                            <button type="button" onClick={() => setWeekStart(w => shiftWeek(w, 1))} className="p-2 rounded-full hover:bg-surface-container" title="Settimana successiva">
+                                <span className="material-symbols-outlined">chevron_right</span>
+                            </button>
+                            <button type="button" onClick={() => setWeekStart(getTimesheetWeekStart(toISODateString(new Date())))} className="px-3 py-1 text-sm rounded-full border border-outline hover:bg-surface-container">
+                                Oggi
+                            </button>
+                        </div>
+                    </div>
+
+                    {!resourceId ? (
+                        <EmptyState icon="schedule" title="Nessuna risorsa selezionata" description="Seleziona una risorsa per inserire o consultare le ore della settimana." />
+                    ) : isLoading || !detail ? (
+                        <div className="flex justify-center py-12"><SpinnerIcon className="w-8 h-8 text-primary" /></div>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap items-center gap-3">
+                                <StatusBadge status={status} />
+                                {detail.week.submittedAt && status !== 'DRAFT' && (
+                                    <span className="text-xs text-on-surface-variant">Inviato il {formatDateFull(detail.week.submittedAt.slice(0, 10))}</span>
+                                )}
+                                {detail.week.reviewedBy && (
+                                    <span className="text-xs text-on-surface-variant">Revisionato da {detail.week.reviewedBy}</span>
+                                )}
+                            </div>
+                            {status === 'REJECTED' && detail.week.reviewNotes && (
+                                <div className="p-3 rounded-lg bg-error-container text-on-error-container text-sm">
+                                    <span className="font-semibold">Motivo del rifiuto:</span> {detail.week.reviewNotes}
+                                </div>
+                            )}
+                            {rows.length === 0 ? (
+                                <EmptyState size="compact" icon="work_off" title="Nessun progetto assegnato" description="La risorsa non ha assegnazioni su cui consuntivare ore." />
+                            ) : (
+                                <TimesheetWeekGrid days={days} rows={rows} hours={hours} onChange={handleHoursChange} readOnly={!editable} />
+                            )}
+                            {editable && rows.length > 0 && (
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        type="button"
+                                        onClick={handleSaveDraft}
+                                        disabled={isSaving}
+                                        className="px-4 py-2 border border-outline rounded-full text-primary font-semibold hover:bg-surface-container disabled:opacity-50"
+                                    >
+                                        Salva bozza
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={handleSubmit}
+                                        disabled={isSaving}
+                                        className="px-4 py-2 bg-primary text-on-primary rounded-full font-bold hover:opacity-90 disabled:opacity-50 flex items-center gap-1"
+                                    >
+                                        {isSaving ? <SpinnerIcon className="w-4 h-4" /> : <span className="material-symbols-outlined text-base">send</span>}
+                                        Invia per approvazione
+                                    </button>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            ) : (
+                <div className="bg-surface rounded-2xl shadow border border-outline-variant p-4">
+                    {pendingWeeks === null ? (
+                        <div className="flex justify-center py-12"><SpinnerIcon className="w-8 h-8 text-primary" /></div>
+                    ) : pendingWeeks.length === 0 ? (
+                        <EmptyState icon="task_alt" title="Nessun timesheet da approvare" />
+                    ) : (
+                        <div className="overflow-x-auto rounded-lg border border-outline-variant">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-surface-container-high text-on-surface">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-semibold">Risorsa</th>
+                                        <th className="px-3 py-2 text-left font-semibold">Settimana</th>
+                                        <th className="px-3 py-2 text-right font-semibold">Ore</th>
+                                        <th className="px-3 py-2 text-left font-semibold">Inviato il</th>
+                                        <th className="px-3 py-2 text-right font-semibold">Azioni</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {pendingWeeks.map(week => (
+                                        <tr key={`${week.resourceId}-${week.weekStart}`} className="border-t border-outline-variant">
+                                            <td className="px-3 py-2">{resourceNameMap.get(week.resourceId) || 'Risorsa eliminata'}</td>
+                                            <td className="px-3 py-2">{formatDateFull(week.weekStart)}</td>
+                                            <td className="px-3 py-2 text-right">{(week.totalHours || 0).toLocaleString('it-IT')}</td>
+                                            <td className="px-3 py-2">{week.submittedAt ? formatDateFull(week.submittedAt.slice(0, 10)) : '–'}</td>
+                                            <td className="px-3 py-2">
+                                                <div className="flex justify-end gap-1">
+                                                    <button type="button" onClick={() => openWeek(week)} className="p-2 rounded-full hover:bg-surface-container" title="Apri settimana">
+                                                        <span className="material-symbols-outlined">visibility</span>
+                                                    </button>
+                                                    <button type="button" onClick={() => handleReview(week, 'APPROVED')} disabled={isSaving} className="p-2 rounded-full text-tertiary hover:bg-tertiary-container" title="Approva">
+                                                        <span className="material-symbols-outlined">check_circle</span>
+                                                    </button>
+                                                    <button type="button" onClick={() => setWeekToReject(week)} disabled={isSaving} className="p-2 rounded-full text-error hover:bg-error-container" title="Rifiuta">
+                                                        <span className="material-symbols-outlined">cancel</span>
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {weekToReject && (
+                <Modal isOpen={!!weekToReject} onClose={() => setWeekToReject(null)} title="Rifiuta timesheet">
+                    <form
+                        onSubmit={e => {
+                            e.preventDefault();
+                            handleReview(weekToReject, 'REJECTED', rejectNotes.trim());
+                        }}
+                        className="space-y-4"
+                    >
+                        <p className="text-sm text-on-surface-variant">
+                            {resourceNameMap.get(weekToReject.resourceId) || 'Risorsa'} — settimana del {formatDateFull(weekToReject.weekStart)}.
+                            La risorsa potrà correggere le ore e inviarle di nuovo.
+                        </p>
+                        <textarea
+                            value={rejectNotes}
+                            onChange={e => setRejectNotes(e.target.value)}
+                            required
+                            rows={3}
+                            className="form-textarea w-full"
+                            placeholder="Motivo del rifiuto"
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button type="button" onClick={() => setWeekToReject(null)} className="px-4 py-2 border border-outline rounded-full text-primary font-semibold hover:bg-surface-container">Annulla</button>
+                            <button type="submit" disabled={isSaving || !rejectNotes.trim()} className="px-4 py-2 bg-error text-on-error rounded-full font-bold hover:opacity-90 disabled:opacity-50">Rifiuta</button>
+                        </div>
+                    </form>
+                </Modal>
+            )}
+        </div>
+    );
+};
+
+export default TimesheetPage;
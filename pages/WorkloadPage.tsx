@@ -10,9 +10,11 @@ import { useProjectsContext } from '../context/ProjectsContext';
 import { useLookupContext } from '../context/LookupContext';
 import { useHRContext } from '../context/HRContext';
 import { useAuth } from '../context/AuthContext';
+import { useAllocationWindow } from '../hooks/useAllocationWindow';
 import { Resource, Assignment, LeaveRequest, LeaveType, Role, Project } from '../types';
-import { getCalendarDays, formatDate, addDays, isHoliday, getWorkingDaysBetween, formatDateSynthetic, parseISODate, toISODateString } from '../utils/dateUtils';
-import { isProjectVisibleInStaffing } from '../utils/allocationUtils';
+import { getCalendarDays, formatDate, addDays, buildHolidaySet, formatDateSynthetic, getLocationCalendar, isHolidayInSet, parseISODate, toISODateString } from '../utils/dateUtils';
+import { getAllocatedPersonDays, getScheduledWorkingDays, groupWorkSchedulesByResource, isScheduledWorkingDay } from '../utils/workScheduleUtils';
+import { isProjectVisibleInStaffing, isTentativeAssignment, splitDailyLoadByBooking } from '../utils/allocationUtils';
 import MultiSelectDropdown from '../components/MultiSelectDropdown';
 import { Link } from 'react-router-dom';
 import Pagination from '../components/Pagination';
@@ -65,9 +67,7 @@ const ReadonlyDailyTotalCell: React.FC<DailyTotalCellProps> = React.memo(({ reso
     );
   }
 
-  const total = resourceAssignments.reduce((sum, a) => {
-      return sum + (allocations[a.id!]?.[date] || 0);
-  }, 0);
+  const { total, tentative } = splitDailyLoadByBooking(resourceAssignments, allocations, date);
 
   let capacityUsed = total;
   if (activeLeave && activeLeave.isHalfDay && leaveType?.affectsCapacity) {
@@ -83,57 +83,59 @@ const ReadonlyDailyTotalCell: React.FC<DailyTotalCellProps> = React.memo(({ reso
   else if (activeLeave && activeLeave.isHalfDay) cellColor = 'bg-surface-container-high'; 
 
   return (
-    <td className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor}`}>
+    <td
+      className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor}`}
+      title={tentative > 0 ? `Confermato ${total - tentative}% · Provvisorio ${tentative}%` : undefined}
+    >
       {activeLeave && activeLeave.isHalfDay && <span className="text-xs opacity-50 mr-1">1/2</span>}
       {total > 0 ? `${total}%` : (activeLeave && activeLeave.isHalfDay ? '' : '-')}
+      {tentative > 0 && <span className="block text-[10px] font-normal italic opacity-80">{tentative}% provv.</span>}
     </td>
   );
 });
 
 const ReadonlyAggregatedTotalCell: React.FC<{ resource: Resource; startDate: Date; endDate: Date; resourceAssignments: Assignment[] }> = React.memo(({ resource, startDate, endDate, resourceAssignments }) => {
-  const { companyCalendar } = useLookupContext();
+  const { companyCalendar, locationCalendars } = useLookupContext();
   const { allocations } = useAllocationsContext();
+  const { workSchedules } = useResourcesContext();
+  const holidaySet = useMemo(() => buildHolidaySet(companyCalendar, locationCalendars), [companyCalendar, locationCalendars]);
+  const resourceSchedules = useMemo(() => workSchedules.filter(s => s.resourceId === resource.id), [workSchedules, resource.id]);
 
-  const averageAllocation = useMemo(() => {
+  const { averageAllocation, tentativeAllocation } = useMemo(() => {
     const effectiveEndDate =
       resource.lastDayOfWork && new Date(resource.lastDayOfWork) < endDate
         ? new Date(resource.lastDayOfWork)
         : endDate;
-    if (startDate.getTime() > effectiveEndDate.getTime()) return 0;
+    if (startDate.getTime() > effectiveEndDate.getTime()) return { averageAllocation: 0, tentativeAllocation: 0 };
 
-    const workingDays = getWorkingDaysBetween(
-      startDate,
-      effectiveEndDate,
-      companyCalendar,
-      resource.location
-    );
-    if (workingDays === 0) return 0;
+    const workingDays = getScheduledWorkingDays(startDate, effectiveEndDate, holidaySet, resource.location, resourceSchedules);
+    if (workingDays === 0) return { averageAllocation: 0, tentativeAllocation: 0 };
 
     let totalPersonDays = 0;
+    let tentativePersonDays = 0;
 
     resourceAssignments.forEach((assignment) => {
+      const isTentative = isTentativeAssignment(assignment);
       const assignmentAllocations = allocations[assignment.id!];
       if (assignmentAllocations) {
         const currentDate = new Date(startDate.getTime());
         while (currentDate.getTime() <= effectiveEndDate.getTime()) {
           const dateStr = formatDate(currentDate, 'iso');
           if (assignmentAllocations[dateStr]) {
-            const day = currentDate.getUTCDay();
-            if (
-              !isHoliday(currentDate, resource.location, companyCalendar) &&
-              day !== 0 &&
-              day !== 6
-            ) {
-              totalPersonDays += assignmentAllocations[dateStr] / 100;
-            }
+            const personDays = getAllocatedPersonDays(assignmentAllocations[dateStr], currentDate, holidaySet, resource.location, resourceSchedules);
+            totalPersonDays += personDays;
+            if (isTentative) tentativePersonDays += personDays;
           }
           currentDate.setUTCDate(currentDate.getUTCDate() + 1);
         }
       }
     });
 
-    return (totalPersonDays / workingDays) * 100;
-  }, [resource, startDate, endDate, resourceAssignments, allocations, companyCalendar]);
+    return {
+      averageAllocation: (totalPersonDays / workingDays) * 100,
+      tentativeAllocation: (tentativePersonDays / workingDays) * 100,
+    };
+  }, [resource, startDate, endDate, resourceAssignments, allocations, holidaySet, resourceSchedules]);
 
   const cellColor = useMemo(() => {
     const maxPercentage = resource.maxStaffingPercentage ?? 100;
@@ -148,8 +150,14 @@ const ReadonlyAggregatedTotalCell: React.FC<{ resource: Resource; startDate: Dat
   }, [averageAllocation, resource.maxStaffingPercentage]);
 
   return (
-    <td className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor}`}>
+    <td
+      className={`border-t border-outline-variant px-2 py-3 text-center text-sm font-semibold ${cellColor}`}
+      title={tentativeAllocation > 0 ? `Di cui ${tentativeAllocation.toFixed(0)}% provvisorio` : undefined}
+    >
       {averageAllocation > 0 ? `${averageAllocation.toFixed(0)}%` : '-'}
+      {Math.round(tentativeAllocation) > 0 && (
+        <span className="block text-[10px] font-normal italic opacity-80">{tentativeAllocation.toFixed(0)}% provv.</span>
+      )}
     </td>
   );
 });
@@ -159,8 +167,8 @@ const WorkloadPage: React.FC = () => {
     const [currentDate, setCurrentDate] = useState(new Date());
     const [viewMode, setViewMode] = useState<ViewMode>('week');
     // Destructured loading from useEntitiesContext to fix line 510 error
-    const { resources, roles } = useResourcesContext();
-    const { companyCalendar: companyCalendar2 } = useLookupContext();
+    const { resources, roles, workSchedules } = useResourcesContext();
+    const { companyCalendar: companyCalendar2, locationCalendars } = useLookupContext();
     const { assignments, projects } = useProjectsContext();
     const { leaveRequests, leaveTypes } = useHRContext();
     const { loading } = useAppState();
@@ -267,18 +275,31 @@ const WorkloadPage: React.FC = () => {
         return cols;
     }, [currentDate, viewMode, companyCalendar]);
 
+    // Le colonne fuori dalle finestre già caricate scaricano le allocazioni durante la navigazione
+    useAllocationWindow(
+        timeColumns.length > 0 ? toISODateString(timeColumns[0].startDate) : null,
+        timeColumns.length > 0 ? toISODateString(timeColumns[timeColumns.length - 1].endDate) : null
+    );
+
+    // Capacità e carico secondo l'orario di lavoro della risorsa (part-time): le percentuali
+    // si riferiscono alle ore previste nel giorno, i giorni/uomo alla giornata standard della sede.
+    const holidaySet = useMemo(() => buildHolidaySet(companyCalendar, locationCalendars), [companyCalendar, locationCalendars]);
+    const schedulesByResource = useMemo(() => groupWorkSchedulesByResource(workSchedules), [workSchedules]);
+
     const calculateAvgLoadForPeriod = useCallback((resource: Resource, startDate: Date, endDate: Date) => {
         const effectiveEndDate = resource.lastDayOfWork && new Date(resource.lastDayOfWork) < endDate 
             ? new Date(resource.lastDayOfWork) 
             : endDate;
         
-        if (startDate > effectiveEndDate) return { avg: 0, allocated: 0, available: 0 };
+        if (startDate > effectiveEndDate) return { avg: 0, tentativeAvg: 0, allocated: 0, tentativeAllocated: 0, available: 0 };
 
-        const workingDays = getWorkingDaysBetween(startDate, effectiveEndDate, companyCalendar, resource.location);
-        if (workingDays === 0) return { avg: 0, allocated: 0, available: 0 };
+        const resourceSchedules = schedulesByResource.get(resource.id!);
+        const workingDays = getScheduledWorkingDays(startDate, effectiveEndDate, holidaySet, resource.location, resourceSchedules);
+        if (workingDays === 0) return { avg: 0, tentativeAvg: 0, allocated: 0, tentativeAllocated: 0, available: 0 };
 
         const resourceAssignments = visibleAssignments.filter(a => a.resourceId === resource.id);
         let totalPersonDays = 0;
+        let tentativePersonDays = 0;
 
         // Confronto su stringhe ISO (YYYY-MM-DD): i limiti del periodo possono portare
         // un orario (es. "oggi" con ora corrente) che escluderebbe le allocazioni del
@@ -287,15 +308,14 @@ const WorkloadPage: React.FC = () => {
         const endStr = toISODateString(effectiveEndDate);
 
         resourceAssignments.forEach(assignment => {
+            const isTentative = isTentativeAssignment(assignment);
             const assignmentAllocations = allocations[assignment.id!];
             if (assignmentAllocations) {
                 for (const dateStr in assignmentAllocations) {
                     if (dateStr >= startStr && dateStr <= endStr) {
-                        const allocDate = parseISODate(dateStr);
-                        const day = allocDate.getUTCDay();
-                        if (!isHoliday(allocDate, resource.location, companyCalendar) && day !== 0 && day !== 6) {
-                            totalPersonDays += (assignmentAllocations[dateStr] / 100);
-                        }
+                        const personDays = getAllocatedPersonDays(assignmentAllocations[dateStr], parseISODate(dateStr), holidaySet, resource.location, resourceSchedules);
+                        totalPersonDays += personDays;
+                        if (isTentative) tentativePersonDays += personDays;
                     }
                 }
             }
@@ -304,10 +324,12 @@ const WorkloadPage: React.FC = () => {
         const availableDays = workingDays * ((resource.maxStaffingPercentage ?? 100) / 100);
         return {
             avg: (totalPersonDays / workingDays) * 100,
+            tentativeAvg: (tentativePersonDays / workingDays) * 100,
             allocated: totalPersonDays,
+            tentativeAllocated: tentativePersonDays,
             available: availableDays
         };
-    }, [visibleAssignments, allocations, companyCalendar]);
+    }, [visibleAssignments, allocations, holidaySet, schedulesByResource]);
 
     const displayData = useMemo(() => {
         let visibleResources = resources.filter((r) => r.resigned !== true);
@@ -343,14 +365,19 @@ const WorkloadPage: React.FC = () => {
     const exportData = useMemo(() => {
         const firstCol = timeColumns[0];
         const lastCol = timeColumns[timeColumns.length - 1];
-        return displayData.map(r => ({
-            Risorsa: r.name,
-            Ruolo: rolesById.get(r.roleId)?.name || 'N/A',
-            Sede: r.location,
-            Function: r.function,
-            'Carico Medio (%)': calculateAvgLoadForPeriod(r, firstCol.startDate, lastCol.endDate).avg.toFixed(0),
-            'Max Staffing %': r.maxStaffingPercentage
-        }));
+        return displayData.map(r => {
+            const load = calculateAvgLoadForPeriod(r, firstCol.startDate, lastCol.endDate);
+            return {
+                Risorsa: r.name,
+                Ruolo: rolesById.get(r.roleId)?.name || 'N/A',
+                Sede: r.location,
+                Function: r.function,
+                'Carico Medio (%)': load.avg.toFixed(0),
+                'di cui Confermato (%)': (load.avg - load.tentativeAvg).toFixed(0),
+                'di cui Provvisorio (%)': load.tentativeAvg.toFixed(0),
+                'Max Staffing %': r.maxStaffingPercentage
+            };
+        });
     }, [displayData, rolesById, timeColumns, calculateAvgLoadForPeriod]);
 
     const assignmentsMap = useMemo(() => {
@@ -416,7 +443,7 @@ const WorkloadPage: React.FC = () => {
     const renderMobileCard = (resource: Resource) => {
         const firstCol = timeColumns[0];
         const lastCol = timeColumns[timeColumns.length - 1];
-        const { avg, allocated, available } = calculateAvgLoadForPeriod(resource, firstCol.startDate, lastCol.endDate);
+        const { avg, allocated, tentativeAllocated, available } = calculateAvgLoadForPeriod(resource, firstCol.startDate, lastCol.endDate);
         const max = resource.maxStaffingPercentage ?? 100;
 
         let textColor = 'text-primary';
@@ -448,7 +475,10 @@ const WorkloadPage: React.FC = () => {
                 <div className="grid grid-cols-2 gap-4 mt-1 pt-3 border-t border-outline-variant/30 text-sm">
                     <div>
                         <p className="text-[10px] uppercase font-bold text-on-surface-variant opacity-70">G/U Allocati</p>
-                        <p className="font-semibold text-on-surface">{allocated.toFixed(1)}</p>
+                        <p className="font-semibold text-on-surface">
+                            {allocated.toFixed(1)}
+                            {tentativeAllocated > 0 && <span className="ml-1 text-[10px] italic opacity-70">(di cui {tentativeAllocated.toFixed(1)} provv.)</span>}
+                        </p>
                     </div>
                     <div>
                         <p className="text-[10px] uppercase font-bold text-on-surface-variant opacity-70">G/U Disponibili</p>
@@ -625,7 +655,11 @@ const WorkloadPage: React.FC = () => {
                                                         key={index}
                                                         resource={resource}
                                                         date={col.dateIso}
-                                                        isNonWorkingDay={col.isNonWorkingDay}
+                                                        isNonWorkingDay={
+                                                            // Settimana e chiusure della sede, orario della risorsa (es. part-time su 4 giorni)
+                                                            !isScheduledWorkingDay(schedulesByResource.get(resource.id!), col.startDate, getLocationCalendar(holidaySet, resource.location))
+                                                            || isHolidayInSet(col.startDate, resource.location, holidaySet)
+                                                        }
                                                         resourceAssignments={resourceAssignments}
                                                         leaveInfo={leaveInfo}
                                                     />
@@ -0,0 +1,162 @@
+/**
+ * @file ContractBurndownModal.tsx
+ * @description Burn-down della capienza di un contratto: capienza residua settimana per settimana,
+ * consuntiva fino a oggi e proiettata sulle allocazioni future alle tariffe del listino del contratto,
+ * con la data prevista di esaurimento.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { select } from 'd3-selection';
+import { scaleLinear, scalePoint } from 'd3-scale';
+import { max, min } from 'd3-array';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { line } from 'd3-shape';
+import { format } from 'd3-format';
+import { Contract, ContractBurndown, ContractBurndownPoint, ContractExhaustionStatus } from '../../types';
+import Modal from '../../components/Modal';
+import { formatCurrency } from '../../utils/formatters';
+import { formatDateFull } from '../../utils/dateUtils';
+import { CONTRACT_EXHAUSTION_STATUS_LABELS } from '../../utils/contractBurndownUtils';
+import { useLookupContext } from '../../context/LookupContext';
+import { DASHBOARD_COLORS } from '../dashboard/dashboardConstants';
+
+export const CONTRACT_EXHAUSTION_STATUS_CLASSES: Record<ContractExhaustionStatus, string> = {
+    OK: 'bg-tertiary-container text-on-tertiary-container',
+    ALERT: 'bg-yellow-container text-on-yellow-container',
+    EXHAUSTED: 'bg-error-container text-on-error-container',
+};
+
+const SERIES: { key: 'actual' | 'projected'; label: string; color: string; dashed?: boolean }[] = [
+    { key: 'actual', label: 'Capienza residua', color: DASHBOARD_COLORS.chart.primary },
+    { key: 'projected', label: 'Proiezione da allocazioni', color: DASHBOARD_COLORS.chart.tertiary, dashed: true },
+];
+
+/** Grafico settimanale della capienza residua con la linea dello zero e il marcatore di esaurimento. */
+const BurndownChart: React.FC<{ data: ContractBurndownPoint[]; exhaustionDate: string | null }> = ({ data, exhaustionDate }) => {
+    const chartRef = useRef<SVGSVGElement>(null);
+
+    useEffect(() => {
+        if (!chartRef.current || data.length === 0) return;
+
+        const svg = select(chartRef.current);
+        svg.selectAll('*').remove();
+
+        const { width: containerWidth, height: containerHeight } = svg.node()!.getBoundingClientRect();
+        const margin = { top: 10, right: 20, bottom: 30, left: 60 };
+        const width = containerWidth - margin.left - margin.right;
+        const height = containerHeight - margin.top - margin.bottom;
+        if (width <= 0 || height <= 0) return;
+
+        const value = (d: ContractBurndownPoint) => (d.actual ?? d.projected ?? 0);
+        const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+        const x = scalePoint<string>().domain(data.map(d => d.weekStart)).range([0, width]);
+        const yMax = max(data, value) || 0;
+        const yMin = Math.min(0, min(data, value) || 0);
+        const y = scaleLinear().domain([yMin * 1.1, yMax * 1.1 || 1]).range([height, 0]);
+
+        const tickEvery = Math.max(1, Math.ceil(data.length / Math.max(1, Math.floor(width / 70))));
+        g.append('g').attr('transform', `translate(0,${height})`)
+            .call(axisBottom(x).tickValues(data.filter((_, i) => i % tickEvery === 0).map(d => d.weekStart))
+                .tickFormat(week => `${week.slice(8, 10)}/${week.slice(5, 7)}/${week.slice(2, 4)}`));
+        g.append('g').call(axisLeft(y).ticks(5).tickFormat(v => format('~s')(Number(v))));
+
+        g.append('line').attr('x1', 0).attr('x2', width).attr('y1', y(0)).attr('y2', y(0))
+            .attr('stroke', DASHBOARD_COLORS.chart.secondary).attr('stroke-dasharray', '2,4');
+
+        // Settimana in cui cade l'esaurimento previsto
+        const exhaustionWeek = exhaustionDate ? [...data].reverse().find(d => d.weekStart <= exhaustionDate)?.weekStart : undefined;
+        if (exhaustionWeek) {
+            g.append('line').attr('x1', x(exhaustionWeek)!).attr('x2', x(exhaustionWeek)!).attr('y1', 0).attr('y2', height)
+                .attr('stroke', DASHBOARD_COLORS.chart.threshold).attr('stroke-width', 1.5).attr('stroke-dasharray', '4,3');
+        }
+
+        SERIES.forEach(s => {
+            const points = data.filter(d => d[s.key] !== null);
+            g.append('path').datum(points).attr('fill', 'none').attr('stroke', s.color).attr('stroke-width', 2)
+                .attr('stroke-dasharray', s.dashed ? '4,4' : null)
+                .attr('d', line<ContractBurndownPoint>().x(d => x(d.weekStart)!).y(d => y(Number(d[s.key]))));
+        });
+    }, [data, exhaustionDate]);
+
+    return (
+        <div>
+            <div className="flex flex-wrap gap-4 text-xs text-on-surface-variant mb-2">
+                {SERIES.map(s => (
+                    <span key={s.key} className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} /> {s.label}
+                    </span>
+                ))}
+                {exhaustionDate && (
+                    <span className="flex items-center gap-1">
+                        <span className="inline-block w-0.5 h-3" style={{ backgroundColor: DASHBOARD_COLORS.chart.threshold }} /> Esaurimento
+                    </span>
+                )}
+            </div>
+            <div className="h-64"><svg ref={chartRef} className="w-full h-full" /></div>
+        </div>
+    );
+};
+
+export const ContractBurndownModal: React.FC<{
+    contract: Contract;
+    burndown: ContractBurndown | undefined;
+    currency?: string;
+    isOpen: boolean;
+    onClose: () => void;
+}> = ({ contract, burndown, currency, isOpen, onClose }) => {
+    const { contractExhaustionAlertWeeks } = useLookupContext();
+
+    const kpis = burndown ? [
+        { label: 'Capienza', value: formatCurrency(burndown.capienza, currency) },
+        { label: 'Maturato a oggi', value: formatCurrency(burndown.consumed, currency), hint: 'Valore del piano fino a oggi' },
+        { label: 'Impegnato', value: formatCurrency(burndown.committed, currency), hint: 'Valore del piano complessivo' },
+        { label: 'Backlog', value: formatCurrency(burndown.backlog, currency), hint: 'Capienza non ancora impegnata' },
+        { label: 'Data esaurimento', value: burndown.exhaustionDate ? formatDateFull(burndown.exhaustionDate) : 'Non prevista' },
+    ] : [];
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={`Burn-down Capienza: ${contract.name}`}>
+            {!burndown ? (
+                <p className="text-sm text-on-surface-variant">Burn-down non disponibile per questo contratto.</p>
+            ) : (
+                <div className="space-y-6">
+                    {burndown.status !== 'OK' && (
+                        <div className={`p-4 rounded-xl flex items-start gap-3 ${CONTRACT_EXHAUSTION_STATUS_CLASSES[burndown.status]}`}>
+                            <span className="material-symbols-outlined">warning</span>
+                            <p className="text-sm">
+                                {burndown.status === 'EXHAUSTED'
+                                    ? `La capienza è esaurita dal ${formatDateFull(burndown.exhaustionDate)}: le attività pianificate oltre quella data non sono coperte dal contratto.`
+                                    : `La capienza si esaurirà il ${formatDateFull(burndown.exhaustionDate)}, entro il preavviso di ${contractExhaustionAlertWeeks} settimane.`}
+                            </p>
+                        </div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3">
+                        <span className={`px-3 py-1 rounded-full text-sm font-bold ${CONTRACT_EXHAUSTION_STATUS_CLASSES[burndown.status]}`}>
+                            {CONTRACT_EXHAUSTION_STATUS_LABELS[burndown.status]}
+                        </span>
+                        <span className="text-xs text-on-surface-variant">
+                            Allocazioni valorizzate alle tariffe del listino del contratto, più spese rifatturabili; milestone per i progetti Fixed Price.
+                        </span>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        {kpis.map(kpi => (
+                            <div key={kpi.label} className="bg-surface-container-low p-3 rounded-xl">
+                                <p className="text-xs text-on-surface-variant">{kpi.label}</p>
+                                <p className="font-mono font-bold text-on-surface">{kpi.value}</p>
+                                {kpi.hint && <p className="text-[11px] text-on-surface-variant">{kpi.hint}</p>}
+                            </div>
+                        ))}
+                    </div>
+                    {burndown.series.length === 0 ? (
+                        <p className="text-sm text-on-surface-variant">Nessun periodo né valore pianificato: andamento non disponibile.</p>
+                    ) : (
+                        <div>
+                            <h4 className="text-sm font-bold text-primary uppercase tracking-wider mb-2">Capienza residua settimanale</h4>
+                            <BurndownChart data={burndown.series} exhaustionDate={burndown.exhaustionDate} />
+                        </div>
+                    )}
+                </div>
+            )}
+        </Modal>
+    );
+};
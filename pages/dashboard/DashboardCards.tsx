@@ -23,9 +23,12 @@ import { timeFormat } from 'd3-time-format';
 import { line, stack } from 'd3-shape';
 import { format } from 'd3-format';
 import { formatCurrency } from '../../utils/formatters';
+import { BOOKING_STATUS_FILTER_OPTIONS, BookingStatusFilter } from '../../utils/allocationUtils';
 import ExportButton from '../../components/ExportButton';
 import { exportCardToPdf, buildQuickChartUrl } from '../../utils/pdfExport';
 import { DASHBOARD_COLORS, getAvgAllocationColor } from './dashboardConstants';
+import { getEvmIndexStatus } from '../../utils/evmUtils';
+import { CONTRACT_EXHAUSTION_STATUS_LABELS } from '../../utils/contractBurndownUtils';
 import type {
     KpiHeaderCardsProps,
     AttentionCardsProps,
@@ -61,10 +64,14 @@ import type {
     WbsSaturationCardProps,
     ContractExpirationsCardProps,
     ContractExpirationRow,
+    ContractExhaustionCardProps,
+    ContractExhaustionRow,
     RevenueMixCardProps,
     BillingPipelineCardProps,
     TopMarginProjectsCardProps,
     TopMarginProjectRow,
+    PortfolioEvmCardProps,
+    PortfolioEvmRow,
 } from './dashboardTypes';
 import 'd3-transition'; // Import transition to avoid crashes
 
@@ -126,23 +133,48 @@ export const AttentionCards: React.FC<AttentionCardsProps> = ({ overallKPIs, nav
     </>
 );
 
-export const UnallocatedFteCard: React.FC<UnallocatedFteCardProps> = ({ kpis }) => (
-    <div className={`${DASHBOARD_COLORS.attention.background} rounded-2xl shadow p-5 flex flex-col justify-start min-h-[150px]`}>
-        <div className="flex justify-between items-start w-full">
-            <div>
-                <h3 className={`text-sm font-medium ${DASHBOARD_COLORS.attention.text}`}>FTE Non Allocati (Mese Corrente)</h3>
-                <div className="mt-1 flex items-baseline gap-2">
-                    <p className={`text-3xl ${DASHBOARD_COLORS.attention.strongText}`}>{kpis.unallocatedFTE > 0 ? kpis.unallocatedFTE.toFixed(1) : '0.0'}</p>
-                    <p className={`text-sm ${DASHBOARD_COLORS.attention.text}`}>su {kpis.totalAvailableFTE.toFixed(1)} disponibili</p>
+/** Selettore compatto dello stato di prenotazione usato dalle card FTE. */
+const BookingFilterSelect: React.FC<{ value: BookingStatusFilter; onChange: (value: BookingStatusFilter) => void; className?: string }> = ({ value, onChange, className = '' }) => (
+    <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as BookingStatusFilter)}
+        aria-label="Filtra per stato di prenotazione"
+        className={`form-select text-sm p-1.5 ${className}`}
+    >
+        {BOOKING_STATUS_FILTER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+);
+
+export const UnallocatedFteCard: React.FC<UnallocatedFteCardProps> = ({ kpis, bookingFilter, setBookingFilter }) => {
+    // Con il filtro, solo le allocazioni dello stato scelto contano come "allocate"
+    const unallocatedFTE = bookingFilter === 'CONFIRMED'
+        ? kpis.unallocatedFTE + kpis.tentativeAllocatedFTE
+        : bookingFilter === 'TENTATIVE'
+            ? kpis.totalAvailableFTE - kpis.tentativeAllocatedFTE
+            : kpis.unallocatedFTE;
+
+    return (
+        <div className={`${DASHBOARD_COLORS.attention.background} rounded-2xl shadow p-5 flex flex-col justify-start min-h-[150px]`}>
+            <div className="flex justify-between items-start w-full">
+                <div>
+                    <h3 className={`text-sm font-medium ${DASHBOARD_COLORS.attention.text}`}>FTE Non Allocati (Mese Corrente)</h3>
+                    <div className="mt-1 flex items-baseline gap-2">
+                        <p className={`text-3xl ${DASHBOARD_COLORS.attention.strongText}`}>{unallocatedFTE > 0 ? unallocatedFTE.toFixed(1) : '0.0'}</p>
+                        <p className={`text-sm ${DASHBOARD_COLORS.attention.text}`}>su {kpis.totalAvailableFTE.toFixed(1)} disponibili</p>
+                    </div>
                 </div>
+                <span className={`material-symbols-outlined ${DASHBOARD_COLORS.attention.icon}`}>person_search</span>
+            </div>
+            <div className="mt-auto pt-2 flex items-center justify-between gap-2 text-xs text-on-yellow-container/80">
+                <span>
+                    Calcolato su base FTE e allocazioni del mese corrente.
+                    {kpis.tentativeAllocatedFTE > 0 && ` Provvisori: ${kpis.tentativeAllocatedFTE.toFixed(1)} FTE.`}
+                </span>
+                <BookingFilterSelect value={bookingFilter} onChange={setBookingFilter} className="w-36 flex-shrink-0" />
             </div>
-            <span className={`material-symbols-outlined ${DASHBOARD_COLORS.attention.icon}`}>person_search</span>
-        </div>
-        <div className="mt-auto pt-2 text-xs text-on-yellow-container/80">
-            Calcolato su base FTE e allocazioni del mese corrente.
         </div>
-    </div>
-);
+    );
+};
 
 export const NoWbsLeakageCard: React.FC<NoWbsLeakageCardProps> = ({ leakageAmount, navigate }) => (
     <div className={`${DASHBOARD_COLORS.attention.background} rounded-2xl shadow p-5 flex flex-col justify-start min-h-[150px] cursor-pointer hover:opacity-90`} onClick={() => navigate('/wbs-analysis')}>
@@ -333,6 +365,7 @@ export const FtePerProjectCard: React.FC<FtePerProjectCardProps> = ({ data, filt
     const columns: ColumnDef<FtePerProjectRow>[] = [
         { header: "Progetto", sortKey: "name", cell: (d) => d.name },
         { header: "G/U Allocati", sortKey: "totalPersonDays", cell: (d) => d.totalPersonDays.toFixed(1) },
+        { header: "di cui Provvisori", sortKey: "tentativePersonDays", cell: (d) => <span className="italic">{d.tentativePersonDays > 0 ? d.tentativePersonDays.toFixed(1) : '-'}</span> },
         { header: "FTE", sortKey: "fte", cell: (d) => <span className="font-semibold">{d.fte.toFixed(2)}</span> },
     ];
     
@@ -340,6 +373,7 @@ export const FtePerProjectCard: React.FC<FtePerProjectCardProps> = ({ data, filt
         <tr>
             <td className="px-4 py-2">Totale</td>
             <td className="px-4 py-2">{totals.totalDays.toFixed(1)}</td>
+            <td className="px-4 py-2 italic">{totals.tentativeDays.toFixed(1)}</td>
             <td className="px-4 py-2">{totals.totalFte.toFixed(2)}</td>
         </tr>
     );
@@ -348,6 +382,7 @@ export const FtePerProjectCard: React.FC<FtePerProjectCardProps> = ({ data, filt
         return data.map((d) => ({
             Progetto: d.name,
             'G/U Allocati': d.totalPersonDays.toFixed(1),
+            'di cui Provvisori': d.tentativePersonDays.toFixed(1),
             FTE: d.fte.toFixed(2)
         }));
     }, [data]);
@@ -357,7 +392,8 @@ export const FtePerProjectCard: React.FC<FtePerProjectCardProps> = ({ data, filt
             <div className="flex-shrink-0 mb-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
                 <h2 className="text-lg font-semibold">FTE per Progetto</h2>
                 <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto">
-                    <div className="w-full sm:w-40"><MultiSelectDropdown name="clientId" selectedValues={filter.clientId} onChange={(_, v) => setFilter({ clientId: v })} options={clientOptions} placeholder="Tutti i clienti"/></div>
+                    <div className="w-full sm:w-40"><MultiSelectDropdown name="clientId" selectedValues={filter.clientId} onChange={(_, v) => setFilter({ ...filter, clientId: v })} options={clientOptions} placeholder="Tutti i clienti"/></div>
+                    <BookingFilterSelect value={filter.bookingStatus} onChange={(bookingStatus) => setFilter({ ...filter, bookingStatus })} className="w-full sm:w-40" />
                     <ViewToggleButton view={view} setView={setView} />
                     <ExportButton data={exportData} title="FTE per Progetto" />
                     <PdfExportButton title="FTE per Progetto" tableData={exportData} chartUrl={buildQuickChartUrl(data, 'bar', 'name', 'fte')} />
@@ -1029,11 +1065,11 @@ export const AllocationMatrixCard: React.FC<AllocationMatrixCardProps> = ({ data
     );
 };
 
-export const RevenueByIndustryCard: React.FC<RevenueByIndustryCardProps> = ({ data, isLoading }) => {
+export const RevenueByIndustryCard: React.FC<RevenueByIndustryCardProps> = ({ data, isLoading, currency }) => {
     // Top 5 filtering
     const top5 = useMemo(() => [...data].sort((a,b) => b.value - a.value).slice(0, 5), [data]);
 
-    const exportData = useMemo(() => data.map(d => ({ Industry: d.name, Revenue: formatCurrency(d.value) })), [data]);
+    const exportData = useMemo(() => data.map(d => ({ Industry: d.name, Revenue: formatCurrency(d.value, currency) })), [data, currency]);
 
     return (
         <div className="bg-surface-container rounded-2xl shadow p-4 sm:p-6 flex flex-col h-full">
@@ -1170,16 +1206,65 @@ export const ContractExpirationsCard: React.FC<ContractExpirationsCardProps> = (
     );
 };
 
+export const ContractExhaustionCard: React.FC<ContractExhaustionCardProps> = ({ data, alertWeeks, isLoading }) => {
+    const columns: ColumnDef<ContractExhaustionRow>[] = [
+        { header: "Contratto", sortKey: "name", cell: (d) => <span title={d.name} className="truncate block max-w-[150px]">{d.name}</span> },
+        { header: "Stato", sortKey: "status", cell: (d) => (
+            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${d.status === 'EXHAUSTED' ? 'bg-error-container text-on-error-container' : 'bg-yellow-container text-on-yellow-container'}`}>
+                {CONTRACT_EXHAUSTION_STATUS_LABELS[d.status]}
+            </span>
+        ) },
+        { header: "Esaurimento", sortKey: "exhaustionDate", cell: (d) => formatDateFull(d.exhaustionDate) },
+        { header: "Settimane", sortKey: "weeksLeft", cell: (d) => d.weeksLeft },
+        { header: "Backlog", sortKey: "backlog", cell: (d) => <span className={d.backlog < 0 ? 'text-error' : ''}>{formatCurrency(d.backlog)}</span> },
+    ];
+
+    const exportData = useMemo(() => data.map(d => ({
+        Contratto: d.name,
+        Stato: CONTRACT_EXHAUSTION_STATUS_LABELS[d.status],
+        'Data Esaurimento': formatDateFull(d.exhaustionDate),
+        'Settimane Residue': d.weeksLeft,
+        Backlog: formatCurrency(d.backlog),
+    })), [data]);
+
+    return (
+        <div className="bg-surface-container rounded-2xl shadow p-4 sm:p-6 flex flex-col h-full">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-3">
+                <h2 className="text-lg font-semibold">Esaurimento Contratti</h2>
+                <div className="flex flex-wrap items-center gap-2">
+                    <ExportButton data={exportData} title="Esaurimento Contratti" />
+                    <PdfExportButton title="Esaurimento Contratti" tableData={exportData} />
+                </div>
+            </div>
+            <div className="flex-grow min-h-0 h-[300px] overflow-auto">
+                {data.length === 0 && !isLoading ? (
+                    <div className="flex items-center justify-center h-full text-on-surface-variant">Nessun contratto in esaurimento.</div>
+                ) : (
+                    <DashboardDataTable
+                        columns={columns}
+                        data={data}
+                        isLoading={isLoading}
+                        initialSortKey="exhaustionDate"
+                    />
+                )}
+            </div>
+            <div className="text-xs text-on-surface-variant mt-2 text-center">
+                Capienza esaurita o in esaurimento entro {alertWeeks} settimane secondo le allocazioni pianificate
+            </div>
+        </div>
+    );
+};
+
 // --- NEW CARDS IMPLEMENTATION ---
 
-export const RevenueMixCard: React.FC<RevenueMixCardProps> = ({ data, isLoading }) => {
+export const RevenueMixCard: React.FC<RevenueMixCardProps> = ({ data, isLoading, currency }) => {
     const svgRef = useRef<SVGSVGElement>(null);
 
     const exportData = useMemo(() => data.map(d => ({ 
         Mese: d.month, 
-        'Time & Material': formatCurrency(d.tm), 
-        'Fixed Price': formatCurrency(d.fixed) 
-    })), [data]);
+        'Time & Material': formatCurrency(d.tm, currency), 
+        'Fixed Price': formatCurrency(d.fixed, currency) 
+    })), [data, currency]);
 
     useEffect(() => {
         if (!svgRef.current || data.length === 0) return;
@@ -1218,7 +1303,7 @@ export const RevenueMixCard: React.FC<RevenueMixCardProps> = ({ data, isLoading
             .attr("height", d => y(d[0]) - y(d[1]))
             .attr("width", x.bandwidth())
             .append("title")
-            .text((d: any) => formatCurrency(d[1] - d[0]));
+            .text((d: any) => formatCurrency(d[1] - d[0], currency));
 
         g.append("g").attr("transform", `translate(0,${height})`).call(axisBottom(x).tickFormat((d: string) => d.split('-')[1]));
         g.append("g").call(axisLeft(y).ticks(5).tickFormat(d => `${Number(d)/1000}k`));
@@ -1230,7 +1315,7 @@ export const RevenueMixCard: React.FC<RevenueMixCardProps> = ({ data, isLoading
         legend.append("rect").attr("width", 10).attr("height", 10).attr("y", 15).attr("fill", DASHBOARD_COLORS.chart.fixed);
         legend.append("text").attr("x", 15).attr("y", 25).text("Fixed").style("font-size", "10px").attr("fill", "currentColor");
 
-    }, [data, isLoading]);
+    }, [data, isLoading, currency]);
 
     return (
         <div className="bg-surface-container rounded-2xl shadow p-4 sm:p-6 flex flex-col h-full">
@@ -1260,11 +1345,11 @@ export const RevenueMixCard: React.FC<RevenueMixCardProps> = ({ data, isLoading
     );
 };
 
-export const BillingPipelineCard: React.FC<BillingPipelineCardProps> = ({ data, isLoading }) => {
+export const BillingPipelineCard: React.FC<BillingPipelineCardProps> = ({ data, isLoading, currency }) => {
     const exportData = useMemo(() => data.map(d => ({ 
         Mese: d.month, 
-        'Fatturato Previsto': formatCurrency(d.amount) 
-    })), [data]);
+        'Fatturato Previsto': formatCurrency(d.amount, currency) 
+    })), [data, currency]);
 
     return (
         <div className="bg-surface-container rounded-2xl shadow p-4 sm:p-6 flex flex-col h-full">
@@ -1286,20 +1371,20 @@ export const BillingPipelineCard: React.FC<BillingPipelineCardProps> = ({ data,
     );
 };
 
-export const TopMarginProjectsCard: React.FC<TopMarginProjectsCardProps> = ({ data, isLoading }) => {
+export const TopMarginProjectsCard: React.FC<TopMarginProjectsCardProps> = ({ data, isLoading, currency }) => {
      const columns: ColumnDef<TopMarginProjectRow>[] = [
         { header: "Progetto", sortKey: "name", cell: (d) => <span className="font-semibold">{d.name}</span> },
-        { header: "Ricavi", sortKey: "revenue", cell: (d) => formatCurrency(d.revenue) },
-        { header: "Margine", sortKey: "margin", cell: (d) => <span className={d.margin < 0 ? 'text-error' : 'text-tertiary'}>{formatCurrency(d.margin)}</span> },
+        { header: "Ricavi", sortKey: "revenue", cell: (d) => formatCurrency(d.revenue, currency) },
+        { header: "Margine", sortKey: "margin", cell: (d) => <span className={d.margin < 0 ? 'text-error' : 'text-tertiary'}>{formatCurrency(d.margin, currency)}</span> },
         { header: "Margine %", sortKey: "marginPct", cell: (d) => <span className={`px-2 py-0.5 rounded text-xs font-bold ${d.marginPct < 0 ? 'bg-error-container text-on-error-container' : 'bg-tertiary-container text-on-tertiary-container'}`}>{d.marginPct.toFixed(1)}%</span> },
     ];
     
     const exportData = useMemo(() => data.map(d => ({ 
         Progetto: d.name, 
-        Ricavi: formatCurrency(d.revenue), 
-        Margine: formatCurrency(d.margin),
+        Ricavi: formatCurrency(d.revenue, currency), 
+        Margine: formatCurrency(d.margin, currency),
         'Margine %': d.marginPct.toFixed(1) + '%'
-    })), [data]);
+    })), [data, currency]);
 
     return (
         <div className="bg-surface-container rounded-2xl shadow p-4 sm:p-6 flex flex-col h-full">
@@ -1321,3 +1406,68 @@ export const TopMarginProjectsCard: React.FC<TopMarginProjectsCardProps> = ({ da
         </div>
     );
 };
+
+const EVM_INDEX_CLASSES = {
+    good: 'bg-tertiary-container text-on-tertiary-container',
+    warning: 'bg-yellow-container text-on-yellow-container',
+    critical: 'bg-error-container text-on-error-container',
+    none: 'bg-surface-container-high text-on-surface-variant',
+};
+
+const EvmIndexBadge: React.FC<{ value: number | null }> = ({ value }) => (
+    <span className={`px-2 py-0.5 rounded text-xs font-bold ${EVM_INDEX_CLASSES[getEvmIndexStatus(value)]}`}>
+        {value === null ? 'n.d.' : value.toFixed(2)}
+    </span>
+);
+
+export const PortfolioEvmCard: React.FC<PortfolioEvmCardProps> = ({ portfolio, data, isLoading }) => {
+    const columns: ColumnDef<PortfolioEvmRow>[] = [
+        { header: "Progetto", sortKey: "name", cell: (d) => <span className="font-semibold">{d.name}</span> },
+        { header: "CPI", sortKey: "cpi", cell: (d) => <EvmIndexBadge value={d.cpi} /> },
+        { header: "SPI", sortKey: "spi", cell: (d) => <EvmIndexBadge value={d.spi} /> },
+        { header: "BAC", sortKey: "bac", cell: (d) => formatCurrency(d.bac) },
+        { header: "EAC", sortKey: "eac", cell: (d) => <span className={d.eac > d.bac ? 'text-error' : ''}>{formatCurrency(d.eac)}</span> },
+    ];
+
+    const exportData = useMemo(() => data.map(d => ({
+        Progetto: d.name,
+        BAC: formatCurrency(d.bac),
+        'Earned Value': formatCurrency(d.ev),
+        'Actual Cost': formatCurrency(d.ac),
+        CPI: d.cpi === null ? 'n.d.' : d.cpi.toFixed(2),
+        SPI: d.spi === null ? 'n.d.' : d.spi.toFixed(2),
+        EAC: formatCurrency(d.eac),
+    })), [data]);
+
+    return (
+        <div className="bg-surface-container rounded-2xl shadow p-4 sm:p-6 flex flex-col h-full">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-3">
+                <h2 className="text-lg font-semibold">Earned Value Portafoglio</h2>
+                <div className="flex flex-wrap items-center gap-2">
+                    <ExportButton data={exportData} title="Earned Value Portafoglio" />
+                    <PdfExportButton title="Earned Value Portafoglio" tableData={exportData} />
+                </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+                <div><p className="text-xs text-on-surface-variant">CPI</p><EvmIndexBadge value={portfolio.cpi} /></div>
+                <div><p className="text-xs text-on-surface-variant">SPI</p><EvmIndexBadge value={portfolio.spi} /></div>
+                <div><p className="text-xs text-on-surface-variant">BAC</p><p className="font-semibold">{formatCurrency(portfolio.bac)}</p></div>
+                <div>
+                    <p className="text-xs text-on-surface-variant">EAC</p>
+                    <p className={`font-semibold ${portfolio.vac < 0 ? DASHBOARD_COLORS.variance.negative : DASHBOARD_COLORS.variance.positive}`}>{formatCurrency(portfolio.eac)}</p>
+                </div>
+            </div>
+            <div className="flex-grow min-h-0 h-[300px] overflow-auto">
+                <DashboardDataTable
+                    columns={columns}
+                    data={data}
+                    isLoading={isLoading}
+                    initialSortKey="cpi"
+                />
+            </div>
+            <div className="text-xs text-on-surface-variant mt-2 text-center">
+                {portfolio.projectCount} progetti · CPI e SPI sotto 1 indicano extra-costi e ritardi
+            </div>
+        </div>
+    );
+};
@@ -10,6 +10,9 @@
 
 import { Option } from '../../components/forms/types';
 import { Resource, Project, Contract } from '../../types';
+import type { BookingStatusFilter } from '../../utils/allocationUtils';
+import type { PortfolioEvm } from '../../utils/evmUtils';
+import type { ContractExhaustionStatus } from '../../types';
 
 // --- Tipi riusabili ---
 
@@ -26,6 +29,11 @@ export interface ClientFilter {
     clientId: string[];
 }
 
+/** Filtro per cliente e stato di prenotazione (FTE per Progetto). */
+export interface ClientBookingFilter extends ClientFilter {
+    bookingStatus: BookingStatusFilter;
+}
+
 /** Filtro per cliente con intervallo di date (Budget Temporale, Tariffa Media). */
 export interface ClientDateRangeFilter {
     clientId: string[];
@@ -58,6 +66,8 @@ export interface CurrentMonthKPIs {
     clientCostArray: ClientCostEntry[];
     unallocatedFTE: number;
     totalAvailableFTE: number;
+    /** FTE del mese allocati su assegnazioni provvisorie (già inclusi nel calcolo di unallocatedFTE). */
+    tentativeAllocatedFTE: number;
 }
 
 export interface KpiHeaderCardsProps {
@@ -72,6 +82,8 @@ export interface AttentionCardsProps {
 
 export interface UnallocatedFteCardProps {
     kpis: CurrentMonthKPIs;
+    bookingFilter: BookingStatusFilter;
+    setBookingFilter: (filter: BookingStatusFilter) => void;
 }
 
 export interface NoWbsLeakageCardProps {
@@ -100,11 +112,13 @@ export interface AverageAllocationTotals {
 /** Riga FTE per progetto: progetto completo + metriche derivate. */
 export type FtePerProjectRow = Project & {
     totalPersonDays: number;
+    tentativePersonDays: number;
     fte: number;
 };
 
 export interface FtePerProjectTotals {
     totalDays: number;
+    tentativeDays: number;
     totalFte: number;
 }
 
@@ -195,6 +209,17 @@ export type WbsSaturationRow = Contract & {
 /** Riga scadenzario contratti: contratto completo. */
 export type ContractExpirationRow = Contract;
 
+/** Riga esaurimento contratti: contratto in esaurimento o esaurito secondo il burn-down. */
+export interface ContractExhaustionRow {
+    id: string;
+    name: string;
+    status: ContractExhaustionStatus;
+    exhaustionDate: string;
+    /** Settimane all'esaurimento previsto (0 se già esaurito). */
+    weeksLeft: number;
+    backlog: number;
+}
+
 export interface RevenueMixPoint {
     month: string;
     tm: number;
@@ -206,6 +231,17 @@ export interface BillingPipelinePoint {
     amount: number;
 }
 
+export interface PortfolioEvmRow {
+    id: string;
+    name: string;
+    bac: number;
+    ev: number;
+    ac: number;
+    cpi: number | null;
+    spi: number | null;
+    eac: number;
+}
+
 export interface TopMarginProjectRow {
     id?: string;
     name: string;
@@ -228,8 +264,8 @@ export interface AverageAllocationCardProps {
 
 export interface FtePerProjectCardProps {
     data: FtePerProjectRow[];
-    filter: ClientFilter;
-    setFilter: (filter: ClientFilter) => void;
+    filter: ClientBookingFilter;
+    setFilter: (filter: ClientBookingFilter) => void;
     clientOptions: SelectOption[];
     totals: FtePerProjectTotals;
     isLoading: boolean;
@@ -311,6 +347,8 @@ export interface AllocationMatrixCardProps {
 export interface RevenueByIndustryCardProps {
     data: NamedValueRow[];
     isLoading: boolean;
+    /** Valuta di reporting degli importi (default EUR). */
+    currency?: string;
 }
 
 export interface BenchByFunctionCardProps {
@@ -333,17 +371,36 @@ export interface ContractExpirationsCardProps {
     isLoading: boolean;
 }
 
+export interface ContractExhaustionCardProps {
+    data: ContractExhaustionRow[];
+    /** Settimane di preavviso configurate. */
+    alertWeeks: number;
+    isLoading: boolean;
+}
+
 export interface RevenueMixCardProps {
     data: RevenueMixPoint[];
     isLoading: boolean;
+    /** Valuta di reporting degli importi (default EUR). */
+    currency?: string;
 }
 
 export interface BillingPipelineCardProps {
     data: BillingPipelinePoint[];
     isLoading: boolean;
+    /** Valuta di reporting degli importi (default EUR). */
+    currency?: string;
 }
 
 export interface TopMarginProjectsCardProps {
     data: TopMarginProjectRow[];
     isLoading: boolean;
+    /** Valuta di reporting degli importi (default EUR). */
+    currency?: string;
+}
+
+export interface PortfolioEvmCardProps {
+    portfolio: PortfolioEvm;
+    data: PortfolioEvmRow[];
+    isLoading: boolean;
 }
@@ -4,6 +4,7 @@ import { useProjectsContext } from '../../context/ProjectsContext';
 import { Project, BillingType, BillingMilestone, MilestoneStatus } from '../../types';
 import Modal from '../../components/Modal';
 import { formatCurrency } from '../../utils/formatters';
+import { getProjectCurrency } from '../../utils/fxUtils';
 import { formatDateFull } from '../../utils/dateUtils';
 import { useToast } from '../../context/ToastContext';
 
@@ -67,6 +68,8 @@ export const BillingPlanModal: React.FC<{
     const totalMilestoneAmount = milestones.reduce((sum, m) => sum + Number(m.amount), 0);
     const contract = contracts.find(c => c.id === project.contractId);
     const rateCard = rateCards.find(rc => rc.id === contract?.rateCardId);
+    // Le rate sono fatturate nella valuta del listino del contratto
+    const currency = getProjectCurrency(project, contracts, rateCards);
 
     return (
         <Modal isOpen={isOpen} onClose={onClose} title={`Piano Fatturazione: ${project.name}`}>
@@ -122,7 +125,7 @@ export const BillingPlanModal: React.FC<{
                             <div className="text-xs">
                                 <span className="text-on-surface-variant">Totale: </span>
                                 <span className={`font-bold ${totalMilestoneAmount > project.budget ? 'text-error' : 'text-primary'}`}>
-                                    {formatCurrency(totalMilestoneAmount)}
+                                    {formatCurrency(totalMilestoneAmount, currency)}
                                 </span>
                                 <span className="text-on-surface-variant"> / {formatCurrency(project.budget)}</span>
                             </div>
@@ -139,7 +142,7 @@ export const BillingPlanModal: React.FC<{
                                             <p className="text-xs text-on-surface-variant">{formatDateFull(ms.date)}</p>
                                         </div>
                                         <div className="flex items-center gap-3">
-                                            <span className="font-mono font-bold text-sm">{formatCurrency(ms.amount)}</span>
+                                            <span className="font-mono font-bold text-sm">{formatCurrency(ms.amount, currency)}</span>
                                             <select
                                                 value={ms.status}
                                                 onChange={(e) => handleUpdateMilestoneStatus(ms, e.target.value as MilestoneStatus)}
@@ -172,7 +175,7 @@ export const BillingPlanModal: React.FC<{
                                 <input type="date" className="form-input text-xs p-2" required value={newMilestone.date} onChange={e => setNewMilestone({...newMilestone, date: e.target.value})}/>
                             </div>
                             <div className="col-span-3">
-                                <label className="text-[10px] font-bold text-on-surface-variant">Importo</label>
+                                <label className="text-[10px] font-bold text-on-surface-variant">Importo ({currency})</label>
                                 <input type="number" step="0.01" className="form-input text-xs p-2" required value={newMilestone.amount || ''} onChange={e => setNewMilestone({...newMilestone, amount: parseFloat(e.target.value)})}/>
                             </div>
                             <div className="col-span-1">
@@ -0,0 +1,168 @@
+/**
+ * @file ProjectEvmModal.tsx
+ * @description Dettaglio Earned Value di un progetto: indicatori alla data odierna (PV, EV, AC,
+ * CPI, SPI, EAC, ETC) e andamento mensile dei valori cumulati e dell'SPI. L'EV storico è stimato,
+ * quindi il CPI non viene tracciato nel tempo.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { select } from 'd3-selection';
+import { scaleLinear, scalePoint } from 'd3-scale';
+import { max } from 'd3-array';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { line } from 'd3-shape';
+import { format } from 'd3-format';
+import { Project } from '../../types';
+import Modal from '../../components/Modal';
+import { formatCurrency } from '../../utils/formatters';
+import { formatDateFull } from '../../utils/dateUtils';
+import { EVM_INDEX_WARNING_THRESHOLD, EvmTrendPoint, getEvmIndexStatus } from '../../utils/evmUtils';
+import { useProjectsEvm } from '../../hooks/useProjectEvm';
+import { DASHBOARD_COLORS } from '../dashboard/dashboardConstants';
+
+type TrendSeries = { key: keyof Omit<EvmTrendPoint, 'month'>; label: string; color: string; dashed?: boolean };
+
+const VALUE_SERIES: TrendSeries[] = [
+    { key: 'pv', label: 'Planned Value', color: DASHBOARD_COLORS.chart.tertiary, dashed: true },
+    { key: 'ev', label: 'Earned Value', color: DASHBOARD_COLORS.chart.primary },
+    { key: 'ac', label: 'Actual Cost', color: DASHBOARD_COLORS.chart.threshold },
+];
+
+const INDEX_SERIES: TrendSeries[] = [
+    { key: 'spi', label: 'SPI', color: DASHBOARD_COLORS.chart.tertiary },
+];
+
+const INDEX_STATUS_CLASSES = {
+    good: 'bg-tertiary-container text-on-tertiary-container',
+    warning: 'bg-yellow-container text-on-yellow-container',
+    critical: 'bg-error-container text-on-error-container',
+    none: 'bg-surface-container-high text-on-surface-variant',
+};
+
+const formatIndex = (index: number | null) => (index === null ? 'n.d.' : index.toFixed(2));
+
+/** Grafico a linee mensile delle serie indicate; `reference` traccia una linea orizzontale (es. indice = 1). */
+const TrendChart: React.FC<{ data: EvmTrendPoint[]; series: TrendSeries[]; reference?: number; tickFormat: (value: number) => string }> = ({
+    data, series, reference, tickFormat,
+}) => {
+    const chartRef = useRef<SVGSVGElement>(null);
+
+    useEffect(() => {
+        if (!chartRef.current || data.length === 0) return;
+
+        const svg = select(chartRef.current);
+        svg.selectAll('*').remove();
+
+        const { width: containerWidth, height: containerHeight } = svg.node()!.getBoundingClientRect();
+        const margin = { top: 10, right: 20, bottom: 30, left: 60 };
+        const width = containerWidth - margin.left - margin.right;
+        const height = containerHeight - margin.top - margin.bottom;
+        if (width <= 0 || height <= 0) return;
+
+        const g = svg.append('g').attr('transform', `translate(${margin.left},${margin.top})`);
+        const x = scalePoint<string>().domain(data.map(d => d.month)).range([0, width]);
+        const yMax = max(data, d => Math.max(...series.map(s => Number(d[s.key] ?? 0)), reference ?? 0)) || 0;
+        const y = scaleLinear().domain([0, yMax * 1.1 || 1]).range([height, 0]);
+
+        const tickEvery = Math.max(1, Math.ceil(data.length / Math.max(1, Math.floor(width / 70))));
+        g.append('g').attr('transform', `translate(0,${height})`)
+            .call(axisBottom(x).tickValues(data.filter((_, i) => i % tickEvery === 0).map(d => d.month)));
+        g.append('g').call(axisLeft(y).ticks(5).tickFormat(value => tickFormat(Number(value))));
+
+        if (reference !== undefined) {
+            g.append('line').attr('x1', 0).attr('x2', width).attr('y1', y(reference)).attr('y2', y(reference))
+                .attr('stroke', DASHBOARD_COLORS.chart.secondary).attr('stroke-dasharray', '2,4');
+        }
+
+        series.forEach(s => {
+            const points = data.filter(d => d[s.key] !== null);
+            g.append('path').datum(points).attr('fill', 'none').attr('stroke', s.color).attr('stroke-width', 2)
+                .attr('stroke-dasharray', s.dashed ? '4,4' : null)
+                .attr('d', line<EvmTrendPoint>().x(d => x(d.month)!).y(d => y(Number(d[s.key]))));
+        });
+    }, [data, series, reference, tickFormat]);
+
+    return (
+        <div>
+            <div className="flex flex-wrap gap-4 text-xs text-on-surface-variant mb-2">
+                {series.map(s => (
+                    <span key={s.key} className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} /> {s.label}
+                    </span>
+                ))}
+            </div>
+            <div className="h-56"><svg ref={chartRef} className="w-full h-full" /></div>
+        </div>
+    );
+};
+
+const formatValueTick = (value: number) => format('~s')(value);
+const formatIndexTick = (value: number) => value.toFixed(1);
+
+export const ProjectEvmModal: React.FC<{
+    project: Project;
+    isOpen: boolean;
+    onClose: () => void;
+}> = ({ project, isOpen, onClose }) => {
+    const evm = useProjectsEvm().get(project.id!);
+
+    const kpis = evm ? [
+        { label: 'BAC', value: formatCurrency(evm.bac), hint: Number(project.budget) > 0 ? 'Budget' : 'Costo pianificato (budget assente)' },
+        { label: 'Planned Value', value: formatCurrency(evm.pv) },
+        { label: 'Earned Value', value: formatCurrency(evm.ev), hint: `${evm.percentComplete}% realizzato` },
+        { label: 'Actual Cost', value: formatCurrency(evm.ac), hint: evm.acSource === 'ACTUALS' ? 'Da timesheet' : evm.acSource === 'MIXED' ? 'Timesheet e allocazioni' : 'Da allocazioni' },
+        { label: 'EAC', value: formatCurrency(evm.eac), hint: `VAC ${formatCurrency(evm.vac)}` },
+        { label: 'ETC', value: formatCurrency(evm.etc) },
+    ] : [];
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={`Earned Value: ${project.name}`}>
+            {!evm ? (
+                <p className="text-sm text-on-surface-variant">Nessun budget né allocazione: gli indicatori EVM non sono disponibili per questo progetto.</p>
+            ) : (
+                <div className="space-y-6">
+                    <p className="text-xs text-on-surface-variant">
+                        Situazione al {formatDateFull(evm.statusDate)}. L'Earned Value deriva dalla percentuale di realizzazione del progetto;
+                        l'andamento storico è ricostruito in proporzione ai costi sostenuti.
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                        {([['CPI', evm.cpi], ['SPI', evm.spi]] as [string, number | null][]).map(([label, index]) => (
+                            <span key={label} className={`px-3 py-1 rounded-full text-sm font-bold ${INDEX_STATUS_CLASSES[getEvmIndexStatus(index)]}`}>
+                                {label} {formatIndex(index)}
+                            </span>
+                        ))}
+                        <span className="self-center text-xs text-on-surface-variant">
+                            Sotto {EVM_INDEX_WARNING_THRESHOLD.toFixed(2)} il progetto è critico.
+                        </span>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        {kpis.map(kpi => (
+                            <div key={kpi.label} className="bg-surface-container-low p-3 rounded-xl">
+                                <p className="text-xs text-on-surface-variant">{kpi.label}</p>
+                                <p className="font-mono font-bold text-on-surface">{kpi.value}</p>
+                                {kpi.hint && <p className="text-[11px] text-on-surface-variant">{kpi.hint}</p>}
+                            </div>
+                        ))}
+                    </div>
+                    {evm.trend.length === 0 ? (
+                        <p className="text-sm text-on-surface-variant">Nessuna allocazione pianificata: andamento non disponibile.</p>
+                    ) : (
+                        <>
+                            <div>
+                                <h4 className="text-sm font-bold text-primary uppercase tracking-wider mb-2">Valori cumulati</h4>
+                                <TrendChart data={evm.trend} series={VALUE_SERIES} tickFormat={formatValueTick} />
+                                <p className="text-[11px] text-on-surface-variant mt-1">
+                                    L'Earned Value dei mesi passati è stimato in proporzione all'Actual Cost cumulato: il CPI è disponibile solo alla data odierna e non è tracciato nel tempo.
+                                </p>
+                            </div>
+                            <div>
+                                <h4 className="text-sm font-bold text-primary uppercase tracking-wider mb-2">SPI nel tempo</h4>
+                                <TrendChart data={evm.trend} series={INDEX_SERIES} reference={1} tickFormat={formatIndexTick} />
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </Modal>
+    );
+};
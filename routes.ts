@@ -233,6 +233,15 @@ export const routesManifest: AppRoute[] = [
         featureFlag: 'pageVisibility',
         component: createLazyPage(() => import('./pages/LeavePage')),
     },
+    {
+        path: '/timesheets',
+        label: 'Timesheet',
+        icon: 'schedule',
+        section: 'Risorse',
+        showInSidebar: true,
+        featureFlag: 'pageVisibility',
+        component: createLazyPage(() => import('./pages/TimesheetPage')),
+    },
     {
         path: '/resource-requests',
         label: 'Richieste Risorse',
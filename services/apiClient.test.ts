@@ -162,6 +162,19 @@ describe('apiFetch – produzione (mocked fetch)', () => {
         expect(mockFetch).toHaveBeenCalledTimes(1);
     });
 
+    it('espone il body della risposta di errore (es. report conflitti 409)', async () => {
+        const body = { error: 'Overbooking', conflicts: [{ resourceId: 'r1', date: '2024-06-03' }] };
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+            ok: false,
+            status: 409,
+            json: () => Promise.resolve(body),
+        }));
+
+        const error = await apiFetch('/api/staffing?action=allocation').catch(e => e);
+        expect(error.status).toBe(409);
+        expect(error.body).toEqual(body);
+    });
+
     it('riprova fino a retries volte per errori 5xx', async () => {
         const mockFetch = vi.fn().mockResolvedValue({
             ok: false,
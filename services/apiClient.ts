@@ -61,6 +61,8 @@ export const apiFetch = async <T = unknown>(url: string, options: RequestInit =
         try {
             return await mockFetch(url, options) as T;
         } catch (e) {
+            // Errori applicativi simulati dal mock (4xx) vanno propagati come in produzione
+            if ((e as Error & { isClientError?: boolean }).isClientError) throw e;
             // Fallback d'emergenza: restituiamo dati coerenti per non bloccare l'UI
             if (url.includes('/api/data')) return INITIAL_MOCK_DATA as unknown as T;
             if (url.includes('notifications') || Array.isArray(INITIAL_MOCK_DATA)) return [] as unknown as T;
@@ -96,8 +98,10 @@ export const apiFetch = async <T = unknown>(url: string, options: RequestInit =
             if (!response.ok) {
                 const errorBody = await response.json().catch(() => ({}));
                 const errorMessage = (errorBody as { error?: string }).error || `API request failed: ${response.status}`;
-                const error = new Error(errorMessage) as Error & { isClientError?: boolean; status?: number };
+                const error = new Error(errorMessage) as Error & { isClientError?: boolean; status?: number; body?: unknown };
                 error.status = response.status;
+                // Il body resta disponibile per le risposte strutturate (es. report conflitti 409)
+                error.body = errorBody;
 
                 if (response.status >= 400 && response.status < 500 && response.status !== 429) {
                     error.isClientError = true;
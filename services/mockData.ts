@@ -25,7 +25,7 @@ const buildDemoAllocations = (from: number, to: number, percentage: number): Rec
     }
     return out;
 };
-import { AppUser, Assignment, Allocation, CalendarEvent, Client, ConfigOption, Contract, ContractProject, ContractManager, Interview, LeaveRequest, LeaveType, Notification, Project, ProjectExpense, RateCard, Resource, ResourceRequest, Role, RoleCostHistory, Skill, SkillCategory, SkillMacroCategory, BillingMilestone, ResourceSkill, ProjectSkill, RoleEntityVisibility } from '../types';
+import { AppUser, Assignment, Allocation, CalendarEvent, Client, ConfigOption, Contract, ContractProject, ContractManager, Interview, LeaveRequest, LeaveType, LocationCalendar, Notification, Project, ProjectExpense, FxRate, RateCard, RateCardEntryHistory, RateCardLine, Resource, ResourceRequest, Role, RoleCostHistory, Skill, SkillCategory, SkillMacroCategory, BillingMilestone, ResourceSkill, ProjectSkill, RoleEntityVisibility, OverbookingPolicy, AllocationCleanupPolicy, AllocationApprovalMode, StaffingRule, WorkSchedule } from '../types';
 import { KBArticle } from '../types/knowledgeBase';
 
 export const INITIAL_MOCK_DATA: {
@@ -38,11 +38,13 @@ export const INITIAL_MOCK_DATA: {
     clients: Client[];
     roles: Role[];
     resources: Resource[];
+    workSchedules: WorkSchedule[];
     projects: Project[];
     users: Partial<AppUser>[];
     assignments: Assignment[];
     allocations: Allocation;
     companyCalendar: CalendarEvent[];
+    locationCalendars: LocationCalendar[];
     leaveTypes: LeaveType[];
     leaveRequests: LeaveRequest[];
     notifications: Notification[];
@@ -59,6 +61,9 @@ export const INITIAL_MOCK_DATA: {
     projectSkills: ProjectSkill[];
     rateCards: RateCard[];
     rateCardEntries: any[]; // Using any to avoid strict checking on join table entries in mock
+    fxRates: FxRate[];
+    rateCardEntryHistory: RateCardEntryHistory[];
+    rateCardLines: RateCardLine[];
     projectExpenses: ProjectExpense[];
     billingMilestones: BillingMilestone[];
     // Config & Misc
@@ -66,6 +71,11 @@ export const INITIAL_MOCK_DATA: {
     pageVisibility: Record<string, boolean>;
     skillThresholds: any;
     planningSettings: any;
+    overbookingPolicy: OverbookingPolicy;
+    allocationCleanupPolicy: AllocationCleanupPolicy;
+    allocationApprovalMode: AllocationApprovalMode;
+    contractExhaustionAlertWeeks: number;
+    staffingRules: StaffingRule[];
     managerResourceIds: string[];
     sidebarConfig: any[];
     sidebarSections: string[];
@@ -137,6 +147,8 @@ export const INITIAL_MOCK_DATA: {
       dailyCost: 800, isTalent: false, seniorityCode: 'M1'
     }
   ],
+  // Orari di lavoro: nessun part-time, tutte le risorse a 8 ore dal lunedì al venerdì
+  workSchedules: [],
   projects: [
     { id: 'p1', name: 'App Mobile Intesa', clientId: 'c1', startDate: `${CURRENT_YEAR}-01-01`, endDate: `${CURRENT_YEAR}-12-31`, budget: 120000, realizationPercentage: 100, projectManager: 'Elena Bianchi', status: 'In corso', billingType: 'TIME_MATERIAL', contractId: 'ct1' },
     { id: 'p2', name: 'Data Platform EcoEnergy', clientId: 'c2', startDate: isoDate(daysFromToday(-60)), endDate: isoDate(daysFromToday(120)), budget: 80000, realizationPercentage: 100, projectManager: 'Elena Bianchi', status: 'In corso', billingType: 'FIXED_PRICE', contractId: null }
@@ -148,11 +160,16 @@ export const INITIAL_MOCK_DATA: {
   ],
   assignments: [
     { id: 'as1', resourceId: 'res1', projectId: 'p1' },
-    { id: 'as2', resourceId: 'res2', projectId: 'p2' }
+    { id: 'as2', resourceId: 'res2', projectId: 'p2' },
+    { id: 'as3', resourceId: 'res1', projectId: 'p2', bookingStatus: 'TENTATIVE' },
+    // Segnaposto di ruolo: Senior Developer in attesa di una risorsa nominativa
+    { id: 'as4', resourceId: null, projectId: 'p1', roleId: 'r1', resourceRequestId: null }
   ],
   allocations: {
     'as1': buildDemoAllocations(-20, 25, 80),
-    'as2': buildDemoAllocations(-10, 15, 50)
+    'as2': buildDemoAllocations(-10, 15, 50),
+    'as3': buildDemoAllocations(5, 30, 20),
+    'as4': buildDemoAllocations(10, 40, 80)
   },
   
   // Skill Data
@@ -227,6 +244,22 @@ export const INITIAL_MOCK_DATA: {
     { rateCardId: 'rc1', resourceId: 'res1', dailyRate: 750 },
     { rateCardId: 'rc1', resourceId: 'res2', dailyRate: 980 }
   ],
+  // Storico tariffe: res1 è passato da 700 a 750 dal secondo trimestre
+  rateCardEntryHistory: [
+    { id: 'rch1', rateCardId: 'rc1', resourceId: 'res1', dailyRate: 700, startDate: '1900-01-01', endDate: `${CURRENT_YEAR}-03-31` },
+    { id: 'rch2', rateCardId: 'rc1', resourceId: 'res1', dailyRate: 750, startDate: `${CURRENT_YEAR}-04-01`, endDate: null }
+  ],
+  // Regole del listino per le risorse senza tariffa specifica: ruolo, seniority e default
+  rateCardLines: [
+    { id: 'rcl1', rateCardId: 'rc1', lineType: 'ROLE', lineKey: 'r2', dailyRate: 900, startDate: '1900-01-01', endDate: null },
+    { id: 'rcl2', rateCardId: 'rc1', lineType: 'SENIORITY', lineKey: 'Senior', dailyRate: 700, startDate: '1900-01-01', endDate: null },
+    { id: 'rcl3', rateCardId: 'rc1', lineType: 'DEFAULT', lineKey: '*', dailyRate: 550, startDate: '1900-01-01', endDate: null }
+  ],
+  // Cambi di riferimento (1 EUR = rate unità) per i listini in valuta estera
+  fxRates: [
+    { id: 'fx1', currency: 'GBP', rate: 0.85, validFrom: `${CURRENT_YEAR}-01-01`, validTo: null },
+    { id: 'fx2', currency: 'CHF', rate: 0.94, validFrom: `${CURRENT_YEAR}-01-01`, validTo: null }
+  ],
   projectExpenses: [],
   billingMilestones: [
     { id: 'bm1', projectId: 'p2', name: 'Anticipo 25%', date: isoDate(daysFromToday(20)), amount: 20000, status: 'PLANNED' }
@@ -238,6 +271,8 @@ export const INITIAL_MOCK_DATA: {
     { id: 'ce1', name: 'Ferragosto', date: `${CURRENT_YEAR}-08-15`, type: 'NATIONAL_HOLIDAY', location: null },
     { id: 'ce2', name: 'Natale', date: `${CURRENT_YEAR}-12-25`, type: 'NATIONAL_HOLIDAY', location: null }
   ],
+  // Calendari di sede: nessuna sede configurata, tutte lavorano 8 ore dal lunedì al venerdì
+  locationCalendars: [],
   leaveTypes: [
     { id: 'lt1', name: 'Ferie', color: '#4caf50', affectsCapacity: true, requiresApproval: true },
     { id: 'lt2', name: 'Malattia', color: '#f44336', affectsCapacity: true, requiresApproval: false },
@@ -253,6 +288,17 @@ export const INITIAL_MOCK_DATA: {
   pageVisibility: {},
   skillThresholds: { NOVICE: 0, JUNIOR: 60, MIDDLE: 150, SENIOR: 350, EXPERT: 700 },
   planningSettings: { monthsBefore: 6, monthsAfter: 18 },
+  overbookingPolicy: 'WARN',
+  allocationCleanupPolicy: 'ASK',
+  allocationApprovalMode: 'OFF',
+  contractExhaustionAlertWeeks: 8,
+  // Regole di staffing predefinite, disattivate finché un amministratore non le abilita
+  staffingRules: [
+    { id: 'srule1', name: 'Esterni non allocabili su progetti interni', ruleType: 'NO_EXTERNAL_ON_INTERNAL', severity: 'BLOCK', threshold: null, isActive: false, version: 1 },
+    { id: 'srule2', name: 'Fetta minima 20%', ruleType: 'MIN_ALLOCATION_SLICE', severity: 'WARN', threshold: 20, isActive: false, version: 1 },
+    { id: 'srule3', name: 'Massimo 3 progetti contemporanei', ruleType: 'MAX_CONCURRENT_PROJECTS', severity: 'WARN', threshold: 3, isActive: false, version: 1 },
+    { id: 'srule4', name: 'Talent fatturabili almeno al 60%', ruleType: 'MIN_BILLABLE_SHARE', severity: 'WARN', threshold: 60, isActive: false, version: 1 },
+  ],
   managerResourceIds: ['res2'],
   sidebarConfig: [],
   sidebarSections: ['Principale', 'Progetti', 'Risorse', 'Operatività', 'Supporto', 'Configurazione', 'Dati'],
@@ -0,0 +1,162 @@
+/**
+ * @file services/mockHandlers.test.ts
+ * @description Test del Mock Engine locale: il DB mock viene preparato in LocalStorage
+ * e le chiamate passano da `mockFetch` come farebbe l'apiClient in anteprima locale.
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mockFetch } from './mockHandlers';
+
+const STORAGE_KEY = 'staffing_planner_local_db_v1';
+
+/** Prepara il DB mock con le sole entità indicate (le altre restano quelle iniziali). */
+const seedDb = (data: Record<string, unknown>) => localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+const readDb = () => JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+
+describe('mockFetch: conversione segnaposto', () => {
+    /** Risorsa già al 100% lunedì 2024-06-03 e segnaposto al 50% sulla stessa giornata. */
+    const seedConversion = (overbookingPolicy: 'BLOCK' | 'WARN', staffingRules: unknown[] = []) => seedDb({
+        overbookingPolicy,
+        staffingRules,
+        resources: [{ id: 'r1', name: 'Mario Rossi', roleId: 'dev', maxStaffingPercentage: 100, location: 'Milano', lastDayOfWork: null }],
+        assignments: [
+            { id: 'busy', resourceId: 'r1', projectId: 'p1' },
+            { id: 'ph1', resourceId: null, roleId: 'dev', projectId: 'p2' },
+        ],
+        allocations: { busy: { '2024-06-03': 100 }, ph1: { '2024-06-03': 50 } },
+        leaveRequests: [],
+        companyCalendar: [],
+        locationCalendars: [],
+        contracts: [],
+    });
+
+    beforeEach(() => localStorage.clear());
+
+    it('con policy BLOCK rifiuta la conversione su una risorsa già al 100%', async () => {
+        seedConversion('BLOCK');
+        const call = mockFetch('/api/staffing?action=placeholder', {
+            method: 'POST', body: JSON.stringify({ placeholderId: 'ph1', resourceId: 'r1' }),
+        });
+        await expect(call).rejects.toMatchObject({
+            status: 409,
+            body: { success: false, conflicts: [expect.objectContaining({ resourceId: 'r1', date: '2024-06-03', total: 150 })] },
+        });
+        expect(readDb().assignments.find((a: any) => a.id === 'ph1').resourceId).toBeNull();
+    });
+
+    it('rifiuta la conversione che viola una regola di staffing bloccante', async () => {
+        seedConversion('WARN', [{ id: 'rule', name: 'Fetta minima', ruleType: 'MIN_ALLOCATION_SLICE', severity: 'BLOCK', threshold: 60, isActive: true }]);
+        const call = mockFetch('/api/staffing?action=placeholder', {
+            method: 'POST', body: JSON.stringify({ placeholderId: 'ph1', resourceId: 'r1' }),
+        });
+        await expect(call).rejects.toMatchObject({
+            status: 409,
+            body: { success: false, ruleViolations: [expect.objectContaining({ ruleType: 'MIN_ALLOCATION_SLICE', value: 50 })] },
+        });
+        expect(readDb().assignments.find((a: any) => a.id === 'ph1').resourceId).toBeNull();
+    });
+
+    it('in modalità REQUIRED rifiuta la conversione a chi è fuori dalla linea manageriale della risorsa', async () => {
+        seedConversion('WARN');
+        seedDb({
+            ...readDb(),
+            allocationApprovalMode: 'REQUIRED',
+            users: [
+                { id: 'u-res', role: 'SIMPLE', resourceId: 'r1', managerIds: ['u-mgr'] },
+                { id: 'u-mgr', role: 'MANAGER', resourceId: null, managerIds: [] },
+                { id: 'u-other', role: 'MANAGER', resourceId: null, managerIds: [] },
+            ],
+        });
+        localStorage.setItem('authUser', JSON.stringify({ id: 'u-other', username: 'u-other', role: 'MANAGER' }));
+        const call = mockFetch('/api/staffing?action=placeholder', {
+            method: 'POST', body: JSON.stringify({ placeholderId: 'ph1', resourceId: 'r1' }),
+        });
+        await expect(call).rejects.toMatchObject({ status: 403 });
+        expect(readDb().assignments.find((a: any) => a.id === 'ph1').resourceId).toBeNull();
+    });
+
+    it('con policy WARN intesta il segnaposto alla risorsa e restituisce le sovrallocazioni', async () => {
+        seedConversion('WARN');
+        const result = await mockFetch('/api/staffing?action=placeholder', {
+            method: 'POST', body: JSON.stringify({ placeholderId: 'ph1', resourceId: 'r1' }),
+        });
+        expect(result.conflicts).toHaveLength(1);
+        expect(readDb().assignments.find((a: any) => a.id === 'ph1').resourceId).toBe('r1');
+    });
+});
+
+describe('mockFetch: autorizzazioni del timesheet', () => {
+    const WEEK = { resourceId: 'r1', weekStart: '2024-06-03' };
+    const loginAs = (id: string, role: string) => localStorage.setItem('authUser', JSON.stringify({ id, username: id, role }));
+    const post = (body: unknown) => mockFetch('/api/staffing?action=timesheet', { method: 'POST', body: JSON.stringify(body) });
+
+    beforeEach(() => {
+        localStorage.clear();
+        seedDb({
+            users: [
+                { id: 'u-res', role: 'SIMPLE', resourceId: 'r1', managerIds: ['u-mgr'] },
+                { id: 'u-mgr', role: 'MANAGER', resourceId: null, managerIds: [] },
+                { id: 'u-other', role: 'MANAGER', resourceId: null, managerIds: [] },
+            ],
+            timesheetWeeks: [{ id: 'w1', ...WEEK, status: 'SUBMITTED' }],
+            timesheetEntries: [],
+        });
+    });
+
+    it('rifiuta il salvataggio delle ore di un\'altra risorsa', async () => {
+        loginAs('u-other', 'MANAGER');
+        const call = mockFetch('/api/staffing?action=timesheet', { method: 'PUT', body: JSON.stringify({ ...WEEK, entries: [] }) });
+        await expect(call).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('mostra la coda e la settimana solo alla risorsa e ai suoi manager', async () => {
+        const week = `/api/staffing?action=timesheet&resourceId=${WEEK.resourceId}&weekStart=${WEEK.weekStart}`;
+        loginAs('u-other', 'MANAGER');
+        expect(await mockFetch('/api/staffing?action=timesheet&view=approvals', { method: 'GET' })).toEqual([]);
+        await expect(mockFetch(week, { method: 'GET' })).rejects.toMatchObject({ status: 403 });
+
+        loginAs('u-mgr', 'MANAGER');
+        expect(await mockFetch('/api/staffing?action=timesheet&view=approvals', { method: 'GET' })).toHaveLength(1);
+        expect((await mockFetch(week, { method: 'GET' })).week).toMatchObject({ status: 'SUBMITTED' });
+    });
+
+    it('consente l\'approvazione solo al manager della risorsa', async () => {
+        loginAs('u-other', 'MANAGER');
+        await expect(post({ ...WEEK, status: 'APPROVED' })).rejects.toMatchObject({ status: 403 });
+        loginAs('u-res', 'SIMPLE');
+        await expect(post({ ...WEEK, status: 'APPROVED' })).rejects.toMatchObject({ status: 403 });
+        expect(readDb().timesheetWeeks[0].status).toBe('SUBMITTED');
+
+        loginAs('u-mgr', 'MANAGER');
+        const approved = await post({ ...WEEK, status: 'APPROVED' });
+        expect(approved.week).toMatchObject({ status: 'APPROVED', reviewedBy: 'u-mgr' });
+    });
+});
+
+describe('mockFetch: redistribuzione dell\'effort alla variazione delle assenze', () => {
+    const leave = { id: 'l1', resourceId: 'r1', typeId: 'lt1', startDate: '2024-06-04', endDate: '2024-06-04', status: 'PENDING', version: 1 };
+    const putLeave = (body: unknown) => mockFetch('/api/resources?entity=leaves&id=l1', { method: 'PUT', body: JSON.stringify(body) });
+
+    beforeEach(() => {
+        localStorage.clear();
+        seedDb({
+            resources: [{ id: 'r1', maxStaffingPercentage: 100 }],
+            assignments: [{ id: 'a1', resourceId: 'r1', projectId: 'p1', plannedEffortDays: 2, effortStartDate: '2024-06-03', effortEndDate: '2024-06-04' }],
+            allocations: { a1: { '2024-06-03': 100, '2024-06-04': 100 } },
+            leaveTypes: [{ id: 'lt1', name: 'Ferie', affectsCapacity: true }],
+            leaveRequests: [leave],
+        });
+    });
+
+    it('ridistribuisce il piano quando un\'assenza viene approvata', async () => {
+        const result = await putLeave({ ...leave, status: 'APPROVED' });
+        expect(result.effortRedistribution).toHaveLength(1);
+        expect(result.effortRedistribution[0]).toMatchObject({ assignmentId: 'a1', shortfallDays: 1 });
+        expect(readDb().allocations.a1['2024-06-04'] ?? 0).toBe(0);
+    });
+
+    it('non ridistribuisce per assenze non approvate', async () => {
+        const result = await putLeave({ ...leave, notes: 'aggiornata' });
+        expect(result.effortRedistribution).toBeUndefined();
+        expect(readDb().allocations.a1['2024-06-04']).toBe(100);
+    });
+});
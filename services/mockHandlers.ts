@@ -6,6 +6,49 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { INITIAL_MOCK_DATA } from './mockData';
+import { findAllocationConflicts, OVERBOOKING_POLICY_CONFIG_KEY } from '../utils/overbookingUtils';
+import { applyEffortDistribution, buildEffortRedistribution, getChangedLeaveWindows, hasEffortPlan, toEffortAllocationUpdates } from '../utils/effortPlanningUtils';
+import {
+  applyReassignmentPlan, buildReassignmentPlan, resolveReassignmentPlan, validateReassignmentRequest,
+} from '../utils/reassignmentUtils';
+import {
+  buildPlaceholderConversion, validatePlaceholderAssignment, validatePlaceholderConversionRequest,
+} from '../utils/placeholderUtils';
+import {
+  ALLOCATION_CLEANUP_POLICY_CONFIG_KEY, buildAllocationCleanupSummary, collectCleanupRows, getProjectCleanupBoundary,
+  getResourceCleanupBoundary, pruneAllocationsAfter,
+} from '../utils/allocationCleanupUtils';
+import { toISODateString } from '../utils/dateUtils';
+import {
+  buildBaselineProjectVariance, buildBaselineVarianceRows, getBaselineProjectIds, validateBaselineRequest,
+} from '../utils/baselineUtils';
+import {
+  buildPlanActualRows, canEditTimesheetWeek, canTransitionTimesheetWeek, getTimesheetWeekDays, getTimesheetWeekStart, isTimesheetWeekEditable,
+  validateTimesheetWeekRequest,
+} from '../utils/timesheetUtils';
+import {
+  ALLOCATION_APPROVAL_MODE_CONFIG_KEY, canReviewAllocationProposal, isWithinManagementLine, splitAllocationUpdates, type ApprovalUser,
+} from '../utils/allocationApprovalUtils';
+import {
+  IDEMPOTENCY_KEY_HEADER, resolveAllocationOutcomes, validateAllocationBatch,
+} from '../utils/allocationBatchUtils';
+import { isProjectVisibleInStaffing } from '../utils/allocationUtils';
+import { collapseAllocationChanges, revertAllocationChanges, type AllocationChangeRow } from '../utils/allocationChangeUtils';
+import {
+  evaluateStaffingRules, findAssignmentRuleViolations, findStaffingRuleViolations, hasBlockingViolations, isExternalUserRole,
+  type StaffingRulesContext,
+} from '../utils/staffingRulesUtils';
+import { validateWorkSchedule } from '../utils/workScheduleUtils';
+import { validateLocationCalendar } from '../utils/locationCalendarUtils';
+import { validateFxRate } from '../utils/fxUtils';
+import { RATE_CARD_LINE_TYPES, planRateChange, planRateLineChange } from '../utils/rateCardUtils';
+import {
+  buildContractBurndowns, CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY, parseContractExhaustionAlertWeeks, type ContractAllocationDay,
+} from '../utils/contractBurndownUtils';
+import type {
+  Allocation, AllocationAsOfResponse, AllocationWindowResponse, AllocationCleanupScope, AllocationCleanupSummary, AllocationConflict, AllocationProposal, AllocationProposalReviewResult, AllocationUpdate, AllocationWriteResult, BaselineAllocation, BaselineVariance, CalendarEvent, ContractBurndown, EffortDistributionResult,
+  OverbookingPolicy, PlaceholderConversionResult, PlanActualReport, PlanningBaseline, RateCardEntryHistory, RateCardLine, ReassignmentResult, StaffingRuleReport, StaffingRuleViolation, TimesheetEntry, TimesheetWeek, TimesheetWeekDetail,
+} from '../types';
 
 const STORAGE_KEY = 'staffing_planner_local_db_v1';
 
@@ -31,12 +74,220 @@ const getDb = () => {
   }
 };
 
+/** Burn-down dei contratti sul mock DB (tutti se `contractIds` è assente), come `loadContractBurndowns`. */
+const mockContractBurndowns = (db: any, contractIds?: string[]): ContractBurndown[] => {
+  const resources: any[] = db.resources || [];
+  const allocations = db.allocations || {};
+  const days: ContractAllocationDay[] = (db.assignments || []).flatMap((a: any) => {
+    const roleId = (a.resourceId ? resources.find(r => r.id === a.resourceId)?.roleId : a.roleId) || '';
+    return Object.entries(allocations[a.id] || {})
+      .filter(([, percentage]) => (percentage as number) > 0)
+      .map(([date, percentage]) => ({ projectId: a.projectId, resourceId: a.resourceId, roleId, date, percentage: percentage as number }));
+  });
+  return buildContractBurndowns(
+    (db.contracts || []).filter((c: any) => !contractIds || contractIds.includes(c.id)),
+    {
+      contractProjects: db.contractProjects || [],
+      projects: db.projects || [],
+      allocations: days,
+      expenses: db.projectExpenses || [],
+      milestones: db.billingMilestones || [],
+      rates: {
+        entries: db.rateCardEntries || [],
+        history: db.rateCardEntryHistory || [],
+        lines: db.rateCardLines || [],
+        roles: db.roles || [],
+      },
+      rateCards: db.rateCards || [],
+      fxRates: db.fxRates || [],
+    },
+    toISODateString(new Date()),
+    parseContractExhaustionAlertWeeks(db.contractExhaustionAlertWeeks)
+  );
+};
+
 const saveDb = (data: any) => {
+  // Il backend riallinea il backlog dei contratti a ogni scrittura che lo tocca (refreshContractBacklogs):
+  // il mock, più semplicemente, lo ricalcola per tutti i contratti a ogni salvataggio
+  if (Array.isArray(data.contracts) && data.contracts.length > 0) {
+    const backlogs = new Map(mockContractBurndowns(data).map(b => [b.contractId, b.backlog]));
+    data.contracts = data.contracts.map((c: any) => backlogs.has(c.id) ? { ...c, backlog: backlogs.get(c.id) } : c);
+  }
   if (typeof window !== 'undefined') {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
   }
 };
 
+/** Pulizia delle allocazioni oltre il limite sul mock DB (le notifiche ai PM sono solo server-side). */
+const mockAllocationCleanup = (
+  db: any, scope: AllocationCleanupScope, entityId: string, boundaryDate: string, apply: boolean
+): AllocationCleanupSummary | null => {
+  const rows = collectCleanupRows(scope, entityId, boundaryDate, db.assignments || [], db.allocations || {});
+  const summary = buildAllocationCleanupSummary(scope, entityId, boundaryDate, rows, apply);
+  if (summary && apply) db.allocations = pruneAllocationsAfter(db.allocations, summary.assignmentIds, boundaryDate);
+  return summary;
+};
+
+/** Allocazioni correnti del mock DB nel perimetro di una baseline (progetto o portafoglio), segnaposto esclusi. */
+const mockBaselineAllocations = (db: any, projectId: string | null): BaselineAllocation[] => {
+  const allocations = db.allocations || {};
+  return (db.assignments || [])
+    .filter((a: any) => a.resourceId && (!projectId || a.projectId === projectId))
+    .flatMap((a: any) => Object.entries(allocations[a.id] || {})
+      .filter(([, percentage]) => (percentage as number) > 0)
+      .map(([date, percentage]) => ({ resourceId: a.resourceId, projectId: a.projectId, date, percentage: percentage as number })));
+};
+
+/** Metadati pubblici della baseline salvata nel mock DB (senza le righe congelate). */
+const toMockBaseline = ({ allocations, budgets, milestones, ...baseline }: any): PlanningBaseline => ({
+  ...baseline,
+  includesBudgets: budgets !== null,
+  includesMilestones: milestones !== null,
+  allocationCount: allocations.length,
+  totalPersonDays: allocations.reduce((sum: number, a: BaselineAllocation) => sum + a.percentage, 0) / 100,
+});
+
+/** Errore applicativo 4xx simulato, propagato dall'apiClient come in produzione. */
+const mockClientError = (status: number, message: string) => {
+  const error = new Error(message) as Error & { status?: number; isClientError?: boolean; body?: unknown };
+  error.status = status;
+  error.isClientError = true;
+  error.body = { error: message };
+  return error;
+};
+
+/** Settimana di timesheet del mock DB con le ore inserite (bozza vuota se non ancora salvata). */
+const mockTimesheetWeek = (db: any, resourceId: string, weekStart: string): TimesheetWeekDetail => {
+  const days = new Set(getTimesheetWeekDays(weekStart));
+  const entries: TimesheetEntry[] = (db.timesheetEntries || [])
+    .filter((e: TimesheetEntry) => e.resourceId === resourceId && days.has(e.date))
+    .sort((a: TimesheetEntry, b: TimesheetEntry) => a.date.localeCompare(b.date));
+  const totalHours = entries.reduce((sum, e) => sum + e.hours, 0);
+  const stored = (db.timesheetWeeks || []).find((w: TimesheetWeek) => w.resourceId === resourceId && w.weekStart === weekStart);
+  return { week: stored ? { ...stored, totalHours } : { resourceId, weekStart, status: 'DRAFT', totalHours }, entries };
+};
+
+/** Utente della sessione mock (null senza login). */
+const mockSessionUser = (): { id: string; username: string; role: string } | null => {
+  const stored = typeof window !== 'undefined' ? localStorage.getItem('authUser') : null;
+  if (!stored) return null;
+  try {
+    const user = JSON.parse(stored);
+    return user?.id ? { id: user.id, username: user.username, role: user.role } : null;
+  } catch {
+    return null;
+  }
+};
+
+const mockApprovalUsers = (db: any): ApprovalUser[] =>
+  (db.users || [])
+    .filter((u: any) => u.isActive !== false)
+    .map((u: any) => ({ id: u.id, role: u.role, resourceId: u.resourceId, managerIds: u.managerIds || [] }));
+
+/** Modalità REQUIRED: piano di effort, riassegnazione e conversione del segnaposto solo a chi scrive direttamente sulle risorse. */
+const assertMockDirectWrite = (db: any, resourceIds: string[]) => {
+  const editor = mockSessionUser();
+  if (db.allocationApprovalMode !== 'REQUIRED' || !editor) return;
+  const users = mockApprovalUsers(db);
+  if (!resourceIds.every(resourceId => isWithinManagementLine(editor, resourceId, users))) {
+    throw mockClientError(403, 'Approvazione delle allocazioni attiva: solo il manager della risorsa può eseguire l\'operazione; proporre le modifiche dalla griglia di Staffing.');
+  }
+};
+
+/**
+ * Ridistribuisce il piano di effort di un'assegnazione sul mock DB (come `redistributeEffort`),
+ * con le violazioni delle regole di staffing valutate sulle celle sostituite.
+ */
+const mockRedistributeEffort = (
+  db: any,
+  assignment: any,
+  previousWindow: { startDate: string; endDate: string } | null
+): EffortDistributionResult => {
+  const assignments: any[] = db.assignments || [];
+  if (!db.allocations) db.allocations = {};
+  const resource = (db.resources || []).find((r: any) => r.id === assignment.resourceId);
+  const result = buildEffortRedistribution({
+    assignment,
+    assignments,
+    allocations: db.allocations,
+    previousWindow,
+    resource: resource || { id: assignment.resourceId },
+    leaveRequests: db.leaveRequests || [],
+    leaveTypes: db.leaveTypes || [],
+    companyCalendar: db.companyCalendar || [],
+    locationCalendars: db.locationCalendars || [],
+  });
+  const ruleViolations = findStaffingRuleViolations({
+    ...mockStaffingRulesContext(db),
+    updates: toEffortAllocationUpdates(db.allocations[assignment.id] || {}, result),
+    allocations: db.allocations,
+  });
+  db.allocations = applyEffortDistribution(db.allocations, result);
+  return { ...result, ruleViolations };
+};
+
+/**
+ * Variazione di un'assenza (come `api/resources.ts`): ridistribuisce i piani di effort della
+ * risorsa che intersecano il periodo; con violazioni bloccanti la scrittura viene rifiutata (409).
+ */
+const mockRedistributeLeaveEffort = (db: any, previous: any | null, next: any | null): EffortDistributionResult[] => {
+  const results = getChangedLeaveWindows(previous ? [previous] : [], next ? [next] : []).flatMap(w =>
+    (db.assignments || [])
+      .filter((a: any) => a.resourceId === w.resourceId && hasEffortPlan(a) && a.effortStartDate <= w.endDate && a.effortEndDate >= w.startDate)
+      .sort((a: any, b: any) => a.effortStartDate.localeCompare(b.effortStartDate))
+      .map((a: any) => mockRedistributeEffort(db, a, null)));
+  const ruleViolations = results.flatMap(r => r.ruleViolations || []);
+  if (hasBlockingViolations(ruleViolations)) {
+    const error = mockClientError(409, 'Assenza non salvata: la redistribuzione dei piani di effort viola regole di staffing bloccanti.');
+    error.body = { error: error.message, ruleViolations };
+    throw error;
+  }
+  return results;
+};
+
+/** Contesto delle regole di staffing sull'intero mock DB (le regole disattivate sono ignorate dalla valutazione). */
+const mockStaffingRulesContext = (db: any): StaffingRulesContext & { projects: any[] } => ({
+  rules: db.staffingRules || [],
+  assignments: (db.assignments || []).filter((a: any) => a.resourceId),
+  projects: db.projects || [],
+  resources: db.resources || [],
+  externalResourceIds: (db.users || []).filter((u: any) => u.resourceId && isExternalUserRole(u.role)).map((u: any) => u.resourceId),
+});
+
+/** Proposte in attesa con `canReview` per l'utente della sessione (le notifiche sono solo server-side). */
+const mockPendingProposals = (db: any): AllocationProposal[] => {
+  const reviewer = mockSessionUser();
+  const users = mockApprovalUsers(db);
+  return (db.allocationProposals || [])
+    .filter((p: AllocationProposal) => p.status === 'PENDING')
+    .map((p: AllocationProposal) => ({ ...p, canReview: !reviewer || canReviewAllocationProposal(reviewer, p.resourceId, users) }));
+};
+
+/**
+ * Scrive le allocazioni sul mock DB registrando lo storico di cella (come il trigger su `allocations`).
+ * Le altre scritture del mock (effort, riassegnazione, pulizia) non vengono storicizzate.
+ */
+const writeMockAllocations = (db: any, updates: AllocationUpdate[]) => {
+  if (!db.allocations) db.allocations = {};
+  if (!db.allocationChanges) db.allocationChanges = [];
+  const changedAt = new Date().toISOString();
+  const changedBy = mockSessionUser()?.username ?? null;
+  for (const { assignmentId, date, percentage } of updates) {
+    if (!db.allocations[assignmentId]) db.allocations[assignmentId] = {};
+    const oldPercentage = db.allocations[assignmentId][date] || 0;
+    if (oldPercentage !== percentage) {
+      db.allocationChanges.push({
+        seq: db.allocationChanges.length + 1, assignmentId, date, oldPercentage, newPercentage: percentage, changedAt, changedBy,
+      });
+    }
+    if (percentage === 0) {
+      delete db.allocations[assignmentId][date];
+    } else {
+      db.allocations[assignmentId][date] = percentage;
+    }
+  }
+};
+
 export const mockFetch = async (url: string, options: RequestInit = {}): Promise<any> => {
   const db = getDb();
   const { method = 'GET' } = options;
@@ -63,8 +314,24 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
         : new Set(visibilityRules.filter((r: any) => r.role === currentRole && r.isVisible).map((r: any) => r.entity));
     const canSeeMock = (entity: string) => isAdminMock || visibleSet === null || (visibleSet as Set<string>).size === 0 || (visibleSet as Set<string>).has(entity);
 
+    // Il mock non traccia le modifiche per cella: con `since` restituisce l'intera finestra (reset)
+    if (scope === 'allocations') {
+        const window = { start: params.start as string, end: params.end as string };
+        const allocations: Allocation = {};
+        if (canSeeMock('allocations')) {
+            for (const [assignmentId, days] of Object.entries((db as any).allocations || {}) as [string, Record<string, number>][]) {
+                const inWindow = Object.entries(days).filter(([date]) => date >= window.start && date <= window.end);
+                if (inWindow.length > 0) allocations[assignmentId] = Object.fromEntries(inWindow);
+            }
+        }
+        const response: AllocationWindowResponse = {
+            ...window, allocations, deleted: [], cursor: new Date().toISOString(), reset: params.since !== undefined,
+        };
+        return response;
+    }
+
     if (scope === 'metadata') {
-        const { assignments, allocations, leaveRequests, resourceRequests, interviews, contracts, contractProjects, contractManagers, projectSkills, billingMilestones, wbsTasks, roleEntityVisibility: _rev, ...metadata } = db as any;
+        const { assignments, allocations, leaveRequests, resourceRequests, interviews, contracts, contractProjects, contractManagers, projectSkills, billingMilestones, wbsTasks, roleEntityVisibility: _rev, planningBaselines: _baselines, timesheetEntries: _timesheetEntries, timesheetWeeks: _timesheetWeeks, allocationProposals: _allocationProposals, allocationChanges: _allocationChanges, ...metadata } = db as any;
         return {
             ...metadata,
             resources: canSeeMock('resources') ? metadata.resources : [],
@@ -73,6 +340,8 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
             skills: canSeeMock('skills') ? metadata.skills : [],
             rateCards: canSeeMock('rate_cards') ? metadata.rateCards : [],
             rateCardEntries: canSeeMock('rate_cards') ? metadata.rateCardEntries : [],
+            rateCardEntryHistory: canSeeMock('rate_cards') ? metadata.rateCardEntryHistory : [],
+            rateCardLines: canSeeMock('rate_cards') ? metadata.rateCardLines : [],
             projectExpenses: canSeeMock('projects') ? metadata.projectExpenses : [],
             resourceSkills: canSeeMock('resources') ? metadata.resourceSkills : [],
         };
@@ -86,6 +355,7 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
         clients: canSeeMock('clients') ? allData.clients : [],
         assignments: canSeeMock('assignments') ? allData.assignments : [],
         allocations: canSeeMock('allocations') ? allData.allocations : {},
+        allocationProposals: canSeeMock('allocations') ? mockPendingProposals(db) : [],
         contracts: canSeeMock('contracts') ? allData.contracts : [],
         contractProjects: canSeeMock('contracts') ? allData.contractProjects : [],
         contractManagers: canSeeMock('contracts') ? allData.contractManagers : [],
@@ -97,6 +367,8 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
         skills: canSeeMock('skills') ? allData.skills : [],
         rateCards: canSeeMock('rate_cards') ? allData.rateCards : [],
         rateCardEntries: canSeeMock('rate_cards') ? allData.rateCardEntries : [],
+        rateCardEntryHistory: canSeeMock('rate_cards') ? allData.rateCardEntryHistory : [],
+        rateCardLines: canSeeMock('rate_cards') ? allData.rateCardLines : [],
         projectExpenses: canSeeMock('projects') ? allData.projectExpenses : [],
         resourceSkills: canSeeMock('resources') ? allData.resourceSkills : [],
         projectSkills: canSeeMock('projects') ? allData.projectSkills : [],
@@ -146,6 +418,10 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
     if (entity === 'role_entity_visibility') dbKey = 'roleEntityVisibility';
     if (entity === 'app-users') dbKey = 'users';
     if (entity === 'notification_rules') dbKey = 'notificationRules';
+    if (entity === 'staffing_rules') dbKey = 'staffingRules';
+    if (entity === 'work_schedules') dbKey = 'workSchedules';
+    if (entity === 'location_calendars') dbKey = 'locationCalendars';
+    if (entity === 'company_calendar') dbKey = 'companyCalendar';
     if (entity === 'notification_configs') dbKey = 'notificationConfigs';
     if (entity === 'resource_requests') dbKey = 'resourceRequests';
     if (entity === 'contract_projects') dbKey = 'contractProjects';
@@ -157,6 +433,9 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
     if (entity === 'skill_macro_categories') dbKey = 'skillMacroCategories';
     if (entity === 'rate_cards') dbKey = 'rateCards';
     if (entity === 'rate_card_entries') dbKey = 'rateCardEntries';
+    if (entity === 'rate_card_entry_history') dbKey = 'rateCardEntryHistory';
+    if (entity === 'rate_card_lines') dbKey = 'rateCardLines';
+    if (entity === 'fx_rates') dbKey = 'fxRates';
     if (entity === 'billing_milestones') dbKey = 'billingMilestones';
     if (entity === 'wbs_tasks') dbKey = 'wbsTasks';
     if (entity === 'project_expenses') dbKey = 'projectExpenses';
@@ -191,19 +470,84 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
       return { error: 'Azione db_inspector non supportata in mock' };
     }
 
-    // ── rate_card_entries: upsert massivo { entries: [...] } ─────────────────
+    // ── rate_card_entries: upsert massivo { entries: [...], lines: [...], effectiveFrom } con storico ──
     if (entity === 'rate_card_entries' && method === 'POST') {
-      const { entries } = JSON.parse(options.body as string);
+      const { entries, lines = [], effectiveFrom = toISODateString(new Date()) } = JSON.parse(options.body as string);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) throw mockClientError(400, 'Data di decorrenza non valida (YYYY-MM-DD).');
+      if (!Array.isArray(lines) || lines.some((line: any) => !RATE_CARD_LINE_TYPES.includes(line.lineType) || !line.lineKey)) {
+        throw mockClientError(400, 'Regola di listino non valida (ROLE, SENIORITY o DEFAULT).');
+      }
+      let history: RateCardEntryHistory[] = (db as any).rateCardEntryHistory || [];
+      let rateLines: RateCardLine[] = (db as any).rateCardLines || [];
       if (Array.isArray(entries)) {
         const list: any[] = (db as any).rateCardEntries || [];
         entries.forEach((entry: any) => {
           const idx = list.findIndex((e: any) => e.rateCardId === entry.rateCardId && e.resourceId === entry.resourceId);
+          const plan = planRateChange(
+            entry.rateCardId, entry.resourceId, Number(entry.dailyRate), effectiveFrom,
+            history.filter(h => h.rateCardId === entry.rateCardId && h.resourceId === entry.resourceId),
+            idx !== -1 ? Number(list[idx].dailyRate) : undefined
+          );
+          history = history
+            .filter(h => !plan.remove.includes(h.id))
+            .map(h => {
+              const closing = plan.close.find(c => c.id === h.id);
+              return closing ? { ...h, endDate: closing.endDate } : h;
+            })
+            .concat(plan.insert.map(period => ({ ...period, id: uuidv4() })));
           if (idx !== -1) list[idx] = { ...list[idx], ...entry };
           else list.push(entry);
         });
         (db as any).rateCardEntries = list;
-        saveDb(db);
+        (db as any).rateCardEntryHistory = history;
       }
+      lines.forEach((line: any) => {
+        const plan = planRateLineChange(
+          { rateCardId: line.rateCardId, lineType: line.lineType, lineKey: line.lineKey }, Number(line.dailyRate), effectiveFrom,
+          rateLines.filter(l => l.rateCardId === line.rateCardId && l.lineType === line.lineType && l.lineKey === line.lineKey)
+        );
+        rateLines = rateLines
+          .filter(l => !plan.remove.includes(l.id))
+          .map(l => {
+            const closing = plan.close.find(c => c.id === l.id);
+            return closing ? { ...l, endDate: closing.endDate } : l;
+          })
+          .concat(plan.insert.map(period => ({ ...period, id: uuidv4() })));
+      });
+      (db as any).rateCardLines = rateLines;
+      saveDb(db);
+      return { success: true, history, lines: rateLines };
+    }
+
+    // ── company_calendar: inserimento massivo delle festività generate ──────
+    if (entity === 'company_calendar' && params.action === 'bulk_create' && method === 'POST') {
+      const { events } = JSON.parse(options.body as string);
+      const calendar: CalendarEvent[] = (db as any).companyCalendar || [];
+      const created: CalendarEvent[] = [];
+      for (const event of (events || []) as CalendarEvent[]) {
+        const taken = calendar.some(e => e.date === event.date && (e.location || null) === (event.location || null));
+        if (taken) continue;
+        const newEvent = { ...event, id: uuidv4(), version: 1, location: event.location || null };
+        calendar.push(newEvent);
+        created.push(newEvent);
+      }
+      (db as any).companyCalendar = calendar;
+      saveDb(db);
+      return { created, skipped: (events || []).length - created.length };
+    }
+
+    // ── app-config-batch: chiavi di configurazione note mappate sul mock DB ────
+    if (entity === 'app-config-batch' && method === 'POST') {
+      const { updates } = JSON.parse(options.body as string);
+      for (const { key, value } of (updates || []) as { key: string; value: string }[]) {
+        if (key === 'planning_range_months_before') (db as any).planningSettings = { ...(db as any).planningSettings, monthsBefore: parseInt(value, 10) };
+        if (key === 'planning_range_months_after') (db as any).planningSettings = { ...(db as any).planningSettings, monthsAfter: parseInt(value, 10) };
+        if (key === OVERBOOKING_POLICY_CONFIG_KEY) (db as any).overbookingPolicy = value === 'BLOCK' ? 'BLOCK' : 'WARN';
+        if (key === ALLOCATION_CLEANUP_POLICY_CONFIG_KEY) (db as any).allocationCleanupPolicy = value === 'AUTO' ? 'AUTO' : 'ASK';
+        if (key === ALLOCATION_APPROVAL_MODE_CONFIG_KEY) (db as any).allocationApprovalMode = value === 'REQUIRED' ? 'REQUIRED' : 'OFF';
+        if (key === CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY) (db as any).contractExhaustionAlertWeeks = parseContractExhaustionAlertWeeks(value);
+      }
+      saveDb(db);
       return { success: true };
     }
 
@@ -289,6 +633,21 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
         saveDb(db);
         return newItem;
       }
+      // Orari di lavoro: periodi della stessa risorsa non sovrapposti (come api/resources.ts)
+      if (entity === 'work_schedules') {
+        const scheduleError = validateWorkSchedule(body, (db as any).workSchedules || []);
+        if (scheduleError) throw mockClientError(400, scheduleError);
+      }
+      // Calendari di sede: una sola definizione per sede (come api/resources.ts)
+      if (entity === 'location_calendars') {
+        const calendarError = validateLocationCalendar(body, (db as any).locationCalendars || []);
+        if (calendarError) throw mockClientError(400, calendarError);
+      }
+      // Cambi: periodi della stessa valuta non sovrapposti (come api/resources.ts)
+      if (entity === 'fx_rates') {
+        const fxError = validateFxRate({ ...body, rate: Number(body.rate) }, (db as any).fxRates || []);
+        if (fxError) throw mockClientError(400, fxError);
+      }
       // Composite-key join tables (no id/version)
       const COMPOSITE_KEY_ENTITIES = ['project_skills', 'resource_skills', 'contract_projects', 'contract_managers'];
       if (COMPOSITE_KEY_ENTITIES.includes(entity)) {
@@ -309,13 +668,26 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
       const newItem = { id: uuidv4(), version: 1, ...body };
       if (!(db as any)[dbKey]) (db as any)[dbKey] = [];
       (db as any)[dbKey].push(newItem);
+      const effortRedistribution = entity === 'leaves' ? mockRedistributeLeaveEffort(db, null, { status: 'PENDING', ...newItem }) : [];
       saveDb(db);
-      return newItem;
+      return effortRedistribution.length > 0 ? { ...newItem, effortRedistribution } : newItem;
     }
 
     if (method === 'PUT') {
       const body = JSON.parse(options.body as string);
       const existing = list.find((i: any) => i.id === params.id);
+      if (entity === 'work_schedules') {
+        const scheduleError = validateWorkSchedule({ ...existing, ...body, id: params.id }, list);
+        if (scheduleError) throw mockClientError(400, scheduleError);
+      }
+      if (entity === 'location_calendars') {
+        const calendarError = validateLocationCalendar({ ...existing, ...body, id: params.id }, list);
+        if (calendarError) throw mockClientError(400, calendarError);
+      }
+      if (entity === 'fx_rates') {
+        const fxError = validateFxRate({ ...existing, ...body, rate: Number(body.rate), id: params.id }, list);
+        if (fxError) throw mockClientError(400, fxError);
+      }
       const NO_VERSION_ENTITIES_PUT = ['skill_macro_categories', 'skill_categories', 'notifications', 'evaluation_metrics', 'analytics_cache'];
       if (NO_VERSION_ENTITIES_PUT.includes(entity)) {
         const updated = { ...existing, ...body, id: params.id };
@@ -326,8 +698,24 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
       const nextVersion = (existing?.version ?? 0) + 1;
       const updated = { ...existing, ...body, id: params.id, version: nextVersion };
       (db as any)[dbKey] = list.map((i: any) => i.id === params.id ? updated : i);
+      let allocationCleanup: AllocationCleanupSummary | null = null;
+      if (existing && (entity === 'resources' || entity === 'projects')) {
+        const boundary = entity === 'resources'
+          ? getResourceCleanupBoundary(existing, updated, toISODateString(new Date()))
+          : getProjectCleanupBoundary(existing, updated);
+        if (boundary) {
+          allocationCleanup = mockAllocationCleanup(
+            db, entity === 'resources' ? 'resource' : 'project', params.id, boundary, (db as any).allocationCleanupPolicy === 'AUTO'
+          );
+        }
+      }
+      const effortRedistribution = existing && entity === 'leaves' ? mockRedistributeLeaveEffort(db, existing, updated) : [];
       saveDb(db);
-      return updated;
+      return {
+        ...updated,
+        ...(allocationCleanup && { allocationCleanup }),
+        ...(effortRedistribution.length > 0 && { effortRedistribution }),
+      };
     }
 
     if (method === 'DELETE') {
@@ -361,8 +749,10 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
         return null;
       }
       (db as any)[dbKey] = list.filter((i: any) => i.id !== params.id);
+      const deletedLeave = entity === 'leaves' ? list.find((i: any) => i.id === params.id) : null;
+      const effortRedistribution = deletedLeave ? mockRedistributeLeaveEffort(db, deletedLeave, null) : [];
       saveDb(db);
-      return null;
+      return effortRedistribution.length > 0 ? { effortRedistribution } : null;
     }
   }
 
@@ -370,31 +760,193 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
   if (path.endsWith('/api/staffing')) {
     if (params.action === 'allocation' && method === 'POST') {
       const { updates } = JSON.parse(options.body as string);
-      if (Array.isArray(updates)) {
-        if (!(db as any).allocations) (db as any).allocations = {};
-        for (const { assignmentId, date, percentage } of updates) {
-          if (!(db as any).allocations[assignmentId]) (db as any).allocations[assignmentId] = {};
-          if (percentage === 0) {
-            delete (db as any).allocations[assignmentId][date];
-          } else {
-            (db as any).allocations[assignmentId][date] = percentage;
-          }
+      if (!Array.isArray(updates) || updates.length === 0) throw mockClientError(400, 'Campo "updates" obbligatorio e non vuoto.');
+      const idempotencyKey = new Headers(options.headers).get(IDEMPOTENCY_KEY_HEADER);
+      const requestHash = JSON.stringify(updates);
+      const idempotencyKeys: Record<string, { requestHash: string; response: AllocationWriteResult }> = (db as any).idempotencyKeys || {};
+      if (idempotencyKey && idempotencyKeys[idempotencyKey]) {
+        if (idempotencyKeys[idempotencyKey].requestHash !== requestHash) {
+          throw mockClientError(422, 'Chiave di idempotenza già usata per un batch diverso.');
         }
+        return { ...idempotencyKeys[idempotencyKey].response, replayed: true };
+      }
+      const policy: OverbookingPolicy = (db as any).overbookingPolicy === 'BLOCK' ? 'BLOCK' : 'WARN';
+      let conflicts: AllocationConflict[] = [];
+      let checkedResourceIds: string[] = [];
+      let proposals: AllocationProposal[] = [];
+      const assignments: any[] = (db as any).assignments || [];
+      const projectsById = new Map<string, any>(((db as any).projects || []).map((p: any) => [p.id, p]));
+      const validation = validateAllocationBatch(updates, assignments.map((a: any) => ({
+        id: a.id,
+        isEditable: isProjectVisibleInStaffing(projectsById.get(a.projectId) || {}),
+      })));
+      if (validation.invalidCount > 0) {
+        const error = mockClientError(400, `${validation.invalidCount} righe non valide: nessuna allocazione salvata.`);
+        error.body = { error: error.message, success: false, outcomes: resolveAllocationOutcomes(validation.outcomes, updates, { rejected: true }) };
+        throw error;
+      }
+      const editor = mockSessionUser();
+      let proposed: AllocationUpdate[] = [];
+      let direct: AllocationUpdate[] = validation.updates;
+      if ((db as any).allocationApprovalMode === 'REQUIRED' && editor) {
+        ({ direct, proposed } = splitAllocationUpdates(
+          validation.updates, new Map(assignments.map(a => [a.id, a.resourceId])), editor, mockApprovalUsers(db)
+        ));
+      }
+      const touched = new Set(direct.map(u => u.assignmentId));
+      checkedResourceIds = Array.from(new Set(assignments
+        .filter((a: any) => touched.has(a.id))
+        .map((a: any) => a.resourceId as string)));
+      conflicts = direct.length === 0 ? [] : findAllocationConflicts({
+        updates: direct,
+        assignments: assignments.filter((a: any) => checkedResourceIds.includes(a.resourceId)),
+        allocations: (db as any).allocations || {},
+        resources: (db as any).resources || [],
+        leaveRequests: (db as any).leaveRequests || [],
+        leaveTypes: (db as any).leaveTypes || [],
+        companyCalendar: (db as any).companyCalendar || [],
+        locationCalendars: (db as any).locationCalendars || [],
+      });
+      const ruleViolations = findStaffingRuleViolations({
+        ...mockStaffingRulesContext(db), updates: direct, allocations: (db as any).allocations || {},
+      });
+      const isOverbookingBlocked = conflicts.length > 0 && policy === 'BLOCK';
+      if (isOverbookingBlocked || hasBlockingViolations(ruleViolations)) {
+        const error = mockClientError(409, isOverbookingBlocked
+          ? `Allocazione rifiutata: sovrallocazione su ${conflicts.length} giornate.`
+          : `Allocazione rifiutata: ${ruleViolations.filter(v => v.severity === 'BLOCK').length} violazioni di regole di staffing bloccanti.`);
+        error.body = {
+          error: error.message, success: false, policy, conflicts, checkedResourceIds, ruleViolations,
+          outcomes: resolveAllocationOutcomes(validation.outcomes, updates, { rejected: true }),
+        };
+        throw error;
+      }
+      writeMockAllocations(db, direct);
+      if (proposed.length > 0) {
+        const batchId = uuidv4();
+        const replaced = new Set(proposed.map(u => `${u.assignmentId}|${u.date}`));
+        proposals = proposed.map(u => {
+          const assignment = assignments.find((a: any) => a.id === u.assignmentId);
+          return {
+            id: uuidv4(), batchId, assignmentId: u.assignmentId, resourceId: assignment?.resourceId, projectId: assignment?.projectId,
+            date: u.date, percentage: u.percentage, previousPercentage: (db as any).allocations?.[u.assignmentId]?.[u.date] || 0,
+            proposedBy: editor!.username, status: 'PENDING', createdAt: new Date().toISOString(),
+          };
+        });
+        (db as any).allocationProposals = [
+          ...((db as any).allocationProposals || []).filter((p: AllocationProposal) => p.status !== 'PENDING' || !replaced.has(`${p.assignmentId}|${p.date}`)),
+          ...proposals,
+        ];
+      }
+      const result: AllocationWriteResult = {
+        success: true, policy, conflicts, checkedResourceIds, ruleViolations, proposals,
+        outcomes: resolveAllocationOutcomes(validation.outcomes, updates, { proposed }),
+      };
+      if (idempotencyKey) (db as any).idempotencyKeys = { ...idempotencyKeys, [idempotencyKey]: { requestHash, response: result } };
+      saveDb(db);
+      return result;
+    }
+    if (params.action === 'changes' && method === 'GET') {
+      const changes: AllocationChangeRow[] = (db as any).allocationChanges || [];
+      if (params.assignmentId || params.date) {
+        return { entries: collapseAllocationChanges(changes.filter(c => c.assignmentId === params.assignmentId && c.date === params.date)) };
+      }
+      const { asOf, start, end } = params;
+      if (!asOf || isNaN(Date.parse(asOf)) || !start || !end || start > end) {
+        throw mockClientError(400, 'Parametri "asOf", "start" e "end" obbligatori, con "start" non successivo a "end".');
+      }
+      const asOfIso = new Date(asOf).toISOString();
+      const past = revertAllocationChanges((db as any).allocations || {}, changes.filter(c => c.changedAt > asOfIso));
+      const allocations: Allocation = {};
+      for (const [assignmentId, days] of Object.entries(past)) {
+        const inWindow = Object.entries(days).filter(([date]) => date >= start && date <= end);
+        if (inWindow.length > 0) allocations[assignmentId] = Object.fromEntries(inWindow);
+      }
+      const response: AllocationAsOfResponse = {
+        asOf: asOfIso, start, end, allocations, trackedSince: changes[0]?.changedAt ?? null,
+      };
+      return response;
+    }
+    if (params.action === 'rules' && method === 'GET') {
+      const { start, end } = params;
+      if (!start || !end || start > end) throw mockClientError(400, 'Parametri "start" e "end" obbligatori, con "start" non successivo a "end".');
+      const [endYear, endMonth] = end.split('-').map(Number);
+      const bounds = { start: `${start.slice(0, 7)}-01`, end: `${end.slice(0, 7)}-${String(new Date(Date.UTC(endYear, endMonth, 0)).getUTCDate()).padStart(2, '0')}` };
+      const allocations: Allocation = {};
+      for (const [assignmentId, days] of Object.entries((db as any).allocations || {}) as [string, Record<string, number>][]) {
+        const inWindow = Object.entries(days).filter(([date]) => date >= bounds.start && date <= bounds.end);
+        if (inWindow.length > 0) allocations[assignmentId] = Object.fromEntries(inWindow);
+      }
+      const report: StaffingRuleReport = { ...bounds, violations: evaluateStaffingRules({ ...mockStaffingRulesContext(db), allocations }) };
+      return report;
+    }
+    if (params.action === 'proposal') {
+      if (method === 'GET') return mockPendingProposals(db);
+      if (method === 'POST') {
+        const { ids, status, reviewNotes } = JSON.parse(options.body as string);
+        if (!Array.isArray(ids) || ids.length === 0 || (status !== 'APPROVED' && status !== 'REJECTED')) {
+          throw mockClientError(400, 'Campi "ids" (non vuoto) e "status" (APPROVED | REJECTED) obbligatori.');
+        }
+        const selected = mockPendingProposals(db).filter(p => ids.includes(p.id));
+        if (selected.length === 0) throw mockClientError(409, 'Le proposte selezionate non sono più in attesa di approvazione.');
+        if (selected.some(p => !p.canReview)) throw mockClientError(403, 'Solo il manager della risorsa può accettare o rifiutare la proposta.');
+        const applied: AllocationUpdate[] = status === 'APPROVED'
+          ? selected.map(p => ({ assignmentId: p.assignmentId, date: p.date, percentage: p.percentage }))
+          : [];
+        const ruleViolations = findStaffingRuleViolations({
+          ...mockStaffingRulesContext(db), updates: applied, allocations: (db as any).allocations || {},
+        });
+        if (hasBlockingViolations(ruleViolations)) {
+          const error = mockClientError(409, 'Proposta non applicabile: viola regole di staffing bloccanti.');
+          error.body = { error: error.message, success: false, conflicts: [], checkedResourceIds: [], ruleViolations };
+          throw error;
+        }
+        writeMockAllocations(db, applied);
+        const reviewedIds = selected.map(p => p.id);
+        const reviewer = mockSessionUser();
+        (db as any).allocationProposals = ((db as any).allocationProposals || []).map((p: AllocationProposal) => reviewedIds.includes(p.id)
+          ? { ...p, status, reviewedBy: reviewer?.username ?? null, reviewedAt: new Date().toISOString(), reviewNotes: reviewNotes || null }
+          : p);
         saveDb(db);
+        const result: AllocationProposalReviewResult = { success: true, status, reviewedIds, applied, ruleViolations };
+        return result;
       }
-      return { success: true };
     }
     if (params.action === 'assignment') {
       if (method === 'POST') {
         const body = JSON.parse(options.body as string);
-        const { resourceId, projectId } = body;
+        const { resourceId, projectId, bookingStatus = 'CONFIRMED' } = body;
+        if (!resourceId) {
+          const placeholderError = validatePlaceholderAssignment(body);
+          if (placeholderError) throw mockClientError(400, placeholderError);
+          const placeholder = { id: uuidv4(), resourceId: null, projectId, bookingStatus, roleId: body.roleId, resourceRequestId: body.resourceRequestId || null };
+          if (!(db as any).assignments) (db as any).assignments = [];
+          (db as any).assignments.push(placeholder);
+          saveDb(db);
+          return placeholder;
+        }
         const existing = ((db as any).assignments || []).find((a: any) => a.resourceId === resourceId && a.projectId === projectId);
         if (existing) return { message: 'Exists', assignment: existing };
-        const newItem = { id: uuidv4(), resourceId, projectId };
+        const ruleViolations = findAssignmentRuleViolations({ ...mockStaffingRulesContext(db), assignment: { resourceId, projectId } });
+        if (hasBlockingViolations(ruleViolations)) {
+          const error = mockClientError(409, 'Assegnazione rifiutata: viola regole di staffing bloccanti.');
+          error.body = { error: error.message, ruleViolations };
+          throw error;
+        }
+        const newItem = { id: uuidv4(), resourceId, projectId, bookingStatus };
         if (!(db as any).assignments) (db as any).assignments = [];
         (db as any).assignments.push(newItem);
         saveDb(db);
-        return newItem;
+        return ruleViolations.length > 0 ? { ...newItem, ruleViolations } : newItem;
+      }
+      if (method === 'PUT') {
+        const { bookingStatus, allocationPattern } = JSON.parse(options.body as string);
+        const assignment = ((db as any).assignments || []).find((a: any) => a.id === params.id);
+        if (!assignment) return { error: 'Assegnazione non trovata.' };
+        if (bookingStatus !== undefined) assignment.bookingStatus = bookingStatus;
+        if (allocationPattern !== undefined) assignment.allocationPattern = allocationPattern;
+        saveDb(db);
+        return assignment;
       }
       if (method === 'DELETE') {
         (db as any).assignments = ((db as any).assignments || []).filter((a: any) => a.id !== params.id);
@@ -403,6 +955,293 @@ export const mockFetch = async (url: string, options: RequestInit = {}): Promise
         return null;
       }
     }
+    if (params.action === 'effort') {
+      const assignments: any[] = (db as any).assignments || [];
+      if (!(db as any).allocations) (db as any).allocations = {};
+      if (method === 'PUT') {
+        const { plannedEffortDays, effortStartDate, effortEndDate } = JSON.parse(options.body as string);
+        const assignment = assignments.find((a: any) => a.id === params.id);
+        if (!assignment) return { error: 'Assegnazione non trovata.' };
+        assertMockDirectWrite(db, [assignment.resourceId]);
+        const effort = Number(plannedEffortDays) || 0;
+        const previousWindow = hasEffortPlan(assignment)
+          ? { startDate: assignment.effortStartDate, endDate: assignment.effortEndDate }
+          : null;
+        if (effort <= 0) {
+          Object.assign(assignment, { plannedEffortDays: null, effortStartDate: null, effortEndDate: null });
+          saveDb(db);
+          return {
+            assignmentId: assignment.id, plannedEffortDays: null, effortStartDate: null, effortEndDate: null,
+            clearedStartDate: null, clearedEndDate: null, allocations: {}, distributedDays: 0, shortfallDays: 0,
+          };
+        }
+        Object.assign(assignment, { plannedEffortDays: effort, effortStartDate, effortEndDate });
+        const result = mockRedistributeEffort(db, assignment, previousWindow);
+        if (hasBlockingViolations(result.ruleViolations || [])) {
+          const error = mockClientError(409, 'Piano di effort rifiutato: la distribuzione viola regole di staffing bloccanti.');
+          error.body = { error: error.message, ruleViolations: result.ruleViolations };
+          throw error;
+        }
+        saveDb(db);
+        return result;
+      }
+    }
+    if (params.action === 'burndown' && method === 'GET') {
+      if (!params.id) return mockContractBurndowns(db);
+      const [burndown] = mockContractBurndowns(db, [params.id]);
+      if (!burndown) throw mockClientError(404, 'Contratto non trovato.');
+      return burndown;
+    }
+    if (params.action === 'baseline') {
+      const baselines: any[] = (db as any).planningBaselines || [];
+      if (method === 'GET' && !params.id) return baselines.map(toMockBaseline);
+      if (method === 'GET') {
+        const stored = baselines.find(b => b.id === params.id);
+        if (!stored) return { error: 'Baseline non trovata.' };
+        const baseline = toMockBaseline(stored);
+        const current = mockBaselineAllocations(db, baseline.projectId);
+        const { rows, totals } = buildBaselineVarianceRows(stored.allocations, current, {
+          resources: (db as any).resources || [],
+          roles: (db as any).roles || [],
+          roleCostHistory: (db as any).roleCostHistory || [],
+        });
+        const projects = buildBaselineProjectVariance(
+          getBaselineProjectIds(baseline, stored.allocations, current, stored.budgets),
+          { budgets: stored.budgets, milestones: stored.milestones },
+          (db as any).projects || [],
+          (db as any).billingMilestones || []
+        );
+        return { baseline, rows, projects, totals } as BaselineVariance;
+      }
+      if (method === 'POST') {
+        const body = JSON.parse(options.body as string);
+        const validationError = validateBaselineRequest(body);
+        if (validationError) return { error: validationError };
+        const projectId: string | null = body.projectId || null;
+        const inScope = (id: string) => !projectId || id === projectId;
+        const stored = {
+          id: uuidv4(),
+          name: body.name.trim(),
+          description: body.description || null,
+          projectId,
+          createdBy: null,
+          createdAt: new Date().toISOString(),
+          budgets: body.includeBudgets
+            ? Object.fromEntries(((db as any).projects || []).filter((p: any) => inScope(p.id)).map((p: any) => [p.id, Number(p.budget) || 0]))
+            : null,
+          milestones: body.includeMilestones
+            ? ((db as any).billingMilestones || []).filter((m: any) => inScope(m.projectId))
+              .map(({ projectId: pid, name, date, amount, status }: any) => ({ projectId: pid, name, date, amount, status }))
+            : null,
+          allocations: mockBaselineAllocations(db, projectId),
+        };
+        (db as any).planningBaselines = [stored, ...baselines];
+        saveDb(db);
+        return toMockBaseline(stored);
+      }
+      if (method === 'DELETE') {
+        (db as any).planningBaselines = baselines.filter(b => b.id !== params.id);
+        saveDb(db);
+        return null;
+      }
+    }
+    if (params.action === 'timesheet') {
+      const weeks: TimesheetWeek[] = (db as any).timesheetWeeks || [];
+      const entries: TimesheetEntry[] = (db as any).timesheetEntries || [];
+      const sessionUser = mockSessionUser();
+      if (method === 'GET' && params.view === 'approvals') {
+        const users = mockApprovalUsers(db);
+        return weeks.filter(w => w.status === 'SUBMITTED' && (!sessionUser || canReviewAllocationProposal(sessionUser, w.resourceId, users)))
+          .map(w => mockTimesheetWeek(db, w.resourceId, w.weekStart).week)
+          .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+      }
+      if (method === 'GET' && params.view === 'variance') {
+        const { from, to } = params;
+        const inRange = (date: string) => date >= from && date <= to;
+        const approved = new Set(weeks.filter(w => w.status === 'APPROVED').map(w => `${w.resourceId}|${w.weekStart}`));
+        const { rows, totals } = buildPlanActualRows(
+          mockBaselineAllocations(db, null).filter(a => inRange(a.date)),
+          entries.filter(e => inRange(e.date) && approved.has(`${e.resourceId}|${getTimesheetWeekStart(e.date)}`)),
+          { resources: (db as any).resources || [], roles: (db as any).roles || [], roleCostHistory: (db as any).roleCostHistory || [] }
+        );
+        return { from, to, rows, totals } as PlanActualReport;
+      }
+      if (method === 'GET') {
+        const users = mockApprovalUsers(db);
+        if (sessionUser && !canEditTimesheetWeek(sessionUser, params.resourceId, users) && !canReviewAllocationProposal(sessionUser, params.resourceId, users)) {
+          throw mockClientError(403, 'Solo la risorsa o il suo manager possono consultare il timesheet.');
+        }
+        return mockTimesheetWeek(db, params.resourceId, getTimesheetWeekStart(params.weekStart));
+      }
+
+      const body = JSON.parse(options.body as string);
+      const stored = weeks.find(w => w.resourceId === body.resourceId && w.weekStart === body.weekStart);
+      const current = stored?.status ?? 'DRAFT';
+      const isReview = body.status === 'APPROVED' || body.status === 'REJECTED';
+      if (sessionUser && isReview && !canReviewAllocationProposal(sessionUser, body.resourceId, mockApprovalUsers(db))) {
+        throw mockClientError(403, 'Solo il manager della risorsa può approvare o rifiutare il timesheet.');
+      }
+      if (sessionUser && !isReview && !canEditTimesheetWeek(sessionUser, body.resourceId, mockApprovalUsers(db))) {
+        throw mockClientError(403, method === 'PUT' ? 'Solo la risorsa può inserire le proprie ore.' : 'Solo la risorsa può inviare le proprie ore.');
+      }
+      if (method === 'PUT') {
+        const validationError = validateTimesheetWeekRequest(body);
+        if (validationError) return { error: validationError };
+        const unknownProject = body.entries.find((e: any) => !((db as any).projects || []).some((p: any) => p.id === e.projectId));
+        if (unknownProject) throw mockClientError(400, `Progetto non trovato: ${unknownProject.projectId}.`);
+        if (!isTimesheetWeekEditable(current)) throw mockClientError(409, `La settimana del ${body.weekStart} non è modificabile.`);
+        const days = new Set(getTimesheetWeekDays(body.weekStart));
+        (db as any).timesheetEntries = [
+          ...entries.filter(e => !(e.resourceId === body.resourceId && days.has(e.date))),
+          ...body.entries.filter((e: any) => Number(e.hours) > 0).map((e: any) => ({
+            id: uuidv4(), resourceId: body.resourceId, projectId: e.projectId, date: e.date, hours: Number(e.hours), notes: e.notes || null,
+          })),
+        ];
+        if (!stored) (db as any).timesheetWeeks = [...weeks, { id: uuidv4(), resourceId: body.resourceId, weekStart: body.weekStart, status: 'DRAFT' }];
+        saveDb(db);
+        return mockTimesheetWeek(db, body.resourceId, body.weekStart);
+      }
+      if (method === 'POST') {
+        if (!canTransitionTimesheetWeek(current, body.status)) throw mockClientError(409, `Transizione non consentita: ${current} → ${body.status}.`);
+        const now = new Date().toISOString();
+        const next: TimesheetWeek = {
+          id: stored?.id ?? uuidv4(),
+          resourceId: body.resourceId,
+          weekStart: body.weekStart,
+          status: body.status,
+          submittedAt: isReview ? stored?.submittedAt ?? null : now,
+          reviewedBy: isReview ? sessionUser?.username ?? null : null,
+          reviewedAt: isReview ? now : null,
+          reviewNotes: isReview ? body.reviewNotes || null : null,
+        };
+        (db as any).timesheetWeeks = [...weeks.filter(w => w !== stored), next];
+        saveDb(db);
+        return mockTimesheetWeek(db, body.resourceId, body.weekStart);
+      }
+    }
+    if (params.action === 'cleanup' && method === 'POST') {
+      const { scope, entityId, boundaryDate } = JSON.parse(options.body as string);
+      const summary = mockAllocationCleanup(db, scope, entityId, boundaryDate, true);
+      saveDb(db);
+      return summary;
+    }
+    if (params.action === 'placeholder' && method === 'POST') {
+      const body = JSON.parse(options.body as string);
+      const validationError = validatePlaceholderConversionRequest(body);
+      if (validationError) throw mockClientError(400, validationError);
+      const assignments: any[] = (db as any).assignments || [];
+      const placeholder = assignments.find(a => a.id === body.placeholderId && !a.resourceId);
+      if (!placeholder || !((db as any).resources || []).some((r: any) => r.id === body.resourceId)) {
+        throw mockClientError(404, 'Segnaposto o risorsa non trovati.');
+      }
+      assertMockDirectWrite(db, [body.resourceId]);
+      const policy: OverbookingPolicy = (db as any).overbookingPolicy === 'BLOCK' ? 'BLOCK' : 'WARN';
+      const allocations = (db as any).allocations || {};
+      const plan = buildPlaceholderConversion(placeholder, body.resourceId, assignments, allocations);
+      const resourceAssignments = assignments
+        .filter(a => a.resourceId === body.resourceId)
+        .map(a => ({ id: a.id, resourceId: a.resourceId }));
+      const conflicts = findAllocationConflicts({
+        updates: plan.updates,
+        assignments: plan.mergesIntoExisting ? resourceAssignments : [...resourceAssignments, { id: placeholder.id, resourceId: body.resourceId }],
+        allocations,
+        resources: (db as any).resources || [],
+        leaveRequests: (db as any).leaveRequests || [],
+        leaveTypes: (db as any).leaveTypes || [],
+        companyCalendar: (db as any).companyCalendar || [],
+        locationCalendars: (db as any).locationCalendars || [],
+        newAssignmentIds: plan.mergesIntoExisting ? [] : [placeholder.id],
+      });
+      // Senza assegnazione esistente la risorsa entra nel progetto con il segnaposto
+      const rulesContext = mockStaffingRulesContext(db);
+      const ruleViolations = plan.mergesIntoExisting
+        ? []
+        : findAssignmentRuleViolations({ ...rulesContext, assignment: { resourceId: body.resourceId, projectId: placeholder.projectId } });
+      ruleViolations.push(...findStaffingRuleViolations({
+        ...rulesContext,
+        assignments: plan.mergesIntoExisting ? rulesContext.assignments : [...rulesContext.assignments, { ...placeholder, resourceId: body.resourceId }],
+        updates: plan.updates,
+        allocations,
+        newAssignmentIds: plan.mergesIntoExisting ? [] : [placeholder.id],
+      }));
+      const target = plan.mergesIntoExisting ? assignments.find(a => a.id === plan.targetAssignmentId) : placeholder;
+      const result: PlaceholderConversionResult = {
+        success: true,
+        policy,
+        assignment: plan.mergesIntoExisting ? target : { ...placeholder, resourceId: body.resourceId, roleId: null },
+        removedAssignmentId: plan.mergesIntoExisting ? placeholder.id : null,
+        updates: plan.updates,
+        conflicts,
+        ruleViolations,
+      };
+      const isOverbookingBlocked = conflicts.length > 0 && policy === 'BLOCK';
+      if (isOverbookingBlocked || hasBlockingViolations(ruleViolations)) {
+        const error = mockClientError(409, isOverbookingBlocked
+          ? `Conversione rifiutata: sovrallocazione della risorsa su ${conflicts.length} giornate.`
+          : `Conversione rifiutata: ${ruleViolations.filter(v => v.severity === 'BLOCK').length} violazioni di regole di staffing bloccanti.`);
+        error.body = { ...result, error: error.message, success: false };
+        throw error;
+      }
+      if (plan.mergesIntoExisting) {
+        writeMockAllocations(db, plan.updates);
+        (db as any).assignments = assignments.filter(a => a.id !== placeholder.id);
+        delete (db as any).allocations[placeholder.id];
+      } else {
+        placeholder.resourceId = body.resourceId;
+        placeholder.roleId = null;
+      }
+      saveDb(db);
+      return result;
+    }
+    if (params.action === 'reassign' && method === 'POST') {
+      const body = JSON.parse(options.body as string);
+      const validationError = validateReassignmentRequest(body);
+      if (validationError) return { error: validationError };
+      if (!body.dryRun) assertMockDirectWrite(db, [body.sourceResourceId, body.targetResourceId]);
+      const policy: OverbookingPolicy = (db as any).overbookingPolicy === 'BLOCK' ? 'BLOCK' : 'WARN';
+      if (!(db as any).assignments) (db as any).assignments = [];
+      const plan = buildReassignmentPlan({
+        request: body,
+        assignments: (db as any).assignments.filter((a: any) => a.resourceId === body.sourceResourceId || a.resourceId === body.targetResourceId),
+        allocations: (db as any).allocations || {},
+        resources: (db as any).resources || [],
+        leaveRequests: (db as any).leaveRequests || [],
+        leaveTypes: (db as any).leaveTypes || [],
+        companyCalendar: (db as any).companyCalendar || [],
+        locationCalendars: (db as any).locationCalendars || [],
+      });
+      if (body.dryRun) return { ...plan, success: true, dryRun: true, policy, createdAssignments: [] } as ReassignmentResult;
+      if (plan.conflicts.length > 0 && policy === 'BLOCK') {
+        const error = new Error(`Riassegnazione rifiutata: sovrallocazione della risorsa di destinazione su ${plan.conflicts.length} giornate.`) as Error & { status?: number; isClientError?: boolean; body?: unknown };
+        error.status = 409;
+        error.isClientError = true;
+        error.body = { ...plan, error: error.message, success: false, dryRun: false, policy, createdAssignments: [] };
+        throw error;
+      }
+      const ruleViolations: StaffingRuleViolation[] = [];
+      const createdIds: Record<string, string> = {};
+      const createdAssignments = plan.moves.filter(m => m.createsAssignment).map(m => {
+        ruleViolations.push(...findAssignmentRuleViolations({
+          ...mockStaffingRulesContext(db), assignment: { resourceId: body.targetResourceId, projectId: m.projectId },
+        }));
+        const newItem = { id: uuidv4(), resourceId: body.targetResourceId, projectId: m.projectId, bookingStatus: m.bookingStatus };
+        createdIds[m.targetAssignmentId] = newItem.id;
+        (db as any).assignments.push(newItem);
+        return newItem;
+      });
+      const resolved = resolveReassignmentPlan(plan, createdIds);
+      ruleViolations.push(...findStaffingRuleViolations({
+        ...mockStaffingRulesContext(db), updates: [...resolved.sourceUpdates, ...resolved.targetUpdates], allocations: (db as any).allocations || {},
+      }));
+      if (hasBlockingViolations(ruleViolations)) {
+        const error = mockClientError(409, `Riassegnazione rifiutata: ${ruleViolations.filter(v => v.severity === 'BLOCK').length} violazioni di regole di staffing bloccanti.`);
+        error.body = { ...plan, error: error.message, success: false, dryRun: false, policy, createdAssignments: [], ruleViolations };
+        throw error;
+      }
+      (db as any).allocations = applyReassignmentPlan((db as any).allocations || {}, resolved);
+      saveDb(db);
+      return { ...resolved, success: true, dryRun: false, policy, createdAssignments, ruleViolations } as ReassignmentResult;
+    }
   }
 
   // ─── Admin: test webhook ─────────────────────────────────────────────────────
@@ -53,6 +53,43 @@ export interface RateCardEntry {
     dailyRate: number;
 }
 
+export type RateCardLineType = 'ROLE' | 'SENIORITY' | 'DEFAULT';
+
+/**
+ * Tariffa di listino per ruolo (`lineKey` = id del ruolo), per livello di seniority (`lineKey` =
+ * livello) o di default (`lineKey` = '*'), valida da `startDate` a `endDate` (null = in vigore).
+ * Vale per le risorse senza tariffa specifica nel listino.
+ */
+export interface RateCardLine {
+    id: string;
+    rateCardId: string;
+    lineType: RateCardLineType;
+    lineKey: string;
+    dailyRate: number;
+    startDate: string;
+    endDate: string | null;
+}
+
+/** Periodo di validità di una tariffa di listino (storico SCD, come `RoleCostHistory`). */
+export interface RateCardEntryHistory {
+    id: string;
+    rateCardId: string;
+    resourceId: string;
+    dailyRate: number;
+    startDate: string;
+    endDate: string | null;
+}
+
+/** Cambio verso la valuta base in un periodo (convenzione BCE: 1 EUR = `rate` unità di `currency`). */
+export interface FxRate {
+    id?: string;
+    currency: string;
+    rate: number;
+    validFrom: string;
+    validTo?: string | null;
+    version?: number;
+}
+
 export interface ProjectExpense {
     id?: string;
     projectId: string;
@@ -98,6 +135,27 @@ export interface Resource {
     version?: number;
 }
 
+/**
+ * Orario di lavoro contrattuale di una risorsa (part-time, riduzioni su alcuni giorni), valido
+ * da `validFrom` a `validTo` (incluso; null = a tempo indeterminato). Senza orario la risorsa
+ * lavora 8 ore dal lunedì al venerdì.
+ */
+export interface WorkSchedule {
+    id?: string;
+    resourceId: string;
+    mondayHours: number;
+    tuesdayHours: number;
+    wednesdayHours: number;
+    thursdayHours: number;
+    fridayHours: number;
+    saturdayHours: number;
+    sundayHours: number;
+    validFrom: string;
+    validTo: string | null;
+    notes?: string | null;
+    version?: number;
+}
+
 export interface Project {
     id?: string;
     name: string;
@@ -139,10 +197,78 @@ export interface ContractManager {
     resourceId: string;
 }
 
+export type ContractExhaustionStatus = 'OK' | 'ALERT' | 'EXHAUSTED';
+
+/** Capienza residua all'inizio della settimana: consuntivata fino a oggi, proiettata da oggi in poi. */
+export interface ContractBurndownPoint {
+    weekStart: string;
+    actual: number | null;
+    projected: number | null;
+}
+
+/**
+ * Burn-down della capienza di un contratto (`action=burndown`): valore dei progetti collegati
+ * (allocazioni alle tariffe del listino e spese rifatturabili, milestone per i Fixed Price)
+ * maturato fino a oggi e pianificato, con la data prevista di esaurimento.
+ */
+export interface ContractBurndown {
+    contractId: string;
+    capienza: number;
+    /** Valore maturato fino a oggi. */
+    consumed: number;
+    /** Valore complessivo pianificato (maturato + futuro). */
+    committed: number;
+    /** Capienza non ancora impegnata (capienza - committed), salvata in `contracts.backlog`. */
+    backlog: number;
+    /** Primo giorno in cui il valore cumulato raggiunge la capienza (null se non la raggiunge). */
+    exhaustionDate: string | null;
+    status: ContractExhaustionStatus;
+    series: ContractBurndownPoint[];
+}
+
+/**
+ * Stato di prenotazione di un'assegnazione:
+ * - CONFIRMED: impegno effettivo (default, comportamento storico)
+ * - TENTATIVE: risorsa "prenotata a matita" su trattative non ancora firmate
+ */
+export type BookingStatus = 'CONFIRMED' | 'TENTATIVE';
+
 export interface Assignment {
     id?: string;
-    resourceId: string;
+    /** Null per i segnaposto di ruolo: posizione prenotata in attesa di una risorsa nominativa. */
+    resourceId: string | null;
     projectId: string;
+    /** Ruolo richiesto dal segnaposto (costato con il costo del ruolo); null sulle assegnazioni nominative. */
+    roleId?: string | null;
+    /** Richiesta risorse da cui nasce il segnaposto, se presente. */
+    resourceRequestId?: string | null;
+    /** Assente sui dati storici: va interpretato come 'CONFIRMED'. */
+    bookingStatus?: BookingStatus;
+    /** Effort pianificato in giorni/uomo, distribuito su `effortStartDate`–`effortEndDate`. Null = nessun piano. */
+    plannedEffortDays?: number | null;
+    effortStartDate?: string | null;
+    effortEndDate?: string | null;
+    /** Ricorrenza salvata sull'assegnazione, riapplicabile o estendibile. Null = nessuna. */
+    allocationPattern?: AllocationPattern | null;
+}
+
+export type AllocationPatternKind = 'WEEKLY' | 'ALTERNATE_WEEKS' | 'MONTHLY_FIRST_DAYS';
+
+/** Pattern di allocazione ricorrente, espanso in allocazioni giornaliere su un intervallo. */
+export interface AllocationPattern {
+    kind: AllocationPatternKind;
+    /** Percentuale per giorno feriale, da lunedì a venerdì (WEEKLY, ALTERNATE_WEEKS). */
+    weekdayPercentages: number[];
+    /** ALTERNATE_WEEKS: la maschera vale una settimana ogni `weekInterval` (2 = settimane alterne). */
+    weekInterval?: number;
+    /** MONTHLY_FIRST_DAYS: primi N giorni lavorativi del mese, allocati a `percentage`. */
+    monthlyFirstDays?: number;
+    percentage?: number;
+    /** Settimana di riferimento per le settimane alterne: resta fissa quando il pattern viene esteso. */
+    anchorDate: string;
+    /** Intervallo complessivo a cui il pattern è stato applicato. */
+    startDate: string;
+    endDate: string;
 }
 
 export interface Allocation {
@@ -162,6 +288,27 @@ export interface CalendarEvent {
     version?: number;
 }
 
+/** Chiusura che si ripete ogni anno tra due giorni (MM-DD, inclusi), es. chiusura estiva. */
+export interface RecurringClosure {
+    name: string;
+    startMonthDay: string;
+    endMonthDay: string;
+}
+
+/**
+ * Calendario lavorativo di una sede: giorni lavorativi della settimana (`Date.getUTCDay()`,
+ * 0 = domenica), ore della giornata standard e chiusure ricorrenti. Le sedi senza calendario
+ * lavorano 8 ore dal lunedì al venerdì.
+ */
+export interface LocationCalendar {
+    id?: string;
+    location: string;
+    workingDays: number[];
+    dailyHours: number;
+    recurringClosures: RecurringClosure[];
+    version?: number;
+}
+
 export interface WbsTask {
     id?: string;
     elementoWbs: string;
@@ -591,10 +738,13 @@ export interface EntitiesActions {
     addCalendarEvent: (event: Omit<CalendarEvent, 'id'>) => Promise<void>;
     updateCalendarEvent: (event: CalendarEvent) => Promise<void>;
     deleteCalendarEvent: (id: string) => Promise<void>;
-    addMultipleAssignments: (newAssignments: { resourceId: string; projectId: string }[]) => Promise<Assignment[]>;
-    deleteAssignment: (id: string) => Promise<void>;
+    addMultipleAssignments: (newAssignments: { resourceId: string; projectId: string; bookingStatus?: BookingStatus }[]) => Promise<Assignment[]>;
+    updateAssignmentBookingStatus: (id: string, bookingStatus: BookingStatus) => Promise<void>;
+    updateAssignmentPattern: (id: string, allocationPattern: AllocationPattern | null) => Promise<boolean>;
+    deleteAssignment: (id: string) => Promise<boolean>;
+    addPlaceholderAssignment: (placeholder: { projectId: string; roleId: string; resourceRequestId?: string | null; bookingStatus?: BookingStatus }) => Promise<Assignment | null>;
     getRoleCost: (roleId: string, date: Date, resourceId?: string) => number;
-    getSellRate: (rateCardId: string | null | undefined, resourceId: string) => number;
+    getSellRate: (rateCardId: string | null | undefined, resourceId: string, date?: Date | string) => number;
     addResourceRequest: (req: Omit<ResourceRequest, 'id'>) => Promise<void>;
     updateResourceRequest: (req: ResourceRequest) => Promise<void>;
     deleteResourceRequest: (id: string) => Promise<void>;
@@ -604,7 +754,6 @@ export interface EntitiesActions {
     addContract: (contract: Omit<Contract, 'id'>, projectIds: string[], managerIds: string[]) => Promise<void>;
     updateContract: (contract: Contract, projectIds: string[], managerIds: string[]) => Promise<void>;
     deleteContract: (id: string) => Promise<void>;
-    recalculateContractBacklog: (id: string) => Promise<void>;
     addSkill: (skill: Omit<Skill, 'id'>) => Promise<void>;
     updateSkill: (skill: Skill) => Promise<void>;
     deleteSkill: (id: string) => Promise<void>;
@@ -660,12 +809,425 @@ export interface AllocationUpdate {
     percentage: number;
 }
 
+/**
+ * Policy di overbooking applicata da `POST /api/staffing?action=allocation`:
+ * - BLOCK: il batch viene rifiutato (409) con il report dei conflitti;
+ * - WARN: il batch viene salvato e i conflitti restituiti come avvisi.
+ */
+export type OverbookingPolicy = 'BLOCK' | 'WARN';
+
+/**
+ * Regole di staffing configurabili dall'amministratore, oltre alla capacità massima:
+ * - MAX_CONCURRENT_PROJECTS: progetti allocati nella stessa giornata (soglia = numero massimo);
+ * - MIN_ALLOCATION_SLICE: percentuale minima di una cella allocata (soglia = %);
+ * - NO_EXTERNAL_ON_INTERNAL: risorse esterne (utente con ruolo `_EXT`) non allocabili su progetti interni (senza cliente);
+ * - MIN_BILLABLE_SHARE: quota minima mensile dei talent su progetti fatturabili (con cliente) (soglia = %).
+ */
+export type StaffingRuleType = 'MAX_CONCURRENT_PROJECTS' | 'MIN_ALLOCATION_SLICE' | 'NO_EXTERNAL_ON_INTERNAL' | 'MIN_BILLABLE_SHARE';
+
+/** BLOCK rifiuta la scrittura (409), WARN la salva restituendo le violazioni come avvisi. */
+export type StaffingRuleSeverity = 'BLOCK' | 'WARN';
+
+export interface StaffingRule {
+    id?: string;
+    name: string;
+    ruleType: StaffingRuleType;
+    severity: StaffingRuleSeverity;
+    /** Soglia della regola; null per le regole senza soglia (NO_EXTERNAL_ON_INTERNAL). */
+    threshold: number | null;
+    isActive: boolean;
+    version?: number;
+}
+
+/** Violazione di una regola di staffing rilevata su una scrittura o nel report. */
+export interface StaffingRuleViolation {
+    ruleId: string;
+    ruleName: string;
+    ruleType: StaffingRuleType;
+    severity: StaffingRuleSeverity;
+    resourceId: string;
+    /** Giornata (YYYY-MM-DD), mese (YYYY-MM) per la quota fatturabile, null per le violazioni di un'assegnazione. */
+    period: string | null;
+    assignmentIds: string[];
+    /** Valore rilevato: numero di progetti, percentuale della cella o quota fatturabile. */
+    value: number;
+    threshold: number | null;
+}
+
+/** Report delle violazioni delle regole attive sulle allocazioni di un intervallo (`GET /api/staffing?action=rules`). */
+export interface StaffingRuleReport {
+    start: string;
+    end: string;
+    violations: StaffingRuleViolation[];
+}
+
+/**
+ * Pulizia delle allocazioni oltre un nuovo limite (ultimo giorno della risorsa, fine progetto anticipata):
+ * - ASK: il salvataggio restituisce il riepilogo e la rimozione va confermata;
+ * - AUTO: le allocazioni oltre il limite vengono rimosse contestualmente al salvataggio.
+ */
+export type AllocationCleanupPolicy = 'ASK' | 'AUTO';
+
+export type AllocationCleanupScope = 'resource' | 'project';
+
+/**
+ * Approvazione delle modifiche alle allocazioni:
+ * - OFF: ogni modifica viene scritta subito;
+ * - REQUIRED: le modifiche su risorse fuori dalla propria linea manageriale (`AppUser.managerIds`)
+ *   diventano proposte, scritte in `allocations` solo dopo l'accettazione del manager della risorsa.
+ */
+export type AllocationApprovalMode = 'OFF' | 'REQUIRED';
+
+export type AllocationProposalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/** Proposta di modifica di una giornata di allocazione, in attesa della decisione del manager. */
+export interface AllocationProposal {
+    id: string;
+    /** Raggruppa le giornate proposte con la stessa modifica (una notifica per lotto). */
+    batchId: string;
+    assignmentId: string;
+    resourceId: string;
+    projectId: string;
+    date: string;
+    percentage: number;
+    previousPercentage: number;
+    proposedBy: string | null;
+    status: AllocationProposalStatus;
+    createdAt?: string;
+    reviewedBy?: string | null;
+    reviewedAt?: string | null;
+    reviewNotes?: string | null;
+    /** Calcolato per l'utente corrente: può accettare o rifiutare la proposta. */
+    canReview?: boolean;
+}
+
+/** Esito di `POST /api/staffing?action=proposal` (accettazione o rifiuto). */
+export interface AllocationProposalReviewResult extends AllocationWriteResult {
+    status: Exclude<AllocationProposalStatus, 'PENDING'>;
+    reviewedIds: string[];
+    /** Aggiornamenti scritti in `allocations` (vuoto in caso di rifiuto). */
+    applied: AllocationUpdate[];
+}
+
+/** Riepilogo delle allocazioni oltre il limite di una risorsa o di un progetto (rimosse o da rimuovere). */
+export interface AllocationCleanupSummary {
+    scope: AllocationCleanupScope;
+    entityId: string;
+    /** Ultimo giorno valido: sono coinvolte le allocazioni successive. */
+    boundaryDate: string;
+    applied: boolean;
+    assignmentIds: string[];
+    removedAllocations: number;
+    removedPersonDays: number;
+    projects: { projectId: string; removedPersonDays: number }[];
+}
+
+/**
+ * Baseline di pianificazione: fotografia nominata delle allocazioni di un progetto
+ * (`projectId`) o dell'intero portafoglio (`projectId` null), con budget e milestone opzionali.
+ */
+export interface PlanningBaseline {
+    id?: string;
+    name: string;
+    description?: string | null;
+    projectId: string | null;
+    includesBudgets: boolean;
+    includesMilestones: boolean;
+    createdAt?: string;
+    createdBy?: string | null;
+    allocationCount?: number;
+    totalPersonDays?: number;
+}
+
+/** Riga allocazione congelata nella baseline (denormalizzata: sopravvive alla rimozione dell'assegnazione). */
+export interface BaselineAllocation {
+    resourceId: string;
+    projectId: string;
+    date: string;
+    percentage: number;
+}
+
+/** Milestone di fatturazione congelata nella baseline. */
+export type BaselineMilestone = Pick<BillingMilestone, 'projectId' | 'name' | 'date' | 'amount' | 'status'>;
+
+/** Scostamento baseline / piano corrente per risorsa e mese (`YYYY-MM`). */
+export interface BaselineVarianceRow {
+    resourceId: string;
+    month: string;
+    baselineDays: number;
+    currentDays: number;
+    deltaDays: number;
+    baselineCost: number;
+    currentCost: number;
+    deltaCost: number;
+}
+
+/** Scostamento di budget e milestone per progetto; i valori baseline sono null se non congelati. */
+export interface BaselineProjectVariance {
+    projectId: string;
+    baselineBudget: number | null;
+    currentBudget: number;
+    baselineMilestoneAmount: number | null;
+    currentMilestoneAmount: number;
+    baselineMilestoneCount: number | null;
+    currentMilestoneCount: number;
+}
+
+export interface BaselineVariance {
+    baseline: PlanningBaseline;
+    rows: BaselineVarianceRow[];
+    projects: BaselineProjectVariance[];
+    totals: { baselineDays: number; currentDays: number; baselineCost: number; currentCost: number };
+}
+
+/** Stato di una settimana di timesheet: modificabile in DRAFT/REJECTED, approvata dal manager dopo l'invio. */
+export type TimesheetStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+/**
+ * Ore effettivamente lavorate da una risorsa su un progetto in una giornata (consuntivo).
+ * Memorizzate separatamente dalle allocazioni e indicizzate per risorsa/progetto, quindi
+ * sopravvivono alla rimozione dell'assegnazione.
+ */
+export interface TimesheetEntry {
+    id?: string;
+    resourceId: string;
+    projectId: string;
+    date: string;
+    hours: number;
+    notes?: string | null;
+}
+
+/** Settimana di timesheet (da lunedì a domenica) di una risorsa: unità di invio e approvazione. */
+export interface TimesheetWeek {
+    id?: string;
+    resourceId: string;
+    weekStart: string;
+    status: TimesheetStatus;
+    submittedAt?: string | null;
+    reviewedBy?: string | null;
+    reviewedAt?: string | null;
+    reviewNotes?: string | null;
+    totalHours?: number;
+}
+
+export interface TimesheetWeekDetail {
+    week: TimesheetWeek;
+    entries: TimesheetEntry[];
+}
+
+/** Scostamento piano / consuntivo approvato per risorsa, progetto e mese (`YYYY-MM`). */
+export interface PlanActualRow {
+    resourceId: string;
+    projectId: string;
+    month: string;
+    plannedDays: number;
+    actualDays: number;
+    actualHours: number;
+    deltaDays: number;
+    plannedCost: number;
+    actualCost: number;
+    deltaCost: number;
+}
+
+export interface PlanActualReport {
+    from: string;
+    to: string;
+    rows: PlanActualRow[];
+    totals: { plannedDays: number; actualDays: number; actualHours: number; plannedCost: number; actualCost: number };
+}
+
+/** Conflitto di capacità su una giornata di una risorsa, causato da un batch di allocazioni. */
+export interface AllocationConflict {
+    resourceId: string;
+    date: string;
+    /** Assegnazioni del batch che contribuiscono alla giornata in conflitto. */
+    assignmentIds: string[];
+    /** Totale giornaliero risultante (somma su tutte le assegnazioni della risorsa). */
+    total: number;
+    previousTotal: number;
+    capacity: number;
+    reason: 'OVER_CAPACITY' | 'LEAVE' | 'NON_WORKING_DAY' | 'AFTER_LAST_DAY';
+}
+
+/**
+ * Esito di una riga del batch allocazioni: `APPLIED` scritta, `PROPOSED` trasformata in proposta,
+ * `SUPERSEDED` sostituita da una riga successiva sulla stessa cella, `INVALID` scartata dalla
+ * validazione, `REJECTED` non scritta perché il batch è stato rifiutato (righe non valide o overbooking).
+ */
+export type AllocationRowStatus = 'APPLIED' | 'PROPOSED' | 'SUPERSEDED' | 'INVALID' | 'REJECTED';
+
+export interface AllocationRowOutcome {
+    /** Posizione della riga in `updates`. */
+    index: number;
+    status: AllocationRowStatus;
+    error?: string;
+}
+
+/** Risposta dell'endpoint di scrittura allocazioni (anche nel body degli errori 400 e 409). */
+export interface AllocationWriteResult {
+    success: boolean;
+    policy?: OverbookingPolicy;
+    conflicts?: AllocationConflict[];
+    /** Risorse verificate dal batch: i conflitti precedenti su queste risorse/date sono superati. */
+    checkedResourceIds?: string[];
+    /** Modifiche non scritte ma trasformate in proposte (modalità di approvazione REQUIRED). */
+    proposals?: AllocationProposal[];
+    /** Esito per riga, nello stesso ordine di `updates`. */
+    outcomes?: AllocationRowOutcome[];
+    /** Violazioni delle regole di staffing (avvisi, o motivo del rifiuto 409 se almeno una è BLOCK). */
+    ruleViolations?: StaffingRuleViolation[];
+    /** True se la risposta è quella memorizzata per la stessa `Idempotency-Key` (batch non riapplicato). */
+    replayed?: boolean;
+}
+
+/** Intervallo di date (estremi inclusi, YYYY-MM-DD) di cui il client ha caricato le allocazioni. */
+export interface AllocationWindow {
+    start: string;
+    end: string;
+}
+
+export interface AllocationCellRef {
+    assignmentId: string;
+    date: string;
+}
+
+/**
+ * Risposta di `GET /api/data?scope=allocations`: tutte le celle della finestra oppure, con `since`,
+ * solo quelle modificate o eliminate dopo il cursore. `reset` indica che il cursore non era più
+ * utilizzabile e la risposta contiene l'intera finestra.
+ */
+export interface AllocationWindowResponse extends AllocationWindow {
+    allocations: Allocation;
+    deleted: AllocationCellRef[];
+    /** Cursore da passare come `since` alla richiesta successiva. */
+    cursor: string;
+    reset?: boolean;
+}
+
+/**
+ * Modifica di una cella di allocazione registrata in `allocation_changes` (0 = cella vuota).
+ * Le scritture della stessa transazione sulla stessa cella sono riportate come un'unica modifica.
+ */
+export interface AllocationChangeEntry {
+    oldPercentage: number;
+    newPercentage: number;
+    changedAt: string;
+    /** Username dell'autore; null per le scritture senza utente (login disattivato, operazioni di sistema). */
+    changedBy: string | null;
+}
+
+/** Risposta di `GET /api/staffing?action=changes&asOf=…`: allocazioni della finestra com'erano all'istante indicato. */
+export interface AllocationAsOfResponse extends AllocationWindow {
+    asOf: string;
+    allocations: Allocation;
+    /** Prima modifica registrata: per istanti precedenti le celle mai modificate da allora riportano il valore attuale. */
+    trackedSince: string | null;
+}
+
+/** Piano di effort di un'assegnazione (`plannedEffortDays` 0 o null rimuove il piano). */
+export interface EffortPlan {
+    plannedEffortDays: number | null;
+    effortStartDate: string | null;
+    effortEndDate: string | null;
+}
+
+/** Esito della (ri)distribuzione dell'effort di un'assegnazione (`/api/staffing?action=effort`). */
+export interface EffortDistributionResult extends EffortPlan {
+    assignmentId: string;
+    /** Finestra le cui allocazioni sono state sostituite (unione tra vecchia e nuova finestra del piano). */
+    clearedStartDate: string | null;
+    clearedEndDate: string | null;
+    /** Nuove allocazioni dell'assegnazione nella finestra ripulita. */
+    allocations: Record<string, number>;
+    distributedDays: number;
+    shortfallDays: number;
+    /** Violazioni delle regole di staffing (avvisi, o motivo del rifiuto 409 se almeno una è BLOCK). */
+    ruleViolations?: StaffingRuleViolation[];
+}
+
+/** Effetti di una scrittura di assenza (`/api/resources?entity=leaves`): piani di effort ridistribuiti nella stessa transazione. */
+export interface LeaveWriteEffects {
+    effortRedistribution?: EffortDistributionResult[];
+}
+
+/** Trasferimento delle allocazioni future da una risorsa a un'altra (`/api/staffing?action=reassign`). */
+export interface ReassignmentRequest {
+    sourceResourceId: string;
+    targetResourceId: string;
+    /** Prima data (inclusa) da cui le allocazioni passano alla risorsa di destinazione. */
+    cutoverDate: string;
+    /** Progetti da trasferire; assente o vuoto = tutti i progetti della risorsa di origine. */
+    projectIds?: string[];
+}
+
+/** Trasferimento di un singolo progetto all'interno di una riassegnazione. */
+export interface ReassignmentMove {
+    projectId: string;
+    sourceAssignmentId: string;
+    /** Assegnazione della risorsa di destinazione (`new:<projectId>` finché non viene creata). */
+    targetAssignmentId: string;
+    createsAssignment: boolean;
+    bookingStatus: BookingStatus;
+    /** Giornate con allocazione trasferite e relativo effort in giorni/uomo. */
+    days: number;
+    effortDays: number;
+    firstDate: string;
+    lastDate: string;
+}
+
+export interface ReassignmentPlan {
+    moves: ReassignmentMove[];
+    /** Aggiornamenti (percentuale 0) che svuotano la risorsa di origine dal cutover. */
+    sourceUpdates: AllocationUpdate[];
+    /** Aggiornamenti della destinazione: allocazione trasferita sommata a quella già presente. */
+    targetUpdates: AllocationUpdate[];
+    /** Sovrallocazioni della risorsa di destinazione risultanti dal trasferimento. */
+    conflicts: AllocationConflict[];
+}
+
+/** Risposta dell'anteprima (`dryRun`) e dell'esecuzione di una riassegnazione (anche nel body del 409). */
+export interface ReassignmentResult extends ReassignmentPlan {
+    success: boolean;
+    dryRun: boolean;
+    policy: OverbookingPolicy;
+    /** Assegnazioni create per la risorsa di destinazione (vuoto in anteprima). */
+    createdAssignments: Assignment[];
+    /** Violazioni delle regole di staffing (avvisi, o motivo del rifiuto 409 se almeno una è BLOCK). */
+    ruleViolations?: StaffingRuleViolation[];
+}
+
+/** Conversione di un segnaposto di ruolo in assegnazione nominativa (anche nel body del 409). */
+export interface PlaceholderConversionResult {
+    success: boolean;
+    policy: OverbookingPolicy;
+    /** Assegnazione nominativa risultante: il segnaposto stesso o quella già esistente della risorsa sul progetto. */
+    assignment: Assignment;
+    /** Id del segnaposto eliminato perché confluito in un'assegnazione esistente, altrimenti null. */
+    removedAssignmentId: string | null;
+    /** Allocazioni dell'assegnazione risultante sulle giornate trasferite dal segnaposto. */
+    updates: AllocationUpdate[];
+    conflicts: AllocationConflict[];
+    /** Violazioni delle regole di staffing (avvisi, o motivo del rifiuto 409 se almeno una è BLOCK). */
+    ruleViolations?: StaffingRuleViolation[];
+}
+
 export interface AllocationsContextType {
     allocations: Allocation;
     updateAllocation: (assignmentId: string, date: string, percentage: number) => Promise<void>;
     bulkUpdateAllocations: (assignmentId: string, startDate: string, endDate: string, percentage: number) => Promise<void>;
     /** Applica un insieme arbitrario di aggiornamenti puntuali (usato per il ripristino/undo). */
-    applyAllocationUpdates: (updates: AllocationUpdate[]) => Promise<void>;
+    applyAllocationUpdates: (updates: AllocationUpdate[]) => Promise<boolean>;
+    /** Ultimi conflitti di overbooking segnalati dal server (rifiutati o accettati con avviso). */
+    allocationConflicts: AllocationConflict[];
+    dismissAllocationConflicts: () => void;
+    /** Ultime violazioni delle regole di staffing segnalate dal server (rifiutate o accettate con avviso). */
+    staffingRuleViolations: StaffingRuleViolation[];
+    dismissStaffingRuleViolations: () => void;
+    /** Proposte di modifica in attesa di approvazione (mostrate tratteggiate in griglia). */
+    allocationProposals: AllocationProposal[];
+    reviewAllocationProposals: (ids: string[], status: 'APPROVED' | 'REJECTED', reviewNotes?: string) => Promise<boolean>;
+    /** Carica (una sola volta) le allocazioni dell'intervallo, arrotondato ai mesi, se non già caricate. */
+    ensureAllocationWindow: (start: string, end: string) => Promise<void>;
 }
 
 export interface SimulationResource extends Resource {
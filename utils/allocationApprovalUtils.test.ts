@@ -0,0 +1,71 @@
+/**
+ * @file allocationApprovalUtils.test.ts
+ * @description Test del workflow di approvazione delle allocazioni: linea manageriale,
+ * suddivisione dei batch tra scritture dirette e proposte, diritto di revisione.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    canReviewAllocationProposal,
+    getManagementLine,
+    getResourceApprovers,
+    isWithinManagementLine,
+    splitAllocationUpdates,
+    type ApprovalUser,
+} from './allocationApprovalUtils';
+
+// director ← rm (resource manager) ← dev; pm è un project manager fuori linea
+const users: ApprovalUser[] = [
+    { id: 'admin', role: 'ADMIN' },
+    { id: 'director', role: 'MANAGER', resourceId: 'r-director', managerIds: [] },
+    { id: 'rm', role: 'MANAGER', resourceId: 'r-rm', managerIds: ['director'] },
+    { id: 'dev', role: 'SIMPLE', resourceId: 'r-dev', managerIds: ['rm'] },
+    { id: 'pm', role: 'MANAGER', resourceId: 'r-pm', managerIds: ['director'] },
+];
+
+describe('linea manageriale', () => {
+    it('risale managerIds in modo transitivo e tollera i cicli', () => {
+        expect(getManagementLine('dev', users)).toEqual(new Set(['rm', 'director']));
+        const cyclic: ApprovalUser[] = [
+            { id: 'a', role: 'MANAGER', managerIds: ['b'] },
+            { id: 'b', role: 'MANAGER', managerIds: ['a'] },
+        ];
+        expect(getManagementLine('a', cyclic)).toEqual(new Set(['b']));
+    });
+
+    it('notifica solo i manager diretti della risorsa', () => {
+        expect(getResourceApprovers('r-dev', users).map(u => u.id)).toEqual(['rm']);
+        expect(getResourceApprovers('r-unknown', users)).toEqual([]);
+    });
+
+    it('consente la scrittura diretta ad ADMIN, alla linea e sulle risorse senza manager', () => {
+        expect(isWithinManagementLine(users[0], 'r-dev', users)).toBe(true);
+        expect(isWithinManagementLine(users[2], 'r-dev', users)).toBe(true);
+        expect(isWithinManagementLine(users[1], 'r-dev', users)).toBe(true);
+        expect(isWithinManagementLine(users[4], 'r-dev', users)).toBe(false);
+        expect(isWithinManagementLine(users[3], 'r-dev', users)).toBe(false);
+        expect(isWithinManagementLine(users[4], 'r-director', users)).toBe(true);
+        expect(isWithinManagementLine(users[4], 'r-unknown', users)).toBe(true);
+    });
+
+    it('riserva la revisione ad ADMIN e ai manager della risorsa', () => {
+        expect(canReviewAllocationProposal(users[2], 'r-dev', users)).toBe(true);
+        expect(canReviewAllocationProposal(users[1], 'r-dev', users)).toBe(true);
+        expect(canReviewAllocationProposal(users[0], 'r-dev', users)).toBe(true);
+        expect(canReviewAllocationProposal(users[4], 'r-dev', users)).toBe(false);
+        expect(canReviewAllocationProposal(users[3], 'r-dev', users)).toBe(false);
+    });
+});
+
+describe('splitAllocationUpdates', () => {
+    it('trasforma in proposte le giornate delle risorse fuori linea, inclusa la propria', () => {
+        const assignmentResources = new Map([['a-dev', 'r-dev'], ['a-pm', 'r-pm']]);
+        const updates = [
+            { assignmentId: 'a-dev', date: '2024-05-13', percentage: 50 },
+            { assignmentId: 'a-pm', date: '2024-05-13', percentage: 100 },
+            { assignmentId: 'a-missing', date: '2024-05-13', percentage: 20 },
+        ];
+        const { direct, proposed } = splitAllocationUpdates(updates, assignmentResources, users[4], users);
+        expect(direct.map(u => u.assignmentId)).toEqual(['a-missing']);
+        expect(proposed.map(u => u.assignmentId)).toEqual(['a-dev', 'a-pm']);
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * @file allocationApprovalUtils.ts
+ * @description Utility pure per il workflow di approvazione delle allocazioni: linea manageriale
+ * (catena di `AppUser.managerIds`), suddivisione di un batch tra scritture dirette e proposte,
+ * diritto di revisione delle proposte.
+ *
+ * Usate da `POST /api/staffing?action=allocation|proposal`, da `api/data.ts` (proposte in
+ * attesa) e dal Mock Engine locale.
+ */
+import type { AllocationUpdate } from '../types';
+
+/** Chiave `app_config` della modalità di approvazione (OFF | REQUIRED). */
+export const ALLOCATION_APPROVAL_MODE_CONFIG_KEY = 'allocation_approval_mode';
+
+/** Sottoinsieme di `AppUser` necessario alla linea manageriale (anche l'utente del token JWT). */
+export interface ApprovalUser {
+    id: string;
+    role: string;
+    resourceId?: string | null;
+    managerIds?: string[] | null;
+}
+
+/** Utente applicativo collegato alla risorsa (il primo, se più d'uno). */
+const findResourceUser = (resourceId: string, users: ApprovalUser[]): ApprovalUser | undefined =>
+    users.find(u => u.resourceId === resourceId);
+
+/** Manager diretti e indiretti di un utente (risalendo `managerIds`), escluso l'utente stesso. */
+export const getManagementLine = (userId: string, users: ApprovalUser[]): Set<string> => {
+    const byId = new Map(users.map(u => [u.id, u]));
+    const line = new Set<string>();
+    const queue = [...(byId.get(userId)?.managerIds || [])];
+    while (queue.length > 0) {
+        const managerId = queue.shift()!;
+        if (managerId === userId || line.has(managerId)) continue;
+        line.add(managerId);
+        queue.push(...(byId.get(managerId)?.managerIds || []));
+    }
+    return line;
+};
+
+/**
+ * Manager a cui notificare le proposte su una risorsa: i manager diretti dell'utente collegato.
+ * Vuoto se la risorsa non ha un utente o l'utente non ha manager.
+ */
+export const getResourceApprovers = (resourceId: string, users: ApprovalUser[]): ApprovalUser[] => {
+    const target = findResourceUser(resourceId, users);
+    if (!target) return [];
+    const byId = new Map(users.map(u => [u.id, u]));
+    return (target.managerIds || []).map(id => byId.get(id)).filter((u): u is ApprovalUser => !!u);
+};
+
+/**
+ * True se l'editor può scrivere direttamente le allocazioni della risorsa: è ADMIN, è nella linea
+ * manageriale dell'utente collegato, oppure la risorsa non ha nessun manager che possa approvare.
+ */
+export const isWithinManagementLine = (editor: ApprovalUser, resourceId: string, users: ApprovalUser[]): boolean => {
+    if (editor.role === 'ADMIN') return true;
+    const target = findResourceUser(resourceId, users);
+    if (!target) return true;
+    const line = getManagementLine(target.id, users);
+    return line.size === 0 || line.has(editor.id);
+};
+
+/** Solo ADMIN e i manager nella linea della risorsa possono accettare o rifiutare una proposta. */
+export const canReviewAllocationProposal = (reviewer: ApprovalUser, resourceId: string, users: ApprovalUser[]): boolean => {
+    if (reviewer.role === 'ADMIN') return true;
+    const target = findResourceUser(resourceId, users);
+    return !!target && getManagementLine(target.id, users).has(reviewer.id);
+};
+
+/**
+ * Suddivide un batch di allocazioni tra scritture dirette e proposte, in base alla risorsa
+ * di ciascuna assegnazione. Le assegnazioni sconosciute restano dirette (le gestisce il DB).
+ */
+export const splitAllocationUpdates = (
+    updates: AllocationUpdate[],
+    assignmentResourceIds: Map<string, string>,
+    editor: ApprovalUser,
+    users: ApprovalUser[]
+): { direct: AllocationUpdate[]; proposed: AllocationUpdate[] } => {
+    const decisions = new Map<string, boolean>();
+    const direct: AllocationUpdate[] = [];
+    const proposed: AllocationUpdate[] = [];
+    for (const update of updates) {
+        const resourceId = assignmentResourceIds.get(update.assignmentId);
+        if (!resourceId) {
+            direct.push(update);
+            continue;
+        }
+        if (!decisions.has(resourceId)) decisions.set(resourceId, isWithinManagementLine(editor, resourceId, users));
+        (decisions.get(resourceId) ? direct : proposed).push(update);
+    }
+    return { direct, proposed };
+};
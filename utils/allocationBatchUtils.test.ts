@@ -0,0 +1,77 @@
+/**
+ * @file allocationBatchUtils.test.ts
+ * @description Test dei batch di scrittura allocazioni: validazione dell'intero payload,
+ * deduplica delle celle ripetute, suddivisione upsert/delete ed esiti per riga.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    isValidIsoDate,
+    partitionAllocationWrites,
+    resolveAllocationOutcomes,
+    validateAllocationBatch,
+} from './allocationBatchUtils';
+
+const assignments = [
+    { id: 'a1', isEditable: true },
+    { id: 'a2', isEditable: true },
+    { id: 'a-closed', isEditable: false },
+];
+
+describe('validateAllocationBatch', () => {
+    it('segnala per riga date, percentuali e assegnazioni non valide', () => {
+        const rows = [
+            { assignmentId: 'a1', date: '2024-05-13', percentage: 50 },
+            { assignmentId: 'a1', date: '2024-02-30', percentage: 50 },
+            { assignmentId: 'a1', date: '2024-05-14', percentage: 120 },
+            { assignmentId: 'a1', date: '2024-05-15', percentage: 12.5 },
+            { assignmentId: 'missing', date: '2024-05-13', percentage: 50 },
+            { assignmentId: 'a-closed', date: '2024-05-13', percentage: 50 },
+            null,
+        ];
+        const { outcomes, invalidCount, updates } = validateAllocationBatch(rows, assignments);
+        expect(invalidCount).toBe(6);
+        expect(outcomes.map(o => o.status)).toEqual(['APPLIED', 'INVALID', 'INVALID', 'INVALID', 'INVALID', 'INVALID', 'INVALID']);
+        expect(outcomes[1].error).toMatch(/Data/);
+        expect(outcomes[2].error).toMatch(/percentuale/);
+        expect(outcomes[4].error).toMatch(/inesistente/);
+        expect(outcomes[5].error).toMatch(/modificabile/);
+        expect(updates).toEqual([{ assignmentId: 'a1', date: '2024-05-13', percentage: 50 }]);
+    });
+
+    it('riduce le celle ripetute all\'ultima riga', () => {
+        const rows = [
+            { assignmentId: 'a1', date: '2024-05-13', percentage: 50 },
+            { assignmentId: 'a2', date: '2024-05-13', percentage: 20 },
+            { assignmentId: 'a1', date: '2024-05-13', percentage: 0 },
+        ];
+        const { outcomes, updates } = validateAllocationBatch(rows, assignments);
+        expect(outcomes.map(o => o.status)).toEqual(['SUPERSEDED', 'APPLIED', 'APPLIED']);
+        expect(updates).toEqual([rows[1], rows[2]]);
+        expect(isValidIsoDate('2024-02-29')).toBe(true);
+        expect(isValidIsoDate('2023-02-29')).toBe(false);
+    });
+});
+
+describe('scrittura set-based ed esiti', () => {
+    it('separa upsert e delete con una riga per cella', () => {
+        const { upserts, deletes } = partitionAllocationWrites([
+            { assignmentId: 'a1', date: '2024-05-13', percentage: 50 },
+            { assignmentId: 'a1', date: '2024-05-14', percentage: 0 },
+            { assignmentId: 'a1', date: '2024-05-13', percentage: 80 },
+        ]);
+        expect(upserts).toEqual([{ assignmentId: 'a1', date: '2024-05-13', percentage: 80 }]);
+        expect(deletes).toEqual([{ assignmentId: 'a1', date: '2024-05-14', percentage: 0 }]);
+    });
+
+    it('marca come proposte o rifiutate le righe non scritte', () => {
+        const rows = [
+            { assignmentId: 'a1', date: '2024-05-13', percentage: 50 },
+            { assignmentId: 'a2', date: '2024-05-13', percentage: 20 },
+        ];
+        const { outcomes } = validateAllocationBatch(rows, assignments);
+        expect(resolveAllocationOutcomes(outcomes, rows, { proposed: [rows[1]] }).map(o => o.status))
+            .toEqual(['APPLIED', 'PROPOSED']);
+        expect(resolveAllocationOutcomes(outcomes, rows, { rejected: true }).map(o => o.status))
+            .toEqual(['REJECTED', 'REJECTED']);
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * @file allocationBatchUtils.ts
+ * @description Utility pure per i batch di scrittura allocazioni: validazione dell'intero payload
+ * (date, percentuali 0–100, assegnazioni esistenti e modificabili), deduplica delle celle ripetute
+ * (l'ultima riga vince), suddivisione tra upsert e delete ed esiti per riga.
+ *
+ * Usate da `POST /api/staffing?action=allocation` e dal Mock Engine locale.
+ */
+import type { AllocationRowOutcome, AllocationRowStatus, AllocationUpdate } from '../types';
+
+/** Header con cui il client identifica un batch: i tentativi con la stessa chiave non vengono riapplicati. */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+/** Righe massime per batch (6 mesi di giorni lavorativi su 150 assegnazioni). */
+export const MAX_ALLOCATION_BATCH_SIZE = 20000;
+
+/** Assegnazione referenziata dal batch; `isEditable` è false per i progetti non visibili in Staffing. */
+export interface AllocationBatchAssignment {
+    id: string;
+    isEditable: boolean;
+}
+
+export interface AllocationBatchValidation {
+    /** Aggiornamenti da scrivere: solo righe valide, una per cella. */
+    updates: AllocationUpdate[];
+    /** Esito per riga: `APPLIED` è provvisorio finché la scrittura non va a buon fine. */
+    outcomes: AllocationRowOutcome[];
+    invalidCount: number;
+}
+
+const cellKey = (u: Pick<AllocationUpdate, 'assignmentId' | 'date'>) => `${u.assignmentId}|${u.date}`;
+
+/** Data di calendario reale in formato YYYY-MM-DD (rifiuta ad es. 2024-02-30). */
+export const isValidIsoDate = (value: unknown): value is string => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+const validateRow = (row: unknown, assignmentsById: Map<string, AllocationBatchAssignment>): string | null => {
+    if (!row || typeof row !== 'object') return 'Riga non valida.';
+    const { assignmentId, date, percentage } = row as Record<string, unknown>;
+    if (typeof assignmentId !== 'string' || !assignmentId) return 'Assegnazione mancante.';
+    if (!isValidIsoDate(date)) return 'Data non valida (formato YYYY-MM-DD).';
+    if (typeof percentage !== 'number' || !Number.isInteger(percentage) || percentage < 0 || percentage > 100) {
+        return 'La percentuale deve essere un intero tra 0 e 100.';
+    }
+    const assignment = assignmentsById.get(assignmentId);
+    if (!assignment) return 'Assegnazione inesistente.';
+    if (!assignment.isEditable) return 'Il progetto dell\'assegnazione non è modificabile in Staffing.';
+    return null;
+};
+
+/**
+ * Valida tutte le righe del batch contro le assegnazioni referenziate. Le celle ripetute
+ * vengono ridotte all'ultima riga (le precedenti risultano `SUPERSEDED`).
+ */
+export const validateAllocationBatch = (
+    rows: unknown[],
+    assignments: AllocationBatchAssignment[]
+): AllocationBatchValidation => {
+    const assignmentsById = new Map(assignments.map(a => [a.id, a]));
+    const outcomes: AllocationRowOutcome[] = [];
+    const lastIndexByCell = new Map<string, number>();
+    let invalidCount = 0;
+
+    rows.forEach((row, index) => {
+        const error = validateRow(row, assignmentsById);
+        if (error) {
+            invalidCount++;
+            outcomes.push({ index, status: 'INVALID', error });
+            return;
+        }
+        const key = cellKey(row as AllocationUpdate);
+        const previous = lastIndexByCell.get(key);
+        if (previous !== undefined) outcomes[previous] = { index: previous, status: 'SUPERSEDED' };
+        lastIndexByCell.set(key, index);
+        outcomes.push({ index, status: 'APPLIED' });
+    });
+
+    const updates = Array.from(lastIndexByCell.values())
+        .sort((a, b) => a - b)
+        .map(index => {
+            const { assignmentId, date, percentage } = rows[index] as AllocationUpdate;
+            return { assignmentId, date, percentage };
+        });
+    return { updates, outcomes, invalidCount };
+};
+
+/** Riduce gli aggiornamenti a uno per cella (l'ultimo vince), come richiesto dall'upsert set-based. */
+export const dedupeAllocationUpdates = (updates: AllocationUpdate[]): AllocationUpdate[] => {
+    const byCell = new Map<string, AllocationUpdate>();
+    for (const update of updates) {
+        const key = cellKey(update);
+        byCell.delete(key);
+        byCell.set(key, update);
+    }
+    return Array.from(byCell.values());
+};
+
+/** Separa le celle da scrivere (percentuale > 0) da quelle da svuotare (0). */
+export const partitionAllocationWrites = (updates: AllocationUpdate[]): { upserts: AllocationUpdate[]; deletes: AllocationUpdate[] } => {
+    const writes = dedupeAllocationUpdates(updates);
+    return {
+        upserts: writes.filter(u => u.percentage > 0),
+        deletes: writes.filter(u => u.percentage === 0),
+    };
+};
+
+/** Riporta sugli esiti le righe diventate proposte e quelle non scritte per rifiuto del batch. */
+export const resolveAllocationOutcomes = (
+    outcomes: AllocationRowOutcome[],
+    rows: AllocationUpdate[],
+    resolution: { proposed?: AllocationUpdate[]; rejected?: boolean }
+): AllocationRowOutcome[] => {
+    const proposed = new Set((resolution.proposed || []).map(cellKey));
+    return outcomes.map(outcome => {
+        if (outcome.status !== 'APPLIED') return outcome;
+        let status: AllocationRowStatus = 'APPLIED';
+        if (resolution.rejected) status = 'REJECTED';
+        else if (proposed.has(cellKey(rows[outcome.index]))) status = 'PROPOSED';
+        return status === 'APPLIED' ? outcome : { index: outcome.index, status };
+    });
+};
@@ -0,0 +1,46 @@
+/**
+ * @file allocationChangeUtils.test.ts
+ * @description Test dello storico di cella delle allocazioni: accorpamento delle scritture
+ * della stessa transazione e ricostruzione delle allocazioni a un istante passato.
+ */
+import { describe, it, expect } from 'vitest';
+import { collapseAllocationChanges, revertAllocationChanges, type AllocationChangeRow } from './allocationChangeUtils';
+
+const row = (seq: number, date: string, oldPercentage: number, newPercentage: number, changedAt: string, changedBy: string | null = 'mrossi'): AllocationChangeRow =>
+    ({ seq, assignmentId: 'a1', date, oldPercentage, newPercentage, changedAt, changedBy });
+
+describe('collapseAllocationChanges', () => {
+    it('accorpa le scritture della stessa transazione e omette le modifiche nette nulle', () => {
+        const rows = [
+            row(1, '2024-06-03', 0, 50, '2024-06-01T09:00:00.000Z'),
+            // ridistribuzione effort: delete + insert nella stessa transazione
+            row(2, '2024-06-03', 50, 0, '2024-06-02T10:00:00.000Z', null),
+            row(3, '2024-06-03', 0, 80, '2024-06-02T10:00:00.000Z', null),
+            // delete + reinsert dello stesso valore
+            row(4, '2024-06-03', 80, 0, '2024-06-03T08:00:00.000Z'),
+            row(5, '2024-06-03', 0, 80, '2024-06-03T08:00:00.000Z'),
+        ];
+        expect(collapseAllocationChanges(rows)).toEqual([
+            { oldPercentage: 50, newPercentage: 80, changedAt: '2024-06-02T10:00:00.000Z', changedBy: null },
+            { oldPercentage: 0, newPercentage: 50, changedAt: '2024-06-01T09:00:00.000Z', changedBy: 'mrossi' },
+        ]);
+    });
+});
+
+describe('revertAllocationChanges', () => {
+    it('riporta ogni cella al valore precedente alla prima modifica successiva all\'istante', () => {
+        const current = { a1: { '2024-06-03': 80, '2024-06-04': 100 }, a2: { '2024-06-03': 20 } };
+        const changesAfter = [
+            row(7, '2024-06-03', 50, 80, '2024-06-05T08:00:00.000Z'),
+            row(6, '2024-06-03', 30, 50, '2024-06-04T08:00:00.000Z'),
+            row(8, '2024-06-04', 0, 100, '2024-06-05T08:00:00.000Z'),
+            row(9, '2024-06-05', 40, 0, '2024-06-05T08:00:00.000Z'),
+        ];
+        expect(revertAllocationChanges(current, changesAfter)).toEqual({
+            a1: { '2024-06-03': 30, '2024-06-05': 40 },
+            a2: { '2024-06-03': 20 },
+        });
+        expect(current.a1['2024-06-03']).toBe(80);
+        expect(revertAllocationChanges({ a1: { '2024-06-04': 100 } }, [row(8, '2024-06-04', 0, 100, '2024-06-05T08:00:00.000Z')])).toEqual({});
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * @file allocationChangeUtils.ts
+ * @description Utility pure per lo storico delle modifiche di cella delle allocazioni:
+ * accorpamento delle scritture della stessa transazione (es. delete + insert della
+ * ridistribuzione effort) e ricostruzione delle allocazioni a un istante passato.
+ *
+ * Usate da `GET /api/staffing?action=changes` e dal Mock Engine locale.
+ */
+import type { Allocation, AllocationChangeEntry } from '../types';
+
+/** Riga di `allocation_changes`: `seq` ordina le scritture, `changedAt` è l'istante della transazione. */
+export interface AllocationChangeRow extends AllocationChangeEntry {
+    seq: number;
+    assignmentId: string;
+    date: string;
+}
+
+/**
+ * Storico di una cella dal più recente: le righe con lo stesso `changedAt` (stessa transazione)
+ * diventano una sola modifica dal primo valore precedente all'ultimo valore scritto; le modifiche
+ * nette nulle vengono omesse.
+ */
+export const collapseAllocationChanges = (rows: AllocationChangeRow[]): AllocationChangeEntry[] => {
+    const entries: AllocationChangeEntry[] = [];
+    let current: AllocationChangeEntry | null = null;
+    for (const row of [...rows].sort((a, b) => a.seq - b.seq)) {
+        if (current && current.changedAt === row.changedAt) {
+            current.newPercentage = row.newPercentage;
+            current.changedBy = row.changedBy ?? current.changedBy;
+            continue;
+        }
+        if (current) entries.push(current);
+        current = {
+            oldPercentage: row.oldPercentage,
+            newPercentage: row.newPercentage,
+            changedAt: row.changedAt,
+            changedBy: row.changedBy,
+        };
+    }
+    if (current) entries.push(current);
+    return entries.filter(e => e.oldPercentage !== e.newPercentage).reverse();
+};
+
+/**
+ * Allocazioni com'erano prima delle modifiche indicate (tutte successive all'istante richiesto):
+ * ogni cella modificata riprende il valore precedente alla sua prima modifica.
+ */
+export const revertAllocationChanges = (current: Allocation, changesAfter: AllocationChangeRow[]): Allocation => {
+    const firstChange = new Map<string, AllocationChangeRow>();
+    for (const row of [...changesAfter].sort((a, b) => a.seq - b.seq)) {
+        const key = `${row.assignmentId}|${row.date}`;
+        if (!firstChange.has(key)) firstChange.set(key, row);
+    }
+    const next: Allocation = {};
+    for (const [assignmentId, days] of Object.entries(current)) next[assignmentId] = { ...days };
+    for (const { assignmentId, date, oldPercentage } of firstChange.values()) {
+        if (oldPercentage > 0) {
+            next[assignmentId] = { ...(next[assignmentId] || {}), [date]: oldPercentage };
+        } else if (next[assignmentId]) {
+            delete next[assignmentId][date];
+        }
+    }
+    for (const assignmentId of Object.keys(next)) {
+        if (Object.keys(next[assignmentId]).length === 0) delete next[assignmentId];
+    }
+    return next;
+};
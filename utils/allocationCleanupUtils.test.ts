@@ -0,0 +1,75 @@
+/**
+ * @file allocationCleanupUtils.test.ts
+ * @description Test della pulizia delle allocazioni oltre dimissioni / fine progetto:
+ * rilevamento del nuovo limite, riepilogo dei g/u rimossi e potatura della mappa locale.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    buildAllocationCleanupSummary,
+    collectCleanupRows,
+    getProjectCleanupBoundary,
+    getResourceCleanupBoundary,
+    pruneAllocationsAfter,
+} from './allocationCleanupUtils';
+
+const assignments = [
+    { id: 'a1', resourceId: 'r1', projectId: 'p1' },
+    { id: 'a2', resourceId: 'r1', projectId: 'p2' },
+    { id: 'b1', resourceId: 'r2', projectId: 'p1' },
+];
+const allocations = {
+    a1: { '2024-06-10': 100, '2024-06-11': 50, '2024-06-12': 50 },
+    a2: { '2024-06-12': 30 },
+    b1: { '2024-06-11': 100, '2024-06-12': 0 },
+};
+
+describe('getResourceCleanupBoundary', () => {
+    const today = '2024-06-01';
+    it('usa il nuovo ultimo giorno solo se impostato o anticipato', () => {
+        expect(getResourceCleanupBoundary({ resigned: false, lastDayOfWork: null }, { resigned: true, lastDayOfWork: '2024-06-30' }, today)).toBe('2024-06-30');
+        expect(getResourceCleanupBoundary({ resigned: true, lastDayOfWork: '2024-07-31' }, { resigned: true, lastDayOfWork: '2024-06-30' }, today)).toBe('2024-06-30');
+        expect(getResourceCleanupBoundary({ resigned: true, lastDayOfWork: '2024-06-30' }, { resigned: true, lastDayOfWork: '2024-07-31' }, today)).toBeNull();
+    });
+
+    it('senza ultimo giorno, le dimissioni valgono da oggi', () => {
+        expect(getResourceCleanupBoundary({ resigned: false, lastDayOfWork: null }, { resigned: true, lastDayOfWork: null }, today)).toBe(today);
+        expect(getResourceCleanupBoundary({ resigned: true, lastDayOfWork: null }, { resigned: true, lastDayOfWork: null }, today)).toBeNull();
+    });
+});
+
+describe('getProjectCleanupBoundary', () => {
+    it('rileva solo una data di fine impostata o anticipata', () => {
+        expect(getProjectCleanupBoundary({ endDate: '2024-12-31' }, { endDate: '2024-09-30' })).toBe('2024-09-30');
+        expect(getProjectCleanupBoundary({ endDate: null }, { endDate: '2024-09-30' })).toBe('2024-09-30');
+        expect(getProjectCleanupBoundary({ endDate: '2024-09-30' }, { endDate: '2024-12-31' })).toBeNull();
+        expect(getProjectCleanupBoundary({ endDate: '2024-09-30' }, { endDate: null })).toBeNull();
+    });
+});
+
+describe('buildAllocationCleanupSummary / collectCleanupRows', () => {
+    it('riepiloga per progetto le allocazioni successive al limite della risorsa', () => {
+        const rows = collectCleanupRows('resource', 'r1', '2024-06-10', assignments, allocations);
+        const summary = buildAllocationCleanupSummary('resource', 'r1', '2024-06-10', rows, false);
+        expect(summary).toEqual({
+            scope: 'resource', entityId: 'r1', boundaryDate: '2024-06-10', applied: false,
+            assignmentIds: ['a1', 'a2'], removedAllocations: 3, removedPersonDays: 1.3,
+            projects: [{ projectId: 'p1', removedPersonDays: 1 }, { projectId: 'p2', removedPersonDays: 0.3 }],
+        });
+    });
+
+    it('filtra per progetto e ignora le celle a zero; nessuna allocazione → null', () => {
+        const rows = collectCleanupRows('project', 'p1', '2024-06-11', assignments, allocations);
+        expect(rows).toEqual([{ assignmentId: 'a1', projectId: 'p1', percentage: 50 }]);
+        expect(buildAllocationCleanupSummary('project', 'p1', '2024-06-12', [], true)).toBeNull();
+    });
+});
+
+describe('pruneAllocationsAfter', () => {
+    it('rimuove solo le date successive al limite delle assegnazioni indicate', () => {
+        const next = pruneAllocationsAfter(allocations, ['a1', 'b1'], '2024-06-11');
+        expect(next.a1).toEqual({ '2024-06-10': 100, '2024-06-11': 50 });
+        expect(next.b1).toEqual({ '2024-06-11': 100 });
+        expect(next.a2).toBe(allocations.a2);
+        expect(pruneAllocationsAfter(allocations, ['a2'], '2024-06-30')).toBe(allocations);
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * @file allocationCleanupUtils.ts
+ * @description Utility pure per la pulizia delle allocazioni "orfane": quando una risorsa
+ * si dimette o anticipa `lastDayOfWork`, o un progetto anticipa `endDate`, le allocazioni
+ * oltre il nuovo limite continuerebbero a gonfiare forecast e costi previsti.
+ *
+ * Usate dal PUT di `api/resources.ts`, da `POST /api/staffing?action=cleanup`, dal Mock
+ * Engine locale e dal coordinator client, che rileva le stesse variazioni sullo stato.
+ */
+import type { Allocation, AllocationCleanupScope, AllocationCleanupSummary, Assignment, Project, Resource } from '../types';
+
+/** Chiave `app_config` della policy di pulizia (ASK | AUTO). */
+export const ALLOCATION_CLEANUP_POLICY_CONFIG_KEY = 'allocation_cleanup_policy';
+
+const roundDays = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Nuovo limite delle allocazioni di una risorsa, se la modifica lo anticipa:
+ * `lastDayOfWork` impostato o anticipato, oppure dimissioni senza ultimo giorno (limite = oggi).
+ */
+export const getResourceCleanupBoundary = (
+    previous: Pick<Resource, 'resigned' | 'lastDayOfWork'> | null | undefined,
+    next: Pick<Resource, 'resigned' | 'lastDayOfWork'>,
+    today: string
+): string | null => {
+    if (next.lastDayOfWork) {
+        return !previous?.lastDayOfWork || next.lastDayOfWork < previous.lastDayOfWork ? next.lastDayOfWork : null;
+    }
+    return next.resigned && !previous?.resigned ? today : null;
+};
+
+/** Nuovo limite delle allocazioni di un progetto, se la data di fine viene impostata o anticipata. */
+export const getProjectCleanupBoundary = (
+    previous: Pick<Project, 'endDate'> | null | undefined,
+    next: Pick<Project, 'endDate'>
+): string | null =>
+    next.endDate && (!previous?.endDate || next.endDate < previous.endDate) ? next.endDate : null;
+
+export interface CleanupAllocationRow {
+    assignmentId: string;
+    projectId: string;
+    percentage: number;
+}
+
+/** Aggrega le allocazioni oltre il limite in un riepilogo; null se non ce ne sono. */
+export const buildAllocationCleanupSummary = (
+    scope: AllocationCleanupScope,
+    entityId: string,
+    boundaryDate: string,
+    rows: CleanupAllocationRow[],
+    applied: boolean
+): AllocationCleanupSummary | null => {
+    if (rows.length === 0) return null;
+    const assignmentIds = new Set<string>();
+    const byProject = new Map<string, number>();
+    let total = 0;
+    for (const row of rows) {
+        assignmentIds.add(row.assignmentId);
+        byProject.set(row.projectId, (byProject.get(row.projectId) || 0) + row.percentage);
+        total += row.percentage;
+    }
+    return {
+        scope,
+        entityId,
+        boundaryDate,
+        applied,
+        assignmentIds: Array.from(assignmentIds),
+        removedAllocations: rows.length,
+        removedPersonDays: roundDays(total / 100),
+        projects: Array.from(byProject.entries())
+            .map(([projectId, percentage]) => ({ projectId, removedPersonDays: roundDays(percentage / 100) }))
+            .sort((a, b) => b.removedPersonDays - a.removedPersonDays),
+    };
+};
+
+/** Righe da rimuovere calcolate sulla mappa locale delle allocazioni. */
+export const collectCleanupRows = (
+    scope: AllocationCleanupScope,
+    entityId: string,
+    boundaryDate: string,
+    assignments: Pick<Assignment, 'id' | 'resourceId' | 'projectId'>[],
+    allocations: Allocation
+): CleanupAllocationRow[] => {
+    const rows: CleanupAllocationRow[] = [];
+    for (const a of assignments) {
+        if (!a.id || (scope === 'resource' ? a.resourceId : a.projectId) !== entityId) continue;
+        for (const [date, percentage] of Object.entries(allocations[a.id] || {})) {
+            if (date > boundaryDate && percentage > 0) rows.push({ assignmentId: a.id, projectId: a.projectId, percentage });
+        }
+    }
+    return rows;
+};
+
+/** Rimuove dalla mappa locale le allocazioni delle assegnazioni indicate successive al limite. */
+export const pruneAllocationsAfter = (allocations: Allocation, assignmentIds: string[], boundaryDate: string): Allocation => {
+    let changed = false;
+    const next = { ...allocations };
+    for (const id of assignmentIds) {
+        const current = allocations[id];
+        if (!current) continue;
+        const kept = Object.entries(current).filter(([date]) => date <= boundaryDate);
+        if (kept.length === Object.keys(current).length) continue;
+        next[id] = Object.fromEntries(kept);
+        changed = true;
+    }
+    return changed ? next : allocations;
+};
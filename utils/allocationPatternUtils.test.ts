@@ -0,0 +1,81 @@
+/**
+ * @file allocationPatternUtils.test.ts
+ * @description Test dell'espansione e della validazione dei pattern di allocazione ricorrenti.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    describeAllocationPattern,
+    expandAllocationPattern,
+    mergePatternRange,
+    validateAllocationPattern,
+} from './allocationPatternUtils';
+import { buildHolidaySet } from './dateUtils';
+import type { AllocationPattern } from '../types';
+
+const weekly = (weekdayPercentages: number[], extra: Partial<AllocationPattern> = {}): AllocationPattern => ({
+    kind: 'WEEKLY', weekdayPercentages, anchorDate: '2024-06-03', startDate: '2024-06-03', endDate: '2024-06-30', ...extra,
+});
+
+const toMap = (updates: { date: string; percentage: number }[]) => Object.fromEntries(updates.map(u => [u.date, u.percentage]));
+
+describe('expandAllocationPattern', () => {
+    it('espande la maschera settimanale sui giorni lavorativi, azzerando i giorni esclusi', () => {
+        // lun 3 → dom 9 giugno 2024
+        const updates = expandAllocationPattern('a1', weekly([0, 100, 0, 100, 0]), '2024-06-03', '2024-06-09');
+        expect(toMap(updates)).toEqual({
+            '2024-06-03': 0, '2024-06-04': 100, '2024-06-05': 0, '2024-06-06': 100, '2024-06-07': 0,
+        });
+        expect(updates.every(u => u.assignmentId === 'a1')).toBe(true);
+    });
+
+    it('salta le festività della sede della risorsa', () => {
+        const holidaySet = buildHolidaySet([{ name: 'Patrono', date: '2024-06-04', type: 'LOCAL_HOLIDAY', location: 'Roma' }]);
+        const pattern = weekly([50, 50, 50, 0, 0]);
+        expect(expandAllocationPattern('a1', pattern, '2024-06-03', '2024-06-05', { holidaySet, location: 'Roma' }).map(u => u.date))
+            .toEqual(['2024-06-03', '2024-06-05']);
+        expect(expandAllocationPattern('a1', pattern, '2024-06-03', '2024-06-05', { holidaySet, location: 'Milano' })).toHaveLength(3);
+    });
+
+    it('alterna le settimane a partire da quella di riferimento, anche estendendo il periodo', () => {
+        const pattern = weekly([100, 0, 0, 0, 0], { kind: 'ALTERNATE_WEEKS', weekInterval: 2, anchorDate: '2024-06-05' });
+        const mondays = expandAllocationPattern('a1', pattern, '2024-06-03', '2024-07-01').filter(u => u.percentage > 0).map(u => u.date);
+        expect(mondays).toEqual(['2024-06-03', '2024-06-17', '2024-07-01']);
+        // Un'estensione che parte da una settimana "spenta" mantiene l'alternanza
+        expect(expandAllocationPattern('a1', pattern, '2024-06-24', '2024-07-01').filter(u => u.percentage > 0).map(u => u.date))
+            .toEqual(['2024-07-01']);
+    });
+
+    it('conta i primi giorni lavorativi dall\'inizio del mese anche se l\'intervallo parte dopo', () => {
+        const pattern: AllocationPattern = {
+            kind: 'MONTHLY_FIRST_DAYS', weekdayPercentages: [], monthlyFirstDays: 3, percentage: 80,
+            anchorDate: '2024-06-01', startDate: '2024-06-01', endDate: '2024-07-31',
+        };
+        // Giugno 2024: primi giorni lavorativi 3, 4, 5; luglio: 1, 2, 3
+        const allocated = expandAllocationPattern('a1', pattern, '2024-06-04', '2024-07-05').filter(u => u.percentage > 0);
+        expect(allocated.map(u => u.date)).toEqual(['2024-06-04', '2024-06-05', '2024-07-01', '2024-07-02', '2024-07-03']);
+        expect(allocated.every(u => u.percentage === 80)).toBe(true);
+    });
+});
+
+describe('validateAllocationPattern', () => {
+    it('accetta un pattern completo e segnala il primo vincolo violato', () => {
+        expect(validateAllocationPattern(weekly([0, 100, 0, 100, 0]))).toBeNull();
+        expect(validateAllocationPattern(weekly([0, 100, 0, 100]))).toMatch(/lunedì a venerdì/);
+        expect(validateAllocationPattern(weekly([0, 0, 0, 0, 0], { kind: 'ALTERNATE_WEEKS', weekInterval: 1 }))).toMatch(/cadenza/);
+        expect(validateAllocationPattern(weekly([0, 0, 0, 0, 0], { endDate: '2024-05-01' }))).toMatch(/antecedente/);
+        expect(validateAllocationPattern({ kind: 'DAILY' })).toMatch(/non valido/);
+    });
+});
+
+describe('mergePatternRange / describeAllocationPattern', () => {
+    it('allarga l\'intervallo complessivo senza spostare il riferimento', () => {
+        const merged = mergePatternRange(weekly([50, 50, 50, 0, 0]), '2024-07-01', '2024-07-31');
+        expect(merged).toMatchObject({ anchorDate: '2024-06-03', startDate: '2024-06-03', endDate: '2024-07-31' });
+    });
+
+    it('raggruppa i giorni con la stessa percentuale', () => {
+        expect(describeAllocationPattern(weekly([50, 50, 50, 0, 0]))).toBe('Lun, Mar, Mer 50%');
+        expect(describeAllocationPattern(weekly([0, 100, 0, 100, 0], { kind: 'ALTERNATE_WEEKS', weekInterval: 2 })))
+            .toBe('Mar, Gio 100% · una settimana su 2');
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @file allocationPatternUtils.ts
+ * @description Utility pure per i pattern di allocazione ricorrenti ("ogni martedì e
+ * giovedì", "50% lun–mer", "primi 3 giorni lavorativi del mese"): validazione,
+ * descrizione ed espansione in aggiornamenti giornalieri su un intervallo.
+ *
+ * Usate dalla griglia di Staffing per applicare il pattern e da `api/staffing.ts`
+ * per validarlo prima di salvarlo sull'assegnazione.
+ */
+import type { AllocationPattern, AllocationPatternKind, AllocationUpdate } from '../types';
+import { isHolidayInSet, isLocationWorkingWeekday, parseISODate, toISODateString, type HolidaySet } from './dateUtils.js';
+
+export const ALLOCATION_PATTERN_LABELS: Record<AllocationPatternKind, string> = {
+    WEEKLY: 'Settimanale',
+    ALTERNATE_WEEKS: 'Settimane alterne',
+    MONTHLY_FIRST_DAYS: 'Primi giorni del mese',
+};
+
+export const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mer', 'Gio', 'Ven'];
+
+const PATTERN_KINDS = Object.keys(ALLOCATION_PATTERN_LABELS) as AllocationPatternKind[];
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Limite di sicurezza sulla lunghezza dell'intervallo espanso (circa 5 anni). */
+const MAX_EXPANSION_DAYS = 1830;
+
+const isPercentage = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+const isIsoDate = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(parseISODate(value).getTime());
+
+/** Restituisce il messaggio d'errore del primo vincolo violato, o null se il pattern è valido. */
+export const validateAllocationPattern = (pattern: unknown): string | null => {
+    if (!pattern || typeof pattern !== 'object') return 'Pattern di allocazione mancante.';
+    const p = pattern as Partial<AllocationPattern>;
+    if (!p.kind || !PATTERN_KINDS.includes(p.kind)) return `Tipo di ricorrenza non valido: ${p.kind}.`;
+    if (!isIsoDate(p.anchorDate) || !isIsoDate(p.startDate) || !isIsoDate(p.endDate)) {
+        return 'Le date del pattern devono essere nel formato YYYY-MM-DD.';
+    }
+    if (p.startDate > p.endDate) return 'La data di fine non può essere antecedente alla data di inizio.';
+    if (p.kind === 'MONTHLY_FIRST_DAYS') {
+        if (!Number.isInteger(p.monthlyFirstDays) || p.monthlyFirstDays! < 1 || p.monthlyFirstDays! > 23) {
+            return 'Il numero di giorni lavorativi del mese deve essere compreso tra 1 e 23.';
+        }
+        if (!isPercentage(p.percentage)) return 'La percentuale deve essere compresa tra 0 e 100.';
+        return null;
+    }
+    if (!Array.isArray(p.weekdayPercentages) || p.weekdayPercentages.length !== 5 || !p.weekdayPercentages.every(isPercentage)) {
+        return 'Indicare una percentuale tra 0 e 100 per ogni giorno da lunedì a venerdì.';
+    }
+    if (p.kind === 'ALTERNATE_WEEKS' && (!Number.isInteger(p.weekInterval) || p.weekInterval! < 2 || p.weekInterval! > 8)) {
+        return 'La cadenza delle settimane alterne deve essere compresa tra 2 e 8.';
+    }
+    return null;
+};
+
+/** Lunedì (UTC) della settimana di una data. */
+const getWeekStart = (date: Date): number => {
+    const offset = (date.getUTCDay() + 6) % 7;
+    return date.getTime() - offset * DAY_MS;
+};
+
+/**
+ * Espande il pattern in un aggiornamento per ogni giorno lavorativo di [startDate, endDate]:
+ * i giorni esclusi dal pattern valgono 0 (l'allocazione esistente viene rimossa), così
+ * riapplicare il pattern riallinea sempre l'intervallo. Weekend e, se indicate, le
+ * festività della sede della risorsa vengono saltati (con il set di festività valgono la
+ * settimana lavorativa e le chiusure del calendario di sede); per `MONTHLY_FIRST_DAYS` i giorni
+ * lavorativi sono contati dall'inizio del mese anche se l'intervallo parte a metà mese.
+ */
+export const expandAllocationPattern = (
+    assignmentId: string,
+    pattern: AllocationPattern,
+    startDate: string,
+    endDate: string,
+    options: { holidaySet?: HolidaySet; location?: string | null } = {}
+): AllocationUpdate[] => {
+    const start = parseISODate(startDate);
+    const end = parseISODate(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start.getTime() > end.getTime()) return [];
+
+    const { holidaySet, location = null } = options;
+    const isWorkingDay = (date: Date) => {
+        if (!holidaySet) return date.getUTCDay() !== 0 && date.getUTCDay() !== 6;
+        return isLocationWorkingWeekday(date, location, holidaySet) && !isHolidayInSet(date, location, holidaySet);
+    };
+
+    const anchorWeek = getWeekStart(parseISODate(pattern.anchorDate));
+    const interval = pattern.weekInterval || 2;
+    const updates: AllocationUpdate[] = [];
+    // Per il pattern mensile si parte dal primo del mese per contare i giorni lavorativi
+    const curr = pattern.kind === 'MONTHLY_FIRST_DAYS'
+        ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1))
+        : new Date(start.getTime());
+    let month = -1;
+    let workingDayOfMonth = 0;
+
+    for (let i = 0; curr.getTime() <= end.getTime() && i < MAX_EXPANSION_DAYS + 31; i++) {
+        if (curr.getUTCMonth() !== month) {
+            month = curr.getUTCMonth();
+            workingDayOfMonth = 0;
+        }
+        if (isWorkingDay(curr)) {
+            workingDayOfMonth++;
+            if (curr.getTime() >= start.getTime()) {
+                let percentage: number;
+                if (pattern.kind === 'MONTHLY_FIRST_DAYS') {
+                    percentage = workingDayOfMonth <= (pattern.monthlyFirstDays || 0) ? pattern.percentage ?? 0 : 0;
+                } else {
+                    percentage = pattern.weekdayPercentages[curr.getUTCDay() - 1] ?? 0;
+                    if (pattern.kind === 'ALTERNATE_WEEKS') {
+                        const weekIndex = Math.round((getWeekStart(curr) - anchorWeek) / (7 * DAY_MS));
+                        if (((weekIndex % interval) + interval) % interval !== 0) percentage = 0;
+                    }
+                }
+                updates.push({ assignmentId, date: toISODateString(curr), percentage });
+            }
+        }
+        curr.setUTCDate(curr.getUTCDate() + 1);
+    }
+    return updates;
+};
+
+/** Pattern da salvare dopo un'applicazione: l'intervallo complessivo si allarga a quello applicato. */
+export const mergePatternRange = (pattern: AllocationPattern, startDate: string, endDate: string): AllocationPattern => ({
+    ...pattern,
+    startDate: pattern.startDate && pattern.startDate < startDate ? pattern.startDate : startDate,
+    endDate: pattern.endDate && pattern.endDate > endDate ? pattern.endDate : endDate,
+});
+
+/** Descrizione sintetica del pattern (es. "Mar, Gio 100% · una settimana su 2"). */
+export const describeAllocationPattern = (pattern: AllocationPattern): string => {
+    if (pattern.kind === 'MONTHLY_FIRST_DAYS') {
+        return `Primi ${pattern.monthlyFirstDays} gg lavorativi del mese al ${pattern.percentage ?? 0}%`;
+    }
+    // Raggruppa i giorni con la stessa percentuale: "Lun, Mar 50% · Gio 100%"
+    const groups = new Map<number, string[]>();
+    pattern.weekdayPercentages.forEach((percentage, i) => {
+        if (percentage > 0) groups.set(percentage, [...(groups.get(percentage) || []), WEEKDAY_LABELS[i]]);
+    });
+    const days = Array.from(groups.entries()).map(([percentage, labels]) => `${labels.join(', ')} ${percentage}%`).join(' · ') || 'Nessun giorno';
+    return pattern.kind === 'ALTERNATE_WEEKS' ? `${days} · una settimana su ${pattern.weekInterval || 2}` : days;
+};
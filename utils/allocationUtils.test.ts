@@ -4,7 +4,10 @@
  * dell'assegnazione massiva (R-A3).
  */
 import { describe, it, expect } from 'vitest';
-import { buildAllocationSnapshot, isProjectVisibleInStaffing, shouldShowAssignmentInStaffing } from './allocationUtils';
+import {
+    buildAllocationSnapshot, isProjectVisibleInStaffing, shouldShowAssignmentInStaffing,
+    getBookingStatus, matchesBookingFilter, splitDailyLoadByBooking,
+} from './allocationUtils';
 import type { Allocation } from '../types';
 
 describe('buildAllocationSnapshot (R-A3 undo)', () => {
@@ -96,3 +99,33 @@ describe('shouldShowAssignmentInStaffing', () => {
         expect(shouldShowAssignmentInStaffing(allocs, true)).toBe(true);
     });
 });
+
+describe('stato di prenotazione (confermata / provvisoria)', () => {
+    it('tratta le assegnazioni senza stato come confermate', () => {
+        expect(getBookingStatus({})).toBe('CONFIRMED');
+        expect(getBookingStatus(undefined)).toBe('CONFIRMED');
+        expect(getBookingStatus({ bookingStatus: 'TENTATIVE' })).toBe('TENTATIVE');
+    });
+
+    it('filtra per stato, con ALL che include tutto', () => {
+        expect(matchesBookingFilter({ bookingStatus: 'TENTATIVE' }, 'ALL')).toBe(true);
+        expect(matchesBookingFilter({ bookingStatus: 'TENTATIVE' }, 'CONFIRMED')).toBe(false);
+        expect(matchesBookingFilter({}, 'CONFIRMED')).toBe(true);
+        expect(matchesBookingFilter({}, 'TENTATIVE')).toBe(false);
+    });
+
+    it('separa il carico giornaliero confermato da quello provvisorio', () => {
+        const assignments = [
+            { id: 'a1' },
+            { id: 'a2', bookingStatus: 'CONFIRMED' as const },
+            { id: 'a3', bookingStatus: 'TENTATIVE' as const },
+        ];
+        const allocations: Allocation = {
+            a1: { '2024-06-03': 40 },
+            a2: { '2024-06-03': 20 },
+            a3: { '2024-06-03': 50, '2024-06-04': 30 },
+        };
+        expect(splitDailyLoadByBooking(assignments, allocations, '2024-06-03')).toEqual({ confirmed: 60, tentative: 50, total: 110 });
+        expect(splitDailyLoadByBooking(assignments, allocations, '2024-06-04')).toEqual({ confirmed: 0, tentative: 30, total: 30 });
+    });
+});
@@ -2,12 +2,57 @@
  * @file allocationUtils.ts
  * @description Utility pure per la gestione delle allocazioni della griglia di staffing.
  */
-import type { Allocation, AllocationUpdate, Project } from '../types';
+import type { Allocation, AllocationUpdate, Assignment, BookingStatus, Project } from '../types';
 import { parseISODate, toISODateString } from './dateUtils';
 
 /** Stato progetto che ne determina l'esclusione permanente dalla griglia di Staffing. */
 export const COMPLETED_PROJECT_STATUS = 'Completato';
 
+/** Filtro per stato di prenotazione usato da Forecasting, Dashboard e griglie. */
+export type BookingStatusFilter = 'ALL' | BookingStatus;
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+    CONFIRMED: 'Confermata',
+    TENTATIVE: 'Provvisoria',
+};
+
+export const BOOKING_STATUS_FILTER_OPTIONS: { value: BookingStatusFilter; label: string }[] = [
+    { value: 'ALL', label: 'Tutte' },
+    { value: 'CONFIRMED', label: 'Solo confermate' },
+    { value: 'TENTATIVE', label: 'Solo provvisorie' },
+];
+
+/** Le assegnazioni senza stato (dati storici) valgono come confermate. */
+export const getBookingStatus = (assignment: Pick<Assignment, 'bookingStatus'> | undefined | null): BookingStatus =>
+    assignment?.bookingStatus === 'TENTATIVE' ? 'TENTATIVE' : 'CONFIRMED';
+
+export const isTentativeAssignment = (assignment: Pick<Assignment, 'bookingStatus'> | undefined | null): boolean =>
+    getBookingStatus(assignment) === 'TENTATIVE';
+
+export const matchesBookingFilter = (
+    assignment: Pick<Assignment, 'bookingStatus'> | undefined | null,
+    filter: BookingStatusFilter
+): boolean => filter === 'ALL' || getBookingStatus(assignment) === filter;
+
+/**
+ * Carico giornaliero di un insieme di assegnazioni, separato tra quota confermata
+ * e quota provvisoria (il totale è la loro somma).
+ */
+export const splitDailyLoadByBooking = (
+    assignments: Pick<Assignment, 'id' | 'bookingStatus'>[],
+    allocations: Allocation,
+    date: string
+): { confirmed: number; tentative: number; total: number } => {
+    let confirmed = 0;
+    let tentative = 0;
+    for (const assignment of assignments) {
+        const value = allocations[assignment.id!]?.[date] || 0;
+        if (isTentativeAssignment(assignment)) tentative += value;
+        else confirmed += value;
+    }
+    return { confirmed, tentative, total: confirmed + tentative };
+};
+
 /**
  * I progetti "Completato" non devono mai comparire nella griglia di Staffing:
  * non hanno più bisogno di pianificazione delle risorse.
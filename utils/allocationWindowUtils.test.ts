@@ -0,0 +1,66 @@
+/**
+ * @file allocationWindowUtils.test.ts
+ * @description Test del caricamento a finestre delle allocazioni: unione e intervalli mancanti,
+ * arrotondamento ai mesi, applicazione di finestre complete e delta.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    applyAllocationDelta,
+    applyAllocationWindow,
+    getMissingAllocationWindows,
+    mergeAllocationWindows,
+    toMonthWindow,
+} from './allocationWindowUtils';
+
+describe('finestre di caricamento', () => {
+    it('arrotonda ai mesi e unisce le finestre contigue o sovrapposte', () => {
+        expect(toMonthWindow('2024-02-14', '2024-03-03')).toEqual({ start: '2024-02-01', end: '2024-03-31' });
+        expect(mergeAllocationWindows([
+            { start: '2024-04-01', end: '2024-04-30' },
+            { start: '2024-01-01', end: '2024-01-31' },
+            { start: '2024-02-01', end: '2024-02-29' },
+            { start: '2024-04-15', end: '2024-05-31' },
+        ])).toEqual([
+            { start: '2024-01-01', end: '2024-02-29' },
+            { start: '2024-04-01', end: '2024-05-31' },
+        ]);
+    });
+
+    it('richiede solo le parti non ancora caricate', () => {
+        const loaded = [{ start: '2024-02-01', end: '2024-02-29' }, { start: '2024-04-01', end: '2024-04-30' }];
+        expect(getMissingAllocationWindows(loaded, { start: '2024-01-01', end: '2024-05-31' })).toEqual([
+            { start: '2024-01-01', end: '2024-01-31' },
+            { start: '2024-03-01', end: '2024-03-31' },
+            { start: '2024-05-01', end: '2024-05-31' },
+        ]);
+        expect(getMissingAllocationWindows(loaded, { start: '2024-02-01', end: '2024-02-29' })).toEqual([]);
+        expect(getMissingAllocationWindows([], { start: '2024-02-01', end: '2024-02-29' }))
+            .toEqual([{ start: '2024-02-01', end: '2024-02-29' }]);
+    });
+});
+
+describe('applicazione al client', () => {
+    const allocations = {
+        a1: { '2024-01-31': 50, '2024-02-01': 50, '2024-02-02': 50 },
+        a2: { '2024-02-05': 100 },
+    };
+
+    it('sostituisce le sole celle della finestra caricata', () => {
+        const next = applyAllocationWindow(allocations, { start: '2024-02-01', end: '2024-02-29' }, { a1: { '2024-02-02': 80 } });
+        expect(next).toEqual({ a1: { '2024-01-31': 50, '2024-02-02': 80 } });
+        expect(allocations.a2['2024-02-05']).toBe(100);
+    });
+
+    it('applica prima le eliminazioni e poi le celle modificate del delta', () => {
+        const next = applyAllocationDelta(allocations, {
+            allocations: { a2: { '2024-02-05': 40 }, a3: { '2024-02-06': 20 } },
+            deleted: [{ assignmentId: 'a1', date: '2024-02-01' }, { assignmentId: 'a2', date: '2024-02-05' }],
+        });
+        expect(next).toEqual({
+            a1: { '2024-01-31': 50, '2024-02-02': 50 },
+            a2: { '2024-02-05': 40 },
+            a3: { '2024-02-06': 20 },
+        });
+        expect(applyAllocationDelta(allocations, { allocations: {}, deleted: [] })).toBe(allocations);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * @file allocationWindowUtils.ts
+ * @description Utility pure per il caricamento a finestre delle allocazioni: unione delle finestre
+ * già caricate, intervalli mancanti da richiedere, arrotondamento ai mesi e applicazione al client
+ * delle finestre complete e dei delta (`since`) restituiti da `GET /api/data?scope=allocations`.
+ */
+import type { Allocation, AllocationCellRef, AllocationWindow } from '../types';
+import { addDays, parseISODate, toISODateString } from './dateUtils.js';
+
+/** Tombstone e delta sono conservati per 7 giorni: un cursore più vecchio comporta il ricaricamento della finestra. */
+export const ALLOCATION_DELTA_RETENTION_DAYS = 7;
+
+const nextDay = (date: string) => toISODateString(addDays(parseISODate(date), 1));
+const previousDay = (date: string) => toISODateString(addDays(parseISODate(date), -1));
+
+/** Estende l'intervallo al primo giorno del mese iniziale e all'ultimo del mese finale. */
+export const toMonthWindow = (start: string, end: string): AllocationWindow => {
+    const from = parseISODate(start);
+    const to = parseISODate(end);
+    return {
+        start: toISODateString(new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1))),
+        end: toISODateString(new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() + 1, 0))),
+    };
+};
+
+/** Unisce finestre sovrapposte o contigue, ordinate per data di inizio. */
+export const mergeAllocationWindows = (windows: AllocationWindow[]): AllocationWindow[] => {
+    const sorted = windows.filter(w => w.start <= w.end).sort((a, b) => a.start.localeCompare(b.start));
+    const merged: AllocationWindow[] = [];
+    for (const window of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && window.start <= nextDay(last.end)) {
+            if (window.end > last.end) last.end = window.end;
+        } else {
+            merged.push({ ...window });
+        }
+    }
+    return merged;
+};
+
+/** Parti dell'intervallo richiesto non ancora coperte dalle finestre caricate. */
+export const getMissingAllocationWindows = (loaded: AllocationWindow[], requested: AllocationWindow): AllocationWindow[] => {
+    const missing: AllocationWindow[] = [];
+    let cursor = requested.start;
+    for (const window of mergeAllocationWindows(loaded)) {
+        if (window.end < cursor) continue;
+        if (window.start > requested.end) break;
+        if (window.start > cursor) missing.push({ start: cursor, end: previousDay(window.start) });
+        cursor = nextDay(window.end);
+        if (cursor > requested.end) return missing;
+    }
+    if (cursor <= requested.end) missing.push({ start: cursor, end: requested.end });
+    return missing;
+};
+
+/** Sostituisce le celle della finestra con quelle caricate, lasciando invariate le date esterne. */
+export const applyAllocationWindow = (
+    allocations: Allocation,
+    window: AllocationWindow,
+    windowAllocations: Allocation
+): Allocation => {
+    const next: Allocation = {};
+    for (const [assignmentId, days] of Object.entries(allocations)) {
+        const kept = Object.fromEntries(Object.entries(days).filter(([date]) => date < window.start || date > window.end));
+        if (Object.keys(kept).length > 0) next[assignmentId] = kept;
+    }
+    for (const [assignmentId, days] of Object.entries(windowAllocations)) {
+        next[assignmentId] = { ...(next[assignmentId] || {}), ...days };
+    }
+    return next;
+};
+
+/** Applica un delta: rimuove le celle eliminate e scrive quelle modificate dopo il cursore. */
+export const applyAllocationDelta = (
+    allocations: Allocation,
+    delta: { allocations: Allocation; deleted: AllocationCellRef[] }
+): Allocation => {
+    if (delta.deleted.length === 0 && Object.keys(delta.allocations).length === 0) return allocations;
+    const next: Allocation = { ...allocations };
+    for (const { assignmentId, date } of delta.deleted) {
+        if (!next[assignmentId] || next[assignmentId][date] === undefined) continue;
+        const { [date]: _removed, ...rest } = next[assignmentId];
+        next[assignmentId] = rest;
+    }
+    for (const [assignmentId, days] of Object.entries(delta.allocations)) {
+        next[assignmentId] = { ...(next[assignmentId] || {}), ...days };
+    }
+    return next;
+};
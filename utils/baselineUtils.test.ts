@@ -0,0 +1,86 @@
+/**
+ * @file baselineUtils.test.ts
+ * @description Test delle baseline di pianificazione: validazione della richiesta e
+ * scostamenti di giorni/uomo, costi (storico costi del ruolo), budget e milestone.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    buildBaselineProjectVariance,
+    buildBaselineVarianceRows,
+    getBaselineProjectIds,
+    validateBaselineRequest,
+} from './baselineUtils';
+
+const costContext = {
+    resources: [
+        { id: 'r1', roleId: 'role1', dailyCost: 0 },
+        { id: 'r2', roleId: 'role1', dailyCost: 800 },
+    ],
+    roles: [{ id: 'role1', dailyCost: 600 }],
+    // Dal 15 maggio il costo del ruolo passa da 500 al costo corrente (600)
+    roleCostHistory: [{ roleId: 'role1', dailyCost: 500, startDate: '2024-01-01', endDate: '2024-05-14' }],
+};
+
+describe('buildBaselineVarianceRows', () => {
+    it('aggrega per risorsa e mese, costando ogni giornata alla propria data', () => {
+        const baseline = [
+            { resourceId: 'r1', projectId: 'p1', date: '2024-05-10', percentage: 100 },
+            { resourceId: 'r1', projectId: 'p1', date: '2024-05-20', percentage: 100 },
+            { resourceId: 'r2', projectId: 'p1', date: '2024-06-03', percentage: 50 },
+        ];
+        const current = [
+            { resourceId: 'r1', projectId: 'p1', date: '2024-05-10', percentage: 100 },
+            { resourceId: 'r1', projectId: 'p2', date: '2024-05-21', percentage: 50 },
+            { resourceId: 'r1', projectId: 'p1', date: '2024-06-03', percentage: 100 },
+        ];
+        const { rows, totals } = buildBaselineVarianceRows(baseline, current, costContext);
+
+        expect(rows).toEqual([
+            { resourceId: 'r1', month: '2024-05', baselineDays: 2, currentDays: 1.5, deltaDays: -0.5, baselineCost: 1100, currentCost: 800, deltaCost: -300 },
+            { resourceId: 'r1', month: '2024-06', baselineDays: 0, currentDays: 1, deltaDays: 1, baselineCost: 0, currentCost: 600, deltaCost: 600 },
+            { resourceId: 'r2', month: '2024-06', baselineDays: 0.5, currentDays: 0, deltaDays: -0.5, baselineCost: 400, currentCost: 0, deltaCost: -400 },
+        ]);
+        expect(totals).toEqual({ baselineDays: 2.5, currentDays: 2.5, baselineCost: 1500, currentCost: 1400 });
+    });
+});
+
+describe('buildBaselineProjectVariance', () => {
+    const projects = [{ id: 'p1', budget: 12000 }, { id: 'p2', budget: 5000 }];
+    const milestones = [{ projectId: 'p1', amount: 3000 }, { projectId: 'p1', amount: 2000 }];
+
+    it('confronta budget e milestone congelati con quelli correnti', () => {
+        const result = buildBaselineProjectVariance(
+            ['p1'],
+            { budgets: { p1: 10000 }, milestones: [{ projectId: 'p1', name: 'SAL 1', date: '2024-06-30', amount: 3000, status: 'PLANNED' }] },
+            projects,
+            milestones
+        );
+        expect(result).toEqual([{
+            projectId: 'p1', baselineBudget: 10000, currentBudget: 12000,
+            baselineMilestoneAmount: 3000, currentMilestoneAmount: 5000, baselineMilestoneCount: 1, currentMilestoneCount: 2,
+        }]);
+    });
+
+    it('lascia null i valori baseline non congelati', () => {
+        const [p2] = buildBaselineProjectVariance(['p2'], { budgets: null, milestones: null }, projects, milestones);
+        expect(p2).toMatchObject({ baselineBudget: null, currentBudget: 5000, baselineMilestoneAmount: null, currentMilestoneCount: 0 });
+    });
+});
+
+describe('getBaselineProjectIds', () => {
+    it('per il portafoglio unisce i progetti delle due fotografie e dei budget', () => {
+        const alloc = (projectId: string) => ({ resourceId: 'r1', projectId, date: '2024-05-10', percentage: 100 });
+        expect(getBaselineProjectIds({ projectId: null }, [alloc('p2')], [alloc('p1')], { p3: 100 })).toEqual(['p1', 'p2', 'p3']);
+        expect(getBaselineProjectIds({ projectId: 'p9' }, [alloc('p2')], [], null)).toEqual(['p9']);
+    });
+});
+
+describe('validateBaselineRequest', () => {
+    it('richiede un nome e accetta progetto o portafoglio', () => {
+        expect(validateBaselineRequest({ name: 'Kickoff', projectId: null })).toBeNull();
+        expect(validateBaselineRequest({ name: 'Kickoff', projectId: 'p1', includeBudgets: true })).toBeNull();
+        expect(validateBaselineRequest({ name: '  ' })).toMatch(/nome/);
+        expect(validateBaselineRequest({ name: 'x', projectId: 42 })).toMatch(/projectId/);
+        expect(validateBaselineRequest(undefined)).toMatch(/mancante/);
+    });
+});
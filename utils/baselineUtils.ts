@@ -0,0 +1,147 @@
+/**
+ * @file baselineUtils.ts
+ * @description Utility pure per le baseline di pianificazione: validazione della richiesta di
+ * creazione e calcolo dello scostamento tra la fotografia congelata e il piano corrente
+ * (giorni/uomo e costo per risorsa e mese, budget e milestone per progetto).
+ *
+ * Usate sia da `api/staffing.ts` (`action=baseline`) sia dal Mock Engine locale. Il costo
+ * giornaliero è quello specifico della risorsa se valorizzato, altrimenti quello del ruolo
+ * valido alla data (`getRoleCostForDate`), come nel resto dell'applicazione.
+ */
+import type {
+    BaselineAllocation, BaselineMilestone, BaselineProjectVariance, BaselineVariance, BaselineVarianceRow,
+    BillingMilestone, PlanningBaseline, Project,
+} from '../types';
+import { createResourceDailyCostResolver, type ResourceCostContext } from './costUtils.js';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface BaselineCreateRequest {
+    name: string;
+    description?: string | null;
+    projectId?: string | null;
+    includeBudgets?: boolean;
+    includeMilestones?: boolean;
+}
+
+/** Restituisce il messaggio d'errore del primo vincolo violato, o null se la richiesta è valida. */
+export const validateBaselineRequest = (request: unknown): string | null => {
+    if (!request || typeof request !== 'object') return 'Richiesta di baseline mancante.';
+    const r = request as Partial<BaselineCreateRequest>;
+    if (typeof r.name !== 'string' || !r.name.trim()) return 'Il nome della baseline è obbligatorio.';
+    if (r.name.trim().length > 255) return 'Il nome della baseline non può superare 255 caratteri.';
+    if (r.projectId !== undefined && r.projectId !== null && (typeof r.projectId !== 'string' || !r.projectId)) {
+        return 'Il campo "projectId" deve essere un id progetto o null (portafoglio).';
+    }
+    return null;
+};
+
+/**
+ * Confronta le allocazioni della baseline con quelle correnti nello stesso perimetro,
+ * aggregando per risorsa e mese. Ogni giornata è costata alla propria data, così una
+ * variazione di costo del ruolo a metà mese è riflessa correttamente.
+ */
+export const buildBaselineVarianceRows = (
+    baselineAllocations: BaselineAllocation[],
+    currentAllocations: BaselineAllocation[],
+    costContext: ResourceCostContext
+): { rows: BaselineVarianceRow[]; totals: BaselineVariance['totals'] } => {
+    const dailyCost = createResourceDailyCostResolver(costContext);
+
+    const cells = new Map<string, BaselineVarianceRow>();
+    const accumulate = (allocations: BaselineAllocation[], side: 'baseline' | 'current') => {
+        for (const a of allocations) {
+            if (!(a.percentage > 0)) continue;
+            const month = a.date.slice(0, 7);
+            const key = `${a.resourceId}|${month}`;
+            let cell = cells.get(key);
+            if (!cell) {
+                cell = { resourceId: a.resourceId, month, baselineDays: 0, currentDays: 0, deltaDays: 0, baselineCost: 0, currentCost: 0, deltaCost: 0 };
+                cells.set(key, cell);
+            }
+            const days = a.percentage / 100;
+            const cost = days * dailyCost(a.resourceId, a.date);
+            if (side === 'baseline') {
+                cell.baselineDays += days;
+                cell.baselineCost += cost;
+            } else {
+                cell.currentDays += days;
+                cell.currentCost += cost;
+            }
+        }
+    };
+    accumulate(baselineAllocations, 'baseline');
+    accumulate(currentAllocations, 'current');
+
+    const totals = { baselineDays: 0, currentDays: 0, baselineCost: 0, currentCost: 0 };
+    const rows = Array.from(cells.values())
+        .map(cell => {
+            totals.baselineDays += cell.baselineDays;
+            totals.currentDays += cell.currentDays;
+            totals.baselineCost += cell.baselineCost;
+            totals.currentCost += cell.currentCost;
+            return {
+                ...cell,
+                baselineDays: round2(cell.baselineDays),
+                currentDays: round2(cell.currentDays),
+                deltaDays: round2(cell.currentDays - cell.baselineDays),
+                baselineCost: round2(cell.baselineCost),
+                currentCost: round2(cell.currentCost),
+                deltaCost: round2(cell.currentCost - cell.baselineCost),
+            };
+        })
+        .sort((a, b) => a.resourceId.localeCompare(b.resourceId) || a.month.localeCompare(b.month));
+
+    return {
+        rows,
+        totals: {
+            baselineDays: round2(totals.baselineDays),
+            currentDays: round2(totals.currentDays),
+            baselineCost: round2(totals.baselineCost),
+            currentCost: round2(totals.currentCost),
+        },
+    };
+};
+
+/**
+ * Scostamento di budget e milestone per i progetti del perimetro. I valori baseline
+ * restano null se la baseline non ha congelato budget (`budgets` null) o milestone.
+ */
+export const buildBaselineProjectVariance = (
+    projectIds: string[],
+    baseline: { budgets: Record<string, number> | null; milestones: BaselineMilestone[] | null },
+    projects: Pick<Project, 'id' | 'budget'>[],
+    milestones: Pick<BillingMilestone, 'projectId' | 'amount'>[]
+): BaselineProjectVariance[] => {
+    const budgetById = new Map(projects.map(p => [p.id, Number(p.budget) || 0]));
+    const sumMilestones = (list: Pick<BillingMilestone, 'projectId' | 'amount'>[], projectId: string) => {
+        const own = list.filter(m => m.projectId === projectId);
+        return { amount: round2(own.reduce((sum, m) => sum + (Number(m.amount) || 0), 0)), count: own.length };
+    };
+    return projectIds.map(projectId => {
+        const current = sumMilestones(milestones, projectId);
+        const frozen = baseline.milestones ? sumMilestones(baseline.milestones, projectId) : null;
+        return {
+            projectId,
+            baselineBudget: baseline.budgets ? (baseline.budgets[projectId] ?? 0) : null,
+            currentBudget: budgetById.get(projectId) ?? 0,
+            baselineMilestoneAmount: frozen ? frozen.amount : null,
+            currentMilestoneAmount: current.amount,
+            baselineMilestoneCount: frozen ? frozen.count : null,
+            currentMilestoneCount: current.count,
+        };
+    });
+};
+
+/** Progetti del perimetro: quello della baseline, oppure tutti quelli presenti nelle due fotografie. */
+export const getBaselineProjectIds = (
+    baseline: Pick<PlanningBaseline, 'projectId'>,
+    baselineAllocations: BaselineAllocation[],
+    currentAllocations: BaselineAllocation[],
+    budgets: Record<string, number> | null
+): string[] => {
+    if (baseline.projectId) return [baseline.projectId];
+    const ids = new Set<string>([...baselineAllocations, ...currentAllocations].map(a => a.projectId));
+    Object.keys(budgets || {}).forEach(id => ids.add(id));
+    return Array.from(ids).sort();
+};
@@ -0,0 +1,117 @@
+/**
+ * @file contractBurndownUtils.test.ts
+ * @description Test del burn-down della capienza dei contratti: valorizzazione dei progetti collegati
+ * (allocazioni al listino, spese rifatturabili, milestone), backlog, data di esaurimento e serie settimanale.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    buildContractBurndowns, computeContractBurndown, getContractExhaustionStatus, getContractProjectIds,
+    parseContractExhaustionAlertWeeks, DEFAULT_CONTRACT_EXHAUSTION_ALERT_WEEKS, type ContractBurndownData,
+} from './contractBurndownUtils';
+
+const contract = { id: 'c1', capienza: 10000, rateCardId: 'rc1', startDate: '2025-01-06', endDate: '2025-03-31' };
+
+const baseData: ContractBurndownData = {
+    contractProjects: [{ contractId: 'c1', projectId: 'p1' }],
+    projects: [
+        { id: 'p1', billingType: 'TIME_MATERIAL', contractId: null },
+        { id: 'p2', billingType: 'FIXED_PRICE', contractId: 'c1' },
+        { id: 'p3', billingType: 'TIME_MATERIAL', contractId: null },
+    ],
+    allocations: [
+        ...['06', '07', '08', '09', '10'].map(day => ({ projectId: 'p1', resourceId: 'r1', roleId: 'dev', date: `2025-01-${day}`, percentage: 100 })),
+        { projectId: 'p1', resourceId: null, roleId: 'dev', date: '2025-01-13', percentage: 50 },
+        { projectId: 'p2', resourceId: 'r1', roleId: 'dev', date: '2025-01-14', percentage: 100 },
+        { projectId: 'p3', resourceId: 'r1', roleId: 'dev', date: '2025-01-14', percentage: 100 },
+    ],
+    expenses: [
+        { projectId: 'p1', amount: 100, date: '2025-01-15', billable: true },
+        { projectId: 'p1', amount: 999, date: '2025-01-15', billable: false },
+    ],
+    milestones: [
+        { projectId: 'p2', amount: 3000, date: '2025-02-03' },
+        { projectId: 'p1', amount: 5000, date: '2025-02-03' },
+    ],
+    rates: {
+        entries: [{ rateCardId: 'rc1', resourceId: 'r1', dailyRate: 500 }, { rateCardId: 'rc2', resourceId: 'r1', dailyRate: 500 }],
+        history: [],
+        lines: [
+            { rateCardId: 'rc1', lineType: 'ROLE', lineKey: 'dev', dailyRate: 400, startDate: '2024-01-01', endDate: null },
+            { rateCardId: 'rc2', lineType: 'ROLE', lineKey: 'dev', dailyRate: 400, startDate: '2024-01-01', endDate: null },
+        ],
+        roles: [{ id: 'dev', seniorityLevel: 'MID' }],
+    },
+    rateCards: [{ id: 'rc1', currency: 'EUR' }, { id: 'rc2', currency: 'USD' }],
+    fxRates: [{ currency: 'USD', rate: 1.1, validFrom: '2024-01-01', validTo: null }],
+};
+
+describe('buildContractBurndowns', () => {
+    it('valorizza allocazioni e segnaposto al listino, spese rifatturabili e milestone dei Fixed Price', () => {
+        const [burndown] = buildContractBurndowns([contract], baseData, '2025-01-10', 8);
+        // p1: 5 gg × 500 + 0,5 gg × 400 (ruolo del segnaposto) + 100 di spese; p2: solo la milestone da 3000
+        expect(burndown).toMatchObject({ contractId: 'c1', capienza: 10000, consumed: 2500, committed: 5800, backlog: 4200 });
+        expect(burndown.exhaustionDate).toBeNull();
+        expect(burndown.status).toBe('OK');
+    });
+
+    it('converte le spese in valuta base nella valuta del listino del contratto', () => {
+        const [burndown] = buildContractBurndowns([{ ...contract, rateCardId: 'rc2' }], baseData, '2025-01-10', 8);
+        expect(burndown.committed).toBe(5810);
+    });
+
+    it('senza listino valorizza solo spese e milestone', () => {
+        const [burndown] = buildContractBurndowns([{ ...contract, rateCardId: null }], baseData, '2025-01-10', 8);
+        expect(burndown.committed).toBe(3100);
+    });
+});
+
+describe('computeContractBurndown', () => {
+    const dailyValue = new Map([['2025-01-06', 400], ['2025-01-13', 400], ['2025-01-20', 400]]);
+    const small = { id: 'c2', capienza: 1000, rateCardId: 'rc1', startDate: '2025-01-06', endDate: null };
+
+    it('individua la data in cui il valore cumulato raggiunge la capienza', () => {
+        const burndown = computeContractBurndown(small, dailyValue, '2025-01-15', 8);
+        expect(burndown).toMatchObject({ consumed: 800, committed: 1200, backlog: -200, exhaustionDate: '2025-01-20', status: 'ALERT' });
+    });
+
+    it('separa la capienza residua consuntiva dalla proiezione settimanale', () => {
+        const { series } = computeContractBurndown(small, dailyValue, '2025-01-15', 8);
+        expect(series).toEqual([
+            { weekStart: '2025-01-06', actual: 1000, projected: null },
+            { weekStart: '2025-01-13', actual: 600, projected: 600 },
+            { weekStart: '2025-01-20', actual: null, projected: 200 },
+            { weekStart: '2025-01-27', actual: null, projected: -200 },
+        ]);
+    });
+
+    it('senza periodo né valori la serie è vuota', () => {
+        const burndown = computeContractBurndown({ ...small, startDate: null }, new Map(), '2025-01-15', 8);
+        expect(burndown.series).toEqual([]);
+        expect(burndown.backlog).toBe(1000);
+    });
+});
+
+describe('getContractExhaustionStatus', () => {
+    it('classifica la data di esaurimento rispetto al preavviso', () => {
+        expect(getContractExhaustionStatus(null, '2025-01-01', 8)).toBe('OK');
+        expect(getContractExhaustionStatus('2025-01-20', '2025-01-01', 8)).toBe('ALERT');
+        expect(getContractExhaustionStatus('2025-01-20', '2025-01-01', 1)).toBe('OK');
+        expect(getContractExhaustionStatus('2025-01-20', '2025-01-20', 8)).toBe('EXHAUSTED');
+    });
+});
+
+describe('getContractProjectIds', () => {
+    it('unisce i progetti associati e quelli che indicano il contratto, senza duplicati', () => {
+        const ids = getContractProjectIds('c1', [...baseData.contractProjects, { contractId: 'c1', projectId: 'p2' }], baseData.projects);
+        expect(ids.sort()).toEqual(['p1', 'p2']);
+    });
+});
+
+describe('parseContractExhaustionAlertWeeks', () => {
+    it('accetta interi da 1 a 52 e altrimenti usa il default', () => {
+        expect(parseContractExhaustionAlertWeeks('12')).toBe(12);
+        expect(parseContractExhaustionAlertWeeks(52)).toBe(52);
+        [undefined, '0', '53', '4.5', 'abc'].forEach(value =>
+            expect(parseContractExhaustionAlertWeeks(value)).toBe(DEFAULT_CONTRACT_EXHAUSTION_ALERT_WEEKS));
+    });
+});
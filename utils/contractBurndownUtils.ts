@@ -0,0 +1,190 @@
+/**
+ * @file contractBurndownUtils.ts
+ * @description Burn-down della capienza dei contratti: valorizza i progetti collegati (allocazioni
+ * alle tariffe del listino del contratto e spese rifatturabili per il Time & Material, milestone
+ * per il Fixed Price), ne ricava il backlog (capienza non ancora impegnata), la capienza residua
+ * settimana per settimana e la data prevista di esaurimento.
+ *
+ * Usate da `api/_lib/contractBacklog.ts` (ricalcolo del backlog a ogni modifica e `action=burndown`)
+ * e dal Mock Engine locale. Come per le baseline, ogni giornata allocata vale `percentuale / 100`
+ * giorni/uomo alla tariffa valida in quel giorno.
+ */
+import type {
+    BillingMilestone, Contract, ContractBurndown, ContractBurndownPoint, ContractExhaustionStatus, ContractProject,
+    FxRate, Project, ProjectExpense, RateCard,
+} from '../types';
+import { addDays, parseISODate, toISODateString } from './dateUtils.js';
+import { BASE_CURRENCY, convertAmount } from './fxUtils.js';
+import { resolveSellRate, type SellRateContext } from './rateCardUtils.js';
+
+export const CONTRACT_EXHAUSTION_ALERT_WEEKS_CONFIG_KEY = 'contract_exhaustion_alert_weeks';
+
+/** Settimane di preavviso predefinite prima dell'esaurimento della capienza. */
+export const DEFAULT_CONTRACT_EXHAUSTION_ALERT_WEEKS = 8;
+
+/** Legge il preavviso configurato (1-52 settimane), con il valore predefinito se assente o non valido. */
+export const parseContractExhaustionAlertWeeks = (value: unknown): number => {
+    const weeks = Number(value);
+    return Number.isInteger(weeks) && weeks >= 1 && weeks <= 52 ? weeks : DEFAULT_CONTRACT_EXHAUSTION_ALERT_WEEKS;
+};
+
+export const CONTRACT_EXHAUSTION_STATUS_LABELS: Record<ContractExhaustionStatus, string> = {
+    OK: 'In linea',
+    ALERT: 'In esaurimento',
+    EXHAUSTED: 'Esaurito',
+};
+
+/** Giornata allocata su un progetto; i segnaposto di ruolo non hanno risorsa. */
+export interface ContractAllocationDay {
+    projectId: string;
+    resourceId: string | null;
+    roleId: string;
+    date: string;
+    percentage: number;
+}
+
+export interface ContractBurndownData {
+    contractProjects: ContractProject[];
+    projects: Pick<Project, 'id' | 'billingType' | 'contractId'>[];
+    allocations: ContractAllocationDay[];
+    expenses: Pick<ProjectExpense, 'projectId' | 'amount' | 'date' | 'billable'>[];
+    milestones: Pick<BillingMilestone, 'projectId' | 'amount' | 'date'>[];
+    rates: SellRateContext;
+    rateCards: Pick<RateCard, 'id' | 'currency'>[];
+    fxRates: FxRate[];
+}
+
+type BurndownContract = Pick<Contract, 'id' | 'capienza' | 'rateCardId' | 'startDate' | 'endDate'>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const weekStartOf = (date: string): string => {
+    const d = parseISODate(date);
+    return toISODateString(addDays(d, -((d.getUTCDay() + 6) % 7)));
+};
+
+/** Progetti del contratto: quelli associati in `contract_projects` e quelli che lo indicano come contratto. */
+export const getContractProjectIds = (
+    contractId: string,
+    contractProjects: ContractProject[],
+    projects: Pick<Project, 'id' | 'contractId'>[]
+): string[] => Array.from(new Set([
+    ...contractProjects.filter(cp => cp.contractId === contractId).map(cp => cp.projectId),
+    ...projects.filter(p => p.contractId === contractId).map(p => p.id!),
+]));
+
+const groupByProject = <T extends { projectId: string }>(items: T[]): Map<string, T[]> => {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const group = groups.get(item.projectId);
+        if (group) group.push(item);
+        else groups.set(item.projectId, [item]);
+    }
+    return groups;
+};
+
+/**
+ * Stato di esaurimento alla data: esaurito se la capienza è già raggiunta, in esaurimento se
+ * la data prevista cade entro `alertWeeks` settimane.
+ */
+export const getContractExhaustionStatus = (exhaustionDate: string | null, today: string, alertWeeks: number): ContractExhaustionStatus => {
+    if (!exhaustionDate) return 'OK';
+    if (exhaustionDate <= today) return 'EXHAUSTED';
+    return exhaustionDate <= toISODateString(addDays(parseISODate(today), alertWeeks * 7)) ? 'ALERT' : 'OK';
+};
+
+/** Burn-down di un contratto dal valore giornaliero dei progetti collegati (data → importo nella valuta del listino). */
+export const computeContractBurndown = (
+    contract: BurndownContract,
+    dailyValue: Map<string, number>,
+    today: string,
+    alertWeeks: number
+): ContractBurndown => {
+    const capienza = Number(contract.capienza) || 0;
+    const days = Array.from(dailyValue.keys()).sort();
+
+    let committed = 0;
+    let consumed = 0;
+    let exhaustionDate: string | null = null;
+    for (const day of days) {
+        committed += dailyValue.get(day)!;
+        if (day <= today) consumed = committed;
+        if (!exhaustionDate && capienza > 0 && committed >= capienza) exhaustionDate = day;
+    }
+
+    const bounds = [contract.startDate, contract.endDate, days[0], days[days.length - 1]]
+        .filter((d): d is string => !!d)
+        .map(d => d.split('T')[0])
+        .sort();
+    const series: ContractBurndownPoint[] = [];
+    if (bounds.length > 0) {
+        const todayWeek = weekStartOf(today);
+        let cumulative = 0;
+        let next = 0;
+        // Una settimana oltre l'ultima data, così il grafico mostra il valore finale
+        const lastWeek = toISODateString(addDays(parseISODate(weekStartOf(bounds[bounds.length - 1])), 7));
+        for (let week = weekStartOf(bounds[0]); week <= lastWeek; week = toISODateString(addDays(parseISODate(week), 7))) {
+            for (; next < days.length && days[next] < week; next++) cumulative += dailyValue.get(days[next])!;
+            const remaining = round2(capienza - cumulative);
+            series.push({
+                weekStart: week,
+                actual: week <= todayWeek ? remaining : null,
+                projected: week >= todayWeek ? remaining : null,
+            });
+        }
+    }
+
+    return {
+        contractId: contract.id!,
+        capienza: round2(capienza),
+        consumed: round2(consumed),
+        committed: round2(committed),
+        backlog: round2(capienza - committed),
+        exhaustionDate,
+        status: getContractExhaustionStatus(exhaustionDate, today, alertWeeks),
+        series,
+    };
+};
+
+/**
+ * Burn-down di più contratti. Per i progetti Time & Material valgono le allocazioni alla tariffa
+ * del listino del contratto e le spese rifatturabili (in valuta base, convertite nella valuta del
+ * listino); per i Fixed Price le milestone di fatturazione.
+ */
+export const buildContractBurndowns = (
+    contracts: BurndownContract[],
+    data: ContractBurndownData,
+    today: string,
+    alertWeeks: number
+): ContractBurndown[] => {
+    const allocationsByProject = groupByProject(data.allocations);
+    const expensesByProject = groupByProject(data.expenses);
+    const milestonesByProject = groupByProject(data.milestones);
+
+    return contracts.map(contract => {
+        const currency = data.rateCards.find(r => r.id === contract.rateCardId)?.currency || BASE_CURRENCY;
+        const dailyValue = new Map<string, number>();
+        const add = (date: string, amount: number) => {
+            if (!(amount > 0)) return;
+            const day = date.split('T')[0];
+            dailyValue.set(day, (dailyValue.get(day) || 0) + amount);
+        };
+
+        for (const projectId of getContractProjectIds(contract.id!, data.contractProjects, data.projects)) {
+            const project = data.projects.find(p => p.id === projectId);
+            if (!project) continue;
+            if (project.billingType === 'FIXED_PRICE') {
+                (milestonesByProject.get(projectId) || []).forEach(m => add(m.date, Number(m.amount)));
+                continue;
+            }
+            (allocationsByProject.get(projectId) || []).forEach(a => {
+                const { rate } = resolveSellRate(contract.rateCardId, { id: a.resourceId ?? '', roleId: a.roleId }, a.date, data.rates);
+                add(a.date, (a.percentage / 100) * rate);
+            });
+            (expensesByProject.get(projectId) || []).filter(e => e.billable).forEach(e => {
+                add(e.date, convertAmount(Number(e.amount), BASE_CURRENCY, currency, e.date.split('T')[0], data.fxRates) ?? 0);
+            });
+        }
+        return computeContractBurndown(contract, dailyValue, today, alertWeeks);
+    });
+};
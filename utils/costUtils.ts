@@ -4,7 +4,7 @@
  * @description Funzioni di utilità per il calcolo dei costi basato sullo storico (SCD Type 2).
  */
 
-import { RoleCostHistory, Role } from '../types';
+import { RoleCostHistory, Role, Resource } from '../types';
 
 /**
  * Restituisce il costo giornaliero di un ruolo valido per una data specifica.
@@ -20,8 +20,8 @@ import { RoleCostHistory, Role } from '../types';
 export const getRoleCostForDate = (
     roleId: string, 
     date: Date | string, 
-    history: RoleCostHistory[], 
-    currentRoles: Role[]
+    history: Pick<RoleCostHistory, 'roleId' | 'dailyCost' | 'startDate' | 'endDate'>[], 
+    currentRoles: Pick<Role, 'id' | 'dailyCost'>[]
 ): number => {
     const targetDateStr = typeof date === 'string' ? date : date.toISOString().split('T')[0];
 
@@ -45,6 +45,27 @@ export const getRoleCostForDate = (
     return role ? Number(role.dailyCost) : 0;
 };
 
+/** Anagrafiche necessarie a costare una giornata di una risorsa (lato server o Mock Engine). */
+export interface ResourceCostContext {
+    resources: Pick<Resource, 'id' | 'roleId' | 'dailyCost'>[];
+    roles: Pick<Role, 'id' | 'dailyCost'>[];
+    roleCostHistory: Pick<RoleCostHistory, 'roleId' | 'dailyCost' | 'startDate' | 'endDate'>[];
+}
+
+/**
+ * Crea una funzione che restituisce il costo giornaliero di una risorsa a una data:
+ * il costo specifico della risorsa se valorizzato, altrimenti quello del ruolo valido alla data.
+ */
+export const createResourceDailyCostResolver = ({ resources, roles, roleCostHistory }: ResourceCostContext) => {
+    const resourceById = new Map(resources.map(r => [r.id, r]));
+    return (resourceId: string, date: string): number => {
+        const resource = resourceById.get(resourceId);
+        if (!resource) return 0;
+        if (resource.dailyCost && Number(resource.dailyCost) > 0) return Number(resource.dailyCost);
+        return getRoleCostForDate(resource.roleId, date, roleCostHistory, roles);
+    };
+};
+
 /**
  * Calcola il costo totale di un'allocazione su un intervallo di date, sommando il costo specifico di ogni giorno.
  * Questo è necessario perché il costo del ruolo potrebbe cambiare nel mezzo dell'assegnazione.
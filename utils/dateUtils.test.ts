@@ -22,8 +22,10 @@ import {
     buildHolidaySet,
     isHolidayInSet,
     getWorkingDaysBetweenWithSet,
+    getLocationCalendar,
+    isInRecurringClosure,
 } from './dateUtils';
-import type { CalendarEvent, LeaveRequest, LeaveType } from '../types';
+import type { CalendarEvent, LeaveRequest, LeaveType, LocationCalendar } from '../types';
 
 // ===========================================================================
 // SUITE A (originariamente utils/dateUtils.test.ts)
@@ -836,3 +838,56 @@ describe('buildHolidaySet / isHolidayInSet / getWorkingDaysBetweenWithSet', () =
         expect(getWorkingDaysBetweenWithSet(new Date('invalid'), new Date('invalid'), set)).toBe(0);
     });
 });
+
+// ===========================================================================
+// CALENDARI DI SEDE — settimana lavorativa e chiusure ricorrenti
+// ===========================================================================
+
+describe('calendari lavorativi di sede', () => {
+    const locationCalendars: LocationCalendar[] = [
+        // Sede aperta anche il sabato, chiusa due settimane ad agosto
+        { location: 'Napoli', workingDays: [1, 2, 3, 4, 5, 6], dailyHours: 7, recurringClosures: [{ name: 'Chiusura estiva', startMonthDay: '08-12', endMonthDay: '08-23' }] },
+        // Settimana corta con chiusura natalizia a cavallo d'anno
+        { location: 'Torino', workingDays: [1, 2, 3, 4], dailyHours: 9, recurringClosures: [{ name: 'Natale', startMonthDay: '12-24', endMonthDay: '01-06' }] },
+    ];
+    const calendar: CalendarEvent[] = [{ id: 'h1', name: 'Ferragosto', date: '2024-08-15', type: 'NATIONAL_HOLIDAY', location: null }];
+
+    it('riconosce le chiusure ricorrenti, anche a cavallo d\'anno', () => {
+        const closures = locationCalendars[1].recurringClosures;
+        expect(isInRecurringClosure(parseISODate('2024-12-30'), closures)).toBe(true);
+        expect(isInRecurringClosure(parseISODate('2025-01-06'), closures)).toBe(true);
+        expect(isInRecurringClosure(parseISODate('2025-01-07'), closures)).toBe(false);
+    });
+
+    it('applica settimana lavorativa e chiusure della sede, le altre sedi restano standard', () => {
+        const set = buildHolidaySet(calendar, locationCalendars);
+        const start = parseISODate('2024-08-05');
+        const end = parseISODate('2024-08-31');
+        // Napoli: 23 giorni lun-sab, meno 12-23 agosto (10 giorni lavorativi) → 13
+        expect(getWorkingDaysBetweenWithSet(start, end, set, 'Napoli')).toBe(13);
+        // Torino: lun-gio (16 giorni), meno Ferragosto (giovedì) → 15
+        expect(getWorkingDaysBetweenWithSet(start, end, set, 'Torino')).toBe(15);
+        // Roma senza calendario: 20 giorni lun-ven meno Ferragosto → 19
+        expect(getWorkingDaysBetweenWithSet(start, end, set, 'Roma')).toBe(19);
+        expect(isHolidayInSet(parseISODate('2024-08-13'), 'Napoli', set)).toBe(true);
+        expect(isHolidayInSet(parseISODate('2024-08-13'), 'Roma', set)).toBe(false);
+    });
+
+    it('conserva i calendari di sede anche copiando il set', () => {
+        const copy = { ...buildHolidaySet(calendar, locationCalendars) };
+        expect(getLocationCalendar(copy, 'Napoli')?.workingDays).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(isHolidayInSet(parseISODate('2024-08-13'), 'Napoli', copy)).toBe(true);
+    });
+
+    it('le varianti su calendario coincidono con quelle su set', () => {
+        const set = buildHolidaySet(calendar, locationCalendars);
+        const start = parseISODate('2024-12-01');
+        const end = parseISODate('2025-01-31');
+        for (const loc of [null, 'Napoli', 'Torino', 'Roma']) {
+            expect(getWorkingDaysBetweenWithSet(start, end, set, loc))
+                .toBe(getWorkingDaysBetween(start, end, calendar, loc, locationCalendars));
+            expect(isHolidayInSet(parseISODate('2024-12-27'), loc, set))
+                .toBe(isHoliday(parseISODate('2024-12-27'), loc, calendar, locationCalendars));
+        }
+    });
+});
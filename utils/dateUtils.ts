@@ -9,7 +9,7 @@
  * 
  * Non utilizzare mai metodi locali (getDate, getMonth) su oggetti destinati a rappresentare date pure.
  */
-import { CalendarEvent, LeaveRequest, LeaveType } from '../types';
+import { CalendarEvent, LeaveRequest, LeaveType, LocationCalendar, RecurringClosure } from '../types';
 
 /**
  * Converte una stringa 'YYYY-MM-DD' in un oggetto Date impostato alla mezzanotte UTC.
@@ -65,12 +65,38 @@ export const getCalendarDays = (startDate: Date, count: number): Date[] => {
     return days;
 };
 
+/** Giorni lavorativi di una sede senza calendario (`getUTCDay`): dal lunedì al venerdì. */
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+/** Ore della giornata standard di una sede senza calendario. */
+export const DEFAULT_DAILY_HOURS = 8;
+
+/**
+ * True se la data cade in una delle chiusure ricorrenti. Il confronto è sul solo MM-DD,
+ * quindi una chiusura può anche scavalcare l'anno (es. 12-24 → 01-06).
+ */
+export const isInRecurringClosure = (date: Date, closures: RecurringClosure[] | undefined): boolean => {
+    const monthDay = toISODateString(date).slice(5);
+    if (!monthDay) return false;
+    return (closures || []).some(c => c.startMonthDay <= c.endMonthDay
+        ? monthDay >= c.startMonthDay && monthDay <= c.endMonthDay
+        : monthDay >= c.startMonthDay || monthDay <= c.endMonthDay);
+};
+
 /**
  * Controlla se è vacanza (usa confronto stringhe YYYY-MM-DD per massima sicurezza).
+ * Se indicati i calendari di sede, anche le chiusure ricorrenti della sede contano come festività.
  */
-export const isHoliday = (date: Date, resourceLocation: string | null, companyCalendar: CalendarEvent[]): boolean => {
+export const isHoliday = (
+    date: Date,
+    resourceLocation: string | null,
+    companyCalendar: CalendarEvent[],
+    locationCalendars: LocationCalendar[] = []
+): boolean => {
     const dateStr = toISODateString(date);
-    
+    const locationCalendar = resourceLocation ? locationCalendars.find(c => c.location === resourceLocation) : undefined;
+    if (locationCalendar && isInRecurringClosure(date, locationCalendar.recurringClosures)) return true;
+
     return companyCalendar.some(event => {
         // Normalizza la data dell'evento (potrebbe arrivare come stringa o Date dal context)
         const eventDateStr = typeof event.date === 'string' ? event.date.split('T')[0] : toISODateString(event.date);
@@ -83,13 +109,15 @@ export const isHoliday = (date: Date, resourceLocation: string | null, companyCa
 };
 
 /**
- * Calcola giorni lavorativi tra due date (inclusive).
+ * Calcola giorni lavorativi tra due date (inclusive). La settimana lavorativa è quella del
+ * calendario della sede, se presente tra `locationCalendars`, altrimenti dal lunedì al venerdì.
  */
 export const getWorkingDaysBetween = (
     startDate: Date, 
     endDate: Date, 
     companyCalendar: CalendarEvent[], 
-    resourceLocation: string | null = null
+    resourceLocation: string | null = null,
+    locationCalendars: LocationCalendar[] = []
 ): number => {
     // Normalizzazione UTC iniziale
     const current = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate()));
@@ -97,14 +125,15 @@ export const getWorkingDaysBetween = (
     
     if (isNaN(current.getTime()) || isNaN(end.getTime())) return 0;
     
+    const workingDays = (resourceLocation && locationCalendars.find(c => c.location === resourceLocation)?.workingDays)
+        || DEFAULT_WORKING_DAYS;
     let count = 0;
     let safety = 0;
     
     while (current.getTime() <= end.getTime() && safety < 5000) {
-        const dayOfWeek = current.getUTCDay(); // 0 = Sun, 6 = Sat
-        const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+        const isWorkingWeekday = workingDays.includes(current.getUTCDay()); // 0 = Sun, 6 = Sat
         
-        if (!isWeekend && !isHoliday(current, resourceLocation, companyCalendar)) {
+        if (isWorkingWeekday && !isHoliday(current, resourceLocation, companyCalendar, locationCalendars)) {
             count++;
         }
         
@@ -115,11 +144,15 @@ export const getWorkingDaysBetween = (
 };
 
 /**
- * Tipo del set di festività precompilato. Le chiavi sono `YYYY-MM-DD:ALL`
- * (festività nazionali / chiusure aziendali) oppure `YYYY-MM-DD:<location>`
- * (festività locali legate a una sede).
+ * Calendario precompilato per i calcoli di capacità. Le chiavi di `holidays` sono
+ * `YYYY-MM-DD:ALL` (festività nazionali / chiusure aziendali) oppure `YYYY-MM-DD:<location>`
+ * (festività locali legate a una sede); `locationCalendars` indicizza per sede i calendari
+ * lavorativi, così tutti i calcoli che ricevono un `HolidaySet` li rispettano.
  */
-export type HolidaySet = Set<string>;
+export interface HolidaySet {
+    holidays: ReadonlySet<string>;
+    locationCalendars: ReadonlyMap<string, LocationCalendar>;
+}
 
 /**
  * Sentinella per le festività locali prive di sede: replica la semantica di
@@ -129,31 +162,40 @@ export type HolidaySet = Set<string>;
 const NULL_LOCATION_KEY = '__NULL_LOCATION__';
 
 /**
- * Precompila un Set di festività per lookup O(1), da usare nei loop "caldi"
+ * Precompila festività (Set per lookup O(1)) e calendari di sede, da usare nei loop "caldi"
  * (es. forecasting su molte risorse × mesi). La semantica è **identica** a
  * {@link isHoliday}: le festività nazionali e le chiusure aziendali valgono per
  * tutte le sedi; le festività locali valgono solo per la sede indicata (o per le
  * risorse senza sede se l'evento è privo di sede).
  */
-export const buildHolidaySet = (companyCalendar: CalendarEvent[]): HolidaySet => {
-    const set = new Set<string>();
+export const buildHolidaySet = (companyCalendar: CalendarEvent[], locationCalendars: LocationCalendar[] = []): HolidaySet => {
+    const holidays = new Set<string>();
     for (const event of companyCalendar) {
         const eventDateStr = typeof event.date === 'string'
             ? event.date.split('T')[0]
             : toISODateString(event.date);
         if (!eventDateStr) continue;
         if (event.type === 'NATIONAL_HOLIDAY' || event.type === 'COMPANY_CLOSURE') {
-            set.add(`${eventDateStr}:ALL`);
+            holidays.add(`${eventDateStr}:ALL`);
         } else if (event.type === 'LOCAL_HOLIDAY') {
-            set.add(`${eventDateStr}:${event.location || NULL_LOCATION_KEY}`);
+            holidays.add(`${eventDateStr}:${event.location || NULL_LOCATION_KEY}`);
         }
     }
-    return set;
+    return { holidays, locationCalendars: new Map(locationCalendars.map(c => [c.location, c])) };
 };
 
+/** Calendario lavorativo della sede registrato nel set, se presente. */
+export const getLocationCalendar = (holidaySet: HolidaySet, resourceLocation: string | null): LocationCalendar | undefined =>
+    resourceLocation ? holidaySet.locationCalendars.get(resourceLocation) : undefined;
+
+/** True se il giorno della settimana è lavorativo per la sede (festività escluse). */
+export const isLocationWorkingWeekday = (date: Date, resourceLocation: string | null, holidaySet: HolidaySet): boolean =>
+    (getLocationCalendar(holidaySet, resourceLocation)?.workingDays || DEFAULT_WORKING_DAYS).includes(date.getUTCDay());
+
 /**
  * Variante O(1) di {@link isHoliday} basata su un Set precompilato con
- * {@link buildHolidaySet}. Produce lo stesso risultato di `isHoliday`.
+ * {@link buildHolidaySet}. Produce lo stesso risultato di `isHoliday`, comprese
+ * le chiusure ricorrenti del calendario della sede.
  */
 export const isHolidayInSet = (
     date: Date,
@@ -162,9 +204,9 @@ export const isHolidayInSet = (
 ): boolean => {
     const dateStr = toISODateString(date);
     if (!dateStr) return false;
-    if (holidaySet.has(`${dateStr}:ALL`)) return true;
-    if (holidaySet.has(`${dateStr}:${resourceLocation || NULL_LOCATION_KEY}`)) return true;
-    return false;
+    if (holidaySet.holidays.has(`${dateStr}:ALL`)) return true;
+    if (holidaySet.holidays.has(`${dateStr}:${resourceLocation || NULL_LOCATION_KEY}`)) return true;
+    return isInRecurringClosure(date, getLocationCalendar(holidaySet, resourceLocation)?.recurringClosures);
 };
 
 /**
@@ -187,10 +229,7 @@ export const getWorkingDaysBetweenWithSet = (
     let safety = 0;
 
     while (current.getTime() <= end.getTime() && safety < 5000) {
-        const dayOfWeek = current.getUTCDay();
-        const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-        if (!isWeekend && !isHolidayInSet(current, resourceLocation, holidaySet)) {
+        if (isLocationWorkingWeekday(current, resourceLocation, holidaySet) && !isHolidayInSet(current, resourceLocation, holidaySet)) {
             count++;
         }
 
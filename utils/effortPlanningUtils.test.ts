@@ -0,0 +1,137 @@
+/**
+ * @file effortPlanningUtils.test.ts
+ * @description Test della distribuzione automatica dell'effort sui giorni lavorativi:
+ * festività, assenze approvate, tetto di staffing, carico delle altre assegnazioni
+ * e variazioni delle assenze che richiedono una redistribuzione.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    applyEffortDistribution,
+    buildEffortRedistribution,
+    distributeEffort,
+    getChangedLeaveWindows,
+    getDistributedEffortDays,
+    toEffortAllocationUpdates,
+} from './effortPlanningUtils';
+import type { CalendarEvent, LeaveRequest } from '../types';
+
+// Settimana lun 3 → ven 7 giugno 2024 (più il weekend 8–9)
+const resource = { id: 'r1', maxStaffingPercentage: 100, location: 'Milano', lastDayOfWork: null };
+const leaveTypes = [{ id: 'ferie', affectsCapacity: true }, { id: 'smart', affectsCapacity: false }];
+const holiday: CalendarEvent = { name: 'Festa', date: '2024-06-05', type: 'NATIONAL_HOLIDAY', location: null };
+const leave = (id: string, startDate: string, endDate: string, extra: Partial<LeaveRequest> = {}): LeaveRequest => ({
+    id, resourceId: 'r1', typeId: 'ferie', startDate, endDate, status: 'APPROVED', ...extra,
+});
+
+const baseInput = { resource, leaveRequests: [], leaveTypes, companyCalendar: [], startDate: '2024-06-03', endDate: '2024-06-09' };
+
+describe('distributeEffort', () => {
+    it('distribuisce in modo uniforme sui soli giorni lavorativi', () => {
+        const result = distributeEffort({ ...baseInput, effortDays: 2.5 });
+        expect(result.allocations).toEqual({
+            '2024-06-03': 50, '2024-06-04': 50, '2024-06-05': 50, '2024-06-06': 50, '2024-06-07': 50,
+        });
+        expect(result.distributedDays).toBe(2.5);
+        expect(result.shortfallDays).toBe(0);
+    });
+
+    it('salta festività e assenze approvate che incidono sulla capacità', () => {
+        const result = distributeEffort({
+            ...baseInput,
+            effortDays: 2,
+            companyCalendar: [holiday],
+            leaveRequests: [leave('l1', '2024-06-06', '2024-06-06'), leave('l2', '2024-06-07', '2024-06-07', { typeId: 'smart' })],
+        });
+        expect(Object.keys(result.allocations)).toEqual(['2024-06-03', '2024-06-04', '2024-06-07']);
+        expect(result.distributedDays).toBe(2);
+    });
+
+    it('assegna il resto ai primi giorni in multipli di 5%', () => {
+        const result = distributeEffort({ ...baseInput, effortDays: 1.1 });
+        expect(Object.values(result.allocations)).toEqual([25, 25, 20, 20, 20]);
+    });
+
+    it('rispetta il tetto di staffing al netto delle altre assegnazioni e segnala la parte non collocabile', () => {
+        const result = distributeEffort({
+            ...baseInput,
+            effortDays: 4,
+            resource: { ...resource, maxStaffingPercentage: 80 },
+            otherLoad: { '2024-06-03': 80, '2024-06-04': 30 },
+        });
+        expect(result.allocations).toEqual({ '2024-06-04': 50, '2024-06-05': 80, '2024-06-06': 80, '2024-06-07': 80 });
+        expect(result.distributedDays).toBe(2.9);
+        expect(result.shortfallDays).toBe(1.1);
+    });
+
+    it('restituisce una distribuzione vuota per finestre non valide', () => {
+        const result = distributeEffort({ ...baseInput, effortDays: 3, startDate: '2024-06-07', endDate: '2024-06-03' });
+        expect(result.allocations).toEqual({});
+        expect(result.shortfallDays).toBe(3);
+    });
+});
+
+describe('buildEffortRedistribution / applyEffortDistribution', () => {
+    const assignments = [{ id: 'a1', resourceId: 'r1' }, { id: 'a2', resourceId: 'r1' }, { id: 'x', resourceId: 'r2' }];
+    const allocations = {
+        a1: { '2024-05-31': 100, '2024-06-03': 10 },
+        a2: { '2024-06-03': 60 },
+        x: { '2024-06-04': 100 },
+    };
+
+    it('sottrae solo il carico delle altre assegnazioni della stessa risorsa e include la finestra precedente', () => {
+        const result = buildEffortRedistribution({
+            ...baseInput,
+            assignment: { id: 'a1', resourceId: 'r1', plannedEffortDays: 1, effortStartDate: '2024-06-03', effortEndDate: '2024-06-04' },
+            assignments,
+            allocations,
+            previousWindow: { startDate: '2024-05-27', endDate: '2024-06-04' },
+        });
+        expect(result.allocations).toEqual({ '2024-06-03': 40, '2024-06-04': 60 });
+        expect(result.clearedStartDate).toBe('2024-05-27');
+        expect(result.clearedEndDate).toBe('2024-06-04');
+
+        const merged = applyEffortDistribution(allocations, result);
+        expect(merged.a1).toEqual({ '2024-06-03': 40, '2024-06-04': 60 });
+        expect(merged.a2).toBe(allocations.a2);
+        expect(getDistributedEffortDays(merged.a1, '2024-06-03', '2024-06-04')).toBe(1);
+    });
+
+    it('traduce la redistribuzione in aggiornamenti di cella, azzerando le celle ripulite', () => {
+        const result = buildEffortRedistribution({
+            ...baseInput,
+            assignment: { id: 'a1', resourceId: 'r1', plannedEffortDays: 1, effortStartDate: '2024-06-03', effortEndDate: '2024-06-04' },
+            assignments,
+            allocations,
+            previousWindow: { startDate: '2024-05-27', endDate: '2024-06-04' },
+        });
+        expect(toEffortAllocationUpdates(allocations.a1, result)).toEqual([
+            { assignmentId: 'a1', date: '2024-05-31', percentage: 0 },
+            { assignmentId: 'a1', date: '2024-06-03', percentage: 40 },
+            { assignmentId: 'a1', date: '2024-06-04', percentage: 60 },
+        ]);
+    });
+});
+
+describe('getChangedLeaveWindows', () => {
+    it('individua per risorsa le assenze approvate create, modificate o rimosse', () => {
+        const previous = [
+            leave('l1', '2024-06-03', '2024-06-03'),
+            leave('l2', '2024-06-10', '2024-06-11', { status: 'PENDING' }),
+            leave('l3', '2024-07-01', '2024-07-02'),
+        ];
+        const next = [
+            leave('l1', '2024-06-03', '2024-06-03'),
+            leave('l2', '2024-06-10', '2024-06-11'),
+            leave('l4', '2024-06-20', '2024-06-20', { resourceId: 'r2' }),
+        ];
+        expect(getChangedLeaveWindows(previous, next)).toEqual([
+            { resourceId: 'r1', startDate: '2024-06-10', endDate: '2024-07-02' },
+            { resourceId: 'r2', startDate: '2024-06-20', endDate: '2024-06-20' },
+        ]);
+    });
+
+    it('ignora le variazioni di assenze mai approvate', () => {
+        const pending = leave('l1', '2024-06-03', '2024-06-04', { status: 'PENDING' });
+        expect(getChangedLeaveWindows([pending], [{ ...pending, endDate: '2024-06-05' }])).toEqual([]);
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * @file effortPlanningUtils.ts
+ * @description Utility pure per la pianificazione a effort: un'assegnazione porta un
+ * impegno pianificato in giorni/uomo su una finestra di date, che viene distribuito
+ * automaticamente sui giorni lavorativi della risorsa.
+ *
+ * Usate sia dal server (`action=effort` di `api/staffing.ts` e scritture delle assenze di `api/resources.ts`)
+ * sia dal Mock Engine locale.
+ * La capacità giornaliera è la stessa del controllo di sovrallocazione (`getDailyCapacity`):
+ * giorni non lavorativi e festività della sede (`buildHolidaySet`), assenze approvate che incidono sulla
+ * capacità e `lastDayOfWork` azzerano o riducono il giorno; il tetto è `maxStaffingPercentage`
+ * al netto del carico delle altre assegnazioni della risorsa.
+ */
+import type { Allocation, AllocationUpdate, Assignment, EffortDistributionResult, LeaveRequest } from '../types';
+import { buildHolidaySet, parseISODate, toISODateString } from './dateUtils.js';
+import { getDailyCapacity, type OverbookingCheckInput } from './overbookingUtils.js';
+
+/** Granularità delle percentuali distribuite (coerente con la griglia di Staffing). */
+export const EFFORT_ALLOCATION_STEP = 5;
+
+/** Limite di sicurezza sulla lunghezza della finestra (circa 5 anni). */
+const MAX_WINDOW_DAYS = 1830;
+
+export interface EffortDistributionInput {
+    /** Giorni/uomo da distribuire (1 g/u = 100% per un giorno). */
+    effortDays: number;
+    startDate: string;
+    endDate: string;
+    resource: OverbookingCheckInput['resources'][number];
+    leaveRequests: OverbookingCheckInput['leaveRequests'];
+    leaveTypes: OverbookingCheckInput['leaveTypes'];
+    companyCalendar: OverbookingCheckInput['companyCalendar'];
+    locationCalendars?: OverbookingCheckInput['locationCalendars'];
+    /** Carico (%) delle altre assegnazioni della risorsa per data, sottratto alla capacità. */
+    otherLoad?: Record<string, number>;
+}
+
+export interface EffortDistribution {
+    /** Percentuale per data (solo giorni con allocazione > 0). */
+    allocations: Record<string, number>;
+    plannedDays: number;
+    distributedDays: number;
+    /** Effort non collocabile nella finestra per mancanza di capacità. */
+    shortfallDays: number;
+}
+
+const roundDays = (value: number) => Math.round(value * 100) / 100;
+
+/** True se l'assegnazione ha un piano di effort completo. */
+export const hasEffortPlan = (assignment: Pick<Assignment, 'plannedEffortDays' | 'effortStartDate' | 'effortEndDate'>): boolean =>
+    assignment.plannedEffortDays != null && assignment.plannedEffortDays > 0
+    && !!assignment.effortStartDate && !!assignment.effortEndDate;
+
+/**
+ * Distribuisce l'effort nel modo più uniforme possibile ("riempimento a livello"):
+ * ogni giorno riceve la stessa quota, salvo i giorni con capacità residua inferiore,
+ * che vengono saturati lasciando il resto agli altri. Le quote sono multipli di
+ * `EFFORT_ALLOCATION_STEP`; l'eventuale resto va ai primi giorni della finestra.
+ */
+export const distributeEffort = (input: EffortDistributionInput): EffortDistribution => {
+    const { effortDays, startDate, endDate, resource, leaveRequests, leaveTypes, companyCalendar, locationCalendars, otherLoad = {} } = input;
+    const plannedDays = roundDays(Math.max(0, effortDays));
+    const empty: EffortDistribution = { allocations: {}, plannedDays, distributedDays: 0, shortfallDays: plannedDays };
+
+    const start = parseISODate(startDate);
+    const end = parseISODate(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start.getTime() > end.getTime() || plannedDays === 0) {
+        return empty;
+    }
+
+    const holidaySet = buildHolidaySet(companyCalendar, locationCalendars);
+    const capacityTypeIds = new Set(leaveTypes.filter(t => t.affectsCapacity).map(t => t.id));
+    const capacityLeaves = leaveRequests.filter(l => l.status === 'APPROVED' && capacityTypeIds.has(l.typeId));
+
+    // Capacità residua per giorno, in unità da EFFORT_ALLOCATION_STEP
+    const days: { date: string; capUnits: number; units: number }[] = [];
+    const curr = new Date(start.getTime());
+    for (let i = 0; curr.getTime() <= end.getTime() && i < MAX_WINDOW_DAYS; i++) {
+        const date = toISODateString(curr);
+        const { capacity } = getDailyCapacity(resource, date, holidaySet, capacityLeaves);
+        const capUnits = Math.floor(Math.max(0, capacity - (otherLoad[date] || 0)) / EFFORT_ALLOCATION_STEP);
+        if (capUnits > 0) days.push({ date, capUnits, units: 0 });
+        curr.setUTCDate(curr.getUTCDate() + 1);
+    }
+
+    let remaining = Math.round((plannedDays * 100) / EFFORT_ALLOCATION_STEP);
+    let open = days;
+    while (remaining > 0 && open.length > 0) {
+        const share = Math.floor(remaining / open.length);
+        if (share === 0) {
+            // Resto inferiore al numero di giorni: una unità ai primi giorni disponibili
+            for (const day of open.slice(0, remaining)) day.units += 1;
+            remaining = 0;
+            break;
+        }
+        for (const day of open) {
+            const add = Math.min(share, day.capUnits - day.units);
+            day.units += add;
+            remaining -= add;
+        }
+        open = open.filter(day => day.units < day.capUnits);
+    }
+
+    const allocations: Record<string, number> = {};
+    let distributedUnits = 0;
+    for (const day of days) {
+        if (day.units === 0) continue;
+        allocations[day.date] = day.units * EFFORT_ALLOCATION_STEP;
+        distributedUnits += day.units;
+    }
+    const distributedDays = roundDays((distributedUnits * EFFORT_ALLOCATION_STEP) / 100);
+    return { allocations, plannedDays, distributedDays, shortfallDays: roundDays(Math.max(0, plannedDays - distributedDays)) };
+};
+
+/** Giorni/uomo effettivamente allocati su un'assegnazione nella finestra del piano. */
+export const getDistributedEffortDays = (
+    assignmentAllocations: Record<string, number> | undefined,
+    startDate: string,
+    endDate: string
+): number => {
+    let total = 0;
+    for (const [date, percentage] of Object.entries(assignmentAllocations || {})) {
+        if (date >= startDate && date <= endDate) total += percentage;
+    }
+    return roundDays(total / 100);
+};
+
+export interface EffortRedistributionInput extends Omit<EffortDistributionInput, 'effortDays' | 'startDate' | 'endDate' | 'otherLoad'> {
+    assignment: Pick<Assignment, 'id' | 'resourceId' | 'plannedEffortDays' | 'effortStartDate' | 'effortEndDate'>;
+    /** Assegnazioni della risorsa: il carico delle altre viene sottratto alla capacità. */
+    assignments: Pick<Assignment, 'id' | 'resourceId'>[];
+    allocations: Allocation;
+    /** Finestra del piano prima della modifica: le sue allocazioni vengono sostituite. */
+    previousWindow?: { startDate: string; endDate: string } | null;
+}
+
+/**
+ * Ricalcola la distribuzione di un'assegnazione con piano di effort. Le allocazioni
+ * esistenti nella finestra (e nella finestra precedente, se spostata) vengono
+ * sostituite: la finestra da ripulire è restituita in `clearedStartDate`/`clearedEndDate`.
+ */
+export const buildEffortRedistribution = (input: EffortRedistributionInput): EffortDistributionResult => {
+    const { assignment, assignments, allocations, previousWindow, ...context } = input;
+    const base = {
+        assignmentId: assignment.id!,
+        plannedEffortDays: assignment.plannedEffortDays ?? null,
+        effortStartDate: assignment.effortStartDate ?? null,
+        effortEndDate: assignment.effortEndDate ?? null,
+    };
+    if (!hasEffortPlan(assignment)) {
+        return { ...base, clearedStartDate: null, clearedEndDate: null, allocations: {}, distributedDays: 0, shortfallDays: 0 };
+    }
+
+    const startDate = assignment.effortStartDate!;
+    const endDate = assignment.effortEndDate!;
+    const otherLoad: Record<string, number> = {};
+    for (const other of assignments) {
+        if (!other.id || other.id === assignment.id || other.resourceId !== assignment.resourceId) continue;
+        for (const [date, percentage] of Object.entries(allocations[other.id] || {})) {
+            if (date >= startDate && date <= endDate) otherLoad[date] = (otherLoad[date] || 0) + percentage;
+        }
+    }
+
+    const distribution = distributeEffort({ ...context, effortDays: Number(assignment.plannedEffortDays), startDate, endDate, otherLoad });
+    return {
+        ...base,
+        clearedStartDate: previousWindow && previousWindow.startDate < startDate ? previousWindow.startDate : startDate,
+        clearedEndDate: previousWindow && previousWindow.endDate > endDate ? previousWindow.endDate : endDate,
+        allocations: distribution.allocations,
+        distributedDays: distribution.distributedDays,
+        shortfallDays: distribution.shortfallDays,
+    };
+};
+
+/** Applica l'esito di una redistribuzione alla mappa locale delle allocazioni. */
+export const applyEffortDistribution = (allocations: Allocation, result: EffortDistributionResult): Allocation => {
+    const { assignmentId, clearedStartDate, clearedEndDate } = result;
+    if (!clearedStartDate || !clearedEndDate) return allocations;
+    const kept = Object.entries(allocations[assignmentId] || {})
+        .filter(([date]) => date < clearedStartDate || date > clearedEndDate);
+    return { ...allocations, [assignmentId]: { ...Object.fromEntries(kept), ...result.allocations } };
+};
+
+/**
+ * Aggiornamenti di cella equivalenti a una redistribuzione, per i controlli sulle scritture:
+ * le celle della finestra ripulita che restano senza allocazione vanno a zero.
+ */
+export const toEffortAllocationUpdates = (current: Record<string, number>, result: EffortDistributionResult): AllocationUpdate[] => {
+    const { assignmentId, clearedStartDate, clearedEndDate } = result;
+    if (!clearedStartDate || !clearedEndDate) return [];
+    const cleared = Object.keys(current)
+        .filter(date => date >= clearedStartDate && date <= clearedEndDate && !(date in result.allocations))
+        .map(date => ({ assignmentId, date, percentage: 0 }));
+    return [...cleared, ...Object.entries(result.allocations).map(([date, percentage]) => ({ assignmentId, date, percentage }))];
+};
+
+type LeaveSnapshot = Pick<LeaveRequest, 'id' | 'resourceId' | 'typeId' | 'startDate' | 'endDate' | 'status' | 'isHalfDay'>;
+
+const isSameLeave = (a: LeaveSnapshot, b: LeaveSnapshot) =>
+    a.resourceId === b.resourceId && a.typeId === b.typeId && a.startDate === b.startDate
+    && a.endDate === b.endDate && a.status === b.status && !!a.isHalfDay === !!b.isHalfDay;
+
+/**
+ * Confronta due versioni dell'elenco assenze e restituisce, per risorsa, la finestra
+ * in cui la capacità può essere cambiata: assenze approvate create, eliminate o
+ * modificate, e assenze che entrano o escono dallo stato APPROVED.
+ */
+export const getChangedLeaveWindows = (
+    previous: LeaveSnapshot[],
+    next: LeaveSnapshot[]
+): { resourceId: string; startDate: string; endDate: string }[] => {
+    const prevById = new Map(previous.filter(l => l.id).map(l => [l.id!, l]));
+    const nextById = new Map(next.filter(l => l.id).map(l => [l.id!, l]));
+    const windows = new Map<string, { resourceId: string; startDate: string; endDate: string }>();
+    const add = (leave: LeaveSnapshot) => {
+        if (leave.status !== 'APPROVED') return;
+        const current = windows.get(leave.resourceId);
+        windows.set(leave.resourceId, {
+            resourceId: leave.resourceId,
+            startDate: current && current.startDate < leave.startDate ? current.startDate : leave.startDate,
+            endDate: current && current.endDate > leave.endDate ? current.endDate : leave.endDate,
+        });
+    };
+
+    for (const [id, leave] of nextById) {
+        const before = prevById.get(id);
+        if (!before) add(leave);
+        else if (!isSameLeave(before, leave)) { add(before); add(leave); }
+    }
+    for (const [id, leave] of prevById) {
+        if (!nextById.has(id)) add(leave);
+    }
+    return Array.from(windows.values());
+};
@@ -0,0 +1,88 @@
+/**
+ * @file evmUtils.test.ts
+ * @description Test dell'Earned Value Management: PV dal piano delle allocazioni, EV dalla
+ * percentuale di realizzazione, AC da consuntivi o allocazioni, indici, stime a finire e portafoglio.
+ */
+import { describe, it, expect } from 'vitest';
+import { EvmCostPoint, computeProjectEvm, getEvmIndexStatus, summarizePortfolioEvm } from './evmUtils';
+
+/** `count` giornate da `cost` a partire dal giorno 1 del mese. */
+const days = (month: string, count: number, cost: number): EvmCostPoint[] =>
+    Array.from({ length: count }, (_, i) => ({ date: `${month}-${String(i + 1).padStart(2, '0')}`, cost }));
+
+const plannedCosts = [...days('2025-01', 10, 500), ...days('2025-02', 10, 500)];
+const project = { id: 'p1', budget: 10000, realizationPercentage: 40 };
+
+describe('computeProjectEvm', () => {
+    it('calcola PV, EV e AC dalle allocazioni e ne deriva indici e stime', () => {
+        const evm = computeProjectEvm({ project, plannedCosts, statusDate: '2025-01-31' });
+        expect(evm).toMatchObject({ bac: 10000, pv: 5000, ev: 4000, ac: 5000, acSource: 'ALLOCATIONS', cv: -1000, sv: -1000 });
+        expect(evm.cpi).toBeCloseTo(0.8);
+        expect(evm.spi).toBeCloseTo(0.8);
+        expect(evm.eac).toBe(12500);
+        expect(evm.etc).toBe(7500);
+        expect(evm.vac).toBe(-2500);
+    });
+
+    it('distribuisce il budget secondo il profilo di costo del piano', () => {
+        const evm = computeProjectEvm({ project: { ...project, budget: 20000 }, plannedCosts, statusDate: '2025-01-31' });
+        expect(evm.pv).toBe(10000);
+        expect(evm.trend.map(p => [p.month, p.pv, p.ev, p.ac])).toEqual([
+            ['2025-01', 10000, 8000, 5000],
+            ['2025-02', 20000, null, null],
+        ]);
+        // EV storico stimato da AC: il CPI mensile sarebbe costante e non fa parte del trend
+        expect(evm.trend[0]).not.toHaveProperty('cpi');
+    });
+
+    it('usa i consuntivi dove presenti e le allocazioni per gli altri mesi', () => {
+        const onlyActuals = computeProjectEvm({
+            project, plannedCosts, actualCostsByMonth: new Map([['2025-01', 4000]]), statusDate: '2025-01-31',
+        });
+        expect(onlyActuals.ac).toBe(4000);
+        expect(onlyActuals.acSource).toBe('ACTUALS');
+        expect(onlyActuals.cpi).toBeCloseTo(1);
+
+        const mixed = computeProjectEvm({
+            project, plannedCosts, actualCostsByMonth: new Map([['2025-01', 4000]]), statusDate: '2025-02-28',
+        });
+        expect(mixed.ac).toBe(9000);
+        expect(mixed.acSource).toBe('MIXED');
+        expect(mixed.trend[0]).toMatchObject({ month: '2025-01', ac: 4000, ev: 1777.78 });
+    });
+
+    it('senza budget usa il costo pianificato e limita la realizzazione al 100%', () => {
+        const evm = computeProjectEvm({ project: { id: 'p2', budget: 0, realizationPercentage: 150 }, plannedCosts, statusDate: '2025-02-28' });
+        expect(evm.bac).toBe(10000);
+        expect(evm.percentComplete).toBe(100);
+        expect(evm.ev).toBe(10000);
+    });
+
+    it('senza piano né costi gli indici non sono disponibili e l\'EAC coincide con il BAC', () => {
+        const evm = computeProjectEvm({ project: { id: 'p3', budget: 5000, realizationPercentage: 0 }, plannedCosts: [], statusDate: '2025-01-31' });
+        expect(evm.cpi).toBeNull();
+        expect(evm.spi).toBeNull();
+        expect(evm.eac).toBe(5000);
+        expect(evm.trend).toEqual([]);
+    });
+});
+
+describe('summarizePortfolioEvm', () => {
+    it('somma i valori e calcola gli indici sui totali', () => {
+        const a = computeProjectEvm({ project, plannedCosts, statusDate: '2025-01-31' });
+        const b = computeProjectEvm({ project: { id: 'p2', budget: 10000, realizationPercentage: 60 }, plannedCosts, statusDate: '2025-01-31' });
+        const portfolio = summarizePortfolioEvm([a, b]);
+        expect(portfolio).toMatchObject({ projectCount: 2, bac: 20000, pv: 10000, ev: 10000, ac: 10000 });
+        expect(portfolio.cpi).toBeCloseTo(1);
+        expect(portfolio.spi).toBeCloseTo(1);
+    });
+});
+
+describe('getEvmIndexStatus', () => {
+    it('classifica gli indici rispetto alle soglie', () => {
+        expect(getEvmIndexStatus(1.05)).toBe('good');
+        expect(getEvmIndexStatus(0.95)).toBe('warning');
+        expect(getEvmIndexStatus(0.7)).toBe('critical');
+        expect(getEvmIndexStatus(null)).toBe('none');
+    });
+});
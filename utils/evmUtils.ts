@@ -0,0 +1,207 @@
+/**
+ * @file evmUtils.ts
+ * @description Earned Value Management per progetto: Planned Value dal piano delle allocazioni nel
+ * tempo, Earned Value dalla percentuale di realizzazione, Actual Cost dai consuntivi (timesheet
+ * approvati) o, in loro assenza, dal costo delle allocazioni già trascorse. Ne derivano CPI, SPI,
+ * EAC ed ETC, per singolo progetto e per il portafoglio.
+ *
+ * Il BAC è il budget del progetto; senza budget vale il costo pianificato complessivo. Il PV
+ * distribuisce il BAC secondo il profilo di costo delle allocazioni, così a fine piano PV = BAC.
+ * La percentuale di realizzazione è un valore corrente: nel trend l'EV dei mesi passati è
+ * ricostruito in proporzione all'Actual Cost cumulato. Per costruzione il CPI storico sarebbe
+ * costante (EV/AC = CPI corrente), quindi il trend riporta solo l'SPI.
+ */
+import type { Project } from '../types';
+
+/** Costo pianificato di una giornata (allocazione costata alla propria data). */
+export interface EvmCostPoint {
+    date: string;
+    cost: number;
+}
+
+/** Valori cumulati a fine mese; EV e AC sono null per i mesi successivi alla data di stato. */
+export interface EvmTrendPoint {
+    month: string;
+    pv: number;
+    /** Stimato per i mesi passati (vedi intestazione del file). */
+    ev: number | null;
+    ac: number | null;
+    spi: number | null;
+}
+
+export type EvmActualCostSource = 'ACTUALS' | 'ALLOCATIONS' | 'MIXED';
+
+export interface ProjectEvm {
+    projectId: string;
+    statusDate: string;
+    /** Budget at Completion. */
+    bac: number;
+    /** Percentuale di completamento (0-100) usata per l'EV. */
+    percentComplete: number;
+    pv: number;
+    ev: number;
+    ac: number;
+    acSource: EvmActualCostSource;
+    /** Cost Performance Index (EV / AC), null senza costi sostenuti. */
+    cpi: number | null;
+    /** Schedule Performance Index (EV / PV), null senza valore pianificato alla data. */
+    spi: number | null;
+    cv: number;
+    sv: number;
+    /** Estimate at Completion: BAC / CPI, oppure AC + lavoro residuo se il CPI non è significativo. */
+    eac: number;
+    /** Estimate to Complete (EAC - AC). */
+    etc: number;
+    /** Variance at Completion (BAC - EAC). */
+    vac: number;
+    trend: EvmTrendPoint[];
+}
+
+export interface ProjectEvmInput {
+    project: Pick<Project, 'id' | 'budget' | 'realizationPercentage'>;
+    plannedCosts: EvmCostPoint[];
+    /** Costi consuntivi per mese (YYYY-MM); i mesi assenti usano il costo delle allocazioni. */
+    actualCostsByMonth?: Map<string, number>;
+    statusDate: string;
+}
+
+/** Soglie dei semafori CPI/SPI: sotto 0,9 il progetto è critico. */
+export const EVM_INDEX_WARNING_THRESHOLD = 0.9;
+
+export type EvmIndexStatus = 'good' | 'warning' | 'critical' | 'none';
+
+export const getEvmIndexStatus = (index: number | null): EvmIndexStatus => {
+    if (index === null) return 'none';
+    if (index >= 1) return 'good';
+    return index >= EVM_INDEX_WARNING_THRESHOLD ? 'warning' : 'critical';
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const ratio = (numerator: number, denominator: number): number | null => (denominator > 0 ? numerator / denominator : null);
+
+const monthsBetween = (first: string, last: string): string[] => {
+    const months: string[] = [];
+    let [year, month] = first.split('-').map(Number);
+    const [lastYear, lastMonth] = last.split('-').map(Number);
+    while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+        months.push(`${year}-${String(month).padStart(2, '0')}`);
+        month++;
+        if (month > 12) { month = 1; year++; }
+    }
+    return months;
+};
+
+/** Stima a finire: con CPI positivo BAC / CPI, altrimenti costo sostenuto più il lavoro non ancora guadagnato. */
+const estimateAtCompletion = (bac: number, ev: number, ac: number, cpi: number | null): number =>
+    cpi !== null && cpi > 0 ? bac / cpi : ac + Math.max(bac - ev, 0);
+
+/** Calcola gli indicatori EVM di un progetto alla data di stato e il loro andamento mensile. */
+export const computeProjectEvm = ({ project, plannedCosts, actualCostsByMonth, statusDate }: ProjectEvmInput): ProjectEvm => {
+    const statusMonth = statusDate.slice(0, 7);
+    const plannedByMonth = new Map<string, number>();
+    const elapsedPlannedByMonth = new Map<string, number>();
+    let totalPlanned = 0;
+    for (const { date, cost } of plannedCosts) {
+        if (!(cost > 0)) continue;
+        const month = date.slice(0, 7);
+        totalPlanned += cost;
+        plannedByMonth.set(month, (plannedByMonth.get(month) || 0) + cost);
+        if (date <= statusDate) elapsedPlannedByMonth.set(month, (elapsedPlannedByMonth.get(month) || 0) + cost);
+    }
+
+    const bac = Number(project.budget) > 0 ? Number(project.budget) : totalPlanned;
+    const percentComplete = Math.min(Math.max(Number(project.realizationPercentage) || 0, 0), 100);
+    const ev = bac * percentComplete / 100;
+    const pvScale = totalPlanned > 0 ? bac / totalPlanned : 0;
+
+    const actualMonths = Array.from(actualCostsByMonth?.keys() || []).filter(month => month <= statusMonth);
+    const allMonths = [...plannedByMonth.keys(), ...actualMonths].sort();
+    const months = allMonths.length > 0 ? monthsBetween(allMonths[0], allMonths[allMonths.length - 1]) : [];
+
+    let cumulativePlanned = 0;
+    let cumulativeActual = 0;
+    let usedActuals = false;
+    let usedAllocations = false;
+    const cumulative = months.map(month => {
+        cumulativePlanned += plannedByMonth.get(month) || 0;
+        if (month <= statusMonth) {
+            const actual = actualCostsByMonth?.get(month);
+            if (actual !== undefined) {
+                cumulativeActual += actual;
+                usedActuals = true;
+            } else if (elapsedPlannedByMonth.has(month)) {
+                cumulativeActual += elapsedPlannedByMonth.get(month)!;
+                usedAllocations = true;
+            }
+        }
+        return { month, planned: cumulativePlanned, actual: month <= statusMonth ? cumulativeActual : null };
+    });
+
+    const plannedToDate = Array.from(elapsedPlannedByMonth.values()).reduce((sum, cost) => sum + cost, 0);
+    const pv = plannedToDate * pvScale;
+    const ac = cumulativeActual;
+    const cpi = ratio(ev, ac);
+    const spi = ratio(ev, pv);
+    const eac = estimateAtCompletion(bac, ev, ac, cpi);
+
+    const trend: EvmTrendPoint[] = cumulative.map(({ month, planned, actual }) => {
+        const monthPv = month === statusMonth ? pv : planned * pvScale;
+        if (actual === null) return { month, pv: round2(monthPv), ev: null, ac: null, spi: null };
+        // EV storico in proporzione al costo sostenuto (o al piano se non ci sono ancora costi)
+        const share = ac > 0 ? actual / ac : pv > 0 ? monthPv / pv : 0;
+        const monthEv = ev * Math.min(share, 1);
+        return { month, pv: round2(monthPv), ev: round2(monthEv), ac: round2(actual), spi: ratio(monthEv, monthPv) };
+    });
+
+    return {
+        projectId: project.id!,
+        statusDate,
+        bac: round2(bac),
+        percentComplete,
+        pv: round2(pv),
+        ev: round2(ev),
+        ac: round2(ac),
+        acSource: usedActuals && usedAllocations ? 'MIXED' : usedActuals ? 'ACTUALS' : 'ALLOCATIONS',
+        cpi,
+        spi,
+        cv: round2(ev - ac),
+        sv: round2(ev - pv),
+        eac: round2(eac),
+        etc: round2(Math.max(eac - ac, 0)),
+        vac: round2(bac - eac),
+        trend,
+    };
+};
+
+export interface PortfolioEvm {
+    projectCount: number;
+    bac: number;
+    pv: number;
+    ev: number;
+    ac: number;
+    cpi: number | null;
+    spi: number | null;
+    eac: number;
+    etc: number;
+    vac: number;
+}
+
+/** Indicatori di portafoglio: somma dei valori di progetto, indici calcolati sui totali. */
+export const summarizePortfolioEvm = (evms: ProjectEvm[]): PortfolioEvm => {
+    const totals = evms.reduce(
+        (acc, e) => ({ bac: acc.bac + e.bac, pv: acc.pv + e.pv, ev: acc.ev + e.ev, ac: acc.ac + e.ac, eac: acc.eac + e.eac, etc: acc.etc + e.etc }),
+        { bac: 0, pv: 0, ev: 0, ac: 0, eac: 0, etc: 0 }
+    );
+    return {
+        projectCount: evms.length,
+        bac: round2(totals.bac),
+        pv: round2(totals.pv),
+        ev: round2(totals.ev),
+        ac: round2(totals.ac),
+        cpi: ratio(totals.ev, totals.ac),
+        spi: ratio(totals.ev, totals.pv),
+        eac: round2(totals.eac),
+        etc: round2(totals.etc),
+        vac: round2(totals.bac - totals.eac),
+    };
+};
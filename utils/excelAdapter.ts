@@ -21,14 +21,24 @@ interface ColInfo {
  * Stile da applicare al foglio:
  * - `table`  (default): header brand, zebratura, bordi, filtro e riga header bloccata;
  * - `title`: foglio testuale (es. Istruzioni) con solo il titolo evidenziato;
+ * - `grid`:  griglia colorata (es. Staffing): header brand, bordi, colori per cella (`!fills`),
+ *            righe in grassetto (`!boldRows`), header e prime `!frozenCols` colonne bloccati;
  * - `none`:  nessuno stile, solo larghezze colonna.
  */
-type SheetStyle = 'table' | 'title' | 'none';
+type SheetStyle = 'table' | 'title' | 'grid' | 'none';
+
+/** Hint dello stile `grid`, indicizzati come le righe dati (header escluso). */
+interface GridHints {
+    /** Colore di sfondo per cella in ARGB (null = nessuno). */
+    '!fills'?: (string | null)[][];
+    '!boldRows'?: number[];
+    '!frozenCols'?: number;
+}
 
 /** Descrittore di foglio prodotto da json_to_sheet/aoa_to_sheet, materializzato in book_append_sheet. */
 type SheetDescriptor =
-    | { _kind: 'json'; headers: string[]; rows: Record<string, unknown>[]; '!cols'?: ColInfo[]; '!style'?: SheetStyle }
-    | { _kind: 'aoa'; aoa: unknown[][]; '!cols'?: ColInfo[]; '!style'?: SheetStyle };
+    | ({ _kind: 'json'; headers: string[]; rows: Record<string, unknown>[]; '!cols'?: ColInfo[]; '!style'?: SheetStyle } & GridHints)
+    | ({ _kind: 'aoa'; aoa: unknown[][]; '!cols'?: ColInfo[]; '!style'?: SheetStyle } & GridHints);
 
 /** Workbook in lettura, espone i fogli per nome come faceva xlsx (`workbook.Sheets[name]`). */
 interface ReadWorkbook {
@@ -156,6 +166,39 @@ const styleTableSheet = (ws: ExcelJS.Worksheet, colCount: number): void => {
     ws.autoFilter = `A1:${ws.getColumn(colCount).letter}1`;
 };
 
+/** Stile "grid": header brand, bordi e colori per cella, senza zebratura né filtro. */
+const styleGridSheet = (ws: ExcelJS.Worksheet, colCount: number, hints: GridHints): void => {
+    if (colCount === 0 || ws.rowCount === 0) return;
+
+    const header = ws.getRow(1);
+    for (let c = 1; c <= colCount; c++) {
+        const cell = header.getCell(c);
+        cell.font = { bold: true, color: { argb: HEADER_TEXT_ARGB } };
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: BRAND_ARGB } };
+        cell.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+        cell.border = thinBorder;
+    }
+
+    const boldRows = new Set(hints['!boldRows'] || []);
+    for (let r = 2; r <= ws.rowCount; r++) {
+        const row = ws.getRow(r);
+        const fills = hints['!fills']?.[r - 2];
+        for (let c = 1; c <= colCount; c++) {
+            const cell = row.getCell(c);
+            cell.border = thinBorder;
+            const fill = fills?.[c - 1];
+            if (fill) cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } };
+            if (boldRows.has(r - 2)) cell.font = { bold: true };
+            if (typeof cell.value === 'number') {
+                cell.numFmt = Number.isInteger(cell.value) ? INT_FORMAT : DEC_FORMAT;
+            }
+            if (c > (hints['!frozenCols'] ?? 0)) cell.alignment = { horizontal: 'center' };
+        }
+    }
+
+    ws.views = [{ state: 'frozen', ySplit: 1, xSplit: hints['!frozenCols'] ?? 0 }];
+};
+
 /** Evidenzia solo la prima riga come titolo (fogli testuali, es. Istruzioni). */
 const styleTitleSheet = (ws: ExcelJS.Worksheet): void => {
     if (ws.rowCount === 0) return;
@@ -197,6 +240,8 @@ const book_append_sheet = (wb: ExcelJS.Workbook, sheet: SheetDescriptor, name: s
     const style = sheet['!style'] ?? 'table';
     if (style === 'table' && hasHeader) {
         styleTableSheet(ws, colCount);
+    } else if (style === 'grid' && hasHeader) {
+        styleGridSheet(ws, colCount, sheet);
     } else if (style === 'title') {
         styleTitleSheet(ws);
     }
@@ -7,6 +7,10 @@
 import { AppUser, RolePermission, Resource, EntitiesContextType, Allocation } from '../types';
 import { isHoliday } from './dateUtils';
 import { buildCsv, buildJson } from './exportTableUtils';
+import {
+    formatStaffingGridCell, STAFFING_LOAD_TONE_COLORS, STAFFING_LOAD_TONE_LABELS,
+    type StaffingGridExport, type StaffingLoadTone,
+} from './staffingGridExportUtils';
 
 type ExportType = 'core_entities' | 'staffing' | 'resource_requests' | 'interviews' | 'skills' | 'leaves' | 'users_permissions' | 'tutor_mapping' | 'monthly_allocations';
 
@@ -159,6 +163,50 @@ export const exportStaffing = async (data: EntitiesContextType & { allocations:
     await XLSX.writeFile(wb, `Staffing_Export_Staffing_${formatDateForExport(new Date())}.xlsx`);
 };
 
+/**
+ * Esporta la griglia di Staffing così come è visualizzata (filtri, vista, colori di carico e
+ * festività), con un secondo foglio per periodo, filtri e legenda dei colori.
+ */
+export const exportStaffingGrid = async (grid: StaffingGridExport) => {
+    const XLSX = await import('./excelAdapter');
+    const wb = XLSX.utils.book_new();
+    const toArgb = (hex: string | null) => (hex ? `FF${hex.slice(1).toUpperCase()}` : null);
+
+    const ws = XLSX.utils.aoa_to_sheet([
+        grid.header,
+        ...grid.rows.map(row => [
+            `${row.kind === 'ASSIGNMENT' ? '    ' : ''}${row.label}${row.tentative ? ' (provvisoria)' : ''}`,
+            row.client,
+            row.projectManager,
+            ...row.cells.map(cell => formatStaffingGridCell(cell, false)),
+        ]),
+    ]);
+    ws['!style'] = 'grid';
+    ws['!fills'] = grid.rows.map(row => [
+        ...Array<string | null>(grid.labelColumnCount).fill(row.kind === 'ASSIGNMENT' ? null : 'FFF7FAFB'),
+        ...row.cells.map(cell => toArgb(STAFFING_LOAD_TONE_COLORS[cell.tone])),
+    ]);
+    ws['!boldRows'] = grid.rows.flatMap((row, index) => (row.kind === 'ASSIGNMENT' ? [] : [index]));
+    ws['!frozenCols'] = 1;
+    ws['!cols'] = [{ wch: 45 }, { wch: 20 }, { wch: 20 }, ...grid.header.slice(grid.labelColumnCount).map(() => ({ wch: 12 }))];
+    XLSX.utils.book_append_sheet(wb, ws, 'Staffing');
+
+    const legendTones: StaffingLoadTone[] = ['OVER', 'FULL', 'UNDER', 'NON_WORKING', 'LEAVE'];
+    const info = XLSX.utils.aoa_to_sheet([
+        [grid.title],
+        [],
+        [grid.subtitle],
+        ['Valori in percentuale di allocazione (settimana/mese: media sui giorni lavorativi).'],
+        [],
+        ...legendTones.map(tone => [`- ${STAFFING_LOAD_TONE_LABELS[tone]}`]),
+    ]);
+    info['!style'] = 'title';
+    info['!cols'] = [{ wch: 100 }];
+    XLSX.utils.book_append_sheet(wb, info, 'Legenda');
+
+    await XLSX.writeFile(wb, `Staffing_Griglia_${formatDateForExport(new Date())}.xlsx`);
+};
+
 /**
  * Esporta le allocazioni mensili (media %) per risorsa/progetto per il mese corrente e i 2 successivi.
  */
@@ -494,6 +542,9 @@ export const exportTemplate = async (type: ExportType | string) => {
         case 'tutor_mapping':
             XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Risorsa", "Email Risorsa", "Tutor", "Email Tutor"]]), 'Mappatura_Tutor');
             break;
+        case 'timesheets':
+            XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Nome Risorsa", "Progetto", "Data", "Ore", "Note"]]), 'Timesheet');
+            break;
     }
 
     await XLSX.writeFile(wb, fileName);
@@ -141,3 +141,11 @@ describe('formatCurrency (suite B)', () => {
         expect(result).toContain('99');
     });
 });
+
+describe('formatCurrency con valuta', () => {
+    it('usa la valuta indicata invece dell\'Euro', () => {
+        expect(formatCurrency(1500, 'GBP')).toContain('£');
+        expect(formatCurrency(1500, 'CHF')).toContain('CHF');
+        expect(formatCurrency(1500, 'GBP')).not.toContain('€');
+    });
+});
@@ -5,19 +5,20 @@
  */
 
 /**
- * Formatta un numero come valuta Euro (EUR) con locale italiano (it-IT).
+ * Formatta un numero come valuta (di default Euro, EUR) con locale italiano (it-IT).
  * Gestisce numeri, stringhe numeriche, null e undefined.
  * 
  * @param {number | string | undefined | null} value - Il valore da formattare.
+ * @param {string} [currency='EUR'] - Codice ISO della valuta (es. "GBP", "CHF").
  * @returns {string} La stringa formattata (es. "1.234,56 €").
  */
-export const formatCurrency = (value: number | string | undefined | null): string => {
+export const formatCurrency = (value: number | string | undefined | null, currency: string = 'EUR'): string => {
     const numValue = Number(value);
     // Se il valore non è un numero valido o è nullo/undefined, restituisci 0,00 €
     return (isNaN(numValue) ? 0 : numValue).toLocaleString('it-IT', {
         style: 'currency',
-        currency: 'EUR',
+        currency,
         minimumFractionDigits: 2,
         maximumFractionDigits: 2
     });
-};
\ No newline at end of file
+};
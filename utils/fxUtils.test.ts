@@ -0,0 +1,85 @@
+/**
+ * @file fxUtils.test.ts
+ * @description Test dei tassi di cambio: cambio valido alla data, conversione tra valute,
+ * valuta di progetto e validazione dei periodi.
+ */
+import { describe, it, expect } from 'vitest';
+import type { FxRate } from '../types';
+import { convertAmount, createFxConverter, findFxRate, getProjectCurrency, getReportingCurrencies, validateFxRate } from './fxUtils';
+
+const rates: FxRate[] = [
+    { id: 'g1', currency: 'GBP', rate: 0.8, validFrom: '2025-01-01', validTo: '2025-06-30' },
+    { id: 'g2', currency: 'GBP', rate: 0.85, validFrom: '2025-07-01', validTo: null },
+    { id: 'c1', currency: 'CHF', rate: 0.95, validFrom: '2025-01-01', validTo: null },
+];
+
+describe('findFxRate', () => {
+    it('sceglie il cambio valido alla data', () => {
+        expect(findFxRate(rates, 'GBP', '2025-03-15')?.id).toBe('g1');
+        expect(findFxRate(rates, 'GBP', '2025-06-30')?.id).toBe('g1');
+        expect(findFxRate(rates, 'GBP', '2026-02-01')?.id).toBe('g2');
+        expect(findFxRate(rates, 'GBP', '2024-12-31')).toBeUndefined();
+    });
+});
+
+describe('convertAmount', () => {
+    it('converte da e verso la valuta base e tra valute estere', () => {
+        expect(convertAmount(100, 'EUR', 'GBP', '2025-03-01', rates)).toBeCloseTo(80);
+        expect(convertAmount(85, 'GBP', 'EUR', '2025-08-01', rates)).toBeCloseTo(100);
+        expect(convertAmount(85, 'GBP', 'CHF', '2025-08-01', rates)).toBeCloseTo(95);
+        expect(convertAmount(42, 'USD', 'USD', '2025-08-01', rates)).toBe(42);
+    });
+
+    it('restituisce null se manca un cambio', () => {
+        expect(convertAmount(100, 'USD', 'EUR', '2025-03-01', rates)).toBeNull();
+        expect(convertAmount(100, 'GBP', 'EUR', '2024-01-01', rates)).toBeNull();
+    });
+});
+
+describe('createFxConverter', () => {
+    it('esclude gli importi senza cambio e ne segnala la valuta', () => {
+        const fx = createFxConverter(rates, 'EUR');
+        expect(fx.convert(95, 'CHF', '2025-05-01')).toBeCloseTo(100);
+        expect(fx.convert(50, null, '2025-05-01')).toBe(50);
+        expect(fx.convert(100, 'USD', '2025-05-01')).toBe(0);
+        expect(Array.from(fx.missingCurrencies)).toEqual(['USD']);
+    });
+
+    it('segnala la valuta di reporting quando manca il suo cambio', () => {
+        const fx = createFxConverter(rates, 'GBP');
+        expect(fx.convert(100, 'EUR', '2024-06-01')).toBe(0);
+        expect(Array.from(fx.missingCurrencies)).toEqual(['GBP']);
+    });
+});
+
+describe('getProjectCurrency / getReportingCurrencies', () => {
+    const contracts = [{ id: 'k1', rateCardId: 'rc1' }, { id: 'k2', rateCardId: null }];
+    const rateCards = [{ id: 'rc1', currency: 'GBP' }];
+
+    it('usa la valuta del listino del contratto, altrimenti EUR', () => {
+        expect(getProjectCurrency({ contractId: 'k1' }, contracts, rateCards)).toBe('GBP');
+        expect(getProjectCurrency({ contractId: 'k2' }, contracts, rateCards)).toBe('EUR');
+        expect(getProjectCurrency({ contractId: null }, contracts, rateCards)).toBe('EUR');
+    });
+
+    it('elenca la valuta base seguita da quelle con un cambio', () => {
+        expect(getReportingCurrencies(rates)).toEqual(['EUR', 'CHF', 'GBP']);
+    });
+});
+
+describe('validateFxRate', () => {
+    it('accetta un periodo contiguo e rifiuta le sovrapposizioni', () => {
+        const existing = rates.filter(r => r.id === 'g1');
+        expect(validateFxRate({ currency: 'GBP', rate: 0.86, validFrom: '2025-07-01' }, existing)).toBeNull();
+        expect(validateFxRate({ currency: 'GBP', rate: 0.86, validFrom: '2025-06-01' }, existing)).toMatch(/sovrappone/);
+        // La modifica dello stesso cambio non è una sovrapposizione
+        expect(validateFxRate({ ...existing[0], rate: 0.81 }, existing)).toBeNull();
+    });
+
+    it('rifiuta la valuta base, tassi non positivi e periodi invertiti', () => {
+        expect(validateFxRate({ currency: 'EUR', rate: 1, validFrom: '2025-01-01' }, [])).toMatch(/valuta base/);
+        expect(validateFxRate({ currency: 'gbp', rate: 1, validFrom: '2025-01-01' }, [])).toMatch(/Valuta non valida/);
+        expect(validateFxRate({ currency: 'USD', rate: 0, validFrom: '2025-01-01' }, [])).toMatch(/maggiore di zero/);
+        expect(validateFxRate({ currency: 'USD', rate: 1.1, validFrom: '2025-02-01', validTo: '2025-01-01' }, [])).toMatch(/precedere/);
+    });
+});
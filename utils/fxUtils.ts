@@ -0,0 +1,117 @@
+/**
+ * @file fxUtils.ts
+ * @description Valute e tassi di cambio: risoluzione del cambio valido a una data, conversione
+ * degli importi in una valuta di reporting e validazione dei periodi di validità.
+ *
+ * I tassi seguono la convenzione dei cambi di riferimento BCE rispetto alla valuta base (EUR):
+ * 1 EUR = `rate` unità della valuta. Costi interni e importi senza listino sono in valuta base.
+ */
+import type { Contract, FxRate, Project, RateCard } from '../types';
+
+export const BASE_CURRENCY = 'EUR';
+
+/** Valute selezionabili per listini e reporting. */
+export const CURRENCY_OPTIONS: { value: string; label: string }[] = [
+    { value: 'EUR', label: 'EUR (€)' },
+    { value: 'USD', label: 'USD ($)' },
+    { value: 'GBP', label: 'GBP (£)' },
+    { value: 'CHF', label: 'CHF (Fr.)' },
+];
+
+/** Cambio valido alla data (YYYY-MM-DD); a parità vince quello iniziato più di recente. */
+export const findFxRate = (rates: FxRate[], currency: string, dateIso: string): FxRate | undefined => {
+    let match: FxRate | undefined;
+    for (const rate of rates) {
+        if (rate.currency !== currency || rate.validFrom > dateIso || (rate.validTo && rate.validTo < dateIso)) continue;
+        if (!match || rate.validFrom > match.validFrom) match = rate;
+    }
+    return match;
+};
+
+/** Unità di `currency` per 1 EUR alla data, null se manca il cambio. */
+const getRateToBase = (rates: FxRate[], currency: string, dateIso: string): number | null => {
+    if (currency === BASE_CURRENCY) return 1;
+    const rate = findFxRate(rates, currency, dateIso);
+    return rate && Number(rate.rate) > 0 ? Number(rate.rate) : null;
+};
+
+/** Converte un importo tra due valute ai cambi della data; null se manca uno dei cambi. */
+export const convertAmount = (
+    amount: number,
+    fromCurrency: string,
+    toCurrency: string,
+    dateIso: string,
+    rates: FxRate[]
+): number | null => {
+    if (fromCurrency === toCurrency) return amount;
+    const fromRate = getRateToBase(rates, fromCurrency, dateIso);
+    const toRate = getRateToBase(rates, toCurrency, dateIso);
+    if (fromRate === null || toRate === null) return null;
+    return (amount / fromRate) * toRate;
+};
+
+export interface FxConverter {
+    reportingCurrency: string;
+    /** Importo nella valuta di reporting; 0 (e valuta segnalata in `missingCurrencies`) se manca il cambio. */
+    convert: (amount: number, fromCurrency: string | null | undefined, dateIso: string) => number;
+    /** Valute incontrate senza un cambio valido alla data: i relativi importi sono esclusi dai totali. */
+    missingCurrencies: Set<string>;
+}
+
+/** Convertitore verso la valuta di reporting che tiene traccia dei cambi mancanti. */
+export const createFxConverter = (rates: FxRate[], reportingCurrency: string = BASE_CURRENCY): FxConverter => {
+    const missingCurrencies = new Set<string>();
+    return {
+        reportingCurrency,
+        missingCurrencies,
+        convert: (amount, fromCurrency, dateIso) => {
+            const currency = fromCurrency || BASE_CURRENCY;
+            const converted = convertAmount(amount, currency, reportingCurrency, dateIso, rates);
+            if (converted !== null) return converted;
+            missingCurrencies.add(getRateToBase(rates, currency, dateIso) === null ? currency : reportingCurrency);
+            return 0;
+        },
+    };
+};
+
+/** Valuta di fatturazione del progetto: quella del listino del contratto, altrimenti la valuta base. */
+export const getProjectCurrency = (
+    project: Pick<Project, 'contractId'> | undefined,
+    contracts: Pick<Contract, 'id' | 'rateCardId'>[],
+    rateCards: Pick<RateCard, 'id' | 'currency'>[]
+): string => {
+    const contract = project?.contractId ? contracts.find(c => c.id === project.contractId) : undefined;
+    const rateCard = contract?.rateCardId ? rateCards.find(r => r.id === contract.rateCardId) : undefined;
+    return rateCard?.currency || BASE_CURRENCY;
+};
+
+/** Valute di reporting disponibili: la valuta base e quelle con almeno un cambio. */
+export const getReportingCurrencies = (rates: FxRate[]): string[] =>
+    [BASE_CURRENCY, ...Array.from(new Set(rates.map(r => r.currency))).filter(c => c !== BASE_CURRENCY).sort()];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Valida un cambio rispetto agli altri cambi della stessa valuta: codice ISO a 3 lettere diverso
+ * dalla valuta base, tasso positivo, periodo coerente e non sovrapposto. Restituisce il messaggio d'errore o null.
+ */
+export const validateFxRate = (
+    rate: Partial<FxRate>,
+    existing: Pick<FxRate, 'id' | 'currency' | 'validFrom' | 'validTo'>[]
+): string | null => {
+    if (!rate.currency || !/^[A-Z]{3}$/.test(rate.currency)) return 'Valuta non valida (codice ISO a 3 lettere, es. GBP).';
+    if (rate.currency === BASE_CURRENCY) return `La valuta base ${BASE_CURRENCY} non richiede un cambio.`;
+    if (typeof rate.rate !== 'number' || !Number.isFinite(rate.rate) || rate.rate <= 0) return 'Il tasso di cambio deve essere maggiore di zero.';
+    if (!rate.validFrom || !ISO_DATE_PATTERN.test(rate.validFrom)) return 'Data di inizio validità obbligatoria (YYYY-MM-DD).';
+    if (rate.validTo && (!ISO_DATE_PATTERN.test(rate.validTo) || rate.validTo < rate.validFrom)) {
+        return 'La fine validità non può precedere l\'inizio.';
+    }
+    const overlapping = existing.find(other =>
+        other.currency === rate.currency && other.id !== rate.id &&
+        (!other.validTo || other.validTo >= rate.validFrom!) &&
+        (!rate.validTo || other.validFrom <= rate.validTo));
+    if (overlapping) {
+        return `Il periodo si sovrappone al cambio ${overlapping.currency} valido dal ${overlapping.validFrom}${overlapping.validTo ? ` al ${overlapping.validTo}` : ''}.`;
+    }
+    return null;
+};
@@ -0,0 +1,89 @@
+/**
+ * @file gridSelectionUtils.test.ts
+ * @description Test delle utility di selezione, copia/incolla e riempimento della griglia di Staffing.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    buildGridUpdates,
+    extendFillBounds,
+    formatClipboardGrid,
+    getPasteBounds,
+    getRangeBounds,
+    parseClipboardGrid,
+    readGridValues,
+    type GridCellResolver,
+} from './gridSelectionUtils';
+
+// Griglia 2 assegnazioni × 5 giorni (lun 3 → ven 7 giugno 2024); la colonna 2 è una festività.
+const DATES = ['2024-06-03', '2024-06-04', '2024-06-05', '2024-06-06', '2024-06-07'];
+const ROWS = ['a1', 'a2'];
+const current: Record<string, Record<string, number>> = { a1: { '2024-06-03': 50 }, a2: {} };
+const resolve: GridCellResolver = (row, col) => {
+    if (!ROWS[row] || !DATES[col]) return null;
+    return { assignmentId: ROWS[row], date: DATES[col], current: current[ROWS[row]][DATES[col]] || 0, isWritable: col !== 2 };
+};
+
+describe('getRangeBounds / extendFillBounds', () => {
+    it('normalizza la selezione indipendentemente dalla direzione del trascinamento', () => {
+        expect(getRangeBounds({ anchor: { row: 1, col: 4 }, focus: { row: 0, col: 1 } })).toEqual({ top: 0, bottom: 1, left: 1, right: 4 });
+    });
+
+    it('estende la maniglia di riempimento lungo l\'asse di maggiore distanza', () => {
+        const source = { top: 0, bottom: 0, left: 0, right: 1 };
+        expect(extendFillBounds(source, { row: 3, col: 2 })).toEqual({ top: 0, bottom: 3, left: 0, right: 1 });
+        expect(extendFillBounds(source, { row: 1, col: 4 })).toEqual({ top: 0, bottom: 0, left: 0, right: 4 });
+        expect(extendFillBounds(source, { row: 0, col: 1 })).toBe(source);
+    });
+});
+
+describe('parseClipboardGrid / formatClipboardGrid', () => {
+    it('interpreta il TSV di Excel (percentuali, virgola decimale, a capo finale)', () => {
+        expect(parseClipboardGrid('50%\t20\r\n0,4\t\r\n')).toEqual([[50, 20], [0, null]]);
+    });
+
+    it('limita i valori a 0–100 e ignora i testi non numerici', () => {
+        expect(parseClipboardGrid('150\t-20\tabc\t-')).toEqual([[100, 0, null, 0]]);
+    });
+
+    it('serializza le celle non modificabili come vuote', () => {
+        expect(formatClipboardGrid(readGridValues({ top: 0, bottom: 0, left: 0, right: 2 }, resolve))).toBe('50\t0\t');
+    });
+});
+
+describe('buildGridUpdates', () => {
+    it('riempie il rettangolo saltando festività e celle già al valore richiesto', () => {
+        const updates = buildGridUpdates({ top: 0, bottom: 1, left: 0, right: 3 }, [[50]], resolve);
+        expect(updates.map(u => `${u.assignmentId}|${u.date}`)).toEqual([
+            'a1|2024-06-04', 'a1|2024-06-06',
+            'a2|2024-06-03', 'a2|2024-06-04', 'a2|2024-06-06',
+        ]);
+        expect(updates.every(u => u.percentage === 50)).toBe(true);
+    });
+
+    it('ripete i valori a mosaico a partire dall\'origine (trascinamento verso sinistra)', () => {
+        const updates = buildGridUpdates({ top: 0, bottom: 0, left: 0, right: 1 }, [[10, 20]], resolve, { row: 0, col: 3 });
+        // Il mosaico è ancorato alla colonna 3: col 1 ≡ col 3 → 10, col 0 ≡ col 4 → 20
+        expect(updates).toEqual([
+            { assignmentId: 'a1', date: '2024-06-03', percentage: 20 },
+            { assignmentId: 'a1', date: '2024-06-04', percentage: 10 },
+        ]);
+    });
+
+    it('ignora le celle null e fuori griglia', () => {
+        expect(buildGridUpdates({ top: 1, bottom: 5, left: 3, right: 9 }, [[null, 30]], resolve)).toEqual([
+            { assignmentId: 'a2', date: '2024-06-07', percentage: 30 },
+        ]);
+    });
+});
+
+describe('getPasteBounds', () => {
+    it('espande la singola cella alla dimensione incollata, entro i bordi della griglia', () => {
+        expect(getPasteBounds({ top: 1, bottom: 1, left: 3, right: 3 }, [[1, 2, 3], [4, 5, 6]], { rows: 2, cols: 5 }))
+            .toEqual({ top: 1, bottom: 1, left: 3, right: 4 });
+    });
+
+    it('mantiene una selezione multipla, su cui i valori vengono ripetuti', () => {
+        const selection = { top: 0, bottom: 1, left: 0, right: 4 };
+        expect(getPasteBounds(selection, [[10]], { rows: 2, cols: 5 })).toBe(selection);
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * @file gridSelectionUtils.ts
+ * @description Utility pure per le interazioni "da foglio di calcolo" della griglia
+ * di Staffing: selezione rettangolare di celle (righe = assegnazioni, colonne = giorni),
+ * copia/incolla in formato TSV (compatibile con Excel), riempimento con un valore e
+ * trascinamento della maniglia di riempimento.
+ *
+ * Tutte le operazioni producono un unico batch di `AllocationUpdate` da inviare a
+ * `POST /api/staffing?action=allocation`; le celle non modificabili (weekend,
+ * festività della sede, assenze di giornata intera) vengono sempre saltate.
+ */
+import type { AllocationUpdate } from '../types';
+
+export interface GridCell {
+    row: number;
+    col: number;
+}
+
+/** Selezione espressa come cella di ancoraggio (primo click) e cella di arrivo. */
+export interface GridRange {
+    anchor: GridCell;
+    focus: GridCell;
+}
+
+/** Rettangolo normalizzato (estremi inclusi). */
+export interface GridBounds {
+    top: number;
+    bottom: number;
+    left: number;
+    right: number;
+}
+
+/** Valori di una porzione di griglia; `null` indica una cella da non toccare. */
+export type GridValues = (number | null)[][];
+
+/** Cella della griglia risolta sui dati: `null` se la coordinata non esiste. */
+export interface ResolvedGridCell {
+    assignmentId: string;
+    date: string;
+    current: number;
+    isWritable: boolean;
+}
+
+export type GridCellResolver = (row: number, col: number) => ResolvedGridCell | null;
+
+export const getRangeBounds = ({ anchor, focus }: GridRange): GridBounds => ({
+    top: Math.min(anchor.row, focus.row),
+    bottom: Math.max(anchor.row, focus.row),
+    left: Math.min(anchor.col, focus.col),
+    right: Math.max(anchor.col, focus.col),
+});
+
+export const isCellInBounds = (bounds: GridBounds | null, row: number, col: number): boolean =>
+    !!bounds && row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right;
+
+export const getBoundsSize = (bounds: GridBounds): { rows: number; cols: number } => ({
+    rows: bounds.bottom - bounds.top + 1,
+    cols: bounds.right - bounds.left + 1,
+});
+
+/**
+ * Area di destinazione del trascinamento della maniglia di riempimento: come nei fogli
+ * di calcolo, la selezione si estende lungo un solo asse (quello di maggiore distanza
+ * dalla selezione di partenza) fino alla cella sotto il puntatore.
+ */
+export const extendFillBounds = (source: GridBounds, cell: GridCell): GridBounds => {
+    const rowDistance = cell.row > source.bottom ? cell.row - source.bottom : cell.row < source.top ? source.top - cell.row : 0;
+    const colDistance = cell.col > source.right ? cell.col - source.right : cell.col < source.left ? source.left - cell.col : 0;
+    if (rowDistance === 0 && colDistance === 0) return source;
+    if (rowDistance >= colDistance) {
+        return { ...source, top: Math.min(source.top, cell.row), bottom: Math.max(source.bottom, cell.row) };
+    }
+    return { ...source, left: Math.min(source.left, cell.col), right: Math.max(source.right, cell.col) };
+};
+
+/**
+ * Converte un valore incollato in percentuale (0–100, intera). Accetta "50", "50%",
+ * "50,5"; le celle vuote o non numeriche restituiscono `null` (cella ignorata):
+ * per svuotare una cella va incollato esplicitamente 0.
+ */
+export const parseClipboardValue = (raw: string): number | null => {
+    const cleaned = raw.trim().replace('%', '').replace(',', '.');
+    if (cleaned === '') return null;
+    if (cleaned === '-') return 0;
+    const value = Number(cleaned);
+    if (!Number.isFinite(value)) return null;
+    return Math.min(100, Math.max(0, Math.round(value)));
+};
+
+/** Interpreta il testo TSV degli appunti (righe separate da a capo, celle da tab). */
+export const parseClipboardGrid = (text: string): GridValues => {
+    const lines = text.split(/\r?\n/);
+    // Excel termina la copia con un a capo finale
+    if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+    return lines.map(line => line.split('\t').map(parseClipboardValue));
+};
+
+/** Serializza una porzione di griglia in TSV; le celle `null` diventano vuote. */
+export const formatClipboardGrid = (values: GridValues): string =>
+    values.map(row => row.map(v => (v === null ? '' : String(v))).join('\t')).join('\n');
+
+/** Valori correnti di un rettangolo (celle non modificabili → `null`). */
+export const readGridValues = (bounds: GridBounds, resolveCell: GridCellResolver): GridValues => {
+    const values: GridValues = [];
+    for (let row = bounds.top; row <= bounds.bottom; row++) {
+        const line: (number | null)[] = [];
+        for (let col = bounds.left; col <= bounds.right; col++) {
+            const cell = resolveCell(row, col);
+            line.push(cell && cell.isWritable ? cell.current : null);
+        }
+        values.push(line);
+    }
+    return values;
+};
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+/**
+ * Costruisce il batch di aggiornamenti che applica `values` al rettangolo `target`,
+ * ripetendoli (a mosaico) a partire da `origin` se il rettangolo è più grande.
+ * Salta le celle inesistenti, non modificabili, con valore `null` o già al valore richiesto.
+ */
+export const buildGridUpdates = (
+    target: GridBounds,
+    values: GridValues,
+    resolveCell: GridCellResolver,
+    origin: GridCell = { row: target.top, col: target.left }
+): AllocationUpdate[] => {
+    const height = values.length;
+    const width = Math.max(0, ...values.map(r => r.length));
+    if (height === 0 || width === 0) return [];
+
+    const updates: AllocationUpdate[] = [];
+    for (let row = target.top; row <= target.bottom; row++) {
+        for (let col = target.left; col <= target.right; col++) {
+            const value = values[mod(row - origin.row, height)][mod(col - origin.col, width)];
+            if (value === null || value === undefined) continue;
+            const cell = resolveCell(row, col);
+            if (!cell || !cell.isWritable || cell.current === value) continue;
+            updates.push({ assignmentId: cell.assignmentId, date: cell.date, percentage: value });
+        }
+    }
+    return updates;
+};
+
+/**
+ * Rettangolo su cui incollare: se la selezione è una sola cella, si espande alla
+ * dimensione dei dati incollati (limitata ai bordi della griglia); altrimenti resta
+ * la selezione, su cui i valori vengono ripetuti.
+ */
+export const getPasteBounds = (selection: GridBounds, values: GridValues, gridSize: { rows: number; cols: number }): GridBounds => {
+    const { rows, cols } = getBoundsSize(selection);
+    if (rows > 1 || cols > 1) return selection;
+    const width = Math.max(0, ...values.map(r => r.length));
+    return {
+        top: selection.top,
+        left: selection.left,
+        bottom: Math.min(gridSize.rows - 1, selection.top + values.length - 1),
+        right: Math.min(gridSize.cols - 1, selection.left + width - 1),
+    };
+};
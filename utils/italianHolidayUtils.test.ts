@@ -0,0 +1,72 @@
+/**
+ * @file italianHolidayUtils.test.ts
+ * @description Test del generatore di festività italiane: data della Pasqua, festività nazionali,
+ * patroni delle sedi e confronto con il calendario esistente.
+ */
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent } from '../types';
+import { toISODateString } from './dateUtils';
+import { diffGeneratedHolidays, generateItalianHolidays, getEasterMonday, getEasterSunday } from './italianHolidayUtils';
+
+describe('getEasterSunday / getEasterMonday', () => {
+    it('calcola la Pasqua gregoriana, anche nei casi limite', () => {
+        expect(toISODateString(getEasterSunday(2000))).toBe('2000-04-23');
+        expect(toISODateString(getEasterSunday(2024))).toBe('2024-03-31');
+        expect(toISODateString(getEasterSunday(2025))).toBe('2025-04-20');
+        expect(toISODateString(getEasterSunday(2038))).toBe('2038-04-25');
+        expect(getEasterMonday(2024)).toBe('2024-04-01');
+        expect(getEasterMonday(2026)).toBe('2026-04-06');
+    });
+});
+
+describe('generateItalianHolidays', () => {
+    it('genera le festività nazionali di ogni anno con la Pasquetta', () => {
+        const { events } = generateItalianHolidays(2025, 2026);
+        const national2025 = events.filter(e => e.date.startsWith('2025'));
+        expect(national2025).toHaveLength(11);
+        expect(national2025.every(e => e.type === 'NATIONAL_HOLIDAY' && e.location === null)).toBe(true);
+        expect(national2025.map(e => e.date)).toContain('2025-04-21');
+        // San Francesco torna festività nazionale dal 2026
+        expect(national2025.map(e => e.date)).not.toContain('2025-10-04');
+        expect(events.filter(e => e.date.startsWith('2026'))).toHaveLength(12);
+    });
+
+    it('aggiunge i patroni delle sedi note e segnala le altre', () => {
+        const { events, unmatchedLocations } = generateItalianHolidays(2025, 2025, ['Milano', 'Roma', 'Venezia', 'Remoto']);
+        const local = events.filter(e => e.type === 'LOCAL_HOLIDAY');
+        expect(local.map(e => [e.date, e.location])).toEqual([
+            ['2025-06-29', 'Roma'],
+            ['2025-12-07', 'Milano'],
+        ]);
+        // San Marco coincide con la Festa della Liberazione
+        expect(local.some(e => e.location === 'Venezia')).toBe(false);
+        expect(unmatchedLocations).toEqual(['Remoto']);
+    });
+});
+
+describe('diffGeneratedHolidays', () => {
+    const existing: CalendarEvent[] = [
+        { id: 'c1', name: 'Natale', date: '2025-12-25', type: 'NATIONAL_HOLIDAY', location: null },
+        { id: 'c2', name: 'Chiusura invernale', date: '2025-12-26', type: 'COMPANY_CLOSURE', location: null },
+        { id: 'c3', name: 'Ponte', date: '2025-12-08', type: 'COMPANY_CLOSURE', location: null },
+    ];
+
+    it('distingue festività nuove, già presenti e in conflitto', () => {
+        const { events } = generateItalianHolidays(2025, 2025, ['Milano']);
+        const byDate = new Map(diffGeneratedHolidays(events, existing).map(entry => [`${entry.event.date}|${entry.event.location || ''}`, entry]));
+        expect(byDate.get('2025-12-25|')?.status).toBe('EXISTING');
+        expect(byDate.get('2025-12-26|')?.status).toBe('CONFLICT');
+        expect(byDate.get('2025-12-26|')?.existing?.id).toBe('c2');
+        expect(byDate.get('2025-01-01|')?.status).toBe('NEW');
+        expect(byDate.get('2025-12-07|Milano')?.status).toBe('NEW');
+    });
+
+    it('considera già coperta una festività locale in un giorno di chiusura per tutte le sedi', () => {
+        const [entry] = diffGeneratedHolidays(
+            [{ name: 'Sant\'Ambrogio', date: '2025-12-08', type: 'LOCAL_HOLIDAY', location: 'Milano' }],
+            existing
+        );
+        expect(entry.status).toBe('EXISTING');
+        expect(entry.existing?.id).toBe('c3');
+    });
+});
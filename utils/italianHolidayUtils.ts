@@ -0,0 +1,163 @@
+/**
+ * @file italianHolidayUtils.ts
+ * @description Generazione delle festività italiane per un intervallo di anni: festività nazionali
+ * (con il Lunedì dell'Angelo calcolato dalla data della Pasqua) e santi patroni come festività
+ * locali delle sedi configurate, con il confronto rispetto agli eventi già presenti a calendario.
+ */
+import type { CalendarEvent } from '../types';
+import { toISODateString } from './dateUtils.js';
+
+export type GeneratedCalendarEvent = Omit<CalendarEvent, 'id' | 'version'>;
+
+interface RecurringHoliday {
+    /** Giorno dell'anno in formato MM-DD. */
+    monthDay: string;
+    name: string;
+    /** Primo anno in cui la festività è in vigore. */
+    fromYear?: number;
+}
+
+/** Festività nazionali a data fissa (Pasqua cade sempre di domenica, si genera solo il lunedì). */
+export const ITALIAN_NATIONAL_HOLIDAYS: RecurringHoliday[] = [
+    { monthDay: '01-01', name: 'Capodanno' },
+    { monthDay: '01-06', name: 'Epifania' },
+    { monthDay: '04-25', name: 'Festa della Liberazione' },
+    { monthDay: '05-01', name: 'Festa dei Lavoratori' },
+    { monthDay: '06-02', name: 'Festa della Repubblica' },
+    { monthDay: '08-15', name: 'Ferragosto' },
+    { monthDay: '10-04', name: 'San Francesco d\'Assisi', fromYear: 2026 },
+    { monthDay: '11-01', name: 'Ognissanti' },
+    { monthDay: '12-08', name: 'Immacolata Concezione' },
+    { monthDay: '12-25', name: 'Natale' },
+    { monthDay: '12-26', name: 'Santo Stefano' },
+];
+
+/** Santi patroni dei principali comuni, per nome della sede in minuscolo. */
+export const PATRON_SAINTS: Record<string, RecurringHoliday> = {
+    'ancona': { monthDay: '05-04', name: 'San Ciriaco' },
+    'bari': { monthDay: '12-06', name: 'San Nicola' },
+    'bergamo': { monthDay: '08-26', name: 'Sant\'Alessandro' },
+    'bologna': { monthDay: '10-04', name: 'San Petronio' },
+    'brescia': { monthDay: '02-15', name: 'Santi Faustino e Giovita' },
+    'cagliari': { monthDay: '10-30', name: 'San Saturnino' },
+    'catania': { monthDay: '02-05', name: 'Sant\'Agata' },
+    'firenze': { monthDay: '06-24', name: 'San Giovanni Battista' },
+    'genova': { monthDay: '06-24', name: 'San Giovanni Battista' },
+    'lecce': { monthDay: '08-26', name: 'Sant\'Oronzo' },
+    'messina': { monthDay: '06-03', name: 'Madonna della Lettera' },
+    'milano': { monthDay: '12-07', name: 'Sant\'Ambrogio' },
+    'modena': { monthDay: '01-31', name: 'San Geminiano' },
+    'napoli': { monthDay: '09-19', name: 'San Gennaro' },
+    'padova': { monthDay: '06-13', name: 'Sant\'Antonio' },
+    'palermo': { monthDay: '07-15', name: 'Santa Rosalia' },
+    'parma': { monthDay: '01-13', name: 'Sant\'Ilario' },
+    'perugia': { monthDay: '01-29', name: 'San Costanzo' },
+    'pescara': { monthDay: '10-10', name: 'San Cetteo' },
+    'roma': { monthDay: '06-29', name: 'Santi Pietro e Paolo' },
+    'salerno': { monthDay: '09-21', name: 'San Matteo' },
+    'torino': { monthDay: '06-24', name: 'San Giovanni Battista' },
+    'trento': { monthDay: '06-26', name: 'San Vigilio' },
+    'trieste': { monthDay: '11-03', name: 'San Giusto' },
+    'venezia': { monthDay: '04-25', name: 'San Marco' },
+    'verona': { monthDay: '05-21', name: 'San Zeno' },
+};
+
+/** Numero massimo di anni generabili in una volta. */
+export const MAX_GENERATED_YEARS = 10;
+
+/** Domenica di Pasqua (calendario gregoriano, algoritmo di Meeus/Jones/Butcher) in UTC. */
+export const getEasterSunday = (year: number): Date => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(Date.UTC(year, month - 1, day));
+};
+
+/** Lunedì dell'Angelo (Pasquetta) in formato YYYY-MM-DD. */
+export const getEasterMonday = (year: number): string => {
+    const easter = getEasterSunday(year);
+    easter.setUTCDate(easter.getUTCDate() + 1);
+    return toISODateString(easter);
+};
+
+const findPatronSaint = (location: string): RecurringHoliday | undefined =>
+    PATRON_SAINTS[location.trim().toLowerCase()];
+
+/**
+ * Festività nazionali e patronali degli anni indicati (inclusi). I patroni sono generati come
+ * festività locali delle sedi con un patrono noto; quelli che coincidono con una festività
+ * nazionale vengono tralasciati. `unmatchedLocations` elenca le sedi senza patrono noto.
+ */
+export const generateItalianHolidays = (
+    fromYear: number,
+    toYear: number,
+    locations: string[] = []
+): { events: GeneratedCalendarEvent[]; unmatchedLocations: string[] } => {
+    const events: GeneratedCalendarEvent[] = [];
+    const unmatchedLocations = locations.filter(location => !findPatronSaint(location));
+
+    for (let year = fromYear; year <= toYear; year++) {
+        const nationalDates = new Set<string>();
+        const addNational = (date: string, name: string) => {
+            nationalDates.add(date);
+            events.push({ name, date, type: 'NATIONAL_HOLIDAY', location: null });
+        };
+        ITALIAN_NATIONAL_HOLIDAYS
+            .filter(holiday => !holiday.fromYear || holiday.fromYear <= year)
+            .forEach(holiday => addNational(`${year}-${holiday.monthDay}`, holiday.name));
+        addNational(getEasterMonday(year), 'Lunedì dell\'Angelo');
+
+        for (const location of locations) {
+            const patron = findPatronSaint(location);
+            if (!patron || nationalDates.has(`${year}-${patron.monthDay}`)) continue;
+            const date = `${year}-${patron.monthDay}`;
+            events.push({ name: patron.name, date, type: 'LOCAL_HOLIDAY', location });
+        }
+    }
+
+    events.sort((a, b) => a.date.localeCompare(b.date) || (a.location || '').localeCompare(b.location || ''));
+    return { events, unmatchedLocations };
+};
+
+export type HolidayDiffStatus = 'NEW' | 'EXISTING' | 'CONFLICT';
+
+export interface HolidayDiffEntry {
+    event: GeneratedCalendarEvent;
+    status: HolidayDiffStatus;
+    /** Evento già a calendario nello stesso giorno (assente per le nuove festività). */
+    existing?: CalendarEvent;
+}
+
+/**
+ * Confronta le festività generate con il calendario esistente (un evento per giorno e sede):
+ * - `EXISTING`: stesso giorno e sede con lo stesso nome e tipo, oppure festività locale in un
+ *   giorno già non lavorativo per tutte le sedi;
+ * - `CONFLICT`: stesso giorno e sede occupati da un evento diverso (non viene sovrascritto);
+ * - `NEW`: da inserire.
+ */
+export const diffGeneratedHolidays = (
+    generated: GeneratedCalendarEvent[],
+    existingEvents: CalendarEvent[]
+): HolidayDiffEntry[] => {
+    const byKey = new Map(existingEvents.map(event => [`${event.date.split('T')[0]}|${event.location || ''}`, event]));
+    return generated.map(event => {
+        const sameSlot = byKey.get(`${event.date}|${event.location || ''}`);
+        if (sameSlot) {
+            const isSame = sameSlot.type === event.type && sameSlot.name.trim().toLowerCase() === event.name.toLowerCase();
+            return { event, status: isSame ? 'EXISTING' : 'CONFLICT', existing: sameSlot };
+        }
+        const companyWide = event.location ? byKey.get(`${event.date}|`) : undefined;
+        return companyWide ? { event, status: 'EXISTING', existing: companyWide } : { event, status: 'NEW' };
+    });
+};
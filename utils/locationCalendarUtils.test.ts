@@ -0,0 +1,45 @@
+/**
+ * @file locationCalendarUtils.test.ts
+ * @description Test dei calendari di sede: riepiloghi leggibili e validazione (una definizione
+ * per sede, giorni lavorativi, ore standard, chiusure ricorrenti).
+ */
+import { describe, it, expect } from 'vitest';
+import type { LocationCalendar } from '../types';
+import { defaultLocationCalendar, formatRecurringClosure, formatWorkingWeek, validateLocationCalendar } from './locationCalendarUtils';
+
+const calendar = (overrides: Partial<LocationCalendar> = {}): LocationCalendar => ({
+    ...defaultLocationCalendar('Milano'),
+    ...overrides,
+});
+
+describe('formatWorkingWeek / formatRecurringClosure', () => {
+    it('riassume settimana, ore e chiusure', () => {
+        expect(formatWorkingWeek(calendar({ workingDays: [0, 1, 2, 3, 4], dailyHours: 7.5 }))).toBe('Lun Mar Mer Gio Dom · 7.5h');
+        expect(formatRecurringClosure({ name: 'Estate', startMonthDay: '08-10', endMonthDay: '08-21' })).toBe('10/08 – 21/08');
+    });
+});
+
+describe('validateLocationCalendar', () => {
+    const existing = [{ id: 'lc1', location: 'Milano' }];
+
+    it('accetta il calendario standard e la modifica dello stesso calendario', () => {
+        expect(validateLocationCalendar(calendar({ location: 'Roma' }), existing)).toBeNull();
+        expect(validateLocationCalendar(calendar({ id: 'lc1', dailyHours: 7 }), existing)).toBeNull();
+    });
+
+    it('rifiuta sedi duplicate, settimane vuote e ore fuori intervallo', () => {
+        expect(validateLocationCalendar(calendar(), existing)).toMatch(/già un calendario/);
+        expect(validateLocationCalendar(calendar({ location: 'Roma', workingDays: [] }), [])).toMatch(/almeno un giorno/);
+        expect(validateLocationCalendar(calendar({ location: 'Roma', workingDays: [1, 7] }), [])).toMatch(/Giorni lavorativi/);
+        expect(validateLocationCalendar(calendar({ location: 'Roma', dailyHours: 0 }), [])).toMatch(/Ore/);
+    });
+
+    it('rifiuta chiusure senza nome o con date non valide', () => {
+        expect(validateLocationCalendar(calendar({ recurringClosures: [{ name: '', startMonthDay: '08-01', endMonthDay: '08-15' }] }), []))
+            .toMatch(/nome/);
+        expect(validateLocationCalendar(calendar({ recurringClosures: [{ name: 'Estate', startMonthDay: '02-30', endMonthDay: '08-15' }] }), []))
+            .toMatch(/non valide/);
+        expect(validateLocationCalendar(calendar({ recurringClosures: [{ name: 'Natale', startMonthDay: '12-24', endMonthDay: '01-06' }] }), []))
+            .toBeNull();
+    });
+});
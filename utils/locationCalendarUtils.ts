@@ -0,0 +1,81 @@
+/**
+ * @file locationCalendarUtils.ts
+ * @description Calendari lavorativi per sede: etichette dei giorni, riepilogo leggibile e
+ * validazione (settimana lavorativa, ore standard, chiusure ricorrenti, una sola definizione
+ * per sede). La risoluzione nei calcoli di capacità è in `dateUtils` (`buildHolidaySet`).
+ */
+import type { LocationCalendar, RecurringClosure } from '../types';
+import { DEFAULT_DAILY_HOURS, DEFAULT_WORKING_DAYS } from './dateUtils.js';
+
+/** Giorni della settimana nell'ordine di visualizzazione, con l'indice di `getUTCDay()`. */
+export const LOCATION_WEEKDAYS: { day: number; shortLabel: string }[] = [
+    { day: 1, shortLabel: 'Lun' },
+    { day: 2, shortLabel: 'Mar' },
+    { day: 3, shortLabel: 'Mer' },
+    { day: 4, shortLabel: 'Gio' },
+    { day: 5, shortLabel: 'Ven' },
+    { day: 6, shortLabel: 'Sab' },
+    { day: 0, shortLabel: 'Dom' },
+];
+
+/** Calendario standard proposto per una sede che non ne ha ancora uno. */
+export const defaultLocationCalendar = (location: string): Omit<LocationCalendar, 'id' | 'version'> => ({
+    location,
+    workingDays: [...DEFAULT_WORKING_DAYS],
+    dailyHours: DEFAULT_DAILY_HOURS,
+    recurringClosures: [],
+});
+
+const MONTH_DAY_PATTERN = /^(\d{2})-(\d{2})$/;
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const isValidMonthDay = (value: string | undefined): boolean => {
+    const match = value ? MONTH_DAY_PATTERN.exec(value) : null;
+    if (!match) return false;
+    const month = Number(match[1]);
+    const day = Number(match[2]);
+    return month >= 1 && month <= 12 && day >= 1 && day <= DAYS_IN_MONTH[month - 1];
+};
+
+/** "12/08 – 23/08" da una chiusura in formato MM-DD. */
+export const formatRecurringClosure = (closure: RecurringClosure): string => {
+    const format = (monthDay: string) => `${monthDay.slice(3)}/${monthDay.slice(0, 2)}`;
+    return `${format(closure.startMonthDay)} – ${format(closure.endMonthDay)}`;
+};
+
+/** Riepilogo "Lun–Ven · 8h" dei giorni lavorativi e delle ore standard. */
+export const formatWorkingWeek = (calendar: Pick<LocationCalendar, 'workingDays' | 'dailyHours'>): string => {
+    const days = LOCATION_WEEKDAYS.filter(d => calendar.workingDays.includes(d.day)).map(d => d.shortLabel);
+    return `${days.join(' ')} · ${calendar.dailyHours}h`;
+};
+
+/**
+ * Valida un calendario di sede rispetto agli altri calendari: sede obbligatoria e non già
+ * configurata, almeno un giorno lavorativo, ore standard tra 1 e 24, chiusure con nome e date
+ * MM-DD valide. Restituisce il messaggio d'errore o null.
+ */
+export const validateLocationCalendar = (
+    calendar: Partial<LocationCalendar>,
+    existing: Pick<LocationCalendar, 'id' | 'location'>[]
+): string | null => {
+    if (!calendar.location?.trim()) return 'Sede obbligatoria.';
+    if (existing.some(other => other.location === calendar.location && other.id !== calendar.id)) {
+        return `La sede ${calendar.location} ha già un calendario.`;
+    }
+    const workingDays = calendar.workingDays || [];
+    if (workingDays.length === 0) return 'Il calendario deve prevedere almeno un giorno lavorativo.';
+    if (workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6) || new Set(workingDays).size !== workingDays.length) {
+        return 'Giorni lavorativi non validi.';
+    }
+    const dailyHours = calendar.dailyHours;
+    if (typeof dailyHours !== 'number' || !Number.isFinite(dailyHours) || dailyHours < 1 || dailyHours > 24) {
+        return 'Ore della giornata standard non valide (1-24).';
+    }
+    for (const closure of calendar.recurringClosures || []) {
+        if (!closure.name?.trim()) return 'Ogni chiusura ricorrente deve avere un nome.';
+        if (!isValidMonthDay(closure.startMonthDay) || !isValidMonthDay(closure.endMonthDay)) {
+            return `Date della chiusura "${closure.name}" non valide (MM-GG).`;
+        }
+    }
+    return null;
+};
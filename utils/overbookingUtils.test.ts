@@ -0,0 +1,163 @@
+/**
+ * @file overbookingUtils.test.ts
+ * @description Test per la guardia di overbooking sugli aggiornamenti di allocazione.
+ */
+import { describe, it, expect } from 'vitest';
+import { findAllocationConflicts, describeAllocationConflict, type OverbookingCheckInput } from './overbookingUtils';
+
+// 2024-06-03 è un lunedì; 2024-06-08 un sabato
+const baseInput = (overrides: Partial<OverbookingCheckInput> = {}): OverbookingCheckInput => ({
+    updates: [],
+    assignments: [
+        { id: 'a1', resourceId: 'r1' },
+        { id: 'a2', resourceId: 'r1' },
+        { id: 'b1', resourceId: 'r2' },
+    ],
+    allocations: { a2: { '2024-06-03': 60, '2024-06-04': 80 } },
+    resources: [
+        { id: 'r1', maxStaffingPercentage: 100, location: 'Milano', lastDayOfWork: null },
+        { id: 'r2', maxStaffingPercentage: 50, location: 'Roma', lastDayOfWork: '2024-06-04' },
+    ],
+    leaveRequests: [],
+    leaveTypes: [{ id: 'ferie', affectsCapacity: true }, { id: 'smart', affectsCapacity: false }],
+    companyCalendar: [],
+    ...overrides,
+});
+
+describe('findAllocationConflicts', () => {
+    it('somma le altre assegnazioni della risorsa e segnala il superamento del massimo', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            updates: [{ assignmentId: 'a1', date: '2024-06-03', percentage: 50 }],
+        }));
+        expect(conflicts).toEqual([{
+            resourceId: 'r1', date: '2024-06-03', assignmentIds: ['a1'],
+            total: 110, previousTotal: 60, capacity: 100, reason: 'OVER_CAPACITY',
+        }]);
+    });
+
+    it('non segnala conflitti entro la capacità', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            updates: [{ assignmentId: 'a1', date: '2024-06-03', percentage: 40 }],
+        }));
+        expect(conflicts).toEqual([]);
+    });
+
+    it('rispetta maxStaffingPercentage della risorsa', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            updates: [{ assignmentId: 'b1', date: '2024-06-03', percentage: 60 }],
+        }));
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0]).toMatchObject({ resourceId: 'r2', capacity: 50, reason: 'OVER_CAPACITY' });
+    });
+
+    it('considera tutte le celle del batch sulla stessa giornata', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            updates: [
+                { assignmentId: 'a1', date: '2024-06-04', percentage: 30 },
+                { assignmentId: 'a2', date: '2024-06-04', percentage: 70 },
+            ],
+        }));
+        // 30 + 70 = 100 → entro la capacità
+        expect(conflicts).toEqual([]);
+    });
+
+    it('ammette le riduzioni su giornate già sovrallocate', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            allocations: { a1: { '2024-06-03': 80 }, a2: { '2024-06-03': 60 } },
+            updates: [{ assignmentId: 'a1', date: '2024-06-03', percentage: 50 }],
+        }));
+        expect(conflicts).toEqual([]);
+    });
+
+    it('conta come nuovo carico le allocazioni di un\'assegnazione appena intestata alla risorsa', () => {
+        // a1 è un segnaposto convertito: le sue celle sono già salvate ma non erano carico di r1
+        const input = baseInput({
+            allocations: { a1: { '2024-06-03': 50 }, a2: { '2024-06-03': 100 } },
+            updates: [{ assignmentId: 'a1', date: '2024-06-03', percentage: 50 }],
+        });
+        expect(findAllocationConflicts(input)).toEqual([]);
+        expect(findAllocationConflicts({ ...input, newAssignmentIds: ['a1'] })).toEqual([{
+            resourceId: 'r1', date: '2024-06-03', assignmentIds: ['a1'],
+            total: 150, previousTotal: 100, capacity: 100, reason: 'OVER_CAPACITY',
+        }]);
+    });
+
+    it('azzera la capacità nei weekend e nelle festività della sede della risorsa', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            companyCalendar: [
+                { name: 'Sant\'Ambrogio', date: '2024-06-05', type: 'LOCAL_HOLIDAY', location: 'Milano' },
+                { name: 'Patrono Roma', date: '2024-06-06', type: 'LOCAL_HOLIDAY', location: 'Roma' },
+            ],
+            updates: [
+                { assignmentId: 'a1', date: '2024-06-05', percentage: 20 },
+                { assignmentId: 'a1', date: '2024-06-06', percentage: 20 },
+                { assignmentId: 'a1', date: '2024-06-08', percentage: 20 },
+            ],
+        }));
+        expect(conflicts.map(c => [c.date, c.reason])).toEqual([
+            ['2024-06-05', 'NON_WORKING_DAY'],
+            ['2024-06-08', 'NON_WORKING_DAY'],
+        ]);
+    });
+
+    it('segue la settimana lavorativa e le chiusure del calendario della sede', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            locationCalendars: [{
+                location: 'Milano', workingDays: [2, 3, 4, 5, 6], dailyHours: 8,
+                recurringClosures: [{ name: 'Inventario', startMonthDay: '06-05', endMonthDay: '06-05' }],
+            }],
+            updates: [
+                { assignmentId: 'a1', date: '2024-06-03', percentage: 20 },
+                { assignmentId: 'a1', date: '2024-06-05', percentage: 20 },
+                { assignmentId: 'a1', date: '2024-06-08', percentage: 20 },
+            ],
+        }));
+        // Lunedì non lavorativo e chiusura del 5 giugno; il sabato è lavorativo
+        expect(conflicts.map(c => [c.date, c.reason])).toEqual([
+            ['2024-06-03', 'NON_WORKING_DAY'],
+            ['2024-06-05', 'NON_WORKING_DAY'],
+        ]);
+    });
+
+    it('considera solo le assenze approvate che incidono sulla capacità (mezza giornata = 50%)', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            leaveRequests: [
+                { resourceId: 'r1', typeId: 'ferie', startDate: '2024-06-10', endDate: '2024-06-10', status: 'APPROVED', isHalfDay: false },
+                { resourceId: 'r1', typeId: 'ferie', startDate: '2024-06-11', endDate: '2024-06-11', status: 'APPROVED', isHalfDay: true },
+                { resourceId: 'r1', typeId: 'ferie', startDate: '2024-06-12', endDate: '2024-06-12', status: 'PENDING', isHalfDay: false },
+                { resourceId: 'r1', typeId: 'smart', startDate: '2024-06-13', endDate: '2024-06-13', status: 'APPROVED', isHalfDay: false },
+            ],
+            updates: ['2024-06-10', '2024-06-11', '2024-06-12', '2024-06-13'].map(date => ({ assignmentId: 'a1', date, percentage: 60 })),
+        }));
+        expect(conflicts.map(c => [c.date, c.capacity, c.reason])).toEqual([
+            ['2024-06-10', 0, 'LEAVE'],
+            ['2024-06-11', 50, 'LEAVE'],
+        ]);
+    });
+
+    it('azzera la capacità oltre l\'ultimo giorno di lavoro', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            updates: [
+                { assignmentId: 'b1', date: '2024-06-04', percentage: 50 },
+                { assignmentId: 'b1', date: '2024-06-05', percentage: 50 },
+            ],
+        }));
+        expect(conflicts).toEqual([expect.objectContaining({ date: '2024-06-05', reason: 'AFTER_LAST_DAY' })]);
+    });
+
+    it('ignora le assegnazioni sconosciute', () => {
+        const conflicts = findAllocationConflicts(baseInput({
+            updates: [{ assignmentId: 'zzz', date: '2024-06-03', percentage: 100 }],
+        }));
+        expect(conflicts).toEqual([]);
+    });
+});
+
+describe('describeAllocationConflict', () => {
+    it('descrive il motivo del conflitto', () => {
+        const base = { resourceId: 'r1', date: '2024-06-03', assignmentIds: ['a1'], total: 120, previousTotal: 60, capacity: 100 };
+        expect(describeAllocationConflict({ ...base, reason: 'OVER_CAPACITY' })).toBe('Totale 120% oltre la capacità massima (100%)');
+        expect(describeAllocationConflict({ ...base, capacity: 50, reason: 'LEAVE' })).toContain('assenza (50%)');
+        expect(describeAllocationConflict({ ...base, reason: 'NON_WORKING_DAY' })).toContain('Giorno non lavorativo');
+    });
+});
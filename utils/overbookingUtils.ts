@@ -0,0 +1,164 @@
+/**
+ * @file overbookingUtils.ts
+ * @description Utility pure per il controllo di sovrallocazione (overbooking) delle
+ * risorse a fronte di un batch di aggiornamenti di allocazione.
+ *
+ * Usate sia dall'endpoint `POST /api/staffing?action=allocation` (guardia server-side)
+ * sia dal Mock Engine locale, così che la semantica sia unica.
+ */
+import type {
+    Allocation,
+    AllocationConflict,
+    AllocationUpdate,
+    CalendarEvent,
+    LeaveRequest,
+    LeaveType,
+    LocationCalendar,
+    Resource,
+} from '../types';
+import { buildHolidaySet, isHolidayInSet, isLocationWorkingWeekday, parseISODate, type HolidaySet } from './dateUtils.js';
+
+/** Chiave `app_config` della policy di overbooking. */
+export const OVERBOOKING_POLICY_CONFIG_KEY = 'allocation_overbooking_policy';
+
+/** Carico convenzionale di una mezza giornata di assenza (coerente con la griglia di Staffing). */
+export const HALF_DAY_LEAVE_LOAD = 50;
+
+export interface OverbookingCheckInput {
+    updates: AllocationUpdate[];
+    /** Assegnazioni delle risorse coinvolte (tutte, non solo quelle toccate dal batch). */
+    assignments: { id?: string; resourceId: string }[];
+    /** Allocazioni correnti (prima del batch) delle assegnazioni di cui sopra. */
+    allocations: Allocation;
+    resources: Pick<Resource, 'id' | 'maxStaffingPercentage' | 'location' | 'lastDayOfWork'>[];
+    leaveRequests: Pick<LeaveRequest, 'resourceId' | 'typeId' | 'startDate' | 'endDate' | 'status' | 'isHalfDay'>[];
+    leaveTypes: Pick<LeaveType, 'id' | 'affectsCapacity'>[];
+    companyCalendar: CalendarEvent[];
+    /** Calendari lavorativi delle sedi: settimana lavorativa e chiusure ricorrenti. */
+    locationCalendars?: LocationCalendar[];
+    /**
+     * Assegnazioni appena intestate alla risorsa (es. segnaposto convertito): le loro allocazioni
+     * correnti non erano carico della risorsa e nel totale precedente valgono zero.
+     */
+    newAssignmentIds?: string[];
+}
+
+interface DailyCapacity {
+    capacity: number;
+    reason: AllocationConflict['reason'];
+}
+
+/**
+ * Capacità giornaliera (in %) di una risorsa in una data, con il motivo che la limita:
+ * - giorno non lavorativo per il calendario della sede (default: weekend) / festività o
+ *   chiusura della sede → 0 (`NON_WORKING_DAY`)
+ * - oltre `lastDayOfWork` → 0 (`AFTER_LAST_DAY`)
+ * - assenza approvata che incide sulla capacità → 0, oppure max − 50 se mezza giornata (`LEAVE`)
+ * - altrimenti `maxStaffingPercentage` (default 100) (`OVER_CAPACITY`)
+ */
+export const getDailyCapacity = (
+    resource: OverbookingCheckInput['resources'][number],
+    date: string,
+    holidaySet: HolidaySet,
+    capacityLeaves: OverbookingCheckInput['leaveRequests']
+): DailyCapacity => {
+    const day = parseISODate(date);
+    const location = resource.location ?? null;
+    if (!isLocationWorkingWeekday(day, location, holidaySet) || isHolidayInSet(day, location, holidaySet)) {
+        return { capacity: 0, reason: 'NON_WORKING_DAY' };
+    }
+    if (resource.lastDayOfWork && date > resource.lastDayOfWork) {
+        return { capacity: 0, reason: 'AFTER_LAST_DAY' };
+    }
+
+    const max = resource.maxStaffingPercentage ?? 100;
+    const leave = capacityLeaves.find(l => l.resourceId === resource.id && l.startDate <= date && l.endDate >= date);
+    if (leave) {
+        return { capacity: leave.isHalfDay ? Math.max(0, max - HALF_DAY_LEAVE_LOAD) : 0, reason: 'LEAVE' };
+    }
+    return { capacity: max, reason: 'OVER_CAPACITY' };
+};
+
+/**
+ * Calcola, per ogni coppia (risorsa, giorno) toccata dal batch, il totale giornaliero
+ * risultante su tutte le assegnazioni della risorsa e lo confronta con la capacità.
+ *
+ * Un conflitto viene segnalato solo se il totale risultante supera la capacità **e**
+ * il batch lo peggiora rispetto al totale precedente: le riduzioni di carico su giornate
+ * già sovrallocate sono sempre ammesse.
+ */
+export const findAllocationConflicts = (input: OverbookingCheckInput): AllocationConflict[] => {
+    const { updates, assignments, allocations, resources, leaveRequests, leaveTypes, companyCalendar, locationCalendars } = input;
+    const newAssignmentIds = new Set(input.newAssignmentIds || []);
+
+    const resourceByAssignment = new Map<string, string>();
+    const assignmentsByResource = new Map<string, string[]>();
+    for (const a of assignments) {
+        if (!a.id) continue;
+        resourceByAssignment.set(a.id, a.resourceId);
+        const list = assignmentsByResource.get(a.resourceId) || [];
+        list.push(a.id);
+        assignmentsByResource.set(a.resourceId, list);
+    }
+    const resourceById = new Map(resources.map(r => [r.id, r]));
+    const capacityTypeIds = new Set(leaveTypes.filter(t => t.affectsCapacity).map(t => t.id));
+    const capacityLeaves = leaveRequests.filter(l => l.status === 'APPROVED' && capacityTypeIds.has(l.typeId));
+    const holidaySet = buildHolidaySet(companyCalendar, locationCalendars);
+
+    // Valori risultanti per cella (l'ultimo aggiornamento nel batch vince) e celle toccate per giorno
+    const nextValues = new Map<string, number>();
+    const touchedCells = new Map<string, { resourceId: string; date: string; assignmentIds: Set<string> }>();
+    for (const u of updates) {
+        const resourceId = resourceByAssignment.get(u.assignmentId);
+        if (!resourceId) continue;
+        nextValues.set(`${u.assignmentId}|${u.date}`, u.percentage);
+        const dayKey = `${resourceId}|${u.date}`;
+        const entry = touchedCells.get(dayKey) || { resourceId, date: u.date, assignmentIds: new Set<string>() };
+        entry.assignmentIds.add(u.assignmentId);
+        touchedCells.set(dayKey, entry);
+    }
+
+    const conflicts: AllocationConflict[] = [];
+    for (const { resourceId, date, assignmentIds } of touchedCells.values()) {
+        const resource = resourceById.get(resourceId);
+        if (!resource) continue;
+
+        let previousTotal = 0;
+        let total = 0;
+        for (const assignmentId of assignmentsByResource.get(resourceId) || []) {
+            const current = allocations[assignmentId]?.[date] || 0;
+            const key = `${assignmentId}|${date}`;
+            previousTotal += newAssignmentIds.has(assignmentId) ? 0 : current;
+            total += nextValues.has(key) ? nextValues.get(key)! : current;
+        }
+
+        const { capacity, reason } = getDailyCapacity(resource, date, holidaySet, capacityLeaves);
+        if (total > capacity && total > previousTotal) {
+            conflicts.push({
+                resourceId,
+                date,
+                assignmentIds: Array.from(assignmentIds),
+                total,
+                previousTotal,
+                capacity,
+                reason,
+            });
+        }
+    }
+
+    return conflicts.sort((a, b) => a.resourceId.localeCompare(b.resourceId) || a.date.localeCompare(b.date));
+};
+
+/** Descrizione leggibile (tooltip/report) di un conflitto di overbooking. */
+export const describeAllocationConflict = (conflict: AllocationConflict): string => {
+    switch (conflict.reason) {
+        case 'NON_WORKING_DAY':
+            return `Giorno non lavorativo (weekend o festività): totale ${conflict.total}%`;
+        case 'AFTER_LAST_DAY':
+            return `Oltre l'ultimo giorno di lavoro: totale ${conflict.total}%`;
+        case 'LEAVE':
+            return `Totale ${conflict.total}% oltre la capacità residua per assenza (${conflict.capacity}%)`;
+        default:
+            return `Totale ${conflict.total}% oltre la capacità massima (${conflict.capacity}%)`;
+    }
+};
@@ -36,8 +36,19 @@ export interface TableConfig {
   head: string[][];
   /** Dati tabella */
   body: (string | number)[][];
+  /** Colore di sfondo per cella del corpo (RGB, null = stile di default) */
+  cellFills?: (RgbColor | null)[][];
+  /** Righe del corpo in grassetto (indici) */
+  boldRows?: number[];
+  /**
+   * Tabelle più larghe della pagina: le colonne in eccesso proseguono su pagine successive
+   * ripetendo le prime `repeatColumns` colonne (es. le etichette di riga).
+   */
+  repeatColumns?: number;
 }
 
+export type RgbColor = [number, number, number];
+
 export interface PdfExportConfig {
   /** Titolo principale del documento */
   title: string;
@@ -306,6 +317,16 @@ export async function generatePdf(config: PdfExportConfig): Promise<void> {
         },
         tableLineColor: [220, 210, 240],
         tableLineWidth: 0.2,
+        ...(table.repeatColumns !== undefined && {
+          horizontalPageBreak: true,
+          horizontalPageBreakRepeat: Array.from({ length: table.repeatColumns }, (_, i) => i),
+        }),
+        didParseCell: (data) => {
+          if (data.section !== 'body') return;
+          const fill = table.cellFills?.[data.row.index]?.[data.column.index];
+          if (fill) data.cell.styles.fillColor = fill;
+          if (table.boldRows?.includes(data.row.index)) data.cell.styles.fontStyle = 'bold';
+        },
       });
 
       const lastAutoTable = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable;
@@ -0,0 +1,72 @@
+/**
+ * @file placeholderUtils.test.ts
+ * @description Test dei segnaposto di ruolo: validazione, profilo di costo e conversione
+ * in assegnazione nominativa con trasferimento delle allocazioni.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    applyPlaceholderConversion,
+    buildPlaceholderConversion,
+    isPlaceholderAssignment,
+    resolveAssignmentProfile,
+    validatePlaceholderAssignment,
+    validatePlaceholderConversionRequest,
+} from './placeholderUtils';
+
+describe('segnaposto di ruolo', () => {
+    it('riconosce le assegnazioni senza risorsa e ne valida progetto e ruolo', () => {
+        expect(isPlaceholderAssignment({ resourceId: null })).toBe(true);
+        expect(isPlaceholderAssignment({ resourceId: 'r1' })).toBe(false);
+        expect(validatePlaceholderAssignment({ projectId: 'p1', roleId: 'role1' })).toBeNull();
+        expect(validatePlaceholderAssignment({ projectId: 'p1' })).toMatch(/ruolo/);
+        expect(validatePlaceholderAssignment({ roleId: 'role1' })).toMatch(/progetto/);
+        expect(validatePlaceholderConversionRequest({ placeholderId: 'a1', resourceId: 'r1' })).toBeNull();
+        expect(validatePlaceholderConversionRequest({ placeholderId: 'a1' })).toMatch(/risorsa/);
+    });
+
+    it('costa i segnaposto con il ruolo richiesto, senza sede né ultimo giorno', () => {
+        const resources = [{ id: 'r1', roleId: 'role-dev', location: 'Milano', lastDayOfWork: null, resigned: false }];
+        expect(resolveAssignmentProfile({ resourceId: 'r1' }, resources)).toBe(resources[0]);
+        expect(resolveAssignmentProfile({ resourceId: null, roleId: 'role-senior' }, resources))
+            .toEqual({ roleId: 'role-senior', location: '', lastDayOfWork: null, resigned: false });
+        expect(resolveAssignmentProfile({ resourceId: 'missing' }, resources)).toBeUndefined();
+    });
+});
+
+describe('conversione del segnaposto', () => {
+    const placeholder = { id: 'ph', resourceId: null, projectId: 'p1' };
+    const allocations = {
+        ph: { '2024-06-03': 80, '2024-06-04': 80, '2024-06-05': 0 },
+        existing: { '2024-06-04': 20 },
+    };
+
+    it('intesta il segnaposto alla risorsa se non ha già un\'assegnazione sul progetto', () => {
+        const plan = buildPlaceholderConversion(placeholder, 'r1', [placeholder, { id: 'other', resourceId: 'r1', projectId: 'p2' }], allocations);
+        expect(plan).toEqual({
+            targetAssignmentId: 'ph',
+            mergesIntoExisting: false,
+            updates: [
+                { assignmentId: 'ph', date: '2024-06-03', percentage: 80 },
+                { assignmentId: 'ph', date: '2024-06-04', percentage: 80 },
+            ],
+        });
+    });
+
+    it('somma le allocazioni a quelle dell\'assegnazione esistente e rimuove il segnaposto', () => {
+        const assignments = [placeholder, { id: 'existing', resourceId: 'r1', projectId: 'p1' }];
+        const plan = buildPlaceholderConversion(placeholder, 'r1', assignments, allocations);
+        expect(plan.mergesIntoExisting).toBe(true);
+        expect(plan.updates).toEqual([
+            { assignmentId: 'existing', date: '2024-06-03', percentage: 80 },
+            { assignmentId: 'existing', date: '2024-06-04', percentage: 100 },
+        ]);
+
+        const next = applyPlaceholderConversion(allocations, {
+            assignment: { id: 'existing', resourceId: 'r1', projectId: 'p1' },
+            removedAssignmentId: 'ph',
+            updates: plan.updates,
+        });
+        expect(next).toEqual({ existing: { '2024-06-03': 80, '2024-06-04': 100 } });
+        expect(allocations.ph['2024-06-03']).toBe(80);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * @file placeholderUtils.ts
+ * @description Utility pure per i segnaposto di ruolo: assegnazioni senza risorsa nominativa che
+ * prenotano capacità per un ruolo (es. "Senior Java Developer, 80%, da giugno"), costate con il
+ * costo del ruolo e convertibili in un'assegnazione reale trasferendo tutte le allocazioni.
+ *
+ * Usate da `POST /api/staffing?action=assignment|placeholder`, dal Mock Engine locale e dalle
+ * pagine che costano o aggregano le assegnazioni (Staffing, Forecasting, Dashboard, Report, Revenue).
+ */
+import type { Allocation, AllocationUpdate, Assignment, PlaceholderConversionResult, Resource } from '../types';
+
+export const isPlaceholderAssignment = (assignment: Pick<Assignment, 'resourceId'> | undefined | null): boolean =>
+    !!assignment && !assignment.resourceId;
+
+/** Restituisce il messaggio d'errore del primo vincolo violato, o null se il segnaposto è valido. */
+export const validatePlaceholderAssignment = (body: unknown): string | null => {
+    if (!body || typeof body !== 'object') return 'Segnaposto mancante.';
+    const b = body as Partial<Assignment>;
+    if (!b.projectId) return 'Indicare il progetto del segnaposto.';
+    if (!b.roleId) return 'Indicare il ruolo richiesto dal segnaposto.';
+    return null;
+};
+
+/** Restituisce il messaggio d'errore del primo vincolo violato, o null se la conversione è valida. */
+export const validatePlaceholderConversionRequest = (body: unknown): string | null => {
+    if (!body || typeof body !== 'object') return 'Richiesta di conversione mancante.';
+    const b = body as { placeholderId?: unknown; resourceId?: unknown };
+    if (typeof b.placeholderId !== 'string' || !b.placeholderId) return 'Indicare il segnaposto da convertire.';
+    if (typeof b.resourceId !== 'string' || !b.resourceId) return 'Indicare la risorsa a cui intestare il segnaposto.';
+    return null;
+};
+
+/** Dati con cui costare e calendarizzare le giornate di un'assegnazione. */
+export type AssignmentStaffingProfile = Pick<Resource, 'roleId' | 'location' | 'lastDayOfWork' | 'resigned'> & { id?: string };
+
+/**
+ * Profilo di un'assegnazione: la risorsa per le assegnazioni nominative; per i segnaposto il ruolo
+ * richiesto, senza sede (festività nazionali) né ultimo giorno. Undefined se la risorsa non esiste.
+ */
+export const resolveAssignmentProfile = <R extends AssignmentStaffingProfile>(
+    assignment: Pick<Assignment, 'resourceId' | 'roleId'>,
+    resources: R[]
+): R | AssignmentStaffingProfile | undefined => {
+    if (isPlaceholderAssignment(assignment)) {
+        return assignment.roleId ? { roleId: assignment.roleId, location: '', lastDayOfWork: null, resigned: false } : undefined;
+    }
+    return resources.find(r => r.id === assignment.resourceId);
+};
+
+export interface PlaceholderConversionPlan {
+    targetAssignmentId: string;
+    /** True se la risorsa ha già un'assegnazione sul progetto: il segnaposto vi confluisce e viene eliminato. */
+    mergesIntoExisting: boolean;
+    /** Allocazioni risultanti sull'assegnazione di destinazione, una per giornata del segnaposto. */
+    updates: AllocationUpdate[];
+}
+
+/**
+ * Piano di conversione del segnaposto per la risorsa indicata. Senza un'assegnazione della risorsa
+ * sul progetto il segnaposto viene intestato alla risorsa e le allocazioni restano invariate;
+ * altrimenti si sommano a quelle dell'assegnazione esistente (come nella riassegnazione).
+ * In entrambi i casi `updates` serve al controllo di sovrallocazione della risorsa.
+ */
+export const buildPlaceholderConversion = (
+    placeholder: Pick<Assignment, 'id' | 'projectId'>,
+    resourceId: string,
+    assignments: Pick<Assignment, 'id' | 'resourceId' | 'projectId'>[],
+    allocations: Allocation
+): PlaceholderConversionPlan => {
+    const existing = assignments.find(a => a.id && a.id !== placeholder.id && a.resourceId === resourceId && a.projectId === placeholder.projectId);
+    const targetAssignmentId = existing?.id ?? placeholder.id!;
+    const updates = Object.entries(allocations[placeholder.id!] || {})
+        .filter(([, percentage]) => percentage > 0)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, percentage]) => ({
+            assignmentId: targetAssignmentId,
+            date,
+            percentage: existing ? (allocations[existing.id!]?.[date] || 0) + percentage : percentage,
+        }));
+    return { targetAssignmentId, mergesIntoExisting: !!existing, updates };
+};
+
+/** Applica a una mappa di allocazioni l'esito di una conversione (restituisce una nuova mappa). */
+export const applyPlaceholderConversion = (
+    allocations: Allocation,
+    result: Pick<PlaceholderConversionResult, 'assignment' | 'removedAssignmentId' | 'updates'>
+): Allocation => {
+    const next: Allocation = { ...allocations };
+    if (result.removedAssignmentId) delete next[result.removedAssignmentId];
+    const targetId = result.assignment.id!;
+    const target = { ...(next[targetId] || {}) };
+    for (const { date, percentage } of result.updates) {
+        if (percentage > 0) target[date] = percentage;
+        else delete target[date];
+    }
+    next[targetId] = target;
+    return next;
+};
@@ -0,0 +1,113 @@
+/**
+ * @file rateCardUtils.test.ts
+ * @description Test dello storico tariffe dei listini: tariffa valida alla data, precedenza tra
+ * risorsa, ruolo, seniority e default, pianificazione dei periodi quando una tariffa cambia con una decorrenza.
+ */
+import { describe, it, expect } from 'vitest';
+import type { RateCardEntryHistory, RateCardLine } from '../types';
+import { RATE_HISTORY_START, getRateTimeline, getSellRateForDate, planRateChange, planRateLineChange, resolveSellRate } from './rateCardUtils';
+
+const entries = [{ rateCardId: 'rc1', resourceId: 'r1', dailyRate: 600 }];
+const history: RateCardEntryHistory[] = [
+    { id: 'h1', rateCardId: 'rc1', resourceId: 'r1', dailyRate: 500, startDate: RATE_HISTORY_START, endDate: '2025-03-31' },
+    { id: 'h2', rateCardId: 'rc1', resourceId: 'r1', dailyRate: 600, startDate: '2025-04-01', endDate: null },
+];
+
+describe('getSellRateForDate', () => {
+    it('applica la tariffa valida giorno per giorno', () => {
+        expect(getSellRateForDate('rc1', 'r1', '2025-03-31', history, entries)).toBe(500);
+        expect(getSellRateForDate('rc1', 'r1', '2025-04-01', history, entries)).toBe(600);
+        expect(getSellRateForDate('rc1', 'r1', new Date(Date.UTC(2024, 0, 15)), history, entries)).toBe(500);
+    });
+
+    it('senza storico usa la tariffa corrente, senza listino restituisce 0', () => {
+        expect(getSellRateForDate('rc1', 'r1', '2025-01-01', [], entries)).toBe(600);
+        expect(getSellRateForDate('rc1', 'r2', '2025-01-01', history, entries)).toBe(0);
+        expect(getSellRateForDate(null, 'r1', '2025-01-01', history, entries)).toBe(0);
+    });
+});
+
+describe('getRateTimeline', () => {
+    it('ordina i periodi dal più recente', () => {
+        expect(getRateTimeline('rc1', 'r1', history).map(h => h.id)).toEqual(['h2', 'h1']);
+    });
+});
+
+describe('planRateChange', () => {
+    it('alla prima modifica storicizza la tariffa precedente', () => {
+        const plan = planRateChange('rc1', 'r1', 650, '2025-06-01', [], 600);
+        expect(plan.close).toEqual([]);
+        expect(plan.insert).toEqual([
+            { rateCardId: 'rc1', resourceId: 'r1', dailyRate: 600, startDate: RATE_HISTORY_START, endDate: '2025-05-31' },
+            { rateCardId: 'rc1', resourceId: 'r1', dailyRate: 650, startDate: '2025-06-01', endDate: null },
+        ]);
+    });
+
+    it('chiude il periodo aperto il giorno prima della decorrenza', () => {
+        const plan = planRateChange('rc1', 'r1', 700, '2025-09-01', history, 600);
+        expect(plan.close).toEqual([{ id: 'h2', endDate: '2025-08-31' }]);
+        expect(plan.remove).toEqual([]);
+        expect(plan.insert).toHaveLength(1);
+    });
+
+    it('sostituisce i cambi già pianificati dalla decorrenza in poi', () => {
+        const plan = planRateChange('rc1', 'r1', 550, '2025-03-01', history, 600);
+        expect(plan.remove).toEqual(['h2']);
+        expect(plan.close).toEqual([{ id: 'h1', endDate: '2025-02-28' }]);
+        expect(plan.insert[0]).toMatchObject({ dailyRate: 550, startDate: '2025-03-01', endDate: null });
+    });
+
+    it('non crea storico per tariffe nuove o invariate', () => {
+        expect(planRateChange('rc1', 'r2', 400, '2025-06-01', [], undefined).insert).toEqual([]);
+        const unchanged = planRateChange('rc1', 'r1', 600, '2025-06-01', history, 600);
+        expect(unchanged).toEqual({ close: [], remove: [], insert: [] });
+    });
+});
+
+describe('resolveSellRate', () => {
+    const lines: RateCardLine[] = [
+        { id: 'l1', rateCardId: 'rc1', lineType: 'ROLE', lineKey: 'dev', dailyRate: 520, startDate: RATE_HISTORY_START, endDate: null },
+        { id: 'l2', rateCardId: 'rc1', lineType: 'SENIORITY', lineKey: 'Senior', dailyRate: 480, startDate: RATE_HISTORY_START, endDate: '2025-06-30' },
+        { id: 'l3', rateCardId: 'rc1', lineType: 'SENIORITY', lineKey: 'Senior', dailyRate: 500, startDate: '2025-07-01', endDate: null },
+        { id: 'l4', rateCardId: 'rc1', lineType: 'DEFAULT', lineKey: '*', dailyRate: 400, startDate: RATE_HISTORY_START, endDate: null },
+    ];
+    const roles = [
+        { id: 'dev', seniorityLevel: 'Senior' },
+        { id: 'pm', seniorityLevel: 'Senior' },
+        { id: 'intern', seniorityLevel: 'Junior' },
+    ];
+    const context = { entries, history, lines, roles };
+
+    it('risolve risorsa → ruolo → seniority → default', () => {
+        expect(resolveSellRate('rc1', { id: 'r1', roleId: 'dev' }, '2025-05-01', context)).toEqual({ rate: 600, source: 'RESOURCE' });
+        expect(resolveSellRate('rc1', { id: 'r9', roleId: 'dev' }, '2025-05-01', context)).toEqual({ rate: 520, source: 'ROLE' });
+        expect(resolveSellRate('rc1', { id: 'r9', roleId: 'pm' }, '2025-05-01', context)).toEqual({ rate: 480, source: 'SENIORITY' });
+        expect(resolveSellRate('rc1', { id: 'r9', roleId: 'pm' }, '2025-07-01', context)).toEqual({ rate: 500, source: 'SENIORITY' });
+        expect(resolveSellRate('rc1', { id: 'r9', roleId: 'intern' }, '2025-05-01', context)).toEqual({ rate: 400, source: 'DEFAULT' });
+    });
+
+    it('una tariffa a zero non è una regola e senza regole non c\'è tariffa', () => {
+        const zeroed = { ...context, entries: [{ rateCardId: 'rc1', resourceId: 'r1', dailyRate: 0 }], history: [] };
+        expect(resolveSellRate('rc1', { id: 'r1', roleId: 'dev' }, '2025-05-01', zeroed).source).toBe('ROLE');
+        expect(resolveSellRate('rc2', { id: 'r1', roleId: 'dev' }, '2025-05-01', context)).toEqual({ rate: 0, source: 'NONE' });
+        expect(resolveSellRate(null, { id: 'r1', roleId: 'dev' }, '2025-05-01', context).source).toBe('NONE');
+    });
+});
+
+describe('planRateLineChange', () => {
+    const line = { rateCardId: 'rc1', lineType: 'ROLE' as const, lineKey: 'dev' };
+
+    it('la prima tariffa di una regola vale da sempre', () => {
+        expect(planRateLineChange(line, 520, '2025-06-01', []).insert).toEqual([
+            { ...line, dailyRate: 520, startDate: RATE_HISTORY_START, endDate: null },
+        ]);
+    });
+
+    it('i cambi successivi valgono dalla decorrenza', () => {
+        const existing = [{ id: 'l1', dailyRate: 520, startDate: RATE_HISTORY_START, endDate: null }];
+        const plan = planRateLineChange(line, 560, '2025-06-01', existing);
+        expect(plan.close).toEqual([{ id: 'l1', endDate: '2025-05-31' }]);
+        expect(plan.insert).toEqual([{ ...line, dailyRate: 560, startDate: '2025-06-01', endDate: null }]);
+        expect(planRateLineChange(line, 520, '2025-06-01', existing)).toEqual({ close: [], remove: [], insert: [] });
+    });
+});
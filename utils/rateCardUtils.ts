@@ -0,0 +1,204 @@
+/**
+ * @file utils/rateCardUtils.ts
+ * @description Tariffe di vendita dei listini nel tempo (SCD Type 2, come lo storico costi dei ruoli):
+ * risoluzione della tariffa valida a una data (risorsa → ruolo → seniority → default) e
+ * pianificazione dei periodi quando una tariffa cambia.
+ */
+
+import type { RateCardEntry, RateCardEntryHistory, RateCardLine, RateCardLineType, Resource, Role } from '../types';
+import { toISODateString } from './dateUtils.js';
+
+/** Inizio del primo periodo storico: la tariffa precedente al primo cambio vale da sempre. */
+export const RATE_HISTORY_START = '1900-01-01';
+
+/** Chiave della riga di default del listino. */
+export const DEFAULT_LINE_KEY = '*';
+
+export const RATE_CARD_LINE_TYPES: RateCardLineType[] = ['ROLE', 'SENIORITY', 'DEFAULT'];
+
+type RateHistoryRecord = Pick<RateCardEntryHistory, 'rateCardId' | 'resourceId' | 'dailyRate' | 'startDate' | 'endDate'>;
+type RateLineRecord = Pick<RateCardLine, 'rateCardId' | 'lineType' | 'lineKey' | 'dailyRate' | 'startDate' | 'endDate'>;
+
+const toDateKey = (date: Date | string): string => typeof date === 'string' ? date.split('T')[0] : toISODateString(date);
+
+const covers = (period: { startDate: string; endDate: string | null }, dateStr: string) =>
+    dateStr >= period.startDate && (!period.endDate || dateStr <= period.endDate);
+
+/**
+ * Restituisce la tariffa giornaliera di una risorsa in un listino valida a una data.
+ * Cerca il periodo storico che contiene la data; senza storico usa la tariffa corrente del listino.
+ *
+ * @param rateCardId - L'ID del listino.
+ * @param resourceId - L'ID della risorsa.
+ * @param date - La data di interesse (oggetto Date o stringa YYYY-MM-DD).
+ * @param history - Lo storico delle tariffe.
+ * @param entries - Le tariffe correnti (fallback).
+ * @returns La tariffa giornaliera (0 se la risorsa non ha tariffa nel listino).
+ */
+export const getSellRateForDate = (
+    rateCardId: string | null | undefined,
+    resourceId: string,
+    date: Date | string,
+    history: RateHistoryRecord[],
+    entries: Pick<RateCardEntry, 'rateCardId' | 'resourceId' | 'dailyRate'>[]
+): number => {
+    if (!rateCardId) return 0;
+    const targetDateStr = toDateKey(date);
+
+    const historicRecord = history.find(h =>
+        h.rateCardId === rateCardId && h.resourceId === resourceId && covers(h, targetDateStr));
+    if (historicRecord) return Number(historicRecord.dailyRate);
+
+    const entry = entries.find(e => e.rateCardId === rateCardId && e.resourceId === resourceId);
+    return entry ? Number(entry.dailyRate) : 0;
+};
+
+/** Tariffa di una riga per ruolo, seniority o default valida alla data (0 se assente). */
+export const getLineRateForDate = (
+    rateCardId: string,
+    lineType: RateCardLineType,
+    lineKey: string,
+    date: Date | string,
+    lines: RateLineRecord[]
+): number => {
+    const targetDateStr = toDateKey(date);
+    const line = lines.find(l =>
+        l.rateCardId === rateCardId && l.lineType === lineType && l.lineKey === lineKey && covers(l, targetDateStr));
+    return line ? Number(line.dailyRate) : 0;
+};
+
+export type SellRateSource = 'RESOURCE' | RateCardLineType | 'NONE';
+
+export const SELL_RATE_SOURCE_LABELS: Record<SellRateSource, string> = {
+    RESOURCE: 'Risorsa',
+    ROLE: 'Ruolo',
+    SENIORITY: 'Seniority',
+    DEFAULT: 'Default',
+    NONE: 'Nessuna tariffa',
+};
+
+/** Tariffe del listino necessarie alla risoluzione (correnti, storico e righe generiche). */
+export interface SellRateContext {
+    entries: Pick<RateCardEntry, 'rateCardId' | 'resourceId' | 'dailyRate'>[];
+    history: RateHistoryRecord[];
+    lines: RateLineRecord[];
+    roles: Pick<Role, 'id' | 'seniorityLevel'>[];
+}
+
+/**
+ * Tariffa effettiva di una risorsa alla data e regola che l'ha prodotta: tariffa specifica della
+ * risorsa, poi del suo ruolo, del livello di seniority del ruolo e infine la riga di default.
+ * Una tariffa a zero non è una regola: si passa al livello successivo.
+ */
+export const resolveSellRate = (
+    rateCardId: string | null | undefined,
+    resource: Pick<Resource, 'id' | 'roleId'> | undefined,
+    date: Date | string,
+    { entries, history, lines, roles }: SellRateContext
+): { rate: number; source: SellRateSource } => {
+    if (!rateCardId || !resource) return { rate: 0, source: 'NONE' };
+
+    const resourceRate = getSellRateForDate(rateCardId, resource.id, date, history, entries);
+    if (resourceRate > 0) return { rate: resourceRate, source: 'RESOURCE' };
+
+    const seniorityLevel = roles.find(r => r.id === resource.roleId)?.seniorityLevel;
+    const candidates: [RateCardLineType, string | undefined][] = [
+        ['ROLE', resource.roleId],
+        ['SENIORITY', seniorityLevel],
+        ['DEFAULT', DEFAULT_LINE_KEY],
+    ];
+    for (const [lineType, lineKey] of candidates) {
+        if (!lineKey) continue;
+        const rate = getLineRateForDate(rateCardId, lineType, lineKey, date, lines);
+        if (rate > 0) return { rate, source: lineType };
+    }
+    return { rate: 0, source: 'NONE' };
+};
+
+/** Periodi di una tariffa dal più recente, per la timeline dei cambi. */
+export const getRateTimeline = <T extends RateHistoryRecord>(
+    rateCardId: string,
+    resourceId: string,
+    history: T[]
+): T[] =>
+    history
+        .filter(h => h.rateCardId === rateCardId && h.resourceId === resourceId)
+        .sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+type RatePeriod = Pick<RateCardEntryHistory, 'id' | 'dailyRate' | 'startDate' | 'endDate'>;
+type NewRatePeriod = Omit<RatePeriod, 'id'>;
+
+/** Operazioni sullo storico necessarie ad applicare un cambio tariffa. */
+export interface RateChangePlan<T = Omit<RateCardEntryHistory, 'id'>> {
+    /** Periodi da chiudere il giorno prima della decorrenza. */
+    close: { id: string; endDate: string }[];
+    /** Periodi che iniziano dalla decorrenza in poi, sostituiti dal nuovo. */
+    remove: string[];
+    /** Periodi da inserire (l'eventuale tariffa precedente e la nuova). */
+    insert: T[];
+}
+
+const planPeriods = (
+    newRate: number,
+    effectiveFrom: string,
+    periods: RatePeriod[],
+    previousRate: number | undefined
+): RateChangePlan<NewRatePeriod> => {
+    const plan: RateChangePlan<NewRatePeriod> = { close: [], remove: [], insert: [] };
+    const covering = periods.find(p => covers(p, effectiveFrom));
+    const currentRate = covering ? Number(covering.dailyRate) : previousRate;
+    const hasLaterChanges = periods.some(p => p.startDate > effectiveFrom);
+    if (currentRate === newRate && !hasLaterChanges) return plan;
+
+    const dayBefore = new Date(`${effectiveFrom}T00:00:00Z`);
+    dayBefore.setUTCDate(dayBefore.getUTCDate() - 1);
+    const endDate = toISODateString(dayBefore);
+
+    if (periods.length === 0 && previousRate !== undefined) {
+        plan.insert.push({ dailyRate: previousRate, startDate: RATE_HISTORY_START, endDate });
+    }
+    periods.forEach(p => {
+        if (p.startDate >= effectiveFrom) plan.remove.push(p.id);
+        else if (!p.endDate || p.endDate >= effectiveFrom) plan.close.push({ id: p.id, endDate });
+    });
+    plan.insert.push({ dailyRate: newRate, startDate: effectiveFrom, endDate: null });
+    return plan;
+};
+
+/**
+ * Pianifica l'applicazione di una nuova tariffa da `effectiveFrom` senza alterare i giorni precedenti.
+ * Alla prima modifica la tariffa precedente diventa un periodo storico chiuso; i cambi già
+ * pianificati dalla decorrenza in poi vengono sostituiti. Una tariffa nuova (senza precedente) o
+ * invariata alla decorrenza non richiede storico.
+ *
+ * @param pairHistory - Lo storico della coppia listino/risorsa.
+ * @param previousRate - La tariffa corrente prima del salvataggio (undefined se non esisteva).
+ */
+export const planRateChange = (
+    rateCardId: string,
+    resourceId: string,
+    newRate: number,
+    effectiveFrom: string,
+    pairHistory: RateCardEntryHistory[],
+    previousRate: number | undefined
+): RateChangePlan => {
+    if (previousRate === undefined && pairHistory.length === 0) return { close: [], remove: [], insert: [] };
+    const plan = planPeriods(newRate, effectiveFrom, pairHistory, previousRate);
+    return { ...plan, insert: plan.insert.map(period => ({ ...period, rateCardId, resourceId })) };
+};
+
+/**
+ * Come `planRateChange` per le righe per ruolo, seniority o default, che vivono solo come periodi:
+ * la prima tariffa di una riga vale da sempre, le successive dalla decorrenza.
+ */
+export const planRateLineChange = (
+    line: Pick<RateCardLine, 'rateCardId' | 'lineType' | 'lineKey'>,
+    newRate: number,
+    effectiveFrom: string,
+    lineHistory: RatePeriod[]
+): RateChangePlan<Omit<RateCardLine, 'id'>> => {
+    const plan: RateChangePlan<NewRatePeriod> = lineHistory.length === 0
+        ? { close: [], remove: [], insert: [{ dailyRate: newRate, startDate: RATE_HISTORY_START, endDate: null }] }
+        : planPeriods(newRate, effectiveFrom, lineHistory, undefined);
+    return { ...plan, insert: plan.insert.map(period => ({ ...period, ...line })) };
+};
@@ -0,0 +1,96 @@
+/**
+ * @file reassignmentUtils.test.ts
+ * @description Test del piano di riassegnazione delle allocazioni future tra risorse:
+ * cutover, filtro per progetto, assegnazioni da creare e sovrallocazioni della destinazione.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    applyReassignmentPlan,
+    buildReassignmentPlan,
+    resolveReassignmentPlan,
+    validateReassignmentRequest,
+} from './reassignmentUtils';
+import type { Assignment } from '../types';
+
+const resources = [
+    { id: 'src', maxStaffingPercentage: 100, location: 'Milano', lastDayOfWork: '2024-06-05' },
+    { id: 'dst', maxStaffingPercentage: 100, location: 'Milano', lastDayOfWork: null },
+];
+const assignments: Assignment[] = [
+    { id: 'a1', resourceId: 'src', projectId: 'p1', bookingStatus: 'TENTATIVE' },
+    { id: 'a2', resourceId: 'src', projectId: 'p2' },
+    { id: 'a3', resourceId: 'src', projectId: 'p3' },
+    { id: 'b2', resourceId: 'dst', projectId: 'p2' },
+    { id: 'b9', resourceId: 'dst', projectId: 'p9' },
+];
+// Cutover mercoledì 5 giugno 2024
+const allocations = {
+    a1: { '2024-06-04': 40, '2024-06-05': 40, '2024-06-06': 40 },
+    a2: { '2024-06-06': 40, '2024-06-07': 40 },
+    a3: { '2024-06-03': 100 },
+    b2: { '2024-06-06': 20 },
+    b9: { '2024-06-07': 40 },
+};
+const context = { resources, allocations, assignments, leaveRequests: [], leaveTypes: [], companyCalendar: [] };
+const request = { sourceResourceId: 'src', targetResourceId: 'dst', cutoverDate: '2024-06-05' };
+
+describe('buildReassignmentPlan', () => {
+    it('trasferisce le allocazioni dal cutover, sommandole a quelle già presenti sul progetto', () => {
+        const plan = buildReassignmentPlan({ ...context, request });
+
+        expect(plan.moves).toEqual([
+            {
+                projectId: 'p1', sourceAssignmentId: 'a1', targetAssignmentId: 'new:p1', createsAssignment: true,
+                bookingStatus: 'TENTATIVE', days: 2, effortDays: 0.8, firstDate: '2024-06-05', lastDate: '2024-06-06',
+            },
+            {
+                projectId: 'p2', sourceAssignmentId: 'a2', targetAssignmentId: 'b2', createsAssignment: false,
+                bookingStatus: 'CONFIRMED', days: 2, effortDays: 0.8, firstDate: '2024-06-06', lastDate: '2024-06-07',
+            },
+        ]);
+        expect(plan.sourceUpdates.every(u => u.percentage === 0 && u.date >= '2024-06-05')).toBe(true);
+        expect(plan.targetUpdates).toContainEqual({ assignmentId: 'b2', date: '2024-06-06', percentage: 60 });
+        expect(plan.conflicts).toEqual([]);
+    });
+
+    it('limita il trasferimento ai progetti selezionati', () => {
+        const plan = buildReassignmentPlan({ ...context, request: { ...request, projectIds: ['p2', 'p3'] } });
+        expect(plan.moves.map(m => m.projectId)).toEqual(['p2']);
+    });
+
+    it('segnala la sovrallocazione della destinazione contando anche le assegnazioni da creare', () => {
+        const plan = buildReassignmentPlan({
+            ...context,
+            allocations: { ...allocations, b9: { '2024-06-06': 80 } },
+            request,
+        });
+        expect(plan.conflicts).toHaveLength(1);
+        expect(plan.conflicts[0]).toMatchObject({
+            resourceId: 'dst', date: '2024-06-06', total: 180, previousTotal: 100, assignmentIds: ['new:p1', 'b2'],
+        });
+    });
+});
+
+describe('resolveReassignmentPlan / applyReassignmentPlan', () => {
+    it('sostituisce gli id provvisori e sposta le allocazioni nella mappa locale', () => {
+        const plan = resolveReassignmentPlan(buildReassignmentPlan({ ...context, request }), { 'new:p1': 'c1' });
+        expect(plan.moves[0].targetAssignmentId).toBe('c1');
+
+        const next = applyReassignmentPlan(allocations, plan);
+        expect(next.a1).toEqual({ '2024-06-04': 40 });
+        expect(next.a2).toEqual({});
+        expect(next.c1).toEqual({ '2024-06-05': 40, '2024-06-06': 40 });
+        expect(next.b2).toEqual({ '2024-06-06': 60, '2024-06-07': 40 });
+        expect(next.a3).toBe(allocations.a3);
+    });
+});
+
+describe('validateReassignmentRequest', () => {
+    it('accetta una richiesta completa e segnala il primo vincolo violato', () => {
+        expect(validateReassignmentRequest({ ...request, projectIds: ['p1'] })).toBeNull();
+        expect(validateReassignmentRequest({ ...request, targetResourceId: 'src' })).toMatch(/diversa/);
+        expect(validateReassignmentRequest({ ...request, cutoverDate: '05/06/2024' })).toMatch(/YYYY-MM-DD/);
+        expect(validateReassignmentRequest({ ...request, projectIds: 'p1' })).toMatch(/projectIds/);
+        expect(validateReassignmentRequest(null)).toMatch(/mancante/);
+    });
+});
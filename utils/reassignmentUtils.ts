@@ -0,0 +1,132 @@
+/**
+ * @file reassignmentUtils.ts
+ * @description Utility pure per la riassegnazione (o sostituzione) di una risorsa:
+ * le allocazioni dalla data di cutover in poi passano dalla risorsa di origine a
+ * quella di destinazione, progetto per progetto, creando le assegnazioni mancanti.
+ *
+ * Usate sia dall'endpoint `POST /api/staffing?action=reassign` sia dal Mock Engine
+ * locale e dal wizard della griglia di Staffing. Le sovrallocazioni della destinazione
+ * sono calcolate con `findAllocationConflicts`, come per ogni altro batch di allocazioni.
+ */
+import type { Allocation, AllocationUpdate, Assignment, ReassignmentMove, ReassignmentPlan, ReassignmentRequest } from '../types';
+import { parseISODate } from './dateUtils.js';
+import { findAllocationConflicts, type OverbookingCheckInput } from './overbookingUtils.js';
+
+/** Prefisso degli id provvisori delle assegnazioni di destinazione ancora da creare. */
+export const NEW_ASSIGNMENT_PREFIX = 'new:';
+
+const roundDays = (value: number) => Math.round(value * 100) / 100;
+
+/** Restituisce il messaggio d'errore del primo vincolo violato, o null se la richiesta è valida. */
+export const validateReassignmentRequest = (request: unknown): string | null => {
+    if (!request || typeof request !== 'object') return 'Richiesta di riassegnazione mancante.';
+    const r = request as Partial<ReassignmentRequest>;
+    if (!r.sourceResourceId || !r.targetResourceId) return 'Indicare la risorsa di origine e quella di destinazione.';
+    if (r.sourceResourceId === r.targetResourceId) return 'La risorsa di destinazione deve essere diversa da quella di origine.';
+    if (typeof r.cutoverDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(r.cutoverDate) || isNaN(parseISODate(r.cutoverDate).getTime())) {
+        return 'La data di cutover deve essere nel formato YYYY-MM-DD.';
+    }
+    if (r.projectIds !== undefined && (!Array.isArray(r.projectIds) || !r.projectIds.every(id => typeof id === 'string' && id))) {
+        return 'Il campo "projectIds" deve essere un elenco di id progetto.';
+    }
+    return null;
+};
+
+export interface ReassignmentPlanInput extends Omit<OverbookingCheckInput, 'updates' | 'assignments'> {
+    request: ReassignmentRequest;
+    /** Assegnazioni di entrambe le risorse (quelle della destinazione servono al calcolo del carico). */
+    assignments: Pick<Assignment, 'id' | 'resourceId' | 'projectId' | 'bookingStatus'>[];
+}
+
+/**
+ * Costruisce il piano di trasferimento. Per ogni progetto della risorsa di origine
+ * (filtrato da `projectIds`) con allocazioni dal cutover in poi:
+ * - le allocazioni dell'origine vengono azzerate;
+ * - quelle della destinazione ricevono la stessa percentuale, sommata a quanto già
+ *   allocato sul progetto; se la destinazione non ha l'assegnazione, viene usato un
+ *   id provvisorio `new:<projectId>` e l'assegnazione eredita lo stato di prenotazione.
+ * I progetti senza allocazioni future non generano assegnazioni.
+ */
+export const buildReassignmentPlan = (input: ReassignmentPlanInput): ReassignmentPlan => {
+    const { request, assignments, allocations, ...context } = input;
+    const { sourceResourceId, targetResourceId, cutoverDate } = request;
+    const projectFilter = request.projectIds?.length ? new Set(request.projectIds) : null;
+
+    const targetByProject = new Map(
+        assignments.filter(a => a.id && a.resourceId === targetResourceId).map(a => [a.projectId, a.id!])
+    );
+    const sources = assignments
+        .filter(a => a.id && a.resourceId === sourceResourceId && (!projectFilter || projectFilter.has(a.projectId)))
+        .sort((a, b) => a.projectId.localeCompare(b.projectId));
+
+    const moves: ReassignmentMove[] = [];
+    const sourceUpdates: AllocationUpdate[] = [];
+    const targetUpdates: AllocationUpdate[] = [];
+    const placeholders: { id: string; resourceId: string }[] = [];
+
+    for (const source of sources) {
+        const entries = Object.entries(allocations[source.id!] || {})
+            .filter(([date, percentage]) => date >= cutoverDate && percentage > 0)
+            .sort(([a], [b]) => a.localeCompare(b));
+        if (entries.length === 0) continue;
+
+        const existingTargetId = targetByProject.get(source.projectId);
+        const targetAssignmentId = existingTargetId ?? `${NEW_ASSIGNMENT_PREFIX}${source.projectId}`;
+        if (!existingTargetId) placeholders.push({ id: targetAssignmentId, resourceId: targetResourceId });
+
+        let total = 0;
+        for (const [date, percentage] of entries) {
+            sourceUpdates.push({ assignmentId: source.id!, date, percentage: 0 });
+            const current = existingTargetId ? allocations[existingTargetId]?.[date] || 0 : 0;
+            targetUpdates.push({ assignmentId: targetAssignmentId, date, percentage: current + percentage });
+            total += percentage;
+        }
+        moves.push({
+            projectId: source.projectId,
+            sourceAssignmentId: source.id!,
+            targetAssignmentId,
+            createsAssignment: !existingTargetId,
+            bookingStatus: source.bookingStatus ?? 'CONFIRMED',
+            days: entries.length,
+            effortDays: roundDays(total / 100),
+            firstDate: entries[0][0],
+            lastDate: entries[entries.length - 1][0],
+        });
+    }
+
+    // Solo gli aggiornamenti della destinazione: quelli dell'origine riducono il carico
+    // e non possono generare conflitti.
+    const conflicts = findAllocationConflicts({
+        ...context,
+        updates: targetUpdates,
+        assignments: [...assignments.map(a => ({ id: a.id, resourceId: a.resourceId })), ...placeholders],
+        allocations,
+    });
+    return { moves, sourceUpdates, targetUpdates, conflicts };
+};
+
+/**
+ * Sostituisce gli id provvisori (`new:<projectId>`) con quelli delle assegnazioni
+ * effettivamente create, in mosse, aggiornamenti e conflitti.
+ */
+export const resolveReassignmentPlan = (plan: ReassignmentPlan, createdIds: Record<string, string>): ReassignmentPlan => {
+    const resolve = (id: string) => createdIds[id] ?? id;
+    return {
+        moves: plan.moves.map(m => ({ ...m, targetAssignmentId: resolve(m.targetAssignmentId) })),
+        sourceUpdates: plan.sourceUpdates,
+        targetUpdates: plan.targetUpdates.map(u => ({ ...u, assignmentId: resolve(u.assignmentId) })),
+        conflicts: plan.conflicts.map(c => ({ ...c, assignmentIds: c.assignmentIds.map(resolve) })),
+    };
+};
+
+/** Applica un piano (con id già risolti) alla mappa locale delle allocazioni. */
+export const applyReassignmentPlan = (allocations: Allocation, plan: Pick<ReassignmentPlan, 'sourceUpdates' | 'targetUpdates'>): Allocation => {
+    const next = { ...allocations };
+    for (const u of [...plan.sourceUpdates, ...plan.targetUpdates]) {
+        const assignAlloc = { ...(next[u.assignmentId] || {}) };
+        if (u.percentage === 0) delete assignAlloc[u.date];
+        else assignAlloc[u.date] = u.percentage;
+        next[u.assignmentId] = assignAlloc;
+    }
+    return next;
+};
@@ -0,0 +1,92 @@
+/**
+ * @file staffingGridExportUtils.test.ts
+ * @description Test del modello di export della griglia di Staffing: valori e colori delle celle
+ * in vista Giorno (festività, assenze, sovrallocazione) e in vista Settimana (medie), configurazione PDF.
+ */
+import { describe, it, expect } from 'vitest';
+import type { Assignment, CalendarEvent } from '../types';
+import { buildStaffingGridExport, buildStaffingGridPdfConfig, type StaffingGridExportInput } from './staffingGridExportUtils';
+
+const day = (dateIso: string) => ({
+    label: dateIso, startDate: new Date(`${dateIso}T00:00:00Z`), endDate: new Date(`${dateIso}T00:00:00Z`), dateIso, isNonWorkingDay: false,
+});
+
+const a1: Assignment = { id: 'a1', resourceId: 'r1', projectId: 'p1' };
+const a2: Assignment = { id: 'a2', resourceId: 'r1', projectId: 'p2', bookingStatus: 'TENTATIVE' };
+const calendar: CalendarEvent[] = [{ name: 'Santo Patrono', date: '2024-06-05', type: 'LOCAL_HOLIDAY', location: 'Milano' }];
+
+const baseInput = (overrides: Partial<StaffingGridExportInput>): StaffingGridExportInput => ({
+    title: 'Staffing',
+    viewMode: 'day',
+    subtitle: 'Vista: Giorno',
+    columns: [day('2024-06-03'), day('2024-06-04'), day('2024-06-05'), day('2024-06-06')],
+    sections: [{
+        resource: { id: 'r1', name: 'Mario Rossi', roleName: 'Consultant', maxStaffingPercentage: 100, location: 'Milano' },
+        rows: [
+            { assignment: a1, label: 'Progetto A', client: 'Cliente A', projectManager: 'PM A' },
+            { assignment: a2, label: 'Progetto B', client: 'Cliente B', projectManager: 'PM B' },
+        ],
+        loadAssignments: [a1, a2],
+    }],
+    allocations: {
+        a1: { '2024-06-03': 80, '2024-06-04': 100, '2024-06-06': 60 },
+        a2: { '2024-06-03': 40, '2024-06-06': 50 },
+    },
+    companyCalendar: calendar,
+    getLeave: (_resourceId, dateIso) => (dateIso === '2024-06-06' ? { typeName: 'Ferie', isHalfDay: true, affectsCapacity: true } : undefined),
+    ...overrides,
+});
+
+describe('buildStaffingGridExport', () => {
+    it('in vista Giorno colora il totale della risorsa, festività della sede e mezze assenze', () => {
+        const grid = buildStaffingGridExport(baseInput({}));
+        const [resource, first, second] = grid.rows;
+
+        expect(grid.header).toEqual(['Risorsa / Progetto', 'Cliente', 'Project Manager', '2024-06-03', '2024-06-04', '2024-06-05', '2024-06-06']);
+        expect(resource.kind).toBe('RESOURCE');
+        expect(resource.cells.map(c => [c.value, c.tone])).toEqual([
+            [120, 'OVER'],
+            [100, 'FULL'],
+            [null, 'NON_WORKING'],
+            // 110% allocato + mezza giornata di ferie
+            [110, 'OVER'],
+        ]);
+        expect(first.cells.map(c => c.value)).toEqual([80, 100, null, 60]);
+        expect(second.tentative).toBe(true);
+    });
+
+    it('in vista Settimana riporta le medie sui giorni lavorativi della sede', () => {
+        const grid = buildStaffingGridExport(baseInput({
+            viewMode: 'week',
+            columns: [{ label: '03/06 - 09/06', startDate: new Date('2024-06-03T00:00:00Z'), endDate: new Date('2024-06-09T00:00:00Z'), dateIso: '', isNonWorkingDay: false }],
+        }));
+        // 4 giorni lavorativi (festa patronale il 05/06): a1 = 2.4 g/u, a2 = 0.9 g/u
+        expect(grid.rows.map(r => [r.cells[0].value, r.cells[0].tone])).toEqual([
+            [83, 'UNDER'],
+            [60, 'UNDER'],
+            [23, 'UNDER'],
+        ]);
+    });
+
+    it('riporta le assenze di giornata intera con il tipo di assenza', () => {
+        const grid = buildStaffingGridExport(baseInput({
+            getLeave: (_resourceId, dateIso) => (dateIso === '2024-06-04' ? { typeName: 'Malattia', isHalfDay: false, affectsCapacity: true } : undefined),
+        }));
+        expect(grid.rows.map(r => [r.cells[1].text, r.cells[1].tone])).toEqual([
+            ['Malattia', 'LEAVE'],
+            ['Malattia', 'LEAVE'],
+            ['Malattia', 'LEAVE'],
+        ]);
+    });
+});
+
+describe('buildStaffingGridPdfConfig', () => {
+    it('applica i colori alle celle e il grassetto alle righe risorsa', () => {
+        const table = buildStaffingGridPdfConfig(buildStaffingGridExport(baseInput({}))).tables[0];
+        expect(table.body[0].slice(3)).toEqual(['120%', '100%', '-', '110%']);
+        expect(table.body[2][0]).toBe('   Progetto B (provvisoria)');
+        expect(table.cellFills?.[0][3]).toEqual([0xf3, 0xdb, 0xe3]);
+        expect(table.boldRows).toEqual([0]);
+        expect(table.repeatColumns).toBe(1);
+    });
+});
@@ -0,0 +1,281 @@
+/**
+ * @file staffingGridExportUtils.ts
+ * @description Colori di carico della griglia di Staffing e modello dell'export "come a video":
+ * le stesse righe (segnaposto, risorse e assegnazioni visibili), le stesse colonne della vista
+ * Giorno/Settimana/Mese e gli stessi colori per sovra/sotto-allocazione, festività e assenze.
+ * Il modello viene reso in XLSX (`exportStaffingGrid`) o in PDF orizzontale (`buildStaffingGridPdfConfig`).
+ */
+
+import type { Allocation, Assignment, CalendarEvent } from '../types';
+import type { PdfExportConfig, RgbColor } from './pdfExportUtils';
+import { formatDate, getWorkingDaysBetween, isHoliday } from './dateUtils';
+import { isTentativeAssignment } from './allocationUtils';
+
+/** Esito cromatico di una cella: sovrallocata, piena, parziale, vuota, non lavorativa o in assenza. */
+export type StaffingLoadTone = 'OVER' | 'FULL' | 'UNDER' | 'EMPTY' | 'NON_WORKING' | 'LEAVE';
+
+/** Profilo usato per il calendario della cella (per i segnaposto: nessuna sede né ultimo giorno). */
+export interface StaffingLoadProfile {
+    location: string | null;
+    lastDayOfWork?: string | null;
+    maxStaffingPercentage?: number;
+}
+
+/** Colori del tema chiaro (index.css), condivisi da XLSX e PDF. */
+export const STAFFING_LOAD_TONE_COLORS: Record<StaffingLoadTone, string | null> = {
+    OVER: '#f3dbe3',        // error-container
+    FULL: '#e8e4f0',        // tertiary-container
+    UNDER: '#fae650',       // yellow-container
+    EMPTY: null,
+    NON_WORKING: '#e3ebed', // surface-container-highest (a video surface-container, troppo chiaro in stampa)
+    LEAVE: '#d8e6ec',       // secondary-container
+};
+
+export const STAFFING_LOAD_TONE_LABELS: Record<StaffingLoadTone, string> = {
+    OVER: 'Sovrallocata',
+    FULL: 'Piena capacità',
+    UNDER: 'Parzialmente allocata',
+    EMPTY: 'Libera',
+    NON_WORKING: 'Weekend / festività',
+    LEAVE: 'Assenza',
+};
+
+/** Colore del carico giornaliero di una risorsa (il carico include la mezza giornata di assenza). */
+export const getDailyLoadTone = (capacityUsed: number, total: number, maxPercentage: number, isNonWorkingDay: boolean): StaffingLoadTone => {
+    if (isNonWorkingDay) return 'NON_WORKING';
+    if (capacityUsed > maxPercentage) return 'OVER';
+    if (capacityUsed === maxPercentage) return 'FULL';
+    return total > 0 ? 'UNDER' : 'EMPTY';
+};
+
+/** Colore del carico medio di una risorsa su settimana/mese (media arrotondata). */
+export const getAverageLoadTone = (average: number, maxPercentage: number): StaffingLoadTone => {
+    const rounded = Math.round(average);
+    if (rounded > maxPercentage) return 'OVER';
+    if (rounded === maxPercentage) return 'FULL';
+    return rounded > 0 ? 'UNDER' : 'EMPTY';
+};
+
+/** Colore della media di una singola assegnazione su settimana/mese (pieno da 95%). */
+export const getAssignmentAverageTone = (average: number): StaffingLoadTone => {
+    if (average > 100) return 'OVER';
+    if (average >= 95) return 'FULL';
+    return average > 0 ? 'UNDER' : 'EMPTY';
+};
+
+/**
+ * Allocazione media di un'assegnazione sui giorni lavorativi del periodo (sede della risorsa,
+ * fino all'ultimo giorno di lavoro). 0 se il periodo non ha giorni lavorativi.
+ */
+export const getAverageAllocation = (
+    assignmentAllocations: Record<string, number> | undefined,
+    profile: StaffingLoadProfile,
+    startDate: Date,
+    endDate: Date,
+    companyCalendar: CalendarEvent[]
+): number => {
+    const effectiveEndDate = profile.lastDayOfWork && new Date(profile.lastDayOfWork) < endDate ? new Date(profile.lastDayOfWork) : endDate;
+    if (startDate.getTime() > effectiveEndDate.getTime()) return 0;
+    const workingDays = getWorkingDaysBetween(startDate, effectiveEndDate, companyCalendar, profile.location);
+    if (workingDays === 0 || !assignmentAllocations) return 0;
+
+    let totalPersonDays = 0;
+    const current = new Date(startDate.getTime());
+    while (current.getTime() <= effectiveEndDate.getTime()) {
+        const percentage = assignmentAllocations[formatDate(current, 'iso')];
+        const day = current.getUTCDay();
+        if (percentage && day !== 0 && day !== 6 && !isHoliday(current, profile.location, companyCalendar)) {
+            totalPersonDays += percentage / 100;
+        }
+        current.setUTCDate(current.getUTCDate() + 1);
+    }
+    return (totalPersonDays / workingDays) * 100;
+};
+
+// --- Modello dell'export ---------------------------------------------------------------
+
+export interface StaffingGridExportColumn {
+    label: string;
+    subLabel?: string;
+    startDate: Date;
+    endDate: Date;
+    /** Solo vista Giorno. */
+    dateIso: string;
+    isNonWorkingDay: boolean;
+}
+
+/** Assenza approvata di una giornata. */
+export interface StaffingGridExportLeave {
+    typeName: string;
+    isHalfDay: boolean;
+    affectsCapacity: boolean;
+}
+
+export interface StaffingGridExportAssignmentRow {
+    assignment: Assignment;
+    label: string;
+    client: string;
+    projectManager: string;
+}
+
+/** Blocco della griglia: una risorsa con le sue righe, o i segnaposto di ruolo (`resource` null). */
+export interface StaffingGridExportSection {
+    resource: (StaffingLoadProfile & { id: string; name: string; roleName: string; maxStaffingPercentage: number }) | null;
+    rows: StaffingGridExportAssignmentRow[];
+    /** Assegnazioni che compongono il carico medio della risorsa (tutte, anche quelle nascoste a 0%). */
+    loadAssignments: Assignment[];
+}
+
+export interface StaffingGridExportInput {
+    title: string;
+    viewMode: 'day' | 'week' | 'month';
+    /** Descrizione di periodo e filtri attivi. */
+    subtitle: string;
+    columns: StaffingGridExportColumn[];
+    sections: StaffingGridExportSection[];
+    allocations: Allocation;
+    companyCalendar: CalendarEvent[];
+    getLeave: (resourceId: string, dateIso: string) => StaffingGridExportLeave | undefined;
+}
+
+export interface StaffingGridExportCell {
+    /** Percentuale (null se la cella non ha un valore numerico). */
+    value: number | null;
+    /** Testo mostrato quando il valore manca (assenza, giorno non lavorativo). */
+    text: string;
+    tone: StaffingLoadTone;
+}
+
+export interface StaffingGridExportRow {
+    kind: 'GROUP' | 'RESOURCE' | 'ASSIGNMENT';
+    label: string;
+    client: string;
+    projectManager: string;
+    tentative: boolean;
+    cells: StaffingGridExportCell[];
+}
+
+export interface StaffingGridExport {
+    title: string;
+    subtitle: string;
+    /** Colonne di etichetta seguite da una colonna per periodo. */
+    header: string[];
+    labelColumnCount: number;
+    rows: StaffingGridExportRow[];
+}
+
+const emptyCell = (tone: StaffingLoadTone = 'EMPTY', text = ''): StaffingGridExportCell => ({ value: null, text, tone });
+
+/** Media di periodo arrotondata come a video; senza allocazioni la cella resta vuota. */
+const toAverageCell = (average: number, tone: StaffingLoadTone): StaffingGridExportCell =>
+    (average > 0 ? { value: Math.round(average), text: '', tone } : emptyCell());
+
+const PLACEHOLDER_PROFILE: StaffingLoadProfile = { location: null, lastDayOfWork: null };
+
+/** Costruisce righe e celle dell'export con le stesse regole delle celle della griglia. */
+export const buildStaffingGridExport = (input: StaffingGridExportInput): StaffingGridExport => {
+    const { viewMode, columns, sections, allocations, companyCalendar, getLeave } = input;
+    const rows: StaffingGridExportRow[] = [];
+
+    const isNonWorking = (column: StaffingGridExportColumn, profile: StaffingLoadProfile) =>
+        column.isNonWorkingDay || isHoliday(column.startDate, profile.location || null, companyCalendar);
+
+    const assignmentCell = (assignment: Assignment, profile: StaffingLoadProfile, resourceId: string | null, column: StaffingGridExportColumn) => {
+        if (viewMode !== 'day') {
+            const average = getAverageAllocation(allocations[assignment.id!], profile, column.startDate, column.endDate, companyCalendar);
+            return toAverageCell(average, getAssignmentAverageTone(average));
+        }
+        const leave = resourceId ? getLeave(resourceId, column.dateIso) : undefined;
+        if (leave && !leave.isHalfDay) return emptyCell('LEAVE', leave.typeName);
+        if (isNonWorking(column, profile)) return emptyCell('NON_WORKING', '-');
+        const value = allocations[assignment.id!]?.[column.dateIso] || 0;
+        return value > 0 ? { value, text: '', tone: 'EMPTY' as const } : emptyCell();
+    };
+
+    const resourceCell = (section: StaffingGridExportSection, column: StaffingGridExportColumn): StaffingGridExportCell => {
+        const resource = section.resource!;
+        if (viewMode !== 'day') {
+            const average = section.loadAssignments.reduce((sum, a) =>
+                sum + getAverageAllocation(allocations[a.id!], resource, column.startDate, column.endDate, companyCalendar), 0);
+            return toAverageCell(average, getAverageLoadTone(average, resource.maxStaffingPercentage));
+        }
+        const leave = getLeave(resource.id, column.dateIso);
+        if (leave && !leave.isHalfDay) return emptyCell('LEAVE', leave.typeName);
+        const nonWorking = isNonWorking(column, resource) || (!!resource.lastDayOfWork && column.dateIso > resource.lastDayOfWork);
+        if (nonWorking) return emptyCell('NON_WORKING', '-');
+        const total = section.rows.reduce((sum, r) => sum + (allocations[r.assignment.id!]?.[column.dateIso] || 0), 0);
+        const capacityUsed = total + (leave?.isHalfDay && leave.affectsCapacity ? 50 : 0);
+        const tone = getDailyLoadTone(capacityUsed, total, resource.maxStaffingPercentage, false);
+        return total > 0 ? { value: total, text: '', tone } : emptyCell(tone, leave?.isHalfDay ? '1/2' : '');
+    };
+
+    for (const section of sections) {
+        if (section.resource) {
+            rows.push({
+                kind: 'RESOURCE',
+                label: `${section.resource.name} · ${section.resource.roleName} (Max: ${section.resource.maxStaffingPercentage}%)`,
+                client: '',
+                projectManager: '',
+                tentative: false,
+                cells: columns.map(column => resourceCell(section, column)),
+            });
+        } else {
+            rows.push({ kind: 'GROUP', label: 'Posizioni da coprire', client: '', projectManager: '', tentative: false, cells: columns.map(() => emptyCell()) });
+        }
+        const profile = section.resource ?? PLACEHOLDER_PROFILE;
+        for (const row of section.rows) {
+            rows.push({
+                kind: 'ASSIGNMENT',
+                label: row.label,
+                client: row.client,
+                projectManager: row.projectManager,
+                tentative: isTentativeAssignment(row.assignment),
+                cells: columns.map(column => assignmentCell(row.assignment, profile, section.resource?.id ?? null, column)),
+            });
+        }
+    }
+
+    return {
+        title: input.title,
+        subtitle: input.subtitle,
+        header: ['Risorsa / Progetto', 'Cliente', 'Project Manager', ...columns.map(c => (c.subLabel ? `${c.subLabel} ${c.label}` : c.label))],
+        labelColumnCount: 3,
+        rows,
+    };
+};
+
+/** Testo di una cella: percentuale (con `%` per il PDF) o etichetta. */
+export const formatStaffingGridCell = (cell: StaffingGridExportCell, withPercent: boolean): string | number => {
+    if (cell.value === null) return cell.text;
+    return withPercent ? `${cell.value}%` : cell.value;
+};
+
+const hexToRgb = (hex: string): RgbColor => [
+    parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16),
+];
+
+/** Configurazione PDF (A4 orizzontale) della griglia: le colonne oltre la pagina proseguono ripetendo le etichette. */
+export const buildStaffingGridPdfConfig = (grid: StaffingGridExport): PdfExportConfig => ({
+    title: grid.title,
+    subtitle: grid.subtitle,
+    charts: [],
+    tables: grid.rows.length === 0 ? [] : [{
+        title: `Legenda: ${(['OVER', 'FULL', 'UNDER', 'NON_WORKING', 'LEAVE'] as StaffingLoadTone[]).map(t => STAFFING_LOAD_TONE_LABELS[t]).join(' · ')}`,
+        head: [grid.header],
+        body: grid.rows.map(row => [
+            `${row.kind === 'ASSIGNMENT' ? '   ' : ''}${row.label}${row.tentative ? ' (provvisoria)' : ''}`,
+            row.client,
+            row.projectManager,
+            ...row.cells.map(cell => formatStaffingGridCell(cell, true)),
+        ]),
+        cellFills: grid.rows.map(row => [
+            ...Array<RgbColor | null>(grid.labelColumnCount).fill(row.kind === 'ASSIGNMENT' ? null : hexToRgb('#f7fafb')),
+            ...row.cells.map(cell => {
+                const color = STAFFING_LOAD_TONE_COLORS[cell.tone];
+                return color ? hexToRgb(color) : null;
+            }),
+        ]),
+        boldRows: grid.rows.flatMap((row, index) => (row.kind === 'ASSIGNMENT' ? [] : [index])),
+        repeatColumns: 1,
+    }],
+});
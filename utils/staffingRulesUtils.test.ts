@@ -0,0 +1,144 @@
+/**
+ * @file staffingRulesUtils.test.ts
+ * @description Test del motore delle regole di staffing: progetti contemporanei, fetta minima,
+ * esterni su progetti interni, quota fatturabile dei talent, creazione di assegnazioni e report.
+ */
+import { describe, it, expect } from 'vitest';
+import type { StaffingRule, StaffingRuleType } from '../types';
+import {
+    describeStaffingRuleViolation, evaluateStaffingRules, findAssignmentRuleViolations, findStaffingRuleViolations,
+    formatStaffingRulePeriod, hasBlockingViolations, type StaffingRulesContext,
+} from './staffingRulesUtils';
+
+const rule = (ruleType: StaffingRuleType, threshold: number | null, severity: StaffingRule['severity'] = 'WARN'): StaffingRule => ({
+    id: ruleType, name: ruleType, ruleType, severity, threshold, isActive: true,
+});
+
+const context = (rules: StaffingRule[]): StaffingRulesContext => ({
+    rules,
+    assignments: [
+        { id: 'a1', resourceId: 'r1', projectId: 'p1' },
+        { id: 'a2', resourceId: 'r1', projectId: 'p2' },
+        { id: 'a3', resourceId: 'r1', projectId: 'pInt' },
+        { id: 'a4', resourceId: 'rExt', projectId: 'pInt' },
+    ],
+    projects: [
+        { id: 'p1', clientId: 'c1' },
+        { id: 'p2', clientId: 'c2' },
+        { id: 'pInt', clientId: null },
+    ],
+    resources: [{ id: 'r1', isTalent: true }, { id: 'rExt', isTalent: false }],
+    externalResourceIds: ['rExt'],
+});
+
+describe('findStaffingRuleViolations', () => {
+    it('segnala i progetti contemporanei oltre la soglia solo se il batch li aumenta', () => {
+        const input = context([rule('MAX_CONCURRENT_PROJECTS', 2)]);
+        const allocations = { a1: { '2025-03-03': 50 }, a2: { '2025-03-03': 30 } };
+
+        const added = findStaffingRuleViolations({ ...input, allocations, updates: [{ assignmentId: 'a3', date: '2025-03-03', percentage: 20 }] });
+        expect(added).toHaveLength(1);
+        expect(added[0]).toMatchObject({ resourceId: 'r1', period: '2025-03-03', value: 3, threshold: 2, assignmentIds: ['a3'] });
+
+        const alreadyOver = { ...allocations, a3: { '2025-03-03': 20 } };
+        expect(findStaffingRuleViolations({ ...input, allocations: alreadyOver, updates: [{ assignmentId: 'a1', date: '2025-03-03', percentage: 40 }] })).toEqual([]);
+    });
+
+    it('segnala le fette sotto la soglia minima ma ammette la rimozione e i valori invariati', () => {
+        const input = context([rule('MIN_ALLOCATION_SLICE', 20)]);
+        const allocations = { a1: { '2025-03-04': 10 } };
+        const violations = findStaffingRuleViolations({
+            ...input,
+            allocations,
+            updates: [
+                { assignmentId: 'a1', date: '2025-03-04', percentage: 10 },
+                { assignmentId: 'a2', date: '2025-03-04', percentage: 15 },
+                { assignmentId: 'a2', date: '2025-03-05', percentage: 0 },
+                { assignmentId: 'a1', date: '2025-03-05', percentage: 20 },
+            ],
+        });
+        expect(violations.map(v => [v.assignmentIds[0], v.period, v.value])).toEqual([['a2', '2025-03-04', 15]]);
+    });
+
+    it('blocca l\'aumento di una risorsa esterna su un progetto interno', () => {
+        const input = context([rule('NO_EXTERNAL_ON_INTERNAL', null, 'BLOCK')]);
+        const allocations = { a4: { '2025-03-03': 50 } };
+        const increase = findStaffingRuleViolations({ ...input, allocations, updates: [{ assignmentId: 'a4', date: '2025-03-03', percentage: 80 }] });
+        expect(increase).toHaveLength(1);
+        expect(hasBlockingViolations(increase)).toBe(true);
+        expect(findStaffingRuleViolations({ ...input, allocations, updates: [{ assignmentId: 'a4', date: '2025-03-03', percentage: 20 }] })).toEqual([]);
+    });
+
+    it('calcola la quota fatturabile mensile dei talent e ammette i miglioramenti parziali', () => {
+        const input = context([rule('MIN_BILLABLE_SHARE', 60)]);
+        const allocations = { a1: { '2025-03-03': 50 }, a3: { '2025-03-04': 50 } };
+
+        // 50 fatturabili su 150 = 33%
+        const worse = findStaffingRuleViolations({ ...input, allocations, updates: [{ assignmentId: 'a3', date: '2025-03-05', percentage: 50 }] });
+        expect(worse.map(v => [v.period, v.value])).toEqual([['2025-03', 33]]);
+
+        // Da 50% a 67% fatturabile: sopra la soglia
+        expect(findStaffingRuleViolations({ ...input, allocations, updates: [{ assignmentId: 'a1', date: '2025-03-05', percentage: 50 }] })).toEqual([]);
+        // Da 50% a 56%: ancora sotto la soglia ma in miglioramento
+        expect(findStaffingRuleViolations({ ...input, allocations, updates: [{ assignmentId: 'a1', date: '2025-03-05', percentage: 20 }] })).toEqual([]);
+    });
+
+    it('valuta come nuove le allocazioni di un\'assegnazione appena intestata alla risorsa', () => {
+        // a4 è un segnaposto convertito: le sue celle sono già salvate ma non erano carico di rExt
+        const input = context([rule('NO_EXTERNAL_ON_INTERNAL', null, 'BLOCK')]);
+        const check = { ...input, allocations: { a4: { '2025-03-03': 50 } }, updates: [{ assignmentId: 'a4', date: '2025-03-03', percentage: 50 }] };
+        expect(findStaffingRuleViolations(check)).toEqual([]);
+        expect(hasBlockingViolations(findStaffingRuleViolations({ ...check, newAssignmentIds: ['a4'] }))).toBe(true);
+    });
+
+    it('ignora le regole disattivate o senza soglia', () => {
+        const input = context([{ ...rule('MIN_ALLOCATION_SLICE', 20), isActive: false }, rule('MAX_CONCURRENT_PROJECTS', null)]);
+        expect(findStaffingRuleViolations({ ...input, allocations: {}, updates: [{ assignmentId: 'a1', date: '2025-03-03', percentage: 5 }] })).toEqual([]);
+    });
+});
+
+describe('findAssignmentRuleViolations', () => {
+    const projects = [
+        { id: 'p1', clientId: 'c1', status: 'In corso', startDate: '2025-01-01', endDate: '2025-06-30' },
+        { id: 'p2', clientId: 'c2', status: 'In corso', startDate: '2025-07-01', endDate: '2025-12-31' },
+        { id: 'p3', clientId: 'c3', status: 'In corso', startDate: '2025-03-01', endDate: '2025-05-31' },
+        { id: 'pInt', clientId: null, status: 'In corso', startDate: null, endDate: null },
+    ];
+
+    it('conta solo i progetti con date sovrapposte alla nuova assegnazione', () => {
+        const input = { ...context([rule('MAX_CONCURRENT_PROJECTS', 2)]), projects };
+        const violations = findAssignmentRuleViolations({ ...input, assignment: { resourceId: 'r1', projectId: 'p3' } });
+        // p1 e pInt si sovrappongono a p3, p2 no: 3 progetti contemporanei
+        expect(violations).toHaveLength(1);
+        expect(violations[0]).toMatchObject({ period: null, value: 3, assignmentIds: ['a1', 'a3'] });
+    });
+
+    it('segnala una risorsa esterna assegnata a un progetto interno', () => {
+        const input = { ...context([rule('NO_EXTERNAL_ON_INTERNAL', null, 'BLOCK')]), projects };
+        expect(findAssignmentRuleViolations({ ...input, assignment: { resourceId: 'rExt', projectId: 'pInt' } })).toHaveLength(1);
+        expect(findAssignmentRuleViolations({ ...input, assignment: { resourceId: 'rExt', projectId: 'p1' } })).toEqual([]);
+    });
+});
+
+describe('evaluateStaffingRules', () => {
+    it('valuta lo stato corrente come se tutte le celle fossero scritte su una griglia vuota', () => {
+        const input = context([rule('MIN_ALLOCATION_SLICE', 20), rule('NO_EXTERNAL_ON_INTERNAL', null, 'BLOCK')]);
+        const violations = evaluateStaffingRules({ ...input, allocations: { a1: { '2025-03-03': 10 }, a4: { '2025-03-03': 100 } } });
+        expect(violations.map(v => [v.resourceId, v.ruleType])).toEqual([
+            ['r1', 'MIN_ALLOCATION_SLICE'],
+            ['rExt', 'NO_EXTERNAL_ON_INTERNAL'],
+        ]);
+        expect(violations.map(describeStaffingRuleViolation)).toEqual([
+            'Allocazione del 10% sotto la fetta minima (20%)',
+            'Risorsa esterna su un progetto interno',
+        ]);
+    });
+});
+
+describe('formatStaffingRulePeriod', () => {
+    it('formatta giorno, mese e assegnazione', () => {
+        expect(formatStaffingRulePeriod('2025-03-04')).toBe('04/03/2025');
+        expect(formatStaffingRulePeriod('2025-03')).toBe('03/2025');
+        expect(formatStaffingRulePeriod(null)).toBe('Assegnazione');
+    });
+});
@@ -0,0 +1,290 @@
+/**
+ * @file staffingRulesUtils.ts
+ * @description Motore delle regole di staffing configurabili (vedi `StaffingRuleType`): valuta le
+ * regole attive su un batch di allocazioni, sulla creazione di un'assegnazione e, per il report,
+ * sullo stato corrente delle allocazioni.
+ *
+ * Come per l'overbooking, una scrittura viola una regola solo se la peggiora: riduzioni di carico
+ * e correzioni parziali su situazioni già fuori regola sono sempre ammesse.
+ *
+ * Usate da `api/_lib/staffingRules.ts` e dal Mock Engine locale, così che la semantica sia unica.
+ */
+import type {
+    Allocation,
+    AllocationUpdate,
+    Project,
+    Resource,
+    StaffingRule,
+    StaffingRuleSeverity,
+    StaffingRuleType,
+    StaffingRuleViolation,
+} from '../types';
+import { isProjectVisibleInStaffing } from './allocationUtils.js';
+
+/** Suffisso dei ruoli utente delle risorse esterne (es. `MANAGER_EXT`). */
+export const EXTERNAL_ROLE_SUFFIX = '_EXT';
+
+export const STAFFING_RULE_TYPE_INFO: Record<StaffingRuleType, { label: string; description: string; thresholdLabel: string | null; defaultThreshold: number | null }> = {
+    MAX_CONCURRENT_PROJECTS: {
+        label: 'Progetti contemporanei',
+        description: 'Numero massimo di progetti su cui una risorsa è allocata nella stessa giornata.',
+        thresholdLabel: 'Progetti massimi',
+        defaultThreshold: 3,
+    },
+    MIN_ALLOCATION_SLICE: {
+        label: 'Fetta minima',
+        description: 'Percentuale minima di ogni giornata allocata su un progetto.',
+        thresholdLabel: 'Percentuale minima',
+        defaultThreshold: 20,
+    },
+    NO_EXTERNAL_ON_INTERNAL: {
+        label: 'Esterni su progetti interni',
+        description: 'Le risorse esterne (utente con ruolo _EXT) non possono essere allocate su progetti interni (senza cliente).',
+        thresholdLabel: null,
+        defaultThreshold: null,
+    },
+    MIN_BILLABLE_SHARE: {
+        label: 'Quota fatturabile talent',
+        description: 'Quota minima mensile delle allocazioni dei talent su progetti fatturabili (con cliente).',
+        thresholdLabel: 'Quota minima %',
+        defaultThreshold: 60,
+    },
+};
+
+export const STAFFING_RULE_SEVERITY_LABELS: Record<StaffingRuleSeverity, string> = {
+    BLOCK: 'Blocca',
+    WARN: 'Avvisa',
+};
+
+export const isExternalUserRole = (role: string | null | undefined): boolean => !!role && role.endsWith(EXTERNAL_ROLE_SUFFIX);
+
+/** Progetto interno: senza cliente, quindi non fatturabile. */
+export const isInternalProject = (project: Pick<Project, 'clientId'> | undefined | null): boolean => !!project && !project.clientId;
+
+/** Dati di contesto delle risorse coinvolte, comuni a tutte le valutazioni. */
+export interface StaffingRulesContext {
+    rules: StaffingRule[];
+    /** Assegnazioni delle risorse coinvolte (tutte, non solo quelle toccate). */
+    assignments: { id?: string; resourceId: string | null; projectId: string }[];
+    projects: Pick<Project, 'id' | 'clientId'>[];
+    resources: Pick<Resource, 'id' | 'isTalent'>[];
+    /** Risorse collegate a un utente con ruolo esterno (`_EXT`). */
+    externalResourceIds: string[];
+}
+
+export interface StaffingRulesCheckInput extends StaffingRulesContext {
+    updates: AllocationUpdate[];
+    /** Allocazioni correnti (prima del batch) delle assegnazioni, sui mesi interi delle date del batch. */
+    allocations: Allocation;
+    /**
+     * Assegnazioni appena intestate alla risorsa (es. segnaposto convertito): le loro allocazioni
+     * correnti non erano della risorsa e prima del batch valgono zero.
+     */
+    newAssignmentIds?: string[];
+}
+
+export interface AssignmentRulesCheckInput extends Omit<StaffingRulesContext, 'projects'> {
+    assignment: { resourceId: string; projectId: string };
+    projects: Pick<Project, 'id' | 'clientId' | 'status' | 'startDate' | 'endDate'>[];
+}
+
+const isRuleApplicable = (rule: StaffingRule): boolean =>
+    rule.isActive && (rule.ruleType === 'NO_EXTERNAL_ON_INTERNAL' || (rule.threshold !== null && rule.threshold !== undefined));
+
+const toViolation = (
+    rule: StaffingRule,
+    resourceId: string,
+    period: string | null,
+    assignmentIds: Iterable<string>,
+    value: number
+): StaffingRuleViolation => ({
+    ruleId: rule.id!,
+    ruleName: rule.name,
+    ruleType: rule.ruleType,
+    severity: rule.severity,
+    resourceId,
+    period,
+    assignmentIds: Array.from(assignmentIds),
+    value,
+    threshold: rule.threshold,
+});
+
+const sortViolations = (violations: StaffingRuleViolation[]): StaffingRuleViolation[] =>
+    violations.sort((a, b) =>
+        a.resourceId.localeCompare(b.resourceId) || (a.period || '').localeCompare(b.period || '') || a.ruleName.localeCompare(b.ruleName));
+
+/**
+ * Violazioni delle regole attive causate da un batch di aggiornamenti. Le regole di giornata
+ * (progetti contemporanei, fetta minima, esterni su interni) sono valutate sulle celle e sulle
+ * giornate toccate, la quota fatturabile sui mesi toccati delle risorse talent.
+ */
+export const findStaffingRuleViolations = (input: StaffingRulesCheckInput): StaffingRuleViolation[] => {
+    const rules = input.rules.filter(isRuleApplicable);
+    if (rules.length === 0 || input.updates.length === 0) return [];
+
+    const assignmentById = new Map<string, { resourceId: string; projectId: string }>();
+    const assignmentsByResource = new Map<string, string[]>();
+    for (const a of input.assignments) {
+        if (!a.id || !a.resourceId) continue;
+        assignmentById.set(a.id, { resourceId: a.resourceId, projectId: a.projectId });
+        assignmentsByResource.set(a.resourceId, [...(assignmentsByResource.get(a.resourceId) || []), a.id]);
+    }
+    const projectById = new Map(input.projects.map(p => [p.id, p]));
+    const talentIds = new Set(input.resources.filter(r => r.isTalent).map(r => r.id));
+    const externalIds = new Set(input.externalResourceIds);
+
+    // Valori risultanti per cella (l'ultimo aggiornamento vince), giornate e mesi toccati per risorsa
+    const nextValues = new Map<string, number>();
+    const updatedDates = new Map<string, Set<string>>();
+    const touchedDays = new Map<string, { resourceId: string; date: string; assignmentIds: Set<string> }>();
+    const touchedMonths = new Map<string, { resourceId: string; month: string; assignmentIds: Set<string> }>();
+    for (const u of input.updates) {
+        const assignment = assignmentById.get(u.assignmentId);
+        if (!assignment) continue;
+        nextValues.set(`${u.assignmentId}|${u.date}`, u.percentage);
+        updatedDates.set(u.assignmentId, (updatedDates.get(u.assignmentId) || new Set<string>()).add(u.date));
+        const dayKey = `${assignment.resourceId}|${u.date}`;
+        const day = touchedDays.get(dayKey) || { resourceId: assignment.resourceId, date: u.date, assignmentIds: new Set<string>() };
+        day.assignmentIds.add(u.assignmentId);
+        touchedDays.set(dayKey, day);
+        const month = u.date.slice(0, 7);
+        const monthKey = `${assignment.resourceId}|${month}`;
+        const monthEntry = touchedMonths.get(monthKey) || { resourceId: assignment.resourceId, month, assignmentIds: new Set<string>() };
+        monthEntry.assignmentIds.add(u.assignmentId);
+        touchedMonths.set(monthKey, monthEntry);
+    }
+
+    const newAssignmentIds = new Set(input.newAssignmentIds || []);
+    const before = (assignmentId: string, date: string) =>
+        newAssignmentIds.has(assignmentId) ? 0 : input.allocations[assignmentId]?.[date] || 0;
+    const after = (assignmentId: string, date: string) => {
+        const key = `${assignmentId}|${date}`;
+        return nextValues.has(key) ? nextValues.get(key)! : before(assignmentId, date);
+    };
+    const projectsOn = (resourceId: string, date: string, value: (assignmentId: string, date: string) => number) =>
+        new Set((assignmentsByResource.get(resourceId) || [])
+            .filter(id => value(id, date) > 0)
+            .map(id => assignmentById.get(id)!.projectId));
+
+    // Quota fatturabile del mese: giorni/uomo su progetti con cliente sul totale
+    const monthShare = (resourceId: string, month: string, value: (assignmentId: string, date: string) => number) => {
+        let total = 0;
+        let billable = 0;
+        for (const assignmentId of assignmentsByResource.get(resourceId) || []) {
+            const dates = new Set([...Object.keys(input.allocations[assignmentId] || {}), ...(updatedDates.get(assignmentId) || [])]);
+            const isBillable = !isInternalProject(projectById.get(assignmentById.get(assignmentId)!.projectId));
+            for (const date of dates) {
+                if (!date.startsWith(month)) continue;
+                const percentage = value(assignmentId, date);
+                total += percentage;
+                if (isBillable) billable += percentage;
+            }
+        }
+        return { total, share: total > 0 ? (billable / total) * 100 : 0 };
+    };
+
+    const violations: StaffingRuleViolation[] = [];
+    for (const rule of rules) {
+        const threshold = rule.threshold ?? 0;
+        if (rule.ruleType === 'MAX_CONCURRENT_PROJECTS') {
+            for (const { resourceId, date, assignmentIds } of touchedDays.values()) {
+                const count = projectsOn(resourceId, date, after).size;
+                if (count > threshold && count > projectsOn(resourceId, date, before).size) {
+                    violations.push(toViolation(rule, resourceId, date, assignmentIds, count));
+                }
+            }
+        } else if (rule.ruleType === 'MIN_BILLABLE_SHARE') {
+            for (const { resourceId, month, assignmentIds } of touchedMonths.values()) {
+                if (!talentIds.has(resourceId)) continue;
+                const next = monthShare(resourceId, month, after);
+                const previous = monthShare(resourceId, month, before);
+                if (next.total > 0 && next.share < threshold && (previous.total === 0 || next.share < previous.share)) {
+                    violations.push(toViolation(rule, resourceId, month, assignmentIds, Math.round(next.share)));
+                }
+            }
+        } else {
+            for (const [key, percentage] of nextValues) {
+                const [assignmentId, date] = key.split('|');
+                const { resourceId, projectId } = assignmentById.get(assignmentId)!;
+                const previous = before(assignmentId, date);
+                const violated = rule.ruleType === 'MIN_ALLOCATION_SLICE'
+                    ? percentage > 0 && percentage < threshold && percentage !== previous
+                    : percentage > previous && externalIds.has(resourceId) && isInternalProject(projectById.get(projectId));
+                if (violated) violations.push(toViolation(rule, resourceId, date, [assignmentId], percentage));
+            }
+        }
+    }
+    return sortViolations(violations);
+};
+
+const overlaps = (a: Pick<Project, 'startDate' | 'endDate'>, b: Pick<Project, 'startDate' | 'endDate'>) =>
+    (!a.startDate || !b.endDate || a.startDate <= b.endDate) && (!b.startDate || !a.endDate || b.startDate <= a.endDate);
+
+/**
+ * Violazioni causate dalla creazione di un'assegnazione nominativa: risorsa esterna su progetto
+ * interno e progetti contemporanei (progetti visibili in Staffing con date sovrapposte, estremi
+ * mancanti = aperti). Le altre regole dipendono dalle allocazioni e sono valutate alla scrittura.
+ */
+export const findAssignmentRuleViolations = (input: AssignmentRulesCheckInput): StaffingRuleViolation[] => {
+    const { assignment } = input;
+    const projectById = new Map(input.projects.map(p => [p.id, p]));
+    const project = projectById.get(assignment.projectId);
+    if (!project) return [];
+
+    const violations: StaffingRuleViolation[] = [];
+    for (const rule of input.rules.filter(isRuleApplicable)) {
+        if (rule.ruleType === 'NO_EXTERNAL_ON_INTERNAL') {
+            if (input.externalResourceIds.includes(assignment.resourceId) && isInternalProject(project)) {
+                violations.push(toViolation(rule, assignment.resourceId, null, [], 0));
+            }
+        } else if (rule.ruleType === 'MAX_CONCURRENT_PROJECTS') {
+            const concurrent = input.assignments.filter(a => {
+                if (!a.id || a.resourceId !== assignment.resourceId || a.projectId === assignment.projectId) return false;
+                const other = projectById.get(a.projectId);
+                return !!other && isProjectVisibleInStaffing(other) && overlaps(project, other);
+            });
+            const count = new Set(concurrent.map(a => a.projectId)).size + 1;
+            if (count > rule.threshold!) {
+                violations.push(toViolation(rule, assignment.resourceId, null, concurrent.map(a => a.id!), count));
+            }
+        }
+    }
+    return violations;
+};
+
+/**
+ * Violazioni presenti nelle allocazioni correnti (report): equivale a scrivere tutte le celle
+ * partendo da una griglia vuota. Per la quota fatturabile le allocazioni vanno passate per mesi interi.
+ */
+export const evaluateStaffingRules = (input: StaffingRulesContext & { allocations: Allocation }): StaffingRuleViolation[] => {
+    const updates: AllocationUpdate[] = [];
+    for (const [assignmentId, days] of Object.entries(input.allocations)) {
+        for (const [date, percentage] of Object.entries(days)) {
+            if (percentage > 0) updates.push({ assignmentId, date, percentage });
+        }
+    }
+    return findStaffingRuleViolations({ ...input, updates, allocations: {} });
+};
+
+export const hasBlockingViolations = (violations: StaffingRuleViolation[]): boolean => violations.some(v => v.severity === 'BLOCK');
+
+/** Descrizione leggibile (banner/report) di una violazione. */
+export const describeStaffingRuleViolation = (violation: StaffingRuleViolation): string => {
+    switch (violation.ruleType) {
+        case 'MAX_CONCURRENT_PROJECTS':
+            return `${violation.value} progetti contemporanei (massimo ${violation.threshold})`;
+        case 'MIN_ALLOCATION_SLICE':
+            return `Allocazione del ${violation.value}% sotto la fetta minima (${violation.threshold}%)`;
+        case 'NO_EXTERNAL_ON_INTERNAL':
+            return 'Risorsa esterna su un progetto interno';
+        default:
+            return `Quota fatturabile del ${violation.value}% sotto il minimo per i talent (${violation.threshold}%)`;
+    }
+};
+
+/** Periodo della violazione in formato leggibile: giorno (gg/mm/aaaa), mese (mm/aaaa) o assegnazione. */
+export const formatStaffingRulePeriod = (period: string | null): string => {
+    if (!period) return 'Assegnazione';
+    const [year, month, day] = period.split('-');
+    return day ? `${day}/${month}/${year}` : `${month}/${year}`;
+};
@@ -0,0 +1,111 @@
+/**
+ * @file timesheetUtils.test.ts
+ * @description Test del timesheet: settimane, validazione delle ore, workflow di approvazione,
+ * scostamento piano / consuntivo e parsing dell'import CSV.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    buildPlanActualRows,
+    canEditTimesheetWeek,
+    canTransitionTimesheetWeek,
+    getTimesheetWeekDays,
+    getTimesheetWeekStart,
+    isTimesheetWeekEditable,
+    normalizeTimesheetImportRow,
+    parseTimesheetCsv,
+    validateTimesheetWeekRequest,
+} from './timesheetUtils';
+
+describe('settimane di timesheet', () => {
+    it('riporta ogni data al lunedì della propria settimana', () => {
+        expect(getTimesheetWeekStart('2024-05-15')).toBe('2024-05-13');
+        expect(getTimesheetWeekStart('2024-05-13')).toBe('2024-05-13');
+        expect(getTimesheetWeekStart('2024-05-19')).toBe('2024-05-13');
+        expect(getTimesheetWeekDays('2024-04-29')).toEqual([
+            '2024-04-29', '2024-04-30', '2024-05-01', '2024-05-02', '2024-05-03', '2024-05-04', '2024-05-05',
+        ]);
+    });
+
+    it('consente la modifica solo in bozza o dopo un rifiuto e valida le transizioni', () => {
+        expect(isTimesheetWeekEditable('DRAFT')).toBe(true);
+        expect(isTimesheetWeekEditable('REJECTED')).toBe(true);
+        expect(isTimesheetWeekEditable('SUBMITTED')).toBe(false);
+        expect(canTransitionTimesheetWeek('DRAFT', 'SUBMITTED')).toBe(true);
+        expect(canTransitionTimesheetWeek('SUBMITTED', 'APPROVED')).toBe(true);
+        expect(canTransitionTimesheetWeek('REJECTED', 'SUBMITTED')).toBe(true);
+        expect(canTransitionTimesheetWeek('DRAFT', 'APPROVED')).toBe(false);
+        expect(canTransitionTimesheetWeek('APPROVED', 'REJECTED')).toBe(false);
+    });
+
+    it('consente di salvare e inviare le ore solo alla risorsa stessa o a un ADMIN', () => {
+        const users = [{ id: 'u1', role: 'SIMPLE', resourceId: 'r1' }, { id: 'm1', role: 'MANAGER', resourceId: 'r2' }];
+        expect(canEditTimesheetWeek(users[0], 'r1', users)).toBe(true);
+        expect(canEditTimesheetWeek(users[1], 'r1', users)).toBe(false);
+        expect(canEditTimesheetWeek({ id: 'admin', role: 'ADMIN' }, 'r1', users)).toBe(true);
+    });
+});
+
+describe('validateTimesheetWeekRequest', () => {
+    const entry = (date: string, hours: number, projectId = 'p1') => ({ projectId, date, hours });
+
+    it('accetta ore della settimana entro il massimo giornaliero', () => {
+        expect(validateTimesheetWeekRequest({ resourceId: 'r1', weekStart: '2024-05-13', entries: [entry('2024-05-13', 8), entry('2024-05-13', 4, 'p2')] })).toBeNull();
+    });
+
+    it('rifiuta settimane non allineate, date fuori settimana, ore e duplicati non validi', () => {
+        expect(validateTimesheetWeekRequest({ resourceId: 'r1', weekStart: '2024-05-14', entries: [] })).toMatch(/lunedì/);
+        expect(validateTimesheetWeekRequest({ resourceId: 'r1', weekStart: '2024-05-13', entries: [entry('2024-05-20', 8)] })).toMatch(/non appartiene/);
+        expect(validateTimesheetWeekRequest({ resourceId: 'r1', weekStart: '2024-05-13', entries: [entry('2024-05-13', -1)] })).toMatch(/Ore non valide/);
+        expect(validateTimesheetWeekRequest({ resourceId: 'r1', weekStart: '2024-05-13', entries: [entry('2024-05-13', 4), entry('2024-05-13', 4)] })).toMatch(/duplicate/);
+        expect(validateTimesheetWeekRequest({ resourceId: 'r1', weekStart: '2024-05-13', entries: [entry('2024-05-13', 16), entry('2024-05-13', 10, 'p2')] })).toMatch(/supera 24/);
+        expect(validateTimesheetWeekRequest({ weekStart: '2024-05-13', entries: [] })).toMatch(/resourceId/);
+    });
+});
+
+describe('buildPlanActualRows', () => {
+    it('aggrega piano e consuntivo per risorsa, progetto e mese costando le ore a giornata standard', () => {
+        const costContext = {
+            resources: [{ id: 'r1', roleId: 'role1', dailyCost: 0 }],
+            roles: [{ id: 'role1', dailyCost: 400 }],
+            roleCostHistory: [],
+        };
+        const planned = [
+            { resourceId: 'r1', projectId: 'p1', date: '2024-05-13', percentage: 100 },
+            { resourceId: 'r1', projectId: 'p1', date: '2024-05-14', percentage: 50 },
+        ];
+        const actuals = [
+            { resourceId: 'r1', projectId: 'p1', date: '2024-05-13', hours: 8 },
+            { resourceId: 'r1', projectId: 'p1', date: '2024-05-14', hours: 6 },
+            { resourceId: 'r1', projectId: 'p2', date: '2024-06-03', hours: 2 },
+        ];
+        const { rows, totals } = buildPlanActualRows(planned, actuals, costContext);
+
+        expect(rows).toEqual([
+            { resourceId: 'r1', projectId: 'p1', month: '2024-05', plannedDays: 1.5, actualDays: 1.75, actualHours: 14, deltaDays: 0.25, plannedCost: 600, actualCost: 700, deltaCost: 100 },
+            { resourceId: 'r1', projectId: 'p2', month: '2024-06', plannedDays: 0, actualDays: 0.25, actualHours: 2, deltaDays: 0.25, plannedCost: 0, actualCost: 100, deltaCost: 100 },
+        ]);
+        expect(totals).toEqual({ plannedDays: 1.5, actualDays: 2, actualHours: 16, plannedCost: 600, actualCost: 800 });
+    });
+});
+
+describe('import timesheet', () => {
+    it('legge CSV con separatore punto e virgola, BOM e campi tra apici', () => {
+        const csv = '\uFEFFNome Risorsa;Progetto;Data;Ore;Note\r\nMario Rossi;"Progetto; Alfa";13/05/2024;7,5;"nota ""urgente"""\r\n\r\n';
+        expect(parseTimesheetCsv(csv)).toEqual([
+            { 'Nome Risorsa': 'Mario Rossi', Progetto: 'Progetto; Alfa', Data: '13/05/2024', Ore: '7,5', Note: 'nota "urgente"' },
+        ]);
+        expect(parseTimesheetCsv('resourceName,projectName,date,hours\nAnna,Beta,2024-05-14,8')).toEqual([
+            { resourceName: 'Anna', projectName: 'Beta', date: '2024-05-14', hours: '8' },
+        ]);
+    });
+
+    it('normalizza date italiane e ore con virgola, scartando le righe non valide', () => {
+        expect(normalizeTimesheetImportRow({ 'Nome Risorsa': 'Mario Rossi', Progetto: 'Alfa', Data: '3/5/2024', Ore: '7,5' }))
+            .toEqual({ resourceName: 'Mario Rossi', projectName: 'Alfa', date: '2024-05-03', hours: 7.5, notes: null });
+        expect(normalizeTimesheetImportRow({ resourceName: 'Anna', projectName: 'Beta', date: '2024-05-14T00:00:00.000Z', hours: 8, notes: 'ok' }))
+            .toMatchObject({ date: '2024-05-14', hours: 8, notes: 'ok' });
+        expect(normalizeTimesheetImportRow({ 'Nome Risorsa': 'Mario', Progetto: 'Alfa', Data: 'ieri', Ore: '8' })).toEqual({ error: "Data non valida: 'ieri'." });
+        expect(normalizeTimesheetImportRow({ 'Nome Risorsa': 'Mario', Progetto: 'Alfa', Data: '2024-05-14', Ore: '0' })).toHaveProperty('error');
+        expect(normalizeTimesheetImportRow({ Progetto: 'Alfa', Data: '2024-05-14', Ore: '8' })).toHaveProperty('error');
+    });
+});
@@ -0,0 +1,239 @@
+/**
+ * @file timesheetUtils.ts
+ * @description Utility pure per il timesheet (consuntivo ore): settimane di invio, validazione
+ * delle ore inserite, workflow di approvazione, scostamento piano / consuntivo e parsing
+ * dell'import CSV.
+ *
+ * Usate da `api/staffing.ts` (`action=timesheet`), da `api/import.ts` (`type=timesheets`),
+ * dal Mock Engine locale e dalla pagina Timesheet. Le ore sono convertite in giorni/uomo con
+ * una giornata standard di `TIMESHEET_HOURS_PER_DAY` ore.
+ */
+import type { BaselineAllocation, PlanActualReport, PlanActualRow, TimesheetEntry, TimesheetStatus } from '../types';
+import { addDays, parseISODate, toISODateString } from './dateUtils.js';
+import { createResourceDailyCostResolver, type ResourceCostContext } from './costUtils.js';
+import type { ApprovalUser } from './allocationApprovalUtils.js';
+
+export const TIMESHEET_HOURS_PER_DAY = 8;
+export const TIMESHEET_MAX_DAILY_HOURS = 24;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Lunedì della settimana che contiene la data (YYYY-MM-DD). */
+export const getTimesheetWeekStart = (date: string): string => {
+    const d = parseISODate(date);
+    const offset = (d.getUTCDay() + 6) % 7;
+    return toISODateString(addDays(d, -offset));
+};
+
+/** Le sette giornate (lunedì–domenica) della settimana. */
+export const getTimesheetWeekDays = (weekStart: string): string[] =>
+    Array.from({ length: 7 }, (_, i) => toISODateString(addDays(parseISODate(weekStart), i)));
+
+/** La risorsa può modificare le ore solo prima dell'invio o dopo un rifiuto. */
+export const isTimesheetWeekEditable = (status: TimesheetStatus): boolean => status === 'DRAFT' || status === 'REJECTED';
+
+const TIMESHEET_TRANSITIONS: Record<TimesheetStatus, TimesheetStatus[]> = {
+    DRAFT: ['SUBMITTED'],
+    REJECTED: ['SUBMITTED'],
+    SUBMITTED: ['APPROVED', 'REJECTED'],
+    APPROVED: [],
+};
+
+export const canTransitionTimesheetWeek = (from: TimesheetStatus, to: TimesheetStatus): boolean =>
+    TIMESHEET_TRANSITIONS[from]?.includes(to) ?? false;
+
+/** Solo l'utente collegato alla risorsa (o un ADMIN) può salvare e inviare le sue ore. */
+export const canEditTimesheetWeek = (editor: ApprovalUser, resourceId: string, users: ApprovalUser[]): boolean =>
+    editor.role === 'ADMIN' || users.some(u => u.id === editor.id && u.resourceId === resourceId);
+
+export interface TimesheetWeekRequest {
+    resourceId: string;
+    weekStart: string;
+    entries: Pick<TimesheetEntry, 'projectId' | 'date' | 'hours' | 'notes'>[];
+}
+
+/** Restituisce il messaggio d'errore del primo vincolo violato, o null se la settimana è valida. */
+export const validateTimesheetWeekRequest = (request: unknown): string | null => {
+    if (!request || typeof request !== 'object') return 'Richiesta di timesheet mancante.';
+    const r = request as Partial<TimesheetWeekRequest>;
+    if (typeof r.resourceId !== 'string' || !r.resourceId) return 'Il campo "resourceId" è obbligatorio.';
+    if (typeof r.weekStart !== 'string' || !ISO_DATE.test(r.weekStart) || getTimesheetWeekStart(r.weekStart) !== r.weekStart) {
+        return 'Il campo "weekStart" deve essere un lunedì (YYYY-MM-DD).';
+    }
+    if (!Array.isArray(r.entries)) return 'Il campo "entries" deve essere un elenco.';
+
+    const days = new Set(getTimesheetWeekDays(r.weekStart));
+    const dailyTotals = new Map<string, number>();
+    const seen = new Set<string>();
+    for (const entry of r.entries) {
+        if (!entry || typeof entry.projectId !== 'string' || !entry.projectId) return 'Ogni riga deve indicare il progetto.';
+        if (typeof entry.date !== 'string' || !days.has(entry.date)) return `La data ${entry.date} non appartiene alla settimana del ${r.weekStart}.`;
+        const hours = Number(entry.hours);
+        if (!Number.isFinite(hours) || hours < 0 || hours > TIMESHEET_MAX_DAILY_HOURS) return `Ore non valide il ${entry.date}: ${entry.hours}.`;
+        const key = `${entry.projectId}|${entry.date}`;
+        if (seen.has(key)) return `Ore duplicate per lo stesso progetto il ${entry.date}.`;
+        seen.add(key);
+        const total = (dailyTotals.get(entry.date) || 0) + hours;
+        if (total > TIMESHEET_MAX_DAILY_HOURS) return `Il totale del ${entry.date} supera ${TIMESHEET_MAX_DAILY_HOURS} ore.`;
+        dailyTotals.set(entry.date, total);
+    }
+    return null;
+};
+
+/**
+ * Confronta le allocazioni pianificate con le ore consuntivate, aggregando per risorsa,
+ * progetto e mese. Il consuntivo è convertito in giorni/uomo (ore / giornata standard) e
+ * costato alla propria data, come il piano.
+ */
+export const buildPlanActualRows = (
+    planned: BaselineAllocation[],
+    actuals: Pick<TimesheetEntry, 'resourceId' | 'projectId' | 'date' | 'hours'>[],
+    costContext: ResourceCostContext
+): { rows: PlanActualRow[]; totals: PlanActualReport['totals'] } => {
+    const dailyCost = createResourceDailyCostResolver(costContext);
+    const cells = new Map<string, PlanActualRow>();
+    const cellFor = (resourceId: string, projectId: string, date: string) => {
+        const month = date.slice(0, 7);
+        const key = `${resourceId}|${projectId}|${month}`;
+        let cell = cells.get(key);
+        if (!cell) {
+            cell = { resourceId, projectId, month, plannedDays: 0, actualDays: 0, actualHours: 0, deltaDays: 0, plannedCost: 0, actualCost: 0, deltaCost: 0 };
+            cells.set(key, cell);
+        }
+        return cell;
+    };
+
+    for (const a of planned) {
+        if (!(a.percentage > 0)) continue;
+        const cell = cellFor(a.resourceId, a.projectId, a.date);
+        const days = a.percentage / 100;
+        cell.plannedDays += days;
+        cell.plannedCost += days * dailyCost(a.resourceId, a.date);
+    }
+    for (const e of actuals) {
+        const hours = Number(e.hours);
+        if (!(hours > 0)) continue;
+        const cell = cellFor(e.resourceId, e.projectId, e.date);
+        const days = hours / TIMESHEET_HOURS_PER_DAY;
+        cell.actualHours += hours;
+        cell.actualDays += days;
+        cell.actualCost += days * dailyCost(e.resourceId, e.date);
+    }
+
+    const totals = { plannedDays: 0, actualDays: 0, actualHours: 0, plannedCost: 0, actualCost: 0 };
+    const rows = Array.from(cells.values())
+        .map(cell => {
+            totals.plannedDays += cell.plannedDays;
+            totals.actualDays += cell.actualDays;
+            totals.actualHours += cell.actualHours;
+            totals.plannedCost += cell.plannedCost;
+            totals.actualCost += cell.actualCost;
+            return {
+                ...cell,
+                plannedDays: round2(cell.plannedDays),
+                actualDays: round2(cell.actualDays),
+                actualHours: round2(cell.actualHours),
+                deltaDays: round2(cell.actualDays - cell.plannedDays),
+                plannedCost: round2(cell.plannedCost),
+                actualCost: round2(cell.actualCost),
+                deltaCost: round2(cell.actualCost - cell.plannedCost),
+            };
+        })
+        .sort((a, b) => a.month.localeCompare(b.month) || a.resourceId.localeCompare(b.resourceId) || a.projectId.localeCompare(b.projectId));
+
+    return {
+        rows,
+        totals: {
+            plannedDays: round2(totals.plannedDays),
+            actualDays: round2(totals.actualDays),
+            actualHours: round2(totals.actualHours),
+            plannedCost: round2(totals.plannedCost),
+            actualCost: round2(totals.actualCost),
+        },
+    };
+};
+
+/**
+ * Parsing di un CSV con riga di intestazione. Il separatore (`;` o `,`) è dedotto
+ * dall'intestazione, così funzionano sia gli export di Excel in italiano sia quelli standard;
+ * i campi tra doppi apici possono contenere separatori, a capo e apici raddoppiati.
+ */
+export const parseTimesheetCsv = (text: string): Record<string, string>[] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const headerLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = (headerLine.match(/;/g) || []).length >= (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const [header, ...rows] = records.filter(r => r.some(value => value.trim() !== ''));
+    if (!header) return [];
+    const keys = header.map(h => h.trim());
+    return rows.map(values => Object.fromEntries(keys.map((key, i) => [key, (values[i] ?? '').trim()])));
+};
+
+export interface TimesheetImportRow {
+    resourceName: string;
+    projectName: string;
+    date: string;
+    hours: number;
+    notes: string | null;
+}
+
+/** Normalizza una data di import: ISO (anche con orario) o formato italiano `gg/mm/aaaa`. */
+const normalizeImportDate = (value: unknown): string | null => {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : toISODateString(value);
+    const text = String(value ?? '').trim();
+    const iso = text.split('T')[0];
+    if (ISO_DATE.test(iso)) return iso;
+    const it = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (it) return `${it[3]}-${it[2].padStart(2, '0')}-${it[1].padStart(2, '0')}`;
+    return null;
+};
+
+/**
+ * Normalizza una riga del foglio/CSV di import timesheet (intestazioni italiane o chiavi
+ * camelCase). Le ore accettano la virgola decimale. Restituisce l'errore se la riga è scartata.
+ */
+export const normalizeTimesheetImportRow = (row: Record<string, unknown>): TimesheetImportRow | { error: string } => {
+    const resourceName = String(row['Nome Risorsa'] ?? row.resourceName ?? '').trim();
+    const projectName = String(row['Progetto'] ?? row.projectName ?? '').trim();
+    const rawDate = row['Data'] ?? row.date;
+    const rawHours = row['Ore'] ?? row.hours;
+    const notes = String(row['Note'] ?? row.notes ?? '').trim() || null;
+
+    if (!resourceName || !projectName) return { error: 'Risorsa o progetto mancanti.' };
+    const date = normalizeImportDate(rawDate);
+    if (!date) return { error: `Data non valida: '${rawDate ?? ''}'.` };
+    const hours = typeof rawHours === 'number' ? rawHours : Number(String(rawHours ?? '').trim().replace(',', '.'));
+    if (!Number.isFinite(hours) || hours <= 0 || hours > TIMESHEET_MAX_DAILY_HOURS) return { error: `Ore non valide: '${rawHours ?? ''}'.` };
+    return { resourceName, projectName, date, hours, notes };
+};
@@ -0,0 +1,127 @@
+/**
+ * @file workScheduleUtils.test.ts
+ * @description Test degli orari di lavoro per risorsa: capacità in giorni/uomo con part-time e
+ * festività, assenze, giorni/uomo allocati, FTE e validazione dei periodi sovrapposti.
+ */
+import { describe, it, expect } from 'vitest';
+import type { LeaveRequest, LeaveType, WorkSchedule } from '../types';
+import { buildHolidaySet, getWorkingDaysBetween } from './dateUtils';
+import {
+    findWorkSchedule, getAllocatedPersonDays, getResourceFte, getScheduledLeaveDays, getScheduledWorkingDays,
+    getScheduleFte, validateWorkSchedule,
+} from './workScheduleUtils';
+
+const utc = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const schedule = (overrides: Partial<WorkSchedule>): WorkSchedule => ({
+    id: 'ws1', resourceId: 'r1',
+    mondayHours: 8, tuesdayHours: 8, wednesdayHours: 8, thursdayHours: 8, fridayHours: 8, saturdayHours: 0, sundayHours: 0,
+    validFrom: '2025-01-01', validTo: null,
+    ...overrides,
+});
+
+// Part-time verticale: 4 giorni da 8 ore, venerdì libero (0.8 FTE)
+const fourDays = schedule({ id: 'ws4', fridayHours: 0, validFrom: '2025-03-10' });
+// Part-time orizzontale: 4 ore dal lunedì al venerdì (0.5 FTE)
+const halfDays = schedule({ id: 'wsHalf', mondayHours: 4, tuesdayHours: 4, wednesdayHours: 4, thursdayHours: 4, fridayHours: 4 });
+
+const holidaySet = buildHolidaySet([
+    { name: 'Santo Patrono', date: '2025-03-12', type: 'LOCAL_HOLIDAY', location: 'Milano' },
+]);
+
+describe('getScheduledWorkingDays', () => {
+    it('senza orario coincide con i giorni lavorativi standard', () => {
+        const calendar = [{ name: 'Santo Patrono', date: '2025-03-12', type: 'LOCAL_HOLIDAY' as const, location: 'Milano' }];
+        const start = utc('2025-03-01');
+        const end = utc('2025-03-31');
+        expect(getScheduledWorkingDays(start, end, holidaySet, 'Milano', undefined))
+            .toBe(getWorkingDaysBetween(start, end, calendar, 'Milano'));
+    });
+
+    it('somma le frazioni di giornata dell\'orario valido giorno per giorno', () => {
+        // Settimana 10-14 marzo: 4 giorni da 8 ore, patrono di Milano il 12
+        expect(getScheduledWorkingDays(utc('2025-03-10'), utc('2025-03-16'), holidaySet, 'Milano', [fourDays])).toBe(3);
+        expect(getScheduledWorkingDays(utc('2025-03-10'), utc('2025-03-16'), holidaySet, 'Roma', [halfDays])).toBe(2.5);
+        // Settimana precedente all'inizio del part-time: tempo pieno
+        expect(getScheduledWorkingDays(utc('2025-03-03'), utc('2025-03-09'), holidaySet, 'Roma', [fourDays])).toBe(5);
+    });
+});
+
+describe('getScheduledLeaveDays', () => {
+    const ferie: LeaveType = { id: 'lt1', name: 'Ferie', color: '#000', requiresApproval: true, affectsCapacity: true };
+    const leave = (overrides: Partial<LeaveRequest>): LeaveRequest => ({
+        id: 'l1', resourceId: 'r1', typeId: 'lt1', startDate: '2025-03-13', endDate: '2025-03-17', status: 'APPROVED', ...overrides,
+    });
+
+    it('conta solo i giorni lavorati secondo l\'orario e dimezza le mezze giornate', () => {
+        // 13 (gio), 14 (ven libero), 17 (lun): 2 giorni
+        expect(getScheduledLeaveDays(utc('2025-03-01'), utc('2025-03-31'), leave({}), ferie, holidaySet, 'Roma', [fourDays])).toBe(2);
+        expect(getScheduledLeaveDays(utc('2025-03-01'), utc('2025-03-31'), leave({ isHalfDay: true }), ferie, holidaySet, 'Roma', [halfDays])).toBe(0.75);
+    });
+
+    it('ignora le assenze non approvate o che non riducono la capacità', () => {
+        expect(getScheduledLeaveDays(utc('2025-03-01'), utc('2025-03-31'), leave({ status: 'PENDING' }), ferie, holidaySet, 'Roma', undefined)).toBe(0);
+        expect(getScheduledLeaveDays(utc('2025-03-01'), utc('2025-03-31'), leave({}), { ...ferie, affectsCapacity: false }, holidaySet, 'Roma', undefined)).toBe(0);
+    });
+});
+
+describe('getAllocatedPersonDays', () => {
+    it('rapporta la percentuale alle ore previste nel giorno', () => {
+        expect(getAllocatedPersonDays(100, utc('2025-03-11'), holidaySet, 'Roma', [halfDays])).toBe(0.5);
+        expect(getAllocatedPersonDays(50, utc('2025-03-11'), holidaySet, 'Roma', undefined)).toBe(0.5);
+        // Venerdì libero, festività della sede e weekend non contano
+        expect(getAllocatedPersonDays(100, utc('2025-03-14'), holidaySet, 'Roma', [fourDays])).toBe(0);
+        expect(getAllocatedPersonDays(100, utc('2025-03-12'), holidaySet, 'Milano', undefined)).toBe(0);
+        expect(getAllocatedPersonDays(100, utc('2025-03-15'), holidaySet, 'Roma', undefined)).toBe(0);
+    });
+});
+
+describe('FTE', () => {
+    it('calcola l\'FTE dell\'orario e della risorsa alla data', () => {
+        expect(getScheduleFte(fourDays)).toBe(0.8);
+        expect(getResourceFte({ maxStaffingPercentage: 50 }, [halfDays], '2025-06-01')).toBe(0.25);
+        expect(getResourceFte({ maxStaffingPercentage: 100 }, [fourDays], '2025-02-01')).toBe(1);
+    });
+
+    it('a parità di validità preferisce l\'orario iniziato più di recente', () => {
+        expect(findWorkSchedule([halfDays, fourDays], '2025-04-01')?.id).toBe('ws4');
+        expect(findWorkSchedule([halfDays, fourDays], '2025-02-01')?.id).toBe('wsHalf');
+    });
+});
+
+describe('calendario di sede', () => {
+    const napoli = buildHolidaySet([], [
+        { location: 'Napoli', workingDays: [1, 2, 3, 4, 5, 6], dailyHours: 6, recurringClosures: [] },
+    ]);
+
+    it('senza orario segue la settimana della sede, con orario rapporta le ore alla giornata della sede', () => {
+        // Settimana 10-16 marzo: lunedì-sabato
+        expect(getScheduledWorkingDays(utc('2025-03-10'), utc('2025-03-16'), napoli, 'Napoli', undefined)).toBe(6);
+        // 4 ore su una giornata standard di 6 ore
+        expect(getAllocatedPersonDays(100, utc('2025-03-11'), napoli, 'Napoli', [halfDays])).toBeCloseTo(4 / 6);
+    });
+
+    it('calcola l\'FTE sulla settimana standard della sede', () => {
+        const calendar = { location: 'Napoli', workingDays: [1, 2, 3, 4, 5, 6], dailyHours: 6, recurringClosures: [] };
+        expect(getScheduleFte(halfDays, calendar)).toBeCloseTo(20 / 36);
+        expect(getResourceFte({ maxStaffingPercentage: 100 }, undefined, '2025-03-10', calendar)).toBe(1);
+    });
+});
+
+describe('validateWorkSchedule', () => {
+    const existing = [schedule({ id: 'a', validFrom: '2025-01-01', validTo: '2025-06-30' })];
+
+    it('accetta un periodo successivo e la modifica dello stesso orario', () => {
+        expect(validateWorkSchedule(schedule({ id: undefined, validFrom: '2025-07-01' }), existing)).toBeNull();
+        expect(validateWorkSchedule(schedule({ id: 'a', validFrom: '2025-02-01', validTo: '2025-06-30' }), existing)).toBeNull();
+    });
+
+    it('rifiuta sovrapposizioni, periodi invertiti, ore fuori intervallo e orari vuoti', () => {
+        expect(validateWorkSchedule(schedule({ id: undefined, validFrom: '2025-06-01' }), existing)).toMatch(/sovrappone/);
+        expect(validateWorkSchedule(schedule({ id: undefined, validFrom: '2025-08-01', validTo: '2025-07-01' }), [])).toMatch(/precedere/);
+        expect(validateWorkSchedule(schedule({ mondayHours: 25 }), [])).toMatch(/lunedì/);
+        expect(validateWorkSchedule(schedule({
+            mondayHours: 0, tuesdayHours: 0, wednesdayHours: 0, thursdayHours: 0, fridayHours: 0,
+        }), [])).toMatch(/almeno un giorno/);
+    });
+});
@@ -0,0 +1,214 @@
+/**
+ * @file workScheduleUtils.ts
+ * @description Orari di lavoro per risorsa (part-time, riduzioni su alcuni giorni della settimana):
+ * risoluzione dell'orario valido a una data, capacità in giorni/uomo (ore / giornata standard
+ * della sede) al netto delle festività e delle chiusure della sede, FTE e validazione dei periodi.
+ *
+ * Senza orario registrato una risorsa segue la settimana lavorativa della sede (di default
+ * 8 ore dal lunedì al venerdì), quindi i risultati coincidono con `getWorkingDaysBetweenWithSet`.
+ */
+import type { LeaveRequest, LeaveType, LocationCalendar, WorkSchedule } from '../types';
+import {
+    DEFAULT_DAILY_HOURS, DEFAULT_WORKING_DAYS, getLocationCalendar, isHolidayInSet, parseISODate, toISODateString,
+    type HolidaySet,
+} from './dateUtils.js';
+
+/** Ore di una giornata standard (1 giorno/uomo) per le sedi senza calendario, come per i timesheet. */
+export const STANDARD_DAILY_HOURS = DEFAULT_DAILY_HOURS;
+export const STANDARD_WEEKLY_HOURS = STANDARD_DAILY_HOURS * 5;
+
+export type WorkScheduleHoursKey =
+    'mondayHours' | 'tuesdayHours' | 'wednesdayHours' | 'thursdayHours' | 'fridayHours' | 'saturdayHours' | 'sundayHours';
+
+/** Giorni della settimana nell'ordine di visualizzazione (lunedì → domenica). */
+export const WORK_SCHEDULE_WEEKDAYS: { key: WorkScheduleHoursKey; label: string; shortLabel: string }[] = [
+    { key: 'mondayHours', label: 'Lunedì', shortLabel: 'Lun' },
+    { key: 'tuesdayHours', label: 'Martedì', shortLabel: 'Mar' },
+    { key: 'wednesdayHours', label: 'Mercoledì', shortLabel: 'Mer' },
+    { key: 'thursdayHours', label: 'Giovedì', shortLabel: 'Gio' },
+    { key: 'fridayHours', label: 'Venerdì', shortLabel: 'Ven' },
+    { key: 'saturdayHours', label: 'Sabato', shortLabel: 'Sab' },
+    { key: 'sundayHours', label: 'Domenica', shortLabel: 'Dom' },
+];
+
+/** Chiave delle ore per `Date.getUTCDay()` (0 = domenica). */
+const HOURS_KEY_BY_UTC_DAY: WorkScheduleHoursKey[] = [
+    'sundayHours', 'mondayHours', 'tuesdayHours', 'wednesdayHours', 'thursdayHours', 'fridayHours', 'saturdayHours',
+];
+
+/** Orario di default: tempo pieno dal lunedì al venerdì. */
+export const FULL_TIME_HOURS: Record<WorkScheduleHoursKey, number> = {
+    mondayHours: 8, tuesdayHours: 8, wednesdayHours: 8, thursdayHours: 8, fridayHours: 8, saturdayHours: 0, sundayHours: 0,
+};
+
+/** Orario a tempo pieno della sede: ore standard nei giorni lavorativi del calendario. */
+export const getStandardHours = (locationCalendar?: LocationCalendar): Record<WorkScheduleHoursKey, number> => {
+    if (!locationCalendar) return { ...FULL_TIME_HOURS };
+    const hours = {} as Record<WorkScheduleHoursKey, number>;
+    HOURS_KEY_BY_UTC_DAY.forEach((key, day) => {
+        hours[key] = locationCalendar.workingDays.includes(day) ? locationCalendar.dailyHours : 0;
+    });
+    return hours;
+};
+
+export const getWeeklyHours = (schedule: Pick<WorkSchedule, WorkScheduleHoursKey>): number =>
+    WORK_SCHEDULE_WEEKDAYS.reduce((sum, day) => sum + (Number(schedule[day.key]) || 0), 0);
+
+/** FTE dell'orario rispetto alla settimana standard della sede (40 ore senza calendario). */
+export const getScheduleFte = (schedule: Pick<WorkSchedule, WorkScheduleHoursKey>, locationCalendar?: LocationCalendar): number => {
+    const standardWeeklyHours = locationCalendar
+        ? locationCalendar.dailyHours * locationCalendar.workingDays.length
+        : STANDARD_WEEKLY_HOURS;
+    return standardWeeklyHours > 0 ? getWeeklyHours(schedule) / standardWeeklyHours : 0;
+};
+
+/** Raggruppa gli orari per risorsa, dal più recente (le ricerche per data scorrono poche voci). */
+export const groupWorkSchedulesByResource = (schedules: WorkSchedule[]): Map<string, WorkSchedule[]> => {
+    const byResource = new Map<string, WorkSchedule[]>();
+    for (const schedule of schedules) {
+        byResource.set(schedule.resourceId, [...(byResource.get(schedule.resourceId) || []), schedule]);
+    }
+    byResource.forEach(list => list.sort((a, b) => b.validFrom.localeCompare(a.validFrom)));
+    return byResource;
+};
+
+/** Orario valido alla data (YYYY-MM-DD); a parità vince quello iniziato più di recente. */
+export const findWorkSchedule = (schedules: WorkSchedule[] | undefined, dateIso: string): WorkSchedule | undefined => {
+    let match: WorkSchedule | undefined;
+    for (const schedule of schedules || []) {
+        if (schedule.validFrom > dateIso || (schedule.validTo && schedule.validTo < dateIso)) continue;
+        if (!match || schedule.validFrom > match.validFrom) match = schedule;
+    }
+    return match;
+};
+
+/**
+ * Frazione di giornata standard lavorata nel giorno (ore / ore standard della sede), festività
+ * escluse. Senza orario vale 1 nei giorni lavorativi della sede e 0 negli altri.
+ */
+export const getScheduledDayFraction = (
+    schedules: WorkSchedule[] | undefined,
+    date: Date,
+    locationCalendar?: LocationCalendar
+): number => {
+    const schedule = schedules?.length ? findWorkSchedule(schedules, toISODateString(date)) : undefined;
+    if (!schedule) return (locationCalendar?.workingDays || DEFAULT_WORKING_DAYS).includes(date.getUTCDay()) ? 1 : 0;
+    const dailyHours = locationCalendar?.dailyHours || STANDARD_DAILY_HOURS;
+    return (Number(schedule[HOURS_KEY_BY_UTC_DAY[date.getUTCDay()]]) || 0) / dailyHours;
+};
+
+/** Giorno lavorativo secondo l'orario della risorsa e il calendario della sede (festività escluse). */
+export const isScheduledWorkingDay = (
+    schedules: WorkSchedule[] | undefined,
+    date: Date,
+    locationCalendar?: LocationCalendar
+): boolean =>
+    getScheduledDayFraction(schedules, date, locationCalendar) > 0;
+
+/**
+ * Capacità contrattuale in giorni/uomo tra due date incluse: somma delle frazioni di giornata
+ * dell'orario valido giorno per giorno, escluse le festività e le chiusure della sede.
+ */
+export const getScheduledWorkingDays = (
+    startDate: Date,
+    endDate: Date,
+    holidaySet: HolidaySet,
+    resourceLocation: string | null,
+    schedules: WorkSchedule[] | undefined
+): number => {
+    const current = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate()));
+    const end = new Date(Date.UTC(endDate.getUTCFullYear(), endDate.getUTCMonth(), endDate.getUTCDate()));
+    if (isNaN(current.getTime()) || isNaN(end.getTime())) return 0;
+
+    const locationCalendar = getLocationCalendar(holidaySet, resourceLocation);
+    let days = 0;
+    let safety = 0;
+    while (current.getTime() <= end.getTime() && safety < 5000) {
+        const fraction = getScheduledDayFraction(schedules, current, locationCalendar);
+        if (fraction > 0 && !isHolidayInSet(current, resourceLocation, holidaySet)) days += fraction;
+        current.setUTCDate(current.getUTCDate() + 1);
+        safety++;
+    }
+    return days;
+};
+
+/**
+ * Giorni/uomo di un'allocazione percentuale nel giorno. La percentuale si riferisce all'orario della
+ * risorsa: il 100% di una giornata da 4 ore vale mezza giornata standard. Zero su festività e giorni non lavorati.
+ */
+export const getAllocatedPersonDays = (
+    percentage: number,
+    date: Date,
+    holidaySet: HolidaySet,
+    resourceLocation: string | null,
+    schedules: WorkSchedule[] | undefined
+): number =>
+    isHolidayInSet(date, resourceLocation, holidaySet)
+        ? 0
+        : (percentage / 100) * getScheduledDayFraction(schedules, date, getLocationCalendar(holidaySet, resourceLocation));
+
+/**
+ * Capacità persa per un'assenza approvata nel periodo, in giorni/uomo secondo l'orario
+ * (mezza giornata = metà delle ore del giorno). Stessa semantica di `getLeaveDurationInWorkingDays`.
+ */
+export const getScheduledLeaveDays = (
+    periodStart: Date,
+    periodEnd: Date,
+    leave: LeaveRequest,
+    leaveType: LeaveType | undefined,
+    holidaySet: HolidaySet,
+    resourceLocation: string | null,
+    schedules: WorkSchedule[] | undefined
+): number => {
+    if (!leaveType?.affectsCapacity || leave.status !== 'APPROVED') return 0;
+    const leaveStart = parseISODate(leave.startDate);
+    const leaveEnd = parseISODate(leave.endDate);
+    const start = new Date(Math.max(periodStart.getTime(), leaveStart.getTime()));
+    const end = new Date(Math.min(periodEnd.getTime(), leaveEnd.getTime()));
+    if (start > end) return 0;
+    const days = getScheduledWorkingDays(start, end, holidaySet, resourceLocation, schedules);
+    return leave.isHalfDay ? days / 2 : days;
+};
+
+/** FTE della risorsa alla data: orario valido (rispetto alla sede) × percentuale massima di staffing. */
+export const getResourceFte = (
+    resource: { maxStaffingPercentage?: number | null },
+    schedules: WorkSchedule[] | undefined,
+    dateIso: string,
+    locationCalendar?: LocationCalendar
+): number => {
+    const schedule = findWorkSchedule(schedules, dateIso);
+    return (schedule ? getScheduleFte(schedule, locationCalendar) : 1) * ((resource.maxStaffingPercentage ?? 100) / 100);
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Valida un orario rispetto agli altri orari della stessa risorsa: ore tra 0 e 24 con almeno un
+ * giorno lavorato, periodo coerente e nessuna sovrapposizione. Restituisce il messaggio d'errore o null.
+ */
+export const validateWorkSchedule = (
+    schedule: Partial<WorkSchedule>,
+    existing: Pick<WorkSchedule, 'id' | 'resourceId' | 'validFrom' | 'validTo'>[]
+): string | null => {
+    if (!schedule.resourceId) return 'Risorsa obbligatoria.';
+    if (!schedule.validFrom || !ISO_DATE_PATTERN.test(schedule.validFrom)) return 'Data di inizio validità obbligatoria (YYYY-MM-DD).';
+    if (schedule.validTo && (!ISO_DATE_PATTERN.test(schedule.validTo) || schedule.validTo < schedule.validFrom)) {
+        return 'La fine validità non può precedere l\'inizio.';
+    }
+    for (const day of WORK_SCHEDULE_WEEKDAYS) {
+        const hours = schedule[day.key];
+        if (typeof hours !== 'number' || !Number.isFinite(hours) || hours < 0 || hours > 24) {
+            return `Ore di ${day.label.toLowerCase()} non valide (0-24).`;
+        }
+    }
+    if (getWeeklyHours(schedule as WorkSchedule) === 0) return 'L\'orario deve prevedere almeno un giorno lavorato.';
+    const overlapping = existing.find(other =>
+        other.resourceId === schedule.resourceId && other.id !== schedule.id &&
+        (!other.validTo || other.validTo >= schedule.validFrom!) &&
+        (!schedule.validTo || other.validFrom <= schedule.validTo));
+    if (overlapping) {
+        return `Il periodo si sovrappone all'orario valido dal ${overlapping.validFrom}${overlapping.validTo ? ` al ${overlapping.validTo}` : ''}.`;
+    }
+    return null;
+};